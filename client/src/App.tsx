@@ -1,20 +1,22 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { trpc } from '@/utils/trpc';
+import { trpc, setAuthTokens } from '@/utils/trpc';
 import { AuthForm } from '@/components/AuthForm';
 import { StudentDashboard } from '@/components/StudentDashboard';
 import { InstructorDashboard } from '@/components/InstructorDashboard';
 import { AdminDashboard } from '@/components/AdminDashboard';
 import { MessagingSystem } from '@/components/MessagingSystem';
+import { ProfileSettings } from '@/components/ProfileSettings';
 import { Badge } from '@/components/ui/badge';
-import { Bell, MessageSquare, LogOut, BookOpen } from 'lucide-react';
-import type { User, Notification } from '../../server/src/schema';
+import { Bell, MessageSquare, LogOut, BookOpen, Settings } from 'lucide-react';
+import type { User, Notification, Profile } from '../../server/src/schema';
 
 function App() {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [showMessaging, setShowMessaging] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
   const [unreadCount, setUnreadCount] = useState(0);
 
   // Load user notifications
@@ -47,15 +49,26 @@ function App() {
   const handleLogout = async () => {
     if (currentUser) {
       try {
-        await trpc.logout.mutate({ userId: currentUser.id });
+        await trpc.logout.mutate();
       } catch (error) {
         console.error('Logout error:', error);
       }
     }
+    setAuthTokens(null);
     setCurrentUser(null);
     setNotifications([]);
     setUnreadCount(0);
     setShowMessaging(false);
+    setShowSettings(false);
+  };
+
+  const handleProfileUpdate = (profile: Profile) => {
+    setCurrentUser((prev: User | null) => prev ? {
+      ...prev,
+      first_name: profile.first_name,
+      last_name: profile.last_name,
+      avatar_url: profile.avatar_url
+    } : prev);
   };
 
   const markNotificationAsRead = async (notificationId: number) => {
@@ -111,6 +124,28 @@ function App() {
     );
   }
 
+  if (showSettings) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="bg-white border-b shadow-sm">
+          <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <BookOpen className="h-8 w-8 text-indigo-600" />
+              <h1 className="text-xl font-semibold">Account Settings</h1>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setShowSettings(false)}
+            >
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+        <ProfileSettings onProfileUpdate={handleProfileUpdate} />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -190,6 +225,16 @@ function App() {
               <MessageSquare className="h-5 w-5" />
             </Button>
 
+            {/* Settings */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowSettings(true)}
+              title="Account settings"
+            >
+              <Settings className="h-5 w-5" />
+            </Button>
+
             {/* Logout */}
             <Button
               variant="ghost"
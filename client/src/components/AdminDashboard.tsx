@@ -5,9 +5,16 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { trpc } from '@/utils/trpc';
 import { UserManagement } from '@/components/UserManagement';
 import { CouponManagement } from '@/components/CouponManagement';
+import { CategoryManagement } from '@/components/CategoryManagement';
+import { LearningPathManagement } from '@/components/LearningPathManagement';
+import { CourseReviews } from '@/components/CourseReviews';
+import { ModerationQueue } from '@/components/ModerationQueue';
+import { MODERATION_STATUS_LABELS, moderationStatusVariant } from '@/utils/moderation';
 import { 
   Users, 
   BookOpen, 
@@ -21,7 +28,7 @@ import {
   FileText,
   Download
 } from 'lucide-react';
-import type { User, Course, Certificate } from '../../../server/src/schema';
+import type { User, Course, Certificate, TwoFactorRequirement } from '../../../server/src/schema';
 
 interface AdminDashboardProps {
   user: User;
@@ -31,7 +38,9 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
   const [users, setUsers] = useState<User[]>([]);
   const [courses, setCourses] = useState<Course[]>([]);
   const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [twoFactorRequirements, setTwoFactorRequirements] = useState<TwoFactorRequirement[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [reviewsCourse, setReviewsCourse] = useState<Course | null>(null);
   const [stats, setStats] = useState({
     totalUsers: 0,
     totalCourses: 0,
@@ -91,6 +100,31 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
     loadAdminData();
   }, [loadAdminData]);
 
+  const loadTwoFactorRequirements = useCallback(async () => {
+    try {
+      const result = await trpc.getTwoFactorRequirements.query();
+      setTwoFactorRequirements(result);
+    } catch (error) {
+      console.error('Failed to load two-factor policy:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTwoFactorRequirements();
+  }, [loadTwoFactorRequirements]);
+
+  const handleTwoFactorRequirementChange = async (requirement: TwoFactorRequirement) => {
+    try {
+      await trpc.setTwoFactorRequirement.mutate(requirement);
+      setTwoFactorRequirements((prev: TwoFactorRequirement[]) =>
+        prev.map((r: TwoFactorRequirement) => r.role === requirement.role ? requirement : r)
+      );
+    } catch (error) {
+      console.error('Failed to update two-factor policy:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update two-factor policy');
+    }
+  };
+
   const handleUserStatusChange = async (userId: number, isActive: boolean) => {
     try {
       await trpc.updateUserStatus.mutate({ userId, isActive });
@@ -111,9 +145,14 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
     }
   };
 
-  const handleModerateCourse = async (courseId: number, action: 'approve' | 'reject') => {
+  const handleUnpublishCourse = async (courseId: number) => {
+    const reason = window.prompt('Why is this course being taken down? The instructor will see this.');
+    if (!reason || !reason.trim()) {
+      return;
+    }
+
     try {
-      await trpc.moderateCourse.mutate({ courseId, action });
+      await trpc.moderateCourse.mutate({ courseId, action: 'reject', reason: reason.trim() });
       loadAdminData();
     } catch (error) {
       console.error('Failed to moderate course:', error);
@@ -221,9 +260,13 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
         <TabsList>
           <TabsTrigger value="users">User Management</TabsTrigger>
           <TabsTrigger value="courses">Course Management</TabsTrigger>
+          <TabsTrigger value="moderation">Moderation</TabsTrigger>
           <TabsTrigger value="certificates">Certificates</TabsTrigger>
+          <TabsTrigger value="categories">Categories</TabsTrigger>
+          <TabsTrigger value="paths">Learning Paths</TabsTrigger>
           <TabsTrigger value="coupons">Coupons</TabsTrigger>
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
+          <TabsTrigger value="security">Security</TabsTrigger>
         </TabsList>
 
         <TabsContent value="users" className="space-y-4">
@@ -338,6 +381,7 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
                     <TableHead>Course</TableHead>
                     <TableHead>Instructor</TableHead>
                     <TableHead>Price</TableHead>
+                    <TableHead>Rating</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Created</TableHead>
                     <TableHead>Actions</TableHead>
@@ -350,30 +394,27 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
                       <TableCell>Instructor #{course.instructor_id}</TableCell>
                       <TableCell>${course.price}</TableCell>
                       <TableCell>
-                        <Badge variant={course.is_published ? 'default' : 'secondary'}>
-                          {course.is_published ? 'Published' : 'Draft'}
+                        <Button size="sm" variant="ghost" onClick={() => setReviewsCourse(course)}>
+                          {course.rating_count > 0 ? `${course.rating_average.toFixed(1)} ★ (${course.rating_count})` : 'No reviews'}
+                        </Button>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={moderationStatusVariant(course.moderation_status)}>
+                          {MODERATION_STATUS_LABELS[course.moderation_status]}
                         </Badge>
                       </TableCell>
                       <TableCell>{course.created_at.toLocaleDateString()}</TableCell>
                       <TableCell>
                         <div className="flex space-x-2">
-                          {course.is_published && (
+                          {course.moderation_status === 'published' && (
                             <Button
                               size="sm"
                               variant="outline"
-                              onClick={() => handleModerateCourse(course.id, 'reject')}
+                              onClick={() => handleUnpublishCourse(course.id)}
                             >
                               Unpublish
                             </Button>
                           )}
-                          {!course.is_published && (
-                            <Button
-                              size="sm"
-                              onClick={() => handleModerateCourse(course.id, 'approve')}
-                            >
-                              Approve
-                            </Button>
-                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -399,6 +440,18 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
           </Card>
         </TabsContent>
 
+        <TabsContent value="moderation" className="space-y-4">
+          <ModerationQueue onModerated={loadAdminData} />
+        </TabsContent>
+
+        <TabsContent value="categories" className="space-y-4">
+          <CategoryManagement />
+        </TabsContent>
+
+        <TabsContent value="paths" className="space-y-4">
+          <LearningPathManagement />
+        </TabsContent>
+
         <TabsContent value="coupons" className="space-y-4">
           <CouponManagement />
         </TabsContent>
@@ -448,7 +501,45 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
             </div>
           </div>
         </TabsContent>
+
+        <TabsContent value="security" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Shield className="h-5 w-5 mr-2" />
+                Two-Factor Policy
+              </CardTitle>
+              <CardDescription>Require two-factor authentication before users in a role can use their dashboard</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {twoFactorRequirements.map((requirement: TwoFactorRequirement) => (
+                <div key={requirement.role} className="flex items-center justify-between">
+                  <Label htmlFor={`two-factor-${requirement.role}`} className="capitalize">
+                    {requirement.role}s
+                  </Label>
+                  <Switch
+                    id={`two-factor-${requirement.role}`}
+                    checked={requirement.required}
+                    onCheckedChange={(checked: boolean) =>
+                      handleTwoFactorRequirementChange({ role: requirement.role, required: checked })
+                    }
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
+
+      <Dialog open={reviewsCourse !== null} onOpenChange={(open: boolean) => !open && setReviewsCourse(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Reviews</DialogTitle>
+            <DialogDescription>{reviewsCourse?.title}</DialogDescription>
+          </DialogHeader>
+          {reviewsCourse && <CourseReviews course={reviewsCourse} user={user} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -6,9 +6,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { trpc } from '@/utils/trpc';
-import { UserPlus, LogIn, Mail, AlertCircle } from 'lucide-react';
-import type { User, RegisterInput, LoginInput, UserRole } from '../../../server/src/schema';
+import { trpc, setAuthTokens } from '@/utils/trpc';
+import { UserPlus, LogIn, Mail, AlertCircle, ShieldCheck, Building2 } from 'lucide-react';
+import type { User, RegisterInput, RegistrationRole, LoginInput, LoginResult, TwoFactorEnrollment, SsoProvider } from '../../../server/src/schema';
 
 interface AuthFormProps {
   onLogin: (user: User) => void;
@@ -26,6 +26,14 @@ export function AuthForm({ onLogin }: AuthFormProps) {
     password: ''
   });
 
+  // Two-factor state: second login step, or enrollment when the role requires it
+  const [loginStep, setLoginStep] = useState<'credentials' | 'twoFactor' | 'setup' | 'recoveryCodes'>('credentials');
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [pendingUser, setPendingUser] = useState<User | null>(null);
+
   // Registration form state
   const [registerData, setRegisterData] = useState<RegisterInput>({
     email: '',
@@ -38,6 +46,100 @@ export function AuthForm({ onLogin }: AuthFormProps) {
   // Forgot password state
   const [forgotEmail, setForgotEmail] = useState('');
 
+  // Reset password state (token arrives via the emailed link)
+  const [resetToken, setResetToken] = useState<string | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+
+  // Single sign-on providers offered on the login tab
+  const [ssoProviders, setSsoProviders] = useState<SsoProvider[]>([]);
+
+  useEffect(() => {
+    trpc.getSsoProviders.query()
+      .then(setSsoProviders)
+      .catch((error: unknown) => console.error('Failed to load sign-in providers:', error));
+  }, []);
+
+  // Pick up verification and reset tokens when arriving from an emailed link
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const verifyToken = params.get('verifyToken');
+    const linkResetToken = params.get('resetToken');
+    if (!verifyToken && !linkResetToken) return;
+
+    params.delete('verifyToken');
+    params.delete('resetToken');
+    const query = params.toString();
+    window.history.replaceState(null, '', window.location.pathname + (query ? `?${query}` : ''));
+
+    if (linkResetToken) {
+      setResetToken(linkResetToken);
+      setActiveTab('forgot');
+    }
+
+    if (verifyToken) {
+      trpc.verifyEmail.mutate({ token: verifyToken })
+        .then(() => setSuccess('Email verified! You can now login.'))
+        .catch((error: unknown) => setError(error instanceof Error ? error.message : 'Email verification failed'));
+    }
+  }, []);
+
+  // Store the session, then either finish or walk the user through required two-factor setup
+  const finishLogin = useCallback(async (result: LoginResult) => {
+    if (result.twoFactorRequired) {
+      setChallengeToken(result.challengeToken);
+      setTwoFactorCode('');
+      setLoginStep('twoFactor');
+      return;
+    }
+
+    setAuthTokens({ token: result.token, refreshToken: result.refreshToken });
+
+    if (result.twoFactorSetupRequired) {
+      const setup = await trpc.beginTwoFactorEnrollment.mutate();
+      setPendingUser(result.user);
+      setEnrollment(setup);
+      setTwoFactorCode('');
+      setLoginStep('setup');
+      return;
+    }
+
+    onLogin(result.user);
+  }, [onLogin]);
+
+  // The identity provider sends the browser back with ?sso=callback&code=...&state=...
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (params.get('sso') !== 'callback') return;
+
+    window.history.replaceState(null, '', window.location.pathname);
+
+    const code = params.get('code');
+    const state = params.get('state');
+    if (!code || !state) {
+      setError(params.get('error_description') || 'Single sign-on was cancelled');
+      return;
+    }
+
+    setIsLoading(true);
+    trpc.completeSsoLogin.mutate({ code, state })
+      .then(finishLogin)
+      .catch((error: unknown) => setError(error instanceof Error ? error.message : 'Single sign-on failed'))
+      .finally(() => setIsLoading(false));
+  }, [finishLogin]);
+
+  const handleSsoLogin = async (providerId: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { authorizationUrl } = await trpc.beginSsoLogin.mutate({ provider: providerId });
+      window.location.assign(authorizationUrl);
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Single sign-on failed');
+      setIsLoading(false);
+    }
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -45,14 +147,67 @@ export function AuthForm({ onLogin }: AuthFormProps) {
 
     try {
       const result = await trpc.login.mutate(loginData);
-      onLogin(result.user);
-    } catch (error: any) {
-      setError(error.message || 'Login failed');
+      await finishLogin(result);
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Login failed');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleTwoFactorLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await trpc.completeTwoFactorLogin.mutate({ challengeToken, code: twoFactorCode });
+      setChallengeToken(null);
+      await finishLogin(result);
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Verification failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirmSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await trpc.confirmTwoFactorEnrollment.mutate({ code: twoFactorCode });
+      setRecoveryCodes(result.recoveryCodes);
+      setEnrollment(null);
+      setLoginStep('recoveryCodes');
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Verification failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFinishSetup = () => {
+    if (pendingUser) {
+      onLogin(pendingUser);
+    }
+  };
+
+  const resetLoginStep = () => {
+    if (loginStep === 'setup') {
+      setAuthTokens(null);
+    }
+    setLoginStep('credentials');
+    setChallengeToken(null);
+    setEnrollment(null);
+    setPendingUser(null);
+    setTwoFactorCode('');
+    setError(null);
+  };
+
   const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -61,7 +216,7 @@ export function AuthForm({ onLogin }: AuthFormProps) {
 
     try {
       const user = await trpc.register.mutate(registerData);
-      setSuccess('Registration successful! You can now login.');
+      setSuccess('Registration successful! Check your email to verify your account, then login.');
       setActiveTab('login');
       setRegisterData({
         email: '',
@@ -77,6 +232,47 @@ export function AuthForm({ onLogin }: AuthFormProps) {
     }
   };
 
+  const handleResendVerification = async () => {
+    if (!loginData.email) {
+      setError('Enter your email address first');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await trpc.resendVerificationEmail.mutate({ email: loginData.email });
+      setSuccess('If your account needs verification, a new email is on its way.');
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Failed to resend verification email');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resetToken) return;
+
+    setIsLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await trpc.resetPassword.mutate({ token: resetToken, newPassword });
+      setSuccess('Password updated! You can now login with your new password.');
+      setResetToken(null);
+      setNewPassword('');
+      setActiveTab('login');
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Failed to reset password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleForgotPassword = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -126,43 +322,170 @@ export function AuthForm({ onLogin }: AuthFormProps) {
         )}
 
         <TabsContent value="login">
-          <CardHeader>
-            <CardTitle>Welcome Back</CardTitle>
-            <CardDescription>Sign in to your account to continue learning</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleLogin} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="login-email">Email</Label>
-                <Input
-                  id="login-email"
-                  type="email"
-                  value={loginData.email}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                    setLoginData((prev: LoginInput) => ({ ...prev, email: e.target.value }))
-                  }
-                  placeholder="Enter your email"
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="login-password">Password</Label>
-                <Input
-                  id="login-password"
-                  type="password"
-                  value={loginData.password}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                    setLoginData((prev: LoginInput) => ({ ...prev, password: e.target.value }))
-                  }
-                  placeholder="Enter your password"
-                  required
-                />
-              </div>
-              <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading ? 'Signing In...' : 'Sign In'}
-              </Button>
-            </form>
-          </CardContent>
+          {loginStep === 'twoFactor' && (
+            <>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <ShieldCheck className="h-5 w-5 mr-2" />
+                  Two-Factor Verification
+                </CardTitle>
+                <CardDescription>Enter the code from your authenticator app or a recovery code</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleTwoFactorLogin} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="two-factor-code">Verification Code</Label>
+                    <Input
+                      id="two-factor-code"
+                      value={twoFactorCode}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setTwoFactorCode(e.target.value)
+                      }
+                      placeholder="123456"
+                      autoComplete="one-time-code"
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={isLoading}>
+                    {isLoading ? 'Verifying...' : 'Verify'}
+                  </Button>
+                  <Button type="button" variant="link" className="w-full" onClick={resetLoginStep}>
+                    Back to sign in
+                  </Button>
+                </form>
+              </CardContent>
+            </>
+          )}
+
+          {loginStep === 'setup' && enrollment && (
+            <>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <ShieldCheck className="h-5 w-5 mr-2" />
+                  Set Up Two-Factor Authentication
+                </CardTitle>
+                <CardDescription>Your role requires two-factor authentication before you can continue</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleConfirmSetup} className="space-y-4">
+                  <div className="space-y-2 text-sm">
+                    <p>Add this account to your authenticator app using the setup key or link below:</p>
+                    <code className="block p-2 bg-gray-100 rounded break-all">{enrollment.secret}</code>
+                    <a href={enrollment.otpauthUrl} className="text-indigo-600 underline break-all">
+                      Open in authenticator app
+                    </a>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="two-factor-setup-code">Verification Code</Label>
+                    <Input
+                      id="two-factor-setup-code"
+                      value={twoFactorCode}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setTwoFactorCode(e.target.value)
+                      }
+                      placeholder="123456"
+                      autoComplete="one-time-code"
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={isLoading}>
+                    {isLoading ? 'Verifying...' : 'Enable Two-Factor'}
+                  </Button>
+                  <Button type="button" variant="link" className="w-full" onClick={resetLoginStep}>
+                    Cancel
+                  </Button>
+                </form>
+              </CardContent>
+            </>
+          )}
+
+          {loginStep === 'recoveryCodes' && (
+            <>
+              <CardHeader>
+                <CardTitle>Save Your Recovery Codes</CardTitle>
+                <CardDescription>Each code works once if you lose access to your authenticator app</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                  {recoveryCodes.map((code: string) => (
+                    <code key={code} className="p-2 bg-gray-100 rounded text-center">{code}</code>
+                  ))}
+                </div>
+                <Button className="w-full" onClick={handleFinishSetup}>
+                  I have saved these codes
+                </Button>
+              </CardContent>
+            </>
+          )}
+
+          {loginStep === 'credentials' && (
+            <>
+              <CardHeader>
+                <CardTitle>Welcome Back</CardTitle>
+                <CardDescription>Sign in to your account to continue learning</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleLogin} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="login-email">Email</Label>
+                    <Input
+                      id="login-email"
+                      type="email"
+                      value={loginData.email}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setLoginData((prev: LoginInput) => ({ ...prev, email: e.target.value }))
+                      }
+                      placeholder="Enter your email"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="login-password">Password</Label>
+                    <Input
+                      id="login-password"
+                      type="password"
+                      value={loginData.password}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setLoginData((prev: LoginInput) => ({ ...prev, password: e.target.value }))
+                      }
+                      placeholder="Enter your password"
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={isLoading}>
+                    {isLoading ? 'Signing In...' : 'Sign In'}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="link"
+                    className="w-full"
+                    onClick={handleResendVerification}
+                    disabled={isLoading}
+                  >
+                    Resend verification email
+                  </Button>
+                </form>
+                {ssoProviders.length > 0 && (
+                  <div className="mt-4 space-y-2">
+                    <p className="text-center text-sm text-gray-500">Or sign in with your school</p>
+                    {ssoProviders.map((provider: SsoProvider) => (
+                      <Button
+                        key={provider.id}
+                        type="button"
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => handleSsoLogin(provider.id)}
+                        disabled={isLoading}
+                      >
+                        <Building2 className="h-4 w-4 mr-2" />
+                        {provider.name}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </>
+          )}
         </TabsContent>
 
         <TabsContent value="register">
@@ -222,7 +545,7 @@ export function AuthForm({ onLogin }: AuthFormProps) {
                   onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
                     setRegisterData((prev: RegisterInput) => ({ ...prev, password: e.target.value }))
                   }
-                  placeholder="Minimum 8 characters"
+                  placeholder="8+ characters, with a letter and a number"
                   minLength={8}
                   required
                 />
@@ -232,7 +555,7 @@ export function AuthForm({ onLogin }: AuthFormProps) {
                 <Label htmlFor="role">Role</Label>
                 <Select
                   value={registerData.role}
-                  onValueChange={(value: UserRole) =>
+                  onValueChange={(value: RegistrationRole) =>
                     setRegisterData((prev: RegisterInput) => ({ ...prev, role: value }))
                   }
                 >
@@ -242,7 +565,6 @@ export function AuthForm({ onLogin }: AuthFormProps) {
                   <SelectContent>
                     <SelectItem value="student">Student - Learn and take courses</SelectItem>
                     <SelectItem value="instructor">Instructor - Create and manage courses</SelectItem>
-                    <SelectItem value="administrator">Administrator - Manage platform</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -255,30 +577,62 @@ export function AuthForm({ onLogin }: AuthFormProps) {
         </TabsContent>
 
         <TabsContent value="forgot">
-          <CardHeader>
-            <CardTitle>Reset Password</CardTitle>
-            <CardDescription>Enter your email to receive reset instructions</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleForgotPassword} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="forgot-email">Email</Label>
-                <Input
-                  id="forgot-email"
-                  type="email"
-                  value={forgotEmail}
-                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                    setForgotEmail(e.target.value)
-                  }
-                  placeholder="Enter your email"
-                  required
-                />
-              </div>
-              <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading ? 'Sending...' : 'Send Reset Instructions'}
-              </Button>
-            </form>
-          </CardContent>
+          {resetToken ? (
+            <>
+              <CardHeader>
+                <CardTitle>Choose a New Password</CardTitle>
+                <CardDescription>You will be signed out of all other devices</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleResetPassword} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="new-password">New Password</Label>
+                    <Input
+                      id="new-password"
+                      type="password"
+                      value={newPassword}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setNewPassword(e.target.value)
+                      }
+                      placeholder="8+ characters, with a letter and a number"
+                      minLength={8}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={isLoading}>
+                    {isLoading ? 'Updating...' : 'Update Password'}
+                  </Button>
+                </form>
+              </CardContent>
+            </>
+          ) : (
+            <>
+              <CardHeader>
+                <CardTitle>Reset Password</CardTitle>
+                <CardDescription>Enter your email to receive reset instructions</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleForgotPassword} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="forgot-email">Email</Label>
+                    <Input
+                      id="forgot-email"
+                      type="email"
+                      value={forgotEmail}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setForgotEmail(e.target.value)
+                      }
+                      placeholder="Enter your email"
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={isLoading}>
+                    {isLoading ? 'Sending...' : 'Send Reset Instructions'}
+                  </Button>
+                </form>
+              </CardContent>
+            </>
+          )}
         </TabsContent>
       </Tabs>
     </Card>
@@ -0,0 +1,237 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import { orderCategories, type CategoryOption } from '@/utils/categories';
+import { Plus, FolderTree, Pencil, Trash2 } from 'lucide-react';
+import type { CategoryWithCount, CreateCategoryInput } from '../../../server/src/schema';
+
+const emptyCategory: CreateCategoryInput = {
+  name: '',
+  description: null,
+  parent_id: null
+};
+
+export function CategoryManagement() {
+  const [categories, setCategories] = useState<CategoryWithCount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [categoryData, setCategoryData] = useState<CreateCategoryInput>(emptyCategory);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const loadCategories = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.getCategories.query();
+      setCategories(result);
+    } catch (error) {
+      console.error('Failed to load categories:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCategories();
+  }, [loadCategories]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setCategoryData(emptyCategory);
+    setFormError(null);
+    setShowDialog(true);
+  };
+
+  const openEdit = (category: CategoryWithCount) => {
+    setEditingId(category.id);
+    setCategoryData({
+      name: category.name,
+      description: category.description,
+      parent_id: category.parent_id
+    });
+    setFormError(null);
+    setShowDialog(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    try {
+      if (editingId === null) {
+        await trpc.createCategory.mutate(categoryData);
+      } else {
+        await trpc.updateCategory.mutate({ categoryId: editingId, updates: categoryData });
+      }
+      setShowDialog(false);
+      loadCategories();
+    } catch (error: unknown) {
+      setFormError(error instanceof Error ? error.message : 'Failed to save category');
+    }
+  };
+
+  const handleDelete = async (category: CategoryWithCount) => {
+    if (window.confirm(`Delete "${category.name}"? Its courses will become uncategorized.`)) {
+      try {
+        await trpc.deleteCategory.mutate({ categoryId: category.id });
+        loadCategories();
+      } catch (error: unknown) {
+        alert(error instanceof Error ? error.message : 'Failed to delete category');
+      }
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading categories...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const options = orderCategories(categories);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center">
+                <FolderTree className="h-6 w-6 mr-2" />
+                Categories
+              </CardTitle>
+              <CardDescription>Organize the course catalog</CardDescription>
+            </div>
+            <Button onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Category
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          {categories.length === 0 ? (
+            <div className="text-center py-12">
+              <FolderTree className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-gray-600 mb-2">No Categories Yet</h3>
+              <p className="text-gray-500">Create categories so students can browse courses by topic</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Slug</TableHead>
+                  <TableHead>Courses</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {options.map(({ category, depth }: CategoryOption) => (
+                  <TableRow key={category.id}>
+                    <TableCell className="font-medium" style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>
+                      {category.name}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm text-gray-600">{category.slug}</TableCell>
+                    <TableCell>{category.course_count}</TableCell>
+                    <TableCell>
+                      <div className="flex space-x-1">
+                        <Button size="sm" variant="outline" onClick={() => openEdit(category)} title="Edit category">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="destructive" onClick={() => handleDelete(category)} title="Delete category">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingId === null ? 'New Category' : 'Edit Category'}</DialogTitle>
+            <DialogDescription>Categories can be nested under a parent</DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="category-name">Name</Label>
+              <Input
+                id="category-name"
+                value={categoryData.name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setCategoryData((prev: CreateCategoryInput) => ({ ...prev, name: e.target.value }))
+                }
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="category-description">Description (optional)</Label>
+              <Textarea
+                id="category-description"
+                value={categoryData.description || ''}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                  setCategoryData((prev: CreateCategoryInput) => ({ ...prev, description: e.target.value || null }))
+                }
+                rows={3}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Parent</Label>
+              <Select
+                value={categoryData.parent_id ? categoryData.parent_id.toString() : 'none'}
+                onValueChange={(value: string) =>
+                  setCategoryData((prev: CreateCategoryInput) => ({
+                    ...prev,
+                    parent_id: value === 'none' ? null : parseInt(value)
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None (top level)</SelectItem>
+                  {options
+                    .filter(({ category }: CategoryOption) => category.id !== editingId)
+                    .map(({ category, depth }: CategoryOption) => (
+                      <SelectItem key={category.id} value={category.id.toString()}>
+                        {'\u00a0\u00a0'.repeat(depth)}{category.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setShowDialog(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">{editingId === null ? 'Create Category' : 'Save Changes'}</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { trpc } from '@/utils/trpc';
+import { readFileAsBase64 } from '@/utils/files';
+import { AlertTriangle, Upload } from 'lucide-react';
+import type { ContentImportResult } from '../../../server/src/schema';
+
+interface ContentImportProps {
+  courseId: number;
+  onImported: (result: ContentImportResult) => void;
+}
+
+const FORMAT_LABELS: Record<ContentImportResult['format'], string> = {
+  scorm_1_2: 'SCORM 1.2',
+  common_cartridge: 'Common Cartridge'
+};
+
+export function ContentImport({ courseId, onImported }: ContentImportProps) {
+  const [data, setData] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ContentImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // The package is checked with a dry run first so skipped items show before any lesson is created
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setPreview(null);
+    setError(null);
+    setData(null);
+    if (!file) return;
+
+    setIsWorking(true);
+    try {
+      const encoded = await readFileAsBase64(file);
+      setPreview(await trpc.importContentPackage.mutate({ courseId, data: encoded, dry_run: true }));
+      setData(encoded);
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Failed to read content package');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (data === null) return;
+    setIsWorking(true);
+    try {
+      onImported(await trpc.importContentPackage.mutate({ courseId, data, dry_run: false }));
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Failed to import content');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="content-package">SCORM 1.2 or Common Cartridge package (.zip, .imscc)</Label>
+        <Input id="content-package" type="file" accept=".zip,.imscc" onChange={handleFileChange} disabled={isWorking} />
+      </div>
+
+      {preview && (
+        <div className="border rounded p-3 space-y-2">
+          <p className="font-medium">{FORMAT_LABELS[preview.format]} package</p>
+          {preview.lessons.length > 0 ? (
+            <ol className="text-sm text-gray-600 list-decimal list-inside">
+              {preview.lessons.map((lesson) => (
+                <li key={lesson.order_index}>
+                  {lesson.title}
+                  {lesson.question_count > 0 && ` (quiz, ${lesson.question_count} questions)`}
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-sm text-gray-600">Nothing in this package can be imported.</p>
+          )}
+          {preview.unsupported.map((item, index) => (
+            <p key={index} className="flex items-start text-sm text-amber-700">
+              <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 shrink-0" />
+              {item.title}: {item.reason}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end">
+        <Button onClick={handleImport} disabled={data === null || preview?.lessons.length === 0 || isWorking}>
+          <Upload className="h-4 w-4 mr-1" />
+          {isWorking ? 'Working...' : 'Import Lessons'}
+        </Button>
+      </div>
+    </div>
+  );
+}
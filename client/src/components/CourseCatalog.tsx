@@ -0,0 +1,327 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { CourseGrid } from '@/components/CourseGrid';
+import { orderCategories, type CategoryOption } from '@/utils/categories';
+import { Search, X, ChevronRight } from 'lucide-react';
+import type {
+  CatalogCourse,
+  CourseSort,
+  CourseLevel,
+  SearchCoursesInput,
+  CategoryWithCount,
+  CategoryLanding
+} from '../../../server/src/schema';
+
+interface CourseCatalogProps {
+  enrolledCourseIds: number[];
+  onEnroll: (courseId: number) => void;
+}
+
+const SORT_LABELS: Record<CourseSort, string> = {
+  newest: 'Newest',
+  price_asc: 'Price: Low to High',
+  price_desc: 'Price: High to Low',
+  popularity: 'Most Popular',
+  rating: 'Highest Rated'
+};
+
+// Duration buckets in hours; the upper bound is inclusive
+const DURATION_RANGES: Record<string, { label: string; min?: number; max?: number }> = {
+  any: { label: 'Any length' },
+  short: { label: 'Under 5 hours', max: 5 },
+  medium: { label: '5 to 20 hours', min: 5, max: 20 },
+  long: { label: 'Over 20 hours', min: 20 }
+};
+
+const LEVEL_LABELS: Record<CourseLevel, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced'
+};
+
+interface CatalogFilters {
+  query: string;
+  minPrice: string;
+  maxPrice: string;
+  duration: string;
+  categoryId: number | null;
+  level: CourseLevel | null;
+  tag: string | null;
+  instructor: { id: number; name: string } | null;
+  sort: CourseSort;
+}
+
+const initialFilters: CatalogFilters = {
+  query: '',
+  minPrice: '',
+  maxPrice: '',
+  duration: 'any',
+  categoryId: null,
+  level: null,
+  tag: null,
+  instructor: null,
+  sort: 'newest'
+};
+
+function toSearchInput(filters: CatalogFilters, cursor: string | null): SearchCoursesInput {
+  const duration = DURATION_RANGES[filters.duration];
+  return {
+    query: filters.query || undefined,
+    minPrice: filters.minPrice ? parseFloat(filters.minPrice) : undefined,
+    maxPrice: filters.maxPrice ? parseFloat(filters.maxPrice) : undefined,
+    minDuration: duration.min,
+    maxDuration: duration.max,
+    instructorId: filters.instructor?.id,
+    categoryId: filters.categoryId ?? undefined,
+    level: filters.level ?? undefined,
+    tags: filters.tag ? [filters.tag] : undefined,
+    sort: filters.sort,
+    cursor
+  };
+}
+
+export function CourseCatalog({ enrolledCourseIds, onEnroll }: CourseCatalogProps) {
+  const [filters, setFilters] = useState<CatalogFilters>(initialFilters);
+  const [searchText, setSearchText] = useState('');
+  const [courses, setCourses] = useState<CatalogCourse[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [categories, setCategories] = useState<CategoryWithCount[]>([]);
+  const [landing, setLanding] = useState<CategoryLanding | null>(null);
+
+  const loadCategories = useCallback(async () => {
+    try {
+      const result = await trpc.getCategories.query();
+      setCategories(result);
+    } catch (error) {
+      console.error('Failed to load categories:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCategories();
+  }, [loadCategories]);
+
+  const categorySlug = categories.find((category: CategoryWithCount) => category.id === filters.categoryId)?.slug ?? null;
+
+  // Breadcrumbs and subcategories for the selected category
+  useEffect(() => {
+    if (!categorySlug) {
+      setLanding(null);
+      return;
+    }
+    trpc.getCategoryLanding.query({ slug: categorySlug })
+      .then(setLanding)
+      .catch((error: unknown) => console.error('Failed to load category:', error));
+  }, [categorySlug]);
+
+  const loadCourses = useCallback(async (activeFilters: CatalogFilters, cursor: string | null) => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.searchCourses.query(toSearchInput(activeFilters, cursor));
+      setCourses((prev: CatalogCourse[]) => cursor ? [...prev, ...result.courses] : result.courses);
+      setNextCursor(result.nextCursor);
+    } catch (error) {
+      console.error('Failed to search courses:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    loadCourses(filters, null);
+  }, [filters, loadCourses]);
+
+  const updateFilters = (changes: Partial<CatalogFilters>) => {
+    setFilters((prev: CatalogFilters) => ({ ...prev, ...changes }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ query: searchText.trim() });
+  };
+
+  const handleReset = () => {
+    setSearchText('');
+    setFilters(initialFilters);
+  };
+
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(initialFilters);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <Input
+                placeholder="Search courses..."
+                value={searchText}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchText(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Button type="submit">Search</Button>
+          </form>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              placeholder="Min $"
+              value={filters.minPrice}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilters({ minPrice: e.target.value })}
+              className="w-24"
+            />
+            <Input
+              type="number"
+              min="0"
+              placeholder="Max $"
+              value={filters.maxPrice}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilters({ maxPrice: e.target.value })}
+              className="w-24"
+            />
+            <Select value={filters.duration || 'any'} onValueChange={(value: string) => updateFilters({ duration: value })}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DURATION_RANGES).map(([key, range]) => (
+                  <SelectItem key={key} value={key}>{range.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.categoryId ? filters.categoryId.toString() : 'all'}
+              onValueChange={(value: string) => updateFilters({ categoryId: value === 'all' ? null : parseInt(value) })}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All categories</SelectItem>
+                {orderCategories(categories).map(({ category, depth }: CategoryOption) => (
+                  <SelectItem key={category.id} value={category.id.toString()}>
+                    {'\u00a0\u00a0'.repeat(depth)}{category.name} ({category.course_count})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.level || 'any'}
+              onValueChange={(value: string) => updateFilters({ level: value === 'any' ? null : value as CourseLevel })}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any level</SelectItem>
+                {(Object.keys(LEVEL_LABELS) as CourseLevel[]).map((level: CourseLevel) => (
+                  <SelectItem key={level} value={level}>{LEVEL_LABELS[level]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filters.sort || 'newest'} onValueChange={(value: CourseSort) => updateFilters({ sort: value })}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SORT_LABELS) as CourseSort[]).map((sort: CourseSort) => (
+                  <SelectItem key={sort} value={sort}>{SORT_LABELS[sort]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {filters.tag && (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                #{filters.tag}
+                <button type="button" onClick={() => updateFilters({ tag: null })} title="Clear tag">
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            )}
+            {filters.instructor && (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                {filters.instructor.name}
+                <button type="button" onClick={() => updateFilters({ instructor: null })} title="Clear instructor">
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            )}
+            {isFiltered && (
+              <Button variant="ghost" size="sm" onClick={handleReset}>
+                Clear filters
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {landing && (
+        <div className="space-y-2">
+          <div className="flex items-center text-sm text-gray-500">
+            <button type="button" className="hover:text-indigo-600" onClick={() => updateFilters({ categoryId: null })}>
+              All categories
+            </button>
+            {landing.ancestors.map((ancestor) => (
+              <span key={ancestor.id} className="flex items-center">
+                <ChevronRight className="h-4 w-4 mx-1" />
+                <button type="button" className="hover:text-indigo-600" onClick={() => updateFilters({ categoryId: ancestor.id })}>
+                  {ancestor.name}
+                </button>
+              </span>
+            ))}
+            <ChevronRight className="h-4 w-4 mx-1" />
+            <span className="text-gray-800 font-medium">{landing.category.name}</span>
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900">{landing.category.name}</h2>
+          {landing.category.description && <p className="text-gray-600">{landing.category.description}</p>}
+          {landing.subcategories.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {landing.subcategories.map((subcategory: CategoryWithCount) => (
+                <Button
+                  key={subcategory.id}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateFilters({ categoryId: subcategory.id })}
+                >
+                  {subcategory.name}
+                  <Badge variant="secondary" className="ml-2">{subcategory.course_count}</Badge>
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {isLoading && courses.length === 0 ? (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : (
+        <CourseGrid
+          courses={courses}
+          enrolledCourseIds={enrolledCourseIds}
+          onEnroll={onEnroll}
+          onInstructorSelect={(id: number, name: string) => updateFilters({ instructor: { id, name } })}
+          onTagSelect={(tag: string) => updateFilters({ tag })}
+          userRole="student"
+        />
+      )}
+
+      {nextCursor && (
+        <div className="text-center">
+          <Button variant="outline" onClick={() => loadCourses(filters, nextCursor)} disabled={isLoading}>
+            {isLoading ? 'Loading...' : 'Load more'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,23 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Star, Clock, DollarSign, Users, BookOpen } from 'lucide-react';
-import type { Course } from '../../../server/src/schema';
+import { Star, Clock, DollarSign, Users, BookOpen, CalendarClock } from 'lucide-react';
+import { getEnrollmentState } from '@/utils/courseSchedule';
+import type { Course, CatalogCourse } from '../../../server/src/schema';
+
+// Catalog search results carry instructor and enrollment details; plain course lists don't
+type GridCourse = Course & Partial<Pick<CatalogCourse, 'instructor_name' | 'enrollment_count'>>;
 
 interface CourseGridProps {
-  courses: Course[];
+  courses: GridCourse[];
   enrolledCourseIds?: number[];
   onEnroll?: (courseId: number) => void;
+  onInstructorSelect?: (instructorId: number, instructorName: string) => void;
+  onTagSelect?: (tag: string) => void;
   userRole: 'student' | 'instructor' | 'administrator';
 }
 
-export function CourseGrid({ courses, enrolledCourseIds = [], onEnroll, userRole }: CourseGridProps) {
+export function CourseGrid({ courses, enrolledCourseIds = [], onEnroll, onInstructorSelect, onTagSelect, userRole }: CourseGridProps) {
   if (courses.length === 0) {
     return (
       <Card>
@@ -26,8 +32,9 @@ export function CourseGrid({ courses, enrolledCourseIds = [], onEnroll, userRole
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-      {courses.map((course: Course) => {
+      {courses.map((course: GridCourse) => {
         const isEnrolled = enrolledCourseIds.includes(course.id);
+        const enrollmentState = getEnrollmentState(course);
         
         return (
           <Card key={course.id} className="hover:shadow-lg transition-shadow duration-200">
@@ -55,6 +62,23 @@ export function CourseGrid({ courses, enrolledCourseIds = [], onEnroll, userRole
                   </CardDescription>
                 </div>
               </div>
+              {(course.level || course.tags.length > 0) && (
+                <div className="flex flex-wrap gap-1 pt-2">
+                  {course.level && (
+                    <Badge variant="outline" className="capitalize">{course.level}</Badge>
+                  )}
+                  {course.tags.map((tag: string) => (
+                    <Badge
+                      key={tag}
+                      variant="secondary"
+                      className={onTagSelect ? 'cursor-pointer' : undefined}
+                      onClick={() => onTagSelect?.(tag)}
+                    >
+                      #{tag}
+                    </Badge>
+                  ))}
+                </div>
+              )}
             </CardHeader>
             
             <CardContent className="pt-0">
@@ -68,7 +92,9 @@ export function CourseGrid({ courses, enrolledCourseIds = [], onEnroll, userRole
                     </div>
                     <div className="flex items-center">
                       <Star className="h-4 w-4 mr-1 fill-yellow-400 text-yellow-400" />
-                      <span>4.8</span>
+                      <span>
+                        {course.rating_count > 0 ? `${course.rating_average.toFixed(1)} (${course.rating_count})` : 'New'}
+                      </span>
                     </div>
                   </div>
                   <div className="flex items-center font-semibold text-green-600">
@@ -78,10 +104,35 @@ export function CourseGrid({ courses, enrolledCourseIds = [], onEnroll, userRole
                 </div>
                 
                 {/* Instructor Info */}
-                <div className="flex items-center text-sm text-gray-600">
-                  <Users className="h-4 w-4 mr-1" />
-                  <span>Instructor ID: {course.instructor_id}</span>
+                <div className="flex items-center justify-between text-sm text-gray-600">
+                  <div className="flex items-center">
+                    <Users className="h-4 w-4 mr-1" />
+                    {course.instructor_name && onInstructorSelect ? (
+                      <button
+                        type="button"
+                        className="hover:text-indigo-600 hover:underline"
+                        onClick={() => onInstructorSelect(course.instructor_id, course.instructor_name!)}
+                      >
+                        {course.instructor_name}
+                      </button>
+                    ) : (
+                      <span>{course.instructor_name ?? `Instructor ID: ${course.instructor_id}`}</span>
+                    )}
+                  </div>
+                  {course.enrollment_count !== undefined && (
+                    <span>{course.enrollment_count} enrolled</span>
+                  )}
                 </div>
+
+                {/* Enrollment Window */}
+                {enrollmentState !== 'open' && (
+                  <div className="flex items-center text-sm text-amber-700">
+                    <CalendarClock className="h-4 w-4 mr-1" />
+                    {enrollmentState === 'not_open' && course.enrollment_opens_at
+                      ? `Opens on ${course.enrollment_opens_at.toLocaleDateString()}`
+                      : 'Enrollment closed'}
+                  </div>
+                )}
                 
                 {/* Action Button */}
                 {userRole === 'student' && (
@@ -94,9 +145,13 @@ export function CourseGrid({ courses, enrolledCourseIds = [], onEnroll, userRole
                       <Button 
                         className="w-full" 
                         onClick={() => onEnroll?.(course.id)}
-                        disabled={!course.is_published}
+                        disabled={!course.is_published || enrollmentState !== 'open'}
                       >
-                        {course.price === 0 ? 'Enroll Free' : `Enroll for $${course.price}`}
+                        {enrollmentState === 'not_open'
+                          ? 'Not Open Yet'
+                          : enrollmentState === 'closed'
+                            ? 'Enrollment Closed'
+                            : course.price === 0 ? 'Enroll Free' : `Enroll for $${course.price}`}
                       </Button>
                     )}
                   </div>
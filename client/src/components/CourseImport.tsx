@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { trpc } from '@/utils/trpc';
+import { readFileAsBase64 } from '@/utils/files';
+import { AlertTriangle, Upload } from 'lucide-react';
+import type { CourseImportResult } from '../../../server/src/schema';
+
+interface CourseImportProps {
+  onImported: () => void;
+}
+
+export function CourseImport({ onImported }: CourseImportProps) {
+  const [data, setData] = useState<string | null>(null);
+  const [preview, setPreview] = useState<CourseImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Every picked file is checked with a dry run first so conflicts show before anything is created
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setPreview(null);
+    setError(null);
+    setData(null);
+    if (!file) return;
+
+    setIsWorking(true);
+    try {
+      const encoded = await readFileAsBase64(file);
+      setPreview(await trpc.importCoursePackage.mutate({ data: encoded, dry_run: true }));
+      setData(encoded);
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Failed to read course package');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (data === null) return;
+    setIsWorking(true);
+    try {
+      await trpc.importCoursePackage.mutate({ data, dry_run: false });
+      onImported();
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Failed to import course');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="course-package">Course package (.json or .zip)</Label>
+        <Input id="course-package" type="file" accept=".json,.zip" onChange={handleFileChange} disabled={isWorking} />
+      </div>
+
+      {preview && (
+        <div className="border rounded p-3 space-y-2">
+          <p className="font-medium">{preview.title}</p>
+          <p className="text-sm text-gray-600">
+            {preview.lessons.length} lessons, {preview.quizzes.length} quizzes, {preview.questions.length} questions.
+            The course is imported unpublished.
+          </p>
+          {preview.conflicts.map((conflict) => (
+            <p key={conflict.type} className="flex items-start text-sm text-amber-700">
+              <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 shrink-0" />
+              {conflict.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end">
+        <Button onClick={handleImport} disabled={data === null || isWorking}>
+          <Upload className="h-4 w-4 mr-1" />
+          {isWorking ? 'Working...' : 'Import Course'}
+        </Button>
+      </div>
+    </div>
+  );
+}
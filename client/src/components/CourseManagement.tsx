@@ -1,10 +1,24 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MediaUpload } from '@/components/MediaUpload';
 import { trpc } from '@/utils/trpc';
-import type { CreateCourseInput } from '../../../server/src/schema';
+import { orderCategories } from '@/utils/categories';
+import type { CreateCourseInput, CategoryWithCount, CourseLevel, CourseTemplate, MediaAsset } from '../../../server/src/schema';
+
+const emptyCourse: CreateCourseInput = {
+  title: '',
+  description: '',
+  thumbnail_url: null,
+  price: 0,
+  duration_hours: 1,
+  category_id: null,
+  level: null,
+  tags: []
+};
 
 interface CourseManagementProps {
   onCourseCreated: () => void;
@@ -12,27 +26,45 @@ interface CourseManagementProps {
 
 export function CourseManagement({ onCourseCreated }: CourseManagementProps) {
   const [isLoading, setIsLoading] = useState(false);
-  const [courseData, setCourseData] = useState<CreateCourseInput>({
-    title: '',
-    description: '',
-    thumbnail_url: null,
-    price: 0,
-    duration_hours: 1
-  });
+  const [courseData, setCourseData] = useState<CreateCourseInput>(emptyCourse);
+  const [tagsText, setTagsText] = useState('');
+  const [categories, setCategories] = useState<CategoryWithCount[]>([]);
+  const [templates, setTemplates] = useState<CourseTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<number | null>(null);
+
+  const loadCategories = useCallback(async () => {
+    try {
+      const [categoriesData, templatesData] = await Promise.all([
+        trpc.getCategories.query(),
+        trpc.getCourseTemplates.query()
+      ]);
+      setCategories(categoriesData);
+      setTemplates(templatesData);
+    } catch (error) {
+      console.error('Failed to load categories:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCategories();
+  }, [loadCategories]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
-      await trpc.createCourse.mutate(courseData);
-      setCourseData({
-        title: '',
-        description: '',
-        thumbnail_url: null,
-        price: 0,
-        duration_hours: 1
-      });
+      if (templateId !== null) {
+        await trpc.createCourseFromTemplate.mutate({ templateId, title: courseData.title || undefined });
+      } else {
+        await trpc.createCourse.mutate({
+          ...courseData,
+          tags: tagsText.split(',').map((tag: string) => tag.trim()).filter((tag: string) => tag.length > 0)
+        });
+      }
+      setCourseData(emptyCourse);
+      setTemplateId(null);
+      setTagsText('');
       onCourseCreated();
     } catch (error) {
       console.error('Failed to create course:', error);
@@ -42,8 +74,39 @@ export function CourseManagement({ onCourseCreated }: CourseManagementProps) {
     }
   };
 
+  const selectedTemplate = templates.find((template: CourseTemplate) => template.id === templateId);
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
+      {templates.length > 0 && (
+        <div className="space-y-2">
+          <Label>Start from</Label>
+          <Select
+            value={templateId ? templateId.toString() : 'none'}
+            onValueChange={(value: string) => setTemplateId(value === 'none' ? null : parseInt(value))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Blank course</SelectItem>
+              {templates.map((template: CourseTemplate) => (
+                <SelectItem key={template.id} value={template.id.toString()}>
+                  {template.title}{template.creator_name ? ` (by ${template.creator_name})` : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedTemplate && (
+            <p className="text-sm text-gray-500">
+              {selectedTemplate.description && `${selectedTemplate.description} · `}
+              {selectedTemplate.lesson_count} lessons, {selectedTemplate.quiz_count} quizzes. The new course starts
+              unpublished with the template's details and content.
+            </p>
+          )}
+        </div>
+      )}
+
       <div className="space-y-2">
         <Label htmlFor="title">Course Title</Label>
         <Input
@@ -52,78 +115,151 @@ export function CourseManagement({ onCourseCreated }: CourseManagementProps) {
           onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
             setCourseData((prev: CreateCourseInput) => ({ ...prev, title: e.target.value }))
           }
-          placeholder="Enter course title"
-          required
+          placeholder={selectedTemplate ? 'Leave blank to keep the template\'s course title' : 'Enter course title'}
+          required={!selectedTemplate}
         />
       </div>
 
-      <div className="space-y-2">
-        <Label htmlFor="description">Description</Label>
-        <Textarea
-          id="description"
-          value={courseData.description}
-          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-            setCourseData((prev: CreateCourseInput) => ({ ...prev, description: e.target.value }))
-          }
-          placeholder="Describe your course"
-          rows={4}
-          required
-        />
-      </div>
+      {!selectedTemplate && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea
+              id="description"
+              value={courseData.description}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                setCourseData((prev: CreateCourseInput) => ({ ...prev, description: e.target.value }))
+              }
+              placeholder="Describe your course"
+              rows={4}
+              required
+            />
+          </div>
 
-      <div className="space-y-2">
-        <Label htmlFor="thumbnail">Thumbnail URL (optional)</Label>
-        <Input
-          id="thumbnail"
-          type="url"
-          value={courseData.thumbnail_url || ''}
-          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-            setCourseData((prev: CreateCourseInput) => ({
-              ...prev,
-              thumbnail_url: e.target.value || null
-            }))
-          }
-          placeholder="https://example.com/image.jpg"
-        />
-      </div>
+          <div className="space-y-2">
+            <Label htmlFor="thumbnail">Thumbnail (optional)</Label>
+            <div className="flex items-start space-x-2">
+              <Input
+                id="thumbnail"
+                type="url"
+                value={courseData.thumbnail_url || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setCourseData((prev: CreateCourseInput) => ({
+                    ...prev,
+                    thumbnail_url: e.target.value || null
+                  }))
+                }
+                placeholder="https://example.com/image.jpg"
+              />
+              <MediaUpload
+                purpose="course_thumbnail"
+                courseId={null}
+                onUploaded={(asset: MediaAsset) =>
+                  setCourseData((prev: CreateCourseInput) => ({ ...prev, thumbnail_url: asset.url }))
+                }
+              />
+            </div>
+          </div>
 
-      <div className="grid grid-cols-2 gap-4">
-        <div className="space-y-2">
-          <Label htmlFor="price">Price ($)</Label>
-          <Input
-            id="price"
-            type="number"
-            step="0.01"
-            min="0"
-            value={courseData.price}
-            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-              setCourseData((prev: CreateCourseInput) => ({
-                ...prev,
-                price: parseFloat(e.target.value) || 0
-              }))
-            }
-            required
-          />
-        </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="price">Price ($)</Label>
+              <Input
+                id="price"
+                type="number"
+                step="0.01"
+                min="0"
+                value={courseData.price}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setCourseData((prev: CreateCourseInput) => ({
+                    ...prev,
+                    price: parseFloat(e.target.value) || 0
+                  }))
+                }
+                required
+              />
+            </div>
 
-        <div className="space-y-2">
-          <Label htmlFor="duration">Duration (hours)</Label>
-          <Input
-            id="duration"
-            type="number"
-            step="0.5"
-            min="0.5"
-            value={courseData.duration_hours}
-            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-              setCourseData((prev: CreateCourseInput) => ({
-                ...prev,
-                duration_hours: parseFloat(e.target.value) || 1
-              }))
-            }
-            required
-          />
-        </div>
-      </div>
+            <div className="space-y-2">
+              <Label htmlFor="duration">Duration (hours)</Label>
+              <Input
+                id="duration"
+                type="number"
+                step="0.5"
+                min="0.5"
+                value={courseData.duration_hours}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setCourseData((prev: CreateCourseInput) => ({
+                    ...prev,
+                    duration_hours: parseFloat(e.target.value) || 1
+                  }))
+                }
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select
+                value={courseData.category_id ? courseData.category_id.toString() : 'none'}
+                onValueChange={(value: string) =>
+                  setCourseData((prev: CreateCourseInput) => ({
+                    ...prev,
+                    category_id: value === 'none' ? null : parseInt(value)
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Uncategorized</SelectItem>
+                  {orderCategories(categories).map(({ category, depth }) => (
+                    <SelectItem key={category.id} value={category.id.toString()}>
+                      {'\u00a0\u00a0'.repeat(depth)}{category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Level</Label>
+              <Select
+                value={courseData.level || 'none'}
+                onValueChange={(value: string) =>
+                  setCourseData((prev: CreateCourseInput) => ({
+                    ...prev,
+                    level: value === 'none' ? null : value as CourseLevel
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not specified</SelectItem>
+                  <SelectItem value="beginner">Beginner</SelectItem>
+                  <SelectItem value="intermediate">Intermediate</SelectItem>
+                  <SelectItem value="advanced">Advanced</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tags">Tags (optional)</Label>
+            <Input
+              id="tags"
+              value={tagsText}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTagsText(e.target.value)}
+              placeholder="javascript, react, web"
+            />
+          </div>
+        </>
+      )}
 
       <Button type="submit" disabled={isLoading} className="w-full">
         {isLoading ? 'Creating Course...' : 'Create Course'}
@@ -0,0 +1,158 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { Plus, Trash2 } from 'lucide-react';
+import type { Course, CoursePrerequisite, PrerequisiteInput } from '../../../server/src/schema';
+
+interface CoursePrerequisitesProps {
+  course: Course;
+  onSaved?: () => void;
+}
+
+export function CoursePrerequisites({ course, onSaved }: CoursePrerequisitesProps) {
+  const [prerequisites, setPrerequisites] = useState<PrerequisiteInput[]>([]);
+  const [catalog, setCatalog] = useState<Course[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPrerequisites = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [current, courses] = await Promise.all([
+        trpc.getCoursePrerequisites.query({ courseId: course.id }),
+        trpc.getCourses.query()
+      ]);
+      setPrerequisites(current.map((prerequisite: CoursePrerequisite) => ({
+        course_id: prerequisite.prerequisite_course_id,
+        is_required: prerequisite.is_required,
+        requires_certificate: prerequisite.requires_certificate
+      })));
+      setCatalog(courses.filter((c: Course) => c.id !== course.id));
+    } catch (error) {
+      console.error('Failed to load prerequisites:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [course.id]);
+
+  useEffect(() => {
+    loadPrerequisites();
+  }, [loadPrerequisites]);
+
+  const updateRow = (index: number, changes: Partial<PrerequisiteInput>) => {
+    setPrerequisites((prev: PrerequisiteInput[]) =>
+      prev.map((row: PrerequisiteInput, i: number) => (i === index ? { ...row, ...changes } : row))
+    );
+  };
+
+  const availableFor = (index: number) =>
+    catalog.filter((c: Course) =>
+      !prerequisites.some((row: PrerequisiteInput, i: number) => i !== index && row.course_id === c.id)
+    );
+
+  const handleAdd = () => {
+    const next = availableFor(-1)[0];
+    if (next) {
+      setPrerequisites((prev: PrerequisiteInput[]) => [
+        ...prev,
+        { course_id: next.id, is_required: true, requires_certificate: false }
+      ]);
+    }
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await trpc.setCoursePrerequisites.mutate({ courseId: course.id, prerequisites });
+      onSaved?.();
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Failed to save prerequisites');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading prerequisites...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {prerequisites.length === 0 ? (
+        <p className="text-sm text-gray-500">Anyone can enroll in this course.</p>
+      ) : (
+        <div className="space-y-3">
+          {prerequisites.map((row: PrerequisiteInput, index: number) => (
+            <div key={index} className="border rounded p-3 space-y-3">
+              <div className="flex items-center space-x-2">
+                <Select
+                  value={row.course_id.toString() || 'none'}
+                  onValueChange={(value: string) => updateRow(index, { course_id: parseInt(value) })}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableFor(index).map((c: Course) => (
+                      <SelectItem key={c.id} value={c.id.toString()}>{c.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setPrerequisites((prev: PrerequisiteInput[]) => prev.filter((_, i: number) => i !== index))}
+                  title="Remove prerequisite"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex items-center space-x-6">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id={`prerequisite-required-${index}`}
+                    checked={row.is_required}
+                    onCheckedChange={(checked: boolean) => updateRow(index, { is_required: checked })}
+                  />
+                  <Label htmlFor={`prerequisite-required-${index}`}>
+                    {row.is_required ? 'Required' : 'Recommended'}
+                  </Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id={`prerequisite-certificate-${index}`}
+                    checked={row.requires_certificate}
+                    onCheckedChange={(checked: boolean) => updateRow(index, { requires_certificate: checked })}
+                  />
+                  <Label htmlFor={`prerequisite-certificate-${index}`}>Certificate required</Label>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Students must finish required courses before enrolling. Recommended courses only show a warning.
+      </p>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-between">
+        <Button type="button" variant="outline" onClick={handleAdd} disabled={availableFor(-1).length === 0}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Prerequisite
+        </Button>
+        <Button type="button" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save Prerequisites'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { trpc } from '@/utils/trpc';
+import { Star, MessageSquare, EyeOff, Eye } from 'lucide-react';
+import type { User, Course, Enrollment, Review } from '../../../server/src/schema';
+
+interface CourseReviewsProps {
+  course: Course;
+  user: User;
+  enrollment?: Enrollment | null;
+}
+
+function StarRating({ value, onChange }: { value: number; onChange?: (value: number) => void }) {
+  return (
+    <div className="flex items-center">
+      {[1, 2, 3, 4, 5].map((star: number) => (
+        <button
+          key={star}
+          type="button"
+          disabled={!onChange}
+          onClick={() => onChange?.(star)}
+          className={onChange ? 'cursor-pointer' : 'cursor-default'}
+          title={onChange ? `${star} star${star > 1 ? 's' : ''}` : undefined}
+        >
+          <Star className={`h-4 w-4 ${star <= value ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function CourseReviews({ course, user, enrollment }: CourseReviewsProps) {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Student's own review form
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Instructor replies, keyed by review id
+  const [replies, setReplies] = useState<Record<number, string>>({});
+
+  const canReview = user.role === 'student' && !!enrollment;
+  const canReply = user.id === course.instructor_id;
+  const canModerate = user.role === 'administrator';
+
+  const loadReviews = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [reviewsData, myReview] = await Promise.all([
+        trpc.getCourseReviews.query({ courseId: course.id }),
+        canReview ? trpc.getMyCourseReview.query({ courseId: course.id }) : Promise.resolve(null)
+      ]);
+      setReviews(reviewsData);
+      if (myReview) {
+        setRating(myReview.rating);
+        setComment(myReview.comment || '');
+      }
+    } catch (error) {
+      console.error('Failed to load reviews:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [course.id, canReview]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rating === 0) {
+      setFormError('Choose a rating from 1 to 5 stars');
+      return;
+    }
+
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      await trpc.submitReview.mutate({ course_id: course.id, rating, comment: comment || null });
+      loadReviews();
+    } catch (error: unknown) {
+      setFormError(error instanceof Error ? error.message : 'Failed to submit review');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReply = async (reviewId: number) => {
+    try {
+      const updated = await trpc.replyToReview.mutate({ reviewId, reply: replies[reviewId] || '' });
+      setReviews((prev: Review[]) => prev.map((review: Review) => review.id === reviewId ? updated : review));
+    } catch (error) {
+      console.error('Failed to reply to review:', error);
+    }
+  };
+
+  const handleToggleHidden = async (review: Review) => {
+    const reason = review.is_hidden ? null : window.prompt('Reason for hiding this review (optional)');
+    try {
+      const updated = await trpc.setReviewHidden.mutate({ reviewId: review.id, hidden: !review.is_hidden, reason });
+      setReviews((prev: Review[]) => prev.map((r: Review) => r.id === review.id ? updated : r));
+    } catch (error) {
+      console.error('Failed to moderate review:', error);
+    }
+  };
+
+  const visibleReviews = reviews.filter((review: Review) => !review.is_hidden);
+  const average = visibleReviews.length > 0
+    ? visibleReviews.reduce((total: number, review: Review) => total + review.rating, 0) / visibleReviews.length
+    : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-3">
+        <span className="text-3xl font-bold">{average > 0 ? average.toFixed(1) : '–'}</span>
+        <div>
+          <StarRating value={Math.round(average)} />
+          <p className="text-sm text-gray-500">
+            {visibleReviews.length} review{visibleReviews.length === 1 ? '' : 's'}
+          </p>
+        </div>
+      </div>
+
+      {canReview && (
+        <form onSubmit={handleSubmit} className="space-y-2 p-4 border rounded-lg">
+          <Label>Your review</Label>
+          <StarRating value={rating} onChange={setRating} />
+          <Textarea
+            value={comment}
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setComment(e.target.value)}
+            placeholder="What did you think of this course?"
+            rows={3}
+          />
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+          <Button type="submit" size="sm" disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Review'}
+          </Button>
+        </form>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading reviews...</p>
+      ) : reviews.length === 0 ? (
+        <div className="text-center py-6">
+          <MessageSquare className="h-10 w-10 text-gray-400 mx-auto mb-2" />
+          <p className="text-gray-500">No reviews yet</p>
+        </div>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {reviews.map((review: Review) => (
+            <div key={review.id} className={`p-3 border rounded-lg ${review.is_hidden ? 'bg-gray-50 opacity-70' : ''}`}>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-sm">{review.student_name}</span>
+                  <StarRating value={review.rating} />
+                  {review.is_hidden && (
+                    <Badge variant="outline" title={review.hidden_reason || undefined}>Hidden</Badge>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className="text-xs text-gray-400">{review.created_at.toLocaleDateString()}</span>
+                  {canModerate && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleToggleHidden(review)}
+                      title={review.is_hidden ? 'Show review' : 'Hide review'}
+                    >
+                      {review.is_hidden ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {review.comment && <p className="text-sm text-gray-700 mt-1">{review.comment}</p>}
+
+              {review.instructor_reply ? (
+                <div className="mt-2 ml-4 pl-3 border-l-2 border-indigo-200">
+                  <p className="text-xs font-medium text-indigo-600">Instructor reply</p>
+                  <p className="text-sm text-gray-700">{review.instructor_reply}</p>
+                </div>
+              ) : canReply && (
+                <div className="mt-2 flex space-x-2">
+                  <Textarea
+                    value={replies[review.id] || ''}
+                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                      setReplies((prev: Record<number, string>) => ({ ...prev, [review.id]: e.target.value }))
+                    }
+                    placeholder="Reply to this review (one reply per review)"
+                    rows={2}
+                  />
+                  <Button
+                    size="sm"
+                    onClick={() => handleReply(review.id)}
+                    disabled={!replies[review.id]?.trim()}
+                  >
+                    Reply
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
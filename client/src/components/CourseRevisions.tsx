@@ -0,0 +1,652 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import { ArrowLeft, Plus, Trash2, ArrowUp, ArrowDown, History, RotateCcw, GitCompare } from 'lucide-react';
+import type {
+  Course,
+  CourseSnapshot,
+  CourseRevision,
+  CourseRevisionStatus,
+  RevisionChange,
+  RevisionFieldChange,
+  SnapshotLesson,
+  SnapshotQuiz,
+  SnapshotQuestion,
+  QuestionType
+} from '../../../server/src/schema';
+
+interface CourseRevisionsProps {
+  course: Course;
+  onBack: () => void;
+}
+
+const statusVariants: Record<CourseRevisionStatus, 'default' | 'secondary' | 'outline'> = {
+  draft: 'secondary',
+  published: 'default',
+  superseded: 'outline'
+};
+
+function replaceAt<T>(items: T[], index: number, change: (item: T) => T): T[] {
+  return items.map((item: T, i: number) => i === index ? change(item) : item);
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) {
+    // Lesson content blocks are objects; the diff only says how many there are
+    if (value.some((item: unknown) => typeof item === 'object' && item !== null)) {
+      return `${value.length} ${value.length === 1 ? 'item' : 'items'}`;
+    }
+    return value.join(', ') || '—';
+  }
+  return String(value);
+}
+
+export function CourseRevisions({ course, onBack }: CourseRevisionsProps) {
+  const [snapshot, setSnapshot] = useState<CourseSnapshot | null>(null);
+  const [revisions, setRevisions] = useState<CourseRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [diff, setDiff] = useState<{ title: string; changes: RevisionChange[] } | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      // Opening the editor starts the draft, so the history is fetched after it
+      const draft = await trpc.getCourseDraft.query({ courseId: course.id });
+      setSnapshot(draft.snapshot);
+      setRevisions(await trpc.getCourseRevisions.query({ courseId: course.id }));
+    } catch (error) {
+      console.error('Failed to load course revisions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [course.id]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const updateCourseDetails = (changes: Partial<CourseSnapshot['course']>) => {
+    setSnapshot((prev: CourseSnapshot | null) => prev && { ...prev, course: { ...prev.course, ...changes } });
+  };
+
+  const updateLessons = (change: (lessons: SnapshotLesson[]) => SnapshotLesson[]) => {
+    setSnapshot((prev: CourseSnapshot | null) => prev && { ...prev, lessons: change(prev.lessons) });
+  };
+
+  const updateLesson = (index: number, changes: Partial<SnapshotLesson>) => {
+    updateLessons((lessons: SnapshotLesson[]) => replaceAt(lessons, index, (lesson: SnapshotLesson) => ({ ...lesson, ...changes })));
+  };
+
+  const updateQuizzes = (lessonIndex: number, change: (quizzes: SnapshotQuiz[]) => SnapshotQuiz[]) => {
+    updateLessons((lessons: SnapshotLesson[]) =>
+      replaceAt(lessons, lessonIndex, (lesson: SnapshotLesson) => ({ ...lesson, quizzes: change(lesson.quizzes) }))
+    );
+  };
+
+  const updateQuiz = (lessonIndex: number, quizIndex: number, changes: Partial<SnapshotQuiz>) => {
+    updateQuizzes(lessonIndex, (quizzes: SnapshotQuiz[]) => replaceAt(quizzes, quizIndex, (quiz: SnapshotQuiz) => ({ ...quiz, ...changes })));
+  };
+
+  const updateQuestions = (lessonIndex: number, quizIndex: number, change: (questions: SnapshotQuestion[]) => SnapshotQuestion[]) => {
+    updateQuizzes(lessonIndex, (quizzes: SnapshotQuiz[]) =>
+      replaceAt(quizzes, quizIndex, (quiz: SnapshotQuiz) => ({ ...quiz, questions: change(quiz.questions) }))
+    );
+  };
+
+  const updateQuestion = (lessonIndex: number, quizIndex: number, questionIndex: number, changes: Partial<SnapshotQuestion>) => {
+    updateQuestions(lessonIndex, quizIndex, (questions: SnapshotQuestion[]) =>
+      replaceAt(questions, questionIndex, (question: SnapshotQuestion) => ({ ...question, ...changes }))
+    );
+  };
+
+  const moveLesson = (index: number, offset: number) => {
+    updateLessons((lessons: SnapshotLesson[]) => {
+      const target = index + offset;
+      if (target < 0 || target >= lessons.length) return lessons;
+      const reordered = [...lessons];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const addLesson = () => {
+    updateLessons((lessons: SnapshotLesson[]) => [...lessons, {
+      id: null,
+      title: 'New Lesson',
+      description: null,
+      video_url: null,
+      content: null,
+      blocks: [],
+      order_index: lessons.length + 1,
+      duration_minutes: 30,
+      is_published: false,
+      quizzes: []
+    }]);
+  };
+
+  const addQuiz = (lessonIndex: number) => {
+    updateQuizzes(lessonIndex, (quizzes: SnapshotQuiz[]) => [...quizzes, {
+      id: null,
+      title: 'New Quiz',
+      description: null,
+      passing_score: 70,
+      time_limit_minutes: null,
+      max_attempts: null,
+      is_active: true,
+      questions: []
+    }]);
+  };
+
+  const addQuestion = (lessonIndex: number, quizIndex: number) => {
+    updateQuestions(lessonIndex, quizIndex, (questions: SnapshotQuestion[]) => [...questions, {
+      id: null,
+      question_text: 'New question',
+      question_type: 'true_false',
+      options: null,
+      correct_answer: 'true',
+      points: 1,
+      order_index: questions.length + 1
+    }]);
+  };
+
+  // Lesson and question order follows their position in the editor
+  const orderedSnapshot = (current: CourseSnapshot): CourseSnapshot => ({
+    ...current,
+    lessons: current.lessons.map((lesson: SnapshotLesson, index: number) => ({
+      ...lesson,
+      order_index: index + 1,
+      quizzes: lesson.quizzes.map((quiz: SnapshotQuiz) => ({
+        ...quiz,
+        questions: quiz.questions.map((question: SnapshotQuestion, questionIndex: number) => ({
+          ...question,
+          order_index: questionIndex + 1
+        }))
+      }))
+    }))
+  });
+
+  const handleSave = async (): Promise<boolean> => {
+    if (!snapshot) return false;
+    setIsSaving(true);
+    setFormError(null);
+    setMessage(null);
+    try {
+      const draft = await trpc.saveCourseDraft.mutate({ courseId: course.id, snapshot: orderedSnapshot(snapshot) });
+      setSnapshot(draft.snapshot);
+      setMessage('Draft saved. Students still see the published version.');
+      return true;
+    } catch (error: unknown) {
+      setFormError(error instanceof Error ? error.message : 'Failed to save draft');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!(await handleSave())) return;
+    try {
+      const published = await trpc.publishCourse.mutate({ courseId: course.id });
+      await loadRevisions();
+      // Changes to a course that is already live are reviewed first
+      setMessage(published.moderation_status === 'submitted'
+        ? 'Draft sent for review. Students still see the published version until it is approved and published.'
+        : 'Draft published.');
+    } catch (error: unknown) {
+      setFormError(error instanceof Error ? error.message : 'Failed to publish draft');
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (window.confirm('Discard all unpublished changes in this draft?')) {
+      try {
+        await trpc.discardCourseDraft.mutate({ courseId: course.id });
+        await loadRevisions();
+        setMessage('Draft discarded.');
+      } catch (error: unknown) {
+        setFormError(error instanceof Error ? error.message : 'Failed to discard draft');
+      }
+    }
+  };
+
+  // Compares a revision with the one before it
+  const handleShowChanges = async (revision: CourseRevision, index: number) => {
+    const previous = revisions[index + 1];
+    if (!previous) {
+      setDiff({ title: `Revision ${revision.revision_number}`, changes: [] });
+      return;
+    }
+    try {
+      const result = await trpc.diffCourseRevisions.query({
+        courseId: course.id,
+        fromRevisionId: previous.id,
+        toRevisionId: revision.id
+      });
+      setDiff({ title: `Revision ${previous.revision_number} → ${revision.revision_number}`, changes: result.changes });
+    } catch (error) {
+      console.error('Failed to compare revisions:', error);
+    }
+  };
+
+  const handleRollback = async (revision: CourseRevision) => {
+    if (window.confirm(`Publish revision ${revision.revision_number} again? Students will see it immediately.`)) {
+      try {
+        await trpc.rollbackCourse.mutate({ courseId: course.id, revisionId: revision.id });
+        await loadRevisions();
+      } catch (error: unknown) {
+        alert(error instanceof Error ? error.message : 'Failed to roll back');
+      }
+    }
+  };
+
+  if (isLoading || !snapshot) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading draft...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const hasDraft = revisions.some((revision: CourseRevision) => revision.status === 'draft');
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="flex items-center space-x-2 mb-2">
+                <Button variant="ghost" onClick={onBack} className="p-0">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Courses
+                </Button>
+              </div>
+              <CardTitle>Edit Draft - {course.title}</CardTitle>
+              <CardDescription>Changes stay private until you publish the draft</CardDescription>
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={handleDiscard} disabled={!hasDraft || isSaving}>
+                Discard Draft
+              </Button>
+              <Button variant="outline" onClick={handleSave} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Draft'}
+              </Button>
+              <Button onClick={handlePublish} disabled={isSaving}>
+                Publish
+              </Button>
+            </div>
+          </div>
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+          {message && <p className="text-sm text-green-600">{message}</p>}
+        </CardHeader>
+      </Card>
+
+      <Tabs defaultValue="draft" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="draft">Draft</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="draft" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Course Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="draft-title">Title</Label>
+                <Input
+                  id="draft-title"
+                  value={snapshot.course.title}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateCourseDetails({ title: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="draft-description">Description</Label>
+                <Textarea
+                  id="draft-description"
+                  value={snapshot.course.description}
+                  onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateCourseDetails({ description: e.target.value })}
+                  rows={3}
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="draft-price">Price ($)</Label>
+                  <Input
+                    id="draft-price"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={snapshot.course.price}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateCourseDetails({ price: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="draft-duration">Duration (hours)</Label>
+                  <Input
+                    id="draft-duration"
+                    type="number"
+                    min="0.5"
+                    step="0.5"
+                    value={snapshot.course.duration_hours}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateCourseDetails({ duration_hours: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="draft-thumbnail">Thumbnail URL</Label>
+                  <Input
+                    id="draft-thumbnail"
+                    type="url"
+                    value={snapshot.course.thumbnail_url || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateCourseDetails({ thumbnail_url: e.target.value || null })}
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {snapshot.lessons.map((lesson: SnapshotLesson, lessonIndex: number) => (
+            <Card key={lesson.id ?? `new-${lessonIndex}`}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="outline">Lesson {lessonIndex + 1}</Badge>
+                    {lesson.id === null && <Badge variant="secondary">New</Badge>}
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <Label htmlFor={`lesson-published-${lessonIndex}`} className="text-sm">Published</Label>
+                    <Switch
+                      id={`lesson-published-${lessonIndex}`}
+                      checked={lesson.is_published}
+                      onCheckedChange={(checked: boolean) => updateLesson(lessonIndex, { is_published: checked })}
+                    />
+                    <Button size="sm" variant="ghost" onClick={() => moveLesson(lessonIndex, -1)} title="Move up">
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => moveLesson(lessonIndex, 1)} title="Move down">
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => updateLessons((lessons: SnapshotLesson[]) => lessons.filter((_, i: number) => i !== lessonIndex))}
+                      title="Remove lesson"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="col-span-2 space-y-2">
+                    <Label>Title</Label>
+                    <Input
+                      value={lesson.title}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLesson(lessonIndex, { title: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Duration (minutes)</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={lesson.duration_minutes}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        updateLesson(lessonIndex, { duration_minutes: parseInt(e.target.value) || 0 })
+                      }
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Video URL</Label>
+                  <Input
+                    type="url"
+                    value={lesson.video_url || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateLesson(lessonIndex, { video_url: e.target.value || null })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Content</Label>
+                  <Textarea
+                    value={lesson.content || ''}
+                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateLesson(lessonIndex, { content: e.target.value || null })}
+                    rows={4}
+                  />
+                </div>
+
+                {lesson.quizzes.map((quiz: SnapshotQuiz, quizIndex: number) => (
+                  <div key={quiz.id ?? `new-${quizIndex}`} className="p-3 border rounded-lg space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <Input
+                        value={quiz.title}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateQuiz(lessonIndex, quizIndex, { title: e.target.value })}
+                        placeholder="Quiz title"
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        className="w-28"
+                        value={quiz.passing_score}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          updateQuiz(lessonIndex, quizIndex, { passing_score: parseInt(e.target.value) || 0 })
+                        }
+                        title="Passing score (%)"
+                      />
+                      <Switch
+                        checked={quiz.is_active}
+                        onCheckedChange={(checked: boolean) => updateQuiz(lessonIndex, quizIndex, { is_active: checked })}
+                        title="Active"
+                      />
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => updateQuizzes(lessonIndex, (quizzes: SnapshotQuiz[]) => quizzes.filter((_, i: number) => i !== quizIndex))}
+                        title="Remove quiz"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+
+                    {quiz.questions.map((question: SnapshotQuestion, questionIndex: number) => (
+                      <div key={question.id ?? `new-${questionIndex}`} className="flex items-center space-x-2 ml-4">
+                        <Input
+                          value={question.question_text}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            updateQuestion(lessonIndex, quizIndex, questionIndex, { question_text: e.target.value })
+                          }
+                          placeholder="Question"
+                        />
+                        <Select
+                          value={question.question_type || 'true_false'}
+                          onValueChange={(value: QuestionType) =>
+                            updateQuestion(lessonIndex, quizIndex, questionIndex, {
+                              question_type: value,
+                              options: value === 'multiple_choice' ? question.options || [] : null
+                            })
+                          }
+                        >
+                          <SelectTrigger className="w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="multiple_choice">Multiple choice</SelectItem>
+                            <SelectItem value="true_false">True / false</SelectItem>
+                            <SelectItem value="short_answer">Short answer</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {question.question_type === 'multiple_choice' && (
+                          <Input
+                            value={(question.options || []).join(', ')}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              updateQuestion(lessonIndex, quizIndex, questionIndex, {
+                                options: e.target.value.split(',').map((option: string) => option.trim())
+                              })
+                            }
+                            placeholder="Options, comma separated"
+                          />
+                        )}
+                        <Input
+                          className="w-36"
+                          value={question.correct_answer}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            updateQuestion(lessonIndex, quizIndex, questionIndex, { correct_answer: e.target.value })
+                          }
+                          placeholder="Answer"
+                        />
+                        <Input
+                          type="number"
+                          min="1"
+                          className="w-20"
+                          value={question.points}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            updateQuestion(lessonIndex, quizIndex, questionIndex, { points: parseInt(e.target.value) || 1 })
+                          }
+                          title="Points"
+                        />
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => updateQuestions(lessonIndex, quizIndex, (questions: SnapshotQuestion[]) =>
+                            questions.filter((_, i: number) => i !== questionIndex)
+                          )}
+                          title="Remove question"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+
+                    <Button size="sm" variant="ghost" className="ml-4" onClick={() => addQuestion(lessonIndex, quizIndex)}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Question
+                    </Button>
+                  </div>
+                ))}
+
+                <Button size="sm" variant="outline" onClick={() => addQuiz(lessonIndex)}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Quiz
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+
+          <Button variant="outline" onClick={addLesson}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Lesson
+          </Button>
+        </TabsContent>
+
+        <TabsContent value="history">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <History className="h-5 w-5 mr-2" />
+                Revision History
+              </CardTitle>
+              <CardDescription>Every publish is kept; roll back to republish an earlier version</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Revision</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Published</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {revisions.map((revision: CourseRevision, index: number) => (
+                    <TableRow key={revision.id}>
+                      <TableCell className="font-medium">
+                        #{revision.revision_number}
+                        {revision.restored_from_revision_id !== null && (
+                          <span className="text-xs text-gray-500 ml-2">
+                            restored from #{revisions.find((r: CourseRevision) => r.id === revision.restored_from_revision_id)?.revision_number ?? '?'}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariants[revision.status]}>{revision.status}</Badge>
+                      </TableCell>
+                      <TableCell>{revision.published_at ? revision.published_at.toLocaleString() : '—'}</TableCell>
+                      <TableCell>
+                        <div className="flex space-x-1">
+                          <Button size="sm" variant="outline" onClick={() => handleShowChanges(revision, index)} title="Changes from the previous revision">
+                            <GitCompare className="h-4 w-4" />
+                          </Button>
+                          {revision.status === 'superseded' && (
+                            <Button size="sm" variant="outline" onClick={() => handleRollback(revision)} disabled={hasDraft} title="Roll back to this revision">
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {hasDraft && (
+                <p className="text-sm text-gray-500 mt-4">Publish or discard the open draft before rolling back.</p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={diff !== null} onOpenChange={(open: boolean) => !open && setDiff(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Changes</DialogTitle>
+            <DialogDescription>{diff?.title}</DialogDescription>
+          </DialogHeader>
+          {diff && (diff.changes.length === 0 ? (
+            <p className="text-sm text-gray-500">No changes to show</p>
+          ) : (
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+              {diff.changes.map((change: RevisionChange, index: number) => (
+                <div key={index} className="p-3 border rounded-lg">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant={change.change === 'removed' ? 'destructive' : change.change === 'added' ? 'default' : 'secondary'}>
+                      {change.change}
+                    </Badge>
+                    <span className="font-medium text-sm">{change.label}</span>
+                  </div>
+                  {change.fields.map((field: RevisionFieldChange) => (
+                    <div key={field.field} className="text-sm mt-1 ml-2">
+                      <span className="text-gray-500">{field.field}:</span>{' '}
+                      <span className="line-through text-red-600">{formatValue(field.before)}</span>{' → '}
+                      <span className="text-green-700">{formatValue(field.after)}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          ))}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { describeSeats } from '@/utils/courseRuns';
+import type { CourseRun } from '../../../server/src/schema';
+
+interface CourseRunPickerProps {
+  courseId: number;
+  acknowledgePrerequisites: boolean;
+  onEnrolled: () => void;
+}
+
+export function CourseRunPicker({ courseId, acknowledgePrerequisites, onEnrolled }: CourseRunPickerProps) {
+  const [runs, setRuns] = useState<CourseRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRuns = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRuns(await trpc.getCourseRuns.query({ courseId }));
+    } catch (error) {
+      console.error('Failed to load cohorts:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [courseId]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  const attempt = async (action: () => Promise<unknown>, fallback: string) => {
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : fallback);
+      return false;
+    }
+  };
+
+  const handleEnroll = async (courseRunId: number) => {
+    const enrolled = await attempt(
+      () => trpc.enrollInCourse.mutate({ course_id: courseId, course_run_id: courseRunId, acknowledge_prerequisites: acknowledgePrerequisites }),
+      'Failed to enroll'
+    );
+    if (enrolled) onEnrolled();
+  };
+
+  const handleJoinWaitlist = async (courseRunId: number) => {
+    await attempt(() => trpc.joinCourseRunWaitlist.mutate({ courseRunId }), 'Failed to join the waitlist');
+    loadRuns();
+  };
+
+  const handleLeaveWaitlist = async (courseRunId: number) => {
+    await attempt(() => trpc.leaveCourseRunWaitlist.mutate({ courseRunId }), 'Failed to leave the waitlist');
+    loadRuns();
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading cohorts...</p>;
+  }
+
+  const now = new Date();
+  return (
+    <div className="space-y-3">
+      {runs.map((courseRun: CourseRun) => {
+        const hasEnded = courseRun.ends_at !== null && courseRun.ends_at <= now;
+        const isFull = courseRun.capacity !== null && courseRun.enrolled_count >= courseRun.capacity;
+
+        return (
+          <div key={courseRun.id} className="border rounded p-3 flex items-center justify-between">
+            <div>
+              <p className="font-medium">{courseRun.name}</p>
+              <p className="text-sm text-gray-600">
+                {courseRun.starts_at.toLocaleDateString()}
+                {courseRun.ends_at && ` – ${courseRun.ends_at.toLocaleDateString()}`}
+                {' · '}
+                {describeSeats(courseRun)}
+              </p>
+            </div>
+
+            {hasEnded ? (
+              <Badge variant="secondary">Ended</Badge>
+            ) : courseRun.waitlist_position !== null ? (
+              <div className="flex items-center space-x-2">
+                <Badge variant="outline">#{courseRun.waitlist_position} on waitlist</Badge>
+                <Button size="sm" variant="ghost" onClick={() => handleLeaveWaitlist(courseRun.id)}>
+                  Leave
+                </Button>
+              </div>
+            ) : isFull ? (
+              <Button size="sm" variant="outline" onClick={() => handleJoinWaitlist(courseRun.id)}>
+                Join Waitlist
+              </Button>
+            ) : (
+              <Button size="sm" onClick={() => handleEnroll(courseRun.id)}>
+                Enroll
+              </Button>
+            )}
+          </div>
+        );
+      })}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { describeSeats } from '@/utils/courseRuns';
+import { fromDateTimeInput } from '@/utils/courseSchedule';
+import { Plus, Trash2, Users } from 'lucide-react';
+import type { Course, CourseRun, CourseRunRoster, CourseRunStudent, CourseRunWaitlistEntry } from '../../../server/src/schema';
+
+interface CourseRunsProps {
+  course: Course;
+  canManage: boolean;
+}
+
+export function CourseRuns({ course, canManage }: CourseRunsProps) {
+  const [runs, setRuns] = useState<CourseRun[]>([]);
+  const [roster, setRoster] = useState<CourseRunRoster | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+  const [capacity, setCapacity] = useState('');
+
+  const loadRuns = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRuns(await trpc.getCourseRuns.query({ courseId: course.id }));
+    } catch (error) {
+      console.error('Failed to load cohorts:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [course.id]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const starts = fromDateTimeInput(startsAt);
+    if (!starts) return;
+
+    setError(null);
+    try {
+      await trpc.createCourseRun.mutate({
+        courseId: course.id,
+        name,
+        starts_at: starts,
+        ends_at: fromDateTimeInput(endsAt),
+        capacity: capacity ? parseInt(capacity, 10) : null
+      });
+      setName('');
+      setStartsAt('');
+      setEndsAt('');
+      setCapacity('');
+      loadRuns();
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Failed to create cohort');
+    }
+  };
+
+  const handleCapacityChange = async (courseRun: CourseRun) => {
+    const value = window.prompt('Seats in this cohort (leave empty for unlimited)', courseRun.capacity?.toString() ?? '');
+    if (value === null) return;
+
+    setError(null);
+    try {
+      await trpc.updateCourseRun.mutate({ courseRunId: courseRun.id, capacity: value.trim() ? parseInt(value, 10) : null });
+      loadRuns();
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Failed to update cohort');
+    }
+  };
+
+  const handleDelete = async (courseRun: CourseRun) => {
+    if (!window.confirm(`Delete ${courseRun.name}?`)) return;
+
+    setError(null);
+    try {
+      await trpc.deleteCourseRun.mutate({ courseRunId: courseRun.id });
+      if (roster?.run.id === courseRun.id) setRoster(null);
+      loadRuns();
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Failed to delete cohort');
+    }
+  };
+
+  const handleShowRoster = async (courseRun: CourseRun) => {
+    if (roster?.run.id === courseRun.id) {
+      setRoster(null);
+      return;
+    }
+
+    setError(null);
+    try {
+      setRoster(await trpc.getCourseRunRoster.query({ courseRunId: courseRun.id }));
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Failed to load roster');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading cohorts...</p>
+      ) : runs.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          This course has no cohorts; students enroll in it directly. Once it has cohorts, students pick one when enrolling.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {runs.map((courseRun: CourseRun) => (
+            <div key={courseRun.id} className="border rounded p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium">{courseRun.name}</p>
+                  <p className="text-sm text-gray-600">
+                    {courseRun.starts_at.toLocaleDateString()}
+                    {courseRun.ends_at && ` – ${courseRun.ends_at.toLocaleDateString()}`}
+                    {' · '}
+                    {describeSeats(courseRun)}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <Button size="sm" variant="outline" onClick={() => handleShowRoster(courseRun)}>
+                    <Users className="h-4 w-4 mr-1" />
+                    Roster
+                  </Button>
+                  {canManage && (
+                    <>
+                      <Button size="sm" variant="outline" onClick={() => handleCapacityChange(courseRun)}>
+                        Seats
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(courseRun)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {roster?.run.id === courseRun.id && (
+                <div className="border-t pt-2 space-y-2 text-sm">
+                  {roster.students.length === 0 ? (
+                    <p className="text-gray-500">No students enrolled yet.</p>
+                  ) : (
+                    roster.students.map((student: CourseRunStudent) => (
+                      <div key={student.student_id} className="flex items-center justify-between">
+                        <span>{student.name} <span className="text-gray-500">({student.email})</span></span>
+                        <Badge variant={student.is_completed ? 'default' : 'secondary'}>
+                          {student.is_completed ? 'Completed' : `${student.progress_percentage}%`}
+                        </Badge>
+                      </div>
+                    ))
+                  )}
+                  {roster.waitlist.length > 0 && (
+                    <div className="pt-1">
+                      <p className="font-medium text-gray-700">Waitlist</p>
+                      {roster.waitlist.map((entry: CourseRunWaitlistEntry) => (
+                        <p key={entry.student_id} className="text-gray-600">
+                          #{entry.position} {entry.name} ({entry.email})
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManage && (
+        <form onSubmit={handleCreate} className="border-t pt-4 space-y-3">
+          <p className="font-medium">New cohort</p>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="run-name">Name</Label>
+              <Input
+                id="run-name"
+                value={name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                placeholder="e.g. Spring 2025"
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="run-capacity">Seats</Label>
+              <Input
+                id="run-capacity"
+                type="number"
+                min="1"
+                value={capacity}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCapacity(e.target.value)}
+                placeholder="Unlimited"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="run-starts-at">Starts</Label>
+              <Input
+                id="run-starts-at"
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStartsAt(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="run-ends-at">Ends</Label>
+              <Input
+                id="run-ends-at"
+                type="datetime-local"
+                value={endsAt}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndsAt(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit">
+              <Plus className="h-4 w-4 mr-1" />
+              Add Cohort
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
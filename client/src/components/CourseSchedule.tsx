@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { trpc } from '@/utils/trpc';
+import { toDateTimeInput, fromDateTimeInput } from '@/utils/courseSchedule';
+import type { Course } from '../../../server/src/schema';
+
+interface CourseScheduleProps {
+  course: Course;
+  onSaved?: () => void;
+}
+
+export function CourseSchedule({ course, onSaved }: CourseScheduleProps) {
+  const [publishAt, setPublishAt] = useState(toDateTimeInput(course.publish_at));
+  const [opensAt, setOpensAt] = useState(toDateTimeInput(course.enrollment_opens_at));
+  const [closesAt, setClosesAt] = useState(toDateTimeInput(course.enrollment_closes_at));
+  const [endsAt, setEndsAt] = useState(toDateTimeInput(course.ends_at));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      await trpc.updateCourseSchedule.mutate({
+        courseId: course.id,
+        publish_at: fromDateTimeInput(publishAt),
+        enrollment_opens_at: fromDateTimeInput(opensAt),
+        enrollment_closes_at: fromDateTimeInput(closesAt),
+        ends_at: fromDateTimeInput(endsAt)
+      });
+      onSaved?.();
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Failed to save schedule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {!course.is_published && (
+        <div className="space-y-2">
+          <Label htmlFor="publish-at">Publish on</Label>
+          <Input
+            id="publish-at"
+            type="datetime-local"
+            value={publishAt}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPublishAt(e.target.value)}
+          />
+          <p className="text-xs text-gray-500">
+            The course goes live at this time once a moderator has approved it. Leave empty to publish by hand.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="enrollment-opens-at">Enrollment opens</Label>
+          <Input
+            id="enrollment-opens-at"
+            type="datetime-local"
+            value={opensAt}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setOpensAt(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="enrollment-closes-at">Enrollment closes</Label>
+          <Input
+            id="enrollment-closes-at"
+            type="datetime-local"
+            value={closesAt}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setClosesAt(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="ends-at">Course ends</Label>
+        <Input
+          id="ends-at"
+          type="datetime-local"
+          value={endsAt}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndsAt(e.target.value)}
+        />
+        <p className="text-xs text-gray-500">
+          After this, enrolled students can still view the course but can't complete lessons or take quizzes.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save Schedule'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { STAFF_ROLE_LABELS } from '@/utils/courseStaff';
+import { UserPlus, Trash2 } from 'lucide-react';
+import type { User, Course, CourseStaffMember, InviteCourseStaffInput } from '../../../server/src/schema';
+
+interface CourseStaffProps {
+  course: Course;
+  user: User;
+  canManage: boolean;
+}
+
+export function CourseStaff({ course, user, canManage }: CourseStaffProps) {
+  const [staff, setStaff] = useState<CourseStaffMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [invite, setInvite] = useState<InviteCourseStaffInput>({
+    courseId: course.id,
+    email: '',
+    role: 'teaching_assistant',
+    revenue_share_percent: 0
+  });
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const loadStaff = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setStaff(await trpc.getCourseStaff.query({ courseId: course.id }));
+    } catch (error) {
+      console.error('Failed to load course staff:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [course.id]);
+
+  useEffect(() => {
+    loadStaff();
+  }, [loadStaff]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    try {
+      await trpc.inviteCourseStaff.mutate(invite);
+      setInvite((prev: InviteCourseStaffInput) => ({ ...prev, email: '', revenue_share_percent: 0 }));
+      loadStaff();
+    } catch (error: unknown) {
+      setFormError(error instanceof Error ? error.message : 'Failed to send invitation');
+    }
+  };
+
+  const handleRemove = async (member: CourseStaffMember) => {
+    const prompt = member.user_id === user.id
+      ? `Leave the staff of "${course.title}"?`
+      : `Remove ${member.name} from the staff of "${course.title}"?`;
+    if (window.confirm(prompt)) {
+      try {
+        await trpc.removeCourseStaff.mutate({ courseId: course.id, userId: member.user_id });
+        loadStaff();
+      } catch (error: unknown) {
+        alert(error instanceof Error ? error.message : 'Failed to remove staff member');
+      }
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading staff...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Role</TableHead>
+            <TableHead>Revenue Share</TableHead>
+            <TableHead></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {staff.map((member: CourseStaffMember) => (
+            <TableRow key={member.user_id}>
+              <TableCell>
+                <div className="font-medium">{member.name}</div>
+                <div className="text-xs text-gray-500">{member.email}</div>
+              </TableCell>
+              <TableCell>
+                <div className="flex items-center space-x-1">
+                  <span className="text-sm">{STAFF_ROLE_LABELS[member.role]}</span>
+                  {member.status === 'pending' && <Badge variant="secondary">Invited</Badge>}
+                </div>
+              </TableCell>
+              <TableCell>{member.revenue_share_percent}%</TableCell>
+              <TableCell>
+                {member.role !== 'owner' && (canManage || member.user_id === user.id) && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleRemove(member)}
+                    title={member.user_id === user.id ? 'Leave course staff' : 'Remove from staff'}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {canManage && (
+        <form onSubmit={handleInvite} className="space-y-3 border-t pt-4">
+          <h4 className="font-medium">Invite an instructor</h4>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="staff-email">Email</Label>
+              <Input
+                id="staff-email"
+                type="email"
+                value={invite.email}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setInvite((prev: InviteCourseStaffInput) => ({ ...prev, email: e.target.value }))
+                }
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Role</Label>
+              <Select
+                value={invite.role || 'teaching_assistant'}
+                onValueChange={(value: string) =>
+                  setInvite((prev: InviteCourseStaffInput) => ({
+                    ...prev,
+                    role: value as InviteCourseStaffInput['role'],
+                    revenue_share_percent: value === 'co_instructor' ? prev.revenue_share_percent : 0
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="co_instructor">{STAFF_ROLE_LABELS.co_instructor}</SelectItem>
+                  <SelectItem value="teaching_assistant">{STAFF_ROLE_LABELS.teaching_assistant}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="staff-share">Revenue share (%)</Label>
+              <Input
+                id="staff-share"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={invite.revenue_share_percent}
+                disabled={invite.role !== 'co_instructor'}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setInvite((prev: InviteCourseStaffInput) => ({ ...prev, revenue_share_percent: parseFloat(e.target.value) || 0 }))
+                }
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Teaching assistants can grade and message students but can't edit the course or its price.
+          </p>
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+          <div className="flex justify-end">
+            <Button type="submit">
+              <UserPlus className="h-4 w-4 mr-1" />
+              Send Invitation
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
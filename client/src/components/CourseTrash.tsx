@@ -0,0 +1,92 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import type { TrashItem, TrashItemType } from '../../../server/src/schema';
+
+const TRASH_ITEM_LABELS: Record<TrashItemType, string> = {
+  course: 'Course',
+  lesson: 'Lesson',
+  quiz: 'Quiz'
+};
+
+interface CourseTrashProps {
+  onRestored: () => void;
+}
+
+export function CourseTrash({ onRestored }: CourseTrashProps) {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setItems(await trpc.getTrash.query());
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = async (item: TrashItem) => {
+    setError(null);
+    try {
+      await trpc.restoreTrashItem.mutate({ type: item.type, id: item.id });
+      loadTrash();
+      onRestored();
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Failed to restore');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Trash</CardTitle>
+        <CardDescription>
+          Deleted courses, lessons and quizzes can be restored until the date shown. Student enrollments,
+          quiz attempts and certificates are kept either way.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading trash...</p>
+        ) : items.length === 0 ? (
+          <div className="text-center py-8">
+            <Trash2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">The trash is empty</p>
+          </div>
+        ) : (
+          items.map((item: TrashItem) => (
+            <div key={`${item.type}-${item.id}`} className="border rounded p-3 flex items-center justify-between">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <Badge variant="outline">{TRASH_ITEM_LABELS[item.type]}</Badge>
+                  <span className="font-medium">{item.title}</span>
+                </div>
+                <p className="text-sm text-gray-600 mt-1">
+                  {item.type !== 'course' && `${item.course_title} · `}
+                  Deleted {item.deleted_at.toLocaleDateString()} · Restorable until {item.restorable_until.toLocaleDateString()}
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => handleRestore(item)}>
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Restore
+              </Button>
+            </div>
+          ))
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
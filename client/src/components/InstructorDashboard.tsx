@@ -4,10 +4,24 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { trpc } from '@/utils/trpc';
 import { CourseManagement } from '@/components/CourseManagement';
 import { LessonManagement } from '@/components/LessonManagement';
 import { QuizManagement } from '@/components/QuizManagement';
+import { CourseReviews } from '@/components/CourseReviews';
+import { CourseRevisions } from '@/components/CourseRevisions';
+import { ModerationHistory } from '@/components/ModerationHistory';
+import { CoursePrerequisites } from '@/components/CoursePrerequisites';
+import { CourseStaff } from '@/components/CourseStaff';
+import { StaffInvitations } from '@/components/StaffInvitations';
+import { CourseImport } from '@/components/CourseImport';
+import { CourseSchedule } from '@/components/CourseSchedule';
+import { CourseRuns } from '@/components/CourseRuns';
+import { CourseTrash } from '@/components/CourseTrash';
+import { MODERATION_STATUS_LABELS, moderationStatusVariant } from '@/utils/moderation';
+import { STAFF_ROLE_LABELS } from '@/utils/courseStaff';
+import { downloadBase64File } from '@/utils/files';
 import { 
   BookOpen, 
   Users, 
@@ -19,9 +33,22 @@ import {
   BarChart3,
   PlayCircle,
   FileText,
-  Award
+  Award,
+  Star,
+  History,
+  Send,
+  ClipboardCheck,
+  ListChecks,
+  UserCog,
+  Mail,
+  Copy,
+  LayoutTemplate,
+  Download,
+  Upload,
+  CalendarClock,
+  CalendarRange
 } from 'lucide-react';
-import type { User, Course, Enrollment } from '../../../server/src/schema';
+import type { User, Course, Enrollment, CourseMembership, CourseCapability } from '../../../server/src/schema';
 
 interface InstructorDashboardProps {
   user: User;
@@ -31,9 +58,18 @@ export function InstructorDashboard({ user }: InstructorDashboardProps) {
   const [courses, setCourses] = useState<Course[]>([]);
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
   const [showCourseDialog, setShowCourseDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [showLessonManagement, setShowLessonManagement] = useState(false);
   const [showQuizManagement, setShowQuizManagement] = useState(false);
+  const [showDraftEditor, setShowDraftEditor] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [reviewsCourse, setReviewsCourse] = useState<Course | null>(null);
+  const [moderationCourse, setModerationCourse] = useState<Course | null>(null);
+  const [prerequisitesCourse, setPrerequisitesCourse] = useState<Course | null>(null);
+  const [staffCourse, setStaffCourse] = useState<Course | null>(null);
+  const [scheduleCourse, setScheduleCourse] = useState<Course | null>(null);
+  const [runsCourse, setRunsCourse] = useState<Course | null>(null);
+  const [memberships, setMemberships] = useState<CourseMembership[]>([]);
   const [stats, setStats] = useState({
     totalCourses: 0,
     publishedCourses: 0,
@@ -45,8 +81,12 @@ export function InstructorDashboard({ user }: InstructorDashboardProps) {
   const loadInstructorData = useCallback(async () => {
     setIsLoading(true);
     try {
-      const coursesData = await trpc.getInstructorCourses.query({ instructorId: user.id });
+      const [coursesData, membershipsData] = await Promise.all([
+        trpc.getInstructorCourses.query({ instructorId: user.id }),
+        trpc.getMyCourseMemberships.query()
+      ]);
       setCourses(coursesData);
+      setMemberships(membershipsData);
 
       // Calculate stats
       const publishedCount = coursesData.filter((c: Course) => c.is_published).length;
@@ -79,6 +119,13 @@ export function InstructorDashboard({ user }: InstructorDashboardProps) {
     loadInstructorData();
   }, [loadInstructorData]);
 
+  // Co-instructors and teaching assistants only see the actions their staff role allows
+  const membershipFor = (courseId: number) =>
+    memberships.find((membership: CourseMembership) => membership.course_id === courseId);
+  const roleFor = (courseId: number) => membershipFor(courseId)?.role ?? 'owner';
+  const can = (courseId: number, capability: CourseCapability) =>
+    membershipFor(courseId)?.capabilities.includes(capability) ?? false;
+
   const handleCourseCreated = () => {
     setShowCourseDialog(false);
     loadInstructorData();
@@ -93,8 +140,62 @@ export function InstructorDashboard({ user }: InstructorDashboardProps) {
     }
   };
 
+  const handleSubmitForReview = async (courseId: number) => {
+    try {
+      await trpc.submitCourseForReview.mutate({ courseId });
+      loadInstructorData();
+    } catch (error) {
+      console.error('Failed to submit course for review:', error);
+    }
+  };
+
+  const handleMessageStudents = async (course: Course) => {
+    const subject = window.prompt(`Subject of the message to every student in "${course.title}":`);
+    if (!subject) return;
+    const content = window.prompt('Message:');
+    if (!content) return;
+    try {
+      const result = await trpc.messageCourseStudents.mutate({ courseId: course.id, subject, content });
+      alert(`Message sent to ${result.sent} student${result.sent === 1 ? '' : 's'}`);
+    } catch (error: unknown) {
+      alert(error instanceof Error ? error.message : 'Failed to message students');
+    }
+  };
+
+  const handleDuplicateCourse = async (course: Course) => {
+    const title = window.prompt('Title for the copy:', `${course.title} (Copy)`);
+    if (!title) return;
+    try {
+      await trpc.duplicateCourse.mutate({ courseId: course.id, title });
+      loadInstructorData();
+    } catch (error: unknown) {
+      alert(error instanceof Error ? error.message : 'Failed to duplicate course');
+    }
+  };
+
+  const handleSaveAsTemplate = async (course: Course) => {
+    const title = window.prompt('Template name:', course.title);
+    if (!title) return;
+    const isShared = window.confirm('Share this template with other instructors?');
+    try {
+      await trpc.saveCourseAsTemplate.mutate({ courseId: course.id, title, is_shared: isShared });
+      alert(`Saved "${title}" as a template. Pick it under "Start from" when creating a course.`);
+    } catch (error: unknown) {
+      alert(error instanceof Error ? error.message : 'Failed to save template');
+    }
+  };
+
+  const handleExportCourse = async (courseId: number, format: 'json' | 'zip') => {
+    try {
+      const file = await trpc.exportCoursePackage.query({ courseId, format });
+      downloadBase64File(file.file_name, file.mime_type, file.data);
+    } catch (error: unknown) {
+      alert(error instanceof Error ? error.message : 'Failed to export course');
+    }
+  };
+
   const handleDeleteCourse = async (courseId: number) => {
-    if (window.confirm('Are you sure you want to delete this course? This action cannot be undone.')) {
+    if (window.confirm('Move this course to the trash? It is unpublished, and you can restore it from the Trash tab for 30 days.')) {
       try {
         await trpc.deleteCourse.mutate({ courseId });
         loadInstructorData();
@@ -128,6 +229,20 @@ export function InstructorDashboard({ user }: InstructorDashboardProps) {
     );
   }
 
+  // Published courses are edited through a draft so students never see half-finished changes
+  if (showDraftEditor && selectedCourse) {
+    return (
+      <CourseRevisions
+        course={selectedCourse}
+        onBack={() => {
+          setShowDraftEditor(false);
+          setSelectedCourse(null);
+          loadInstructorData();
+        }}
+      />
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -196,28 +311,56 @@ export function InstructorDashboard({ user }: InstructorDashboardProps) {
           <TabsList>
             <TabsTrigger value="courses">My Courses</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
+            <TabsTrigger value="trash">Trash</TabsTrigger>
           </TabsList>
           
-          <Dialog open={showCourseDialog} onOpenChange={setShowCourseDialog}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="h-4 w-4 mr-2" />
-                Create Course
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl">
-              <DialogHeader>
-                <DialogTitle>Create New Course</DialogTitle>
-                <DialogDescription>
-                  Fill in the details to create a new course
-                </DialogDescription>
-              </DialogHeader>
-              <CourseManagement onCourseCreated={handleCourseCreated} />
-            </DialogContent>
-          </Dialog>
+          <div className="flex space-x-2">
+            <Dialog open={showImportDialog} onOpenChange={setShowImportDialog}>
+              <DialogTrigger asChild>
+                <Button variant="outline">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import Course
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Import Course</DialogTitle>
+                  <DialogDescription>
+                    Create a course from a package exported on this or another deployment
+                  </DialogDescription>
+                </DialogHeader>
+                <CourseImport
+                  onImported={() => {
+                    setShowImportDialog(false);
+                    loadInstructorData();
+                  }}
+                />
+              </DialogContent>
+            </Dialog>
+
+            <Dialog open={showCourseDialog} onOpenChange={setShowCourseDialog}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Course
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>Create New Course</DialogTitle>
+                  <DialogDescription>
+                    Fill in the details to create a new course
+                  </DialogDescription>
+                </DialogHeader>
+                <CourseManagement onCourseCreated={handleCourseCreated} />
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         <TabsContent value="courses" className="space-y-4">
+          <StaffInvitations onAccepted={loadInstructorData} />
+
           {courses.length === 0 ? (
             <Card>
               <CardContent className="text-center py-8">
@@ -237,9 +380,12 @@ export function InstructorDashboard({ user }: InstructorDashboardProps) {
                     <div className="flex-1">
                       <div className="flex items-center space-x-2 mb-2">
                         <h3 className="text-xl font-semibold">{course.title}</h3>
-                        <Badge variant={course.is_published ? "default" : "secondary"}>
-                          {course.is_published ? 'Published' : 'Draft'}
+                        <Badge variant={moderationStatusVariant(course.moderation_status)}>
+                          {MODERATION_STATUS_LABELS[course.moderation_status]}
                         </Badge>
+                        {roleFor(course.id) !== 'owner' && (
+                          <Badge variant="outline">{STAFF_ROLE_LABELS[roleFor(course.id)]}</Badge>
+                        )}
                       </div>
                       
                       <p className="text-gray-600 mb-4">{course.description}</p>
@@ -250,34 +396,177 @@ export function InstructorDashboard({ user }: InstructorDashboardProps) {
                         <span>{course.duration_hours}h duration</span>
                         <span>•</span>
                         <span>Created {course.created_at.toLocaleDateString()}</span>
+                        <span>•</span>
+                        <span className="flex items-center">
+                          <Star className="h-4 w-4 mr-1 fill-yellow-400 text-yellow-400" />
+                          {course.rating_count > 0 ? `${course.rating_average.toFixed(1)} (${course.rating_count})` : 'No ratings'}
+                        </span>
                       </div>
                       
-                      <div className="flex space-x-2">
+                      <div className="flex flex-wrap gap-2">
+                        {!can(course.id, 'edit_content') ? null : course.is_published ? (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                              setSelectedCourse(course);
+                              setShowDraftEditor(true);
+                            }}
+                          >
+                            <History className="h-4 w-4 mr-1" />
+                            Edit Draft &amp; History
+                          </Button>
+                        ) : (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => {
+                                setSelectedCourse(course);
+                                setShowLessonManagement(true);
+                              }}
+                            >
+                              <PlayCircle className="h-4 w-4 mr-1" />
+                              Manage Lessons
+                            </Button>
+
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => {
+                                setSelectedCourse(course);
+                                setShowQuizManagement(true);
+                              }}
+                            >
+                              <FileText className="h-4 w-4 mr-1" />
+                              Manage Quizzes
+                            </Button>
+                          </>
+                        )}
+
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => {
-                            setSelectedCourse(course);
-                            setShowLessonManagement(true);
-                          }}
+                          onClick={() => setReviewsCourse(course)}
                         >
-                          <PlayCircle className="h-4 w-4 mr-1" />
-                          Manage Lessons
+                          <Star className="h-4 w-4 mr-1" />
+                          Reviews
                         </Button>
                         
+                        {can(course.id, 'edit_content') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setPrerequisitesCourse(course)}
+                          >
+                            <ListChecks className="h-4 w-4 mr-1" />
+                            Prerequisites
+                          </Button>
+                        )}
+
+                        {can(course.id, 'publish') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setModerationCourse(course)}
+                          >
+                            <ClipboardCheck className="h-4 w-4 mr-1" />
+                            Review Status
+                          </Button>
+                        )}
+
+                        {can(course.id, 'publish') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setScheduleCourse(course)}
+                          >
+                            <CalendarClock className="h-4 w-4 mr-1" />
+                            Schedule
+                          </Button>
+                        )}
+
+                        {can(course.id, 'edit_content') && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleDuplicateCourse(course)}
+                            >
+                              <Copy className="h-4 w-4 mr-1" />
+                              Duplicate
+                            </Button>
+
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleSaveAsTemplate(course)}
+                            >
+                              <LayoutTemplate className="h-4 w-4 mr-1" />
+                              Save as Template
+                            </Button>
+
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button size="sm" variant="outline">
+                                  <Download className="h-4 w-4 mr-1" />
+                                  Export
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent>
+                                <DropdownMenuItem onClick={() => handleExportCourse(course.id, 'zip')}>
+                                  ZIP package
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => handleExportCourse(course.id, 'json')}>
+                                  JSON file
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </>
+                        )}
+
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => {
-                            setSelectedCourse(course);
-                            setShowQuizManagement(true);
-                          }}
+                          onClick={() => setStaffCourse(course)}
                         >
-                          <FileText className="h-4 w-4 mr-1" />
-                          Manage Quizzes
+                          <UserCog className="h-4 w-4 mr-1" />
+                          Staff
                         </Button>
-                        
-                        {!course.is_published && (
+
+                        {can(course.id, 'view_roster') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setRunsCourse(course)}
+                          >
+                            <CalendarRange className="h-4 w-4 mr-1" />
+                            Cohorts
+                          </Button>
+                        )}
+
+                        {can(course.id, 'message') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleMessageStudents(course)}
+                          >
+                            <Mail className="h-4 w-4 mr-1" />
+                            Message Students
+                          </Button>
+                        )}
+
+                        {can(course.id, 'publish') && (course.moderation_status === 'draft' || course.moderation_status === 'rejected') && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleSubmitForReview(course.id)}
+                          >
+                            <Send className="h-4 w-4 mr-1" />
+                            Submit for Review
+                          </Button>
+                        )}
+
+                        {can(course.id, 'publish') && course.moderation_status === 'approved' && (
                           <Button
                             size="sm"
                             onClick={() => handlePublishCourse(course.id)}
@@ -286,13 +575,15 @@ export function InstructorDashboard({ user }: InstructorDashboardProps) {
                           </Button>
                         )}
                         
-                        <Button
-                          size="sm"
-                          variant="destructive"
-                          onClick={() => handleDeleteCourse(course.id)}
-                        >
-                          Delete
-                        </Button>
+                        {can(course.id, 'delete') && (
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleDeleteCourse(course.id)}
+                          >
+                            Delete
+                          </Button>
+                        )}
                       </div>
                     </div>
                     
@@ -354,7 +645,83 @@ export function InstructorDashboard({ user }: InstructorDashboardProps) {
             </div>
           </div>
         </TabsContent>
+
+        <TabsContent value="trash">
+          <CourseTrash onRestored={loadInstructorData} />
+        </TabsContent>
       </Tabs>
+
+      <Dialog open={prerequisitesCourse !== null} onOpenChange={(open: boolean) => !open && setPrerequisitesCourse(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Prerequisites</DialogTitle>
+            <DialogDescription>{prerequisitesCourse?.title}</DialogDescription>
+          </DialogHeader>
+          {prerequisitesCourse && (
+            <CoursePrerequisites course={prerequisitesCourse} onSaved={() => setPrerequisitesCourse(null)} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={scheduleCourse !== null} onOpenChange={(open: boolean) => !open && setScheduleCourse(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Schedule</DialogTitle>
+            <DialogDescription>{scheduleCourse?.title}</DialogDescription>
+          </DialogHeader>
+          {scheduleCourse && (
+            <CourseSchedule
+              course={scheduleCourse}
+              onSaved={() => {
+                setScheduleCourse(null);
+                loadInstructorData();
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={runsCourse !== null} onOpenChange={(open: boolean) => !open && setRunsCourse(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Cohorts</DialogTitle>
+            <DialogDescription>{runsCourse?.title}</DialogDescription>
+          </DialogHeader>
+          {runsCourse && <CourseRuns course={runsCourse} canManage={can(runsCourse.id, 'publish')} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={staffCourse !== null} onOpenChange={(open: boolean) => !open && setStaffCourse(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Course Staff</DialogTitle>
+            <DialogDescription>{staffCourse?.title}</DialogDescription>
+          </DialogHeader>
+          {staffCourse && (
+            <CourseStaff course={staffCourse} user={user} canManage={can(staffCourse.id, 'manage_staff')} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={moderationCourse !== null} onOpenChange={(open: boolean) => !open && setModerationCourse(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Review Status</DialogTitle>
+            <DialogDescription>{moderationCourse?.title}</DialogDescription>
+          </DialogHeader>
+          {moderationCourse && <ModerationHistory courseId={moderationCourse.id} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={reviewsCourse !== null} onOpenChange={(open: boolean) => !open && setReviewsCourse(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Reviews</DialogTitle>
+            <DialogDescription>{reviewsCourse?.title}</DialogDescription>
+          </DialogHeader>
+          {reviewsCourse && <CourseReviews course={reviewsCourse} user={user} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,309 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import { Plus, Route, Pencil, Trash2, ArrowUp, ArrowDown, X } from 'lucide-react';
+import type { Course, LearningPath, CreateLearningPathInput } from '../../../server/src/schema';
+
+const emptyPath: CreateLearningPathInput = {
+  title: '',
+  description: null,
+  course_ids: [],
+  is_published: false
+};
+
+export function LearningPathManagement() {
+  const [paths, setPaths] = useState<LearningPath[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [pathData, setPathData] = useState<CreateLearningPathInput>(emptyPath);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const loadPaths = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [pathsData, coursesData] = await Promise.all([
+        trpc.getLearningPaths.query(),
+        trpc.getCourses.query()
+      ]);
+      setPaths(pathsData);
+      setCourses(coursesData);
+    } catch (error) {
+      console.error('Failed to load learning paths:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPaths();
+  }, [loadPaths]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setPathData(emptyPath);
+    setFormError(null);
+    setShowDialog(true);
+  };
+
+  const openEdit = (path: LearningPath) => {
+    setEditingId(path.id);
+    setPathData({
+      title: path.title,
+      description: path.description,
+      course_ids: path.courses.map(course => course.course_id),
+      is_published: path.is_published
+    });
+    setFormError(null);
+    setShowDialog(true);
+  };
+
+  const moveCourse = (index: number, offset: number) => {
+    setPathData((prev: CreateLearningPathInput) => {
+      const courseIds = [...prev.course_ids];
+      const [moved] = courseIds.splice(index, 1);
+      courseIds.splice(index + offset, 0, moved);
+      return { ...prev, course_ids: courseIds };
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    try {
+      if (editingId === null) {
+        await trpc.createLearningPath.mutate(pathData);
+      } else {
+        await trpc.updateLearningPath.mutate({ pathId: editingId, updates: pathData });
+      }
+      setShowDialog(false);
+      loadPaths();
+    } catch (error: unknown) {
+      setFormError(error instanceof Error ? error.message : 'Failed to save learning path');
+    }
+  };
+
+  const handleDelete = async (path: LearningPath) => {
+    if (window.confirm(`Delete "${path.title}"? Students lose their path progress, but keep their course progress.`)) {
+      try {
+        await trpc.deleteLearningPath.mutate({ pathId: path.id });
+        loadPaths();
+      } catch (error: unknown) {
+        alert(error instanceof Error ? error.message : 'Failed to delete learning path');
+      }
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading learning paths...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const courseTitle = (courseId: number) =>
+    courses.find((course: Course) => course.id === courseId)?.title ?? `Course #${courseId}`;
+  const addableCourses = courses.filter((course: Course) => !pathData.course_ids.includes(course.id));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center">
+                <Route className="h-6 w-6 mr-2" />
+                Learning Paths
+              </CardTitle>
+              <CardDescription>Curate ordered course sequences with a path certificate</CardDescription>
+            </div>
+            <Button onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Path
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          {paths.length === 0 ? (
+            <div className="text-center py-12">
+              <Route className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-gray-600 mb-2">No Learning Paths Yet</h3>
+              <p className="text-gray-500">Group courses into a path to guide students from the basics up</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Courses</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {paths.map((path: LearningPath) => (
+                  <TableRow key={path.id}>
+                    <TableCell className="font-medium">{path.title}</TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {path.courses.map(course => course.title).join(' → ')}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={path.is_published ? 'default' : 'secondary'}>
+                        {path.is_published ? 'Published' : 'Draft'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex space-x-1">
+                        <Button size="sm" variant="outline" onClick={() => openEdit(path)} title="Edit path">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="destructive" onClick={() => handleDelete(path)} title="Delete path">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId === null ? 'New Learning Path' : 'Edit Learning Path'}</DialogTitle>
+            <DialogDescription>Students take the courses in the order listed</DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="path-title">Title</Label>
+              <Input
+                id="path-title"
+                value={pathData.title}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setPathData((prev: CreateLearningPathInput) => ({ ...prev, title: e.target.value }))
+                }
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="path-description">Description (optional)</Label>
+              <Textarea
+                id="path-description"
+                value={pathData.description || ''}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                  setPathData((prev: CreateLearningPathInput) => ({ ...prev, description: e.target.value || null }))
+                }
+                rows={3}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Courses</Label>
+              {pathData.course_ids.length === 0 ? (
+                <p className="text-sm text-gray-500">Add at least one course.</p>
+              ) : (
+                <ol className="space-y-1">
+                  {pathData.course_ids.map((courseId: number, index: number) => (
+                    <li key={courseId} className="flex items-center justify-between border rounded px-2 py-1">
+                      <span className="text-sm">{index + 1}. {courseTitle(courseId)}</span>
+                      <div className="flex">
+                        <Button type="button" size="sm" variant="ghost" disabled={index === 0} onClick={() => moveCourse(index, -1)}>
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          disabled={index === pathData.course_ids.length - 1}
+                          onClick={() => moveCourse(index, 1)}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          onClick={() =>
+                            setPathData((prev: CreateLearningPathInput) => ({
+                              ...prev,
+                              course_ids: prev.course_ids.filter((id: number) => id !== courseId)
+                            }))
+                          }
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              {addableCourses.length > 0 && (
+                <Select
+                  value="none"
+                  onValueChange={(value: string) =>
+                    setPathData((prev: CreateLearningPathInput) => ({
+                      ...prev,
+                      course_ids: [...prev.course_ids, parseInt(value)]
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Add a course" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none" disabled>Add a course...</SelectItem>
+                    {addableCourses.map((course: Course) => (
+                      <SelectItem key={course.id} value={course.id.toString()}>{course.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="path-published"
+                checked={pathData.is_published ?? false}
+                onCheckedChange={(checked: boolean) =>
+                  setPathData((prev: CreateLearningPathInput) => ({ ...prev, is_published: checked }))
+                }
+              />
+              <Label htmlFor="path-published">Visible to students</Label>
+            </div>
+
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setShowDialog(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={pathData.course_ids.length === 0}>
+                {editingId === null ? 'Create Path' : 'Save Changes'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { trpc } from '@/utils/trpc';
+import { Route, Trophy, CheckCircle, Circle, PlayCircle } from 'lucide-react';
+import type { LearningPath, LearningPathProgress, LearningPathCourseStatus } from '../../../server/src/schema';
+
+const STATUS_ICONS: Record<LearningPathCourseStatus, typeof Circle> = {
+  not_enrolled: Circle,
+  in_progress: PlayCircle,
+  completed: CheckCircle
+};
+
+const STATUS_LABELS: Record<LearningPathCourseStatus, string> = {
+  not_enrolled: 'Not started',
+  in_progress: 'In progress',
+  completed: 'Completed'
+};
+
+export function LearningPaths() {
+  const [paths, setPaths] = useState<LearningPath[]>([]);
+  const [progress, setProgress] = useState<LearningPathProgress[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadPaths = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [pathsData, progressData] = await Promise.all([
+        trpc.getLearningPaths.query(),
+        trpc.getMyLearningPaths.query()
+      ]);
+      setPaths(pathsData);
+      setProgress(progressData);
+    } catch (error) {
+      console.error('Failed to load learning paths:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPaths();
+  }, [loadPaths]);
+
+  const handleJoin = async (pathId: number) => {
+    try {
+      await trpc.enrollInLearningPath.mutate({ pathId });
+      loadPaths();
+    } catch (error: unknown) {
+      alert(error instanceof Error ? error.message : 'Failed to join learning path');
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading learning paths...</p>;
+  }
+
+  const joinedIds = progress.map((item: LearningPathProgress) => item.path.id);
+  const available = paths.filter((path: LearningPath) => !joinedIds.includes(path.id));
+
+  return (
+    <div className="space-y-4">
+      {progress.map((item: LearningPathProgress) => (
+        <Card key={item.path.id}>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center">
+                  <Route className="h-5 w-5 mr-2" />
+                  {item.path.title}
+                </CardTitle>
+                {item.path.description && <CardDescription>{item.path.description}</CardDescription>}
+              </div>
+              {item.certificate ? (
+                <Badge className="bg-yellow-100 text-yellow-800">
+                  <Trophy className="h-3 w-3 mr-1" />
+                  Certified
+                </Badge>
+              ) : (
+                <Badge variant="secondary">
+                  {item.completed_courses} of {item.courses.length} courses
+                </Badge>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Progress value={item.progress_percentage} />
+            <ol className="space-y-2">
+              {item.courses.map((course, index: number) => {
+                const Icon = STATUS_ICONS[course.status];
+                return (
+                  <li
+                    key={course.course_id}
+                    className={`flex items-center justify-between p-2 rounded ${course.course_id === item.next_course_id ? 'bg-indigo-50' : ''}`}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <Icon className={`h-4 w-4 ${course.status === 'completed' ? 'text-green-600' : 'text-gray-400'}`} />
+                      <span className="text-sm">{index + 1}. {course.title}</span>
+                    </div>
+                    <span className="text-xs text-gray-500">
+                      {course.status === 'in_progress' ? `${course.progress_percentage}%` : STATUS_LABELS[course.status]}
+                    </span>
+                  </li>
+                );
+              })}
+            </ol>
+            {item.certificate && (
+              <p className="text-sm text-gray-600">
+                Certificate <span className="font-mono">{item.certificate.certificate_code}</span> issued{' '}
+                {item.certificate.issued_at.toLocaleDateString()}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Explore Learning Paths</CardTitle>
+          <CardDescription>Follow a curated sequence of courses and earn a path certificate</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {available.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              {paths.length === 0 ? 'No learning paths are available yet.' : "You've joined every available path."}
+            </p>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              {available.map((path: LearningPath) => (
+                <div key={path.id} className="border rounded p-4 space-y-2">
+                  <h3 className="font-semibold">{path.title}</h3>
+                  {path.description && <p className="text-sm text-gray-600">{path.description}</p>}
+                  <p className="text-xs text-gray-500">
+                    {path.courses.length} courses · {path.courses.reduce((total, course) => total + course.duration_hours, 0)}h total
+                  </p>
+                  <Button size="sm" onClick={() => handleJoin(path.id)}>
+                    Join Path
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
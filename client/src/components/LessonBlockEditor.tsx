@@ -0,0 +1,238 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MediaUpload } from '@/components/MediaUpload';
+import { CODE_LANGUAGE_LABELS } from '@/utils/highlight';
+import { CALLOUT_VARIANT_LABELS, LESSON_BLOCK_LABELS, createLessonBlock } from '@/utils/lessonBlocks';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import type { CalloutVariant, CodeLanguage, LessonBlock, LessonBlockType, MediaAsset } from '../../../server/src/schema';
+
+interface LessonBlockFieldsProps {
+  block: LessonBlock;
+  courseId: number;
+  onChange: (block: LessonBlock) => void;
+}
+
+function LessonBlockFields({ block, courseId, onChange }: LessonBlockFieldsProps) {
+  switch (block.type) {
+    case 'markdown':
+      return (
+        <Textarea
+          value={block.markdown}
+          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => onChange({ ...block, markdown: e.target.value })}
+          placeholder="Write in markdown: # headings, **bold**, *italic*, `code`, [links](https://...) and - lists"
+          rows={6}
+        />
+      );
+
+    case 'code':
+      return (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={block.language || 'plaintext'}
+              onValueChange={(language: string) => onChange({ ...block, language: language as CodeLanguage })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CODE_LANGUAGE_LABELS).map(([language, label]) => (
+                  <SelectItem key={language} value={language}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={block.filename ?? ''}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...block, filename: e.target.value || null })}
+              placeholder="File name (optional)"
+            />
+          </div>
+          <Textarea
+            value={block.code}
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => onChange({ ...block, code: e.target.value })}
+            placeholder="Paste the code snippet"
+            className="font-mono text-sm"
+            rows={8}
+          />
+        </div>
+      );
+
+    case 'image':
+      return (
+        <div className="space-y-2">
+          <div className="flex items-start space-x-2">
+            <Input
+              type="url"
+              value={block.url}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...block, url: e.target.value })}
+              placeholder="https://example.com/diagram.png"
+              required
+            />
+            <MediaUpload
+              purpose="lesson_attachment"
+              courseId={courseId}
+              onUploaded={(asset: MediaAsset) => onChange({ ...block, url: asset.url, alt: block.alt || asset.file_name })}
+            />
+          </div>
+          <Input
+            value={block.alt}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...block, alt: e.target.value })}
+            placeholder="Describe the image for screen readers"
+          />
+          <Input
+            value={block.caption ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...block, caption: e.target.value || null })}
+            placeholder="Caption (optional)"
+          />
+        </div>
+      );
+
+    case 'video':
+      return (
+        <div className="space-y-2">
+          <div className="flex items-start space-x-2">
+            <Input
+              type="url"
+              value={block.url}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...block, url: e.target.value })}
+              placeholder="YouTube, Vimeo or video file URL"
+              required
+            />
+            <MediaUpload
+              purpose="lesson_video"
+              courseId={courseId}
+              onUploaded={(asset: MediaAsset) => onChange({ ...block, url: asset.url })}
+            />
+          </div>
+          <Input
+            value={block.caption ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...block, caption: e.target.value || null })}
+            placeholder="Caption (optional)"
+          />
+        </div>
+      );
+
+    case 'callout':
+      return (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={block.variant || 'info'}
+              onValueChange={(variant: string) => onChange({ ...block, variant: variant as CalloutVariant })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CALLOUT_VARIANT_LABELS).map(([variant, label]) => (
+                  <SelectItem key={variant} value={variant}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={block.title ?? ''}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...block, title: e.target.value || null })}
+              placeholder="Title (optional)"
+            />
+          </div>
+          <Textarea
+            value={block.markdown}
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => onChange({ ...block, markdown: e.target.value })}
+            placeholder="Callout text (markdown)"
+            rows={3}
+          />
+        </div>
+      );
+
+    case 'file':
+      return (
+        <div className="space-y-2">
+          <div className="flex items-start space-x-2">
+            <Input
+              type="url"
+              value={block.url}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...block, url: e.target.value })}
+              placeholder="https://example.com/worksheet.pdf"
+              required
+            />
+            <MediaUpload
+              purpose="lesson_attachment"
+              courseId={courseId}
+              onUploaded={(asset: MediaAsset) =>
+                onChange({ ...block, url: asset.url, name: block.name || asset.file_name, size_bytes: asset.size_bytes })
+              }
+            />
+          </div>
+          <Input
+            value={block.name}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...block, name: e.target.value })}
+            placeholder="File name shown to students"
+            required
+          />
+        </div>
+      );
+  }
+}
+
+interface LessonBlockEditorProps {
+  blocks: LessonBlock[];
+  courseId: number; // Uploaded media belongs to the course, so its students can open it
+  onChange: (blocks: LessonBlock[]) => void;
+}
+
+export function LessonBlockEditor({ blocks, courseId, onChange }: LessonBlockEditorProps) {
+  const updateBlock = (index: number, block: LessonBlock) => {
+    onChange(blocks.map((current: LessonBlock, i: number) => i === index ? block : current));
+  };
+
+  const moveBlock = (index: number, offset: number) => {
+    const reordered = [...blocks];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    onChange(reordered);
+  };
+
+  return (
+    <div className="space-y-3">
+      {blocks.length === 0 && (
+        <p className="text-sm text-gray-500">This lesson has no content yet. Add text, code, media or downloads below.</p>
+      )}
+
+      {blocks.map((block: LessonBlock, index: number) => (
+        <div key={index} className="border rounded p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <Badge variant="outline">{LESSON_BLOCK_LABELS[block.type]}</Badge>
+            <div className="flex space-x-1">
+              <Button type="button" size="sm" variant="ghost" disabled={index === 0} onClick={() => moveBlock(index, -1)}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button type="button" size="sm" variant="ghost" disabled={index === blocks.length - 1} onClick={() => moveBlock(index, 1)}>
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => onChange(blocks.filter((_: LessonBlock, i: number) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <LessonBlockFields block={block} courseId={courseId} onChange={(updated: LessonBlock) => updateBlock(index, updated)} />
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(LESSON_BLOCK_LABELS) as LessonBlockType[]).map((type: LessonBlockType) => (
+          <Button key={type} type="button" size="sm" variant="outline" onClick={() => onChange([...blocks, createLessonBlock(type)])}>
+            <Plus className="h-4 w-4 mr-1" />
+            {LESSON_BLOCK_LABELS[type]}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { MarkdownContent } from '@/components/MarkdownContent';
+import { Button } from '@/components/ui/button';
+import { tokenizeCode, CODE_LANGUAGE_LABELS } from '@/utils/highlight';
+import type { CodeToken, CodeTokenKind } from '@/utils/highlight';
+import { CALLOUT_VARIANT_LABELS, formatFileSize, getVideoEmbedUrl, isSafeUrl } from '@/utils/lessonBlocks';
+import { useMediaUrl } from '@/utils/media';
+import { AlertTriangle, Download, Info, Lightbulb } from 'lucide-react';
+import type { CalloutVariant, LessonBlock } from '../../../server/src/schema';
+
+type ImageBlock = Extract<LessonBlock, { type: 'image' }>;
+type VideoBlock = Extract<LessonBlock, { type: 'video' }>;
+type FileBlock = Extract<LessonBlock, { type: 'file' }>;
+
+const TOKEN_CLASSES: Record<CodeTokenKind, string> = {
+  plain: '',
+  keyword: 'text-purple-300',
+  string: 'text-green-300',
+  comment: 'text-gray-500 italic',
+  number: 'text-amber-300'
+};
+
+const CALLOUT_STYLES: Record<CalloutVariant, { className: string; icon: typeof Info }> = {
+  info: { className: 'bg-blue-50 border-blue-200 text-blue-900', icon: Info },
+  tip: { className: 'bg-green-50 border-green-200 text-green-900', icon: Lightbulb },
+  warning: { className: 'bg-amber-50 border-amber-200 text-amber-900', icon: AlertTriangle }
+};
+
+// Files uploaded to the app render once their signed link is ready
+function ImageBlockView({ block }: { block: ImageBlock }) {
+  const url = useMediaUrl(block.url);
+  if (!url) return null;
+  return (
+    <figure>
+      <img src={url} alt={block.alt} loading="lazy" className="max-w-full rounded" />
+      {block.caption && <figcaption className="text-sm text-gray-500 mt-1">{block.caption}</figcaption>}
+    </figure>
+  );
+}
+
+function VideoBlockView({ block }: { block: VideoBlock }) {
+  const url = useMediaUrl(block.url);
+  const embedUrl = getVideoEmbedUrl(block.url);
+  return (
+    <figure>
+      <div className="aspect-video bg-black rounded overflow-hidden">
+        {embedUrl ? (
+          <iframe
+            src={embedUrl}
+            title={block.caption ?? 'Lesson video'}
+            className="w-full h-full"
+            sandbox="allow-scripts allow-same-origin allow-presentation"
+            allow="fullscreen; picture-in-picture"
+            allowFullScreen
+          />
+        ) : (
+          url && <video src={url} controls className="w-full h-full" />
+        )}
+      </div>
+      {block.caption && <figcaption className="text-sm text-gray-500 mt-1">{block.caption}</figcaption>}
+    </figure>
+  );
+}
+
+function FileBlockView({ block }: { block: FileBlock }) {
+  const url = useMediaUrl(block.url);
+  return (
+    <div className="border rounded p-3 flex items-center justify-between">
+      <div>
+        <p className="font-medium">{block.name}</p>
+        {block.size_bytes !== null && <p className="text-sm text-gray-500">{formatFileSize(block.size_bytes)}</p>}
+      </div>
+      {url && (
+        <Button size="sm" variant="outline" asChild>
+          <a href={url} target="_blank" rel="noopener noreferrer" download>
+            <Download className="h-4 w-4 mr-1" />
+            Download
+          </a>
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function LessonBlockView({ block }: { block: LessonBlock }) {
+  switch (block.type) {
+    case 'markdown':
+      return <MarkdownContent markdown={block.markdown} />;
+
+    case 'code':
+      return (
+        <div className="rounded overflow-hidden border border-gray-800">
+          <div className="bg-gray-800 text-gray-300 text-xs px-3 py-1 flex justify-between">
+            <span>{block.filename ?? ''}</span>
+            <span>{CODE_LANGUAGE_LABELS[block.language]}</span>
+          </div>
+          <pre className="bg-gray-900 text-gray-100 p-3 overflow-x-auto text-sm font-mono">
+            <code>
+              {tokenizeCode(block.code, block.language).map((token: CodeToken, index: number) => (
+                <span key={index} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+              ))}
+            </code>
+          </pre>
+        </div>
+      );
+
+    case 'image':
+      // URLs are checked on save as well; this guards rows written before validation existed
+      if (!isSafeUrl(block.url)) return null;
+      return <ImageBlockView block={block} />;
+
+    case 'video':
+      if (!isSafeUrl(block.url)) return null;
+      return <VideoBlockView block={block} />;
+
+    case 'callout': {
+      const { className, icon: Icon } = CALLOUT_STYLES[block.variant];
+      return (
+        <div className={`border rounded p-4 flex space-x-3 ${className}`}>
+          <Icon className="h-5 w-5 flex-shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <p className="font-semibold mb-1">{block.title ?? CALLOUT_VARIANT_LABELS[block.variant]}</p>
+            <MarkdownContent markdown={block.markdown} className="text-inherit" />
+          </div>
+        </div>
+      );
+    }
+
+    case 'file':
+      if (!isSafeUrl(block.url)) return null;
+      return <FileBlockView block={block} />;
+  }
+}
+
+interface LessonBlocksProps {
+  blocks: LessonBlock[];
+}
+
+export function LessonBlocks({ blocks }: LessonBlocksProps) {
+  return (
+    <div className="space-y-6">
+      {blocks.map((block: LessonBlock, index: number) => (
+        <LessonBlockView key={index} block={block} />
+      ))}
+    </div>
+  );
+}
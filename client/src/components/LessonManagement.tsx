@@ -7,27 +7,38 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { trpc } from '@/utils/trpc';
-import { ArrowLeft, Plus, Play, Edit, Trash2, Clock } from 'lucide-react';
-import type { Course, Lesson, CreateLessonInput } from '../../../server/src/schema';
+import { ContentImport } from '@/components/ContentImport';
+import { LessonBlockEditor } from '@/components/LessonBlockEditor';
+import { MediaUpload } from '@/components/MediaUpload';
+import { lessonBlocksFor } from '@/utils/lessonBlocks';
+import { ArrowLeft, Plus, Play, Edit, Trash2, Clock, Upload } from 'lucide-react';
+import type { Course, Lesson, LessonBlock, CreateLessonInput, ContentImportResult, MediaAsset } from '../../../server/src/schema';
 
 interface LessonManagementProps {
   course: Course;
   onBack: () => void;
 }
 
-export function LessonManagement({ course, onBack }: LessonManagementProps) {
-  const [lessons, setLessons] = useState<Lesson[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [showCreateDialog, setShowCreateDialog] = useState(false);
-  const [lessonData, setLessonData] = useState<CreateLessonInput>({
-    course_id: course.id,
+function emptyLessonData(courseId: number, orderIndex: number): CreateLessonInput {
+  return {
+    course_id: courseId,
     title: '',
     description: null,
     video_url: null,
     content: null,
-    order_index: 1,
+    blocks: [],
+    order_index: orderIndex,
     duration_minutes: 30
-  });
+  };
+}
+
+export function LessonManagement({ course, onBack }: LessonManagementProps) {
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [editingLesson, setEditingLesson] = useState<Lesson | null>(null);
+  const [lessonData, setLessonData] = useState<CreateLessonInput>(emptyLessonData(course.id, 1));
 
   const loadLessons = useCallback(async () => {
     setIsLoading(true);
@@ -48,24 +59,58 @@ export function LessonManagement({ course, onBack }: LessonManagementProps) {
     loadLessons();
   }, [loadLessons]);
 
+  const handleContentImported = async (result: ContentImportResult) => {
+    setShowImportDialog(false);
+    // Published courses take the lessons into their draft, which this list doesn't show
+    if (course.is_published) {
+      alert(`${result.lessons.length} lessons were added to the course draft. Publish the draft to make them visible.`);
+    }
+    await loadLessons();
+  };
+
+  const handleNewLesson = () => {
+    setEditingLesson(null);
+    setLessonData(emptyLessonData(course.id, lessons.length + 1));
+    setShowCreateDialog(true);
+  };
+
+  const handleEditLesson = (lesson: Lesson) => {
+    setEditingLesson(lesson);
+    setLessonData({
+      course_id: course.id,
+      title: lesson.title,
+      description: lesson.description,
+      video_url: lesson.video_url,
+      content: null, // Plain text content moves into a text block
+      blocks: lessonBlocksFor(lesson),
+      order_index: lesson.order_index,
+      duration_minutes: lesson.duration_minutes
+    });
+    setShowCreateDialog(true);
+  };
+
   const handleCreateLesson = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      await trpc.createLesson.mutate(lessonData);
+      if (editingLesson) {
+        await trpc.updateLesson.mutate({ lessonId: editingLesson.id, updates: lessonData });
+        // Published courses take the change into their draft, which this list doesn't show
+        if (course.is_published) {
+          alert('The lesson was updated in the course draft. Publish the draft to make the changes visible.');
+        }
+      } else {
+        await trpc.createLesson.mutate(lessonData);
+        if (course.is_published) {
+          alert('The lesson was added to the course draft. Publish the draft to make it visible.');
+        }
+      }
       setShowCreateDialog(false);
-      setLessonData({
-        course_id: course.id,
-        title: '',
-        description: null,
-        video_url: null,
-        content: null,
-        order_index: lessons.length + 1,
-        duration_minutes: 30
-      });
+      setEditingLesson(null);
+      setLessonData(emptyLessonData(course.id, lessons.length + 1));
       loadLessons();
     } catch (error) {
-      console.error('Failed to create lesson:', error);
-      alert('Failed to create lesson');
+      console.error('Failed to save lesson:', error);
+      alert('Failed to save lesson');
     }
   };
 
@@ -79,9 +124,13 @@ export function LessonManagement({ course, onBack }: LessonManagementProps) {
   };
 
   const handleDeleteLesson = async (lessonId: number) => {
-    if (window.confirm('Are you sure you want to delete this lesson?')) {
+    if (window.confirm('Move this lesson to the trash? You can restore it from the Trash tab for 30 days.')) {
       try {
         await trpc.deleteLesson.mutate({ lessonId });
+        // Published courses drop the lesson from their draft; it reaches the trash once the draft is published
+        if (course.is_published) {
+          alert('The lesson was removed from the course draft. Publish the draft to move it to the trash.');
+        }
         loadLessons();
       } catch (error) {
         console.error('Failed to delete lesson:', error);
@@ -117,126 +166,151 @@ export function LessonManagement({ course, onBack }: LessonManagementProps) {
               <CardDescription>Add and organize lessons for your course</CardDescription>
             </div>
             
-            <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
-              <DialogTrigger asChild>
-                <Button>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Lesson
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="max-w-2xl">
-                <DialogHeader>
-                  <DialogTitle>Create New Lesson</DialogTitle>
-                  <DialogDescription>Add a lesson to your course</DialogDescription>
-                </DialogHeader>
+            <div className="flex space-x-2">
+              <Dialog open={showImportDialog} onOpenChange={setShowImportDialog}>
+                <DialogTrigger asChild>
+                  <Button variant="outline">
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import Package
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-2xl">
+                  <DialogHeader>
+                    <DialogTitle>Import Lessons</DialogTitle>
+                    <DialogDescription>
+                      Create lessons and quizzes from a SCORM 1.2 or Common Cartridge package. They are added unpublished after the existing lessons.
+                    </DialogDescription>
+                  </DialogHeader>
+                  {showImportDialog && <ContentImport courseId={course.id} onImported={handleContentImported} />}
+                </DialogContent>
+              </Dialog>
+
+              <Button onClick={handleNewLesson}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Lesson
+              </Button>
+
+              <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+                <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>{editingLesson ? 'Edit Lesson' : 'Create New Lesson'}</DialogTitle>
+                    <DialogDescription>
+                      {editingLesson ? 'Update the lesson details and content' : 'Add a lesson to your course'}
+                    </DialogDescription>
+                  </DialogHeader>
                 
-                <form onSubmit={handleCreateLesson} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="lesson-title">Lesson Title</Label>
-                    <Input
-                      id="lesson-title"
-                      value={lessonData.title}
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                        setLessonData((prev: CreateLessonInput) => ({ ...prev, title: e.target.value }))
-                      }
-                      placeholder="Enter lesson title"
-                      required
-                    />
-                  </div>
-                  
-                  <div className="space-y-2">
-                    <Label htmlFor="lesson-description">Description (optional)</Label>
-                    <Textarea
-                      id="lesson-description"
-                      value={lessonData.description || ''}
-                      onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-                        setLessonData((prev: CreateLessonInput) => ({
-                          ...prev,
-                          description: e.target.value || null
-                        }))
-                      }
-                      placeholder="Lesson description"
-                      rows={3}
-                    />
-                  </div>
-                  
-                  <div className="space-y-2">
-                    <Label htmlFor="video-url">Video URL (optional)</Label>
-                    <Input
-                      id="video-url"
-                      type="url"
-                      value={lessonData.video_url || ''}
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                        setLessonData((prev: CreateLessonInput) => ({
-                          ...prev,
-                          video_url: e.target.value || null
-                        }))
-                      }
-                      placeholder="https://example.com/video.mp4"
-                    />
-                  </div>
-                  
-                  <div className="space-y-2">
-                    <Label htmlFor="lesson-content">Text Content (optional)</Label>
-                    <Textarea
-                      id="lesson-content"
-                      value={lessonData.content || ''}
-                      onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-                        setLessonData((prev: CreateLessonInput) => ({
-                          ...prev,
-                          content: e.target.value || null
-                        }))
-                      }
-                      placeholder="Lesson content and materials"
-                      rows={6}
-                    />
-                  </div>
-                  
-                  <div className="grid grid-cols-2 gap-4">
+                  <form onSubmit={handleCreateLesson} className="space-y-4">
                     <div className="space-y-2">
-                      <Label htmlFor="duration">Duration (minutes)</Label>
+                      <Label htmlFor="lesson-title">Lesson Title</Label>
                       <Input
-                        id="duration"
-                        type="number"
-                        min="1"
-                        value={lessonData.duration_minutes}
+                        id="lesson-title"
+                        value={lessonData.title}
                         onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                          setLessonData((prev: CreateLessonInput) => ({
-                            ...prev,
-                            duration_minutes: parseInt(e.target.value) || 30
-                          }))
+                          setLessonData((prev: CreateLessonInput) => ({ ...prev, title: e.target.value }))
                         }
+                        placeholder="Enter lesson title"
                         required
                       />
                     </div>
-                    
+                  
                     <div className="space-y-2">
-                      <Label htmlFor="order">Order</Label>
-                      <Input
-                        id="order"
-                        type="number"
-                        min="1"
-                        value={lessonData.order_index}
-                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      <Label htmlFor="lesson-description">Description (optional)</Label>
+                      <Textarea
+                        id="lesson-description"
+                        value={lessonData.description || ''}
+                        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
                           setLessonData((prev: CreateLessonInput) => ({
                             ...prev,
-                            order_index: parseInt(e.target.value) || 1
+                            description: e.target.value || null
                           }))
                         }
-                        required
+                        placeholder="Lesson description"
+                        rows={3}
                       />
                     </div>
-                  </div>
                   
-                  <div className="flex justify-end space-x-2 pt-4">
-                    <Button type="button" variant="outline" onClick={() => setShowCreateDialog(false)}>
-                      Cancel
-                    </Button>
-                    <Button type="submit">Create Lesson</Button>
-                  </div>
-                </form>
-              </DialogContent>
-            </Dialog>
+                    <div className="space-y-2">
+                      <Label htmlFor="video-url">Video (optional)</Label>
+                      <div className="flex items-start space-x-2">
+                        <Input
+                          id="video-url"
+                          type="url"
+                          value={lessonData.video_url || ''}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            setLessonData((prev: CreateLessonInput) => ({
+                              ...prev,
+                              video_url: e.target.value || null
+                            }))
+                          }
+                          placeholder="https://example.com/video.mp4"
+                        />
+                        <MediaUpload
+                          purpose="lesson_video"
+                          courseId={course.id}
+                          onUploaded={(asset: MediaAsset) =>
+                            setLessonData((prev: CreateLessonInput) => ({ ...prev, video_url: asset.url }))
+                          }
+                        />
+                      </div>
+                    </div>
+                  
+                    <div className="space-y-2">
+                      <Label>Content</Label>
+                      <LessonBlockEditor
+                        blocks={lessonData.blocks ?? []}
+                        courseId={course.id}
+                        onChange={(blocks: LessonBlock[]) =>
+                          setLessonData((prev: CreateLessonInput) => ({ ...prev, blocks }))
+                        }
+                      />
+                    </div>
+                  
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="duration">Duration (minutes)</Label>
+                        <Input
+                          id="duration"
+                          type="number"
+                          min="1"
+                          value={lessonData.duration_minutes}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            setLessonData((prev: CreateLessonInput) => ({
+                              ...prev,
+                              duration_minutes: parseInt(e.target.value) || 30
+                            }))
+                          }
+                          required
+                        />
+                      </div>
+                    
+                      <div className="space-y-2">
+                        <Label htmlFor="order">Order</Label>
+                        <Input
+                          id="order"
+                          type="number"
+                          min="1"
+                          value={lessonData.order_index}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            setLessonData((prev: CreateLessonInput) => ({
+                              ...prev,
+                              order_index: parseInt(e.target.value) || 1
+                            }))
+                          }
+                          required
+                        />
+                      </div>
+                    </div>
+                  
+                    <div className="flex justify-end space-x-2 pt-4">
+                      <Button type="button" variant="outline" onClick={() => setShowCreateDialog(false)}>
+                        Cancel
+                      </Button>
+                      <Button type="submit">{editingLesson ? 'Save Changes' : 'Create Lesson'}</Button>
+                    </div>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
         </CardHeader>
       </Card>
@@ -249,7 +323,7 @@ export function LessonManagement({ course, onBack }: LessonManagementProps) {
               <Play className="h-16 w-16 text-gray-400 mx-auto mb-4" />
               <h3 className="text-xl font-semibold text-gray-600 mb-2">No Lessons Yet</h3>
               <p className="text-gray-500 mb-4">Create your first lesson to get started</p>
-              <Button onClick={() => setShowCreateDialog(true)}>
+              <Button onClick={handleNewLesson}>
                 <Plus className="h-4 w-4 mr-2" />
                 Create First Lesson
               </Button>
@@ -301,7 +375,7 @@ export function LessonManagement({ course, onBack }: LessonManagementProps) {
                           </Button>
                         )}
                         
-                        <Button size="sm" variant="outline">
+                        <Button size="sm" variant="outline" onClick={() => handleEditLesson(lesson)}>
                           <Edit className="h-4 w-4 mr-1" />
                           Edit
                         </Button>
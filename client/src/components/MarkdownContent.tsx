@@ -0,0 +1,128 @@
+import type { ReactNode } from 'react';
+import { isSafeUrl } from '@/utils/lessonBlocks';
+
+// Renders the markdown subset lesson authors use (headings, lists, quotes, code, emphasis and links)
+// straight to React elements. Raw HTML is shown as text and links must be http(s) or mailto, so
+// instructor-written markdown can't inject markup or scripts into the student view.
+
+const INLINE_PATTERN = /`([^`]+)`|\*\*(.+?)\*\*|\*([^*]+)\*|_([^_]+)_|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+function renderInline(text: string, keyPrefix: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let position = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > position) nodes.push(text.slice(position, index));
+
+    const key = `${keyPrefix}-${index}`;
+    const [whole, code, bold, italic, underscored, linkText, href] = match;
+    if (code !== undefined) {
+      nodes.push(<code key={key} className="px-1 py-0.5 rounded bg-gray-100 text-sm font-mono">{code}</code>);
+    } else if (bold !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(bold, key)}</strong>);
+    } else if (italic !== undefined || underscored !== undefined) {
+      nodes.push(<em key={key}>{renderInline(italic ?? underscored, key)}</em>);
+    } else if (linkText !== undefined) {
+      nodes.push(isSafeUrl(href, ['http:', 'https:', 'mailto:'])
+        ? (
+          <a key={key} href={href} target="_blank" rel="noopener noreferrer" className="text-indigo-600 underline">
+            {renderInline(linkText, key)}
+          </a>
+        )
+        : whole);
+    }
+    position = index + whole.length;
+  }
+  if (position < text.length) nodes.push(text.slice(position));
+
+  return nodes;
+}
+
+function renderLines(lines: string[], keyPrefix: string): ReactNode[] {
+  return lines.flatMap((line: string, index: number) => [
+    ...(index > 0 ? [<br key={`${keyPrefix}-br-${index}`} />] : []),
+    ...renderInline(line, `${keyPrefix}-${index}`)
+  ]);
+}
+
+const HEADING_CLASSES = ['text-xl font-bold', 'text-lg font-semibold', 'text-base font-semibold'];
+const LIST_ITEM_PATTERN = /^\s*(?:[-*]|\d+\.)\s+/;
+
+interface MarkdownContentProps {
+  markdown: string;
+  className?: string;
+}
+
+export function MarkdownContent({ markdown, className }: MarkdownContentProps) {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const elements: ReactNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `block-${i}`;
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('```')) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith('```')) code.push(lines[i++]);
+      i++; // Closing fence
+      elements.push(
+        <pre key={key} className="bg-gray-900 text-gray-100 rounded p-3 overflow-x-auto text-sm font-mono">
+          {code.join('\n')}
+        </pre>
+      );
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      const level = heading[1].length;
+      const Tag = (['h3', 'h4', 'h5'] as const)[level - 1];
+      elements.push(<Tag key={key} className={HEADING_CLASSES[level - 1]}>{renderInline(heading[2], key)}</Tag>);
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].startsWith('>')) quoted.push(lines[i++].replace(/^>\s?/, ''));
+      elements.push(
+        <blockquote key={key} className="border-l-4 border-gray-300 pl-3 text-gray-600 italic">
+          {renderLines(quoted, key)}
+        </blockquote>
+      );
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const ordered = /^\s*\d+\./.test(line);
+      const items: string[] = [];
+      while (i < lines.length && LIST_ITEM_PATTERN.test(lines[i])) items.push(lines[i++].replace(LIST_ITEM_PATTERN, ''));
+      const ListTag = ordered ? 'ol' : 'ul';
+      elements.push(
+        <ListTag key={key} className={`${ordered ? 'list-decimal' : 'list-disc'} pl-6 space-y-1`}>
+          {items.map((item: string, index: number) => <li key={index}>{renderInline(item, `${key}-${index}`)}</li>)}
+        </ListTag>
+      );
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length && lines[i].trim() && !lines[i].startsWith('```') && !lines[i].startsWith('>') &&
+      !/^#{1,3}\s/.test(lines[i]) && !LIST_ITEM_PATTERN.test(lines[i])
+    ) {
+      paragraph.push(lines[i++]);
+    }
+    elements.push(<p key={key}>{renderLines(paragraph, key)}</p>);
+  }
+
+  return <div className={className ? `space-y-3 text-gray-700 ${className}` : 'space-y-3 text-gray-700'}>{elements}</div>;
+}
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { trpc } from '@/utils/trpc';
+import { formatFileSize } from '@/utils/lessonBlocks';
+import { HardDrive, Trash2 } from 'lucide-react';
+import type { MediaAsset, MediaPurpose, MediaUsage } from '../../../server/src/schema';
+
+const MEDIA_PURPOSE_LABELS: Record<MediaPurpose, string> = {
+  avatar: 'Avatar',
+  course_thumbnail: 'Thumbnail',
+  lesson_video: 'Video',
+  lesson_attachment: 'Attachment'
+};
+
+// The user's uploaded files and how much of their storage quota they use
+export function MediaLibrary() {
+  const [usage, setUsage] = useState<MediaUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMedia = useCallback(async () => {
+    try {
+      setUsage(await trpc.getMyMedia.query());
+    } catch (error) {
+      console.error('Failed to load uploaded files:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMedia();
+  }, [loadMedia]);
+
+  const handleDelete = async (asset: MediaAsset) => {
+    if (!window.confirm(`Delete ${asset.file_name}? Courses, lessons or profiles still linking to it will show a broken file.`)) return;
+
+    setError(null);
+    try {
+      await trpc.deleteMedia.mutate({ mediaId: asset.id });
+      loadMedia();
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Failed to delete file');
+    }
+  };
+
+  if (!usage) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <HardDrive className="h-5 w-5 mr-2" />
+          Uploaded Files
+        </CardTitle>
+        <CardDescription>
+          {formatFileSize(usage.used_bytes)} of {formatFileSize(usage.quota_bytes)} used
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Progress value={usage.quota_bytes > 0 ? Math.min(100, (usage.used_bytes / usage.quota_bytes) * 100) : 100} />
+
+        {usage.assets.length === 0 ? (
+          <p className="text-sm text-gray-500">You haven't uploaded any files yet.</p>
+        ) : (
+          usage.assets.map((asset: MediaAsset) => (
+            <div key={asset.id} className="border rounded p-3 flex items-center justify-between">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <Badge variant="outline">{MEDIA_PURPOSE_LABELS[asset.purpose]}</Badge>
+                  <span className="font-medium">{asset.file_name}</span>
+                </div>
+                <p className="text-sm text-gray-600 mt-1">
+                  {formatFileSize(asset.size_bytes)} · Uploaded {asset.created_at.toLocaleDateString()}
+                </p>
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => handleDelete(asset)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,46 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { MEDIA_ACCEPT, uploadMediaFile } from '@/utils/media';
+import { Upload } from 'lucide-react';
+import type { MediaAsset, MediaPurpose } from '../../../server/src/schema';
+
+interface MediaUploadProps {
+  purpose: MediaPurpose;
+  courseId: number | null;
+  onUploaded: (asset: MediaAsset) => void;
+  label?: string;
+}
+
+// Uploads a file picked from the user's computer to the app's own storage
+export function MediaUpload({ purpose, courseId, onUploaded, label = 'Upload' }: MediaUploadProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Picking the same file again should upload it again
+    if (!file) return;
+
+    setIsUploading(true);
+    setError(null);
+    try {
+      onUploaded(await uploadMediaFile(file, purpose, courseId));
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Failed to upload file');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <input ref={inputRef} type="file" accept={MEDIA_ACCEPT[purpose]} className="hidden" onChange={handleFileChange} />
+      <Button type="button" size="sm" variant="outline" disabled={isUploading} onClick={() => inputRef.current?.click()}>
+        <Upload className="h-4 w-4 mr-1" />
+        {isUploading ? 'Uploading...' : label}
+      </Button>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
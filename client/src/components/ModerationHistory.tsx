@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { MODERATION_STATUS_LABELS, moderationStatusVariant } from '@/utils/moderation';
+import type { ModerationEvent } from '../../../server/src/schema';
+
+interface ModerationHistoryProps {
+  courseId: number;
+}
+
+export function ModerationHistory({ courseId }: ModerationHistoryProps) {
+  const [events, setEvents] = useState<ModerationEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.getCourseModerationHistory.query({ courseId });
+      setEvents(result);
+    } catch (error) {
+      console.error('Failed to load moderation history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [courseId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">This course has not been submitted for review yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+      {events.map((event: ModerationEvent) => (
+        <div key={event.id} className="border rounded p-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Badge variant={moderationStatusVariant(event.to_status)}>
+                {MODERATION_STATUS_LABELS[event.to_status]}
+              </Badge>
+              <span className="text-sm text-gray-600">by {event.actor_name || 'a deleted user'}</span>
+            </div>
+            <span className="text-xs text-gray-500">{event.created_at.toLocaleString()}</span>
+          </div>
+          {event.reason && (
+            <p className="text-sm text-gray-700 mt-2 whitespace-pre-wrap">{event.reason}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import { ModerationHistory } from '@/components/ModerationHistory';
+import { CheckCircle, XCircle, History, Inbox } from 'lucide-react';
+import type { ModerationQueueItem } from '../../../server/src/schema';
+
+interface ModerationQueueProps {
+  onModerated?: () => void;
+}
+
+export function ModerationQueue({ onModerated }: ModerationQueueProps) {
+  const [queue, setQueue] = useState<ModerationQueueItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [rejecting, setRejecting] = useState<ModerationQueueItem | null>(null);
+  const [reason, setReason] = useState('');
+  const [historyCourse, setHistoryCourse] = useState<ModerationQueueItem | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.getModerationQueue.query();
+      setQueue(result);
+    } catch (error) {
+      console.error('Failed to load moderation queue:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleDecision = async (courseId: number, action: 'approve' | 'reject', decisionReason: string | null) => {
+    setError(null);
+    try {
+      await trpc.moderateCourse.mutate({ courseId, action, reason: decisionReason });
+      setRejecting(null);
+      setReason('');
+      await loadQueue();
+      onModerated?.();
+    } catch (error: unknown) {
+      setError(error instanceof Error ? error.message : 'Failed to moderate course');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Review Queue</CardTitle>
+        <CardDescription>Courses submitted by instructors, longest waiting first</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && rejecting === null && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading queue...</p>
+        ) : queue.length === 0 ? (
+          <div className="text-center py-8">
+            <Inbox className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">No courses are waiting for review</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Course</TableHead>
+                <TableHead>Instructor</TableHead>
+                <TableHead>Lessons</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Submitted</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {queue.map((item: ModerationQueueItem) => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <div className="font-medium">{item.title}</div>
+                    <div className="text-sm text-gray-500 line-clamp-1">{item.description}</div>
+                  </TableCell>
+                  <TableCell>{item.instructor_name}</TableCell>
+                  <TableCell>{item.lesson_count}</TableCell>
+                  <TableCell>${item.price}</TableCell>
+                  <TableCell>{item.submitted_at.toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    <div className="flex space-x-2">
+                      <Button size="sm" onClick={() => handleDecision(item.id, 'approve', null)}>
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setError(null);
+                          setReason('');
+                          setRejecting(item);
+                        }}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setHistoryCourse(item)}>
+                        <History className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={rejecting !== null} onOpenChange={(open: boolean) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Course</DialogTitle>
+            <DialogDescription>
+              {rejecting?.title} will go back to {rejecting?.instructor_name} with your feedback.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejection-reason">Reason</Label>
+            <Textarea
+              id="rejection-reason"
+              value={reason}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setReason(e.target.value)}
+              placeholder="Explain what needs to change before the course can be approved"
+              rows={4}
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!reason.trim()}
+              onClick={() => rejecting && handleDecision(rejecting.id, 'reject', reason.trim())}
+            >
+              Reject Course
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={historyCourse !== null} onOpenChange={(open: boolean) => !open && setHistoryCourse(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Moderation History</DialogTitle>
+            <DialogDescription>{historyCourse?.title}</DialogDescription>
+          </DialogHeader>
+          {historyCourse && <ModerationHistory courseId={historyCourse.id} />}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
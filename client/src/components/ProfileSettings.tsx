@@ -0,0 +1,402 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { MediaUpload } from '@/components/MediaUpload';
+import { MediaLibrary } from '@/components/MediaLibrary';
+import { trpc } from '@/utils/trpc';
+import { UserCircle, Mail, KeyRound, AlertCircle, Link2 } from 'lucide-react';
+import type { Profile, ChangePasswordInput, ChangeEmailInput, MediaAsset, SsoProvider } from '../../../server/src/schema';
+
+interface ProfileSettingsProps {
+  onProfileUpdate: (profile: Profile) => void;
+}
+
+interface StatusMessage {
+  type: 'success' | 'error';
+  text: string;
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+function StatusAlert({ status }: { status: StatusMessage | null }) {
+  if (!status) return null;
+  return (
+    <Alert variant={status.type === 'error' ? 'destructive' : 'default'}>
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>{status.text}</AlertDescription>
+    </Alert>
+  );
+}
+
+export function ProfileSettings({ onProfileUpdate }: ProfileSettingsProps) {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Profile details form
+  const [details, setDetails] = useState({ first_name: '', last_name: '', avatar_url: '' });
+  const [detailsStatus, setDetailsStatus] = useState<StatusMessage | null>(null);
+  const [isSavingDetails, setIsSavingDetails] = useState(false);
+  const [mediaVersion, setMediaVersion] = useState(0); // Reloads the file list after an upload
+
+  // Email change form
+  const [emailData, setEmailData] = useState<ChangeEmailInput>({ newEmail: '', password: '' });
+  const [emailStatus, setEmailStatus] = useState<StatusMessage | null>(null);
+  const [isSavingEmail, setIsSavingEmail] = useState(false);
+
+  // Password change form
+  const [passwordData, setPasswordData] = useState<ChangePasswordInput>({ currentPassword: '', newPassword: '' });
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [passwordStatus, setPasswordStatus] = useState<StatusMessage | null>(null);
+  const [isSavingPassword, setIsSavingPassword] = useState(false);
+
+  // Single sign-on linking
+  const [ssoProviders, setSsoProviders] = useState<SsoProvider[]>([]);
+  const [ssoPassword, setSsoPassword] = useState('');
+  const [ssoStatus, setSsoStatus] = useState<StatusMessage | null>(null);
+  const [isLinking, setIsLinking] = useState(false);
+
+  const applyProfile = useCallback((result: Profile) => {
+    setProfile(result);
+    setDetails({
+      first_name: result.first_name,
+      last_name: result.last_name,
+      avatar_url: result.avatar_url || ''
+    });
+  }, []);
+
+  const loadProfile = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.getMyProfile.query();
+      applyProfile(result);
+    } catch (error) {
+      console.error('Failed to load profile:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [applyProfile]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  useEffect(() => {
+    trpc.getSsoProviders.query()
+      .then(setSsoProviders)
+      .catch((error: unknown) => console.error('Failed to load sign-in providers:', error));
+  }, []);
+
+  const handleSaveDetails = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingDetails(true);
+    setDetailsStatus(null);
+
+    try {
+      const result = await trpc.updateMyProfile.mutate({
+        first_name: details.first_name,
+        last_name: details.last_name,
+        avatar_url: details.avatar_url || null
+      });
+      applyProfile(result);
+      onProfileUpdate(result);
+      setDetailsStatus({ type: 'success', text: 'Profile updated.' });
+    } catch (error: unknown) {
+      setDetailsStatus({ type: 'error', text: errorMessage(error, 'Failed to update profile') });
+    } finally {
+      setIsSavingDetails(false);
+    }
+  };
+
+  const handleChangeEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingEmail(true);
+    setEmailStatus(null);
+
+    try {
+      await trpc.changeEmail.mutate(emailData);
+      setProfile((prev: Profile | null) => prev ? { ...prev, pending_email: emailData.newEmail } : prev);
+      setEmailStatus({ type: 'success', text: `We sent a confirmation link to ${emailData.newEmail}. Your email changes once you open it.` });
+      setEmailData({ newEmail: '', password: '' });
+    } catch (error: unknown) {
+      setEmailStatus({ type: 'error', text: errorMessage(error, 'Failed to change email') });
+    } finally {
+      setIsSavingEmail(false);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordStatus(null);
+
+    if (passwordData.newPassword !== confirmPassword) {
+      setPasswordStatus({ type: 'error', text: 'New passwords do not match' });
+      return;
+    }
+
+    setIsSavingPassword(true);
+    try {
+      await trpc.changePassword.mutate(passwordData);
+      setPasswordStatus({ type: 'success', text: 'Password changed. Your other devices have been signed out.' });
+      setPasswordData({ currentPassword: '', newPassword: '' });
+      setConfirmPassword('');
+    } catch (error: unknown) {
+      setPasswordStatus({ type: 'error', text: errorMessage(error, 'Failed to change password') });
+    } finally {
+      setIsSavingPassword(false);
+    }
+  };
+
+  // The provider sends the browser back to the sign-in page, which finishes the link
+  const handleLinkSso = async (providerId: string) => {
+    setIsLinking(true);
+    setSsoStatus(null);
+
+    try {
+      const { authorizationUrl } = await trpc.beginSsoLink.mutate({ provider: providerId, password: ssoPassword });
+      window.location.assign(authorizationUrl);
+    } catch (error: unknown) {
+      setSsoStatus({ type: 'error', text: errorMessage(error, 'Failed to link sign-in provider') });
+      setIsLinking(false);
+    }
+  };
+
+  if (isLoading || !profile) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading settings...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-2xl space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <UserCircle className="h-5 w-5 mr-2" />
+            Profile
+          </CardTitle>
+          <CardDescription>How you appear to instructors and classmates</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSaveDetails} className="space-y-4">
+            <div className="flex items-center space-x-4">
+              {details.avatar_url ? (
+                <img
+                  src={details.avatar_url}
+                  alt={`${details.first_name} ${details.last_name}`}
+                  className="w-16 h-16 rounded-full object-cover"
+                />
+              ) : (
+                <div className="w-16 h-16 bg-gray-200 rounded-full flex items-center justify-center">
+                  <span className="text-lg font-medium text-gray-600">
+                    {details.first_name.charAt(0)}{details.last_name.charAt(0)}
+                  </span>
+                </div>
+              )}
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="avatar-url">Avatar</Label>
+                <div className="flex items-start space-x-2">
+                  <Input
+                    id="avatar-url"
+                    type="url"
+                    value={details.avatar_url}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setDetails((prev: typeof details) => ({ ...prev, avatar_url: e.target.value }))
+                    }
+                    placeholder="https://..."
+                  />
+                  <MediaUpload
+                    purpose="avatar"
+                    courseId={null}
+                    onUploaded={(asset: MediaAsset) => {
+                      setDetails((prev: typeof details) => ({ ...prev, avatar_url: asset.url }));
+                      setMediaVersion((prev: number) => prev + 1);
+                    }}
+                  />
+                </div>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="profile-first-name">First Name</Label>
+                <Input
+                  id="profile-first-name"
+                  value={details.first_name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setDetails((prev: typeof details) => ({ ...prev, first_name: e.target.value }))
+                  }
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-last-name">Last Name</Label>
+                <Input
+                  id="profile-last-name"
+                  value={details.last_name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setDetails((prev: typeof details) => ({ ...prev, last_name: e.target.value }))
+                  }
+                  required
+                />
+              </div>
+            </div>
+            <StatusAlert status={detailsStatus} />
+            <Button type="submit" disabled={isSavingDetails}>
+              {isSavingDetails ? 'Saving...' : 'Save Profile'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <MediaLibrary key={mediaVersion} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Mail className="h-5 w-5 mr-2" />
+            Email
+          </CardTitle>
+          <CardDescription>
+            Currently <span className="font-medium">{profile.email}</span>
+            {profile.pending_email && (
+              <> — waiting for confirmation of <span className="font-medium">{profile.pending_email}</span></>
+            )}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleChangeEmail} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-email">New Email</Label>
+              <Input
+                id="new-email"
+                type="email"
+                value={emailData.newEmail}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setEmailData((prev: ChangeEmailInput) => ({ ...prev, newEmail: e.target.value }))
+                }
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="email-password">Password</Label>
+              <Input
+                id="email-password"
+                type="password"
+                value={emailData.password}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setEmailData((prev: ChangeEmailInput) => ({ ...prev, password: e.target.value }))
+                }
+                placeholder="Confirm it's you"
+                required
+              />
+            </div>
+            <StatusAlert status={emailStatus} />
+            <Button type="submit" disabled={isSavingEmail}>
+              {isSavingEmail ? 'Sending...' : 'Change Email'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <KeyRound className="h-5 w-5 mr-2" />
+            Password
+          </CardTitle>
+          <CardDescription>Changing your password signs you out on your other devices</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleChangePassword} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="current-password">Current Password</Label>
+              <Input
+                id="current-password"
+                type="password"
+                value={passwordData.currentPassword}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setPasswordData((prev: ChangePasswordInput) => ({ ...prev, currentPassword: e.target.value }))
+                }
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settings-new-password">New Password</Label>
+              <Input
+                id="settings-new-password"
+                type="password"
+                value={passwordData.newPassword}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setPasswordData((prev: ChangePasswordInput) => ({ ...prev, newPassword: e.target.value }))
+                }
+                placeholder="8+ characters, with a letter and a number"
+                minLength={8}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Confirm New Password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setConfirmPassword(e.target.value)}
+                minLength={8}
+                required
+              />
+            </div>
+            <StatusAlert status={passwordStatus} />
+            <Button type="submit" disabled={isSavingPassword}>
+              {isSavingPassword ? 'Updating...' : 'Change Password'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {ssoProviders.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Link2 className="h-5 w-5 mr-2" />
+              Single Sign-On
+            </CardTitle>
+            <CardDescription>Confirm your password to sign in with your school or company account from now on</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sso-password">Current Password</Label>
+              <Input
+                id="sso-password"
+                type="password"
+                value={ssoPassword}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSsoPassword(e.target.value)}
+              />
+            </div>
+            <StatusAlert status={ssoStatus} />
+            <div className="flex flex-wrap gap-2">
+              {ssoProviders.map((provider: SsoProvider) => (
+                <Button
+                  key={provider.id}
+                  variant="outline"
+                  disabled={isLinking || !ssoPassword}
+                  onClick={() => handleLinkSso(provider.id)}
+                >
+                  Link {provider.name}
+                </Button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
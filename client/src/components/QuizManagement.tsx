@@ -56,6 +56,7 @@ export function QuizManagement({ course, onBack }: QuizManagementProps) {
           time_limit_minutes: 30,
           max_attempts: 3,
           is_active: true,
+          deleted_at: null,
           created_at: new Date(),
           updated_at: new Date()
         }
@@ -75,6 +76,10 @@ export function QuizManagement({ course, onBack }: QuizManagementProps) {
     e.preventDefault();
     try {
       await trpc.createQuiz.mutate(quizData);
+      // Published courses take the quiz into their draft, which this list doesn't show
+      if (course.is_published) {
+        alert('The quiz was added to the course draft. Publish the draft to make it visible.');
+      }
       setShowCreateDialog(false);
       setQuizData({
         lesson_id: 1,
@@ -95,6 +100,9 @@ export function QuizManagement({ course, onBack }: QuizManagementProps) {
     e.preventDefault();
     try {
       await trpc.createQuizQuestion.mutate(questionData);
+      if (course.is_published) {
+        alert('The question was added to the course draft. Publish the draft to make it visible.');
+      }
       setShowQuestionDialog(false);
       setQuestionData({
         quiz_id: 0,
@@ -112,9 +120,13 @@ export function QuizManagement({ course, onBack }: QuizManagementProps) {
   };
 
   const handleDeleteQuiz = async (quizId: number) => {
-    if (window.confirm('Are you sure you want to delete this quiz?')) {
+    if (window.confirm('Move this quiz to the trash? You can restore it from the Trash tab for 30 days.')) {
       try {
         await trpc.deleteQuiz.mutate({ quizId });
+        // Published courses drop the quiz from their draft; it reaches the trash once the draft is published
+        if (course.is_published) {
+          alert('The quiz was removed from the course draft. Publish the draft to move it to the trash.');
+        }
         loadQuizzes();
       } catch (error) {
         console.error('Failed to delete quiz:', error);
@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { trpc } from '@/utils/trpc';
+import { STAFF_ROLE_LABELS } from '@/utils/courseStaff';
+import { Mail } from 'lucide-react';
+import type { StaffInvitation } from '../../../server/src/schema';
+
+interface StaffInvitationsProps {
+  onAccepted?: () => void;
+}
+
+export function StaffInvitations({ onAccepted }: StaffInvitationsProps) {
+  const [invitations, setInvitations] = useState<StaffInvitation[]>([]);
+
+  const loadInvitations = useCallback(async () => {
+    try {
+      setInvitations(await trpc.getMyStaffInvitations.query());
+    } catch (error) {
+      console.error('Failed to load staff invitations:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations]);
+
+  const handleRespond = async (courseId: number, accept: boolean) => {
+    try {
+      await trpc.respondToStaffInvitation.mutate({ courseId, accept });
+      loadInvitations();
+      if (accept) {
+        onAccepted?.();
+      }
+    } catch (error: unknown) {
+      alert(error instanceof Error ? error.message : 'Failed to respond to invitation');
+    }
+  };
+
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Mail className="h-5 w-5 mr-2" />
+          Staff Invitations
+        </CardTitle>
+        <CardDescription>Other instructors have invited you to help run their courses</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {invitations.map((invitation: StaffInvitation) => (
+          <div key={invitation.course_id} className="flex items-center justify-between border rounded p-3">
+            <div>
+              <p className="font-medium">{invitation.course_title}</p>
+              <p className="text-sm text-gray-500">
+                {STAFF_ROLE_LABELS[invitation.role]}
+                {invitation.revenue_share_percent > 0 && ` · ${invitation.revenue_share_percent}% of revenue`}
+                {invitation.invited_by_name && ` · invited by ${invitation.invited_by_name}`}
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              <Button size="sm" variant="outline" onClick={() => handleRespond(invitation.course_id, false)}>
+                Decline
+              </Button>
+              <Button size="sm" onClick={() => handleRespond(invitation.course_id, true)}>
+                Accept
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
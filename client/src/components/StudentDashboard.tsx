@@ -4,11 +4,16 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { trpc } from '@/utils/trpc';
-import { CourseGrid } from '@/components/CourseGrid';
+import { CourseCatalog } from '@/components/CourseCatalog';
 import { VideoPlayer } from '@/components/VideoPlayer';
 import { QuizSystem } from '@/components/QuizSystem';
 import { CertificateDisplay } from '@/components/CertificateDisplay';
+import { CourseReviews } from '@/components/CourseReviews';
+import { LearningPaths } from '@/components/LearningPaths';
+import { CourseRunPicker } from '@/components/CourseRunPicker';
+import { hasCourseEnded } from '@/utils/courseSchedule';
 import { 
   BookOpen, 
   Award, 
@@ -17,9 +22,10 @@ import {
   TrendingUp,
   Play,
   Trophy,
-  Target
+  Target,
+  Star
 } from 'lucide-react';
-import type { User, Course, Enrollment, Certificate, LessonProgress } from '../../../server/src/schema';
+import type { User, Course, Enrollment, Certificate, Lesson, LessonProgress, PrerequisiteStatus } from '../../../server/src/schema';
 
 interface StudentDashboardProps {
   user: User;
@@ -29,11 +35,14 @@ export function StudentDashboard({ user }: StudentDashboardProps) {
   const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
   const [availableCourses, setAvailableCourses] = useState<Course[]>([]);
   const [certificates, setCertificates] = useState<Certificate[]>([]);
-  const [currentLesson, setCurrentLesson] = useState<any>(null);
+  const [currentLesson, setCurrentLesson] = useState<Lesson | null>(null);
   const [showVideoPlayer, setShowVideoPlayer] = useState(false);
   const [showQuiz, setShowQuiz] = useState(false);
   const [currentQuiz, setCurrentQuiz] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [reviewsCourse, setReviewsCourse] = useState<Course | null>(null);
+  // Set while a student picks the cohort of a course that runs in cohorts
+  const [cohortEnrollment, setCohortEnrollment] = useState<{ course: Course; acknowledgePrerequisites: boolean } | null>(null);
   const [stats, setStats] = useState({
     totalCourses: 0,
     completedCourses: 0,
@@ -76,18 +85,65 @@ export function StudentDashboard({ user }: StudentDashboardProps) {
 
   const handleEnrollInCourse = async (courseId: number) => {
     try {
-      await trpc.enrollInCourse.mutate({ course_id: courseId });
+      const unmet = (await trpc.getPrerequisiteStatus.query({ courseId }))
+        .filter((prerequisite: PrerequisiteStatus) => !prerequisite.is_met);
+      const describe = (prerequisite: PrerequisiteStatus) =>
+        prerequisite.requires_certificate ? `${prerequisite.prerequisite_title} (with certificate)` : prerequisite.prerequisite_title;
+
+      const missing = unmet.filter((prerequisite: PrerequisiteStatus) => prerequisite.is_required);
+      if (missing.length > 0) {
+        alert(`Complete these courses before enrolling: ${missing.map(describe).join(', ')}`);
+        return;
+      }
+
+      const recommended = unmet.filter((prerequisite: PrerequisiteStatus) => !prerequisite.is_required);
+      if (recommended.length > 0 &&
+        !window.confirm(`This course recommends completing ${recommended.map(describe).join(', ')} first. Enroll anyway?`)) {
+        return;
+      }
+
+      const runs = await trpc.getCourseRuns.query({ courseId });
+      const course = availableCourses.find((c: Course) => c.id === courseId);
+      if (runs.length > 0 && course) {
+        setCohortEnrollment({ course, acknowledgePrerequisites: recommended.length > 0 });
+        return;
+      }
+
+      await trpc.enrollInCourse.mutate({ course_id: courseId, acknowledge_prerequisites: recommended.length > 0 });
       loadStudentData(); // Refresh data
     } catch (error) {
       console.error('Failed to enroll in course:', error);
     }
   };
 
-  const handleStartLesson = (lesson: any) => {
+  const handleStartLesson = (lesson: Lesson) => {
     setCurrentLesson(lesson);
     setShowVideoPlayer(true);
   };
 
+  // Opens the first lesson the student hasn't completed, or the first lesson once all are done
+  const handleContinueLearning = async (courseId: number) => {
+    try {
+      const [lessons, progress] = await Promise.all([
+        trpc.getLessonsByCourse.query({ courseId }),
+        trpc.getStudentProgress.query({ courseId })
+      ]);
+      if (lessons.length === 0) {
+        alert('This course has no lessons yet');
+        return;
+      }
+
+      const completed = new Set(
+        progress.lessonProgress
+          .filter((entry: LessonProgress) => entry.is_completed)
+          .map((entry: LessonProgress) => entry.lesson_id)
+      );
+      handleStartLesson(lessons.find((lesson: Lesson) => !completed.has(lesson.id)) ?? lessons[0]);
+    } catch (error) {
+      console.error('Failed to load lessons:', error);
+    }
+  };
+
   const handleStartQuiz = (quiz: any) => {
     setCurrentQuiz(quiz);
     setShowQuiz(true);
@@ -205,6 +261,7 @@ export function StudentDashboard({ user }: StudentDashboardProps) {
         <TabsList>
           <TabsTrigger value="learning">My Learning</TabsTrigger>
           <TabsTrigger value="courses">All Courses</TabsTrigger>
+          <TabsTrigger value="paths">Learning Paths</TabsTrigger>
           <TabsTrigger value="certificates">Certificates</TabsTrigger>
         </TabsList>
 
@@ -231,6 +288,7 @@ export function StudentDashboard({ user }: StudentDashboardProps) {
                   {enrollments.map((enrollment: Enrollment) => {
                     const course = availableCourses.find((c: Course) => c.id === enrollment.course_id);
                     if (!course) return null;
+                    const hasEnded = hasCourseEnded(course);
 
                     return (
                       <Card key={enrollment.id} className="p-4">
@@ -243,6 +301,7 @@ export function StudentDashboard({ user }: StudentDashboardProps) {
                               <Badge variant={enrollment.is_completed ? "default" : "secondary"}>
                                 {enrollment.is_completed ? 'Completed' : 'In Progress'}
                               </Badge>
+                              {hasEnded && <Badge variant="outline">Ended (read-only)</Badge>}
                               <span className="text-sm text-gray-500">
                                 Progress: {enrollment.progress_percentage}%
                               </span>
@@ -253,23 +312,22 @@ export function StudentDashboard({ user }: StudentDashboardProps) {
                             <div className="flex space-x-2">
                               <Button
                                 size="sm"
-                                onClick={() => {
-                                  // For demo, we'll use placeholder lesson data
-                                  const demoLesson = {
-                                    id: 1,
-                                    course_id: course.id,
-                                    title: `${course.title} - Lesson 1`,
-                                    video_url: 'https://example.com/video.mp4',
-                                    duration_minutes: 30
-                                  };
-                                  handleStartLesson(demoLesson);
-                                }}
+                                onClick={() => handleContinueLearning(course.id)}
                               >
                                 <Play className="h-4 w-4 mr-1" />
                                 Continue Learning
                               </Button>
+
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setReviewsCourse(course)}
+                              >
+                                <Star className="h-4 w-4 mr-1" />
+                                Reviews
+                              </Button>
                               
-                              {enrollment.progress_percentage > 80 && !enrollment.is_completed && (
+                              {enrollment.progress_percentage > 80 && !enrollment.is_completed && !hasEnded && (
                                 <Button
                                   variant="outline"
                                   size="sm"
@@ -306,14 +364,16 @@ export function StudentDashboard({ user }: StudentDashboardProps) {
         </TabsContent>
 
         <TabsContent value="courses">
-          <CourseGrid
-            courses={availableCourses}
+          <CourseCatalog
             enrolledCourseIds={enrollments.map((e: Enrollment) => e.course_id)}
             onEnroll={handleEnrollInCourse}
-            userRole="student"
           />
         </TabsContent>
 
+        <TabsContent value="paths">
+          <LearningPaths />
+        </TabsContent>
+
         <TabsContent value="certificates">
           <Card>
             <CardHeader>
@@ -334,6 +394,41 @@ export function StudentDashboard({ user }: StudentDashboardProps) {
           </Card>
         </TabsContent>
       </Tabs>
+
+      <Dialog open={cohortEnrollment !== null} onOpenChange={(open: boolean) => !open && setCohortEnrollment(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Choose a Cohort</DialogTitle>
+            <DialogDescription>{cohortEnrollment?.course.title}</DialogDescription>
+          </DialogHeader>
+          {cohortEnrollment && (
+            <CourseRunPicker
+              courseId={cohortEnrollment.course.id}
+              acknowledgePrerequisites={cohortEnrollment.acknowledgePrerequisites}
+              onEnrolled={() => {
+                setCohortEnrollment(null);
+                loadStudentData();
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={reviewsCourse !== null} onOpenChange={(open: boolean) => !open && setReviewsCourse(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Reviews</DialogTitle>
+            <DialogDescription>{reviewsCourse?.title}</DialogDescription>
+          </DialogHeader>
+          {reviewsCourse && (
+            <CourseReviews
+              course={reviewsCourse}
+              user={user}
+              enrollment={enrollments.find((e: Enrollment) => e.course_id === reviewsCourse.id)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -3,10 +3,19 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { trpc } from '@/utils/trpc';
-import { Search, Users, UserCheck, UserX, Trash2 } from 'lucide-react';
-import type { User } from '../../../server/src/schema';
+import { Search, Users, UserCheck, UserX, Trash2, Unlock, ShieldCheck, HardDrive, X } from 'lucide-react';
+import type { User, UserRole, LockedAccount, Course, PermissionGrant, PermissionRole } from '../../../server/src/schema';
+
+const PERMISSION_ROLE_LABELS: Record<PermissionRole, string> = {
+  teaching_assistant: 'Teaching Assistant',
+  finance_viewer: 'Finance Viewer',
+  content_moderator: 'Content Moderator'
+};
 
 interface UserManagementProps {
   onUserStatusChange?: (userId: number, isActive: boolean) => void;
@@ -18,14 +27,27 @@ export function UserManagement({ onUserStatusChange, onUserDelete }: UserManagem
   const [filteredUsers, setFilteredUsers] = useState<User[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedRole, setSelectedRole] = useState<string>('all');
+  const [lockedAccounts, setLockedAccounts] = useState<LockedAccount[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
+  // Permission grants dialog
+  const [permissionsUser, setPermissionsUser] = useState<User | null>(null);
+  const [grants, setGrants] = useState<PermissionGrant[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [grantRole, setGrantRole] = useState<PermissionRole>('teaching_assistant');
+  const [grantCourseId, setGrantCourseId] = useState<string>('');
+  const [grantError, setGrantError] = useState<string | null>(null);
+
   const loadUsers = useCallback(async () => {
     setIsLoading(true);
     try {
-      const usersData = await trpc.getAllUsers.query();
+      const [usersData, lockedData] = await Promise.all([
+        trpc.getAllUsers.query(),
+        trpc.getLockedAccounts.query()
+      ]);
       setUsers(usersData);
       setFilteredUsers(usersData);
+      setLockedAccounts(lockedData);
     } catch (error) {
       console.error('Failed to load users:', error);
     } finally {
@@ -72,6 +94,21 @@ export function UserManagement({ onUserStatusChange, onUserDelete }: UserManagem
     }
   };
 
+  const handleRoleChange = async (user: User, role: UserRole) => {
+    if (role === 'administrator' && !window.confirm(`Make ${user.first_name} ${user.last_name} an administrator with full platform access?`)) return;
+
+    try {
+      const updated = await trpc.updateUserRole.mutate({ userId: user.id, role });
+      setUsers((prev: User[]) =>
+        prev.map((existing: User) =>
+          existing.id === user.id ? { ...existing, role: updated.role } : existing
+        )
+      );
+    } catch (error) {
+      console.error('Failed to update user role:', error);
+    }
+  };
+
   const handleDeleteUser = async (userId: number) => {
     if (window.confirm('Are you sure you want to delete this user? This action cannot be undone.')) {
       try {
@@ -86,6 +123,78 @@ export function UserManagement({ onUserStatusChange, onUserDelete }: UserManagem
     }
   };
 
+  const handleUnlock = async (userId: number) => {
+    try {
+      await trpc.unlockUserAccount.mutate({ userId });
+      setLockedAccounts((prev: LockedAccount[]) =>
+        prev.filter((account: LockedAccount) => account.user_id !== userId)
+      );
+    } catch (error) {
+      console.error('Failed to unlock account:', error);
+    }
+  };
+
+  const handleStorageQuota = async (user: User) => {
+    const value = window.prompt(`Upload storage for ${user.first_name} ${user.last_name} in MB (leave empty for the role default)`);
+    if (value === null) return;
+
+    try {
+      await trpc.setMediaQuota.mutate({
+        userId: user.id,
+        quota_bytes: value.trim() ? Math.round(parseFloat(value) * 1024 * 1024) : null
+      });
+    } catch (error) {
+      console.error('Failed to set storage quota:', error);
+    }
+  };
+
+  const openPermissions = async (user: User) => {
+    setPermissionsUser(user);
+    setGrants([]);
+    setGrantError(null);
+    try {
+      const [grantsData, coursesData] = await Promise.all([
+        trpc.getUserPermissionGrants.query({ userId: user.id }),
+        courses.length > 0 ? Promise.resolve(courses) : trpc.getAllCoursesAdmin.query()
+      ]);
+      setGrants(grantsData);
+      setCourses(coursesData);
+    } catch (error) {
+      console.error('Failed to load permissions:', error);
+    }
+  };
+
+  const handleGrant = async () => {
+    if (!permissionsUser) return;
+    setGrantError(null);
+    try {
+      const grant = await trpc.grantPermissionRole.mutate({
+        userId: permissionsUser.id,
+        role: grantRole,
+        courseId: grantRole === 'teaching_assistant' && grantCourseId ? parseInt(grantCourseId) : null
+      });
+      setGrants((prev: PermissionGrant[]) => [grant, ...prev]);
+      setGrantCourseId('');
+    } catch (error: unknown) {
+      setGrantError(error instanceof Error ? error.message : 'Failed to grant permission');
+    }
+  };
+
+  const handleRevoke = async (grantId: number) => {
+    try {
+      await trpc.revokePermissionGrant.mutate({ grantId });
+      setGrants((prev: PermissionGrant[]) => prev.filter((grant: PermissionGrant) => grant.id !== grantId));
+    } catch (error) {
+      console.error('Failed to revoke permission:', error);
+    }
+  };
+
+  const getCourseTitle = (courseId: number | null) =>
+    courses.find((course: Course) => course.id === courseId)?.title ?? `Course #${courseId}`;
+
+  const getLockedAccount = (userId: number) =>
+    lockedAccounts.find((account: LockedAccount) => account.user_id === userId);
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -186,82 +295,207 @@ export function UserManagement({ onUserStatusChange, onUserDelete }: UserManagem
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredUsers.map((user: User) => (
-                    <TableRow key={user.id}>
-                      <TableCell className="font-medium">
-                        <div className="flex items-center space-x-3">
-                          {user.avatar_url ? (
-                            <img
-                              src={user.avatar_url}
-                              alt={`${user.first_name} ${user.last_name}`}
-                              className="w-8 h-8 rounded-full"
-                            />
-                          ) : (
-                            <div className="w-8 h-8 bg-gray-200 rounded-full flex items-center justify-center">
-                              <span className="text-xs font-medium text-gray-600">
-                                {user.first_name.charAt(0)}{user.last_name.charAt(0)}
-                              </span>
-                            </div>
-                          )}
-                          <span>{user.first_name} {user.last_name}</span>
-                        </div>
-                      </TableCell>
-                      <TableCell>{user.email}</TableCell>
-                      <TableCell>
-                        <Badge variant={
-                          user.role === 'administrator' ? 'destructive' :
-                          user.role === 'instructor' ? 'secondary' : 'default'
-                        }>
-                          {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant={user.is_active ? 'default' : 'outline'}>
-                          {user.is_active ? 'Active' : 'Inactive'}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant={user.email_verified ? 'default' : 'outline'}>
-                          {user.email_verified ? '✓ Verified' : '⚠ Unverified'}
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="text-sm text-gray-600">
-                        {user.created_at.toLocaleDateString()}
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex space-x-1">
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => handleStatusChange(user.id, !user.is_active)}
-                            disabled={user.role === 'administrator'}
-                            title={user.is_active ? 'Deactivate user' : 'Activate user'}
-                          >
-                            {user.is_active ? (
-                              <UserX className="h-4 w-4" />
+                  {filteredUsers.map((user: User) => {
+                    const lockedAccount = getLockedAccount(user.id);
+                    return (
+                      <TableRow key={user.id}>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center space-x-3">
+                            {user.avatar_url ? (
+                              <img
+                                src={user.avatar_url}
+                                alt={`${user.first_name} ${user.last_name}`}
+                                className="w-8 h-8 rounded-full"
+                              />
                             ) : (
-                              <UserCheck className="h-4 w-4" />
+                              <div className="w-8 h-8 bg-gray-200 rounded-full flex items-center justify-center">
+                                <span className="text-xs font-medium text-gray-600">
+                                  {user.first_name.charAt(0)}{user.last_name.charAt(0)}
+                                </span>
+                              </div>
                             )}
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="destructive"
-                            onClick={() => handleDeleteUser(user.id)}
-                            disabled={user.role === 'administrator'}
-                            title="Delete user"
+                            <span>{user.first_name} {user.last_name}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>{user.email}</TableCell>
+                        <TableCell>
+                          <Select
+                            value={user.role || 'student'}
+                            onValueChange={(value: UserRole) => handleRoleChange(user, value)}
                           >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ))}
+                            <SelectTrigger className="w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="student">Student</SelectItem>
+                              <SelectItem value="instructor">Instructor</SelectItem>
+                              <SelectItem value="administrator">Administrator</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            <Badge variant={user.is_active ? 'default' : 'outline'}>
+                              {user.is_active ? 'Active' : 'Inactive'}
+                            </Badge>
+                            {lockedAccount && (
+                              <Badge
+                                variant="destructive"
+                                title={`Locked after ${lockedAccount.failed_count} failed logins until ${lockedAccount.locked_until.toLocaleTimeString()}`}
+                              >
+                                Locked
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={user.email_verified ? 'default' : 'outline'}>
+                            {user.email_verified ? '✓ Verified' : '⚠ Unverified'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">
+                          {user.created_at.toLocaleDateString()}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex space-x-1">
+                            {lockedAccount && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleUnlock(user.id)}
+                                title="Unlock account"
+                              >
+                                <Unlock className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => openPermissions(user)}
+                              disabled={user.role === 'administrator'}
+                              title="Manage permissions"
+                            >
+                              <ShieldCheck className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleStorageQuota(user)}
+                              title="Set storage quota"
+                            >
+                              <HardDrive className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleStatusChange(user.id, !user.is_active)}
+                              disabled={user.role === 'administrator'}
+                              title={user.is_active ? 'Deactivate user' : 'Activate user'}
+                            >
+                              {user.is_active ? (
+                                <UserX className="h-4 w-4" />
+                              ) : (
+                                <UserCheck className="h-4 w-4" />
+                              )}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => handleDeleteUser(user.id)}
+                              disabled={user.role === 'administrator'}
+                              title="Delete user"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
                 </TableBody>
               </Table>
             </div>
           )}
         </CardContent>
       </Card>
+
+      <Dialog open={permissionsUser !== null} onOpenChange={(open: boolean) => !open && setPermissionsUser(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Permissions</DialogTitle>
+            <DialogDescription>
+              Extra roles for {permissionsUser?.first_name} {permissionsUser?.last_name}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {grants.length === 0 ? (
+              <p className="text-sm text-gray-500">No additional permissions granted.</p>
+            ) : (
+              <div className="space-y-2">
+                {grants.map((grant: PermissionGrant) => (
+                  <div key={grant.id} className="flex items-center justify-between p-2 border rounded-lg">
+                    <div>
+                      <div className="font-medium text-sm">{PERMISSION_ROLE_LABELS[grant.role]}</div>
+                      <div className="text-xs text-gray-500">
+                        {grant.course_id !== null ? getCourseTitle(grant.course_id) : 'All courses'}
+                      </div>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRevoke(grant.id)}
+                      title="Revoke"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={grantRole} onValueChange={(value: PermissionRole) => setGrantRole(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PERMISSION_ROLE_LABELS) as PermissionRole[]).map((role: PermissionRole) => (
+                    <SelectItem key={role} value={role}>{PERMISSION_ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {grantRole === 'teaching_assistant' && (
+              <div className="space-y-2">
+                <Label>Course</Label>
+                <Select value={grantCourseId} onValueChange={setGrantCourseId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a course" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {courses.map((course: Course) => (
+                      <SelectItem key={course.id} value={course.id.toString()}>{course.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {grantError && <p className="text-sm text-red-600">{grantError}</p>}
+
+            <Button
+              className="w-full"
+              onClick={handleGrant}
+              disabled={grantRole === 'teaching_assistant' && !grantCourseId}
+            >
+              Grant Role
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
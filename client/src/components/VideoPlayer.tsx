@@ -3,7 +3,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
+import { LessonBlocks } from '@/components/LessonBlocks';
 import { ArrowLeft, Play, Pause, Volume2, Maximize, CheckCircle } from 'lucide-react';
+import type { LessonBlock } from '../../../server/src/schema';
 
 interface Lesson {
   id: number;
@@ -12,6 +14,7 @@ interface Lesson {
   description?: string | null;
   video_url?: string | null;
   content?: string | null;
+  blocks?: LessonBlock[];
   duration_minutes: number;
 }
 
@@ -175,7 +178,16 @@ export function VideoPlayer({ lesson, onComplete, onBack }: VideoPlayerProps) {
             </Card>
           )}
 
-          {lesson.content && (
+          {lesson.blocks && lesson.blocks.length > 0 ? (
+            <Card className="mt-4">
+              <CardHeader>
+                <CardTitle>Lesson Content</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <LessonBlocks blocks={lesson.blocks} />
+              </CardContent>
+            </Card>
+          ) : lesson.content && (
             <Card className="mt-4">
               <CardHeader>
                 <CardTitle>Lesson Content</CardTitle>
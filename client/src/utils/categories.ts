@@ -0,0 +1,16 @@
+import type { CategoryWithCount } from '../../../server/src/schema';
+
+export interface CategoryOption {
+  category: CategoryWithCount;
+  depth: number;
+}
+
+// Flattens the category tree depth-first so pickers can indent subcategories under their parents
+export function orderCategories(categories: CategoryWithCount[], parentId: number | null = null, depth = 0): CategoryOption[] {
+  return categories
+    .filter((category: CategoryWithCount) => category.parent_id === parentId)
+    .flatMap((category: CategoryWithCount) => [
+      { category, depth },
+      ...orderCategories(categories, category.id, depth + 1)
+    ]);
+}
@@ -0,0 +1,13 @@
+import type { CourseRun } from '../../../server/src/schema';
+
+export function describeSeats(run: CourseRun): string {
+  if (run.capacity === null) {
+    return `${run.enrolled_count} enrolled`;
+  }
+
+  const left = Math.max(0, run.capacity - run.enrolled_count);
+  if (left === 0) {
+    return run.waitlist_count > 0 ? `Full, ${run.waitlist_count} waiting` : 'Full';
+  }
+  return `${left} of ${run.capacity} seats left`;
+}
@@ -0,0 +1,29 @@
+import type { Course } from '../../../server/src/schema';
+
+export type EnrollmentState = 'open' | 'not_open' | 'closed';
+
+// Mirrors the checks enrollInCourse makes on the server
+export function getEnrollmentState(course: Course, now: Date = new Date()): EnrollmentState {
+  if (course.enrollment_opens_at && course.enrollment_opens_at > now) {
+    return 'not_open';
+  }
+  if ((course.enrollment_closes_at && course.enrollment_closes_at <= now) || (course.ends_at && course.ends_at <= now)) {
+    return 'closed';
+  }
+  return 'open';
+}
+
+export function hasCourseEnded(course: Course, now: Date = new Date()): boolean {
+  return course.ends_at !== null && course.ends_at <= now;
+}
+
+// <input type="datetime-local"> works with local time strings like 2024-05-01T09:30
+export function toDateTimeInput(date: Date | null): string {
+  if (!date) return '';
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+export function fromDateTimeInput(value: string): Date | null {
+  return value ? new Date(value) : null;
+}
@@ -0,0 +1,7 @@
+import type { CourseStaffRole } from '../../../server/src/schema';
+
+export const STAFF_ROLE_LABELS: Record<CourseStaffRole, string> = {
+  owner: 'Owner',
+  co_instructor: 'Co-instructor',
+  teaching_assistant: 'Teaching Assistant'
+};
@@ -0,0 +1,149 @@
+import type { CodeLanguage } from '../../../server/src/schema';
+
+export type CodeTokenKind = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+export interface CodeToken {
+  kind: CodeTokenKind;
+  text: string;
+}
+
+export const CODE_LANGUAGE_LABELS: Record<CodeLanguage, string> = {
+  plaintext: 'Plain text',
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  python: 'Python',
+  java: 'Java',
+  c: 'C',
+  cpp: 'C++',
+  csharp: 'C#',
+  go: 'Go',
+  rust: 'Rust',
+  ruby: 'Ruby',
+  php: 'PHP',
+  sql: 'SQL',
+  html: 'HTML',
+  css: 'CSS',
+  json: 'JSON',
+  bash: 'Bash'
+};
+
+const C_LIKE_KEYWORDS = [
+  'break', 'case', 'char', 'class', 'const', 'continue', 'default', 'do', 'double', 'else', 'enum', 'false',
+  'float', 'for', 'if', 'int', 'long', 'new', 'null', 'private', 'protected', 'public', 'return', 'static',
+  'struct', 'switch', 'this', 'true', 'void', 'while'
+];
+
+const JAVASCRIPT_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else',
+  'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof', 'let',
+  'new', 'null', 'of', 'return', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'while',
+  'yield'
+];
+
+const KEYWORDS: Record<CodeLanguage, string[]> = {
+  plaintext: [],
+  javascript: JAVASCRIPT_KEYWORDS,
+  typescript: [
+    ...JAVASCRIPT_KEYWORDS, 'any', 'boolean', 'enum', 'implements', 'interface', 'keyof', 'number', 'private',
+    'protected', 'public', 'readonly', 'string', 'type', 'unknown'
+  ],
+  python: [
+    'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+    'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None', 'not', 'or', 'pass',
+    'raise', 'return', 'True', 'try', 'while', 'with', 'yield'
+  ],
+  java: [...C_LIKE_KEYWORDS, 'boolean', 'catch', 'extends', 'final', 'finally', 'implements', 'import', 'interface', 'package', 'throw', 'throws', 'try'],
+  c: [...C_LIKE_KEYWORDS, 'include', 'sizeof', 'typedef', 'unsigned'],
+  cpp: [...C_LIKE_KEYWORDS, 'auto', 'bool', 'catch', 'include', 'namespace', 'nullptr', 'template', 'throw', 'try', 'using', 'virtual'],
+  csharp: [...C_LIKE_KEYWORDS, 'async', 'await', 'bool', 'catch', 'finally', 'foreach', 'in', 'interface', 'namespace', 'string', 'throw', 'try', 'using', 'var'],
+  go: [
+    'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'false', 'for', 'func', 'go', 'if',
+    'import', 'interface', 'map', 'nil', 'package', 'range', 'return', 'select', 'struct', 'switch', 'true', 'type', 'var'
+  ],
+  rust: [
+    'as', 'break', 'const', 'continue', 'crate', 'else', 'enum', 'false', 'fn', 'for', 'if', 'impl', 'in', 'let',
+    'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self', 'Self', 'struct', 'trait', 'true', 'type',
+    'use', 'where', 'while'
+  ],
+  ruby: [
+    'begin', 'class', 'def', 'do', 'else', 'elsif', 'end', 'ensure', 'false', 'if', 'in', 'module', 'next', 'nil',
+    'raise', 'require', 'rescue', 'return', 'self', 'then', 'true', 'unless', 'until', 'when', 'while', 'yield'
+  ],
+  php: [
+    'array', 'as', 'break', 'case', 'catch', 'class', 'const', 'echo', 'else', 'elseif', 'false', 'foreach',
+    'function', 'if', 'namespace', 'new', 'null', 'public', 'private', 'return', 'static', 'true', 'try', 'use', 'while'
+  ],
+  sql: [
+    'and', 'as', 'asc', 'by', 'create', 'delete', 'desc', 'distinct', 'from', 'group', 'having', 'in', 'insert',
+    'into', 'is', 'join', 'left', 'limit', 'not', 'null', 'on', 'or', 'order', 'select', 'set', 'table', 'update',
+    'values', 'where'
+  ],
+  html: [],
+  css: ['important', 'inherit', 'initial', 'none'],
+  json: ['false', 'null', 'true'],
+  bash: [
+    'case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'exit', 'export', 'fi', 'for', 'function', 'if', 'in',
+    'local', 'return', 'then', 'while'
+  ]
+};
+
+const HASH_COMMENT_LANGUAGES: CodeLanguage[] = ['python', 'ruby', 'bash', 'php'];
+const SLASH_COMMENT_LANGUAGES: CodeLanguage[] = ['javascript', 'typescript', 'java', 'c', 'cpp', 'csharp', 'go', 'rust', 'php', 'css'];
+
+function commentPattern(language: CodeLanguage): string | null {
+  const patterns: string[] = [];
+  if (SLASH_COMMENT_LANGUAGES.includes(language)) patterns.push('\\/\\/[^\\n]*', '\\/\\*[\\s\\S]*?(?:\\*\\/|$)');
+  if (HASH_COMMENT_LANGUAGES.includes(language)) patterns.push('#[^\\n]*');
+  if (language === 'sql') patterns.push('--[^\\n]*');
+  if (language === 'html') patterns.push('<!--[\\s\\S]*?(?:-->|$)');
+  return patterns.length > 0 ? patterns.join('|') : null;
+}
+
+// Splits a code snippet into coloured tokens. This is a lightweight lexer, not a parser: it only
+// recognises comments, strings, numbers and keywords, which is enough to make lesson snippets readable.
+export function tokenizeCode(code: string, language: CodeLanguage): CodeToken[] {
+  if (language === 'plaintext') return [{ kind: 'plain', text: code }];
+
+  const comment = commentPattern(language);
+  const keywords = new Set(KEYWORDS[language].map((word: string) => language === 'sql' ? word.toLowerCase() : word));
+  const pattern = new RegExp(
+    [
+      `(${comment ?? '(?!)'})`,
+      '("(?:[^"\\\\\\n]|\\\\.)*"?|\'(?:[^\'\\\\\\n]|\\\\.)*\'?|`(?:[^`\\\\]|\\\\.)*`?)',
+      '(\\b\\d+(?:\\.\\d+)?\\b)',
+      '([A-Za-z_$][\\w$]*)'
+    ].join('|'),
+    'g'
+  );
+
+  const tokens: CodeToken[] = [];
+  const push = (kind: CodeTokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) {
+      last.text += text;
+    } else {
+      tokens.push({ kind, text });
+    }
+  };
+
+  let position = 0;
+  for (const match of code.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > position) push('plain', code.slice(position, index));
+
+    const [text, commentText, stringText, numberText, word] = match;
+    if (commentText !== undefined) {
+      push('comment', text);
+    } else if (stringText !== undefined) {
+      push('string', text);
+    } else if (numberText !== undefined) {
+      push('number', text);
+    } else if (word !== undefined) {
+      push(keywords.has(language === 'sql' ? word.toLowerCase() : word) ? 'keyword' : 'plain', text);
+    }
+    position = index + text.length;
+  }
+  if (position < code.length) push('plain', code.slice(position));
+
+  return tokens;
+}
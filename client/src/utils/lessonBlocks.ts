@@ -0,0 +1,78 @@
+import type { CalloutVariant, LessonBlock, LessonBlockType } from '../../../server/src/schema';
+
+export const LESSON_BLOCK_LABELS: Record<LessonBlockType, string> = {
+  markdown: 'Text',
+  code: 'Code snippet',
+  image: 'Image',
+  video: 'Video',
+  callout: 'Callout',
+  file: 'Download'
+};
+
+export const CALLOUT_VARIANT_LABELS: Record<CalloutVariant, string> = {
+  info: 'Note',
+  tip: 'Tip',
+  warning: 'Warning'
+};
+
+export function createLessonBlock(type: LessonBlockType): LessonBlock {
+  switch (type) {
+    case 'markdown':
+      return { type, markdown: '' };
+    case 'code':
+      return { type, language: 'javascript', filename: null, code: '' };
+    case 'image':
+      return { type, url: '', alt: '', caption: null };
+    case 'video':
+      return { type, url: '', caption: null };
+    case 'callout':
+      return { type, variant: 'info', title: null, markdown: '' };
+    case 'file':
+      return { type, url: '', name: '', size_bytes: null };
+  }
+}
+
+// Lessons written before content blocks keep their plain text; editing one turns it into a text block
+export function lessonBlocksFor(lesson: { blocks: LessonBlock[]; content: string | null }): LessonBlock[] {
+  if (lesson.blocks.length > 0 || !lesson.content) return lesson.blocks;
+  return [{ type: 'markdown', markdown: lesson.content }];
+}
+
+export function isSafeUrl(url: string, protocols: string[] = ['http:', 'https:']): boolean {
+  try {
+    return protocols.includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// YouTube and Vimeo pages can't play in a <video> element, so they are shown through their embed players
+export function getVideoEmbedUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.replace(/^www\./, '');
+  if (host === 'youtube.com' || host === 'm.youtube.com') {
+    const id = parsed.pathname.startsWith('/embed/') ? parsed.pathname.slice(7) : parsed.searchParams.get('v');
+    return id && /^[\w-]+$/.test(id) ? `https://www.youtube-nocookie.com/embed/${id}` : null;
+  }
+  if (host === 'youtu.be') {
+    const id = parsed.pathname.slice(1);
+    return /^[\w-]+$/.test(id) ? `https://www.youtube-nocookie.com/embed/${id}` : null;
+  }
+  if (host === 'vimeo.com' || host === 'player.vimeo.com') {
+    const id = parsed.pathname.split('/').filter(Boolean).pop();
+    return id && /^\d+$/.test(id) ? `https://player.vimeo.com/video/${id}` : null;
+  }
+  return null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
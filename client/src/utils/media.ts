@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import { trpc } from '@/utils/trpc';
+import { readFileAsBase64 } from '@/utils/files';
+import type { MediaAsset, MediaPurpose } from '../../../server/src/schema';
+
+// File types the server accepts for each purpose, for the file picker's accept attribute
+export const MEDIA_ACCEPT: Record<MediaPurpose, string> = {
+  avatar: 'image/jpeg,image/png,image/gif,image/webp',
+  course_thumbnail: 'image/jpeg,image/png,image/gif,image/webp',
+  lesson_video: 'video/mp4,video/webm,video/ogg',
+  lesson_attachment: 'image/*,.pdf,.zip,.docx,.xlsx,.pptx,.txt,.csv'
+};
+
+// Browsers leave file.type empty for some extensions; fill in the ones uploads accept
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  csv: 'text/csv',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+};
+
+export async function uploadMediaFile(file: File, purpose: MediaPurpose, courseId: number | null): Promise<MediaAsset> {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return trpc.uploadMedia.mutate({
+    purpose,
+    course_id: courseId,
+    file_name: file.name,
+    mime_type: file.type || MIME_TYPES_BY_EXTENSION[extension] || 'application/octet-stream',
+    data: await readFileAsBase64(file)
+  });
+}
+
+// Files uploaded to this app are served from /media/<id> on the API, behind the same origin
+export function parseMediaId(url: string): number | null {
+  try {
+    const parsed = new URL(url, window.location.href);
+    const match = /\/media\/(\d+)$/.exec(parsed.pathname);
+    return parsed.origin === window.location.origin && match ? parseInt(match[1], 10) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Course videos and attachments need a signed, expiring link; other URLs are returned unchanged.
+// Null while the link is being fetched or when the user may not download the file.
+export function useMediaUrl(url: string): string | null {
+  const mediaId = parseMediaId(url);
+  const [signed, setSigned] = useState<{ mediaId: number; url: string | null } | null>(null);
+
+  useEffect(() => {
+    if (mediaId === null) return;
+    let cancelled = false;
+    trpc.getMediaDownloadUrl.query({ mediaId })
+      .then((link) => {
+        if (!cancelled) setSigned({ mediaId, url: link.url });
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to sign media URL:', error);
+        if (!cancelled) setSigned({ mediaId, url: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mediaId]);
+
+  if (mediaId === null) return url;
+  return signed?.mediaId === mediaId ? signed.url : null;
+}
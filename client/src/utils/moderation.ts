@@ -0,0 +1,23 @@
+import type { CourseModerationStatus } from '../../../server/src/schema';
+
+export const MODERATION_STATUS_LABELS: Record<CourseModerationStatus, string> = {
+  draft: 'Draft',
+  submitted: 'In Review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  published: 'Published'
+};
+
+export function moderationStatusVariant(status: CourseModerationStatus): 'default' | 'secondary' | 'destructive' | 'outline' {
+  switch (status) {
+    case 'published':
+      return 'default';
+    case 'rejected':
+      return 'destructive';
+    case 'submitted':
+    case 'approved':
+      return 'outline';
+    default:
+      return 'secondary';
+  }
+}
@@ -2,9 +2,76 @@ import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+const AUTH_TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+// Refresh the access token this many seconds before it expires
+const REFRESH_MARGIN_SECONDS = 30;
+
+export function setAuthTokens(tokens: { token: string; refreshToken: string } | null) {
+  if (tokens) {
+    localStorage.setItem(AUTH_TOKEN_KEY, tokens.token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+  } else {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  }
+}
+
+function getTokenExpiry(token: string): number | null {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp : null;
+  } catch {
+    return null;
+  }
+}
+
+// Separate client without auth headers, used only to rotate tokens
+const refreshClient = createTRPCClient<AppRouter>({
+  links: [httpBatchLink({ url: '/api', transformer: superjson })],
+});
+
+let pendingRefresh: Promise<string | null> | null = null;
+
+async function getAccessToken(): Promise<string | null> {
+  const token = localStorage.getItem(AUTH_TOKEN_KEY);
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!token || !refreshToken) return token;
+
+  const exp = getTokenExpiry(token);
+  if (exp !== null && exp - REFRESH_MARGIN_SECONDS > Date.now() / 1000) {
+    return token;
+  }
+
+  // Share one refresh between concurrent requests
+  if (!pendingRefresh) {
+    pendingRefresh = refreshClient.refreshSession.mutate({ refreshToken })
+      .then((tokens) => {
+        setAuthTokens(tokens);
+        return tokens.token;
+      })
+      .catch(() => {
+        setAuthTokens(null);
+        return null;
+      })
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+}
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+      async headers() {
+        const token = await getAccessToken();
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      },
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
@@ -9,3 +9,5 @@ const pool = new Pool({
 
 // Pass schema to drizzle for relation queries
 export const db = drizzle(pool, { schema });
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
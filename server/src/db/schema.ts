@@ -5,17 +5,31 @@ import {
   timestamp, 
   numeric, 
   integer, 
+  bigint,
   boolean,
+  doublePrecision,
   pgEnum,
-  jsonb
+  jsonb,
+  unique,
+  index,
+  type AnyPgColumn
 } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
 
 // Enums
 export const userRoleEnum = pgEnum('user_role', ['student', 'instructor', 'administrator']);
 export const questionTypeEnum = pgEnum('question_type', ['multiple_choice', 'true_false', 'short_answer']);
 export const paymentStatusEnum = pgEnum('payment_status', ['pending', 'completed', 'failed', 'refunded']);
 export const discountTypeEnum = pgEnum('discount_type', ['percentage', 'fixed']);
+export const permissionRoleEnum = pgEnum('permission_role', ['teaching_assistant', 'finance_viewer', 'content_moderator']);
+export const loginAttemptScopeEnum = pgEnum('login_attempt_scope', ['account', 'ip']);
+export const courseLevelEnum = pgEnum('course_level', ['beginner', 'intermediate', 'advanced']);
+export const courseModerationStatusEnum = pgEnum('course_moderation_status', ['draft', 'submitted', 'approved', 'rejected', 'published']);
+export const courseRevisionStatusEnum = pgEnum('course_revision_status', ['draft', 'published', 'superseded']);
+export const courseStaffRoleEnum = pgEnum('course_staff_role', ['co_instructor', 'teaching_assistant']);
+export const courseStaffStatusEnum = pgEnum('course_staff_status', ['pending', 'active']);
 export const notificationTypeEnum = pgEnum('notification_type', ['course_update', 'quiz_available', 'certificate_issued', 'message_received', 'payment_confirmed']);
+export const mediaPurposeEnum = pgEnum('media_purpose', ['avatar', 'course_thumbnail', 'lesson_video', 'lesson_attachment']);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -32,6 +46,125 @@ export const usersTable = pgTable('users', {
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Sessions table (one row per signed-in device, holds the rotating refresh token)
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  refresh_token_hash: text('refresh_token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  revoked_at: timestamp('revoked_at'),
+  last_used_at: timestamp('last_used_at').defaultNow().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Email verification tokens table (only the SHA-256 hash of each token is stored)
+export const emailVerificationTokensTable = pgTable('email_verification_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  token_hash: text('token_hash').notNull().unique(),
+  new_email: text('new_email'), // Set when the token confirms a change of address
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Password reset tokens table (hashed, single-use)
+export const passwordResetTokensTable = pgTable('password_reset_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Two-factor (TOTP) enrollment per user; enabled_at stays null until the first code is confirmed
+export const userTwoFactorTable = pgTable('user_two_factor', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().unique().references(() => usersTable.id, { onDelete: 'cascade' }),
+  secret: text('secret').notNull(),
+  enabled_at: timestamp('enabled_at'),
+  last_used_step: integer('last_used_step'), // Rejects replay of a code within its time window
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// One-time recovery codes (hashed)
+export const twoFactorRecoveryCodesTable = pgTable('two_factor_recovery_codes', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  code_hash: text('code_hash').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Admin policy: roles that must have two-factor enabled
+export const twoFactorRequirementsTable = pgTable('two_factor_requirements', {
+  role: userRoleEnum('role').primaryKey(),
+  required: boolean('required').notNull().default(false),
+  updated_by: integer('updated_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// User identities table (links a user to an account at an external OIDC provider)
+export const userIdentitiesTable = pgTable('user_identities', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  provider: text('provider').notNull(),
+  subject: text('subject').notNull(), // The IdP's stable "sub" claim
+  email: text('email'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  last_login_at: timestamp('last_login_at').defaultNow().notNull()
+}, (table) => [
+  unique('user_identities_provider_subject_unique').on(table.provider, table.subject)
+]);
+
+// OIDC login states table (pending authorization requests awaiting the IdP callback)
+export const oidcLoginStatesTable = pgTable('oidc_login_states', {
+  id: serial('id').primaryKey(),
+  state: text('state').notNull().unique(),
+  provider: text('provider').notNull(),
+  nonce: text('nonce').notNull(),
+  code_verifier: text('code_verifier').notNull(),
+  link_user_id: integer('link_user_id').references(() => usersTable.id, { onDelete: 'cascade' }), // Signed-in user linking this provider
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Login attempts table (failed sign-in counters per account email and per client IP)
+export const loginAttemptsTable = pgTable('login_attempts', {
+  id: serial('id').primaryKey(),
+  scope: loginAttemptScopeEnum('scope').notNull(),
+  identifier: text('identifier').notNull(),
+  failed_count: integer('failed_count').notNull().default(0),
+  last_failed_at: timestamp('last_failed_at').defaultNow().notNull(),
+  blocked_until: timestamp('blocked_until'),
+  locked_at: timestamp('locked_at') // Set once the lockout threshold is reached
+}, (table) => [
+  unique('login_attempts_scope_identifier_unique').on(table.scope, table.identifier)
+]);
+
+// Audit log table (security-relevant events such as lockouts and unlocks)
+export const auditLogTable = pgTable('audit_log', {
+  id: serial('id').primaryKey(),
+  action: text('action').notNull(),
+  actor_id: integer('actor_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  target_user_id: integer('target_user_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  ip_address: text('ip_address'),
+  details: jsonb('details'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Course categories table (admin-managed; parent_id nests a category under another)
+export const categoriesTable = pgTable('categories', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  slug: text('slug').notNull().unique(),
+  description: text('description'),
+  parent_id: integer('parent_id').references((): AnyPgColumn => categoriesTable.id),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
 // Courses table
 export const coursesTable = pgTable('courses', {
   id: serial('id').primaryKey(),
@@ -41,11 +174,51 @@ export const coursesTable = pgTable('courses', {
   price: numeric('price', { precision: 10, scale: 2 }).notNull(),
   instructor_id: integer('instructor_id').notNull().references(() => usersTable.id),
   is_published: boolean('is_published').notNull().default(false),
+  moderation_status: courseModerationStatusEnum('moderation_status').notNull().default('draft'),
+  publish_at: timestamp('publish_at'), // Scheduled publish time, cleared once the course goes live
+  enrollment_opens_at: timestamp('enrollment_opens_at'),
+  enrollment_closes_at: timestamp('enrollment_closes_at'),
+  ends_at: timestamp('ends_at'), // After this the course is read-only for enrolled students
   duration_hours: numeric('duration_hours', { precision: 5, scale: 2 }).notNull(),
+  category_id: integer('category_id').references(() => categoriesTable.id, { onDelete: 'set null' }),
+  level: courseLevelEnum('level'),
+  tags: text('tags').array().notNull().default(sql`'{}'::text[]`), // Lowercased, deduplicated
+  rating_average: doublePrecision('rating_average').notNull().default(0), // Over visible reviews, kept in sync by the review handlers
+  rating_count: integer('rating_count').notNull().default(0),
+  deleted_at: timestamp('deleted_at'), // Set while the course is in its instructor's trash
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  // Must match the expression searchCourses filters on
+  index('courses_search_idx').using('gin', sql`to_tsvector('english', ${table.title} || ' ' || ${table.description})`)
+]);
+
+// Permission grants table (extra permission roles on top of a user's base role, optionally limited to one course)
+export const userPermissionGrantsTable = pgTable('user_permission_grants', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  role: permissionRoleEnum('role').notNull(),
+  course_id: integer('course_id').references(() => coursesTable.id, { onDelete: 'cascade' }),
+  granted_by: integer('granted_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull()
 });
 
+// Course staff table (co-instructors and teaching assistants; the course's instructor_id is its owner).
+// Rows start pending until the invited user accepts.
+export const courseStaffTable = pgTable('course_staff', {
+  id: serial('id').primaryKey(),
+  course_id: integer('course_id').notNull().references(() => coursesTable.id, { onDelete: 'cascade' }),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  role: courseStaffRoleEnum('role').notNull(),
+  status: courseStaffStatusEnum('status').notNull().default('pending'),
+  revenue_share_percent: numeric('revenue_share_percent', { precision: 5, scale: 2 }).notNull().default('0'), // The owner keeps the remainder
+  invited_by: integer('invited_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  invited_at: timestamp('invited_at').defaultNow().notNull(),
+  accepted_at: timestamp('accepted_at')
+}, (table) => [
+  unique('course_staff_course_user_unique').on(table.course_id, table.user_id)
+]);
+
 // Lessons table
 export const lessonsTable = pgTable('lessons', {
   id: serial('id').primaryKey(),
@@ -53,10 +226,12 @@ export const lessonsTable = pgTable('lessons', {
   title: text('title').notNull(),
   description: text('description'),
   video_url: text('video_url'),
-  content: text('content'),
+  content: text('content'), // Plain text body of lessons written before content blocks
+  blocks: jsonb('blocks').notNull().default(sql`'[]'::jsonb`), // Array of lesson content blocks, validated by lessonBlocksSchema
   order_index: integer('order_index').notNull(),
   duration_minutes: integer('duration_minutes').notNull(),
   is_published: boolean('is_published').notNull().default(false),
+  deleted_at: timestamp('deleted_at'), // Set while the lesson is in the trash
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -71,6 +246,7 @@ export const quizzesTable = pgTable('quizzes', {
   time_limit_minutes: integer('time_limit_minutes'),
   max_attempts: integer('max_attempts'),
   is_active: boolean('is_active').notNull().default(true),
+  deleted_at: timestamp('deleted_at'), // Set while the quiz is in the trash
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -101,17 +277,41 @@ export const quizAttemptsTable = pgTable('quiz_attempts', {
   is_passed: boolean('is_passed').notNull()
 });
 
+// Course runs table (cohorts of a course with their own dates and seat limit). Courses without
+// runs take enrollments directly; once a course has runs, every enrollment joins one.
+export const courseRunsTable = pgTable('course_runs', {
+  id: serial('id').primaryKey(),
+  course_id: integer('course_id').notNull().references(() => coursesTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  starts_at: timestamp('starts_at').notNull(),
+  ends_at: timestamp('ends_at'),
+  capacity: integer('capacity'), // Null for unlimited seats
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
 // Enrollments table
 export const enrollmentsTable = pgTable('enrollments', {
   id: serial('id').primaryKey(),
   student_id: integer('student_id').notNull().references(() => usersTable.id),
   course_id: integer('course_id').notNull().references(() => coursesTable.id),
+  course_run_id: integer('course_run_id').references(() => courseRunsTable.id, { onDelete: 'set null' }),
   enrollment_date: timestamp('enrollment_date').defaultNow().notNull(),
   completion_date: timestamp('completion_date'),
   progress_percentage: integer('progress_percentage').notNull().default(0),
   is_completed: boolean('is_completed').notNull().default(false)
 });
 
+// Students waiting for a seat in a full course run, served first come first served
+export const courseRunWaitlistTable = pgTable('course_run_waitlist', {
+  id: serial('id').primaryKey(),
+  course_run_id: integer('course_run_id').notNull().references(() => courseRunsTable.id, { onDelete: 'cascade' }),
+  student_id: integer('student_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('course_run_waitlist_run_student_unique').on(table.course_run_id, table.student_id)
+]);
+
 // Certificates table
 export const certificatesTable = pgTable('certificates', {
   id: serial('id').primaryKey(),
@@ -183,15 +383,189 @@ export const lessonProgressTable = pgTable('lesson_progress', {
   last_accessed_at: timestamp('last_accessed_at').defaultNow().notNull()
 });
 
+// Course reviews table (one per student per course; hidden reviews don't count towards the rating)
+export const reviewsTable = pgTable('reviews', {
+  id: serial('id').primaryKey(),
+  course_id: integer('course_id').notNull().references(() => coursesTable.id, { onDelete: 'cascade' }),
+  student_id: integer('student_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  rating: integer('rating').notNull(),
+  comment: text('comment'),
+  instructor_reply: text('instructor_reply'),
+  replied_at: timestamp('replied_at'),
+  is_hidden: boolean('is_hidden').notNull().default(false),
+  hidden_reason: text('hidden_reason'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  unique('reviews_course_student_unique').on(table.course_id, table.student_id)
+]);
+
+// One row per moderation state change, kept as the course's review history
+export const courseModerationEventsTable = pgTable('course_moderation_events', {
+  id: serial('id').primaryKey(),
+  course_id: integer('course_id').notNull().references(() => coursesTable.id, { onDelete: 'cascade' }),
+  actor_id: integer('actor_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  from_status: courseModerationStatusEnum('from_status').notNull(),
+  to_status: courseModerationStatusEnum('to_status').notNull(),
+  reason: text('reason'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Snapshots of a course's content. The live course, lesson and quiz rows always match the latest
+// published revision; instructors' pending changes to a live course are held in its one draft.
+export const courseRevisionsTable = pgTable('course_revisions', {
+  id: serial('id').primaryKey(),
+  course_id: integer('course_id').notNull().references(() => coursesTable.id, { onDelete: 'cascade' }),
+  revision_number: integer('revision_number').notNull(),
+  status: courseRevisionStatusEnum('status').notNull(),
+  snapshot: jsonb('snapshot').notNull(),
+  created_by: integer('created_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  published_by: integer('published_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  published_at: timestamp('published_at'),
+  restored_from_revision_id: integer('restored_from_revision_id'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  unique('course_revisions_course_number_unique').on(table.course_id, table.revision_number)
+]);
+
+// Reusable course content. The snapshot has the same shape as a revision's, with ids cleared.
+export const courseTemplatesTable = pgTable('course_templates', {
+  id: serial('id').primaryKey(),
+  title: text('title').notNull(),
+  description: text('description'),
+  snapshot: jsonb('snapshot').notNull(),
+  source_course_id: integer('source_course_id').references(() => coursesTable.id, { onDelete: 'set null' }),
+  created_by: integer('created_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  is_shared: boolean('is_shared').default(false).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Courses a student should finish before enrolling. Required prerequisites block enrollment;
+// the rest only warn. requires_certificate also asks for the prerequisite's certificate.
+export const coursePrerequisitesTable = pgTable('course_prerequisites', {
+  id: serial('id').primaryKey(),
+  course_id: integer('course_id').notNull().references(() => coursesTable.id, { onDelete: 'cascade' }),
+  prerequisite_course_id: integer('prerequisite_course_id').notNull().references(() => coursesTable.id, { onDelete: 'cascade' }),
+  is_required: boolean('is_required').notNull().default(true),
+  requires_certificate: boolean('requires_certificate').notNull().default(false),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('course_prerequisites_course_prerequisite_unique').on(table.course_id, table.prerequisite_course_id)
+]);
+
+// Learning paths (admin-curated sequences of courses with their own progress and certificate)
+export const learningPathsTable = pgTable('learning_paths', {
+  id: serial('id').primaryKey(),
+  title: text('title').notNull(),
+  description: text('description'),
+  is_published: boolean('is_published').notNull().default(false),
+  created_by: integer('created_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+export const learningPathCoursesTable = pgTable('learning_path_courses', {
+  id: serial('id').primaryKey(),
+  path_id: integer('path_id').notNull().references(() => learningPathsTable.id, { onDelete: 'cascade' }),
+  course_id: integer('course_id').notNull().references(() => coursesTable.id, { onDelete: 'cascade' }),
+  position: integer('position').notNull()
+}, (table) => [
+  unique('learning_path_courses_path_course_unique').on(table.path_id, table.course_id)
+]);
+
+export const learningPathEnrollmentsTable = pgTable('learning_path_enrollments', {
+  id: serial('id').primaryKey(),
+  path_id: integer('path_id').notNull().references(() => learningPathsTable.id, { onDelete: 'cascade' }),
+  student_id: integer('student_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  enrolled_at: timestamp('enrolled_at').defaultNow().notNull(),
+  completed_at: timestamp('completed_at') // Set when every course in the path is completed
+}, (table) => [
+  unique('learning_path_enrollments_path_student_unique').on(table.path_id, table.student_id)
+]);
+
+export const learningPathCertificatesTable = pgTable('learning_path_certificates', {
+  id: serial('id').primaryKey(),
+  path_id: integer('path_id').notNull().references(() => learningPathsTable.id, { onDelete: 'cascade' }),
+  student_id: integer('student_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  certificate_code: text('certificate_code').notNull().unique(),
+  issued_at: timestamp('issued_at').defaultNow().notNull()
+}, (table) => [
+  unique('learning_path_certificates_path_student_unique').on(table.path_id, table.student_id)
+]);
+
+// Uploaded files. The bytes live in the configured storage driver under storage_key; course media
+// keeps its course so enrolled students can be given download links.
+export const mediaAssetsTable = pgTable('media_assets', {
+  id: serial('id').primaryKey(),
+  owner_id: integer('owner_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  course_id: integer('course_id').references(() => coursesTable.id, { onDelete: 'set null' }),
+  purpose: mediaPurposeEnum('purpose').notNull(),
+  file_name: text('file_name').notNull(),
+  mime_type: text('mime_type').notNull(),
+  size_bytes: integer('size_bytes').notNull(),
+  storage_key: text('storage_key').notNull().unique(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  index('media_assets_owner_idx').on(table.owner_id)
+]);
+
+// Admin-set storage quotas; users without a row get their role's default
+export const userMediaQuotasTable = pgTable('user_media_quotas', {
+  user_id: integer('user_id').primaryKey().references(() => usersTable.id, { onDelete: 'cascade' }),
+  quota_bytes: bigint('quota_bytes', { mode: 'number' }).notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
 
 
 // TypeScript types for the table schemas
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
 
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
+export type EmailVerificationToken = typeof emailVerificationTokensTable.$inferSelect;
+export type NewEmailVerificationToken = typeof emailVerificationTokensTable.$inferInsert;
+
+export type PasswordResetToken = typeof passwordResetTokensTable.$inferSelect;
+export type NewPasswordResetToken = typeof passwordResetTokensTable.$inferInsert;
+
+export type UserTwoFactor = typeof userTwoFactorTable.$inferSelect;
+export type NewUserTwoFactor = typeof userTwoFactorTable.$inferInsert;
+
+export type TwoFactorRecoveryCode = typeof twoFactorRecoveryCodesTable.$inferSelect;
+export type NewTwoFactorRecoveryCode = typeof twoFactorRecoveryCodesTable.$inferInsert;
+
+export type TwoFactorRequirement = typeof twoFactorRequirementsTable.$inferSelect;
+export type NewTwoFactorRequirement = typeof twoFactorRequirementsTable.$inferInsert;
+
+export type UserIdentity = typeof userIdentitiesTable.$inferSelect;
+export type NewUserIdentity = typeof userIdentitiesTable.$inferInsert;
+
+export type OidcLoginState = typeof oidcLoginStatesTable.$inferSelect;
+export type NewOidcLoginState = typeof oidcLoginStatesTable.$inferInsert;
+
+export type LoginAttempt = typeof loginAttemptsTable.$inferSelect;
+export type NewLoginAttempt = typeof loginAttemptsTable.$inferInsert;
+
+export type AuditLogEntry = typeof auditLogTable.$inferSelect;
+export type NewAuditLogEntry = typeof auditLogTable.$inferInsert;
+
+export type Category = typeof categoriesTable.$inferSelect;
+export type NewCategory = typeof categoriesTable.$inferInsert;
+
 export type Course = typeof coursesTable.$inferSelect;
 export type NewCourse = typeof coursesTable.$inferInsert;
 
+export type UserPermissionGrant = typeof userPermissionGrantsTable.$inferSelect;
+export type NewUserPermissionGrant = typeof userPermissionGrantsTable.$inferInsert;
+
+export type CourseStaff = typeof courseStaffTable.$inferSelect;
+export type NewCourseStaff = typeof courseStaffTable.$inferInsert;
+
 export type Lesson = typeof lessonsTable.$inferSelect;
 export type NewLesson = typeof lessonsTable.$inferInsert;
 
@@ -225,10 +599,59 @@ export type NewNotification = typeof notificationsTable.$inferInsert;
 export type LessonProgress = typeof lessonProgressTable.$inferSelect;
 export type NewLessonProgress = typeof lessonProgressTable.$inferInsert;
 
+export type Review = typeof reviewsTable.$inferSelect;
+export type NewReview = typeof reviewsTable.$inferInsert;
+
+export type CourseModerationEvent = typeof courseModerationEventsTable.$inferSelect;
+export type NewCourseModerationEvent = typeof courseModerationEventsTable.$inferInsert;
+
+export type CourseRevision = typeof courseRevisionsTable.$inferSelect;
+export type NewCourseRevision = typeof courseRevisionsTable.$inferInsert;
+
+export type CourseTemplate = typeof courseTemplatesTable.$inferSelect;
+export type NewCourseTemplate = typeof courseTemplatesTable.$inferInsert;
+
+export type CoursePrerequisite = typeof coursePrerequisitesTable.$inferSelect;
+export type NewCoursePrerequisite = typeof coursePrerequisitesTable.$inferInsert;
+
+export type LearningPath = typeof learningPathsTable.$inferSelect;
+export type NewLearningPath = typeof learningPathsTable.$inferInsert;
+
+export type LearningPathCourse = typeof learningPathCoursesTable.$inferSelect;
+export type NewLearningPathCourse = typeof learningPathCoursesTable.$inferInsert;
+
+export type LearningPathEnrollment = typeof learningPathEnrollmentsTable.$inferSelect;
+export type NewLearningPathEnrollment = typeof learningPathEnrollmentsTable.$inferInsert;
+
+export type LearningPathCertificate = typeof learningPathCertificatesTable.$inferSelect;
+export type NewLearningPathCertificate = typeof learningPathCertificatesTable.$inferInsert;
+
+export type CourseRun = typeof courseRunsTable.$inferSelect;
+export type NewCourseRun = typeof courseRunsTable.$inferInsert;
+
+export type CourseRunWaitlistEntry = typeof courseRunWaitlistTable.$inferSelect;
+export type NewCourseRunWaitlistEntry = typeof courseRunWaitlistTable.$inferInsert;
+
+export type MediaAsset = typeof mediaAssetsTable.$inferSelect;
+export type NewMediaAsset = typeof mediaAssetsTable.$inferInsert;
+
 // Export all tables for relation queries
 export const tables = {
   users: usersTable,
+  sessions: sessionsTable,
+  emailVerificationTokens: emailVerificationTokensTable,
+  passwordResetTokens: passwordResetTokensTable,
+  userTwoFactor: userTwoFactorTable,
+  twoFactorRecoveryCodes: twoFactorRecoveryCodesTable,
+  twoFactorRequirements: twoFactorRequirementsTable,
+  userIdentities: userIdentitiesTable,
+  oidcLoginStates: oidcLoginStatesTable,
+  loginAttempts: loginAttemptsTable,
+  auditLog: auditLogTable,
+  categories: categoriesTable,
   courses: coursesTable,
+  userPermissionGrants: userPermissionGrantsTable,
+  courseStaff: courseStaffTable,
   lessons: lessonsTable,
   quizzes: quizzesTable,
   quizQuestions: quizQuestionsTable,
@@ -239,5 +662,18 @@ export const tables = {
   coupons: couponsTable,
   messages: messagesTable,
   notifications: notificationsTable,
-  lessonProgress: lessonProgressTable
+  lessonProgress: lessonProgressTable,
+  reviews: reviewsTable,
+  courseRevisions: courseRevisionsTable,
+  courseTemplates: courseTemplatesTable,
+  courseModerationEvents: courseModerationEventsTable,
+  coursePrerequisites: coursePrerequisitesTable,
+  learningPaths: learningPathsTable,
+  learningPathCourses: learningPathCoursesTable,
+  learningPathEnrollments: learningPathEnrollmentsTable,
+  learningPathCertificates: learningPathCertificatesTable,
+  courseRuns: courseRunsTable,
+  courseRunWaitlist: courseRunWaitlistTable,
+  mediaAssets: mediaAssetsTable,
+  userMediaQuotas: userMediaQuotasTable
 };
\ No newline at end of file
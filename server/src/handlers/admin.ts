@@ -4,22 +4,21 @@ import {
   coursesTable, 
   enrollmentsTable, 
   paymentsTable, 
-  certificatesTable 
+  certificatesTable, 
+  loginAttemptsTable 
 } from '../db/schema';
-import { type User, type Course, type Certificate, type Payment } from '../schema';
-import { eq, desc, gte, lte, count, sum, and, isNull, sql, SQL } from 'drizzle-orm';
+import { type User, type UserRole, type Course, type Certificate, type Payment, type LockedAccount, type CourseStaffRole } from '../schema';
+import { revokeUserSessions } from './auth';
+import { recordAuditEvent } from './audit';
+import { assertPermission } from './permissions';
+import { transitionCourseModeration } from './moderation';
+import { createNotification } from './messages';
+import { getRevenueSplits } from './courseStaff';
+import { eq, desc, gt, gte, lte, count, sum, and, isNull, isNotNull, sql, SQL } from 'drizzle-orm';
 
 export async function getAllUsers(adminId: number): Promise<User[]> {
   try {
-    // Verify admin permissions
-    const admin = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, adminId))
-      .execute();
-
-    if (!admin.length || admin[0].role !== 'administrator') {
-      throw new Error('Unauthorized: Admin access required');
-    }
+    await assertPermission(adminId, 'users.view');
 
     // Fetch all users
     const users = await db.select()
@@ -40,15 +39,7 @@ export async function getAllUsers(adminId: number): Promise<User[]> {
 
 export async function getUserById(userId: number, adminId: number): Promise<User | null> {
   try {
-    // Verify admin permissions
-    const admin = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, adminId))
-      .execute();
-
-    if (!admin.length || admin[0].role !== 'administrator') {
-      throw new Error('Unauthorized: Admin access required');
-    }
+    await assertPermission(adminId, 'users.view');
 
     // Fetch specific user
     const users = await db.select()
@@ -73,15 +64,7 @@ export async function getUserById(userId: number, adminId: number): Promise<User
 
 export async function updateUserStatus(userId: number, isActive: boolean, adminId: number): Promise<User> {
   try {
-    // Verify admin permissions
-    const admin = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, adminId))
-      .execute();
-
-    if (!admin.length || admin[0].role !== 'administrator') {
-      throw new Error('Unauthorized: Admin access required');
-    }
+    await assertPermission(adminId, 'users.manage');
 
     // Update user status
     const result = await db.update(usersTable)
@@ -97,6 +80,11 @@ export async function updateUserStatus(userId: number, isActive: boolean, adminI
       throw new Error('User not found');
     }
 
+    // Deactivated users lose access on every device immediately
+    if (!isActive) {
+      await revokeUserSessions(userId);
+    }
+
     // Return user without password_hash
     return {
       ...result[0],
@@ -108,18 +96,59 @@ export async function updateUserStatus(userId: number, isActive: boolean, adminI
   }
 }
 
-export async function deleteUser(userId: number, adminId: number): Promise<{ success: boolean }> {
+// Promotion is the only way to create administrators; self-registration stops at instructor
+export async function updateUserRole(userId: number, role: UserRole, adminId: number, ipAddress: string | null = null): Promise<User> {
   try {
-    // Verify admin permissions
-    const admin = await db.select()
+    await assertPermission(adminId, 'users.manage');
+
+    if (userId === adminId) {
+      throw new Error('You cannot change your own role');
+    }
+
+    const existing = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.id, adminId))
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (!existing.length) {
+      throw new Error('User not found');
+    }
+
+    const result = await db.update(usersTable)
+      .set({
+        role,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .returning()
       .execute();
 
-    if (!admin.length || admin[0].role !== 'administrator') {
-      throw new Error('Unauthorized: Admin access required');
+    // Sessions reload the user on every request, so the new role applies immediately
+    if (existing[0].role !== role) {
+      await recordAuditEvent({
+        action: 'role_changed',
+        actorId: adminId,
+        targetUserId: userId,
+        ipAddress,
+        details: { from: existing[0].role, to: role }
+      });
     }
 
+    // Return user without password_hash
+    return {
+      ...result[0],
+      password_hash: '[REDACTED]'
+    };
+  } catch (error) {
+    console.error('Failed to update user role:', error);
+    throw error;
+  }
+}
+
+export async function deleteUser(userId: number, adminId: number): Promise<{ success: boolean }> {
+  try {
+    await assertPermission(adminId, 'users.manage');
+
     // Check if user exists
     const user = await db.select()
       .from(usersTable)
@@ -142,18 +171,78 @@ export async function deleteUser(userId: number, adminId: number): Promise<{ suc
   }
 }
 
-export async function getAllCourses(adminId: number): Promise<Course[]> {
+export async function getLockedAccounts(adminId: number): Promise<LockedAccount[]> {
+  try {
+    await assertPermission(adminId, 'users.view');
+
+    // Account counters are keyed by lower-cased email
+    const rows = await db.select({
+      user_id: usersTable.id,
+      email: usersTable.email,
+      failed_count: loginAttemptsTable.failed_count,
+      locked_at: loginAttemptsTable.locked_at,
+      locked_until: loginAttemptsTable.blocked_until
+    })
+      .from(loginAttemptsTable)
+      .innerJoin(usersTable, eq(sql`lower(${usersTable.email})`, loginAttemptsTable.identifier))
+      .where(and(
+        eq(loginAttemptsTable.scope, 'account'),
+        isNotNull(loginAttemptsTable.locked_at),
+        gt(loginAttemptsTable.blocked_until, new Date())
+      ))
+      .orderBy(desc(loginAttemptsTable.locked_at))
+      .execute();
+
+    return rows.map(row => ({
+      ...row,
+      locked_at: row.locked_at!,
+      locked_until: row.locked_until!
+    }));
+  } catch (error) {
+    console.error('Failed to fetch locked accounts:', error);
+    throw error;
+  }
+}
+
+export async function unlockUserAccount(userId: number, adminId: number, ipAddress: string | null = null): Promise<{ success: boolean }> {
   try {
-    // Verify admin permissions
-    const admin = await db.select()
+    await assertPermission(adminId, 'users.manage');
+
+    const user = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.id, adminId))
+      .where(eq(usersTable.id, userId))
       .execute();
 
-    if (!admin.length || admin[0].role !== 'administrator') {
-      throw new Error('Unauthorized: Admin access required');
+    if (!user.length) {
+      throw new Error('User not found');
     }
 
+    // Clearing the counter lifts both the lockout and any pending backoff
+    await db.delete(loginAttemptsTable)
+      .where(and(
+        eq(loginAttemptsTable.scope, 'account'),
+        eq(loginAttemptsTable.identifier, user[0].email.toLowerCase())
+      ))
+      .execute();
+
+    await recordAuditEvent({
+      action: 'account_unlocked',
+      actorId: adminId,
+      targetUserId: userId,
+      ipAddress
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to unlock account:', error);
+    throw error;
+  }
+}
+
+export async function getAllCourses(adminId: number): Promise<Course[]> {
+  try {
+    await assertPermission(adminId, 'courses.moderate');
+
     // Fetch all courses including unpublished ones
     const courses = await db.select()
       .from(coursesTable)
@@ -172,38 +261,41 @@ export async function getAllCourses(adminId: number): Promise<Course[]> {
   }
 }
 
-export async function moderateCourse(courseId: number, action: 'approve' | 'reject', adminId: number): Promise<Course> {
+// Decides a submitted course, or takes a published one down. Either way the instructor is notified.
+export async function moderateCourse(courseId: number, action: 'approve' | 'reject', reason: string | null, adminId: number): Promise<Course> {
   try {
-    // Verify admin permissions
-    const admin = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, adminId))
-      .execute();
+    await assertPermission(adminId, 'courses.moderate');
 
-    if (!admin.length || admin[0].role !== 'administrator') {
-      throw new Error('Unauthorized: Admin access required');
-    }
-
-    // Update course publication status
-    const isPublished = action === 'approve';
-    const result = await db.update(coursesTable)
-      .set({ 
-        is_published: isPublished,
-        updated_at: new Date()
-      })
+    const courses = await db.select()
+      .from(coursesTable)
       .where(eq(coursesTable.id, courseId))
-      .returning()
       .execute();
 
-    if (!result.length) {
+    if (!courses.length) {
       throw new Error('Course not found');
     }
 
+    if (action === 'reject' && !reason) {
+      throw new Error('A reason is required when rejecting a course');
+    }
+
+    const wasPublished = courses[0].moderation_status === 'published';
+    const course = await transitionCourseModeration(db, courses[0], action === 'approve' ? 'approved' : 'rejected', adminId, reason || null);
+
+    await createNotification({
+      user_id: course.instructor_id,
+      type: 'course_update',
+      title: action === 'approve' ? 'Course approved' : wasPublished ? 'Course unpublished' : 'Course not approved',
+      message: action === 'approve'
+        ? `"${course.title}" was approved and can now be published.`
+        : `"${course.title}" was ${wasPublished ? 'unpublished by a moderator' : 'not approved'}: ${reason}`
+    });
+
     // Convert numeric fields to numbers
     return {
-      ...result[0],
-      price: parseFloat(result[0].price),
-      duration_hours: parseFloat(result[0].duration_hours)
+      ...course,
+      price: parseFloat(course.price),
+      duration_hours: parseFloat(course.duration_hours)
     };
   } catch (error) {
     console.error('Failed to moderate course:', error);
@@ -222,15 +314,7 @@ export async function getSystemAnalytics(adminId: number): Promise<{
   recentUsers: User[];
 }> {
   try {
-    // Verify admin permissions
-    const admin = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, adminId))
-      .execute();
-
-    if (!admin.length || admin[0].role !== 'administrator') {
-      throw new Error('Unauthorized: Admin access required');
-    }
+    await assertPermission(adminId, 'analytics.view');
 
     // Get current month boundaries
     const now = new Date();
@@ -335,19 +419,16 @@ export async function getRevenueReport(adminId: number, startDate: Date, endDate
   totalRevenue: number;
   totalTransactions: number;
   refundedAmount: number;
-  courseRevenue: { courseId: number; courseName: string; revenue: number }[];
+  courseRevenue: {
+    courseId: number;
+    courseName: string;
+    revenue: number;
+    splits: { userId: number; name: string; role: CourseStaffRole; percent: number; amount: number }[];
+  }[];
   dailyRevenue: { date: string; revenue: number }[];
 }> {
   try {
-    // Verify admin permissions
-    const admin = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, adminId))
-      .execute();
-
-    if (!admin.length || admin[0].role !== 'administrator') {
-      throw new Error('Unauthorized: Admin access required');
-    }
+    await assertPermission(adminId, 'revenue.view');
 
     const conditions: SQL<unknown>[] = [
       gte(paymentsTable.created_at, startDate),
@@ -391,11 +472,21 @@ export async function getRevenueReport(adminId: number, startDate: Date, endDate
       .orderBy(desc(sum(paymentsTable.amount)))
       .execute();
 
-    const courseRevenue = courseRevenueData.map(item => ({
-      courseId: item.courseId,
-      courseName: item.courseName,
-      revenue: item.revenue ? parseFloat(item.revenue) : 0
-    }));
+    // Each course's revenue is divided between its owner and co-instructors by their current shares
+    const courseRevenue = [];
+    for (const item of courseRevenueData) {
+      const revenue = item.revenue ? parseFloat(item.revenue) : 0;
+      const splits = await getRevenueSplits(item.courseId);
+      courseRevenue.push({
+        courseId: item.courseId,
+        courseName: item.courseName,
+        revenue,
+        splits: splits.map(split => ({
+          ...split,
+          amount: Math.round(revenue * split.percent) / 100
+        }))
+      });
+    }
 
     // Daily revenue
     const dailyRevenueData = await db.select({
@@ -432,15 +523,7 @@ export async function getCertificateStats(adminId: number): Promise<{
   topPerformingCourses: { courseId: number; courseName: string; certificatesIssued: number }[];
 }> {
   try {
-    // Verify admin permissions
-    const admin = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, adminId))
-      .execute();
-
-    if (!admin.length || admin[0].role !== 'administrator') {
-      throw new Error('Unauthorized: Admin access required');
-    }
+    await assertPermission(adminId, 'analytics.view');
 
     // Get current month boundaries
     const now = new Date();
@@ -491,15 +574,7 @@ export async function getCertificateStats(adminId: number): Promise<{
 
 export async function exportUserData(adminId: number, format: 'csv' | 'json'): Promise<{ downloadUrl: string }> {
   try {
-    // Verify admin permissions
-    const admin = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, adminId))
-      .execute();
-
-    if (!admin.length || admin[0].role !== 'administrator') {
-      throw new Error('Unauthorized: Admin access required');
-    }
+    await assertPermission(adminId, 'data.export');
 
     // In a real implementation, this would:
     // 1. Generate the export file
@@ -519,15 +594,7 @@ export async function exportUserData(adminId: number, format: 'csv' | 'json'): P
 
 export async function exportCourseData(adminId: number, format: 'csv' | 'json'): Promise<{ downloadUrl: string }> {
   try {
-    // Verify admin permissions
-    const admin = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, adminId))
-      .execute();
-
-    if (!admin.length || admin[0].role !== 'administrator') {
-      throw new Error('Unauthorized: Admin access required');
-    }
+    await assertPermission(adminId, 'data.export');
 
     // In a real implementation, this would:
     // 1. Generate the export file with course and enrollment data
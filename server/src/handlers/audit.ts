@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { auditLogTable } from '../db/schema';
+
+export interface AuditEvent {
+  action: string;
+  actorId?: number | null;
+  targetUserId?: number | null;
+  ipAddress?: string | null;
+  details?: Record<string, unknown>;
+}
+
+// Append an entry to the audit log; failures are logged but never block the caller
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+  try {
+    await db.insert(auditLogTable)
+      .values({
+        action: event.action,
+        actor_id: event.actorId ?? null,
+        target_user_id: event.targetUserId ?? null,
+        ip_address: event.ipAddress ?? null,
+        details: event.details ?? null
+      })
+      .execute();
+  } catch (error) {
+    console.error('Failed to record audit event:', error);
+  }
+}
@@ -1,32 +1,47 @@
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type RegisterInput, type LoginInput, type User } from '../schema';
-import { eq } from 'drizzle-orm';
+import { usersTable, sessionsTable, emailVerificationTokensTable, passwordResetTokensTable } from '../db/schema';
+import { type RegisterInput, type LoginInput, type LoginResult, type User, type AuthTokens } from '../schema';
+import { eq, and, gt, gte, ne, isNull, isNotNull, desc, sql } from 'drizzle-orm';
+import { sendMail } from '../mail';
+import { hashPassword, verifyPassword, needsRehash } from '../password';
+import { isTwoFactorEnabled, isTwoFactorRequired, verifyTwoFactorCode } from './twoFactor';
+import { assertLoginAllowed, recordLoginFailure, clearLoginFailures } from './loginThrottle';
 import crypto from 'crypto';
 
 const JWT_SECRET = process.env['JWT_SECRET'] || 'your-secret-key';
-const JWT_EXPIRES_IN = process.env['JWT_EXPIRES_IN'] || '7d';
+const JWT_EXPIRES_IN = process.env['JWT_EXPIRES_IN'] || '15m';
+const REFRESH_TOKEN_EXPIRES_IN = process.env['REFRESH_TOKEN_EXPIRES_IN'] || '30d';
+const APP_URL = process.env['APP_URL'] || 'http://localhost:5173';
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
+
+// Verification email limits: links live 24 hours, resends are throttled per user
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+const VERIFICATION_RESEND_COOLDOWN_MS = 60 * 1000;
+const VERIFICATION_MAX_PER_HOUR = 5;
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+// Convert a duration like "15m", "12h" or "30d" (or plain seconds) to seconds
+function parseDuration(value: string): number {
+  const match = /^(\d+)\s*([smhd]?)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
 
-// Simple password hashing using Node.js crypto
-async function hashPassword(password: string): Promise<string> {
-  const salt = crypto.randomBytes(16).toString('hex');
-  const hash = crypto.pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex');
-  return `${salt}:${hash}`;
+  const amount = parseInt(match[1]);
+  const multipliers: Record<string, number> = { '': 1, s: 1, m: 60, h: 60 * 60, d: 24 * 60 * 60 };
+  return amount * multipliers[match[2]];
 }
 
-async function verifyPassword(password: string, hashedPassword: string): Promise<boolean> {
-  const [salt, hash] = hashedPassword.split(':');
-  if (!salt || !hash) return false;
-  
-  const verifyHash = crypto.pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex');
-  return hash === verifyHash;
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
 }
 
 // Simple JWT implementation using crypto
-function createJWT(payload: object): string {
+function createJWT(payload: object, expiresIn: string = JWT_EXPIRES_IN): string {
   const header = { alg: 'HS256', typ: 'JWT' };
   const now = Math.floor(Date.now() / 1000);
-  const exp = now + (7 * 24 * 60 * 60); // 7 days
+  const exp = now + parseDuration(expiresIn);
   
   const jwtPayload = { ...payload, iat: now, exp };
   
@@ -41,8 +56,75 @@ function createJWT(payload: object): string {
   return `${encodedHeader}.${encodedPayload}.${signature}`;
 }
 
-// In-memory store for password reset tokens (in production, use Redis or database)
-const resetTokenStore = new Map<string, { email: string; expires: Date }>();
+// Verify signature and expiry of a token produced by createJWT
+function verifyJWT(token: string): { userId: number; sessionId?: number; purpose?: string; email: string; role: string; iat: number; exp: number } | null {
+  const [encodedHeader, encodedPayload, signature] = token.split('.');
+  if (!encodedHeader || !encodedPayload || !signature) return null;
+
+  const expectedSignature = crypto
+    .createHmac('sha256', JWT_SECRET)
+    .update(`${encodedHeader}.${encodedPayload}`)
+    .digest('base64url');
+
+  const signatureBuffer = Buffer.from(signature);
+  const expectedBuffer = Buffer.from(expectedSignature);
+  if (signatureBuffer.length !== expectedBuffer.length || !crypto.timingSafeEqual(signatureBuffer, expectedBuffer)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
+    if (typeof payload.userId !== 'number' || typeof payload.exp !== 'number') return null;
+    if (payload.exp <= Math.floor(Date.now() / 1000)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// Start a new session and issue its first access/refresh token pair
+async function createSession(user: { id: number; email: string; role: string }): Promise<AuthTokens> {
+  const refreshToken = crypto.randomBytes(48).toString('hex');
+  const expiresAt = new Date(Date.now() + parseDuration(REFRESH_TOKEN_EXPIRES_IN) * 1000);
+
+  const result = await db.insert(sessionsTable)
+    .values({
+      user_id: user.id,
+      refresh_token_hash: hashToken(refreshToken),
+      expires_at: expiresAt
+    })
+    .returning()
+    .execute();
+
+  const token = createJWT({
+    userId: user.id,
+    sessionId: result[0].id,
+    email: user.email,
+    role: user.role
+  });
+
+  return { token, refreshToken };
+}
+
+// Issue a verification token and email the link to the user, or to the new address when changing email
+async function sendVerificationEmail(user: { id: number; email: string; first_name: string }, newEmail: string | null = null): Promise<void> {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await db.insert(emailVerificationTokensTable)
+    .values({
+      user_id: user.id,
+      token_hash: hashToken(token),
+      new_email: newEmail,
+      expires_at: new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS)
+    })
+    .execute();
+
+  await sendMail({
+    to: newEmail ?? user.email,
+    subject: 'Verify your email address',
+    text: `Hi ${user.first_name},\n\nConfirm your email address by opening this link:\n${APP_URL}/?verifyToken=${token}\n\nThe link expires in 24 hours.`
+  });
+}
 
 export async function register(input: RegisterInput): Promise<User> {
   try {
@@ -75,6 +157,9 @@ export async function register(input: RegisterInput): Promise<User> {
       .execute();
 
     const user = result[0];
+
+    await sendVerificationEmail(user);
+
     return {
       ...user,
       created_at: new Date(user.created_at),
@@ -86,8 +171,36 @@ export async function register(input: RegisterInput): Promise<User> {
   }
 }
 
-export async function login(input: LoginInput): Promise<{ user: User; token: string }> {
+// Final step shared by every first-factor login (password or SSO)
+export async function startLogin(user: User): Promise<LoginResult> {
+  // Users with two-factor enabled get a short-lived challenge instead of a session
+  if (await isTwoFactorEnabled(user.id)) {
+    return {
+      twoFactorRequired: true,
+      challengeToken: createJWT({ userId: user.id, purpose: 'two_factor' }, TWO_FACTOR_CHALLENGE_EXPIRES_IN)
+    };
+  }
+
+  // Start a session for this device
+  const tokens = await createSession(user);
+
+  return {
+    twoFactorRequired: false,
+    twoFactorSetupRequired: await isTwoFactorRequired(user.role),
+    user: {
+      ...user,
+      created_at: new Date(user.created_at),
+      updated_at: new Date(user.updated_at)
+    },
+    ...tokens
+  };
+}
+
+export async function login(input: LoginInput, ipAddress: string | null = null): Promise<LoginResult> {
   try {
+    // Refuse outright while the account or address is backing off or locked
+    await assertLoginAllowed(input.email, ipAddress);
+
     // Find user by email
     const users = await db.select()
       .from(usersTable)
@@ -95,6 +208,7 @@ export async function login(input: LoginInput): Promise<{ user: User; token: str
       .execute();
 
     if (users.length === 0) {
+      await recordLoginFailure(input.email, ipAddress, null);
       throw new Error('Invalid credentials');
     }
 
@@ -108,39 +222,193 @@ export async function login(input: LoginInput): Promise<{ user: User; token: str
     // Verify password
     const isValidPassword = await verifyPassword(input.password, user.password_hash);
     if (!isValidPassword) {
+      await recordLoginFailure(input.email, ipAddress, user.id);
       throw new Error('Invalid credentials');
     }
 
-    // Generate JWT token
-    const token = createJWT({
-      userId: user.id,
-      email: user.email,
-      role: user.role
-    });
+    // Upgrade hashes made with an older scheme now that we have the plaintext
+    if (needsRehash(user.password_hash)) {
+      await db.update(usersTable)
+        .set({ password_hash: await hashPassword(input.password) })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+    }
+
+    const result = await startLogin(user);
+    if (!result.twoFactorRequired) {
+      await clearLoginFailures(user.email);
+    }
+
+    return result;
+  } catch (error) {
+    console.error('User login failed:', error);
+    throw error;
+  }
+}
+
+export async function completeTwoFactorLogin(challengeToken: string, code: string, ipAddress: string | null = null): Promise<LoginResult> {
+  try {
+    const payload = verifyJWT(challengeToken);
+    if (!payload || payload.purpose !== 'two_factor') {
+      throw new Error('Invalid or expired login challenge');
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, payload.userId))
+      .execute();
+
+    if (users.length === 0 || !users[0].is_active) {
+      throw new Error('Invalid or expired login challenge');
+    }
+
+    const user = users[0];
+
+    // Wrong codes count toward the same limits as wrong passwords
+    await assertLoginAllowed(user.email, ipAddress);
+
+    if (!(await verifyTwoFactorCode(user.id, code))) {
+      await recordLoginFailure(user.email, ipAddress, user.id);
+      throw new Error('Invalid verification code');
+    }
+
+    await clearLoginFailures(user.email);
+
+    const tokens = await createSession(user);
 
     return {
+      twoFactorRequired: false,
+      twoFactorSetupRequired: false,
       user: {
         ...user,
         created_at: new Date(user.created_at),
         updated_at: new Date(user.updated_at)
       },
-      token
+      ...tokens
     };
   } catch (error) {
-    console.error('User login failed:', error);
+    console.error('Two-factor login failed:', error);
+    throw error;
+  }
+}
+
+export async function authenticateToken(token: string): Promise<{ user: User; sessionId: number } | null> {
+  try {
+    const payload = verifyJWT(token);
+    if (!payload || typeof payload.sessionId !== 'number') {
+      return null;
+    }
+
+    // Load the session and current user so revocation, role changes and deactivation take effect immediately
+    const rows = await db.select({
+      user: usersTable,
+      session: sessionsTable
+    })
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(and(
+        eq(sessionsTable.id, payload.sessionId),
+        eq(sessionsTable.user_id, payload.userId)
+      ))
+      .execute();
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const { user, session } = rows[0];
+    if (session.revoked_at || session.expires_at <= new Date() || !user.is_active) {
+      return null;
+    }
+
+    return {
+      user: {
+        ...user,
+        created_at: new Date(user.created_at),
+        updated_at: new Date(user.updated_at)
+      },
+      sessionId: session.id
+    };
+  } catch (error) {
+    console.error('Token authentication failed:', error);
+    throw error;
+  }
+}
+
+export async function refreshSession(refreshToken: string): Promise<AuthTokens> {
+  try {
+    const rows = await db.select({
+      user: usersTable,
+      session: sessionsTable
+    })
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(and(
+        eq(sessionsTable.refresh_token_hash, hashToken(refreshToken)),
+        isNull(sessionsTable.revoked_at),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .execute();
+
+    if (rows.length === 0) {
+      throw new Error('Invalid or expired refresh token');
+    }
+
+    const { user, session } = rows[0];
+    if (!user.is_active) {
+      throw new Error('Account is deactivated');
+    }
+
+    // Rotate the refresh token so each one can only be used once. The swap only succeeds while the
+    // session still holds the presented token; losing it means the token was used twice, so the
+    // session is treated as stolen and revoked.
+    const nextRefreshToken = crypto.randomBytes(48).toString('hex');
+    const rotated = await db.update(sessionsTable)
+      .set({
+        refresh_token_hash: hashToken(nextRefreshToken),
+        last_used_at: new Date()
+      })
+      .where(and(
+        eq(sessionsTable.id, session.id),
+        eq(sessionsTable.refresh_token_hash, session.refresh_token_hash),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .returning({ id: sessionsTable.id })
+      .execute();
+
+    if (rotated.length === 0) {
+      await db.update(sessionsTable)
+        .set({ revoked_at: new Date() })
+        .where(and(eq(sessionsTable.id, session.id), isNull(sessionsTable.revoked_at)))
+        .execute();
+      throw new Error('Invalid or expired refresh token');
+    }
+
+    const token = createJWT({
+      userId: user.id,
+      sessionId: session.id,
+      email: user.email,
+      role: user.role
+    });
+
+    return { token, refreshToken: nextRefreshToken };
+  } catch (error) {
+    console.error('Session refresh failed:', error);
     throw error;
   }
 }
 
-export async function logout(userId: number): Promise<{ success: boolean }> {
+export async function logout(userId: number, sessionId: number): Promise<{ success: boolean }> {
   try {
-    // In a real implementation, you might:
-    // 1. Add the token to a blacklist in Redis/database
-    // 2. Update a last_logout timestamp in the user table
-    // 3. Invalidate any active sessions
-    
-    // For now, we'll just return success since JWT tokens are stateless
-    // The client should remove the token from storage
+    await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(sessionsTable.id, sessionId),
+        eq(sessionsTable.user_id, userId),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .execute();
+
     return { success: true };
   } catch (error) {
     console.error('User logout failed:', error);
@@ -148,6 +416,117 @@ export async function logout(userId: number): Promise<{ success: boolean }> {
   }
 }
 
+export async function revokeUserSessions(userId: number, exceptSessionId: number | null = null): Promise<{ success: boolean; revoked: number }> {
+  try {
+    const result = await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(sessionsTable.user_id, userId),
+        isNull(sessionsTable.revoked_at),
+        exceptSessionId !== null ? ne(sessionsTable.id, exceptSessionId) : undefined
+      ))
+      .returning()
+      .execute();
+
+    return { success: true, revoked: result.length };
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+}
+
+export async function verifyEmail(token: string): Promise<{ success: boolean }> {
+  try {
+    const tokens = await db.select()
+      .from(emailVerificationTokensTable)
+      .where(and(
+        eq(emailVerificationTokensTable.token_hash, hashToken(token)),
+        isNull(emailVerificationTokensTable.used_at),
+        gt(emailVerificationTokensTable.expires_at, new Date())
+      ))
+      .execute();
+
+    if (tokens.length === 0) {
+      throw new Error('Invalid or expired verification token');
+    }
+
+    const verificationToken = tokens[0];
+
+    // A change-of-address token switches the account to the new email
+    if (verificationToken.new_email) {
+      const taken = await db.select()
+        .from(usersTable)
+        .where(eq(sql`lower(${usersTable.email})`, verificationToken.new_email.toLowerCase()))
+        .execute();
+
+      if (taken.length > 0) {
+        throw new Error('Email already registered');
+      }
+    }
+
+    await db.update(usersTable)
+      .set({
+        ...(verificationToken.new_email ? { email: verificationToken.new_email } : {}),
+        email_verified: true,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, verificationToken.user_id))
+      .execute();
+
+    // Consume every outstanding token for this user, not just the one used
+    await db.update(emailVerificationTokensTable)
+      .set({ used_at: new Date() })
+      .where(and(
+        eq(emailVerificationTokensTable.user_id, verificationToken.user_id),
+        isNull(emailVerificationTokensTable.used_at)
+      ))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Email verification failed:', error);
+    throw error;
+  }
+}
+
+export async function resendVerificationEmail(email: string): Promise<{ success: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, email))
+      .execute();
+
+    // Don't reveal whether the email exists or is already verified
+    if (users.length === 0 || users[0].email_verified || !users[0].is_active) {
+      return { success: true };
+    }
+
+    const user = users[0];
+
+    const recentTokens = await db.select()
+      .from(emailVerificationTokensTable)
+      .where(and(
+        eq(emailVerificationTokensTable.user_id, user.id),
+        gte(emailVerificationTokensTable.created_at, new Date(Date.now() - 60 * 60 * 1000))
+      ))
+      .orderBy(desc(emailVerificationTokensTable.created_at))
+      .execute();
+
+    const lastSentAt = recentTokens[0]?.created_at;
+    if (recentTokens.length >= VERIFICATION_MAX_PER_HOUR ||
+        (lastSentAt && Date.now() - lastSentAt.getTime() < VERIFICATION_RESEND_COOLDOWN_MS)) {
+      throw new Error('Too many verification emails requested, please try again later');
+    }
+
+    await sendVerificationEmail(user);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Resend verification email failed:', error);
+    throw error;
+  }
+}
+
 export async function forgotPassword(email: string): Promise<{ success: boolean }> {
   try {
     // Check if user exists
@@ -168,15 +547,22 @@ export async function forgotPassword(email: string): Promise<{ success: boolean
       return { success: true };
     }
 
-    // Generate reset token
+    // Generate reset token; only its hash is persisted
     const resetToken = crypto.randomBytes(32).toString('hex');
-    const expires = new Date(Date.now() + 60 * 60 * 1000); // 1 hour from now
 
-    // Store token (in production, use Redis or database)
-    resetTokenStore.set(resetToken, { email, expires });
+    await db.insert(passwordResetTokensTable)
+      .values({
+        user_id: user.id,
+        token_hash: hashToken(resetToken),
+        expires_at: new Date(Date.now() + PASSWORD_RESET_TTL_MS)
+      })
+      .execute();
 
-    // In a real implementation, you would send an email here
-    console.log(`Password reset token for ${email}: ${resetToken}`);
+    await sendMail({
+      to: email,
+      subject: 'Reset your password',
+      text: `Hi ${user.first_name},\n\nReset your password by opening this link:\n${APP_URL}/?resetToken=${resetToken}\n\nThe link expires in 1 hour. If you did not request a reset, you can ignore this email.`
+    });
 
     return { success: true };
   } catch (error) {
@@ -187,31 +573,46 @@ export async function forgotPassword(email: string): Promise<{ success: boolean
 
 export async function resetPassword(token: string, newPassword: string): Promise<{ success: boolean }> {
   try {
-    // Validate token
-    const tokenData = resetTokenStore.get(token);
-    if (!tokenData) {
-      throw new Error('Invalid or expired reset token');
-    }
+    // Consume the token atomically so concurrent requests can't both use it
+    const consumed = await db.update(passwordResetTokensTable)
+      .set({ used_at: new Date() })
+      .where(and(
+        eq(passwordResetTokensTable.token_hash, hashToken(token)),
+        isNull(passwordResetTokensTable.used_at),
+        gt(passwordResetTokensTable.expires_at, new Date())
+      ))
+      .returning()
+      .execute();
 
-    if (new Date() > tokenData.expires) {
-      resetTokenStore.delete(token);
+    if (consumed.length === 0) {
       throw new Error('Invalid or expired reset token');
     }
 
+    const userId = consumed[0].user_id;
+
     // Hash new password
     const passwordHash = await hashPassword(newPassword);
 
     // Update user password
-    const result = await db.update(usersTable)
+    await db.update(usersTable)
       .set({
         password_hash: passwordHash,
         updated_at: new Date()
       })
-      .where(eq(usersTable.email, tokenData.email))
+      .where(eq(usersTable.id, userId))
       .execute();
 
-    // Remove used token
-    resetTokenStore.delete(token);
+    // Any other outstanding reset links for this user are no longer valid
+    await db.update(passwordResetTokensTable)
+      .set({ used_at: new Date() })
+      .where(and(
+        eq(passwordResetTokensTable.user_id, userId),
+        isNull(passwordResetTokensTable.used_at)
+      ))
+      .execute();
+
+    // Sign the user out everywhere in case the old password was compromised
+    await revokeUserSessions(userId);
 
     return { success: true };
   } catch (error) {
@@ -220,5 +621,111 @@ export async function resetPassword(token: string, newPassword: string): Promise
   }
 }
 
-// Export the reset token store for testing
-export { resetTokenStore };
\ No newline at end of file
+export async function changePassword(userId: number, sessionId: number | null, currentPassword: string, newPassword: string): Promise<{ success: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const user = users[0];
+
+    if (!(await verifyPassword(currentPassword, user.password_hash))) {
+      throw new Error('Current password is incorrect');
+    }
+
+    await db.update(usersTable)
+      .set({
+        password_hash: await hashPassword(newPassword),
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    // Outstanding reset links were issued for the old password
+    await db.update(passwordResetTokensTable)
+      .set({ used_at: new Date() })
+      .where(and(
+        eq(passwordResetTokensTable.user_id, userId),
+        isNull(passwordResetTokensTable.used_at)
+      ))
+      .execute();
+
+    // Keep the device making the change signed in, sign out everywhere else
+    await revokeUserSessions(userId, sessionId);
+
+    await sendMail({
+      to: user.email,
+      subject: 'Your password was changed',
+      text: `Hi ${user.first_name},\n\nThe password for your account was just changed and your other devices were signed out. If this wasn't you, reset your password immediately:\n${APP_URL}/`
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password change failed:', error);
+    throw error;
+  }
+}
+
+export async function changeEmail(userId: number, newEmail: string, password: string): Promise<{ success: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const user = users[0];
+
+    if (!(await verifyPassword(password, user.password_hash))) {
+      throw new Error('Password is incorrect');
+    }
+
+    if (newEmail.toLowerCase() === user.email.toLowerCase()) {
+      throw new Error('New email is the same as the current email');
+    }
+
+    const taken = await db.select()
+      .from(usersTable)
+      .where(eq(sql`lower(${usersTable.email})`, newEmail.toLowerCase()))
+      .execute();
+
+    if (taken.length > 0) {
+      throw new Error('Email already registered');
+    }
+
+    // Only the most recent change request can be confirmed
+    await db.update(emailVerificationTokensTable)
+      .set({ used_at: new Date() })
+      .where(and(
+        eq(emailVerificationTokensTable.user_id, userId),
+        isNotNull(emailVerificationTokensTable.new_email),
+        isNull(emailVerificationTokensTable.used_at)
+      ))
+      .execute();
+
+    // The address doesn't change until the link sent to it is opened
+    await sendVerificationEmail(user, newEmail);
+
+    await sendMail({
+      to: user.email,
+      subject: 'Email change requested',
+      text: `Hi ${user.first_name},\n\nWe received a request to change your account email to ${newEmail}. The change takes effect once the new address is confirmed. If this wasn't you, change your password immediately.`
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Email change failed:', error);
+    throw error;
+  }
+}
+
+// Export JWT helpers for testing
+export { createJWT, verifyJWT };
\ No newline at end of file
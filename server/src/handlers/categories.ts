@@ -0,0 +1,232 @@
+import { db } from '../db';
+import { categoriesTable, coursesTable } from '../db/schema';
+import {
+  type Category,
+  type CategoryWithCount,
+  type CategoryLanding,
+  type CreateCategoryInput
+} from '../schema';
+import { assertPermission } from './permissions';
+import { eq, and, isNotNull, count, asc } from 'drizzle-orm';
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+// The category itself followed by everything nested below it
+function collectDescendantIds(categoryId: number, categories: Category[]): number[] {
+  const ids = [categoryId];
+  for (let i = 0; i < ids.length; i++) {
+    for (const category of categories) {
+      if (category.parent_id === ids[i]) {
+        ids.push(category.id);
+      }
+    }
+  }
+  return ids;
+}
+
+async function getCategoriesWithCounts(): Promise<CategoryWithCount[]> {
+  const categories = await db.select()
+    .from(categoriesTable)
+    .orderBy(asc(categoriesTable.name))
+    .execute();
+
+  const counts = await db.select({
+    category_id: coursesTable.category_id,
+    course_count: count()
+  })
+    .from(coursesTable)
+    .where(and(
+      eq(coursesTable.is_published, true),
+      isNotNull(coursesTable.category_id)
+    ))
+    .groupBy(coursesTable.category_id)
+    .execute();
+
+  const directCounts = new Map(counts.map(row => [row.category_id, row.course_count]));
+
+  // Roll subcategory courses up into their parents
+  return categories.map(category => ({
+    ...category,
+    course_count: collectDescendantIds(category.id, categories)
+      .reduce((total, id) => total + (directCounts.get(id) ?? 0), 0)
+  }));
+}
+
+export async function getCategoryDescendantIds(categoryId: number): Promise<number[]> {
+  const categories = await db.select().from(categoriesTable).execute();
+  return collectDescendantIds(categoryId, categories);
+}
+
+export async function getCategories(): Promise<CategoryWithCount[]> {
+  try {
+    return await getCategoriesWithCounts();
+  } catch (error) {
+    console.error('Failed to fetch categories:', error);
+    throw error;
+  }
+}
+
+export async function getCategoryLanding(slug: string): Promise<CategoryLanding> {
+  try {
+    const categories = await getCategoriesWithCounts();
+    const category = categories.find(c => c.slug === slug);
+
+    if (!category) {
+      throw new Error('Category not found');
+    }
+
+    const ancestors: Category[] = [];
+    let parentId = category.parent_id;
+    while (parentId !== null) {
+      const parent = categories.find(c => c.id === parentId);
+      if (!parent) break;
+      const { course_count, ...ancestor } = parent;
+      ancestors.unshift(ancestor);
+      parentId = parent.parent_id;
+    }
+
+    return {
+      category,
+      ancestors,
+      subcategories: categories.filter(c => c.parent_id === category.id)
+    };
+  } catch (error) {
+    console.error('Failed to fetch category landing:', error);
+    throw error;
+  }
+}
+
+async function assertParentExists(parentId: number): Promise<void> {
+  const parents = await db.select()
+    .from(categoriesTable)
+    .where(eq(categoriesTable.id, parentId))
+    .execute();
+
+  if (parents.length === 0) {
+    throw new Error('Parent category not found');
+  }
+}
+
+async function assertSlugAvailable(slug: string, exceptId: number | null = null): Promise<void> {
+  if (!slug) {
+    throw new Error('Category name must contain letters or numbers');
+  }
+
+  const existing = await db.select()
+    .from(categoriesTable)
+    .where(eq(categoriesTable.slug, slug))
+    .execute();
+
+  if (existing.length > 0 && existing[0].id !== exceptId) {
+    throw new Error('A category with this name already exists');
+  }
+}
+
+export async function createCategory(input: CreateCategoryInput, adminId: number): Promise<Category> {
+  try {
+    await assertPermission(adminId, 'categories.manage');
+
+    const slug = slugify(input.name);
+    await assertSlugAvailable(slug);
+
+    const parentId = input.parent_id ?? null;
+    if (parentId !== null) {
+      await assertParentExists(parentId);
+    }
+
+    const result = await db.insert(categoriesTable)
+      .values({
+        name: input.name,
+        slug,
+        description: input.description ?? null,
+        parent_id: parentId
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Category creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updateCategory(categoryId: number, updates: Partial<CreateCategoryInput>, adminId: number): Promise<Category> {
+  try {
+    await assertPermission(adminId, 'categories.manage');
+
+    const categories = await db.select().from(categoriesTable).execute();
+    if (!categories.some(c => c.id === categoryId)) {
+      throw new Error('Category not found');
+    }
+
+    const updateValues: Partial<typeof categoriesTable.$inferInsert> = {};
+
+    if (updates.name !== undefined) {
+      updateValues.name = updates.name;
+      updateValues.slug = slugify(updates.name);
+      await assertSlugAvailable(updateValues.slug, categoryId);
+    }
+    if (updates.description !== undefined) {
+      updateValues.description = updates.description;
+    }
+    if (updates.parent_id !== undefined) {
+      if (updates.parent_id !== null) {
+        await assertParentExists(updates.parent_id);
+
+        // Moving a category under itself or one of its own subcategories would create a loop
+        if (collectDescendantIds(categoryId, categories).includes(updates.parent_id)) {
+          throw new Error('A category cannot be moved under itself');
+        }
+      }
+      updateValues.parent_id = updates.parent_id;
+    }
+
+    if (Object.keys(updateValues).length === 0) {
+      return categories.find(c => c.id === categoryId)!;
+    }
+
+    const result = await db.update(categoriesTable)
+      .set(updateValues)
+      .where(eq(categoriesTable.id, categoryId))
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Category update failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteCategory(categoryId: number, adminId: number): Promise<{ success: boolean }> {
+  try {
+    await assertPermission(adminId, 'categories.manage');
+
+    const children = await db.select()
+      .from(categoriesTable)
+      .where(eq(categoriesTable.parent_id, categoryId))
+      .execute();
+
+    if (children.length > 0) {
+      throw new Error('Move or delete the subcategories first');
+    }
+
+    // Courses in the category become uncategorized (ON DELETE SET NULL)
+    const result = await db.delete(categoriesTable)
+      .where(eq(categoriesTable.id, categoryId))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Category not found');
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Category deletion failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,366 @@
+import { db } from '../db';
+import { lessonsTable, quizzesTable, quizQuestionsTable } from '../db/schema';
+import {
+  type ContentPackageFormat,
+  type ContentImportResult,
+  type ImportContentPackageInput,
+  type SnapshotLesson,
+  type SnapshotQuiz,
+  type SnapshotQuestion,
+  type UnsupportedItem
+} from '../schema';
+import { assertCourseCapability } from './courseStaff';
+import { copyLinkedMedia, discardMediaFiles } from './media';
+import { assertNoOpenDraft, getLatestCourseSnapshot, updateCourseDraft } from './revisions';
+import { openZip, type ZipArchive } from '../zip';
+import { parseXml, childElements, firstChild, descendants, attribute, textContent, decodeEntities, type XmlElement } from '../xml';
+
+// Common Cartridge assessments have no passing score, so imported quizzes use this one
+const DEFAULT_PASSING_SCORE = 70;
+const WORDS_PER_MINUTE = 200;
+
+const QTI_ASSESSMENT_TYPE = /^imsqti_xmlv1p2\/imscc_xmlv1p\d\/assessment$/;
+const WEB_LINK_TYPE = /^imswl_xmlv1p\d$/;
+const DISCUSSION_TYPE = /^imsdt_xmlv1p\d$/;
+const VIDEO_HOSTS = /^https?:\/\/(www\.)?(youtube\.com|youtu\.be|vimeo\.com)\//i;
+
+interface ManifestResource {
+  type: string;
+  href: string | null; // Resolved path of the entry file inside the zip
+  scormType: string | null;
+}
+
+// Resolves an href from the manifest against the resource's xml:base to a path in the zip
+function resolvePath(base: string, href: string): string {
+  const segments: string[] = [];
+  for (const segment of `${base}${decodeURIComponent(href)}`.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.' && segment !== '') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+// Turns HTML into readable lesson text, keeping paragraph and list structure as line breaks
+function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|h[1-6]|ul|ol|tr|table|blockquote|section|article)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t ]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function estimateMinutes(text: string): number {
+  const words = text.split(/\s+/).filter(word => word.length > 0).length;
+  return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE));
+}
+
+function readText(files: ZipArchive, path: string | null): string | null {
+  if (path === null) return null;
+  const file = files.read(path);
+  return file ? file.toString('utf8') : null;
+}
+
+function detectFormat(manifest: XmlElement, resources: ManifestResource[]): ContentPackageFormat {
+  const metadata = firstChild(manifest, 'metadata');
+  const metadataText = (name: string) => {
+    const element = metadata ? firstChild(metadata, name) : undefined;
+    return element ? textContent(element).trim() : '';
+  };
+  const schema = metadataText('schema');
+  const version = metadataText('schemaversion');
+
+  if (/common cartridge/i.test(schema)) {
+    return 'common_cartridge';
+  }
+  if (/2004|CAM 1\.3/i.test(version)) {
+    throw new Error('SCORM 2004 packages are not supported; export the content as SCORM 1.2');
+  }
+  if (/scorm/i.test(schema) || resources.some(resource => resource.scormType !== null)) {
+    return 'scorm_1_2';
+  }
+  if (resources.some(resource => /^(imsdt|imswl|imsqti|imsbasiclti)_|imscc_/.test(resource.type))) {
+    return 'common_cartridge';
+  }
+  throw new Error('This package is neither SCORM 1.2 nor IMS Common Cartridge');
+}
+
+// Reads the questions of a QTI 1.2 assessment. Multiple choice, true/false and fill-in-the-blank
+// questions are converted; other question types are reported back.
+function convertAssessment(xml: string, title: string, unsupported: UnsupportedItem[]): SnapshotQuiz | null {
+  const document = parseXml(xml);
+  const assessment = descendants(document, 'assessment')[0];
+  if (!assessment) {
+    unsupported.push({ title, reason: 'The assessment file has no QTI assessment' });
+    return null;
+  }
+
+  const metadata = (element: XmlElement, label: string): string | null => {
+    const field = descendants(element, 'qtimetadatafield')
+      .find(candidate => textContent(firstChild(candidate, 'fieldlabel') ?? candidate).trim() === label);
+    const entry = field ? firstChild(field, 'fieldentry') : undefined;
+    return entry ? textContent(entry).trim() : null;
+  };
+
+  const questions: SnapshotQuestion[] = [];
+  for (const item of descendants(assessment, 'item')) {
+    const itemTitle = attribute(item, 'title') ?? `Question ${questions.length + 1}`;
+    const presentation = firstChild(item, 'presentation');
+    const material = presentation ? firstChild(presentation, 'material') : undefined;
+    const questionText = material ? htmlToText(descendants(material, 'mattext').map(textContent).join('\n')) : '';
+
+    // The responses that score points are the correct ones
+    const correct = descendants(item, 'respcondition')
+      .filter(condition => descendants(condition, 'setvar').some(setvar => parseFloat(textContent(setvar)) > 0))
+      .flatMap(condition => descendants(condition, 'varequal').map(value => textContent(value).trim()));
+
+    const labels = presentation ? descendants(presentation, 'response_label') : [];
+    const labelText = (ident: string) => {
+      const label = labels.find(candidate => attribute(candidate, 'ident') === ident);
+      return label ? htmlToText(descendants(label, 'mattext').map(textContent).join(' ')) : null;
+    };
+
+    const profile = metadata(item, 'cc_profile')
+      ?? (presentation && firstChild(presentation, 'response_str') ? 'cc.fib.v0p1' : null)
+      ?? (presentation && descendants(presentation, 'response_lid').some(lid => attribute(lid, 'rcardinality') !== 'Multiple') ? 'cc.multiple_choice.v0p1' : 'unknown');
+
+    const report = (reason: string) => unsupported.push({ title: `${title}: ${itemTitle}`, reason });
+    if (questionText === '') {
+      report('The question has no text');
+      continue;
+    }
+
+    const base = { id: null, question_text: questionText, points: 1, order_index: questions.length + 1 };
+    if (profile === 'cc.multiple_choice.v0p1' || profile === 'cc.true_false.v0p1') {
+      const options = labels.map(label => labelText(attribute(label, 'ident') ?? '') ?? '');
+      const answer = correct.length === 1 ? labelText(correct[0]) : null;
+      if (answer === null || options.length < 2) {
+        report('The correct answer could not be determined');
+        continue;
+      }
+
+      const isTrueFalse = options.length === 2 && options.every(option => /^(true|false)$/i.test(option));
+      questions.push(isTrueFalse
+        ? { ...base, question_type: 'true_false', options: null, correct_answer: answer.toLowerCase() }
+        : { ...base, question_type: 'multiple_choice', options, correct_answer: answer });
+    } else if (profile === 'cc.fib.v0p1') {
+      if (correct.length === 0) {
+        report('The correct answer could not be determined');
+        continue;
+      }
+      questions.push({ ...base, question_type: 'short_answer', options: null, correct_answer: correct[0] });
+    } else {
+      report(`${profile} questions are not supported`);
+    }
+  }
+
+  if (questions.length === 0) {
+    unsupported.push({ title, reason: 'The assessment has no questions that can be converted' });
+    return null;
+  }
+
+  const timeLimit = parseInt(metadata(assessment, 'qmd_timelimit') ?? '', 10);
+  const maxAttempts = parseInt(metadata(assessment, 'cc_maxattempts') ?? '', 10);
+  return {
+    id: null,
+    title: attribute(assessment, 'title') ?? title,
+    description: null,
+    passing_score: DEFAULT_PASSING_SCORE,
+    time_limit_minutes: Number.isNaN(timeLimit) ? null : timeLimit,
+    max_attempts: Number.isNaN(maxAttempts) ? null : maxAttempts,
+    is_active: true,
+    questions
+  };
+}
+
+// Converts one organization item into a lesson, or reports why it can't be
+function convertItem(title: string, resource: ManifestResource, files: ZipArchive, unsupported: UnsupportedItem[]): Omit<SnapshotLesson, 'order_index'> | null {
+  const lesson = { id: null, title, description: null, video_url: null, content: null, blocks: [], duration_minutes: 1, is_published: false, quizzes: [] };
+
+  if (resource.type === 'webcontent' || resource.scormType !== null) {
+    if (resource.href === null || !/\.x?html?$/i.test(resource.href)) {
+      unsupported.push({ title, reason: `Only HTML pages can be converted to lesson text${resource.href ? ` (${resource.href})` : ''}` });
+      return null;
+    }
+    const html = readText(files, resource.href);
+    if (html === null) {
+      unsupported.push({ title, reason: `${resource.href} is missing from the package` });
+      return null;
+    }
+    const content = htmlToText(html);
+    if (content === '') {
+      unsupported.push({ title, reason: 'The page has no readable text' });
+      return null;
+    }
+    return { ...lesson, content, duration_minutes: estimateMinutes(content) };
+  }
+
+  if (![WEB_LINK_TYPE, DISCUSSION_TYPE, QTI_ASSESSMENT_TYPE].some(type => type.test(resource.type))) {
+    unsupported.push({ title, reason: `Resources of type ${resource.type} are not supported` });
+    return null;
+  }
+
+  const xml = readText(files, resource.href);
+  if (xml === null) {
+    unsupported.push({ title, reason: `${resource.href ?? 'The resource file'} is missing from the package` });
+    return null;
+  }
+
+  if (WEB_LINK_TYPE.test(resource.type)) {
+    const link = descendants(parseXml(xml), 'url')[0];
+    const url = link ? attribute(link, 'href') : undefined;
+    if (!url) {
+      unsupported.push({ title, reason: 'The web link has no URL' });
+      return null;
+    }
+    return VIDEO_HOSTS.test(url) ? { ...lesson, video_url: url } : { ...lesson, content: url };
+  }
+
+  if (DISCUSSION_TYPE.test(resource.type)) {
+    const text = descendants(parseXml(xml), 'text')[0];
+    const content = text ? htmlToText(textContent(text)) : '';
+    return { ...lesson, description: 'Discussion topic', content: content || null, duration_minutes: estimateMinutes(content) };
+  }
+
+  const quiz = convertAssessment(xml, title, unsupported);
+  return quiz ? { ...lesson, description: 'Assessment', duration_minutes: quiz.questions.length, quizzes: [quiz] } : null;
+}
+
+function parsePackage(data: string): { format: ContentPackageFormat; lessons: Omit<SnapshotLesson, 'order_index'>[]; unsupported: UnsupportedItem[] } {
+  let files: ZipArchive;
+  try {
+    files = openZip(Buffer.from(data, 'base64'));
+  } catch {
+    throw new Error('The package is not a valid ZIP file');
+  }
+
+  const manifestPath = files.names.find(path => path.toLowerCase() === 'imsmanifest.xml');
+  if (!manifestPath) {
+    throw new Error('The package has no imsmanifest.xml');
+  }
+  const manifest = parseXml(files.read(manifestPath)!.toString('utf8'));
+
+  const resourcesElement = firstChild(manifest, 'resources');
+  const resourcesBase = resourcesElement ? attribute(resourcesElement, 'base') ?? '' : '';
+  const resources = new Map<string, ManifestResource>();
+  for (const element of resourcesElement ? childElements(resourcesElement, 'resource') : []) {
+    const base = resolvePath('', `${resourcesBase}${attribute(element, 'base') ?? ''}`);
+    const href = attribute(element, 'href') ?? attribute(firstChild(element, 'file') ?? element, 'href') ?? null;
+    resources.set(attribute(element, 'identifier') ?? '', {
+      type: attribute(element, 'type') ?? '',
+      href: href === null ? null : resolvePath(base === '' ? '' : `${base}/`, href),
+      scormType: attribute(element, 'scormtype') ?? null
+    });
+  }
+
+  const format = detectFormat(manifest, [...resources.values()]);
+
+  const organizations = firstChild(manifest, 'organizations');
+  const allOrganizations = organizations ? childElements(organizations, 'organization') : [];
+  const defaultId = organizations ? attribute(organizations, 'default') : undefined;
+  const organization = allOrganizations.find(candidate => attribute(candidate, 'identifier') === defaultId) ?? allOrganizations[0];
+
+  const lessons: Omit<SnapshotLesson, 'order_index'>[] = [];
+  const unsupported: UnsupportedItem[] = [];
+
+  // Items in manifest order become lessons; items without a resource only group others
+  const visit = (item: XmlElement) => {
+    if (attribute(item, 'isvisible') === 'false') return;
+
+    const titleElement = firstChild(item, 'title');
+    const title = (titleElement ? textContent(titleElement).trim() : '') || 'Untitled';
+    const resourceId = attribute(item, 'identifierref');
+    if (resourceId !== undefined) {
+      const resource = resources.get(resourceId);
+      if (!resource) {
+        unsupported.push({ title, reason: `The manifest has no resource ${resourceId}` });
+      } else {
+        const lesson = convertItem(title, resource, files, unsupported);
+        if (lesson) lessons.push(lesson);
+      }
+    }
+    childElements(item, 'item').forEach(visit);
+  };
+  if (organization) {
+    childElements(organization, 'item').forEach(visit);
+  }
+
+  if (lessons.length === 0 && unsupported.length === 0) {
+    throw new Error('The package has no content items');
+  }
+
+  return { format, lessons, unsupported };
+}
+
+// Appends the package's items to the course as lessons after its existing ones. Published courses
+// get them in their draft, like any other content change.
+export async function importContentPackage(input: ImportContentPackageInput, instructorId: number): Promise<ContentImportResult> {
+  const copiedFiles: string[] = [];
+  try {
+    const course = await assertCourseCapability(input.courseId, instructorId, 'edit_content', 'import content into this course');
+    const { format, lessons, unsupported } = parsePackage(input.data);
+
+    const existing = await getLatestCourseSnapshot(input.courseId);
+    const firstIndex = existing.lessons.reduce((highest, lesson) => Math.max(highest, lesson.order_index), 0) + 1;
+    const ordered: SnapshotLesson[] = lessons.map((lesson, index) => ({ ...lesson, order_index: firstIndex + index }));
+
+    if (!input.dry_run) {
+      if (course.is_published) {
+        // The copies are kept if saving the draft fails; they show up in the instructor's files
+        await db.transaction(tx => copyLinkedMedia(tx, ordered, input.courseId, instructorId));
+        await updateCourseDraft(input.courseId, instructorId, snapshot => {
+          snapshot.lessons.push(...ordered);
+        });
+      } else {
+        await assertNoOpenDraft(input.courseId);
+        await db.transaction(async (tx) => {
+          copiedFiles.push(...await copyLinkedMedia(tx, ordered, input.courseId, instructorId));
+          for (const { id: _lessonId, quizzes, ...lesson } of ordered) {
+            const lessonRow = await tx.insert(lessonsTable)
+              .values({ ...lesson, course_id: input.courseId })
+              .returning()
+              .execute();
+
+            for (const { id: _quizId, questions, ...quiz } of quizzes) {
+              const quizRow = await tx.insert(quizzesTable)
+                .values({ ...quiz, lesson_id: lessonRow[0].id })
+                .returning()
+                .execute();
+
+              if (questions.length > 0) {
+                await tx.insert(quizQuestionsTable)
+                  .values(questions.map(({ id: _questionId, ...question }) => ({ ...question, quiz_id: quizRow[0].id })))
+                  .execute();
+              }
+            }
+          }
+        });
+      }
+    }
+
+    return {
+      format,
+      dry_run: input.dry_run,
+      lessons: ordered.map(lesson => ({
+        title: lesson.title,
+        order_index: lesson.order_index,
+        question_count: lesson.quizzes.reduce((total, quiz) => total + quiz.questions.length, 0)
+      })),
+      unsupported
+    };
+  } catch (error) {
+    await discardMediaFiles(copiedFiles);
+    console.error('Content package import failed:', error);
+    throw error;
+  }
+}
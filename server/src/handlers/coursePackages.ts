@@ -0,0 +1,249 @@
+import { db } from '../db';
+import { coursesTable, categoriesTable, lessonsTable, quizzesTable, quizQuestionsTable } from '../db/schema';
+import {
+  coursePackageSchema,
+  type CoursePackage,
+  type CoursePackageFile,
+  type CoursePackageFormat,
+  type CourseImportResult,
+  type ImportConflict,
+  type ImportCoursePackageInput
+} from '../schema';
+import { assertCourseCapability } from './courseStaff';
+import { copyLinkedMedia, discardMediaFiles } from './media';
+import { getLiveCourseSnapshot } from './revisions';
+import { createZip, openZip } from '../zip';
+import { eq, and } from 'drizzle-orm';
+
+// Newest package version this server reads and the one it writes
+const PACKAGE_VERSION = 1;
+const PACKAGE_ENTRY_NAME = 'course.json';
+
+function packageFileName(title: string, format: CoursePackageFormat): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'course';
+  return `${slug}.course.${format}`;
+}
+
+// Exports the published content, which is what students of the course currently see
+export async function exportCoursePackage(courseId: number, format: CoursePackageFormat, userId: number): Promise<CoursePackageFile> {
+  try {
+    const course = await assertCourseCapability(courseId, userId, 'edit_content', 'export this course');
+    const snapshot = await getLiveCourseSnapshot(courseId);
+
+    let categorySlug: string | null = null;
+    if (course.category_id !== null) {
+      const categories = await db.select()
+        .from(categoriesTable)
+        .where(eq(categoriesTable.id, course.category_id))
+        .execute();
+      categorySlug = categories[0]?.slug ?? null;
+    }
+
+    const { category_id: _categoryId, ...details } = snapshot.course;
+    // Live content always has ids; only draft content can be without one
+    const coursePackage: CoursePackage = {
+      format: 'course-package',
+      version: PACKAGE_VERSION,
+      exported_at: new Date(),
+      course: { ...details, category_slug: categorySlug },
+      lessons: snapshot.lessons.map(lesson => ({
+        ...lesson,
+        id: lesson.id as number,
+        quizzes: lesson.quizzes.map(quiz => ({
+          ...quiz,
+          id: quiz.id as number,
+          questions: quiz.questions.map(question => ({ ...question, id: question.id as number }))
+        }))
+      }))
+    };
+
+    const json = Buffer.from(JSON.stringify(coursePackage, null, 2), 'utf8');
+    return format === 'zip'
+      ? {
+        file_name: packageFileName(course.title, 'zip'),
+        mime_type: 'application/zip',
+        data: createZip([{ name: PACKAGE_ENTRY_NAME, data: json }]).toString('base64')
+      }
+      : {
+        file_name: packageFileName(course.title, 'json'),
+        mime_type: 'application/json',
+        data: json.toString('base64')
+      };
+  } catch (error) {
+    console.error('Course export failed:', error);
+    throw error;
+  }
+}
+
+// Reads and validates a JSON package or a ZIP archive holding one
+function parseCoursePackage(data: string): CoursePackage {
+  const buffer = Buffer.from(data, 'base64');
+
+  let text: string;
+  if (buffer.subarray(0, 4).toString('latin1') === 'PK\u0003\u0004') {
+    const entry = openZip(buffer).read(PACKAGE_ENTRY_NAME);
+    if (!entry) {
+      throw new Error(`The ZIP package has no ${PACKAGE_ENTRY_NAME}`);
+    }
+    text = entry.toString('utf8');
+  } else {
+    text = buffer.toString('utf8');
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The package is not valid JSON');
+  }
+
+  const header = raw as { format?: unknown; version?: unknown } | null;
+  if (header === null || typeof header !== 'object' || header.format !== 'course-package') {
+    throw new Error('This file is not a course package');
+  }
+  if (typeof header.version === 'number' && header.version > PACKAGE_VERSION) {
+    throw new Error(`Package version ${header.version} is newer than this server supports (${PACKAGE_VERSION})`);
+  }
+
+  const parsed = coursePackageSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .slice(0, 5)
+      .map(issue => `${issue.path.join('.') || 'package'}: ${issue.message}`);
+    throw new Error(`Invalid course package: ${issues.join('; ')}`);
+  }
+
+  const coursePackage = parsed.data;
+  const checkUnique = (kind: string, ids: number[]) => {
+    const seen = new Set<number>();
+    for (const id of ids) {
+      if (seen.has(id)) {
+        throw new Error(`Invalid course package: ${kind} ${id} appears more than once`);
+      }
+      seen.add(id);
+    }
+  };
+  const quizzes = coursePackage.lessons.flatMap(lesson => lesson.quizzes);
+  checkUnique('lesson', coursePackage.lessons.map(lesson => lesson.id));
+  checkUnique('quiz', quizzes.map(quiz => quiz.id));
+  checkUnique('question', quizzes.flatMap(quiz => quiz.questions.map(question => question.id)));
+
+  return coursePackage;
+}
+
+// Creates an unpublished course from a package. Conflicts don't stop the import: a title the
+// instructor already uses gets a suffix and an unknown category is left empty.
+export async function importCoursePackage(input: ImportCoursePackageInput, instructorId: number): Promise<CourseImportResult> {
+  const copiedFiles: string[] = [];
+  try {
+    const coursePackage = parseCoursePackage(input.data);
+    const conflicts: ImportConflict[] = [];
+
+    let categoryId: number | null = null;
+    if (coursePackage.course.category_slug !== null) {
+      const categories = await db.select()
+        .from(categoriesTable)
+        .where(eq(categoriesTable.slug, coursePackage.course.category_slug))
+        .execute();
+      if (categories.length) {
+        categoryId = categories[0].id;
+      } else {
+        conflicts.push({
+          type: 'category_not_found',
+          message: `Category "${coursePackage.course.category_slug}" doesn't exist here; the course will be uncategorized`
+        });
+      }
+    }
+
+    const titleTaken = async (title: string) => {
+      const courses = await db.select()
+        .from(coursesTable)
+        .where(and(eq(coursesTable.instructor_id, instructorId), eq(coursesTable.title, title)))
+        .execute();
+      return courses.length > 0;
+    };
+
+    let title = coursePackage.course.title;
+    if (await titleTaken(title)) {
+      let suffix = 1;
+      do {
+        title = `${coursePackage.course.title} (Imported${suffix > 1 ? ` ${suffix}` : ''})`;
+        suffix++;
+      } while (await titleTaken(title));
+      conflicts.push({
+        type: 'title_exists',
+        message: `You already have a course named "${coursePackage.course.title}"; it will be imported as "${title}"`
+      });
+    }
+
+    const quizzes = coursePackage.lessons.flatMap(lesson => lesson.quizzes);
+    if (input.dry_run) {
+      return {
+        dry_run: true,
+        course: null,
+        title,
+        lessons: coursePackage.lessons.map(lesson => ({ source_id: lesson.id, id: null })),
+        quizzes: quizzes.map(quiz => ({ source_id: quiz.id, id: null })),
+        questions: quizzes.flatMap(quiz => quiz.questions.map(question => ({ source_id: question.id, id: null }))),
+        conflicts
+      };
+    }
+
+    const { category_slug: _categorySlug, ...details } = coursePackage.course;
+    return await db.transaction(async (tx) => {
+      const result: CourseImportResult = { dry_run: false, course: null, title, lessons: [], quizzes: [], questions: [], conflicts };
+
+      const created = await tx.insert(coursesTable)
+        .values({
+          ...details,
+          title,
+          price: details.price.toString(),
+          duration_hours: details.duration_hours.toString(),
+          category_id: categoryId,
+          instructor_id: instructorId,
+          is_published: false
+        })
+        .returning()
+        .execute();
+      const course = created[0];
+
+      // Packages exported from this server link to the source course's files
+      copiedFiles.push(...await copyLinkedMedia(tx, coursePackage.lessons, course.id, instructorId));
+
+      for (const { id: lessonSourceId, quizzes, ...lesson } of coursePackage.lessons) {
+        const lessonRow = await tx.insert(lessonsTable)
+          .values({ ...lesson, course_id: course.id })
+          .returning()
+          .execute();
+        result.lessons.push({ source_id: lessonSourceId, id: lessonRow[0].id });
+
+        for (const { id: quizSourceId, questions, ...quiz } of quizzes) {
+          const quizRow = await tx.insert(quizzesTable)
+            .values({ ...quiz, lesson_id: lessonRow[0].id })
+            .returning()
+            .execute();
+          result.quizzes.push({ source_id: quizSourceId, id: quizRow[0].id });
+
+          for (const { id: questionSourceId, ...question } of questions) {
+            const questionRow = await tx.insert(quizQuestionsTable)
+              .values({ ...question, quiz_id: quizRow[0].id })
+              .returning()
+              .execute();
+            result.questions.push({ source_id: questionSourceId, id: questionRow[0].id });
+          }
+        }
+      }
+
+      result.course = {
+        ...course,
+        price: parseFloat(course.price), // Convert string back to number
+        duration_hours: parseFloat(course.duration_hours) // Convert string back to number
+      };
+      return result;
+    });
+  } catch (error) {
+    await discardMediaFiles(copiedFiles);
+    console.error('Course import failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,408 @@
+import { db, type Transaction } from '../db';
+import { courseRunsTable, courseRunWaitlistTable, coursesTable, enrollmentsTable, usersTable } from '../db/schema';
+import {
+  type CourseRun,
+  type CourseRunRoster,
+  type CreateCourseRunInput,
+  type UpdateCourseRunInput
+} from '../schema';
+import { assertCourseCapability } from './courseStaff';
+import { assertPrerequisitesMet } from './prerequisites';
+import { assertEnrollmentOpen } from './courseSchedule';
+import { createNotification } from './messages';
+import { eq, and, asc, count, inArray } from 'drizzle-orm';
+
+type CourseRunRow = typeof courseRunsTable.$inferSelect;
+type Executor = typeof db | Transaction;
+
+async function findRun(courseRunId: number): Promise<CourseRunRow> {
+  const runs = await db.select()
+    .from(courseRunsTable)
+    .where(eq(courseRunsTable.id, courseRunId))
+    .execute();
+
+  if (!runs.length) {
+    throw new Error('Cohort not found');
+  }
+
+  return runs[0];
+}
+
+async function countEnrolled(executor: Executor, courseRunId: number): Promise<number> {
+  const result = await executor.select({ total: count() })
+    .from(enrollmentsTable)
+    .where(eq(enrollmentsTable.course_run_id, courseRunId))
+    .execute();
+  return result[0].total;
+}
+
+function hasEnded(run: CourseRunRow, now: Date = new Date()): boolean {
+  return run.ends_at !== null && run.ends_at <= now;
+}
+
+async function toCourseRun(run: CourseRunRow, viewerId: number | null): Promise<CourseRun> {
+  const waitlist = await db.select()
+    .from(courseRunWaitlistTable)
+    .where(eq(courseRunWaitlistTable.course_run_id, run.id))
+    .orderBy(asc(courseRunWaitlistTable.created_at), asc(courseRunWaitlistTable.id))
+    .execute();
+
+  const position = viewerId === null ? -1 : waitlist.findIndex(entry => entry.student_id === viewerId);
+  return {
+    ...run,
+    enrolled_count: await countEnrolled(db, run.id),
+    waitlist_count: waitlist.length,
+    waitlist_position: position === -1 ? null : position + 1
+  };
+}
+
+function assertDatesInOrder(startsAt: Date, endsAt: Date | null): void {
+  if (endsAt !== null && endsAt <= startsAt) {
+    throw new Error('A cohort must end after it starts');
+  }
+}
+
+export async function getCourseRuns(courseId: number, viewerId: number | null): Promise<CourseRun[]> {
+  try {
+    const runs = await db.select()
+      .from(courseRunsTable)
+      .where(eq(courseRunsTable.course_id, courseId))
+      .orderBy(asc(courseRunsTable.starts_at), asc(courseRunsTable.id))
+      .execute();
+
+    return Promise.all(runs.map(run => toCourseRun(run, viewerId)));
+  } catch (error) {
+    console.error('Failed to fetch cohorts:', error);
+    throw error;
+  }
+}
+
+export async function createCourseRun(input: CreateCourseRunInput, userId: number): Promise<CourseRun> {
+  try {
+    await assertCourseCapability(input.courseId, userId, 'publish', 'manage cohorts of this course');
+    assertDatesInOrder(input.starts_at, input.ends_at);
+
+    const result = await db.insert(courseRunsTable)
+      .values({
+        course_id: input.courseId,
+        name: input.name,
+        starts_at: input.starts_at,
+        ends_at: input.ends_at,
+        capacity: input.capacity
+      })
+      .returning()
+      .execute();
+
+    return toCourseRun(result[0], null);
+  } catch (error) {
+    console.error('Cohort creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updateCourseRun(input: UpdateCourseRunInput, userId: number): Promise<CourseRun> {
+  try {
+    const run = await findRun(input.courseRunId);
+    await assertCourseCapability(run.course_id, userId, 'publish', 'manage cohorts of this course');
+
+    const startsAt = input.starts_at ?? run.starts_at;
+    const endsAt = input.ends_at !== undefined ? input.ends_at : run.ends_at;
+    assertDatesInOrder(startsAt, endsAt);
+
+    if (input.capacity !== undefined && input.capacity !== null) {
+      const enrolled = await countEnrolled(db, run.id);
+      if (input.capacity < enrolled) {
+        throw new Error(`${enrolled} students are already enrolled in this cohort`);
+      }
+    }
+
+    const updateValues: Partial<typeof courseRunsTable.$inferInsert> = { updated_at: new Date() };
+    if (input.name !== undefined) updateValues.name = input.name;
+    if (input.starts_at !== undefined) updateValues.starts_at = input.starts_at;
+    if (input.ends_at !== undefined) updateValues.ends_at = input.ends_at;
+    if (input.capacity !== undefined) updateValues.capacity = input.capacity;
+
+    await db.update(courseRunsTable)
+      .set(updateValues)
+      .where(eq(courseRunsTable.id, run.id))
+      .execute();
+
+    // Added seats go to the waitlist first
+    await promoteFromWaitlist(run.id);
+
+    return toCourseRun(await findRun(run.id), null);
+  } catch (error) {
+    console.error('Cohort update failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteCourseRun(courseRunId: number, userId: number): Promise<{ success: boolean }> {
+  try {
+    const run = await findRun(courseRunId);
+    await assertCourseCapability(run.course_id, userId, 'publish', 'manage cohorts of this course');
+
+    if (await countEnrolled(db, run.id) > 0) {
+      throw new Error('Students are enrolled in this cohort, so it can\'t be deleted');
+    }
+
+    await db.delete(courseRunsTable)
+      .where(eq(courseRunsTable.id, run.id))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Cohort deletion failed:', error);
+    throw error;
+  }
+}
+
+export async function getCourseRunRoster(courseRunId: number, userId: number): Promise<CourseRunRoster> {
+  try {
+    const run = await findRun(courseRunId);
+    await assertCourseCapability(run.course_id, userId, 'view_roster', 'view this cohort\'s roster');
+
+    const students = await db.select({
+      enrollment: enrollmentsTable,
+      first_name: usersTable.first_name,
+      last_name: usersTable.last_name,
+      email: usersTable.email
+    })
+      .from(enrollmentsTable)
+      .innerJoin(usersTable, eq(enrollmentsTable.student_id, usersTable.id))
+      .where(eq(enrollmentsTable.course_run_id, run.id))
+      .orderBy(asc(usersTable.last_name), asc(usersTable.first_name))
+      .execute();
+
+    const waitlist = await db.select({
+      entry: courseRunWaitlistTable,
+      first_name: usersTable.first_name,
+      last_name: usersTable.last_name,
+      email: usersTable.email
+    })
+      .from(courseRunWaitlistTable)
+      .innerJoin(usersTable, eq(courseRunWaitlistTable.student_id, usersTable.id))
+      .where(eq(courseRunWaitlistTable.course_run_id, run.id))
+      .orderBy(asc(courseRunWaitlistTable.created_at), asc(courseRunWaitlistTable.id))
+      .execute();
+
+    return {
+      run: await toCourseRun(run, null),
+      students: students.map(row => ({
+        student_id: row.enrollment.student_id,
+        name: `${row.first_name} ${row.last_name}`,
+        email: row.email,
+        enrollment_date: row.enrollment.enrollment_date,
+        progress_percentage: row.enrollment.progress_percentage,
+        is_completed: row.enrollment.is_completed
+      })),
+      waitlist: waitlist.map((row, index) => ({
+        student_id: row.entry.student_id,
+        name: `${row.first_name} ${row.last_name}`,
+        email: row.email,
+        position: index + 1,
+        joined_at: row.entry.created_at
+      }))
+    };
+  } catch (error) {
+    console.error('Failed to fetch cohort roster:', error);
+    throw error;
+  }
+}
+
+// Only full cohorts have a waitlist; students get a seat by enrolling while there is one
+export async function joinCourseRunWaitlist(courseRunId: number, studentId: number): Promise<CourseRun> {
+  try {
+    const run = await findRun(courseRunId);
+
+    const courses = await db.select()
+      .from(coursesTable)
+      .where(eq(coursesTable.id, run.course_id))
+      .execute();
+    assertEnrollmentOpen(courses[0]);
+
+    if (hasEnded(run)) {
+      throw new Error('This cohort has ended');
+    }
+
+    const enrollments = await db.select()
+      .from(enrollmentsTable)
+      .where(and(eq(enrollmentsTable.student_id, studentId), eq(enrollmentsTable.course_id, run.course_id)))
+      .execute();
+    if (enrollments.length > 0) {
+      throw new Error('Student already enrolled in this course');
+    }
+
+    if (run.capacity === null || await countEnrolled(db, run.id) < run.capacity) {
+      throw new Error('This cohort has free seats; enroll instead');
+    }
+
+    // Required prerequisites would block the enrollment once a seat frees up
+    await assertPrerequisitesMet(run.course_id, studentId, true);
+
+    await db.insert(courseRunWaitlistTable)
+      .values({ course_run_id: run.id, student_id: studentId })
+      .onConflictDoNothing()
+      .execute();
+
+    return toCourseRun(run, studentId);
+  } catch (error) {
+    console.error('Failed to join waitlist:', error);
+    throw error;
+  }
+}
+
+export async function leaveCourseRunWaitlist(courseRunId: number, studentId: number): Promise<{ success: boolean }> {
+  try {
+    const result = await db.delete(courseRunWaitlistTable)
+      .where(and(
+        eq(courseRunWaitlistTable.course_run_id, courseRunId),
+        eq(courseRunWaitlistTable.student_id, studentId)
+      ))
+      .returning()
+      .execute();
+
+    if (!result.length) {
+      throw new Error('You are not on this cohort\'s waitlist');
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to leave waitlist:', error);
+    throw error;
+  }
+}
+
+// Picks the cohort an enrollment joins and locks it, so concurrent enrollments can't overfill it.
+// Returns null for courses without cohorts.
+export async function reserveCourseRunSeat(tx: Transaction, courseId: number, courseRunId: number | undefined): Promise<number | null> {
+  const runs = await tx.select()
+    .from(courseRunsTable)
+    .where(eq(courseRunsTable.course_id, courseId))
+    .execute();
+
+  if (runs.length === 0 && courseRunId === undefined) {
+    return null;
+  }
+  if (courseRunId === undefined) {
+    throw new Error('Choose a cohort to enroll in this course');
+  }
+
+  const locked = await tx.select()
+    .from(courseRunsTable)
+    .where(and(eq(courseRunsTable.id, courseRunId), eq(courseRunsTable.course_id, courseId)))
+    .for('update')
+    .execute();
+
+  if (!locked.length) {
+    throw new Error('Cohort not found');
+  }
+
+  const run = locked[0];
+  if (hasEnded(run)) {
+    throw new Error('This cohort has ended');
+  }
+  if (run.capacity !== null && await countEnrolled(tx, run.id) >= run.capacity) {
+    throw new Error('This cohort is full; join its waitlist to be enrolled when a seat frees up');
+  }
+
+  return run.id;
+}
+
+// A student who enrolls no longer needs a place on the course's other waitlists
+export async function removeFromCourseWaitlists(executor: Executor, courseId: number, studentId: number): Promise<void> {
+  const runIds = executor.select({ id: courseRunsTable.id })
+    .from(courseRunsTable)
+    .where(eq(courseRunsTable.course_id, courseId));
+
+  await executor.delete(courseRunWaitlistTable)
+    .where(and(
+      eq(courseRunWaitlistTable.student_id, studentId),
+      inArray(courseRunWaitlistTable.course_run_id, runIds)
+    ))
+    .execute();
+}
+
+// Enrolls waitlisted students, first come first served, into the cohort's free seats and lets
+// them know. Returns the ids of the students who got a seat.
+export async function promoteFromWaitlist(courseRunId: number): Promise<number[]> {
+  const promoted = await db.transaction(async (tx) => {
+    const locked = await tx.select()
+      .from(courseRunsTable)
+      .where(eq(courseRunsTable.id, courseRunId))
+      .for('update')
+      .execute();
+
+    if (!locked.length || hasEnded(locked[0])) {
+      return [];
+    }
+
+    const run = locked[0];
+    // A course in the trash takes no new students; its waitlist is kept in case it is restored
+    const courses = await tx.select({ deleted_at: coursesTable.deleted_at })
+      .from(coursesTable)
+      .where(eq(coursesTable.id, run.course_id))
+      .execute();
+    if (!courses.length || courses[0].deleted_at !== null) {
+      return [];
+    }
+
+    const waiting = await tx.select()
+      .from(courseRunWaitlistTable)
+      .where(eq(courseRunWaitlistTable.course_run_id, run.id))
+      .orderBy(asc(courseRunWaitlistTable.created_at), asc(courseRunWaitlistTable.id))
+      .execute();
+
+    let freeSeats = run.capacity === null ? waiting.length : run.capacity - await countEnrolled(tx, run.id);
+    const studentIds: number[] = [];
+    for (const entry of waiting) {
+      if (freeSeats <= 0) break;
+
+      await tx.delete(courseRunWaitlistTable)
+        .where(eq(courseRunWaitlistTable.id, entry.id))
+        .execute();
+
+      // Students who got into the course another way meanwhile just leave the waitlist
+      const existing = await tx.select()
+        .from(enrollmentsTable)
+        .where(and(eq(enrollmentsTable.student_id, entry.student_id), eq(enrollmentsTable.course_id, run.course_id)))
+        .execute();
+      if (existing.length > 0) continue;
+
+      await tx.insert(enrollmentsTable)
+        .values({
+          student_id: entry.student_id,
+          course_id: run.course_id,
+          course_run_id: run.id,
+          progress_percentage: 0,
+          is_completed: false
+        })
+        .execute();
+      await removeFromCourseWaitlists(tx, run.course_id, entry.student_id);
+
+      studentIds.push(entry.student_id);
+      freeSeats--;
+    }
+
+    return studentIds;
+  });
+
+  if (promoted.length > 0) {
+    const run = await findRun(courseRunId);
+    const courses = await db.select()
+      .from(coursesTable)
+      .where(eq(coursesTable.id, run.course_id))
+      .execute();
+
+    for (const studentId of promoted) {
+      await createNotification({
+        user_id: studentId,
+        type: 'course_update',
+        title: 'You have a seat',
+        message: `A seat opened in ${run.name} of "${courses[0].title}" and you are now enrolled.`
+      });
+    }
+  }
+
+  return promoted;
+}
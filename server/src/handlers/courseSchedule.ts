@@ -0,0 +1,113 @@
+import { db } from '../db';
+import { coursesTable } from '../db/schema';
+import { type Course, type UpdateCourseScheduleInput } from '../schema';
+import { assertCourseCapability } from './courseStaff';
+import { publishCourseRevision } from './revisions';
+import { eq, and, lte, inArray, isNotNull } from 'drizzle-orm';
+
+type CourseRow = typeof coursesTable.$inferSelect;
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function isSameTime(a: Date | null, b: Date | null): boolean {
+  return (a === null ? null : a.getTime()) === (b === null ? null : b.getTime());
+}
+
+export async function updateCourseSchedule(input: UpdateCourseScheduleInput, userId: number): Promise<Course> {
+  try {
+    const course = await assertCourseCapability(input.courseId, userId, 'publish', 'schedule this course');
+    const now = new Date();
+
+    // An unchanged publish time may already be past when the course is waiting for approval
+    if (input.publish_at !== null && !isSameTime(input.publish_at, course.publish_at)) {
+      if (course.is_published) {
+        throw new Error('This course is already published');
+      }
+      if (input.publish_at <= now) {
+        throw new Error('The publish time must be in the future');
+      }
+    }
+
+    const { enrollment_opens_at: opens, enrollment_closes_at: closes, ends_at: ends } = input;
+    if (opens && closes && closes <= opens) {
+      throw new Error('Enrollment must close after it opens');
+    }
+    if (ends && opens && ends <= opens) {
+      throw new Error('The course must end after enrollment opens');
+    }
+    if (ends && closes && closes > ends) {
+      throw new Error('Enrollment must close before the course ends');
+    }
+
+    const result = await db.update(coursesTable)
+      .set({
+        publish_at: input.publish_at,
+        enrollment_opens_at: opens,
+        enrollment_closes_at: closes,
+        ends_at: ends,
+        updated_at: now
+      })
+      .where(eq(coursesTable.id, input.courseId))
+      .returning()
+      .execute();
+
+    const updated = result[0];
+    return {
+      ...updated,
+      price: parseFloat(updated.price), // Convert string back to number
+      duration_hours: parseFloat(updated.duration_hours) // Convert string back to number
+    };
+  } catch (error) {
+    console.error('Course schedule update failed:', error);
+    throw error;
+  }
+}
+
+// Publishes courses whose scheduled time has passed, as their owner. Courses still waiting for
+// moderation are skipped and go live on the first run after they are approved.
+export async function publishScheduledCourses(now: Date = new Date()): Promise<number[]> {
+  const due = await db.select()
+    .from(coursesTable)
+    .where(and(
+      isNotNull(coursesTable.publish_at),
+      lte(coursesTable.publish_at, now),
+      eq(coursesTable.is_published, false),
+      inArray(coursesTable.moderation_status, ['approved', 'published'])
+    ))
+    .execute();
+
+  const published: number[] = [];
+  for (const course of due) {
+    try {
+      await publishCourseRevision(course.id, course.instructor_id);
+      published.push(course.id);
+    } catch (error) {
+      console.error(`Scheduled publishing of course ${course.id} failed:`, error);
+    }
+  }
+
+  return published;
+}
+
+export function assertEnrollmentOpen(course: CourseRow, now: Date = new Date()): void {
+  if (course.enrollment_opens_at !== null && course.enrollment_opens_at > now) {
+    throw new Error(`Enrollment opens on ${formatDate(course.enrollment_opens_at)}`);
+  }
+  if ((course.enrollment_closes_at !== null && course.enrollment_closes_at <= now) || (course.ends_at !== null && course.ends_at <= now)) {
+    throw new Error('Enrollment for this course is closed');
+  }
+}
+
+// Students keep access to an ended course but can no longer progress in it
+export async function assertCourseNotEnded(courseId: number, now: Date = new Date()): Promise<void> {
+  const courses = await db.select()
+    .from(coursesTable)
+    .where(eq(coursesTable.id, courseId))
+    .execute();
+
+  if (courses.length && courses[0].ends_at !== null && courses[0].ends_at <= now) {
+    throw new Error('This course has ended and is read-only');
+  }
+}
@@ -0,0 +1,448 @@
+import { db } from '../db';
+import { courseStaffTable, coursesTable, usersTable, enrollmentsTable, messagesTable } from '../db/schema';
+import {
+  type CourseStaffRole,
+  type CourseCapability,
+  type CourseStaffMember,
+  type CourseMembership,
+  type StaffInvitation,
+  type InviteCourseStaffInput,
+  type UpdateCourseStaffInput,
+  type MessageCourseStudentsInput
+} from '../schema';
+import { createNotification } from './messages';
+import { eq, and, asc, ne } from 'drizzle-orm';
+
+// What each staff role may do on its course. Only the owner manages staff or deletes the course,
+// and teaching assistants can't change course content or pricing or answer reviews publicly.
+export const COURSE_STAFF_CAPABILITIES: Record<CourseStaffRole, CourseCapability[]> = {
+  owner: ['edit_content', 'edit_pricing', 'publish', 'delete', 'manage_staff', 'grade', 'message', 'view_roster', 'reply_to_reviews'],
+  co_instructor: ['edit_content', 'edit_pricing', 'publish', 'grade', 'message', 'view_roster', 'reply_to_reviews'],
+  teaching_assistant: ['grade', 'message', 'view_roster']
+};
+
+type CourseRow = typeof coursesTable.$inferSelect;
+
+function toStaffMember(row: {
+  staff: typeof courseStaffTable.$inferSelect;
+  first_name: string;
+  last_name: string;
+  email: string;
+}): CourseStaffMember {
+  return {
+    id: row.staff.id,
+    course_id: row.staff.course_id,
+    user_id: row.staff.user_id,
+    name: `${row.first_name} ${row.last_name}`,
+    email: row.email,
+    role: row.staff.role,
+    status: row.staff.status,
+    revenue_share_percent: parseFloat(row.staff.revenue_share_percent),
+    invited_at: row.staff.invited_at,
+    accepted_at: row.staff.accepted_at
+  };
+}
+
+async function findCourse(courseId: number): Promise<CourseRow> {
+  const courses = await db.select()
+    .from(coursesTable)
+    .where(eq(coursesTable.id, courseId))
+    .execute();
+
+  if (!courses.length) {
+    throw new Error('Course not found');
+  }
+
+  return courses[0];
+}
+
+async function findStaffRow(courseId: number, userId: number) {
+  const rows = await db.select()
+    .from(courseStaffTable)
+    .where(and(eq(courseStaffTable.course_id, courseId), eq(courseStaffTable.user_id, userId)))
+    .execute();
+
+  return rows[0] ?? null;
+}
+
+// Revenue shares promised to co-instructors, including pending invitations, must leave the owner something
+async function assertShareAvailable(courseId: number, share: number, exceptUserId: number | null = null): Promise<void> {
+  const rows = await db.select()
+    .from(courseStaffTable)
+    .where(and(
+      eq(courseStaffTable.course_id, courseId),
+      exceptUserId === null ? undefined : ne(courseStaffTable.user_id, exceptUserId)
+    ))
+    .execute();
+
+  const allocated = rows.reduce((total, row) => total + parseFloat(row.revenue_share_percent), 0);
+  if (allocated + share > 100) {
+    throw new Error(`Only ${100 - allocated}% of this course's revenue is left to share`);
+  }
+}
+
+export async function getCourseRole(courseId: number, userId: number): Promise<CourseStaffRole | null> {
+  const course = await db.select()
+    .from(coursesTable)
+    .where(eq(coursesTable.id, courseId))
+    .execute();
+
+  if (course.length === 0) {
+    return null;
+  }
+  if (course[0].instructor_id === userId) {
+    return 'owner';
+  }
+
+  const staff = await findStaffRow(courseId, userId);
+  return staff && staff.status === 'active' ? staff.role : null;
+}
+
+export async function hasCourseCapability(courseId: number, userId: number, capability: CourseCapability): Promise<boolean> {
+  const role = await getCourseRole(courseId, userId);
+  return role !== null && COURSE_STAFF_CAPABILITIES[role].includes(capability);
+}
+
+// Loads the course and checks the user's staff role allows the action, e.g. 'update this course'
+export async function assertCourseCapability(courseId: number, userId: number, capability: CourseCapability, action: string): Promise<CourseRow> {
+  const course = await findCourse(courseId);
+
+  // A course in the trash can only be restored
+  if (course.deleted_at !== null) {
+    throw new Error('Course not found');
+  }
+
+  if (!(await hasCourseCapability(courseId, userId, capability))) {
+    throw new Error(`You do not have permission to ${action}`);
+  }
+
+  return course;
+}
+
+// The owner's share is whatever active co-instructors don't take
+export async function getRevenueSplits(courseId: number): Promise<{ userId: number; name: string; role: CourseStaffRole; percent: number }[]> {
+  const course = await findCourse(courseId);
+
+  const owner = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, course.instructor_id))
+    .execute();
+
+  const coInstructors = await db.select({
+    staff: courseStaffTable,
+    first_name: usersTable.first_name,
+    last_name: usersTable.last_name,
+    email: usersTable.email
+  })
+    .from(courseStaffTable)
+    .innerJoin(usersTable, eq(courseStaffTable.user_id, usersTable.id))
+    .where(and(
+      eq(courseStaffTable.course_id, courseId),
+      eq(courseStaffTable.status, 'active'),
+      eq(courseStaffTable.role, 'co_instructor')
+    ))
+    .orderBy(asc(courseStaffTable.id))
+    .execute();
+
+  const shares = coInstructors
+    .map(toStaffMember)
+    .filter(member => member.revenue_share_percent > 0)
+    .map(member => ({ userId: member.user_id, name: member.name, role: member.role, percent: member.revenue_share_percent }));
+
+  return [
+    {
+      userId: course.instructor_id,
+      name: `${owner[0].first_name} ${owner[0].last_name}`,
+      role: 'owner' as const,
+      percent: 100 - shares.reduce((total, share) => total + share.percent, 0)
+    },
+    ...shares
+  ];
+}
+
+// Visible to everyone on the course's staff, including pending invitees
+export async function getCourseStaff(courseId: number, userId: number): Promise<CourseStaffMember[]> {
+  try {
+    const course = await findCourse(courseId);
+
+    const rows = await db.select({
+      staff: courseStaffTable,
+      first_name: usersTable.first_name,
+      last_name: usersTable.last_name,
+      email: usersTable.email
+    })
+      .from(courseStaffTable)
+      .innerJoin(usersTable, eq(courseStaffTable.user_id, usersTable.id))
+      .where(eq(courseStaffTable.course_id, courseId))
+      .orderBy(asc(courseStaffTable.id))
+      .execute();
+
+    if (course.instructor_id !== userId && !rows.some(row => row.staff.user_id === userId)) {
+      throw new Error('You do not have permission to view this course\'s staff');
+    }
+
+    const owner = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, course.instructor_id))
+      .execute();
+
+    const staff = rows.map(toStaffMember);
+    const shared = staff
+      .filter(member => member.status === 'active' && member.role === 'co_instructor')
+      .reduce((total, member) => total + member.revenue_share_percent, 0);
+
+    return [
+      {
+        id: null,
+        course_id: courseId,
+        user_id: course.instructor_id,
+        name: `${owner[0].first_name} ${owner[0].last_name}`,
+        email: owner[0].email,
+        role: 'owner',
+        status: 'active',
+        revenue_share_percent: 100 - shared,
+        invited_at: null,
+        accepted_at: null
+      },
+      ...staff
+    ];
+  } catch (error) {
+    console.error('Failed to fetch course staff:', error);
+    throw error;
+  }
+}
+
+export async function inviteCourseStaff(input: InviteCourseStaffInput, ownerId: number): Promise<CourseStaffMember> {
+  try {
+    const course = await assertCourseCapability(input.courseId, ownerId, 'manage_staff', 'manage this course\'s staff');
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    if (users.length === 0 || !users[0].is_active) {
+      throw new Error('No active user with this email');
+    }
+
+    const invitee = users[0];
+    if (invitee.role === 'student') {
+      throw new Error('Only instructors can join a course\'s staff');
+    }
+    if (invitee.id === course.instructor_id || await findStaffRow(course.id, invitee.id)) {
+      throw new Error('This user is already on the course staff');
+    }
+
+    const share = input.role === 'co_instructor' ? input.revenue_share_percent : 0;
+    await assertShareAvailable(course.id, share);
+
+    const result = await db.insert(courseStaffTable)
+      .values({
+        course_id: course.id,
+        user_id: invitee.id,
+        role: input.role,
+        revenue_share_percent: share.toString(),
+        invited_by: ownerId
+      })
+      .returning()
+      .execute();
+
+    await createNotification({
+      user_id: invitee.id,
+      type: 'course_update',
+      title: 'Course staff invitation',
+      message: `You've been invited to join "${course.title}" as a ${input.role === 'co_instructor' ? 'co-instructor' : 'teaching assistant'}.`
+    });
+
+    return toStaffMember({
+      staff: result[0],
+      first_name: invitee.first_name,
+      last_name: invitee.last_name,
+      email: invitee.email
+    });
+  } catch (error) {
+    console.error('Failed to invite course staff:', error);
+    throw error;
+  }
+}
+
+export async function respondToStaffInvitation(courseId: number, accept: boolean, userId: number): Promise<{ success: boolean }> {
+  try {
+    const course = await findCourse(courseId);
+    const invitation = await findStaffRow(courseId, userId);
+
+    if (!invitation || invitation.status !== 'pending') {
+      throw new Error('Invitation not found');
+    }
+
+    if (accept) {
+      await db.update(courseStaffTable)
+        .set({ status: 'active', accepted_at: new Date() })
+        .where(eq(courseStaffTable.id, invitation.id))
+        .execute();
+    } else {
+      await db.delete(courseStaffTable)
+        .where(eq(courseStaffTable.id, invitation.id))
+        .execute();
+    }
+
+    const invitee = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    await createNotification({
+      user_id: course.instructor_id,
+      type: 'course_update',
+      title: accept ? 'Staff invitation accepted' : 'Staff invitation declined',
+      message: `${invitee[0].first_name} ${invitee[0].last_name} ${accept ? 'joined' : 'declined to join'} the staff of "${course.title}".`
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to respond to staff invitation:', error);
+    throw error;
+  }
+}
+
+export async function updateCourseStaff(input: UpdateCourseStaffInput, ownerId: number): Promise<CourseStaffMember> {
+  try {
+    await assertCourseCapability(input.courseId, ownerId, 'manage_staff', 'manage this course\'s staff');
+
+    const existing = await findStaffRow(input.courseId, input.userId);
+    if (!existing) {
+      throw new Error('Staff member not found');
+    }
+
+    const role = input.role ?? existing.role;
+    const share = role === 'co_instructor'
+      ? input.revenue_share_percent ?? parseFloat(existing.revenue_share_percent)
+      : 0;
+    await assertShareAvailable(input.courseId, share, input.userId);
+
+    await db.update(courseStaffTable)
+      .set({ role, revenue_share_percent: share.toString() })
+      .where(eq(courseStaffTable.id, existing.id))
+      .execute();
+
+    const staff = await getCourseStaff(input.courseId, ownerId);
+    return staff.find(member => member.user_id === input.userId)!;
+  } catch (error) {
+    console.error('Failed to update course staff:', error);
+    throw error;
+  }
+}
+
+// Owners remove staff; staff members can also remove themselves
+export async function removeCourseStaff(courseId: number, userId: number, actorId: number): Promise<{ success: boolean }> {
+  try {
+    if (actorId !== userId) {
+      await assertCourseCapability(courseId, actorId, 'manage_staff', 'manage this course\'s staff');
+    }
+
+    const result = await db.delete(courseStaffTable)
+      .where(and(eq(courseStaffTable.course_id, courseId), eq(courseStaffTable.user_id, userId)))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Staff member not found');
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to remove course staff:', error);
+    throw error;
+  }
+}
+
+export async function getMyStaffInvitations(userId: number): Promise<StaffInvitation[]> {
+  try {
+    const results = await db.select({
+      staff: courseStaffTable,
+      course_title: coursesTable.title,
+      inviter_first_name: usersTable.first_name,
+      inviter_last_name: usersTable.last_name
+    })
+      .from(courseStaffTable)
+      .innerJoin(coursesTable, eq(courseStaffTable.course_id, coursesTable.id))
+      .leftJoin(usersTable, eq(courseStaffTable.invited_by, usersTable.id))
+      .where(and(eq(courseStaffTable.user_id, userId), eq(courseStaffTable.status, 'pending')))
+      .orderBy(asc(courseStaffTable.invited_at))
+      .execute();
+
+    return results.map(row => ({
+      course_id: row.staff.course_id,
+      course_title: row.course_title,
+      role: row.staff.role,
+      revenue_share_percent: parseFloat(row.staff.revenue_share_percent),
+      invited_by_name: row.inviter_first_name !== null ? `${row.inviter_first_name} ${row.inviter_last_name}` : null,
+      invited_at: row.staff.invited_at
+    }));
+  } catch (error) {
+    console.error('Failed to fetch staff invitations:', error);
+    throw error;
+  }
+}
+
+// The user's role and capabilities on every course they own or actively help run
+export async function getMyCourseMemberships(userId: number): Promise<CourseMembership[]> {
+  try {
+    const owned = await db.select({ id: coursesTable.id })
+      .from(coursesTable)
+      .where(eq(coursesTable.instructor_id, userId))
+      .execute();
+
+    const staffed = await db.select()
+      .from(courseStaffTable)
+      .where(and(eq(courseStaffTable.user_id, userId), eq(courseStaffTable.status, 'active')))
+      .execute();
+
+    return [
+      ...owned.map(course => ({ course_id: course.id, role: 'owner' as const })),
+      ...staffed.map(row => ({ course_id: row.course_id, role: row.role }))
+    ].map(membership => ({ ...membership, capabilities: COURSE_STAFF_CAPABILITIES[membership.role] }));
+  } catch (error) {
+    console.error('Failed to fetch course memberships:', error);
+    throw error;
+  }
+}
+
+// Sends the same message to every student enrolled in the course
+export async function messageCourseStudents(input: MessageCourseStudentsInput, senderId: number): Promise<{ sent: number }> {
+  try {
+    await assertCourseCapability(input.courseId, senderId, 'message', 'message this course\'s students');
+
+    const students = await db.select({ student_id: enrollmentsTable.student_id })
+      .from(enrollmentsTable)
+      .where(eq(enrollmentsTable.course_id, input.courseId))
+      .execute();
+
+    if (students.length === 0) {
+      return { sent: 0 };
+    }
+
+    await db.insert(messagesTable)
+      .values(students.map(({ student_id }) => ({
+        sender_id: senderId,
+        recipient_id: student_id,
+        subject: input.subject,
+        content: input.content
+      })))
+      .execute();
+
+    for (const { student_id } of students) {
+      await createNotification({
+        user_id: student_id,
+        type: 'message_received',
+        title: 'New Message',
+        message: `You have received a new message: ${input.subject}`
+      });
+    }
+
+    return { sent: students.length };
+  } catch (error) {
+    console.error('Failed to message course students:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,148 @@
+import { db } from '../db';
+import { courseTemplatesTable, usersTable } from '../db/schema';
+import {
+  courseSnapshotSchema,
+  type Course,
+  type CourseSnapshot,
+  type CourseTemplate,
+  type SaveCourseTemplateInput,
+  type CreateCourseFromTemplateInput
+} from '../schema';
+import { hasCourseCapability } from './courseStaff';
+import { getLatestCourseSnapshot, detachSnapshot, createCourseFromSnapshot } from './revisions';
+import { eq, or, asc } from 'drizzle-orm';
+
+type TemplateRow = {
+  template: typeof courseTemplatesTable.$inferSelect;
+  first_name: string | null;
+  last_name: string | null;
+};
+
+function toCourseTemplate({ template, first_name, last_name }: TemplateRow): CourseTemplate {
+  const snapshot = courseSnapshotSchema.parse(template.snapshot);
+  return {
+    id: template.id,
+    title: template.title,
+    description: template.description,
+    source_course_id: template.source_course_id,
+    created_by: template.created_by,
+    creator_name: first_name !== null ? `${first_name} ${last_name}` : null,
+    is_shared: template.is_shared,
+    lesson_count: snapshot.lessons.length,
+    quiz_count: snapshot.lessons.reduce((total, lesson) => total + lesson.quizzes.length, 0),
+    created_at: template.created_at,
+    updated_at: template.updated_at
+  };
+}
+
+async function findTemplate(templateId: number): Promise<TemplateRow> {
+  const results = await db.select({
+    template: courseTemplatesTable,
+    first_name: usersTable.first_name,
+    last_name: usersTable.last_name
+  })
+    .from(courseTemplatesTable)
+    .leftJoin(usersTable, eq(courseTemplatesTable.created_by, usersTable.id))
+    .where(eq(courseTemplatesTable.id, templateId))
+    .execute();
+
+  if (!results.length) {
+    throw new Error('Template not found');
+  }
+
+  return results[0];
+}
+
+export async function saveCourseAsTemplate(input: SaveCourseTemplateInput, instructorId: number): Promise<CourseTemplate> {
+  try {
+    if (!(await hasCourseCapability(input.courseId, instructorId, 'edit_content'))) {
+      throw new Error('You do not have permission to save this course as a template');
+    }
+
+    const snapshot = detachSnapshot(await getLatestCourseSnapshot(input.courseId));
+
+    const result = await db.insert(courseTemplatesTable)
+      .values({
+        title: input.title,
+        description: input.description ?? null,
+        snapshot,
+        source_course_id: input.courseId,
+        created_by: instructorId,
+        is_shared: input.is_shared
+      })
+      .returning()
+      .execute();
+
+    return toCourseTemplate(await findTemplate(result[0].id));
+  } catch (error) {
+    console.error('Failed to save course template:', error);
+    throw error;
+  }
+}
+
+// The instructor's own templates followed by those other instructors have shared
+export async function getCourseTemplates(instructorId: number): Promise<CourseTemplate[]> {
+  try {
+    const results = await db.select({
+      template: courseTemplatesTable,
+      first_name: usersTable.first_name,
+      last_name: usersTable.last_name
+    })
+      .from(courseTemplatesTable)
+      .leftJoin(usersTable, eq(courseTemplatesTable.created_by, usersTable.id))
+      .where(or(eq(courseTemplatesTable.created_by, instructorId), eq(courseTemplatesTable.is_shared, true)))
+      .orderBy(asc(courseTemplatesTable.title), asc(courseTemplatesTable.id))
+      .execute();
+
+    const templates = results.map(toCourseTemplate);
+    return [
+      ...templates.filter(template => template.created_by === instructorId),
+      ...templates.filter(template => template.created_by !== instructorId)
+    ];
+  } catch (error) {
+    console.error('Failed to fetch course templates:', error);
+    throw error;
+  }
+}
+
+export async function createCourseFromTemplate(input: CreateCourseFromTemplateInput, instructorId: number): Promise<Course> {
+  try {
+    const { template } = await findTemplate(input.templateId);
+    if (!template.is_shared && template.created_by !== instructorId) {
+      throw new Error('Template not found');
+    }
+
+    const snapshot: CourseSnapshot = courseSnapshotSchema.parse(template.snapshot);
+    if (input.title !== undefined) {
+      snapshot.course.title = input.title;
+    }
+
+    const course = await createCourseFromSnapshot(snapshot, instructorId);
+    return {
+      ...course,
+      price: parseFloat(course.price), // Convert string back to number
+      duration_hours: parseFloat(course.duration_hours) // Convert string back to number
+    };
+  } catch (error) {
+    console.error('Failed to create course from template:', error);
+    throw error;
+  }
+}
+
+export async function deleteCourseTemplate(templateId: number, instructorId: number): Promise<{ success: boolean }> {
+  try {
+    const { template } = await findTemplate(templateId);
+    if (template.created_by !== instructorId) {
+      throw new Error('You do not have permission to delete this template');
+    }
+
+    await db.delete(courseTemplatesTable)
+      .where(eq(courseTemplatesTable.id, templateId))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to delete course template:', error);
+    throw error;
+  }
+}
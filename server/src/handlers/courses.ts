@@ -1,7 +1,34 @@
 import { db } from '../db';
-import { coursesTable, usersTable, lessonsTable, quizzesTable } from '../db/schema';
-import { type CreateCourseInput, type Course } from '../schema';
-import { eq, and, SQL } from 'drizzle-orm';
+import { coursesTable, usersTable, quizzesTable, enrollmentsTable, categoriesTable, courseStaffTable } from '../db/schema';
+import { 
+  type CreateCourseInput, 
+  type Course, 
+  type CourseSort, 
+  type SearchCoursesInput, 
+  type CourseSearchResult, 
+  type CourseSnapshot, 
+  type DuplicateCourseInput 
+} from '../schema';
+import { getCategoryDescendantIds } from './categories';
+import { publishCourseRevision, updateCourseDraft, getLatestCourseSnapshot, createCourseFromSnapshot } from './revisions';
+import { hasCourseCapability } from './courseStaff';
+import { eq, and, or, asc, gte, lte, inArray, arrayOverlaps, isNull, sql, SQL } from 'drizzle-orm';
+
+// Tags are free-form but stored lowercased and without duplicates so they match reliably
+function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(tag => tag.length > 0))];
+}
+
+async function assertCategoryExists(categoryId: number): Promise<void> {
+  const categories = await db.select()
+    .from(categoriesTable)
+    .where(eq(categoriesTable.id, categoryId))
+    .execute();
+
+  if (!categories.length) {
+    throw new Error('Category not found');
+  }
+}
 
 export async function createCourse(input: CreateCourseInput, instructorId: number): Promise<Course> {
   try {
@@ -19,6 +46,10 @@ export async function createCourse(input: CreateCourseInput, instructorId: numbe
       throw new Error('User does not have permission to create courses');
     }
 
+    if (input.category_id) {
+      await assertCategoryExists(input.category_id);
+    }
+
     // Create course
     const result = await db.insert(coursesTable)
       .values({
@@ -28,7 +59,10 @@ export async function createCourse(input: CreateCourseInput, instructorId: numbe
         price: input.price.toString(), // Convert number to string for numeric column
         instructor_id: instructorId,
         is_published: false, // New courses start unpublished
-        duration_hours: input.duration_hours.toString() // Convert number to string for numeric column
+        duration_hours: input.duration_hours.toString(), // Convert number to string for numeric column
+        category_id: input.category_id ?? null,
+        level: input.level ?? null,
+        tags: normalizeTags(input.tags ?? [])
       })
       .returning()
       .execute();
@@ -45,6 +79,37 @@ export async function createCourse(input: CreateCourseInput, instructorId: numbe
   }
 }
 
+// Copies the course's latest content, including an open draft, into a new unpublished course
+export async function duplicateCourse(input: DuplicateCourseInput, instructorId: number): Promise<Course> {
+  try {
+    const existingCourse = await db.select()
+      .from(coursesTable)
+      .where(and(eq(coursesTable.id, input.courseId), isNull(coursesTable.deleted_at)))
+      .execute();
+
+    if (!existingCourse.length) {
+      throw new Error('Course not found');
+    }
+
+    if (!(await hasCourseCapability(input.courseId, instructorId, 'edit_content'))) {
+      throw new Error('You do not have permission to duplicate this course');
+    }
+
+    const snapshot = await getLatestCourseSnapshot(input.courseId);
+    snapshot.course.title = input.title ?? `${snapshot.course.title} (Copy)`;
+
+    const course = await createCourseFromSnapshot(snapshot, instructorId);
+    return {
+      ...course,
+      price: parseFloat(course.price), // Convert string back to number
+      duration_hours: parseFloat(course.duration_hours) // Convert string back to number
+    };
+  } catch (error) {
+    console.error('Course duplication failed:', error);
+    throw error;
+  }
+}
+
 export async function getCourses(): Promise<Course[]> {
   try {
     const result = await db.select()
@@ -63,11 +128,113 @@ export async function getCourses(): Promise<Course[]> {
   }
 }
 
+const enrollmentCount = sql<number>`(select count(*) from ${enrollmentsTable} where ${enrollmentsTable.course_id} = ${coursesTable.id})`;
+
+// Each sort orders by one key with the course id as tie-breaker, so pages can resume from (key, id)
+const COURSE_SORTS: Record<CourseSort, { key: SQL; type: 'timestamp' | 'numeric' | 'float8'; direction: 'asc' | 'desc' }> = {
+  newest: { key: sql`${coursesTable.created_at}`, type: 'timestamp', direction: 'desc' },
+  price_asc: { key: sql`${coursesTable.price}`, type: 'numeric', direction: 'asc' },
+  price_desc: { key: sql`${coursesTable.price}`, type: 'numeric', direction: 'desc' },
+  popularity: { key: enrollmentCount, type: 'numeric', direction: 'desc' },
+  rating: { key: sql`${coursesTable.rating_average}`, type: 'float8', direction: 'desc' }
+};
+
+function encodeCursor(value: string, id: number): string {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { value: string; id: number } {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof value === 'string' && Number.isInteger(id)) {
+      return { value, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid cursor');
+}
+
+export async function searchCourses(input: SearchCoursesInput): Promise<CourseSearchResult> {
+  try {
+    const sort = COURSE_SORTS[input.sort ?? 'newest'];
+    const limit = input.limit ?? 12;
+    const conditions: SQL<unknown>[] = [eq(coursesTable.is_published, true)];
+
+    if (input.query) {
+      conditions.push(sql`to_tsvector('english', ${coursesTable.title} || ' ' || ${coursesTable.description}) @@ websearch_to_tsquery('english', ${input.query})`);
+    }
+    if (input.minPrice !== undefined) {
+      conditions.push(gte(coursesTable.price, input.minPrice.toString()));
+    }
+    if (input.maxPrice !== undefined) {
+      conditions.push(lte(coursesTable.price, input.maxPrice.toString()));
+    }
+    if (input.minDuration !== undefined) {
+      conditions.push(gte(coursesTable.duration_hours, input.minDuration.toString()));
+    }
+    if (input.maxDuration !== undefined) {
+      conditions.push(lte(coursesTable.duration_hours, input.maxDuration.toString()));
+    }
+    if (input.instructorId !== undefined) {
+      conditions.push(eq(coursesTable.instructor_id, input.instructorId));
+    }
+    if (input.categoryId !== undefined) {
+      conditions.push(inArray(coursesTable.category_id, await getCategoryDescendantIds(input.categoryId)));
+    }
+    if (input.level !== undefined) {
+      conditions.push(eq(coursesTable.level, input.level));
+    }
+    if (input.tags && input.tags.length > 0) {
+      conditions.push(arrayOverlaps(coursesTable.tags, normalizeTags(input.tags)));
+    }
+    if (input.cursor) {
+      const cursor = decodeCursor(input.cursor);
+      const value = sql`cast(${cursor.value} as ${sql.raw(sort.type)})`;
+      conditions.push(sort.direction === 'asc'
+        ? sql`(${sort.key}, ${coursesTable.id}) > (${value}, ${cursor.id})`
+        : sql`(${sort.key}, ${coursesTable.id}) < (${value}, ${cursor.id})`);
+    }
+
+    const direction = sql.raw(sort.direction);
+    const results = await db.select({
+      course: coursesTable,
+      instructor_first_name: usersTable.first_name,
+      instructor_last_name: usersTable.last_name,
+      enrollment_count: enrollmentCount.mapWith(Number),
+      sort_value: sql<string>`${sort.key}::text`
+    })
+      .from(coursesTable)
+      .innerJoin(usersTable, eq(coursesTable.instructor_id, usersTable.id))
+      .where(and(...conditions))
+      .orderBy(sql`${sort.key} ${direction}`, sql`${coursesTable.id} ${direction}`)
+      .limit(limit + 1) // One extra row tells us whether there's another page
+      .execute();
+
+    const page = results.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      courses: page.map(result => ({
+        ...result.course,
+        price: parseFloat(result.course.price), // Convert string back to number
+        duration_hours: parseFloat(result.course.duration_hours), // Convert string back to number
+        instructor_name: `${result.instructor_first_name} ${result.instructor_last_name}`,
+        enrollment_count: result.enrollment_count
+      })),
+      nextCursor: results.length > limit ? encodeCursor(last.sort_value, last.course.id) : null
+    };
+  } catch (error) {
+    console.error('Course search failed:', error);
+    throw error;
+  }
+}
+
 export async function getCourseById(courseId: number): Promise<Course | null> {
   try {
     const result = await db.select()
       .from(coursesTable)
-      .where(eq(coursesTable.id, courseId))
+      .where(and(eq(coursesTable.id, courseId), isNull(coursesTable.deleted_at)))
       .execute();
 
     if (!result.length) {
@@ -98,9 +265,18 @@ export async function getInstructorCourses(instructorId: number): Promise<Course
       throw new Error('Instructor not found');
     }
 
+    // Includes courses the instructor helps run as active co-instructor or teaching assistant
+    const staffCourseIds = db.select({ course_id: courseStaffTable.course_id })
+      .from(courseStaffTable)
+      .where(and(eq(courseStaffTable.user_id, instructorId), eq(courseStaffTable.status, 'active')));
+
     const result = await db.select()
       .from(coursesTable)
-      .where(eq(coursesTable.instructor_id, instructorId))
+      .where(and(
+        or(eq(coursesTable.instructor_id, instructorId), inArray(coursesTable.id, staffCourseIds)),
+        isNull(coursesTable.deleted_at)
+      ))
+      .orderBy(asc(coursesTable.id))
       .execute();
 
     return result.map(course => ({
@@ -116,20 +292,44 @@ export async function getInstructorCourses(instructorId: number): Promise<Course
 
 export async function updateCourse(courseId: number, updates: Partial<CreateCourseInput>, instructorId: number): Promise<Course> {
   try {
-    // Verify course exists and instructor owns it
+    // Verify course exists and the instructor is on its staff with editing rights
     const existingCourse = await db.select()
       .from(coursesTable)
-      .where(eq(coursesTable.id, courseId))
+      .where(and(eq(coursesTable.id, courseId), isNull(coursesTable.deleted_at)))
       .execute();
 
     if (!existingCourse.length) {
       throw new Error('Course not found');
     }
 
-    if (existingCourse[0].instructor_id !== instructorId) {
+    if (!(await hasCourseCapability(courseId, instructorId, 'edit_content'))) {
       throw new Error('You do not have permission to update this course');
     }
 
+    if (updates.price !== undefined && !(await hasCourseCapability(courseId, instructorId, 'edit_pricing'))) {
+      throw new Error('You do not have permission to change this course\'s price');
+    }
+
+    if (updates.category_id !== undefined && updates.category_id !== null) {
+      await assertCategoryExists(updates.category_id);
+    }
+
+    // Students keep seeing the published details of a live course until the draft is published
+    if (existingCourse[0].is_published) {
+      const draft = await updateCourseDraft(courseId, instructorId, (snapshot: CourseSnapshot) => {
+        snapshot.course = {
+          ...snapshot.course,
+          ...updates,
+          tags: updates.tags !== undefined ? normalizeTags(updates.tags) : snapshot.course.tags
+        };
+      });
+
+      return {
+        ...existingCourse[0],
+        ...draft.snapshot.course
+      };
+    }
+
     // Build update values, converting numbers to strings for numeric columns
     const updateValues: any = {};
     if (updates.title !== undefined) updateValues.title = updates.title;
@@ -137,6 +337,9 @@ export async function updateCourse(courseId: number, updates: Partial<CreateCour
     if (updates.thumbnail_url !== undefined) updateValues.thumbnail_url = updates.thumbnail_url;
     if (updates.price !== undefined) updateValues.price = updates.price.toString();
     if (updates.duration_hours !== undefined) updateValues.duration_hours = updates.duration_hours.toString();
+    if (updates.category_id !== undefined) updateValues.category_id = updates.category_id;
+    if (updates.level !== undefined) updateValues.level = updates.level;
+    if (updates.tags !== undefined) updateValues.tags = normalizeTags(updates.tags);
     
     // Always update the updated_at timestamp
     updateValues.updated_at = new Date();
@@ -164,35 +367,23 @@ export async function publishCourse(courseId: number, instructorId: number): Pro
     // Verify course exists and instructor owns it
     const existingCourse = await db.select()
       .from(coursesTable)
-      .where(eq(coursesTable.id, courseId))
+      .where(and(eq(coursesTable.id, courseId), isNull(coursesTable.deleted_at)))
       .execute();
 
     if (!existingCourse.length) {
       throw new Error('Course not found');
     }
 
-    if (existingCourse[0].instructor_id !== instructorId) {
+    if (!(await hasCourseCapability(courseId, instructorId, 'publish'))) {
       throw new Error('You do not have permission to publish this course');
     }
 
-    // Validate course has required content before publishing
-    const lessons = await db.select()
-      .from(lessonsTable)
-      .where(eq(lessonsTable.course_id, courseId))
-      .execute();
+    // Applies the draft, if any, and checks the course has lessons before marking it published
+    await publishCourseRevision(courseId, instructorId);
 
-    if (lessons.length === 0) {
-      throw new Error('Course must have at least one lesson before publishing');
-    }
-
-    // Update course to published
-    const result = await db.update(coursesTable)
-      .set({ 
-        is_published: true,
-        updated_at: new Date()
-      })
+    const result = await db.select()
+      .from(coursesTable)
       .where(eq(coursesTable.id, courseId))
-      .returning()
       .execute();
 
     const course = result[0];
@@ -212,19 +403,21 @@ export async function deleteCourse(courseId: number, instructorId: number): Prom
     // Verify course exists and instructor owns it
     const existingCourse = await db.select()
       .from(coursesTable)
-      .where(eq(coursesTable.id, courseId))
+      .where(and(eq(coursesTable.id, courseId), isNull(coursesTable.deleted_at)))
       .execute();
 
     if (!existingCourse.length) {
       throw new Error('Course not found');
     }
 
-    if (existingCourse[0].instructor_id !== instructorId) {
+    if (!(await hasCourseCapability(courseId, instructorId, 'delete'))) {
       throw new Error('You do not have permission to delete this course');
     }
 
-    // Delete the course (CASCADE will handle related data)
-    await db.delete(coursesTable)
+    // Moves the course to the trash; enrollments, certificates and payments keep pointing at it.
+    // It comes back unpublished, so a restore never puts it straight back in the catalog.
+    await db.update(coursesTable)
+      .set({ deleted_at: new Date(), is_published: false, publish_at: null, updated_at: new Date() })
       .where(eq(coursesTable.id, courseId))
       .execute();
 
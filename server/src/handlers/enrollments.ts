@@ -8,7 +8,11 @@ import {
   certificatesTable 
 } from '../db/schema';
 import { type EnrollInput, type Enrollment, type UpdateProgressInput, type LessonProgress } from '../schema';
-import { eq, and, count, SQL } from 'drizzle-orm';
+import { assertPrerequisitesMet } from './prerequisites';
+import { recordLearningPathProgress } from './learningPaths';
+import { assertEnrollmentOpen, assertCourseNotEnded } from './courseSchedule';
+import { reserveCourseRunSeat, removeFromCourseWaitlists, promoteFromWaitlist } from './courseRuns';
+import { eq, and, count, isNull, SQL } from 'drizzle-orm';
 
 export async function enrollInCourse(input: EnrollInput, studentId: number): Promise<Enrollment> {
   try {
@@ -22,16 +26,18 @@ export async function enrollInCourse(input: EnrollInput, studentId: number): Pro
       throw new Error('Student not found or invalid role');
     }
 
-    // Validate that course exists
+    // Validate that course exists and isn't in the trash
     const course = await db.select()
       .from(coursesTable)
-      .where(eq(coursesTable.id, input.course_id))
+      .where(and(eq(coursesTable.id, input.course_id), isNull(coursesTable.deleted_at)))
       .execute();
 
     if (course.length === 0) {
       throw new Error('Course not found');
     }
 
+    assertEnrollmentOpen(course[0]);
+
     // Check if already enrolled
     const existingEnrollment = await db.select()
       .from(enrollmentsTable)
@@ -45,18 +51,26 @@ export async function enrollInCourse(input: EnrollInput, studentId: number): Pro
       throw new Error('Student already enrolled in this course');
     }
 
-    // Create enrollment record
-    const result = await db.insert(enrollmentsTable)
-      .values({
-        student_id: studentId,
-        course_id: input.course_id,
-        progress_percentage: 0,
-        is_completed: false
-      })
-      .returning()
-      .execute();
+    await assertPrerequisitesMet(input.course_id, studentId, input.acknowledge_prerequisites ?? false);
 
-    return result[0];
+    // Create enrollment record, taking a seat in the chosen cohort when the course has cohorts
+    return await db.transaction(async (tx) => {
+      const courseRunId = await reserveCourseRunSeat(tx, input.course_id, input.course_run_id);
+
+      const result = await tx.insert(enrollmentsTable)
+        .values({
+          student_id: studentId,
+          course_id: input.course_id,
+          course_run_id: courseRunId,
+          progress_percentage: 0,
+          is_completed: false
+        })
+        .returning()
+        .execute();
+
+      await removeFromCourseWaitlists(tx, input.course_id, studentId);
+      return result[0];
+    });
   } catch (error) {
     console.error('Enrollment failed:', error);
     throw error;
@@ -125,13 +139,15 @@ export async function updateLessonProgress(input: UpdateProgressInput, studentId
           eq(enrollmentsTable.student_id, studentId)
         )
       )
-      .where(eq(lessonsTable.id, input.lesson_id))
+      .where(and(eq(lessonsTable.id, input.lesson_id), isNull(lessonsTable.deleted_at)))
       .execute();
 
     if (lessonData.length === 0) {
       throw new Error('Lesson not found or student not enrolled in course');
     }
 
+    await assertCourseNotEnded(lessonData[0].lesson.course_id);
+
     // Check if progress record already exists
     const existingProgress = await db.select()
       .from(lessonProgressTable)
@@ -219,7 +235,8 @@ export async function getStudentProgress(studentId: number, courseId: number): P
       .innerJoin(lessonsTable, eq(lessonProgressTable.lesson_id, lessonsTable.id))
       .where(and(
         eq(lessonProgressTable.student_id, studentId),
-        eq(lessonsTable.course_id, courseId)
+        eq(lessonsTable.course_id, courseId),
+        isNull(lessonsTable.deleted_at)
       ))
       .execute();
 
@@ -228,7 +245,7 @@ export async function getStudentProgress(studentId: number, courseId: number): P
       count: count()
     })
       .from(lessonsTable)
-      .where(eq(lessonsTable.course_id, courseId))
+      .where(and(eq(lessonsTable.course_id, courseId), isNull(lessonsTable.deleted_at)))
       .execute();
 
     const totalLessons = totalLessonsResult[0].count;
@@ -261,6 +278,8 @@ export async function completeCourse(studentId: number, courseId: number): Promi
       throw new Error('Enrollment not found');
     }
 
+    await assertCourseNotEnded(courseId);
+
     // Update enrollment to completed
     const result = await db.update(enrollmentsTable)
       .set({
@@ -287,6 +306,8 @@ export async function completeCourse(studentId: number, courseId: number): Promi
       })
       .execute();
 
+    await recordLearningPathProgress(studentId, courseId);
+
     return result[0];
   } catch (error) {
     console.error('Failed to complete course:', error);
@@ -329,6 +350,16 @@ export async function unenrollFromCourse(studentId: number, courseId: number): P
       ))
       .execute();
 
+    // The freed seat goes to the next student on the cohort's waitlist. The student has left the course
+    // either way, so a failed promotion is only logged; the seat is filled when the next one frees up.
+    if (enrollment[0].course_run_id !== null) {
+      try {
+        await promoteFromWaitlist(enrollment[0].course_run_id);
+      } catch (error) {
+        console.error('Waitlist promotion failed:', error);
+      }
+    }
+
     return { success: true };
   } catch (error) {
     console.error('Failed to unenroll from course:', error);
@@ -344,7 +375,7 @@ async function updateEnrollmentProgress(studentId: number, courseId: number): Pr
       count: count()
     })
       .from(lessonsTable)
-      .where(eq(lessonsTable.course_id, courseId))
+      .where(and(eq(lessonsTable.course_id, courseId), isNull(lessonsTable.deleted_at)))
       .execute();
 
     const totalLessons = totalLessonsResult[0].count;
@@ -362,13 +393,22 @@ async function updateEnrollmentProgress(studentId: number, courseId: number): Pr
       .where(and(
         eq(lessonProgressTable.student_id, studentId),
         eq(lessonProgressTable.is_completed, true),
-        eq(lessonsTable.course_id, courseId)
+        eq(lessonsTable.course_id, courseId),
+        isNull(lessonsTable.deleted_at)
       ))
       .execute();
 
     const completedLessons = completedLessonsResult[0].count;
     const progressPercentage = Math.round((completedLessons / totalLessons) * 100);
 
+    const before = await db.select({ is_completed: enrollmentsTable.is_completed })
+      .from(enrollmentsTable)
+      .where(and(
+        eq(enrollmentsTable.student_id, studentId),
+        eq(enrollmentsTable.course_id, courseId)
+      ))
+      .execute();
+
     // Update enrollment progress
     await db.update(enrollmentsTable)
       .set({
@@ -381,6 +421,11 @@ async function updateEnrollmentProgress(studentId: number, courseId: number): Pr
         eq(enrollmentsTable.course_id, courseId)
       ))
       .execute();
+
+    // Finishing the last lesson completes the course, as completeCourse does
+    if (progressPercentage === 100 && before.length > 0 && !before[0].is_completed) {
+      await recordLearningPathProgress(studentId, courseId);
+    }
   } catch (error) {
     console.error('Failed to update enrollment progress:', error);
     // Don't throw here as this is a helper function
@@ -0,0 +1,377 @@
+import { db } from '../db';
+import {
+  learningPathsTable,
+  learningPathCoursesTable,
+  learningPathEnrollmentsTable,
+  learningPathCertificatesTable,
+  coursesTable,
+  enrollmentsTable
+} from '../db/schema';
+import {
+  type LearningPath,
+  type LearningPathCourse,
+  type LearningPathProgress,
+  type CreateLearningPathInput
+} from '../schema';
+import { assertPermission, hasPermission } from './permissions';
+import { createNotification } from './messages';
+import { eq, and, asc, inArray, isNull, SQL } from 'drizzle-orm';
+
+async function findPaths(condition?: SQL): Promise<LearningPath[]> {
+  const paths = await db.select()
+    .from(learningPathsTable)
+    .where(condition)
+    .orderBy(asc(learningPathsTable.title))
+    .execute();
+
+  if (paths.length === 0) {
+    return [];
+  }
+
+  const courses = await db.select({
+    path_id: learningPathCoursesTable.path_id,
+    course_id: learningPathCoursesTable.course_id,
+    position: learningPathCoursesTable.position,
+    title: coursesTable.title,
+    thumbnail_url: coursesTable.thumbnail_url,
+    duration_hours: coursesTable.duration_hours
+  })
+    .from(learningPathCoursesTable)
+    .innerJoin(coursesTable, eq(learningPathCoursesTable.course_id, coursesTable.id))
+    .where(inArray(learningPathCoursesTable.path_id, paths.map(path => path.id)))
+    .orderBy(asc(learningPathCoursesTable.position))
+    .execute();
+
+  return paths.map(path => ({
+    ...path,
+    courses: courses
+      .filter(course => course.path_id === path.id)
+      .map(course => ({
+        course_id: course.course_id,
+        position: course.position,
+        title: course.title,
+        thumbnail_url: course.thumbnail_url,
+        duration_hours: parseFloat(course.duration_hours)
+      }))
+  }));
+}
+
+async function findPath(pathId: number): Promise<LearningPath> {
+  const paths = await findPaths(eq(learningPathsTable.id, pathId));
+  if (paths.length === 0) {
+    throw new Error('Learning path not found');
+  }
+  return paths[0];
+}
+
+async function assertCoursesExist(courseIds: number[]): Promise<void> {
+  if (new Set(courseIds).size !== courseIds.length) {
+    throw new Error('Each course can only appear once in a learning path');
+  }
+
+  const existing = await db.select({ id: coursesTable.id })
+    .from(coursesTable)
+    .where(inArray(coursesTable.id, courseIds))
+    .execute();
+
+  if (existing.length !== courseIds.length) {
+    throw new Error('Course not found');
+  }
+}
+
+// Marks the student's path enrollment complete and issues the path certificate once every course is done
+async function completePathIfFinished(pathId: number, studentId: number): Promise<void> {
+  const path = await findPath(pathId);
+  const courseIds = path.courses.map(course => course.course_id);
+  if (courseIds.length === 0) {
+    return;
+  }
+
+  const completed = await db.select({ course_id: enrollmentsTable.course_id })
+    .from(enrollmentsTable)
+    .where(and(
+      eq(enrollmentsTable.student_id, studentId),
+      eq(enrollmentsTable.is_completed, true),
+      inArray(enrollmentsTable.course_id, courseIds)
+    ))
+    .execute();
+
+  if (completed.length < courseIds.length) {
+    return;
+  }
+
+  const issued = await db.transaction(async (tx) => {
+    await tx.update(learningPathEnrollmentsTable)
+      .set({ completed_at: new Date() })
+      .where(and(
+        eq(learningPathEnrollmentsTable.path_id, pathId),
+        eq(learningPathEnrollmentsTable.student_id, studentId)
+      ))
+      .execute();
+
+    return tx.insert(learningPathCertificatesTable)
+      .values({
+        path_id: pathId,
+        student_id: studentId,
+        certificate_code: `PATH-${pathId}-${studentId}-${Date.now()}`
+      })
+      .onConflictDoNothing()
+      .returning()
+      .execute();
+  });
+
+  // The certificate may already exist, such as when two completions finish the path at the same time
+  if (issued.length === 0) {
+    return;
+  }
+
+  await createNotification({
+    user_id: studentId,
+    type: 'certificate_issued',
+    title: 'Learning path completed',
+    message: `You completed every course in "${path.title}" and earned its certificate.`
+  });
+}
+
+async function buildProgress(path: LearningPath, studentId: number): Promise<LearningPathProgress> {
+  const pathEnrollments = await db.select()
+    .from(learningPathEnrollmentsTable)
+    .where(and(
+      eq(learningPathEnrollmentsTable.path_id, path.id),
+      eq(learningPathEnrollmentsTable.student_id, studentId)
+    ))
+    .execute();
+
+  const certificates = await db.select()
+    .from(learningPathCertificatesTable)
+    .where(and(
+      eq(learningPathCertificatesTable.path_id, path.id),
+      eq(learningPathCertificatesTable.student_id, studentId)
+    ))
+    .execute();
+
+  const courseIds = path.courses.map(course => course.course_id);
+  const enrollments = courseIds.length === 0 ? [] : await db.select()
+    .from(enrollmentsTable)
+    .where(and(
+      eq(enrollmentsTable.student_id, studentId),
+      inArray(enrollmentsTable.course_id, courseIds)
+    ))
+    .execute();
+
+  const courses = path.courses.map((course: LearningPathCourse) => {
+    const enrollment = enrollments.find(e => e.course_id === course.course_id);
+    return {
+      ...course,
+      status: !enrollment ? 'not_enrolled' as const : enrollment.is_completed ? 'completed' as const : 'in_progress' as const,
+      progress_percentage: enrollment?.progress_percentage ?? 0
+    };
+  });
+
+  const completedCourses = courses.filter(course => course.status === 'completed').length;
+
+  return {
+    path,
+    enrolled_at: pathEnrollments[0]?.enrolled_at ?? null,
+    completed_at: pathEnrollments[0]?.completed_at ?? null,
+    courses,
+    completed_courses: completedCourses,
+    progress_percentage: courses.length > 0 ? Math.round((completedCourses / courses.length) * 100) : 0,
+    next_course_id: courses.find(course => course.status !== 'completed')?.course_id ?? null,
+    certificate: certificates[0] ?? null
+  };
+}
+
+// Path managers see unpublished paths too
+export async function getLearningPaths(userId: number): Promise<LearningPath[]> {
+  try {
+    const canManage = await hasPermission(userId, 'learning_paths.manage');
+    return await findPaths(canManage ? undefined : eq(learningPathsTable.is_published, true));
+  } catch (error) {
+    console.error('Failed to fetch learning paths:', error);
+    throw error;
+  }
+}
+
+export async function createLearningPath(input: CreateLearningPathInput, adminId: number): Promise<LearningPath> {
+  try {
+    await assertPermission(adminId, 'learning_paths.manage');
+    await assertCoursesExist(input.course_ids);
+
+    const pathId = await db.transaction(async (tx) => {
+      const result = await tx.insert(learningPathsTable)
+        .values({
+          title: input.title,
+          description: input.description ?? null,
+          is_published: input.is_published ?? false,
+          created_by: adminId
+        })
+        .returning()
+        .execute();
+
+      await tx.insert(learningPathCoursesTable)
+        .values(input.course_ids.map((courseId, position) => ({
+          path_id: result[0].id,
+          course_id: courseId,
+          position
+        })))
+        .execute();
+
+      return result[0].id;
+    });
+
+    return await findPath(pathId);
+  } catch (error) {
+    console.error('Learning path creation failed:', error);
+    throw error;
+  }
+}
+
+// Certificates already issued stay valid if courses are later added to the path
+export async function updateLearningPath(pathId: number, updates: Partial<CreateLearningPathInput>, adminId: number): Promise<LearningPath> {
+  try {
+    await assertPermission(adminId, 'learning_paths.manage');
+    await findPath(pathId);
+
+    if (updates.course_ids !== undefined) {
+      await assertCoursesExist(updates.course_ids);
+    }
+
+    const updateValues: Partial<typeof learningPathsTable.$inferInsert> = { updated_at: new Date() };
+    if (updates.title !== undefined) updateValues.title = updates.title;
+    if (updates.description !== undefined) updateValues.description = updates.description;
+    if (updates.is_published !== undefined) updateValues.is_published = updates.is_published;
+
+    await db.transaction(async (tx) => {
+      await tx.update(learningPathsTable)
+        .set(updateValues)
+        .where(eq(learningPathsTable.id, pathId))
+        .execute();
+
+      if (updates.course_ids !== undefined) {
+        await tx.delete(learningPathCoursesTable)
+          .where(eq(learningPathCoursesTable.path_id, pathId))
+          .execute();
+
+        await tx.insert(learningPathCoursesTable)
+          .values(updates.course_ids.map((courseId, position) => ({
+            path_id: pathId,
+            course_id: courseId,
+            position
+          })))
+          .execute();
+      }
+    });
+
+    return await findPath(pathId);
+  } catch (error) {
+    console.error('Learning path update failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteLearningPath(pathId: number, adminId: number): Promise<{ success: boolean }> {
+  try {
+    await assertPermission(adminId, 'learning_paths.manage');
+
+    const result = await db.delete(learningPathsTable)
+      .where(eq(learningPathsTable.id, pathId))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Learning path not found');
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Learning path deletion failed:', error);
+    throw error;
+  }
+}
+
+// Joining a path tracks progress across its courses; students still enroll in each course themselves
+export async function enrollInLearningPath(pathId: number, studentId: number): Promise<LearningPathProgress> {
+  try {
+    const path = await findPath(pathId);
+    if (!path.is_published) {
+      throw new Error('Learning path not found');
+    }
+
+    const existing = await db.select()
+      .from(learningPathEnrollmentsTable)
+      .where(and(
+        eq(learningPathEnrollmentsTable.path_id, pathId),
+        eq(learningPathEnrollmentsTable.student_id, studentId)
+      ))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error('You have already joined this learning path');
+    }
+
+    await db.insert(learningPathEnrollmentsTable)
+      .values({ path_id: pathId, student_id: studentId })
+      .execute();
+
+    // Students who already finished every course get the certificate straight away
+    await completePathIfFinished(pathId, studentId);
+
+    return await buildProgress(path, studentId);
+  } catch (error) {
+    console.error('Learning path enrollment failed:', error);
+    throw error;
+  }
+}
+
+export async function getLearningPathProgress(pathId: number, studentId: number): Promise<LearningPathProgress> {
+  try {
+    const path = await findPath(pathId);
+    const progress = await buildProgress(path, studentId);
+
+    if (!path.is_published && progress.enrolled_at === null) {
+      throw new Error('Learning path not found');
+    }
+
+    return progress;
+  } catch (error) {
+    console.error('Failed to fetch learning path progress:', error);
+    throw error;
+  }
+}
+
+export async function getMyLearningPaths(studentId: number): Promise<LearningPathProgress[]> {
+  try {
+    const joined = await db.select({ path_id: learningPathEnrollmentsTable.path_id })
+      .from(learningPathEnrollmentsTable)
+      .where(eq(learningPathEnrollmentsTable.student_id, studentId))
+      .execute();
+
+    if (joined.length === 0) {
+      return [];
+    }
+
+    const paths = await findPaths(inArray(learningPathsTable.id, joined.map(row => row.path_id)));
+    return await Promise.all(paths.map(path => buildProgress(path, studentId)));
+  } catch (error) {
+    console.error('Failed to fetch learning paths:', error);
+    throw error;
+  }
+}
+
+// Called when a student completes a course, to finish any joined paths it was the last course of
+export async function recordLearningPathProgress(studentId: number, courseId: number): Promise<void> {
+  const openPaths = await db.select({ path_id: learningPathEnrollmentsTable.path_id })
+    .from(learningPathEnrollmentsTable)
+    .innerJoin(learningPathCoursesTable, eq(learningPathCoursesTable.path_id, learningPathEnrollmentsTable.path_id))
+    .where(and(
+      eq(learningPathEnrollmentsTable.student_id, studentId),
+      eq(learningPathCoursesTable.course_id, courseId),
+      isNull(learningPathEnrollmentsTable.completed_at)
+    ))
+    .execute();
+
+  for (const { path_id } of openPaths) {
+    await completePathIfFinished(path_id, studentId);
+  }
+}
@@ -1,38 +1,51 @@
 import { db } from '../db';
 import { lessonsTable, coursesTable } from '../db/schema';
-import { type CreateLessonInput, type Lesson } from '../schema';
-import { eq } from 'drizzle-orm';
+import { type CreateLessonInput, type Lesson, type LessonBlock, type CourseSnapshot } from '../schema';
+import { assertNoOpenDraft, nextDraftId, updateCourseDraft } from './revisions';
+import { assertCourseCapability, hasCourseCapability, getCourseRole } from './courseStaff';
+import { eq, and, asc, isNull } from 'drizzle-orm';
 
-export async function createLesson(input: CreateLessonInput): Promise<Lesson> {
+// Lessons added to a live course go into its draft, like every other content change, and are returned
+// with their draft id
+export async function createLesson(input: CreateLessonInput, instructorId: number): Promise<Lesson> {
   try {
-    // First verify the course exists
-    const course = await db.select()
-      .from(coursesTable)
-      .where(eq(coursesTable.id, input.course_id))
-      .execute();
+    const course = await assertCourseCapability(input.course_id, instructorId, 'edit_content', 'add lessons to this course');
+
+    const values = {
+      course_id: input.course_id,
+      title: input.title,
+      description: input.description,
+      video_url: input.video_url,
+      content: input.content,
+      blocks: input.blocks ?? [],
+      order_index: input.order_index,
+      duration_minutes: input.duration_minutes
+    };
 
-    if (course.length === 0) {
-      throw new Error('Course not found');
+    if (course.is_published) {
+      const { course_id: _courseId, ...draftValues } = values;
+      let id = 0;
+      await updateCourseDraft(course.id, instructorId, (snapshot: CourseSnapshot) => {
+        id = nextDraftId(snapshot);
+        snapshot.lessons.push({ ...draftValues, id, is_published: false, quizzes: [] });
+      });
+
+      const now = new Date();
+      return { ...values, id, is_published: false, deleted_at: null, created_at: now, updated_at: now };
     }
 
+    await assertNoOpenDraft(input.course_id);
+
     // Insert the lesson record
     const result = await db.insert(lessonsTable)
-      .values({
-        course_id: input.course_id,
-        title: input.title,
-        description: input.description,
-        video_url: input.video_url,
-        content: input.content,
-        order_index: input.order_index,
-        duration_minutes: input.duration_minutes
-      })
+      .values(values)
       .returning()
       .execute();
 
     const lesson = result[0];
     return {
       ...lesson,
-      // No numeric conversions needed - all fields are already appropriate types
+      blocks: lesson.blocks as LessonBlock[]
     };
   } catch (error) {
     console.error('Lesson creation failed:', error);
@@ -40,68 +53,246 @@ export async function createLesson(input: CreateLessonInput): Promise<Lesson> {
   }
 }
 
-export async function getLessonsByCourse(courseId: number): Promise<Lesson[]> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to fetch all lessons for a specific course
-  // ordered by order_index for proper lesson sequence display.
-  return [];
+// Course staff see every lesson they can edit; everyone else only sees published ones
+async function canSeeUnpublishedLessons(courseId: number, viewerId: number | null): Promise<boolean> {
+  return viewerId !== null && (await getCourseRole(courseId, viewerId)) !== null;
 }
 
-export async function getLessonById(lessonId: number): Promise<Lesson | null> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to fetch a specific lesson by ID
-  // with video URL and content for lesson player.
-  return null;
+export async function getLessonsByCourse(courseId: number, viewerId: number | null = null): Promise<Lesson[]> {
+  try {
+    const conditions = [
+      eq(lessonsTable.course_id, courseId),
+      isNull(lessonsTable.deleted_at),
+      isNull(coursesTable.deleted_at)
+    ];
+    if (!(await canSeeUnpublishedLessons(courseId, viewerId))) {
+      conditions.push(eq(lessonsTable.is_published, true));
+    }
+
+    const rows = await db.select({ lesson: lessonsTable })
+      .from(lessonsTable)
+      .innerJoin(coursesTable, eq(lessonsTable.course_id, coursesTable.id))
+      .where(and(...conditions))
+      .orderBy(asc(lessonsTable.order_index), asc(lessonsTable.id))
+      .execute();
+
+    return rows.map(({ lesson }) => ({ ...lesson, blocks: lesson.blocks as LessonBlock[] }));
+  } catch (error) {
+    console.error('Failed to fetch lessons:', error);
+    throw error;
+  }
+}
+
+export async function getLessonById(lessonId: number, viewerId: number | null = null): Promise<Lesson | null> {
+  try {
+    const rows = await db.select({ lesson: lessonsTable })
+      .from(lessonsTable)
+      .innerJoin(coursesTable, eq(lessonsTable.course_id, coursesTable.id))
+      .where(and(
+        eq(lessonsTable.id, lessonId),
+        isNull(lessonsTable.deleted_at),
+        isNull(coursesTable.deleted_at)
+      ))
+      .execute();
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const { lesson } = rows[0];
+    if (!lesson.is_published && !(await canSeeUnpublishedLessons(lesson.course_id, viewerId))) {
+      return null;
+    }
+
+    return { ...lesson, blocks: lesson.blocks as LessonBlock[] };
+  } catch (error) {
+    console.error('Failed to fetch lesson:', error);
+    throw error;
+  }
+}
+
+// Lessons in the trash, or in a course in the trash, are treated as gone
+async function findLessonWithCourse(lessonId: number) {
+  const lessons = await db.select({ lesson: lessonsTable, course: coursesTable })
+    .from(lessonsTable)
+    .innerJoin(coursesTable, eq(lessonsTable.course_id, coursesTable.id))
+    .where(and(
+      eq(lessonsTable.id, lessonId),
+      isNull(lessonsTable.deleted_at),
+      isNull(coursesTable.deleted_at)
+    ))
+    .execute();
+
+  if (lessons.length === 0) {
+    throw new Error('Lesson not found');
+  }
+
+  return lessons[0];
+}
+
+export async function updateLesson(lessonId: number, updates: Partial<CreateLessonInput>, instructorId: number): Promise<Lesson> {
+  try {
+    const { lesson, course } = await findLessonWithCourse(lessonId);
+    if (!(await hasCourseCapability(course.id, instructorId, 'edit_content'))) {
+      throw new Error('You do not have permission to update this lesson');
+    }
+
+    // Lessons stay in their course; moving one is not an update
+    const changes: Partial<Omit<CreateLessonInput, 'course_id'>> = {};
+    if (updates.title !== undefined) changes.title = updates.title;
+    if (updates.description !== undefined) changes.description = updates.description;
+    if (updates.video_url !== undefined) changes.video_url = updates.video_url;
+    if (updates.content !== undefined) changes.content = updates.content;
+    if (updates.blocks !== undefined) changes.blocks = updates.blocks;
+    if (updates.order_index !== undefined) changes.order_index = updates.order_index;
+    if (updates.duration_minutes !== undefined) changes.duration_minutes = updates.duration_minutes;
+
+    // Students keep seeing the published lesson of a live course until the draft is published
+    if (course.is_published) {
+      await updateCourseDraft(course.id, instructorId, (snapshot: CourseSnapshot) => {
+        const draftLesson = snapshot.lessons.find(candidate => candidate.id === lessonId);
+        if (!draftLesson) {
+          throw new Error('This lesson has been removed from the course draft');
+        }
+        Object.assign(draftLesson, changes);
+      });
+
+      return { ...lesson, blocks: lesson.blocks as LessonBlock[], ...changes };
+    }
+
+    const result = await db.update(lessonsTable)
+      .set({ ...changes, updated_at: new Date() })
+      .where(eq(lessonsTable.id, lessonId))
+      .returning()
+      .execute();
+
+    return { ...result[0], blocks: result[0].blocks as LessonBlock[] };
+  } catch (error) {
+    console.error('Lesson update failed:', error);
+    throw error;
+  }
 }
 
-export async function updateLesson(lessonId: number, updates: Partial<CreateLessonInput>): Promise<Lesson> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to update lesson information,
-  // validate instructor permissions, and persist changes.
-  return Promise.resolve({
-    id: lessonId,
-    course_id: updates.course_id || 1,
-    title: updates.title || 'Updated Lesson',
-    description: updates.description || null,
-    video_url: updates.video_url || null,
-    content: updates.content || null,
-    order_index: updates.order_index || 1,
-    duration_minutes: updates.duration_minutes || 30,
-    is_published: false,
-    created_at: new Date(),
-    updated_at: new Date()
-  } as Lesson);
+// Students need a video, text or content blocks to look at
+function assertLessonHasContent(lesson: { video_url: string | null; content: string | null; blocks: LessonBlock[] }): void {
+  if (!lesson.video_url && !lesson.content?.trim() && lesson.blocks.length === 0) {
+    throw new Error('Add a video, text or content blocks before publishing this lesson');
+  }
 }
 
-export async function publishLesson(lessonId: number): Promise<Lesson> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to publish a lesson after validation,
-  // ensuring required content (video or text content) is present.
-  return Promise.resolve({
-    id: lessonId,
-    course_id: 1,
-    title: 'Published Lesson',
-    description: 'Lesson description',
-    video_url: 'https://example.com/video.mp4',
-    content: 'Lesson content',
-    order_index: 1,
-    duration_minutes: 30,
-    is_published: true,
-    created_at: new Date(),
-    updated_at: new Date()
-  } as Lesson);
+export async function publishLesson(lessonId: number, instructorId: number): Promise<Lesson> {
+  try {
+    const { lesson, course } = await findLessonWithCourse(lessonId);
+    if (!(await hasCourseCapability(course.id, instructorId, 'edit_content'))) {
+      throw new Error('You do not have permission to publish this lesson');
+    }
+
+    if (course.is_published) {
+      await updateCourseDraft(course.id, instructorId, (snapshot: CourseSnapshot) => {
+        const draftLesson = snapshot.lessons.find(candidate => candidate.id === lessonId);
+        if (!draftLesson) {
+          throw new Error('This lesson has been removed from the course draft');
+        }
+        assertLessonHasContent(draftLesson);
+        draftLesson.is_published = true;
+      });
+
+      return { ...lesson, blocks: lesson.blocks as LessonBlock[], is_published: true };
+    }
+
+    await assertNoOpenDraft(course.id);
+    assertLessonHasContent({ ...lesson, blocks: lesson.blocks as LessonBlock[] });
+
+    const result = await db.update(lessonsTable)
+      .set({ is_published: true, updated_at: new Date() })
+      .where(eq(lessonsTable.id, lessonId))
+      .returning()
+      .execute();
+
+    return { ...result[0], blocks: result[0].blocks as LessonBlock[] };
+  } catch (error) {
+    console.error('Lesson publishing failed:', error);
+    throw error;
+  }
 }
 
-export async function deleteLesson(lessonId: number): Promise<{ success: boolean }> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to delete a lesson and all related data,
-  // validate instructor permissions, and handle cascading deletes (quizzes, progress).
-  return Promise.resolve({ success: true });
+// Moves the lesson, with its quizzes, to the trash. Students keep their progress and quiz attempts.
+// A live course drops the lesson from its draft, and publishing the draft moves it to the trash.
+export async function deleteLesson(lessonId: number, instructorId: number): Promise<{ success: boolean }> {
+  try {
+    const { course } = await findLessonWithCourse(lessonId);
+    if (!(await hasCourseCapability(course.id, instructorId, 'edit_content'))) {
+      throw new Error('You do not have permission to delete this lesson');
+    }
+
+    if (course.is_published) {
+      await updateCourseDraft(course.id, instructorId, (snapshot: CourseSnapshot) => {
+        const remaining = snapshot.lessons.filter(candidate => candidate.id !== lessonId);
+        if (remaining.length === snapshot.lessons.length) {
+          throw new Error('This lesson has been removed from the course draft');
+        }
+        snapshot.lessons = remaining;
+      });
+
+      return { success: true };
+    }
+
+    await assertNoOpenDraft(course.id);
+
+    await db.update(lessonsTable)
+      .set({ deleted_at: new Date(), updated_at: new Date() })
+      .where(eq(lessonsTable.id, lessonId))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Lesson deletion failed:', error);
+    throw error;
+  }
 }
 
-export async function reorderLessons(courseId: number, lessonOrders: { lessonId: number; orderIndex: number }[]): Promise<{ success: boolean }> {
-  // This is a placeholder declaration! Real code should be implemented here.
-  // The goal of this handler is to update the order_index for multiple lessons
-  // to allow instructors to reorder course content.
-  return Promise.resolve({ success: true });
+export async function reorderLessons(courseId: number, lessonOrders: { lessonId: number; orderIndex: number }[], instructorId: number): Promise<{ success: boolean }> {
+  try {
+    const course = await assertCourseCapability(courseId, instructorId, 'edit_content', 'reorder the lessons of this course');
+
+    if (course.is_published) {
+      await updateCourseDraft(courseId, instructorId, (snapshot: CourseSnapshot) => {
+        for (const { lessonId, orderIndex } of lessonOrders) {
+          const draftLesson = snapshot.lessons.find(candidate => candidate.id === lessonId);
+          if (!draftLesson) {
+            throw new Error('Lesson not found');
+          }
+          draftLesson.order_index = orderIndex;
+        }
+      });
+
+      return { success: true };
+    }
+
+    await assertNoOpenDraft(courseId);
+
+    await db.transaction(async (tx) => {
+      for (const { lessonId, orderIndex } of lessonOrders) {
+        // Lessons of other courses are not this course's to reorder
+        const result = await tx.update(lessonsTable)
+          .set({ order_index: orderIndex, updated_at: new Date() })
+          .where(and(
+            eq(lessonsTable.id, lessonId),
+            eq(lessonsTable.course_id, courseId),
+            isNull(lessonsTable.deleted_at)
+          ))
+          .returning()
+          .execute();
+
+        if (result.length === 0) {
+          throw new Error('Lesson not found');
+        }
+      }
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Lesson reordering failed:', error);
+    throw error;
+  }
 }
\ No newline at end of file
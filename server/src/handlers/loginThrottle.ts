@@ -0,0 +1,129 @@
+import { db } from '../db';
+import { loginAttemptsTable } from '../db/schema';
+import { recordAuditEvent } from './audit';
+import { eq, and, sql } from 'drizzle-orm';
+
+type LoginAttemptScope = 'account' | 'ip';
+
+// Failures allowed before backoff kicks in, and the count that triggers a lockout.
+// IPs get more headroom since many users can share one address.
+const THROTTLE_POLICIES: Record<LoginAttemptScope, { freeAttempts: number; lockoutThreshold: number }> = {
+  account: { freeAttempts: 3, lockoutThreshold: 10 },
+  ip: { freeAttempts: 20, lockoutThreshold: 100 }
+};
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 5 * 60 * 1000;
+const LOCKOUT_DURATION_MS = 15 * 60 * 1000;
+// Counters start over after this long without a failure
+const ATTEMPT_WINDOW_MS = 60 * 60 * 1000;
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+async function getAttempt(scope: LoginAttemptScope, identifier: string) {
+  const rows = await db.select()
+    .from(loginAttemptsTable)
+    .where(and(
+      eq(loginAttemptsTable.scope, scope),
+      eq(loginAttemptsTable.identifier, identifier)
+    ))
+    .execute();
+
+  return rows[0] ?? null;
+}
+
+function backoffDelay(scope: LoginAttemptScope, failedCount: number): number {
+  const excess = failedCount - THROTTLE_POLICIES[scope].freeAttempts;
+  if (excess <= 0) {
+    return 0;
+  }
+  return Math.min(BACKOFF_BASE_MS * 2 ** (excess - 1), BACKOFF_MAX_MS);
+}
+
+// Throws when the account or the client address is in backoff or locked out
+export async function assertLoginAllowed(email: string, ipAddress: string | null): Promise<void> {
+  const now = new Date();
+
+  const account = await getAttempt('account', normalizeEmail(email));
+  if (account?.blocked_until && account.blocked_until > now) {
+    if (account.locked_at) {
+      throw new Error('Account is temporarily locked due to too many failed login attempts');
+    }
+    const seconds = Math.ceil((account.blocked_until.getTime() - now.getTime()) / 1000);
+    throw new Error(`Too many failed login attempts. Try again in ${seconds} seconds`);
+  }
+
+  if (ipAddress) {
+    const ip = await getAttempt('ip', ipAddress);
+    if (ip?.blocked_until && ip.blocked_until > now) {
+      throw new Error('Too many failed login attempts from this address. Try again later');
+    }
+  }
+}
+
+async function recordFailure(scope: LoginAttemptScope, identifier: string, userId: number | null, ipAddress: string | null): Promise<void> {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - ATTEMPT_WINDOW_MS);
+
+  // A finished lockout or a long quiet period wipes the slate. The count is bumped in SQL so
+  // concurrent failures can't read the same value and each write back the same total.
+  const expired = sql`((${loginAttemptsTable.locked_at} IS NOT NULL AND ${loginAttemptsTable.blocked_until} <= ${now.toISOString()})
+    OR ${loginAttemptsTable.last_failed_at} < ${windowStart.toISOString()})`;
+
+  const [attempt] = await db.insert(loginAttemptsTable)
+    .values({ scope, identifier, failed_count: 1, last_failed_at: now })
+    .onConflictDoUpdate({
+      target: [loginAttemptsTable.scope, loginAttemptsTable.identifier],
+      set: {
+        failed_count: sql`CASE WHEN ${expired} THEN 1 ELSE ${loginAttemptsTable.failed_count} + 1 END`,
+        locked_at: sql`CASE WHEN ${expired} THEN NULL ELSE ${loginAttemptsTable.locked_at} END`,
+        last_failed_at: now
+      }
+    })
+    .returning()
+    .execute();
+
+  const failedCount = attempt.failed_count;
+  const locked = failedCount >= THROTTLE_POLICIES[scope].lockoutThreshold;
+  const blockedUntil = locked
+    ? new Date(now.getTime() + LOCKOUT_DURATION_MS)
+    : new Date(now.getTime() + backoffDelay(scope, failedCount));
+
+  // Skipped when a concurrent failure has already counted past this one; it sets its own block
+  await db.update(loginAttemptsTable)
+    .set({ blocked_until: blockedUntil, locked_at: locked ? attempt.locked_at ?? now : null })
+    .where(and(
+      eq(loginAttemptsTable.id, attempt.id),
+      eq(loginAttemptsTable.failed_count, failedCount)
+    ))
+    .execute();
+
+  if (locked) {
+    await recordAuditEvent({
+      action: scope === 'account' ? 'account_locked' : 'ip_locked',
+      targetUserId: userId,
+      ipAddress,
+      details: { identifier, failedCount, lockedUntil: blockedUntil.toISOString() }
+    });
+  }
+}
+
+// Count a failed sign-in against both the account and the client address
+export async function recordLoginFailure(email: string, ipAddress: string | null, userId: number | null): Promise<void> {
+  await recordFailure('account', normalizeEmail(email), userId, ipAddress);
+  if (ipAddress) {
+    await recordFailure('ip', ipAddress, userId, ipAddress);
+  }
+}
+
+// A successful sign-in clears the account's counter; the address keeps its history
+export async function clearLoginFailures(email: string): Promise<void> {
+  await db.delete(loginAttemptsTable)
+    .where(and(
+      eq(loginAttemptsTable.scope, 'account'),
+      eq(loginAttemptsTable.identifier, normalizeEmail(email))
+    ))
+    .execute();
+}
@@ -0,0 +1,478 @@
+import { db, type Transaction } from '../db';
+import { usersTable, enrollmentsTable, mediaAssetsTable, userMediaQuotasTable } from '../db/schema';
+import {
+  type MediaAsset,
+  type MediaDownloadUrl,
+  type MediaPurpose,
+  type MediaUsage,
+  type SetMediaQuotaInput,
+  type UploadMediaInput,
+  type UserRole,
+  type LessonBlock
+} from '../schema';
+import { getStorageDriver } from '../storage';
+import { assertCourseCapability, getCourseRole } from './courseStaff';
+import { hasPermission } from './permissions';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import path from 'path';
+import { eq, and, desc, inArray, sum } from 'drizzle-orm';
+
+const APP_URL = process.env['APP_URL'] || 'http://localhost:5173';
+// Where the server's /media route is reachable from the browser; the client proxies /api to the server
+const MEDIA_BASE_URL = process.env['MEDIA_BASE_URL'] || `${APP_URL}/api`;
+const MEDIA_URL_SECRET = process.env['MEDIA_URL_SECRET'] || 'your-media-url-secret';
+
+// Long enough to watch a lesson video without the link expiring part way through
+export const MEDIA_URL_TTL_SECONDS = 4 * 60 * 60;
+
+const MB = 1024 * 1024;
+
+export const DEFAULT_MEDIA_QUOTA_BYTES: Record<UserRole, number> = {
+  student: 20 * MB,
+  instructor: 2048 * MB,
+  administrator: 2048 * MB
+};
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+const MEDIA_RULES: Record<MediaPurpose, { label: string; mimeTypes: string[]; maxBytes: number; isPublic: boolean }> = {
+  avatar: { label: 'Avatar', mimeTypes: IMAGE_TYPES, maxBytes: 2 * MB, isPublic: true },
+  course_thumbnail: { label: 'Thumbnail', mimeTypes: IMAGE_TYPES, maxBytes: 5 * MB, isPublic: true },
+  lesson_video: { label: 'Video', mimeTypes: ['video/mp4', 'video/webm', 'video/ogg'], maxBytes: 50 * MB, isPublic: false },
+  lesson_attachment: {
+    label: 'Attachment',
+    mimeTypes: [
+      ...IMAGE_TYPES,
+      'application/pdf',
+      'application/zip',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      'text/plain',
+      'text/csv'
+    ],
+    maxBytes: 25 * MB,
+    isPublic: false
+  }
+};
+
+function startsWith(data: Buffer, bytes: number[] | string, offset = 0): boolean {
+  const expected = typeof bytes === 'string' ? Buffer.from(bytes, 'latin1') : Buffer.from(bytes);
+  return data.subarray(offset, offset + expected.length).equals(expected);
+}
+
+const isZip = (data: Buffer) => startsWith(data, 'PK\x03\x04');
+const isText = (data: Buffer) => !data.includes(0);
+
+// The declared type must match the file's content, so a renamed script can't pass as an image
+const CONTENT_CHECKS: Record<string, (data: Buffer) => boolean> = {
+  'image/jpeg': data => startsWith(data, [0xff, 0xd8, 0xff]),
+  'image/png': data => startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  'image/gif': data => startsWith(data, 'GIF87a') || startsWith(data, 'GIF89a'),
+  'image/webp': data => startsWith(data, 'RIFF') && startsWith(data, 'WEBP', 8),
+  'video/mp4': data => startsWith(data, 'ftyp', 4),
+  'video/webm': data => startsWith(data, [0x1a, 0x45, 0xdf, 0xa3]),
+  'video/ogg': data => startsWith(data, 'OggS'),
+  'application/pdf': data => startsWith(data, '%PDF-'),
+  'application/zip': isZip,
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': isZip,
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': isZip,
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': isZip,
+  'text/plain': isText,
+  'text/csv': isText
+};
+
+type MediaAssetRow = typeof mediaAssetsTable.$inferSelect;
+
+function mediaUrl(mediaId: number): string {
+  return `${MEDIA_BASE_URL}/media/${mediaId}`;
+}
+
+function signMedia(mediaId: number, expires: number): string {
+  return createHmac('sha256', MEDIA_URL_SECRET).update(`${mediaId}:${expires}`).digest('base64url');
+}
+
+function toMediaAsset(row: MediaAssetRow): MediaAsset {
+  const { storage_key, ...asset } = row;
+  return { ...asset, url: mediaUrl(row.id) };
+}
+
+export function isPublicMedia(purpose: MediaPurpose): boolean {
+  return MEDIA_RULES[purpose].isPublic;
+}
+
+async function findAsset(mediaId: number): Promise<MediaAssetRow> {
+  const assets = await db.select()
+    .from(mediaAssetsTable)
+    .where(eq(mediaAssetsTable.id, mediaId))
+    .execute();
+
+  if (assets.length === 0) {
+    throw new Error('Media not found');
+  }
+  return assets[0];
+}
+
+type Executor = typeof db | Transaction;
+
+async function getMediaQuota(userId: number, executor: Executor = db): Promise<number> {
+  const quotas = await executor.select()
+    .from(userMediaQuotasTable)
+    .where(eq(userMediaQuotasTable.user_id, userId))
+    .execute();
+  if (quotas.length > 0) {
+    return quotas[0].quota_bytes;
+  }
+
+  const users = await executor.select({ role: usersTable.role })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+  if (users.length === 0) {
+    throw new Error('User not found');
+  }
+  return DEFAULT_MEDIA_QUOTA_BYTES[users[0].role];
+}
+
+async function getUsedBytes(userId: number, executor: Executor = db): Promise<number> {
+  const result = await executor.select({ total: sum(mediaAssetsTable.size_bytes) })
+    .from(mediaAssetsTable)
+    .where(eq(mediaAssetsTable.owner_id, userId))
+    .execute();
+  return Number(result[0]?.total ?? 0);
+}
+
+async function assertWithinQuota(userId: number, size: number, executor: Executor = db, action = 'This upload'): Promise<void> {
+  const [quota, used] = await Promise.all([getMediaQuota(userId, executor), getUsedBytes(userId, executor)]);
+  if (used + size > quota) {
+    throw new Error(`${action} would exceed your storage quota of ${formatMegabytes(quota)}; delete unused files first`);
+  }
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round((bytes / MB) * 10) / 10} MB`;
+}
+
+export async function uploadMedia(input: UploadMediaInput, userId: number): Promise<MediaAsset> {
+  try {
+    const rules = MEDIA_RULES[input.purpose];
+
+    if (input.purpose === 'avatar' && input.course_id !== null) {
+      throw new Error('Avatars can\'t belong to a course');
+    }
+    // Thumbnails may be uploaded while the course is being created, before it has an id
+    if (input.course_id === null && input.purpose !== 'avatar' && input.purpose !== 'course_thumbnail') {
+      throw new Error('Choose the course this file belongs to');
+    }
+    if (input.course_id !== null) {
+      await assertCourseCapability(input.course_id, userId, 'edit_content', 'upload files to this course');
+    }
+
+    if (!rules.mimeTypes.includes(input.mime_type)) {
+      throw new Error(`${rules.label} uploads must be one of: ${rules.mimeTypes.join(', ')}`);
+    }
+
+    const data = Buffer.from(input.data, 'base64');
+    if (data.length === 0) {
+      throw new Error('The file is empty');
+    }
+    if (data.length > rules.maxBytes) {
+      throw new Error(`${rules.label} uploads are limited to ${formatMegabytes(rules.maxBytes)}`);
+    }
+    if (!CONTENT_CHECKS[input.mime_type](data)) {
+      throw new Error(`The file's content doesn't match its type ${input.mime_type}`);
+    }
+
+    // Cheap early rejection; the check that counts happens under the lock below
+    await assertWithinQuota(userId, data.length);
+
+    // Keys are random so stored files can't be guessed or collide; the original name is kept in the row
+    const storageKey = `${userId}/${randomUUID()}`;
+    const storage = getStorageDriver();
+    await storage.put(storageKey, data, input.mime_type);
+
+    try {
+      const result = await db.transaction(async (tx) => {
+        // Locking the owner's row serialises their uploads, so two can't both fit the same free space.
+        // Every user has this row, unlike quota rows, which only exist once an admin sets one.
+        await tx.select({ id: usersTable.id })
+          .from(usersTable)
+          .where(eq(usersTable.id, userId))
+          .for('update')
+          .execute();
+        await assertWithinQuota(userId, data.length, tx);
+
+        return await tx.insert(mediaAssetsTable)
+          .values({
+            owner_id: userId,
+            course_id: input.course_id,
+            purpose: input.purpose,
+            file_name: path.basename(input.file_name.replace(/\\/g, '/')),
+            mime_type: input.mime_type,
+            size_bytes: data.length,
+            storage_key: storageKey
+          })
+          .returning()
+          .execute();
+      });
+
+      return toMediaAsset(result[0]);
+    } catch (error) {
+      await storage.delete(storageKey);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Media upload failed:', error);
+    throw error;
+  }
+}
+
+export async function getMyMedia(userId: number): Promise<MediaUsage> {
+  try {
+    const assets = await db.select()
+      .from(mediaAssetsTable)
+      .where(eq(mediaAssetsTable.owner_id, userId))
+      .orderBy(desc(mediaAssetsTable.created_at), desc(mediaAssetsTable.id))
+      .execute();
+
+    return {
+      used_bytes: assets.reduce((total, asset) => total + asset.size_bytes, 0),
+      quota_bytes: await getMediaQuota(userId),
+      assets: assets.map(toMediaAsset)
+    };
+  } catch (error) {
+    console.error('Failed to fetch media:', error);
+    throw error;
+  }
+}
+
+export async function deleteMedia(mediaId: number, userId: number): Promise<{ success: boolean }> {
+  try {
+    const asset = await findAsset(mediaId);
+    if (asset.owner_id !== userId) {
+      throw new Error('You do not have permission to delete this file');
+    }
+
+    await db.delete(mediaAssetsTable)
+      .where(eq(mediaAssetsTable.id, mediaId))
+      .execute();
+    await getStorageDriver().delete(asset.storage_key);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Media deletion failed:', error);
+    throw error;
+  }
+}
+
+async function canDownload(asset: MediaAssetRow, userId: number): Promise<boolean> {
+  if (asset.owner_id === userId || isPublicMedia(asset.purpose)) {
+    return true;
+  }
+  if (asset.course_id === null) {
+    return false;
+  }
+
+  if (await getCourseRole(asset.course_id, userId) !== null) {
+    return true;
+  }
+
+  const enrollments = await db.select({ id: enrollmentsTable.id })
+    .from(enrollmentsTable)
+    .where(and(
+      eq(enrollmentsTable.student_id, userId),
+      eq(enrollmentsTable.course_id, asset.course_id)
+    ))
+    .execute();
+  if (enrollments.length > 0) {
+    return true;
+  }
+
+  // Moderators review course content before it is published
+  return hasPermission(userId, 'courses.moderate');
+}
+
+// Course videos and attachments are only served through links signed for a limited time, handed
+// out to the course's staff and students
+export async function getMediaDownloadUrl(mediaId: number, userId: number, now: Date = new Date()): Promise<MediaDownloadUrl> {
+  try {
+    const asset = await findAsset(mediaId);
+    if (!(await canDownload(asset, userId))) {
+      throw new Error('You do not have permission to download this file');
+    }
+
+    if (isPublicMedia(asset.purpose)) {
+      return { url: mediaUrl(asset.id), expires_at: null };
+    }
+
+    const expires = Math.floor(now.getTime() / 1000) + MEDIA_URL_TTL_SECONDS;
+    return {
+      url: `${mediaUrl(asset.id)}?expires=${expires}&signature=${signMedia(asset.id, expires)}`,
+      expires_at: new Date(expires * 1000)
+    };
+  } catch (error) {
+    console.error('Failed to sign media URL:', error);
+    throw error;
+  }
+}
+
+// Loads a file for the /media route. Missing files and missing, invalid or expired signatures all
+// return null so the route can't be used to find out which files exist.
+export async function readMedia(
+  mediaId: number,
+  link: { expires: string | null; signature: string | null },
+  now: Date = new Date()
+): Promise<{ asset: MediaAsset; data: Buffer } | null> {
+  const assets = await db.select()
+    .from(mediaAssetsTable)
+    .where(eq(mediaAssetsTable.id, mediaId))
+    .execute();
+  if (assets.length === 0) {
+    return null;
+  }
+  const asset = assets[0];
+
+  if (!isPublicMedia(asset.purpose)) {
+    const expires = Number(link.expires);
+    if (!link.signature || !Number.isInteger(expires) || expires * 1000 <= now.getTime()) {
+      return null;
+    }
+    const expected = Buffer.from(signMedia(asset.id, expires));
+    const actual = Buffer.from(link.signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+  }
+
+  const data = await getStorageDriver().get(asset.storage_key);
+  return data ? { asset: toMediaAsset(asset), data } : null;
+}
+
+// Lesson content that can link to uploaded files
+interface MediaLinkingLesson {
+  video_url: string | null;
+  blocks: LessonBlock[];
+}
+
+// The id of the uploaded file a permanent media address points at
+function linkedMediaId(url: string): number | null {
+  const prefix = `${MEDIA_BASE_URL}/media/`;
+  const id = url.startsWith(prefix) ? url.slice(prefix.length) : '';
+  return /^\d+$/.test(id) ? Number(id) : null;
+}
+
+export async function discardMediaFiles(storageKeys: string[]): Promise<void> {
+  const storage = getStorageDriver();
+  await Promise.all(storageKeys.map(key => storage.delete(key)));
+}
+
+// Course videos and attachments are only served to the course they were uploaded for, so content
+// copied into another course needs its own copy of each file it links to. The copies belong to the
+// user making them and count against their quota; links to files they can't download themselves are
+// left alone. Rewrites the lessons' links and returns the storage keys written, which the caller
+// discards if its transaction fails.
+export async function copyLinkedMedia(tx: Transaction, lessons: MediaLinkingLesson[], courseId: number, userId: number): Promise<string[]> {
+  const linkedIds = new Set<number>();
+  for (const lesson of lessons) {
+    for (const url of [lesson.video_url, ...lesson.blocks.map(block => 'url' in block ? block.url : null)]) {
+      const id = url === null ? null : linkedMediaId(url);
+      if (id !== null) linkedIds.add(id);
+    }
+  }
+  if (linkedIds.size === 0) {
+    return [];
+  }
+
+  const linked = await tx.select()
+    .from(mediaAssetsTable)
+    .where(inArray(mediaAssetsTable.id, [...linkedIds]))
+    .execute();
+  const assets: MediaAssetRow[] = [];
+  for (const asset of linked) {
+    if (asset.course_id !== null && asset.course_id !== courseId && !isPublicMedia(asset.purpose) && await canDownload(asset, userId)) {
+      assets.push(asset);
+    }
+  }
+  if (assets.length === 0) {
+    return [];
+  }
+
+  // Serialised with the user's uploads, as in uploadMedia
+  await tx.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .for('update')
+    .execute();
+  await assertWithinQuota(userId, assets.reduce((total, asset) => total + asset.size_bytes, 0), tx, 'Copying the linked files');
+
+  const storage = getStorageDriver();
+  const storageKeys: string[] = [];
+  const copies = new Map<string, string>();
+  try {
+    for (const asset of assets) {
+      const data = await storage.get(asset.storage_key);
+      if (!data) continue;
+
+      const storageKey = `${userId}/${randomUUID()}`;
+      await storage.put(storageKey, data, asset.mime_type);
+      storageKeys.push(storageKey);
+
+      const copy = await tx.insert(mediaAssetsTable)
+        .values({
+          owner_id: userId,
+          course_id: courseId,
+          purpose: asset.purpose,
+          file_name: asset.file_name,
+          mime_type: asset.mime_type,
+          size_bytes: asset.size_bytes,
+          storage_key: storageKey
+        })
+        .returning()
+        .execute();
+      copies.set(mediaUrl(asset.id), mediaUrl(copy[0].id));
+    }
+  } catch (error) {
+    await discardMediaFiles(storageKeys);
+    throw error;
+  }
+
+  // Blocks are replaced rather than edited, as they may be shared with the content being copied
+  for (const lesson of lessons) {
+    if (lesson.video_url !== null) {
+      lesson.video_url = copies.get(lesson.video_url) ?? lesson.video_url;
+    }
+    lesson.blocks = lesson.blocks.map(block => 'url' in block && copies.has(block.url) ? { ...block, url: copies.get(block.url)! } : block);
+  }
+  return storageKeys;
+}
+
+export async function setMediaQuota(input: SetMediaQuotaInput): Promise<MediaUsage> {
+  try {
+    const users = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.id, input.userId))
+      .execute();
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    if (input.quota_bytes === null) {
+      await db.delete(userMediaQuotasTable)
+        .where(eq(userMediaQuotasTable.user_id, input.userId))
+        .execute();
+    } else {
+      await db.insert(userMediaQuotasTable)
+        .values({ user_id: input.userId, quota_bytes: input.quota_bytes })
+        .onConflictDoUpdate({
+          target: userMediaQuotasTable.user_id,
+          set: { quota_bytes: input.quota_bytes, updated_at: new Date() }
+        })
+        .execute();
+    }
+
+    return await getMyMedia(input.userId);
+  } catch (error) {
+    console.error('Failed to set media quota:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,184 @@
+import { db, type Transaction } from '../db';
+import { coursesTable, courseModerationEventsTable, lessonsTable, usersTable } from '../db/schema';
+import {
+  type Course,
+  type CourseModerationStatus,
+  type ModerationEvent,
+  type ModerationQueueItem
+} from '../schema';
+import { hasPermission, assertPermission } from './permissions';
+import { hasCourseCapability } from './courseStaff';
+import { eq, and, asc, desc, count, isNull, max, sql } from 'drizzle-orm';
+
+// The states a course can move to from each moderation state. Moderators can also take a
+// published course down, which sends it back to the instructor like a rejected submission.
+// Publishing a draft of changes resubmits a published course while it stays live.
+const MODERATION_TRANSITIONS: Record<CourseModerationStatus, CourseModerationStatus[]> = {
+  draft: ['submitted'],
+  submitted: ['approved', 'rejected'],
+  approved: ['published'],
+  rejected: ['submitted'],
+  published: ['submitted', 'rejected']
+};
+
+const STATUS_LABELS: Record<CourseModerationStatus, string> = {
+  draft: 'a draft',
+  submitted: 'awaiting review',
+  approved: 'approved',
+  rejected: 'rejected',
+  published: 'published'
+};
+
+type CourseRow = typeof coursesTable.$inferSelect;
+
+// Moves a course to another moderation state and records the change in its history
+export async function transitionCourseModeration(
+  executor: typeof db | Transaction,
+  course: CourseRow,
+  to: CourseModerationStatus,
+  actorId: number,
+  reason: string | null = null
+): Promise<CourseRow> {
+  if (!MODERATION_TRANSITIONS[course.moderation_status].includes(to)) {
+    throw new Error(`Cannot mark a course ${to} while it is ${STATUS_LABELS[course.moderation_status]}`);
+  }
+
+  const result = await executor.update(coursesTable)
+    .set({
+      moderation_status: to,
+      // Taking a live course down removes it from the catalog. Rejected changes to a live course
+      // leave it up, with the changes still in its draft.
+      ...(to === 'rejected' && course.moderation_status === 'published' ? { is_published: false } : {}),
+      updated_at: new Date()
+    })
+    .where(eq(coursesTable.id, course.id))
+    .returning()
+    .execute();
+
+  await executor.insert(courseModerationEventsTable)
+    .values({
+      course_id: course.id,
+      actor_id: actorId,
+      from_status: course.moderation_status,
+      to_status: to,
+      reason
+    })
+    .execute();
+
+  return result[0];
+}
+
+export async function submitCourseForReview(courseId: number, instructorId: number): Promise<Course> {
+  try {
+    const courses = await db.select()
+      .from(coursesTable)
+      .where(and(eq(coursesTable.id, courseId), isNull(coursesTable.deleted_at)))
+      .execute();
+
+    if (!courses.length) {
+      throw new Error('Course not found');
+    }
+
+    if (!(await hasCourseCapability(courseId, instructorId, 'publish'))) {
+      throw new Error('You do not have permission to submit this course');
+    }
+
+    const lessons = await db.select({ total: count() })
+      .from(lessonsTable)
+      .where(and(eq(lessonsTable.course_id, courseId), isNull(lessonsTable.deleted_at)))
+      .execute();
+
+    if (lessons[0].total === 0) {
+      throw new Error('Course must have at least one lesson before it can be submitted for review');
+    }
+
+    const course = await transitionCourseModeration(db, courses[0], 'submitted', instructorId);
+    return {
+      ...course,
+      price: parseFloat(course.price),
+      duration_hours: parseFloat(course.duration_hours)
+    };
+  } catch (error) {
+    console.error('Course submission failed:', error);
+    throw error;
+  }
+}
+
+// Submitted courses, longest waiting first
+export async function getModerationQueue(moderatorId: number): Promise<ModerationQueueItem[]> {
+  try {
+    await assertPermission(moderatorId, 'courses.moderate');
+
+    const submittedAt = db.select({
+      course_id: courseModerationEventsTable.course_id,
+      submitted_at: max(courseModerationEventsTable.created_at).as('submitted_at')
+    })
+      .from(courseModerationEventsTable)
+      .where(eq(courseModerationEventsTable.to_status, 'submitted'))
+      .groupBy(courseModerationEventsTable.course_id)
+      .as('submissions');
+
+    const results = await db.select({
+      course: coursesTable,
+      first_name: usersTable.first_name,
+      last_name: usersTable.last_name,
+      submitted_at: submittedAt.submitted_at,
+      lesson_count: sql<number>`(select count(*) from ${lessonsTable} where ${lessonsTable.course_id} = ${coursesTable.id} and ${lessonsTable.deleted_at} is null)`.mapWith(Number)
+    })
+      .from(coursesTable)
+      .innerJoin(usersTable, eq(coursesTable.instructor_id, usersTable.id))
+      .innerJoin(submittedAt, eq(submittedAt.course_id, coursesTable.id))
+      .where(eq(coursesTable.moderation_status, 'submitted'))
+      .orderBy(asc(submittedAt.submitted_at))
+      .execute();
+
+    return results.map(row => ({
+      ...row.course,
+      price: parseFloat(row.course.price),
+      duration_hours: parseFloat(row.course.duration_hours),
+      instructor_name: `${row.first_name} ${row.last_name}`,
+      lesson_count: row.lesson_count,
+      submitted_at: row.submitted_at!
+    }));
+  } catch (error) {
+    console.error('Failed to fetch moderation queue:', error);
+    throw error;
+  }
+}
+
+// Newest first; visible to the course instructor and to moderators
+export async function getCourseModerationHistory(courseId: number, userId: number): Promise<ModerationEvent[]> {
+  try {
+    const courses = await db.select()
+      .from(coursesTable)
+      .where(eq(coursesTable.id, courseId))
+      .execute();
+
+    if (!courses.length) {
+      throw new Error('Course not found');
+    }
+
+    if (!(await hasCourseCapability(courseId, userId, 'publish')) && !(await hasPermission(userId, 'courses.moderate'))) {
+      throw new Error('You do not have permission to view this course\'s moderation history');
+    }
+
+    const results = await db.select({
+      event: courseModerationEventsTable,
+      first_name: usersTable.first_name,
+      last_name: usersTable.last_name
+    })
+      .from(courseModerationEventsTable)
+      .leftJoin(usersTable, eq(courseModerationEventsTable.actor_id, usersTable.id))
+      .where(eq(courseModerationEventsTable.course_id, courseId))
+      .orderBy(desc(courseModerationEventsTable.created_at), desc(courseModerationEventsTable.id))
+      .execute();
+
+    return results.map(row => ({
+      ...row.event,
+      actor_name: row.first_name !== null ? `${row.first_name} ${row.last_name}` : null
+    }));
+  } catch (error) {
+    console.error('Failed to fetch moderation history:', error);
+    throw error;
+  }
+}
@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { paymentsTable, couponsTable, coursesTable, usersTable, enrollmentsTable } from '../db/schema';
 import { type CreatePaymentInput, type Payment, type CreateCouponInput, type Coupon } from '../schema';
+import { assertPrerequisitesMet } from './prerequisites';
 import { eq, and, or, isNull, lt, gte } from 'drizzle-orm';
 
 export async function createPayment(input: CreatePaymentInput, userId: number): Promise<Payment> {
@@ -24,6 +25,10 @@ export async function createPayment(input: CreatePaymentInput, userId: number):
       throw new Error('Course not found');
     }
 
+    // Don't take payment for a course the user can't enroll in yet; recommended prerequisites
+    // were already shown to them before checkout
+    await assertPrerequisitesMet(input.course_id, userId, true);
+
     let originalAmount = parseFloat(course[0].price);
     let finalAmount = originalAmount;
     let couponId = null;
@@ -72,19 +77,23 @@ export async function createPayment(input: CreatePaymentInput, userId: number):
 
 export async function processPayment(paymentId: number, transactionId: string): Promise<Payment> {
   try {
-    // Update payment status
+    // Only pending payments complete, so a payment can't enroll its buyer twice
     const result = await db.update(paymentsTable)
       .set({ 
         status: 'completed',
         transaction_id: transactionId,
         updated_at: new Date()
       })
-      .where(eq(paymentsTable.id, paymentId))
+      .where(and(eq(paymentsTable.id, paymentId), eq(paymentsTable.status, 'pending')))
       .returning()
       .execute();
 
     if (result.length === 0) {
-      throw new Error('Payment not found');
+      const existing = await db.select()
+        .from(paymentsTable)
+        .where(eq(paymentsTable.id, paymentId))
+        .execute();
+      throw new Error(existing.length === 0 ? 'Payment not found' : 'Only pending payments can be processed');
     }
 
     const payment = result[0];
@@ -0,0 +1,187 @@
+import { db } from '../db';
+import { usersTable, coursesTable, userPermissionGrantsTable } from '../db/schema';
+import { type Permission, type PermissionRole, type PermissionGrant, type GrantPermissionInput } from '../schema';
+import { recordAuditEvent } from './audit';
+import { hasCourseCapability } from './courseStaff';
+import { eq, and, isNull, desc } from 'drizzle-orm';
+
+// What each grantable role allows; course-scoped roles only apply to the course they were granted for
+export const PERMISSION_ROLES: Record<PermissionRole, { courseScoped: boolean; permissions: Permission[] }> = {
+  teaching_assistant: {
+    courseScoped: true,
+    permissions: ['course.view_roster', 'course.grade']
+  },
+  finance_viewer: {
+    courseScoped: false,
+    permissions: ['revenue.view', 'analytics.view']
+  },
+  content_moderator: {
+    courseScoped: false,
+    permissions: ['courses.moderate', 'categories.manage']
+  }
+};
+
+const COURSE_PERMISSIONS: Permission[] = ['course.view_roster', 'course.grade'];
+
+// The course staff capability that carries each course-scoped permission
+const COURSE_PERMISSION_CAPABILITIES = {
+  'course.view_roster': 'view_roster',
+  'course.grade': 'grade'
+} as const;
+
+// Administrators hold every permission, course staff hold course permissions their role allows,
+// everyone else needs a matching grant
+export async function hasPermission(userId: number, permission: Permission, scope: { courseId?: number } = {}): Promise<boolean> {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0 || !users[0].is_active) {
+    return false;
+  }
+
+  if (users[0].role === 'administrator') {
+    return true;
+  }
+
+  const courseScoped = COURSE_PERMISSIONS.includes(permission);
+  if (courseScoped) {
+    if (scope.courseId === undefined) {
+      return false;
+    }
+
+    const capability = COURSE_PERMISSION_CAPABILITIES[permission as keyof typeof COURSE_PERMISSION_CAPABILITIES];
+    if (await hasCourseCapability(scope.courseId, userId, capability)) {
+      return true;
+    }
+  }
+
+  const grants = await db.select()
+    .from(userPermissionGrantsTable)
+    .where(eq(userPermissionGrantsTable.user_id, userId))
+    .execute();
+
+  return grants.some(grant =>
+    PERMISSION_ROLES[grant.role].permissions.includes(permission) &&
+    (!courseScoped || grant.course_id === scope.courseId)
+  );
+}
+
+export async function assertPermission(userId: number, permission: Permission, scope: { courseId?: number } = {}): Promise<void> {
+  if (!(await hasPermission(userId, permission, scope))) {
+    throw new Error(scope.courseId === undefined
+      ? 'Unauthorized: Admin access required'
+      : 'Unauthorized: Course access required');
+  }
+}
+
+export async function getUserPermissionGrants(userId: number, adminId: number): Promise<PermissionGrant[]> {
+  try {
+    await assertPermission(adminId, 'permissions.manage');
+
+    return await db.select()
+      .from(userPermissionGrantsTable)
+      .where(eq(userPermissionGrantsTable.user_id, userId))
+      .orderBy(desc(userPermissionGrantsTable.created_at))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch permission grants:', error);
+    throw error;
+  }
+}
+
+export async function grantPermissionRole(input: GrantPermissionInput, adminId: number): Promise<PermissionGrant> {
+  try {
+    await assertPermission(adminId, 'permissions.manage');
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const courseId = input.courseId ?? null;
+    if (PERMISSION_ROLES[input.role].courseScoped) {
+      if (courseId === null) {
+        throw new Error('A course is required for this role');
+      }
+
+      const courses = await db.select()
+        .from(coursesTable)
+        .where(eq(coursesTable.id, courseId))
+        .execute();
+
+      if (courses.length === 0) {
+        throw new Error('Course not found');
+      }
+    } else if (courseId !== null) {
+      throw new Error('This role cannot be limited to a course');
+    }
+
+    const existing = await db.select()
+      .from(userPermissionGrantsTable)
+      .where(and(
+        eq(userPermissionGrantsTable.user_id, input.userId),
+        eq(userPermissionGrantsTable.role, input.role),
+        courseId === null ? isNull(userPermissionGrantsTable.course_id) : eq(userPermissionGrantsTable.course_id, courseId)
+      ))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error('Permission already granted');
+    }
+
+    const result = await db.insert(userPermissionGrantsTable)
+      .values({
+        user_id: input.userId,
+        role: input.role,
+        course_id: courseId,
+        granted_by: adminId
+      })
+      .returning()
+      .execute();
+
+    await recordAuditEvent({
+      action: 'permission_granted',
+      actorId: adminId,
+      targetUserId: input.userId,
+      details: { role: input.role, courseId }
+    });
+
+    return result[0];
+  } catch (error) {
+    console.error('Failed to grant permission:', error);
+    throw error;
+  }
+}
+
+export async function revokePermissionGrant(grantId: number, adminId: number): Promise<{ success: boolean }> {
+  try {
+    await assertPermission(adminId, 'permissions.manage');
+
+    const result = await db.delete(userPermissionGrantsTable)
+      .where(eq(userPermissionGrantsTable.id, grantId))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Permission grant not found');
+    }
+
+    await recordAuditEvent({
+      action: 'permission_revoked',
+      actorId: adminId,
+      targetUserId: result[0].user_id,
+      details: { role: result[0].role, courseId: result[0].course_id }
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to revoke permission:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,187 @@
+import { db } from '../db';
+import { coursePrerequisitesTable, coursesTable, enrollmentsTable, certificatesTable } from '../db/schema';
+import { type CoursePrerequisite, type PrerequisiteStatus, type PrerequisiteInput } from '../schema';
+import { hasCourseCapability } from './courseStaff';
+import { eq, and, asc, inArray } from 'drizzle-orm';
+
+async function findPrerequisites(courseId: number): Promise<CoursePrerequisite[]> {
+  const results = await db.select({
+    prerequisite: coursePrerequisitesTable,
+    prerequisite_title: coursesTable.title
+  })
+    .from(coursePrerequisitesTable)
+    .innerJoin(coursesTable, eq(coursePrerequisitesTable.prerequisite_course_id, coursesTable.id))
+    .where(eq(coursePrerequisitesTable.course_id, courseId))
+    .orderBy(asc(coursePrerequisitesTable.id))
+    .execute();
+
+  return results.map(row => ({
+    id: row.prerequisite.id,
+    course_id: row.prerequisite.course_id,
+    prerequisite_course_id: row.prerequisite.prerequisite_course_id,
+    prerequisite_title: row.prerequisite_title,
+    is_required: row.prerequisite.is_required,
+    requires_certificate: row.prerequisite.requires_certificate
+  }));
+}
+
+// Whether following prerequisites from any of startIds leads back to targetId
+function reaches(edges: Map<number, number[]>, startIds: number[], targetId: number): boolean {
+  const seen = new Set<number>();
+  const pending = [...startIds];
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (id === targetId) {
+      return true;
+    }
+    if (seen.has(id)) {
+      continue;
+    }
+    seen.add(id);
+    pending.push(...(edges.get(id) ?? []));
+  }
+
+  return false;
+}
+
+export async function getCoursePrerequisites(courseId: number): Promise<CoursePrerequisite[]> {
+  try {
+    return await findPrerequisites(courseId);
+  } catch (error) {
+    console.error('Failed to fetch course prerequisites:', error);
+    throw error;
+  }
+}
+
+// Replaces the course's prerequisites with the given list
+export async function setCoursePrerequisites(courseId: number, prerequisites: PrerequisiteInput[], instructorId: number): Promise<CoursePrerequisite[]> {
+  try {
+    const courses = await db.select()
+      .from(coursesTable)
+      .where(eq(coursesTable.id, courseId))
+      .execute();
+
+    if (!courses.length) {
+      throw new Error('Course not found');
+    }
+
+    if (!(await hasCourseCapability(courseId, instructorId, 'edit_content'))) {
+      throw new Error('You do not have permission to edit this course\'s prerequisites');
+    }
+
+    const prerequisiteIds = prerequisites.map(prerequisite => prerequisite.course_id);
+    if (new Set(prerequisiteIds).size !== prerequisiteIds.length) {
+      throw new Error('Each prerequisite course can only be listed once');
+    }
+    if (prerequisiteIds.includes(courseId)) {
+      throw new Error('A course cannot be its own prerequisite');
+    }
+
+    if (prerequisiteIds.length > 0) {
+      const existing = await db.select({ id: coursesTable.id })
+        .from(coursesTable)
+        .where(inArray(coursesTable.id, prerequisiteIds))
+        .execute();
+
+      if (existing.length !== prerequisiteIds.length) {
+        throw new Error('Prerequisite course not found');
+      }
+
+      // Reject chains that would eventually require this course before itself
+      const rows = await db.select().from(coursePrerequisitesTable).execute();
+      const edges = new Map<number, number[]>();
+      for (const row of rows) {
+        if (row.course_id !== courseId) {
+          edges.set(row.course_id, [...(edges.get(row.course_id) ?? []), row.prerequisite_course_id]);
+        }
+      }
+
+      if (reaches(edges, prerequisiteIds, courseId)) {
+        throw new Error('These prerequisites would create a circular requirement');
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(coursePrerequisitesTable)
+        .where(eq(coursePrerequisitesTable.course_id, courseId))
+        .execute();
+
+      if (prerequisites.length > 0) {
+        await tx.insert(coursePrerequisitesTable)
+          .values(prerequisites.map(prerequisite => ({
+            course_id: courseId,
+            prerequisite_course_id: prerequisite.course_id,
+            is_required: prerequisite.is_required,
+            requires_certificate: prerequisite.requires_certificate
+          })))
+          .execute();
+      }
+    });
+
+    return await findPrerequisites(courseId);
+  } catch (error) {
+    console.error('Failed to set course prerequisites:', error);
+    throw error;
+  }
+}
+
+// A prerequisite is met once the student has completed it, and holds its certificate when one is required
+export async function getPrerequisiteStatus(courseId: number, studentId: number): Promise<PrerequisiteStatus[]> {
+  try {
+    const prerequisites = await findPrerequisites(courseId);
+    if (prerequisites.length === 0) {
+      return [];
+    }
+
+    const prerequisiteIds = prerequisites.map(prerequisite => prerequisite.prerequisite_course_id);
+
+    const completed = await db.select({ course_id: enrollmentsTable.course_id })
+      .from(enrollmentsTable)
+      .where(and(
+        eq(enrollmentsTable.student_id, studentId),
+        eq(enrollmentsTable.is_completed, true),
+        inArray(enrollmentsTable.course_id, prerequisiteIds)
+      ))
+      .execute();
+
+    const certified = await db.select({ course_id: certificatesTable.course_id })
+      .from(certificatesTable)
+      .where(and(
+        eq(certificatesTable.student_id, studentId),
+        inArray(certificatesTable.course_id, prerequisiteIds)
+      ))
+      .execute();
+
+    const completedIds = new Set(completed.map(row => row.course_id));
+    const certifiedIds = new Set(certified.map(row => row.course_id));
+
+    return prerequisites.map(prerequisite => ({
+      ...prerequisite,
+      is_met: completedIds.has(prerequisite.prerequisite_course_id) &&
+        (!prerequisite.requires_certificate || certifiedIds.has(prerequisite.prerequisite_course_id))
+    }));
+  } catch (error) {
+    console.error('Failed to check prerequisites:', error);
+    throw error;
+  }
+}
+
+// Throws when the student is missing a required prerequisite, or a recommended one they haven't
+// acknowledged skipping
+export async function assertPrerequisitesMet(courseId: number, studentId: number, acknowledged: boolean): Promise<void> {
+  const unmet = (await getPrerequisiteStatus(courseId, studentId)).filter(prerequisite => !prerequisite.is_met);
+
+  const describe = (prerequisite: PrerequisiteStatus) =>
+    prerequisite.requires_certificate ? `${prerequisite.prerequisite_title} (with certificate)` : prerequisite.prerequisite_title;
+
+  const missing = unmet.filter(prerequisite => prerequisite.is_required);
+  if (missing.length > 0) {
+    throw new Error(`Complete the prerequisites before enrolling: ${missing.map(describe).join(', ')}`);
+  }
+
+  const recommended = unmet.filter(prerequisite => !prerequisite.is_required);
+  if (recommended.length > 0 && !acknowledged) {
+    throw new Error(`This course recommends completing ${recommended.map(describe).join(', ')} first`);
+  }
+}
@@ -0,0 +1,82 @@
+import { db } from '../db';
+import { usersTable, emailVerificationTokensTable } from '../db/schema';
+import { type Profile, type UpdateProfileInput } from '../schema';
+import { eq, and, gt, isNull, isNotNull, desc } from 'drizzle-orm';
+
+async function getPendingEmail(userId: number): Promise<string | null> {
+  const tokens = await db.select()
+    .from(emailVerificationTokensTable)
+    .where(and(
+      eq(emailVerificationTokensTable.user_id, userId),
+      isNotNull(emailVerificationTokensTable.new_email),
+      isNull(emailVerificationTokensTable.used_at),
+      gt(emailVerificationTokensTable.expires_at, new Date())
+    ))
+    .orderBy(desc(emailVerificationTokensTable.created_at))
+    .limit(1)
+    .execute();
+
+  return tokens[0]?.new_email ?? null;
+}
+
+export async function getMyProfile(userId: number): Promise<Profile> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const { password_hash, ...user } = users[0];
+
+    return {
+      ...user,
+      pending_email: await getPendingEmail(userId)
+    };
+  } catch (error) {
+    console.error('Failed to fetch profile:', error);
+    throw error;
+  }
+}
+
+export async function updateMyProfile(userId: number, input: UpdateProfileInput): Promise<Profile> {
+  try {
+    // Only fields the user may edit themselves; email and password have their own flows
+    const updateData: Partial<typeof usersTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.first_name !== undefined) {
+      updateData.first_name = input.first_name;
+    }
+    if (input.last_name !== undefined) {
+      updateData.last_name = input.last_name;
+    }
+    if (input.avatar_url !== undefined) {
+      updateData.avatar_url = input.avatar_url;
+    }
+
+    const result = await db.update(usersTable)
+      .set(updateData)
+      .where(eq(usersTable.id, userId))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const { password_hash, ...user } = result[0];
+
+    return {
+      ...user,
+      pending_email: await getPendingEmail(userId)
+    };
+  } catch (error) {
+    console.error('Failed to update profile:', error);
+    throw error;
+  }
+}
@@ -13,22 +13,84 @@ import {
   type CreateQuizQuestionInput, 
   type QuizQuestion, 
   type SubmitQuizInput, 
-  type QuizAttempt 
+  type QuizAttempt,
+  type CourseSnapshot,
+  type SnapshotQuiz
 } from '../schema';
-import { eq, and, asc } from 'drizzle-orm';
+import { assertNoOpenDraft, nextDraftId, updateCourseDraft } from './revisions';
+import { assertCourseNotEnded } from './courseSchedule';
+import { assertCourseCapability, hasCourseCapability } from './courseStaff';
+import { hasPermission } from './permissions';
+import { eq, and, asc, isNull } from 'drizzle-orm';
+
+// Quizzes in the trash, or on a lesson in the trash, are treated as gone
+async function findActiveQuiz(quizId: number): Promise<typeof quizzesTable.$inferSelect | null> {
+  const results = await db.select({ quiz: quizzesTable })
+    .from(quizzesTable)
+    .innerJoin(lessonsTable, eq(quizzesTable.lesson_id, lessonsTable.id))
+    .where(and(
+      eq(quizzesTable.id, quizId),
+      isNull(quizzesTable.deleted_at),
+      isNull(lessonsTable.deleted_at)
+    ))
+    .execute();
+
+  return results.length > 0 ? results[0].quiz : null;
+}
 
-export async function createQuiz(input: CreateQuizInput): Promise<Quiz> {
-  try {
-    // Verify lesson exists
-    const lesson = await db.select()
-      .from(lessonsTable)
-      .where(eq(lessonsTable.id, input.lesson_id))
-      .execute();
+async function findActiveLesson(lessonId: number) {
+  return db.select()
+    .from(lessonsTable)
+    .where(and(eq(lessonsTable.id, lessonId), isNull(lessonsTable.deleted_at)))
+    .execute();
+}
+
+// Loads the lesson and checks the user may edit its course's content, e.g. 'add quizzes to this lesson'
+async function assertLessonCapability(lessonId: number, userId: number, action: string) {
+  const lessons = await findActiveLesson(lessonId);
+  if (lessons.length === 0) {
+    throw new Error('Lesson not found');
+  }
+
+  const course = await assertCourseCapability(lessons[0].course_id, userId, 'edit_content', action);
+  return { lesson: lessons[0], course };
+}
 
-    if (lesson.length === 0) {
-      throw new Error('Lesson not found');
+// Live courses take quiz changes into their draft, so students keep seeing the published quiz
+function findDraftQuiz(snapshot: CourseSnapshot, quizId: number): SnapshotQuiz {
+  for (const lesson of snapshot.lessons) {
+    const quiz = lesson.quizzes.find(candidate => candidate.id === quizId);
+    if (quiz) {
+      return quiz;
+    }
+  }
+
+  throw new Error('This quiz has been removed from the course draft');
+}
+
+// Quizzes added to a live course go into its draft and are returned with their draft id
+export async function createQuiz(input: CreateQuizInput, instructorId: number): Promise<Quiz> {
+  try {
+    const { course } = await assertLessonCapability(input.lesson_id, instructorId, 'add quizzes to this lesson');
+
+    if (course.is_published) {
+      const { lesson_id: _lessonId, ...values } = input;
+      let id = 0;
+      await updateCourseDraft(course.id, instructorId, (snapshot: CourseSnapshot) => {
+        const draftLesson = snapshot.lessons.find(candidate => candidate.id === input.lesson_id);
+        if (!draftLesson) {
+          throw new Error('This lesson has been removed from the course draft');
+        }
+        id = nextDraftId(snapshot);
+        draftLesson.quizzes.push({ ...values, id, is_active: true, questions: [] });
+      });
+
+      const now = new Date();
+      return { ...input, id, is_active: true, deleted_at: null, created_at: now, updated_at: now };
     }
 
+    await assertNoOpenDraft(course.id);
+
     const result = await db.insert(quizzesTable)
       .values({
         lesson_id: input.lesson_id,
@@ -49,18 +111,31 @@ export async function createQuiz(input: CreateQuizInput): Promise<Quiz> {
   }
 }
 
-export async function createQuizQuestion(input: CreateQuizQuestionInput): Promise<QuizQuestion> {
+export async function createQuizQuestion(input: CreateQuizQuestionInput, instructorId: number): Promise<QuizQuestion> {
   try {
     // Verify quiz exists
-    const quiz = await db.select()
-      .from(quizzesTable)
-      .where(eq(quizzesTable.id, input.quiz_id))
-      .execute();
+    const quiz = await findActiveQuiz(input.quiz_id);
 
-    if (quiz.length === 0) {
+    if (!quiz) {
       throw new Error('Quiz not found');
     }
 
+    const { course } = await assertLessonCapability(quiz.lesson_id, instructorId, 'add questions to this quiz');
+
+    if (course.is_published) {
+      const { quiz_id: _quizId, ...values } = input;
+      let id = 0;
+      await updateCourseDraft(course.id, instructorId, (snapshot: CourseSnapshot) => {
+        const draftQuiz = findDraftQuiz(snapshot, input.quiz_id);
+        id = nextDraftId(snapshot);
+        draftQuiz.questions.push({ ...values, id });
+      });
+
+      return { ...input, id, created_at: new Date() };
+    }
+
+    await assertNoOpenDraft(course.id);
+
     const result = await db.insert(quizQuestionsTable)
       .values({
         quiz_id: input.quiz_id,
@@ -89,20 +164,30 @@ export async function createQuizQuestion(input: CreateQuizQuestionInput): Promis
 
 export async function getQuizById(quizId: number): Promise<Quiz | null> {
   try {
-    const result = await db.select()
-      .from(quizzesTable)
-      .where(eq(quizzesTable.id, quizId))
-      .execute();
-
-    return result.length > 0 ? result[0] : null;
+    return await findActiveQuiz(quizId);
   } catch (error) {
     console.error('Get quiz failed:', error);
     throw error;
   }
 }
 
-export async function getQuizQuestions(quizId: number, includeAnswers: boolean = false): Promise<QuizQuestion[]> {
+// Answer keys are for the staff who write or grade the quiz's course
+async function canSeeAnswers(quizId: number, userId: number): Promise<boolean> {
+  const quiz = await findActiveQuiz(quizId);
+  if (!quiz) {
+    return false;
+  }
+
+  const lessons = await findActiveLesson(quiz.lesson_id);
+  const courseId = lessons[0].course_id;
+  return (await hasCourseCapability(courseId, userId, 'edit_content'))
+    || (await hasPermission(userId, 'course.grade', { courseId }));
+}
+
+export async function getQuizQuestions(quizId: number, userId: number, includeAnswers: boolean = false): Promise<QuizQuestion[]> {
   try {
+    const showAnswers = includeAnswers && await canSeeAnswers(quizId, userId);
+
     const results = await db.select()
       .from(quizQuestionsTable)
       .where(eq(quizQuestionsTable.quiz_id, quizId))
@@ -116,8 +201,8 @@ export async function getQuizQuestions(quizId: number, includeAnswers: boolean =
         options: question.options as string[] | null
       };
 
-      // Hide correct answers from students
-      if (!includeAnswers) {
+      // Hide correct answers from students and other courses' staff
+      if (!showAnswers) {
         return {
           ...formattedQuestion,
           correct_answer: ''
@@ -135,16 +220,20 @@ export async function getQuizQuestions(quizId: number, includeAnswers: boolean =
 export async function submitQuiz(input: SubmitQuizInput, studentId: number): Promise<QuizAttempt> {
   try {
     // Verify quiz exists
-    const quiz = await db.select()
-      .from(quizzesTable)
-      .where(eq(quizzesTable.id, input.quiz_id))
-      .execute();
+    const currentQuiz = await findActiveQuiz(input.quiz_id);
 
-    if (quiz.length === 0) {
+    if (!currentQuiz) {
       throw new Error('Quiz not found');
     }
 
-    const currentQuiz = quiz[0];
+    const lessons = await db.select()
+      .from(lessonsTable)
+      .where(eq(lessonsTable.id, currentQuiz.lesson_id))
+      .execute();
+
+    if (lessons.length > 0) {
+      await assertCourseNotEnded(lessons[0].course_id);
+    }
 
     // Check if student has exceeded max attempts
     if (currentQuiz.max_attempts) {
@@ -234,6 +323,27 @@ export async function getQuizAttempts(quizId: number, studentId: number): Promis
   }
 }
 
+// Every student's attempts across a course's quizzes, for graders
+export async function getCourseQuizAttempts(courseId: number): Promise<QuizAttempt[]> {
+  try {
+    const results = await db.select({ attempt: quizAttemptsTable })
+      .from(quizAttemptsTable)
+      .innerJoin(quizzesTable, eq(quizAttemptsTable.quiz_id, quizzesTable.id))
+      .innerJoin(lessonsTable, eq(quizzesTable.lesson_id, lessonsTable.id))
+      .where(eq(lessonsTable.course_id, courseId))
+      .orderBy(asc(quizAttemptsTable.started_at))
+      .execute();
+
+    return results.map(({ attempt }) => ({
+      ...attempt,
+      answers: attempt.answers as Record<string, string>
+    }));
+  } catch (error) {
+    console.error('Get course quiz attempts failed:', error);
+    throw error;
+  }
+}
+
 export async function getStudentQuizAttempt(attemptId: number, studentId: number): Promise<QuizAttempt | null> {
   try {
     const result = await db.select()
@@ -260,33 +370,36 @@ export async function getStudentQuizAttempt(attemptId: number, studentId: number
   }
 }
 
-export async function updateQuiz(quizId: number, updates: Partial<CreateQuizInput>): Promise<Quiz> {
+export async function updateQuiz(quizId: number, updates: Partial<CreateQuizInput>, instructorId: number): Promise<Quiz> {
   try {
     // Verify quiz exists
-    const existingQuiz = await db.select()
-      .from(quizzesTable)
-      .where(eq(quizzesTable.id, quizId))
-      .execute();
+    const existingQuiz = await findActiveQuiz(quizId);
 
-    if (existingQuiz.length === 0) {
+    if (!existingQuiz) {
       throw new Error('Quiz not found');
     }
 
-    // If lesson_id is being updated, verify the new lesson exists
-    if (updates.lesson_id) {
-      const lesson = await db.select()
-        .from(lessonsTable)
-        .where(eq(lessonsTable.id, updates.lesson_id))
-        .execute();
+    const { course } = await assertLessonCapability(existingQuiz.lesson_id, instructorId, 'update this quiz');
 
-      if (lesson.length === 0) {
-        throw new Error('Lesson not found');
-      }
+    // Quizzes stay on their lesson; another lesson may belong to a course the user can't edit
+    const { lesson_id, ...changes } = updates;
+    if (lesson_id !== undefined && lesson_id !== existingQuiz.lesson_id) {
+      throw new Error('Quizzes cannot be moved to another lesson');
+    }
+
+    if (course.is_published) {
+      await updateCourseDraft(course.id, instructorId, (snapshot: CourseSnapshot) => {
+        Object.assign(findDraftQuiz(snapshot, quizId), changes);
+      });
+
+      return { ...existingQuiz, ...changes };
     }
 
+    await assertNoOpenDraft(course.id);
+
     const result = await db.update(quizzesTable)
       .set({
-        ...updates,
+        ...changes,
         updated_at: new Date()
       })
       .where(eq(quizzesTable.id, quizId))
@@ -300,30 +413,34 @@ export async function updateQuiz(quizId: number, updates: Partial<CreateQuizInpu
   }
 }
 
-export async function deleteQuiz(quizId: number): Promise<{ success: boolean }> {
+// Moves the quiz to the trash; its questions and students' attempts stay with it.
+// A live course drops the quiz from its draft, and publishing the draft moves it to the trash.
+export async function deleteQuiz(quizId: number, instructorId: number): Promise<{ success: boolean }> {
   try {
     // Verify quiz exists
-    const existingQuiz = await db.select()
-      .from(quizzesTable)
-      .where(eq(quizzesTable.id, quizId))
-      .execute();
+    const existingQuiz = await findActiveQuiz(quizId);
 
-    if (existingQuiz.length === 0) {
+    if (!existingQuiz) {
       throw new Error('Quiz not found');
     }
 
-    // Delete quiz questions first (foreign key dependency)
-    await db.delete(quizQuestionsTable)
-      .where(eq(quizQuestionsTable.quiz_id, quizId))
-      .execute();
+    const { course } = await assertLessonCapability(existingQuiz.lesson_id, instructorId, 'delete this quiz');
 
-    // Delete quiz attempts
-    await db.delete(quizAttemptsTable)
-      .where(eq(quizAttemptsTable.quiz_id, quizId))
-      .execute();
+    if (course.is_published) {
+      await updateCourseDraft(course.id, instructorId, (snapshot: CourseSnapshot) => {
+        const draftQuiz = findDraftQuiz(snapshot, quizId);
+        for (const lesson of snapshot.lessons) {
+          lesson.quizzes = lesson.quizzes.filter(candidate => candidate !== draftQuiz);
+        }
+      });
 
-    // Delete the quiz
-    await db.delete(quizzesTable)
+      return { success: true };
+    }
+
+    await assertNoOpenDraft(course.id);
+
+    await db.update(quizzesTable)
+      .set({ deleted_at: new Date(), updated_at: new Date() })
       .where(eq(quizzesTable.id, quizId))
       .execute();
 
@@ -332,4 +449,4 @@ export async function deleteQuiz(quizId: number): Promise<{ success: boolean }>
     console.error('Quiz deletion failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
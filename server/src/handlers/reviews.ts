@@ -0,0 +1,201 @@
+import { db } from '../db';
+import { reviewsTable, coursesTable, enrollmentsTable, usersTable } from '../db/schema';
+import { type Review, type SubmitReviewInput } from '../schema';
+import { hasPermission, assertPermission } from './permissions';
+import { recordAuditEvent } from './audit';
+import { hasCourseCapability } from './courseStaff';
+import { eq, and, isNull, avg, count, desc, SQL } from 'drizzle-orm';
+
+// Students must have worked through this much of a course before reviewing it
+export const MIN_REVIEW_PROGRESS = 20;
+
+const reviewColumns = {
+  review: reviewsTable,
+  first_name: usersTable.first_name,
+  last_name: usersTable.last_name
+};
+
+function toReview(row: { review: typeof reviewsTable.$inferSelect; first_name: string; last_name: string }): Review {
+  return {
+    ...row.review,
+    student_name: `${row.first_name} ${row.last_name}`
+  };
+}
+
+async function findReview(reviewId: number): Promise<Review | null> {
+  const results = await db.select(reviewColumns)
+    .from(reviewsTable)
+    .innerJoin(usersTable, eq(reviewsTable.student_id, usersTable.id))
+    .where(eq(reviewsTable.id, reviewId))
+    .execute();
+
+  return results.length > 0 ? toReview(results[0]) : null;
+}
+
+// Keep the denormalized rating on the course in step with its visible reviews
+async function refreshCourseRating(courseId: number): Promise<void> {
+  const stats = await db.select({
+    average: avg(reviewsTable.rating),
+    total: count()
+  })
+    .from(reviewsTable)
+    .where(and(
+      eq(reviewsTable.course_id, courseId),
+      eq(reviewsTable.is_hidden, false)
+    ))
+    .execute();
+
+  const average = stats[0].average ? Math.round(parseFloat(stats[0].average) * 100) / 100 : 0;
+
+  await db.update(coursesTable)
+    .set({ rating_average: average, rating_count: stats[0].total })
+    .where(eq(coursesTable.id, courseId))
+    .execute();
+}
+
+export async function submitReview(input: SubmitReviewInput, studentId: number): Promise<Review> {
+  try {
+    const enrollments = await db.select()
+      .from(enrollmentsTable)
+      .where(and(
+        eq(enrollmentsTable.course_id, input.course_id),
+        eq(enrollmentsTable.student_id, studentId)
+      ))
+      .execute();
+
+    if (enrollments.length === 0) {
+      throw new Error('You must be enrolled in this course to review it');
+    }
+
+    if (enrollments[0].progress_percentage < MIN_REVIEW_PROGRESS && !enrollments[0].is_completed) {
+      throw new Error(`Complete at least ${MIN_REVIEW_PROGRESS}% of the course before reviewing it`);
+    }
+
+    // Students can revise their review; the instructor's reply and moderation state stay as they were
+    const result = await db.insert(reviewsTable)
+      .values({
+        course_id: input.course_id,
+        student_id: studentId,
+        rating: input.rating,
+        comment: input.comment || null
+      })
+      .onConflictDoUpdate({
+        target: [reviewsTable.course_id, reviewsTable.student_id],
+        set: {
+          rating: input.rating,
+          comment: input.comment || null,
+          updated_at: new Date()
+        }
+      })
+      .returning()
+      .execute();
+
+    await refreshCourseRating(input.course_id);
+
+    return (await findReview(result[0].id))!;
+  } catch (error) {
+    console.error('Review submission failed:', error);
+    throw error;
+  }
+}
+
+// Hidden reviews are only included for moderators
+export async function getCourseReviews(courseId: number, viewerId: number | null = null): Promise<Review[]> {
+  try {
+    const includeHidden = viewerId !== null && await hasPermission(viewerId, 'courses.moderate');
+
+    const conditions: SQL<unknown>[] = [eq(reviewsTable.course_id, courseId)];
+    if (!includeHidden) {
+      conditions.push(eq(reviewsTable.is_hidden, false));
+    }
+
+    const results = await db.select(reviewColumns)
+      .from(reviewsTable)
+      .innerJoin(usersTable, eq(reviewsTable.student_id, usersTable.id))
+      .where(and(...conditions))
+      .orderBy(desc(reviewsTable.created_at))
+      .execute();
+
+    return results.map(toReview);
+  } catch (error) {
+    console.error('Failed to fetch course reviews:', error);
+    throw error;
+  }
+}
+
+export async function getMyCourseReview(courseId: number, studentId: number): Promise<Review | null> {
+  try {
+    const results = await db.select(reviewColumns)
+      .from(reviewsTable)
+      .innerJoin(usersTable, eq(reviewsTable.student_id, usersTable.id))
+      .where(and(
+        eq(reviewsTable.course_id, courseId),
+        eq(reviewsTable.student_id, studentId)
+      ))
+      .execute();
+
+    return results.length > 0 ? toReview(results[0]) : null;
+  } catch (error) {
+    console.error('Failed to fetch review:', error);
+    throw error;
+  }
+}
+
+export async function replyToReview(reviewId: number, reply: string, instructorId: number): Promise<Review> {
+  try {
+    const review = await findReview(reviewId);
+    if (!review) {
+      throw new Error('Review not found');
+    }
+
+    if (!(await hasCourseCapability(review.course_id, instructorId, 'reply_to_reviews'))) {
+      throw new Error('Only the course instructor can reply to reviews');
+    }
+
+    // Conditional so two staff replying at once can't overwrite each other
+    const updated = await db.update(reviewsTable)
+      .set({ instructor_reply: reply, replied_at: new Date() })
+      .where(and(eq(reviewsTable.id, reviewId), isNull(reviewsTable.instructor_reply)))
+      .returning()
+      .execute();
+
+    if (updated.length === 0) {
+      throw new Error('This review already has a reply');
+    }
+
+    return (await findReview(reviewId))!;
+  } catch (error) {
+    console.error('Review reply failed:', error);
+    throw error;
+  }
+}
+
+export async function setReviewHidden(reviewId: number, hidden: boolean, reason: string | null, adminId: number): Promise<Review> {
+  try {
+    await assertPermission(adminId, 'courses.moderate');
+
+    const result = await db.update(reviewsTable)
+      .set({ is_hidden: hidden, hidden_reason: hidden ? reason : null })
+      .where(eq(reviewsTable.id, reviewId))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error('Review not found');
+    }
+
+    await refreshCourseRating(result[0].course_id);
+
+    await recordAuditEvent({
+      action: hidden ? 'review_hidden' : 'review_unhidden',
+      actorId: adminId,
+      targetUserId: result[0].student_id,
+      details: { reviewId, courseId: result[0].course_id, reason }
+    });
+
+    return (await findReview(reviewId))!;
+  } catch (error) {
+    console.error('Review moderation failed:', error);
+    throw error;
+  }
+}
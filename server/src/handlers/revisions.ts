@@ -0,0 +1,685 @@
+import { db, type Transaction } from '../db';
+import {
+  courseRevisionsTable,
+  coursesTable,
+  categoriesTable,
+  lessonsTable,
+  quizzesTable,
+  quizQuestionsTable
+} from '../db/schema';
+import {
+  courseSnapshotSchema,
+  type CourseSnapshot,
+  type LessonBlock,
+  type CourseRevision,
+  type CourseDraft,
+  type CourseRevisionDiff,
+  type RevisionChange,
+  type RevisionFieldChange
+} from '../schema';
+import { transitionCourseModeration } from './moderation';
+import { hasCourseCapability } from './courseStaff';
+import { copyLinkedMedia, discardMediaFiles } from './media';
+import { eq, and, asc, desc, inArray, isNull, max } from 'drizzle-orm';
+
+type Executor = typeof db | Transaction;
+
+const COURSE_FIELDS = ['title', 'description', 'thumbnail_url', 'price', 'duration_hours', 'category_id', 'level', 'tags'] as const;
+const LESSON_FIELDS = ['title', 'description', 'video_url', 'content', 'blocks', 'order_index', 'duration_minutes', 'is_published'] as const;
+const QUIZ_FIELDS = ['title', 'description', 'passing_score', 'time_limit_minutes', 'max_attempts', 'is_active'] as const;
+const QUESTION_FIELDS = ['question_text', 'question_type', 'options', 'correct_answer', 'points', 'order_index'] as const;
+
+function toCourseRevision(row: typeof courseRevisionsTable.$inferSelect): CourseRevision {
+  return {
+    ...row,
+    snapshot: courseSnapshotSchema.parse(row.snapshot)
+  };
+}
+
+async function findOwnedCourse(courseId: number, instructorId: number): Promise<typeof coursesTable.$inferSelect> {
+  const courses = await db.select()
+    .from(coursesTable)
+    .where(eq(coursesTable.id, courseId))
+    .execute();
+
+  if (!courses.length) {
+    throw new Error('Course not found');
+  }
+
+  if (!(await hasCourseCapability(courseId, instructorId, 'edit_content'))) {
+    throw new Error('You do not have permission to manage revisions of this course');
+  }
+
+  return courses[0];
+}
+
+async function findRevision(executor: Executor, courseId: number, revisionId: number): Promise<CourseRevision> {
+  const revisions = await executor.select()
+    .from(courseRevisionsTable)
+    .where(and(
+      eq(courseRevisionsTable.id, revisionId),
+      eq(courseRevisionsTable.course_id, courseId)
+    ))
+    .execute();
+
+  if (!revisions.length) {
+    throw new Error('Revision not found');
+  }
+
+  return toCourseRevision(revisions[0]);
+}
+
+async function findDraft(executor: Executor, courseId: number): Promise<CourseRevision | null> {
+  const drafts = await executor.select()
+    .from(courseRevisionsTable)
+    .where(and(
+      eq(courseRevisionsTable.course_id, courseId),
+      eq(courseRevisionsTable.status, 'draft')
+    ))
+    .execute();
+
+  return drafts.length > 0 ? toCourseRevision(drafts[0]) : null;
+}
+
+async function nextRevisionNumber(executor: Executor, courseId: number): Promise<number> {
+  const result = await executor.select({ latest: max(courseRevisionsTable.revision_number) })
+    .from(courseRevisionsTable)
+    .where(eq(courseRevisionsTable.course_id, courseId))
+    .execute();
+
+  return (result[0].latest ?? 0) + 1;
+}
+
+// Reads the live course content in the shape stored on revisions
+async function captureSnapshot(executor: Executor, courseId: number): Promise<CourseSnapshot> {
+  const courses = await executor.select()
+    .from(coursesTable)
+    .where(eq(coursesTable.id, courseId))
+    .execute();
+  const course = courses[0];
+
+  const lessons = await executor.select()
+    .from(lessonsTable)
+    .where(and(eq(lessonsTable.course_id, courseId), isNull(lessonsTable.deleted_at)))
+    .orderBy(asc(lessonsTable.order_index), asc(lessonsTable.id))
+    .execute();
+
+  const lessonIds = lessons.map(lesson => lesson.id);
+  const quizzes = lessonIds.length > 0
+    ? await executor.select()
+      .from(quizzesTable)
+      .where(and(inArray(quizzesTable.lesson_id, lessonIds), isNull(quizzesTable.deleted_at)))
+      .orderBy(asc(quizzesTable.id))
+      .execute()
+    : [];
+
+  const quizIds = quizzes.map(quiz => quiz.id);
+  const questions = quizIds.length > 0
+    ? await executor.select()
+      .from(quizQuestionsTable)
+      .where(inArray(quizQuestionsTable.quiz_id, quizIds))
+      .orderBy(asc(quizQuestionsTable.order_index), asc(quizQuestionsTable.id))
+      .execute()
+    : [];
+
+  return {
+    course: {
+      title: course.title,
+      description: course.description,
+      thumbnail_url: course.thumbnail_url,
+      price: parseFloat(course.price),
+      duration_hours: parseFloat(course.duration_hours),
+      category_id: course.category_id,
+      level: course.level,
+      tags: course.tags
+    },
+    lessons: lessons.map(lesson => ({
+      id: lesson.id,
+      title: lesson.title,
+      description: lesson.description,
+      video_url: lesson.video_url,
+      content: lesson.content,
+      blocks: lesson.blocks as LessonBlock[],
+      order_index: lesson.order_index,
+      duration_minutes: lesson.duration_minutes,
+      is_published: lesson.is_published,
+      quizzes: quizzes.filter(quiz => quiz.lesson_id === lesson.id).map(quiz => ({
+        id: quiz.id,
+        title: quiz.title,
+        description: quiz.description,
+        passing_score: quiz.passing_score,
+        time_limit_minutes: quiz.time_limit_minutes,
+        max_attempts: quiz.max_attempts,
+        is_active: quiz.is_active,
+        questions: questions.filter(question => question.quiz_id === quiz.id).map(question => ({
+          id: question.id,
+          question_text: question.question_text,
+          question_type: question.question_type,
+          options: question.options as string[] | null,
+          correct_answer: question.correct_answer,
+          points: question.points,
+          order_index: question.order_index
+        }))
+      }))
+    }))
+  };
+}
+
+// Brings the live rows in line with a snapshot. Content without a row of this course is inserted,
+// trashed content the snapshot has again is restored, and live lessons and quizzes the snapshot
+// no longer has go to the trash, as deleting them by hand would. Dropped questions of kept
+// quizzes are deleted outright.
+async function applySnapshot(tx: Transaction, courseId: number, snapshot: CourseSnapshot): Promise<void> {
+  const now = new Date();
+
+  await tx.update(coursesTable)
+    .set({
+      ...snapshot.course,
+      price: snapshot.course.price.toString(),
+      duration_hours: snapshot.course.duration_hours.toString(),
+      updated_at: now
+    })
+    .where(eq(coursesTable.id, courseId))
+    .execute();
+
+  const liveLessons = await tx.select()
+    .from(lessonsTable)
+    .where(eq(lessonsTable.course_id, courseId))
+    .execute();
+  const liveLessonIds = liveLessons.map(lesson => lesson.id);
+
+  const liveQuizzes = liveLessonIds.length > 0
+    ? await tx.select().from(quizzesTable).where(inArray(quizzesTable.lesson_id, liveLessonIds)).execute()
+    : [];
+  const liveQuizIds = liveQuizzes.map(quiz => quiz.id);
+
+  const liveQuestions = liveQuizIds.length > 0
+    ? await tx.select().from(quizQuestionsTable).where(inArray(quizQuestionsTable.quiz_id, liveQuizIds)).execute()
+    : [];
+  const liveQuestionIds = liveQuestions.map(question => question.id);
+
+  const keptLessonIds = new Set<number>();
+  const keptQuizIds = new Set<number>();
+  const keptQuestionIds = new Set<number>();
+
+  for (const { id, quizzes, ...lesson } of snapshot.lessons) {
+    let lessonId: number;
+    if (id !== null && liveLessonIds.includes(id)) {
+      await tx.update(lessonsTable)
+        .set({ ...lesson, deleted_at: null, updated_at: now })
+        .where(eq(lessonsTable.id, id))
+        .execute();
+      lessonId = id;
+    } else {
+      const inserted = await tx.insert(lessonsTable)
+        .values({ ...lesson, course_id: courseId })
+        .returning()
+        .execute();
+      lessonId = inserted[0].id;
+    }
+    keptLessonIds.add(lessonId);
+
+    for (const { id, questions, ...quiz } of quizzes) {
+      let quizId: number;
+      if (id !== null && liveQuizIds.includes(id)) {
+        await tx.update(quizzesTable)
+          .set({ ...quiz, lesson_id: lessonId, deleted_at: null, updated_at: now })
+          .where(eq(quizzesTable.id, id))
+          .execute();
+        quizId = id;
+      } else {
+        const inserted = await tx.insert(quizzesTable)
+          .values({ ...quiz, lesson_id: lessonId })
+          .returning()
+          .execute();
+        quizId = inserted[0].id;
+      }
+      keptQuizIds.add(quizId);
+
+      for (const { id, ...question } of questions) {
+        if (id !== null && liveQuestionIds.includes(id)) {
+          await tx.update(quizQuestionsTable)
+            .set({ ...question, quiz_id: quizId })
+            .where(eq(quizQuestionsTable.id, id))
+            .execute();
+          keptQuestionIds.add(id);
+        } else {
+          await tx.insert(quizQuestionsTable)
+            .values({ ...question, quiz_id: quizId })
+            .execute();
+        }
+      }
+    }
+  }
+
+  // Remove what the snapshot dropped. Quizzes of trashed lessons stay with them, ready to restore.
+  const staleQuestionIds = liveQuestions
+    .filter(question => keptQuizIds.has(question.quiz_id) && !keptQuestionIds.has(question.id))
+    .map(question => question.id);
+  if (staleQuestionIds.length > 0) {
+    await tx.delete(quizQuestionsTable).where(inArray(quizQuestionsTable.id, staleQuestionIds)).execute();
+  }
+
+  const staleQuizIds = liveQuizzes
+    .filter(quiz => quiz.deleted_at === null && keptLessonIds.has(quiz.lesson_id) && !keptQuizIds.has(quiz.id))
+    .map(quiz => quiz.id);
+  if (staleQuizIds.length > 0) {
+    await tx.update(quizzesTable).set({ deleted_at: now }).where(inArray(quizzesTable.id, staleQuizIds)).execute();
+  }
+
+  const staleLessonIds = liveLessons
+    .filter(lesson => lesson.deleted_at === null && !keptLessonIds.has(lesson.id))
+    .map(lesson => lesson.id);
+  if (staleLessonIds.length > 0) {
+    await tx.update(lessonsTable).set({ deleted_at: now }).where(inArray(lessonsTable.id, staleLessonIds)).execute();
+  }
+}
+
+// Records the live content as the course's published revision and marks the course published.
+// Only courses a moderator has approved can go live.
+async function recordPublishedRevision(
+  tx: Transaction,
+  courseId: number,
+  userId: number,
+  draft: CourseRevision | null,
+  restoredFromRevisionId: number | null = null
+): Promise<CourseRevision> {
+  const courses = await tx.select()
+    .from(coursesTable)
+    .where(eq(coursesTable.id, courseId))
+    .execute();
+
+  if (courses[0].moderation_status !== 'approved' && courses[0].moderation_status !== 'published') {
+    throw new Error('Course must be approved by a moderator before publishing');
+  }
+
+  // Capture after applying so content added in the draft is stored with its new ids
+  const snapshot = await captureSnapshot(tx, courseId);
+  if (snapshot.lessons.length === 0) {
+    throw new Error('Course must have at least one lesson before publishing');
+  }
+
+  const now = new Date();
+  await tx.update(courseRevisionsTable)
+    .set({ status: 'superseded', updated_at: now })
+    .where(and(
+      eq(courseRevisionsTable.course_id, courseId),
+      eq(courseRevisionsTable.status, 'published')
+    ))
+    .execute();
+
+  const published = draft
+    ? await tx.update(courseRevisionsTable)
+      .set({ status: 'published', snapshot, published_by: userId, published_at: now, updated_at: now })
+      .where(eq(courseRevisionsTable.id, draft.id))
+      .returning()
+      .execute()
+    : await tx.insert(courseRevisionsTable)
+      .values({
+        course_id: courseId,
+        revision_number: await nextRevisionNumber(tx, courseId),
+        status: 'published',
+        snapshot,
+        created_by: userId,
+        published_by: userId,
+        published_at: now,
+        restored_from_revision_id: restoredFromRevisionId
+      })
+      .returning()
+      .execute();
+
+  if (courses[0].moderation_status === 'approved') {
+    await transitionCourseModeration(tx, courses[0], 'published', userId);
+  }
+
+  await tx.update(coursesTable)
+    .set({ is_published: true, publish_at: null, updated_at: now })
+    .where(eq(coursesTable.id, courseId))
+    .execute();
+
+  return toCourseRevision(published[0]);
+}
+
+// Publishes the course draft, or the current content when the course has none (such as on its first publish,
+// or when a course that was taken down goes live again). A draft of a course moderators have already let
+// through goes back to them first: the course is resubmitted, students keep the live version, and the draft
+// is published once the changes are approved.
+export async function publishCourseRevision(courseId: number, userId: number): Promise<CourseRevision> {
+  return db.transaction(async (tx) => {
+    const course = await lockCourse(tx, courseId);
+    const draft = await findDraft(tx, courseId);
+    if (draft) {
+      if (course.moderation_status === 'published') {
+        if (draft.snapshot.lessons.length === 0) {
+          throw new Error('Course must have at least one lesson before publishing');
+        }
+        await transitionCourseModeration(tx, course, 'submitted', userId);
+        return draft;
+      }
+      await applySnapshot(tx, courseId, draft.snapshot);
+    } else if (course.is_published) {
+      throw new Error('There are no draft changes to publish');
+    }
+
+    return recordPublishedRevision(tx, courseId, userId, draft);
+  });
+}
+
+async function ensureDraft(tx: Transaction, courseId: number, userId: number): Promise<CourseRevision> {
+  const draft = await findDraft(tx, courseId);
+  if (draft) {
+    return draft;
+  }
+
+  const created = await tx.insert(courseRevisionsTable)
+    .values({
+      course_id: courseId,
+      revision_number: await nextRevisionNumber(tx, courseId),
+      status: 'draft',
+      snapshot: await captureSnapshot(tx, courseId),
+      created_by: userId
+    })
+    .returning()
+    .execute();
+
+  return toCourseRevision(created[0]);
+}
+
+// Holds the course row until the transaction ends, so draft changes and publishing of the same
+// course happen one after another instead of overwriting each other
+async function lockCourse(tx: Transaction, courseId: number): Promise<typeof coursesTable.$inferSelect> {
+  const courses = await tx.select()
+    .from(coursesTable)
+    .where(eq(coursesTable.id, courseId))
+    .for('update')
+    .execute();
+  return courses[0];
+}
+
+// Applies a change to the course draft, starting the draft from the live content when there is none.
+// Content handlers use this for published courses so students keep seeing the published version.
+export async function updateCourseDraft(courseId: number, userId: number, change: (snapshot: CourseSnapshot) => void): Promise<CourseRevision> {
+  return db.transaction(async (tx) => {
+    const course = await lockCourse(tx, courseId);
+    // Moderators review the draft as it was submitted
+    if (course.is_published && (course.moderation_status === 'submitted' || course.moderation_status === 'approved')) {
+      throw new Error('The draft of this course is with the moderators; make further changes once it is published or sent back');
+    }
+    const draft = await ensureDraft(tx, courseId, userId);
+
+    change(draft.snapshot);
+    const snapshot = courseSnapshotSchema.parse(draft.snapshot);
+
+    const result = await tx.update(courseRevisionsTable)
+      .set({ snapshot, updated_at: new Date() })
+      .where(eq(courseRevisionsTable.id, draft.id))
+      .returning()
+      .execute();
+
+    return toCourseRevision(result[0]);
+  });
+}
+
+// Content created in a draft has no row until the draft is published, so the create handlers give it a
+// negative id that stays the same while the draft is open. Publishing inserts it like any other content
+// without a row of the course.
+export function nextDraftId(snapshot: CourseSnapshot): number {
+  const ids = snapshot.lessons.flatMap(lesson => [
+    lesson.id,
+    ...lesson.quizzes.flatMap(quiz => [quiz.id, ...quiz.questions.map(question => question.id)])
+  ]);
+  return Math.min(0, ...ids.filter((id): id is number => id !== null)) - 1;
+}
+
+// Live edits to a course with an open draft would be overwritten when the draft is published
+export async function assertNoOpenDraft(courseId: number): Promise<void> {
+  if (await findDraft(db, courseId)) {
+    throw new Error('This course has an unpublished draft; make content changes in the draft');
+  }
+}
+
+// The course content students currently see
+export async function getLiveCourseSnapshot(courseId: number): Promise<CourseSnapshot> {
+  return captureSnapshot(db, courseId);
+}
+
+// The newest version of a course's content: its open draft, or the live content when there is none
+export async function getLatestCourseSnapshot(courseId: number): Promise<CourseSnapshot> {
+  const draft = await findDraft(db, courseId);
+  return draft ? draft.snapshot : captureSnapshot(db, courseId);
+}
+
+// Clears the ids so the content can be inserted as new rows of another course
+export function detachSnapshot(snapshot: CourseSnapshot): CourseSnapshot {
+  return {
+    course: { ...snapshot.course },
+    lessons: snapshot.lessons.map(lesson => ({
+      ...lesson,
+      id: null,
+      quizzes: lesson.quizzes.map(quiz => ({
+        ...quiz,
+        id: null,
+        questions: quiz.questions.map(question => ({ ...question, id: null }))
+      }))
+    }))
+  };
+}
+
+// Creates an unpublished course for the instructor with the snapshot's details and content
+export async function createCourseFromSnapshot(snapshot: CourseSnapshot, instructorId: number): Promise<typeof coursesTable.$inferSelect> {
+  const content = detachSnapshot(snapshot);
+
+  // Templates can outlive the category they were filed under
+  if (content.course.category_id !== null) {
+    const categories = await db.select()
+      .from(categoriesTable)
+      .where(eq(categoriesTable.id, content.course.category_id))
+      .execute();
+    if (!categories.length) {
+      content.course.category_id = null;
+    }
+  }
+
+  const copiedFiles: string[] = [];
+  try {
+    return await db.transaction(async (tx) => {
+      const created = await tx.insert(coursesTable)
+        .values({
+          title: content.course.title,
+          description: content.course.description,
+          price: content.course.price.toString(),
+          duration_hours: content.course.duration_hours.toString(),
+          instructor_id: instructorId,
+          is_published: false
+        })
+        .returning()
+        .execute();
+
+      copiedFiles.push(...await copyLinkedMedia(tx, content.lessons, created[0].id, instructorId));
+      await applySnapshot(tx, created[0].id, content);
+
+      const courses = await tx.select()
+        .from(coursesTable)
+        .where(eq(coursesTable.id, created[0].id))
+        .execute();
+      return courses[0];
+    });
+  } catch (error) {
+    await discardMediaFiles(copiedFiles);
+    throw error;
+  }
+}
+
+// The draft itself is only started by the first saved change
+export async function getCourseDraft(courseId: number, instructorId: number): Promise<CourseDraft> {
+  try {
+    const course = await findOwnedCourse(courseId, instructorId);
+    if (!course.is_published) {
+      throw new Error('Unpublished courses are edited directly; drafts start once the course is published');
+    }
+
+    const draft = await findDraft(db, courseId);
+    return draft
+      ? { revision: draft, snapshot: draft.snapshot }
+      : { revision: null, snapshot: await captureSnapshot(db, courseId) };
+  } catch (error) {
+    console.error('Failed to fetch course draft:', error);
+    throw error;
+  }
+}
+
+export async function saveCourseDraft(courseId: number, snapshot: CourseSnapshot, instructorId: number): Promise<CourseRevision> {
+  try {
+    const course = await findOwnedCourse(courseId, instructorId);
+    if (!course.is_published) {
+      throw new Error('Unpublished courses are edited directly; drafts start once the course is published');
+    }
+
+    return await updateCourseDraft(courseId, instructorId, (draft: CourseSnapshot) => {
+      draft.course = snapshot.course;
+      draft.lessons = snapshot.lessons;
+    });
+  } catch (error) {
+    console.error('Course draft save failed:', error);
+    throw error;
+  }
+}
+
+export async function discardCourseDraft(courseId: number, instructorId: number): Promise<{ success: boolean }> {
+  try {
+    await findOwnedCourse(courseId, instructorId);
+
+    await db.delete(courseRevisionsTable)
+      .where(and(
+        eq(courseRevisionsTable.course_id, courseId),
+        eq(courseRevisionsTable.status, 'draft')
+      ))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Course draft discard failed:', error);
+    throw error;
+  }
+}
+
+// Newest first, including the open draft
+export async function getCourseRevisions(courseId: number, instructorId: number): Promise<CourseRevision[]> {
+  try {
+    await findOwnedCourse(courseId, instructorId);
+
+    const revisions = await db.select()
+      .from(courseRevisionsTable)
+      .where(eq(courseRevisionsTable.course_id, courseId))
+      .orderBy(desc(courseRevisionsTable.revision_number))
+      .execute();
+
+    return revisions.map(toCourseRevision);
+  } catch (error) {
+    console.error('Failed to fetch course revisions:', error);
+    throw error;
+  }
+}
+
+function compareFields<T>(before: T, after: T, fields: readonly (keyof T & string)[]): RevisionFieldChange[] {
+  return fields
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+}
+
+// Items are paired by id; content added in a draft has no id yet and always shows as added
+function diffItems<T extends { id: number | null }>(
+  entity: RevisionChange['entity'],
+  before: T[],
+  after: T[],
+  fields: readonly (keyof T & string)[],
+  label: (item: T) => string,
+  diffChildren: (before: T, after: T) => RevisionChange[]
+): RevisionChange[] {
+  const changes: RevisionChange[] = [];
+  const matchedIds = new Set<number>();
+
+  for (const item of after) {
+    const previous = item.id !== null ? before.find(candidate => candidate.id === item.id) : undefined;
+    if (!previous) {
+      changes.push({ entity, entity_id: item.id, label: label(item), change: 'added', fields: [] });
+      continue;
+    }
+
+    matchedIds.add(item.id!);
+    const fieldChanges = compareFields(previous, item, fields);
+    if (fieldChanges.length > 0) {
+      changes.push({ entity, entity_id: item.id, label: label(item), change: 'modified', fields: fieldChanges });
+    }
+    changes.push(...diffChildren(previous, item));
+  }
+
+  for (const item of before) {
+    if (item.id === null || !matchedIds.has(item.id)) {
+      changes.push({ entity, entity_id: item.id, label: label(item), change: 'removed', fields: [] });
+    }
+  }
+
+  return changes;
+}
+
+function diffSnapshots(before: CourseSnapshot, after: CourseSnapshot): RevisionChange[] {
+  const changes: RevisionChange[] = [];
+
+  const courseFields = compareFields(before.course, after.course, COURSE_FIELDS);
+  if (courseFields.length > 0) {
+    changes.push({ entity: 'course', entity_id: null, label: 'Course details', change: 'modified', fields: courseFields });
+  }
+
+  changes.push(...diffItems('lesson', before.lessons, after.lessons, LESSON_FIELDS, lesson => `Lesson "${lesson.title}"`,
+    (beforeLesson, afterLesson) => diffItems('quiz', beforeLesson.quizzes, afterLesson.quizzes, QUIZ_FIELDS, quiz => `Quiz "${quiz.title}"`,
+      (beforeQuiz, afterQuiz) => diffItems('question', beforeQuiz.questions, afterQuiz.questions, QUESTION_FIELDS,
+        question => `Question "${question.question_text}"`, () => []))));
+
+  return changes;
+}
+
+export async function diffCourseRevisions(courseId: number, fromRevisionId: number, toRevisionId: number, instructorId: number): Promise<CourseRevisionDiff> {
+  try {
+    await findOwnedCourse(courseId, instructorId);
+
+    const from = await findRevision(db, courseId, fromRevisionId);
+    const to = await findRevision(db, courseId, toRevisionId);
+
+    return {
+      from_revision_id: from.id,
+      to_revision_id: to.id,
+      changes: diffSnapshots(from.snapshot, to.snapshot)
+    };
+  } catch (error) {
+    console.error('Course revision diff failed:', error);
+    throw error;
+  }
+}
+
+// Republishes an earlier version as a new revision, so the history keeps what was rolled back. Unlike
+// publishing a draft this needs no new review, as the restored version was live before.
+export async function rollbackCourse(courseId: number, revisionId: number, instructorId: number): Promise<CourseRevision> {
+  try {
+    await findOwnedCourse(courseId, instructorId);
+
+    const target = await findRevision(db, courseId, revisionId);
+    if (target.status === 'draft') {
+      throw new Error('Only previously published revisions can be restored');
+    }
+    if (target.status === 'published') {
+      throw new Error('This revision is already live');
+    }
+
+    // The draft was based on the version being replaced, so it has to be settled first
+    await assertNoOpenDraft(courseId);
+
+    return await db.transaction(async (tx) => {
+      await applySnapshot(tx, courseId, target.snapshot);
+      return recordPublishedRevision(tx, courseId, instructorId, null, target.id);
+    });
+  } catch (error) {
+    console.error('Course rollback failed:', error);
+    throw error;
+  }
+}
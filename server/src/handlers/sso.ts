@@ -0,0 +1,238 @@
+import { db } from '../db';
+import { usersTable, userIdentitiesTable, oidcLoginStatesTable } from '../db/schema';
+import { type LoginResult, type SsoProvider, type SsoCallbackInput } from '../schema';
+import { getOidcProvider, listOidcProviders, buildAuthorizationUrl, exchangeAuthorizationCode, mapRole, isTrustedEmail, type OidcProviderConfig } from '../oidc';
+import { hashPassword, verifyPassword } from '../password';
+import { startLogin } from './auth';
+import { eq, and, lt, sql } from 'drizzle-orm';
+import crypto from 'crypto';
+
+const APP_URL = process.env['APP_URL'] || 'http://localhost:5173';
+const SSO_REDIRECT_URI = `${APP_URL}/?sso=callback`;
+const SSO_STATE_TTL_MS = 10 * 60 * 1000;
+
+export async function getSsoProviders(): Promise<SsoProvider[]> {
+  return listOidcProviders().map(provider => ({ id: provider.id, name: provider.name }));
+}
+
+// Records a pending authorization request and returns where to send the browser
+async function startAuthorization(provider: OidcProviderConfig, linkUserId: number | null): Promise<{ authorizationUrl: string }> {
+  // Drop abandoned attempts
+  await db.delete(oidcLoginStatesTable)
+    .where(lt(oidcLoginStatesTable.expires_at, new Date()))
+    .execute();
+
+  const state = crypto.randomBytes(32).toString('base64url');
+  const nonce = crypto.randomBytes(32).toString('base64url');
+  const codeVerifier = crypto.randomBytes(48).toString('base64url');
+
+  await db.insert(oidcLoginStatesTable)
+    .values({
+      state,
+      provider: provider.id,
+      nonce,
+      code_verifier: codeVerifier,
+      link_user_id: linkUserId,
+      expires_at: new Date(Date.now() + SSO_STATE_TTL_MS)
+    })
+    .execute();
+
+  const authorizationUrl = await buildAuthorizationUrl(provider, {
+    redirectUri: SSO_REDIRECT_URI,
+    state,
+    nonce,
+    codeVerifier
+  });
+
+  return { authorizationUrl };
+}
+
+export async function beginSsoLogin(providerId: string): Promise<{ authorizationUrl: string }> {
+  try {
+    const provider = getOidcProvider(providerId);
+    if (!provider) {
+      throw new Error('Unknown identity provider');
+    }
+
+    return await startAuthorization(provider, null);
+  } catch (error) {
+    console.error('SSO login start failed:', error);
+    throw error;
+  }
+}
+
+// Links a provider to the signed-in account once the user confirms their password, for addresses
+// the provider isn't trusted to vouch for
+export async function beginSsoLink(providerId: string, userId: number, password: string): Promise<{ authorizationUrl: string }> {
+  try {
+    const provider = getOidcProvider(providerId);
+    if (!provider) {
+      throw new Error('Unknown identity provider');
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+    if (!(await verifyPassword(password, users[0].password_hash))) {
+      throw new Error('Password is incorrect');
+    }
+
+    return await startAuthorization(provider, userId);
+  } catch (error) {
+    console.error('SSO link start failed:', error);
+    throw error;
+  }
+}
+
+export async function completeSsoLogin(input: SsoCallbackInput): Promise<LoginResult> {
+  try {
+    // Each state is single-use
+    const states = await db.delete(oidcLoginStatesTable)
+      .where(eq(oidcLoginStatesTable.state, input.state))
+      .returning()
+      .execute();
+
+    const pending = states[0];
+    if (!pending || pending.expires_at < new Date()) {
+      throw new Error('Invalid or expired sign-in request');
+    }
+
+    const provider = getOidcProvider(pending.provider);
+    if (!provider) {
+      throw new Error('Unknown identity provider');
+    }
+
+    const claims = await exchangeAuthorizationCode(provider, {
+      code: input.code,
+      redirectUri: SSO_REDIRECT_URI,
+      codeVerifier: pending.code_verifier,
+      nonce: pending.nonce
+    });
+
+    const role = mapRole(provider, claims);
+
+    // Returning user: follow the existing link
+    const identities = await db.select()
+      .from(userIdentitiesTable)
+      .where(and(
+        eq(userIdentitiesTable.provider, provider.id),
+        eq(userIdentitiesTable.subject, claims.sub)
+      ))
+      .execute();
+
+    let userId: number;
+
+    if (identities.length > 0) {
+      if (pending.link_user_id !== null && identities[0].user_id !== pending.link_user_id) {
+        throw new Error('This sign-in is already linked to another account');
+      }
+      userId = identities[0].user_id;
+
+      await db.update(userIdentitiesTable)
+        .set({ email: claims.email ?? identities[0].email, last_login_at: new Date() })
+        .where(eq(userIdentitiesTable.id, identities[0].id))
+        .execute();
+
+      if (provider.syncRole) {
+        await db.update(usersTable)
+          .set({ role, updated_at: new Date() })
+          .where(eq(usersTable.id, userId))
+          .execute();
+      }
+    } else if (pending.link_user_id !== null) {
+      // The user confirmed their password before leaving for the IdP
+      userId = pending.link_user_id;
+
+      if (provider.syncRole) {
+        await db.update(usersTable)
+          .set({ role, updated_at: new Date() })
+          .where(eq(usersTable.id, userId))
+          .execute();
+      }
+
+      await db.insert(userIdentitiesTable)
+        .values({
+          user_id: userId,
+          provider: provider.id,
+          subject: claims.sub,
+          email: claims.email ?? null
+        })
+        .execute();
+    } else {
+      if (!claims.email) {
+        throw new Error('Identity provider did not share an email address');
+      }
+
+      const existing = await db.select()
+        .from(usersTable)
+        .where(eq(sql`lower(${usersTable.email})`, claims.email.toLowerCase()))
+        .execute();
+
+      if (existing.length > 0) {
+        // Only link to an existing account when the IdP vouches for the address and manages its domain
+        if (claims.email_verified !== true || !isTrustedEmail(provider, claims.email)) {
+          throw new Error('An account with this email already exists. Sign in with your password and link this provider from your settings');
+        }
+        // Anyone can register an address they don't own and leave it unverified; linking that account
+        // would hand its password holder the IdP user's sign-ins. The owner can reset the password by
+        // email and link from their settings instead.
+        if (!existing[0].email_verified) {
+          throw new Error('An account with this email already exists but its address was never confirmed. Reset its password, then link this provider from your settings');
+        }
+
+        userId = existing[0].id;
+
+        await db.update(usersTable)
+          .set({
+            ...(provider.syncRole ? { role } : {}),
+            updated_at: new Date()
+          })
+          .where(eq(usersTable.id, userId))
+          .execute();
+      } else {
+        // SSO-only accounts get an unusable random password until the user sets one via reset
+        const created = await db.insert(usersTable)
+          .values({
+            email: claims.email,
+            password_hash: await hashPassword(crypto.randomBytes(32).toString('hex')),
+            first_name: claims.given_name ?? claims.name?.split(' ')[0] ?? claims.email.split('@')[0],
+            last_name: claims.family_name ?? claims.name?.split(' ').slice(1).join(' ') ?? '',
+            role,
+            email_verified: claims.email_verified === true
+          })
+          .returning()
+          .execute();
+
+        userId = created[0].id;
+      }
+
+      await db.insert(userIdentitiesTable)
+        .values({
+          user_id: userId,
+          provider: provider.id,
+          subject: claims.sub,
+          email: claims.email
+        })
+        .execute();
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (!users[0].is_active) {
+      throw new Error('Account is deactivated');
+    }
+
+    return await startLogin(users[0]);
+  } catch (error) {
+    console.error('SSO login failed:', error);
+    throw error;
+  }
+}
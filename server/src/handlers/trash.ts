@@ -0,0 +1,352 @@
+import { db, type Transaction } from '../db';
+import {
+  coursesTable,
+  courseStaffTable,
+  lessonsTable,
+  quizzesTable,
+  quizQuestionsTable,
+  quizAttemptsTable,
+  lessonProgressTable,
+  enrollmentsTable,
+  certificatesTable,
+  paymentsTable
+} from '../db/schema';
+import { type TrashItem, type TrashItemInput } from '../schema';
+import { hasCourseCapability } from './courseStaff';
+import { assertNoOpenDraft } from './revisions';
+import { eq, and, or, desc, inArray, isNull, isNotNull, gt, lte } from 'drizzle-orm';
+
+// Deleted content can be restored for this long; afterwards the purge job cleans it up
+export const TRASH_RETENTION_DAYS = 30;
+
+const RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+function retentionCutoff(now: Date): Date {
+  return new Date(now.getTime() - RETENTION_MS);
+}
+
+function restorableUntil(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + RETENTION_MS);
+}
+
+function assertRestorable(deletedAt: Date, now: Date): void {
+  if (restorableUntil(deletedAt) <= now) {
+    throw new Error(`Items can only be restored within ${TRASH_RETENTION_DAYS} days of being deleted`);
+  }
+}
+
+// Courses the user owns or helps run, trashed or not
+async function getStaffCourses(userId: number) {
+  const staffCourseIds = db.select({ course_id: courseStaffTable.course_id })
+    .from(courseStaffTable)
+    .where(and(eq(courseStaffTable.user_id, userId), eq(courseStaffTable.status, 'active')));
+
+  return db.select()
+    .from(coursesTable)
+    .where(or(eq(coursesTable.instructor_id, userId), inArray(coursesTable.id, staffCourseIds)))
+    .execute();
+}
+
+// Trashed courses the user may delete, and trashed lessons and quizzes of live courses the user
+// may edit, newest first. Lessons and quizzes inside a trashed parent come back with the parent.
+export async function getTrash(userId: number, now: Date = new Date()): Promise<TrashItem[]> {
+  try {
+    const courses = await getStaffCourses(userId);
+    const cutoff = retentionCutoff(now);
+    const items: TrashItem[] = [];
+
+    const editableCourseIds: number[] = [];
+    for (const course of courses) {
+      if (course.deleted_at === null) {
+        if (await hasCourseCapability(course.id, userId, 'edit_content')) {
+          editableCourseIds.push(course.id);
+        }
+      } else if (course.deleted_at > cutoff && await hasCourseCapability(course.id, userId, 'delete')) {
+        items.push({
+          type: 'course',
+          id: course.id,
+          title: course.title,
+          course_id: course.id,
+          course_title: course.title,
+          deleted_at: course.deleted_at,
+          restorable_until: restorableUntil(course.deleted_at)
+        });
+      }
+    }
+
+    if (editableCourseIds.length > 0) {
+      const courseTitles = new Map(courses.map(course => [course.id, course.title]));
+
+      const lessons = await db.select()
+        .from(lessonsTable)
+        .where(and(inArray(lessonsTable.course_id, editableCourseIds), gt(lessonsTable.deleted_at, cutoff)))
+        .execute();
+
+      for (const lesson of lessons) {
+        items.push({
+          type: 'lesson',
+          id: lesson.id,
+          title: lesson.title,
+          course_id: lesson.course_id,
+          course_title: courseTitles.get(lesson.course_id)!,
+          deleted_at: lesson.deleted_at!,
+          restorable_until: restorableUntil(lesson.deleted_at!)
+        });
+      }
+
+      const quizzes = await db.select({ quiz: quizzesTable, course_id: lessonsTable.course_id })
+        .from(quizzesTable)
+        .innerJoin(lessonsTable, eq(quizzesTable.lesson_id, lessonsTable.id))
+        .where(and(
+          inArray(lessonsTable.course_id, editableCourseIds),
+          isNull(lessonsTable.deleted_at),
+          gt(quizzesTable.deleted_at, cutoff)
+        ))
+        .execute();
+
+      for (const { quiz, course_id } of quizzes) {
+        items.push({
+          type: 'quiz',
+          id: quiz.id,
+          title: quiz.title,
+          course_id,
+          course_title: courseTitles.get(course_id)!,
+          deleted_at: quiz.deleted_at!,
+          restorable_until: restorableUntil(quiz.deleted_at!)
+        });
+      }
+    }
+
+    return items.sort((a, b) => b.deleted_at.getTime() - a.deleted_at.getTime());
+  } catch (error) {
+    console.error('Failed to fetch trash:', error);
+    throw error;
+  }
+}
+
+async function restoreCourse(courseId: number, userId: number, now: Date): Promise<void> {
+  const courses = await db.select()
+    .from(coursesTable)
+    .where(and(eq(coursesTable.id, courseId), isNotNull(coursesTable.deleted_at)))
+    .execute();
+
+  if (!courses.length) {
+    throw new Error('Course not found in the trash');
+  }
+
+  if (!(await hasCourseCapability(courseId, userId, 'delete'))) {
+    throw new Error('You do not have permission to restore this course');
+  }
+
+  assertRestorable(courses[0].deleted_at!, now);
+
+  await db.update(coursesTable)
+    .set({ deleted_at: null, updated_at: now })
+    .where(eq(coursesTable.id, courseId))
+    .execute();
+}
+
+async function restoreLesson(lessonId: number, userId: number, now: Date): Promise<void> {
+  const lessons = await db.select({ lesson: lessonsTable, course: coursesTable })
+    .from(lessonsTable)
+    .innerJoin(coursesTable, eq(lessonsTable.course_id, coursesTable.id))
+    .where(and(eq(lessonsTable.id, lessonId), isNotNull(lessonsTable.deleted_at)))
+    .execute();
+
+  if (!lessons.length) {
+    throw new Error('Lesson not found in the trash');
+  }
+
+  const { lesson, course } = lessons[0];
+  if (course.deleted_at !== null) {
+    throw new Error('Restore the lesson\'s course first');
+  }
+
+  if (!(await hasCourseCapability(course.id, userId, 'edit_content'))) {
+    throw new Error('You do not have permission to restore this lesson');
+  }
+
+  assertRestorable(lesson.deleted_at!, now);
+  await assertNoOpenDraft(course.id);
+
+  await db.update(lessonsTable)
+    .set({ deleted_at: null, updated_at: now })
+    .where(eq(lessonsTable.id, lessonId))
+    .execute();
+}
+
+async function restoreQuiz(quizId: number, userId: number, now: Date): Promise<void> {
+  const quizzes = await db.select({ quiz: quizzesTable, lesson: lessonsTable, course: coursesTable })
+    .from(quizzesTable)
+    .innerJoin(lessonsTable, eq(quizzesTable.lesson_id, lessonsTable.id))
+    .innerJoin(coursesTable, eq(lessonsTable.course_id, coursesTable.id))
+    .where(and(eq(quizzesTable.id, quizId), isNotNull(quizzesTable.deleted_at)))
+    .execute();
+
+  if (!quizzes.length) {
+    throw new Error('Quiz not found in the trash');
+  }
+
+  const { quiz, lesson, course } = quizzes[0];
+  if (course.deleted_at !== null || lesson.deleted_at !== null) {
+    throw new Error('Restore the quiz\'s lesson and course first');
+  }
+
+  if (!(await hasCourseCapability(course.id, userId, 'edit_content'))) {
+    throw new Error('You do not have permission to restore this quiz');
+  }
+
+  assertRestorable(quiz.deleted_at!, now);
+  await assertNoOpenDraft(course.id);
+
+  await db.update(quizzesTable)
+    .set({ deleted_at: null, updated_at: now })
+    .where(eq(quizzesTable.id, quizId))
+    .execute();
+}
+
+// Restored courses come back unpublished; restored lessons and quizzes go straight back into
+// their course, so a course with an open draft has to settle it first
+export async function restoreTrashItem(input: TrashItemInput, userId: number, now: Date = new Date()): Promise<{ success: boolean }> {
+  try {
+    if (input.type === 'course') {
+      await restoreCourse(input.id, userId, now);
+    } else if (input.type === 'lesson') {
+      await restoreLesson(input.id, userId, now);
+    } else {
+      await restoreQuiz(input.id, userId, now);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Trash restore failed:', error);
+    throw error;
+  }
+}
+
+async function hasQuizAttempts(executor: Transaction, quizIds: number[]): Promise<boolean> {
+  if (quizIds.length === 0) {
+    return false;
+  }
+
+  const attempts = await executor.select({ id: quizAttemptsTable.id })
+    .from(quizAttemptsTable)
+    .where(inArray(quizAttemptsTable.quiz_id, quizIds))
+    .limit(1)
+    .execute();
+  return attempts.length > 0;
+}
+
+async function hasLessonProgress(executor: Transaction, lessonIds: number[]): Promise<boolean> {
+  if (lessonIds.length === 0) {
+    return false;
+  }
+
+  const progress = await executor.select({ id: lessonProgressTable.id })
+    .from(lessonProgressTable)
+    .where(inArray(lessonProgressTable.lesson_id, lessonIds))
+    .limit(1)
+    .execute();
+  return progress.length > 0;
+}
+
+async function hasCourseRecords(executor: Transaction, courseId: number): Promise<boolean> {
+  for (const table of [enrollmentsTable, certificatesTable, paymentsTable]) {
+    const rows = await executor.select({ id: table.id })
+      .from(table)
+      .where(eq(table.course_id, courseId))
+      .limit(1)
+      .execute();
+    if (rows.length > 0) {
+      return true;
+    }
+  }
+  return false;
+}
+
+async function deleteQuizzes(executor: Transaction, quizIds: number[]): Promise<void> {
+  if (quizIds.length > 0) {
+    await executor.delete(quizQuestionsTable).where(inArray(quizQuestionsTable.quiz_id, quizIds)).execute();
+    await executor.delete(quizzesTable).where(inArray(quizzesTable.id, quizIds)).execute();
+  }
+}
+
+async function getQuizIds(executor: Transaction, lessonIds: number[]): Promise<number[]> {
+  if (lessonIds.length === 0) {
+    return [];
+  }
+
+  const quizzes = await executor.select({ id: quizzesTable.id })
+    .from(quizzesTable)
+    .where(inArray(quizzesTable.lesson_id, lessonIds))
+    .execute();
+  return quizzes.map(quiz => quiz.id);
+}
+
+// Permanently removes content that has been in the trash past the retention window. Content with
+// student history (enrollments, progress, quiz attempts, certificates or payments) stays behind as
+// an archive so those records keep pointing at it; it just can't be restored anymore.
+// Returns the ids of what was removed.
+export async function purgeDeletedContent(now: Date = new Date()): Promise<{ courses: number[]; lessons: number[]; quizzes: number[] }> {
+  const cutoff = retentionCutoff(now);
+  const purged = { courses: [] as number[], lessons: [] as number[], quizzes: [] as number[] };
+
+  const quizzes = await db.select({ id: quizzesTable.id })
+    .from(quizzesTable)
+    .where(lte(quizzesTable.deleted_at, cutoff))
+    .execute();
+
+  for (const quiz of quizzes) {
+    await db.transaction(async (tx) => {
+      if (!(await hasQuizAttempts(tx, [quiz.id]))) {
+        await deleteQuizzes(tx, [quiz.id]);
+        purged.quizzes.push(quiz.id);
+      }
+    });
+  }
+
+  const lessons = await db.select({ id: lessonsTable.id })
+    .from(lessonsTable)
+    .where(lte(lessonsTable.deleted_at, cutoff))
+    .execute();
+
+  for (const lesson of lessons) {
+    await db.transaction(async (tx) => {
+      const quizIds = await getQuizIds(tx, [lesson.id]);
+      if (!(await hasLessonProgress(tx, [lesson.id])) && !(await hasQuizAttempts(tx, quizIds))) {
+        await deleteQuizzes(tx, quizIds);
+        await tx.delete(lessonsTable).where(eq(lessonsTable.id, lesson.id)).execute();
+        purged.lessons.push(lesson.id);
+      }
+    });
+  }
+
+  const courses = await db.select({ id: coursesTable.id })
+    .from(coursesTable)
+    .where(lte(coursesTable.deleted_at, cutoff))
+    .execute();
+
+  for (const course of courses) {
+    await db.transaction(async (tx) => {
+      const lessonIds = (await tx.select({ id: lessonsTable.id })
+        .from(lessonsTable)
+        .where(eq(lessonsTable.course_id, course.id))
+        .execute()).map(lesson => lesson.id);
+      const quizIds = await getQuizIds(tx, lessonIds);
+
+      if (await hasCourseRecords(tx, course.id) || await hasLessonProgress(tx, lessonIds) || await hasQuizAttempts(tx, quizIds)) {
+        return;
+      }
+
+      // Staff, cohorts, revisions and the like cascade with the course
+      await deleteQuizzes(tx, quizIds);
+      if (lessonIds.length > 0) {
+        await tx.delete(lessonsTable).where(inArray(lessonsTable.id, lessonIds)).execute();
+      }
+      await tx.delete(coursesTable).where(eq(coursesTable.id, course.id)).execute();
+      purged.courses.push(course.id);
+    });
+  }
+
+  return purged;
+}
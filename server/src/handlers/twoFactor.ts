@@ -0,0 +1,383 @@
+import { db } from '../db';
+import { usersTable, userTwoFactorTable, twoFactorRecoveryCodesTable, twoFactorRequirementsTable } from '../db/schema';
+import { type TwoFactorEnrollment, type TwoFactorStatus, type TwoFactorRequirement, type UserRole } from '../schema';
+import { eq, and, or, lt, isNull, count } from 'drizzle-orm';
+import { assertPermission } from './permissions';
+import crypto from 'crypto';
+
+const TOTP_ISSUER = process.env['TOTP_ISSUER'] || 'EduPlatform';
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // Accept one step of clock drift either way
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/=+$/, '').replace(/\s/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+// RFC 4226 HOTP value for a given counter
+function hotp(secret: string, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const digest = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+  const offset = digest[digest.length - 1] & 0xf;
+  const binary = ((digest[offset] & 0x7f) << 24) |
+    (digest[offset + 1] << 16) |
+    (digest[offset + 2] << 8) |
+    digest[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+function currentStep(timestamp: number = Date.now()): number {
+  return Math.floor(timestamp / 1000 / TOTP_STEP_SECONDS);
+}
+
+// RFC 6238 TOTP code for the given time
+export function generateTotpCode(secret: string, timestamp: number = Date.now()): string {
+  return hotp(secret, currentStep(timestamp));
+}
+
+// Returns the matching time step, or null when the code is wrong
+function matchTotpStep(secret: string, code: string): number | null {
+  const step = currentStep();
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const expected = Buffer.from(hotp(secret, step + offset));
+    const provided = Buffer.from(code);
+    if (expected.length === provided.length && crypto.timingSafeEqual(expected, provided)) {
+      return step + offset;
+    }
+  }
+  return null;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+// Replace any existing recovery codes with a fresh set
+async function issueRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await db.delete(twoFactorRecoveryCodesTable)
+    .where(eq(twoFactorRecoveryCodesTable.user_id, userId))
+    .execute();
+
+  await db.insert(twoFactorRecoveryCodesTable)
+    .values(codes.map(code => ({
+      user_id: userId,
+      code_hash: hashRecoveryCode(code)
+    })))
+    .execute();
+
+  return codes;
+}
+
+async function getEnrollment(userId: number) {
+  const rows = await db.select()
+    .from(userTwoFactorTable)
+    .where(eq(userTwoFactorTable.user_id, userId))
+    .execute();
+
+  return rows[0] ?? null;
+}
+
+export async function isTwoFactorEnabled(userId: number): Promise<boolean> {
+  const enrollment = await getEnrollment(userId);
+  return !!enrollment?.enabled_at;
+}
+
+export async function isTwoFactorRequired(role: UserRole): Promise<boolean> {
+  const rows = await db.select()
+    .from(twoFactorRequirementsTable)
+    .where(eq(twoFactorRequirementsTable.role, role))
+    .execute();
+
+  return rows[0]?.required ?? false;
+}
+
+// Check a TOTP or recovery code for a user with two-factor enabled; recovery codes are consumed
+export async function verifyTwoFactorCode(userId: number, code: string): Promise<boolean> {
+  const enrollment = await getEnrollment(userId);
+  if (!enrollment?.enabled_at) {
+    return false;
+  }
+
+  const trimmed = code.trim();
+  if (/^\d+$/.test(trimmed)) {
+    const step = matchTotpStep(enrollment.secret, trimmed);
+    if (step === null) {
+      return false;
+    }
+
+    // Claim the step in the same statement that checks it, so a code can't be replayed by two
+    // requests racing past the check
+    const claimed = await db.update(userTwoFactorTable)
+      .set({ last_used_step: step, updated_at: new Date() })
+      .where(and(
+        eq(userTwoFactorTable.id, enrollment.id),
+        or(isNull(userTwoFactorTable.last_used_step), lt(userTwoFactorTable.last_used_step, step))
+      ))
+      .returning()
+      .execute();
+
+    return claimed.length > 0;
+  }
+
+  const consumed = await db.update(twoFactorRecoveryCodesTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(twoFactorRecoveryCodesTable.user_id, userId),
+      eq(twoFactorRecoveryCodesTable.code_hash, hashRecoveryCode(trimmed)),
+      isNull(twoFactorRecoveryCodesTable.used_at)
+    ))
+    .returning()
+    .execute();
+
+  return consumed.length > 0;
+}
+
+export async function beginTwoFactorEnrollment(userId: number): Promise<TwoFactorEnrollment> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const existing = await getEnrollment(userId);
+    if (existing?.enabled_at) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = base32Encode(crypto.randomBytes(20));
+
+    if (existing) {
+      await db.update(userTwoFactorTable)
+        .set({ secret, last_used_step: null, updated_at: new Date() })
+        .where(eq(userTwoFactorTable.id, existing.id))
+        .execute();
+    } else {
+      await db.insert(userTwoFactorTable)
+        .values({ user_id: userId, secret })
+        .execute();
+    }
+
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${users[0].email}`);
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TOTP_ISSUER)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+
+    return { secret, otpauthUrl };
+  } catch (error) {
+    console.error('Two-factor enrollment failed:', error);
+    throw error;
+  }
+}
+
+export async function confirmTwoFactorEnrollment(userId: number, code: string): Promise<{ recoveryCodes: string[] }> {
+  try {
+    const enrollment = await getEnrollment(userId);
+    if (!enrollment) {
+      throw new Error('Two-factor enrollment has not been started');
+    }
+
+    if (enrollment.enabled_at) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const step = matchTotpStep(enrollment.secret, code.trim());
+    if (step === null) {
+      throw new Error('Invalid verification code');
+    }
+
+    await db.update(userTwoFactorTable)
+      .set({
+        enabled_at: new Date(),
+        last_used_step: step,
+        updated_at: new Date()
+      })
+      .where(eq(userTwoFactorTable.id, enrollment.id))
+      .execute();
+
+    const recoveryCodes = await issueRecoveryCodes(userId);
+
+    return { recoveryCodes };
+  } catch (error) {
+    console.error('Two-factor confirmation failed:', error);
+    throw error;
+  }
+}
+
+export async function disableTwoFactor(userId: number, code: string): Promise<{ success: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    if (await isTwoFactorRequired(users[0].role)) {
+      throw new Error('Two-factor authentication is required for your role');
+    }
+
+    if (!(await verifyTwoFactorCode(userId, code))) {
+      throw new Error('Invalid verification code');
+    }
+
+    await db.delete(twoFactorRecoveryCodesTable)
+      .where(eq(twoFactorRecoveryCodesTable.user_id, userId))
+      .execute();
+
+    await db.delete(userTwoFactorTable)
+      .where(eq(userTwoFactorTable.user_id, userId))
+      .execute();
+
+    return { success: true };
+  } catch (error) {
+    console.error('Disabling two-factor failed:', error);
+    throw error;
+  }
+}
+
+export async function regenerateRecoveryCodes(userId: number, code: string): Promise<{ recoveryCodes: string[] }> {
+  try {
+    if (!(await verifyTwoFactorCode(userId, code))) {
+      throw new Error('Invalid verification code');
+    }
+
+    const recoveryCodes = await issueRecoveryCodes(userId);
+
+    return { recoveryCodes };
+  } catch (error) {
+    console.error('Recovery code regeneration failed:', error);
+    throw error;
+  }
+}
+
+export async function getTwoFactorStatus(userId: number): Promise<TwoFactorStatus> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const remaining = await db.select({ count: count() })
+      .from(twoFactorRecoveryCodesTable)
+      .where(and(
+        eq(twoFactorRecoveryCodesTable.user_id, userId),
+        isNull(twoFactorRecoveryCodesTable.used_at)
+      ))
+      .execute();
+
+    return {
+      enabled: await isTwoFactorEnabled(userId),
+      required: await isTwoFactorRequired(users[0].role),
+      recoveryCodesRemaining: remaining[0].count
+    };
+  } catch (error) {
+    console.error('Failed to get two-factor status:', error);
+    throw error;
+  }
+}
+
+export async function getTwoFactorRequirements(adminId: number): Promise<TwoFactorRequirement[]> {
+  try {
+    await assertPermission(adminId, 'security.manage');
+
+    const rows = await db.select()
+      .from(twoFactorRequirementsTable)
+      .execute();
+
+    const roles: UserRole[] = ['student', 'instructor', 'administrator'];
+    return roles.map(role => ({
+      role,
+      required: rows.find(row => row.role === role)?.required ?? false
+    }));
+  } catch (error) {
+    console.error('Failed to get two-factor requirements:', error);
+    throw error;
+  }
+}
+
+export async function setTwoFactorRequirement(adminId: number, role: UserRole, required: boolean): Promise<TwoFactorRequirement> {
+  try {
+    await assertPermission(adminId, 'security.manage');
+
+    // Don't let an admin lock themselves out of the policy they are setting
+    if (required && role === 'administrator' && !(await isTwoFactorEnabled(adminId))) {
+      throw new Error('Enable two-factor authentication on your own account first');
+    }
+
+    const result = await db.insert(twoFactorRequirementsTable)
+      .values({ role, required, updated_by: adminId })
+      .onConflictDoUpdate({
+        target: twoFactorRequirementsTable.role,
+        set: { required, updated_by: adminId, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    return { role: result[0].role, required: result[0].required };
+  } catch (error) {
+    console.error('Failed to set two-factor requirement:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { usersTable, coursesTable, type User, type NewUser, type NewCourse } from '../db/schema';
+
+// Inserts a user directly, without going through registration
+export const createUser = async (email: string, role: User['role'], values: Partial<NewUser> = {}): Promise<number> => {
+  const result = await db.insert(usersTable)
+    .values({
+      email,
+      password_hash: 'hashedpassword',
+      first_name: 'Test',
+      last_name: 'User',
+      role,
+      ...values
+    })
+    .returning()
+    .execute();
+  return result[0].id;
+};
+
+// Inserts an unpublished course unless the values say otherwise
+export const createCourse = async (instructorId: number, values: Partial<NewCourse> = {}): Promise<number> => {
+  const title = values.title ?? 'Course';
+  const result = await db.insert(coursesTable)
+    .values({
+      title,
+      description: `${title} description`,
+      price: '10.00',
+      duration_hours: '1.0',
+      instructor_id: instructorId,
+      ...values
+    })
+    .returning()
+    .execute();
+  return result[0].id;
+};
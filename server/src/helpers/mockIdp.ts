@@ -0,0 +1,198 @@
+import http from 'http';
+import crypto from 'crypto';
+import { type AddressInfo } from 'net';
+import { createCodeChallenge } from '../oidc';
+
+export interface MockIdpClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  [claim: string]: unknown;
+}
+
+interface PendingCode {
+  claims: MockIdpClaims;
+  nonce: string;
+  redirectUri: string;
+  codeChallenge: string;
+}
+
+// Minimal OIDC provider for tests and local development: discovery, JWKS,
+// an authorize endpoint that signs in `user` without a login page, and a token endpoint.
+export class MockIdp {
+  readonly clientId = 'mock-client';
+  readonly clientSecret = 'mock-secret';
+  user: MockIdpClaims = {
+    sub: 'mock-user-1',
+    email: 'sso.student@school.example',
+    email_verified: true,
+    given_name: 'Sam',
+    family_name: 'Student',
+    roles: ['student']
+  };
+  // Merged into the next ID tokens, e.g. to simulate a bad nonce or audience
+  overrideClaims: Record<string, unknown> = {};
+
+  private server: http.Server | null = null;
+  private port = 0;
+  private readonly kid = crypto.randomBytes(8).toString('hex');
+  private readonly keys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  private readonly codes = new Map<string, PendingCode>();
+
+  get issuer(): string {
+    return `http://127.0.0.1:${this.port}`;
+  }
+
+  async start(port: number = 0): Promise<void> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'server_error', error_description: String(error) }));
+      });
+    });
+
+    await new Promise<void>(resolve => this.server!.listen(port, '127.0.0.1', resolve));
+    this.port = (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  // Follow an authorization URL the way a browser would and return the callback parameters
+  async authorize(authorizationUrl: string): Promise<{ code: string; state: string }> {
+    const response = await fetch(authorizationUrl, { redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status !== 302 || !location) {
+      throw new Error(`Mock IdP did not redirect (${response.status})`);
+    }
+
+    const callback = new URL(location);
+    return {
+      code: callback.searchParams.get('code') ?? '',
+      state: callback.searchParams.get('state') ?? ''
+    };
+  }
+
+  private signIdToken(claims: Record<string, unknown>): string {
+    const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: this.kid })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), this.keys.privateKey);
+    return `${header}.${payload}.${signature.toString('base64url')}`;
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<URLSearchParams> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    return new URLSearchParams(Buffer.concat(chunks).toString());
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', this.issuer);
+
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      return this.sendJson(res, 200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+        response_types_supported: ['code'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256']
+      });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      const jwk = this.keys.publicKey.export({ format: 'jwk' });
+      return this.sendJson(res, 200, { keys: [{ ...jwk, kid: this.kid, use: 'sig', alg: 'RS256' }] });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      const params = url.searchParams;
+      const redirectUri = params.get('redirect_uri');
+      if (params.get('client_id') !== this.clientId || !redirectUri || params.get('code_challenge_method') !== 'S256') {
+        return this.sendJson(res, 400, { error: 'invalid_request' });
+      }
+
+      const code = crypto.randomBytes(16).toString('hex');
+      this.codes.set(code, {
+        claims: { ...this.user },
+        nonce: params.get('nonce') ?? '',
+        redirectUri,
+        codeChallenge: params.get('code_challenge') ?? ''
+      });
+
+      const callback = new URL(redirectUri);
+      callback.searchParams.set('code', code);
+      callback.searchParams.set('state', params.get('state') ?? '');
+      res.writeHead(302, { Location: callback.toString() });
+      res.end();
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/token') {
+      const body = await this.readBody(req);
+      if (body.get('client_id') !== this.clientId || body.get('client_secret') !== this.clientSecret) {
+        return this.sendJson(res, 401, { error: 'invalid_client' });
+      }
+
+      const code = body.get('code') ?? '';
+      const pending = this.codes.get(code);
+      this.codes.delete(code);
+
+      if (!pending ||
+        body.get('grant_type') !== 'authorization_code' ||
+        body.get('redirect_uri') !== pending.redirectUri ||
+        createCodeChallenge(body.get('code_verifier') ?? '') !== pending.codeChallenge) {
+        return this.sendJson(res, 400, { error: 'invalid_grant' });
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = this.signIdToken({
+        iss: this.issuer,
+        aud: this.clientId,
+        iat: now,
+        exp: now + 300,
+        nonce: pending.nonce,
+        ...pending.claims,
+        ...this.overrideClaims
+      });
+
+      return this.sendJson(res, 200, {
+        access_token: crypto.randomBytes(16).toString('hex'),
+        token_type: 'Bearer',
+        expires_in: 300,
+        id_token: idToken
+      });
+    }
+
+    this.sendJson(res, 404, { error: 'not_found' });
+  }
+}
+
+// `bun src/helpers/mockIdp.ts` runs a local IdP and prints a matching OIDC_PROVIDERS value
+if (import.meta.main) {
+  const idp = new MockIdp();
+  await idp.start(parseInt(process.env['MOCK_IDP_PORT'] || '4011'));
+  console.log(`Mock IdP listening at ${idp.issuer}`);
+  console.log(`OIDC_PROVIDERS='${JSON.stringify([{
+    id: 'mock-school',
+    name: 'Mock School',
+    issuer: idp.issuer,
+    clientId: idp.clientId,
+    clientSecret: idp.clientSecret,
+    roleClaim: 'roles',
+    roleMapping: { student: 'student', faculty: 'instructor' }
+  }])}'`);
+}
@@ -1,7 +1,8 @@
-import { initTRPC } from '@trpc/server';
-import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { createHTTPServer, type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
+import type { IncomingMessage, ServerResponse } from 'http';
 import superjson from 'superjson';
 
 // Import schemas
@@ -9,6 +10,14 @@ import {
   registerInputSchema,
   loginInputSchema,
   createCourseInputSchema,
+  searchCoursesInputSchema,
+  createCategoryInputSchema,
+  updateCategoryInputSchema,
+  categoryIdInputSchema,
+  categorySlugInputSchema,
+  submitReviewInputSchema,
+  replyToReviewInputSchema,
+  setReviewHiddenInputSchema,
   createLessonInputSchema,
   createQuizInputSchema,
   createQuizQuestionInputSchema,
@@ -33,11 +42,25 @@ import {
   messageTypeInputSchema,
   notificationIdInputSchema,
   userStatusInputSchema,
+  userRoleInputSchema,
   courseModerationInputSchema,
   dateRangeInputSchema,
   exportFormatInputSchema,
   emailInputSchema,
   resetPasswordInputSchema,
+  refreshTokenInputSchema,
+  verifyEmailInputSchema,
+  twoFactorCodeInputSchema,
+  twoFactorLoginInputSchema,
+  twoFactorRequirementSchema,
+  ssoProviderInputSchema,
+  updateProfileInputSchema,
+  changePasswordInputSchema,
+  changeEmailInputSchema,
+  grantPermissionInputSchema,
+  permissionGrantIdInputSchema,
+  ssoLinkInputSchema,
+  ssoCallbackInputSchema,
   courseUpdateInputSchema,
   lessonUpdateInputSchema,
   quizUpdateInputSchema,
@@ -45,20 +68,176 @@ import {
   quizQuestionsInputSchema,
   instructorIdInputSchema,
   processPaymentInputSchema,
-  refundPaymentInputSchema
+  refundPaymentInputSchema,
+  saveCourseDraftInputSchema,
+  courseRevisionInputSchema,
+  diffCourseRevisionsInputSchema,
+  duplicateCourseInputSchema,
+  saveCourseTemplateInputSchema,
+  createCourseFromTemplateInputSchema,
+  courseTemplateIdInputSchema,
+  exportCoursePackageInputSchema,
+  importCoursePackageInputSchema,
+  importContentPackageInputSchema,
+  updateCourseScheduleInputSchema,
+  createCourseRunInputSchema,
+  updateCourseRunInputSchema,
+  courseRunIdInputSchema,
+  trashItemInputSchema,
+  uploadMediaInputSchema,
+  mediaIdInputSchema,
+  setMediaQuotaInputSchema,
+  inviteCourseStaffInputSchema,
+  updateCourseStaffInputSchema,
+  courseStaffUserInputSchema,
+  respondToStaffInvitationInputSchema,
+  messageCourseStudentsInputSchema,
+  setCoursePrerequisitesInputSchema,
+  createLearningPathInputSchema,
+  updateLearningPathInputSchema,
+  learningPathIdInputSchema,
+  type User,
+  type UserRole,
+  type Permission
 } from './schema';
 
 // Import handlers
-import { register, login, logout, forgotPassword, resetPassword } from './handlers/auth';
+import { 
+  register, 
+  login, 
+  logout, 
+  forgotPassword, 
+  resetPassword, 
+  authenticateToken, 
+  refreshSession, 
+  revokeUserSessions, 
+  verifyEmail, 
+  resendVerificationEmail, 
+  completeTwoFactorLogin, 
+  changePassword, 
+  changeEmail 
+} from './handlers/auth';
+import { getMyProfile, updateMyProfile } from './handlers/profile';
+import { 
+  submitReview, 
+  getCourseReviews, 
+  getMyCourseReview, 
+  replyToReview, 
+  setReviewHidden 
+} from './handlers/reviews';
+import { 
+  getCategories, 
+  getCategoryLanding, 
+  createCategory, 
+  updateCategory, 
+  deleteCategory 
+} from './handlers/categories';
+import { 
+  hasPermission, 
+  getUserPermissionGrants, 
+  grantPermissionRole, 
+  revokePermissionGrant 
+} from './handlers/permissions';
+import { getSsoProviders, beginSsoLogin, beginSsoLink, completeSsoLogin } from './handlers/sso';
+import { 
+  beginTwoFactorEnrollment, 
+  confirmTwoFactorEnrollment, 
+  disableTwoFactor, 
+  regenerateRecoveryCodes, 
+  getTwoFactorStatus, 
+  getTwoFactorRequirements, 
+  setTwoFactorRequirement, 
+  isTwoFactorEnabled, 
+  isTwoFactorRequired 
+} from './handlers/twoFactor';
 import { 
   createCourse, 
   getCourses, 
+  searchCourses, 
   getCourseById, 
   getInstructorCourses, 
   updateCourse, 
   publishCourse, 
-  deleteCourse 
+  deleteCourse, 
+  duplicateCourse 
 } from './handlers/courses';
+import { 
+  saveCourseAsTemplate, 
+  getCourseTemplates, 
+  createCourseFromTemplate, 
+  deleteCourseTemplate 
+} from './handlers/courseTemplates';
+import { 
+  exportCoursePackage, 
+  importCoursePackage 
+} from './handlers/coursePackages';
+import { 
+  importContentPackage 
+} from './handlers/contentPackages';
+import { 
+  updateCourseSchedule, 
+  publishScheduledCourses 
+} from './handlers/courseSchedule';
+import { 
+  getCourseRuns, 
+  createCourseRun, 
+  updateCourseRun, 
+  deleteCourseRun, 
+  getCourseRunRoster, 
+  joinCourseRunWaitlist, 
+  leaveCourseRunWaitlist 
+} from './handlers/courseRuns';
+import { 
+  getTrash, 
+  restoreTrashItem, 
+  purgeDeletedContent 
+} from './handlers/trash';
+import { 
+  uploadMedia, 
+  getMyMedia, 
+  deleteMedia, 
+  getMediaDownloadUrl, 
+  setMediaQuota, 
+  readMedia, 
+  isPublicMedia 
+} from './handlers/media';
+import { 
+  submitCourseForReview, 
+  getModerationQueue, 
+  getCourseModerationHistory 
+} from './handlers/moderation';
+import { 
+  getCourseDraft, 
+  saveCourseDraft, 
+  discardCourseDraft, 
+  getCourseRevisions, 
+  diffCourseRevisions, 
+  rollbackCourse 
+} from './handlers/revisions';
+import { 
+  getCourseStaff, 
+  inviteCourseStaff, 
+  respondToStaffInvitation, 
+  updateCourseStaff, 
+  removeCourseStaff, 
+  getMyStaffInvitations, 
+  getMyCourseMemberships, 
+  messageCourseStudents 
+} from './handlers/courseStaff';
+import { 
+  getCoursePrerequisites, 
+  setCoursePrerequisites, 
+  getPrerequisiteStatus 
+} from './handlers/prerequisites';
+import { 
+  getLearningPaths, 
+  createLearningPath, 
+  updateLearningPath, 
+  deleteLearningPath, 
+  enrollInLearningPath, 
+  getLearningPathProgress, 
+  getMyLearningPaths 
+} from './handlers/learningPaths';
 import { 
   createLesson, 
   getLessonsByCourse, 
@@ -75,6 +254,7 @@ import {
   getQuizQuestions, 
   submitQuiz, 
   getQuizAttempts, 
+  getCourseQuizAttempts, 
   getStudentQuizAttempt, 
   updateQuiz, 
   deleteQuiz 
@@ -121,6 +301,7 @@ import {
   getAllUsers, 
   getUserById, 
   updateUserStatus, 
+  updateUserRole, 
   deleteUser, 
   getAllCourses, 
   moderateCourse, 
@@ -128,16 +309,87 @@ import {
   getRevenueReport, 
   getCertificateStats, 
   exportUserData, 
-  exportCourseData 
+  exportCourseData, 
+  getLockedAccounts, 
+  unlockUserAccount 
 } from './handlers/admin';
 
-const t = initTRPC.create({
+// Behind a reverse proxy the client address arrives in X-Forwarded-For
+const TRUST_PROXY = process.env['TRUST_PROXY'] === 'true';
+
+function getClientIp(req: CreateHTTPContextOptions['req']): string | null {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string' && forwarded.length > 0) {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? null;
+}
+
+// Resolve the caller from the bearer token issued by login
+async function createContext({ req }: CreateHTTPContextOptions): Promise<{ user: User | null; sessionId: number | null; ipAddress: string | null }> {
+  const ipAddress = getClientIp(req);
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return { user: null, sessionId: null, ipAddress };
+  }
+
+  const session = await authenticateToken(header.slice('Bearer '.length).trim());
+  return { ...(session ?? { user: null, sessionId: null }), ipAddress };
+}
+
+type Context = Awaited<ReturnType<typeof createContext>>;
+
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
 });
 
 const publicProcedure = t.procedure;
 const router = t.router;
 
+// Any signed-in user
+const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user || ctx.sessionId === null) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user, sessionId: ctx.sessionId } });
+});
+
+async function enforceTwoFactorPolicy(user: User): Promise<void> {
+  if (await isTwoFactorRequired(user.role) && !(await isTwoFactorEnabled(user.id))) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Two-factor authentication is required for your role' });
+  }
+}
+
+// Signed-in user whose role is one of the given roles and who meets the role's two-factor policy
+const roleProcedure = (...roles: UserRole[]) => protectedProcedure.use(async ({ ctx, next }) => {
+  if (!roles.includes(ctx.user.role)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Insufficient permissions' });
+  }
+  await enforceTwoFactorPolicy(ctx.user);
+  return next({ ctx });
+});
+
+// Signed-in user holding a global permission, through their role or a permission grant
+const permissionProcedure = (permission: Permission) => protectedProcedure.use(async ({ ctx, next }) => {
+  if (!(await hasPermission(ctx.user.id, permission))) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Insufficient permissions' });
+  }
+  await enforceTwoFactorPolicy(ctx.user);
+  return next({ ctx });
+});
+
+// Course-scoped permissions depend on the input, so they're checked inside the resolver
+async function requireCoursePermission(user: User, permission: Permission, courseId: number): Promise<void> {
+  if (!(await hasPermission(user.id, permission, { courseId }))) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Insufficient permissions' });
+  }
+  await enforceTwoFactorPolicy(user);
+}
+
+const studentProcedure = roleProcedure('student');
+const instructorProcedure = roleProcedure('instructor', 'administrator');
+const adminProcedure = roleProcedure('administrator');
+
 const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
@@ -151,11 +403,44 @@ const appRouter = router({
   
   login: publicProcedure
     .input(loginInputSchema)
-    .mutation(({ input }) => login(input)),
+    .mutation(({ input, ctx }) => login(input, ctx.ipAddress)),
   
-  logout: publicProcedure
-    .input(userIdInputSchema)
-    .mutation(({ input }) => logout(input.userId)),
+  completeTwoFactorLogin: publicProcedure
+    .input(twoFactorLoginInputSchema)
+    .mutation(({ input, ctx }) => completeTwoFactorLogin(input.challengeToken, input.code, ctx.ipAddress)),
+  
+  getSsoProviders: publicProcedure
+    .query(() => getSsoProviders()),
+  
+  beginSsoLogin: publicProcedure
+    .input(ssoProviderInputSchema)
+    .mutation(({ input }) => beginSsoLogin(input.provider)),
+  
+  completeSsoLogin: publicProcedure
+    .input(ssoCallbackInputSchema)
+    .mutation(({ input }) => completeSsoLogin(input)),
+  
+  beginSsoLink: protectedProcedure
+    .input(ssoLinkInputSchema)
+    .mutation(({ input, ctx }) => beginSsoLink(input.provider, ctx.user.id, input.password)),
+  
+  refreshSession: publicProcedure
+    .input(refreshTokenInputSchema)
+    .mutation(({ input }) => refreshSession(input.refreshToken)),
+  
+  logout: protectedProcedure
+    .mutation(({ ctx }) => logout(ctx.user.id, ctx.sessionId)),
+  
+  logoutAllDevices: protectedProcedure
+    .mutation(({ ctx }) => revokeUserSessions(ctx.user.id)),
+  
+  verifyEmail: publicProcedure
+    .input(verifyEmailInputSchema)
+    .mutation(({ input }) => verifyEmail(input.token)),
+  
+  resendVerificationEmail: publicProcedure
+    .input(emailInputSchema)
+    .mutation(({ input }) => resendVerificationEmail(input.email)),
   
   forgotPassword: publicProcedure
     .input(emailInputSchema)
@@ -165,14 +450,73 @@ const appRouter = router({
     .input(resetPasswordInputSchema)
     .mutation(({ input }) => resetPassword(input.token, input.newPassword)),
 
+  // Two-factor authentication routes
+  getTwoFactorStatus: protectedProcedure
+    .query(({ ctx }) => getTwoFactorStatus(ctx.user.id)),
+  
+  beginTwoFactorEnrollment: protectedProcedure
+    .mutation(({ ctx }) => beginTwoFactorEnrollment(ctx.user.id)),
+  
+  confirmTwoFactorEnrollment: protectedProcedure
+    .input(twoFactorCodeInputSchema)
+    .mutation(({ input, ctx }) => confirmTwoFactorEnrollment(ctx.user.id, input.code)),
+  
+  disableTwoFactor: protectedProcedure
+    .input(twoFactorCodeInputSchema)
+    .mutation(({ input, ctx }) => disableTwoFactor(ctx.user.id, input.code)),
+  
+  regenerateRecoveryCodes: protectedProcedure
+    .input(twoFactorCodeInputSchema)
+    .mutation(({ input, ctx }) => regenerateRecoveryCodes(ctx.user.id, input.code)),
+
+  // Profile self-service
+  getMyProfile: protectedProcedure
+    .query(({ ctx }) => getMyProfile(ctx.user.id)),
+  
+  updateMyProfile: protectedProcedure
+    .input(updateProfileInputSchema)
+    .mutation(({ input, ctx }) => updateMyProfile(ctx.user.id, input)),
+  
+  changePassword: protectedProcedure
+    .input(changePasswordInputSchema)
+    .mutation(({ input, ctx }) => changePassword(ctx.user.id, ctx.sessionId, input.currentPassword, input.newPassword)),
+  
+  changeEmail: protectedProcedure
+    .input(changeEmailInputSchema)
+    .mutation(({ input, ctx }) => changeEmail(ctx.user.id, input.newEmail, input.password)),
+
   // Course management routes
-  createCourse: publicProcedure
+  createCourse: instructorProcedure
     .input(createCourseInputSchema)
-    .mutation(({ input }) => createCourse(input, 1)), // TODO: Extract instructor ID from auth
+    .mutation(({ input, ctx }) => createCourse(input, ctx.user.id)),
   
   getCourses: publicProcedure
     .query(() => getCourses()),
   
+  searchCourses: publicProcedure
+    .input(searchCoursesInputSchema)
+    .query(({ input }) => searchCourses(input)),
+
+  // Category routes
+  getCategories: publicProcedure
+    .query(() => getCategories()),
+  
+  getCategoryLanding: publicProcedure
+    .input(categorySlugInputSchema)
+    .query(({ input }) => getCategoryLanding(input.slug)),
+  
+  createCategory: permissionProcedure('categories.manage')
+    .input(createCategoryInputSchema)
+    .mutation(({ input, ctx }) => createCategory(input, ctx.user.id)),
+  
+  updateCategory: permissionProcedure('categories.manage')
+    .input(updateCategoryInputSchema)
+    .mutation(({ input, ctx }) => updateCategory(input.categoryId, input.updates, ctx.user.id)),
+  
+  deleteCategory: permissionProcedure('categories.manage')
+    .input(categoryIdInputSchema)
+    .mutation(({ input, ctx }) => deleteCategory(input.categoryId, ctx.user.id)),
+  
   getCourse: publicProcedure
     .input(courseIdInputSchema)
     .query(({ input }) => getCourseById(input.courseId)),
@@ -181,260 +525,594 @@ const appRouter = router({
     .input(instructorIdInputSchema)
     .query(({ input }) => getInstructorCourses(input.instructorId)),
   
-  updateCourse: publicProcedure
+  updateCourse: instructorProcedure
     .input(courseUpdateInputSchema)
-    .mutation(({ input }) => updateCourse(input.courseId, input.updates, 1)), // TODO: Extract instructor ID
+    .mutation(({ input, ctx }) => updateCourse(input.courseId, input.updates, ctx.user.id)),
+  
+  publishCourse: instructorProcedure
+    .input(courseIdInputSchema)
+    .mutation(({ input, ctx }) => publishCourse(input.courseId, ctx.user.id)),
+  
+  submitCourseForReview: instructorProcedure
+    .input(courseIdInputSchema)
+    .mutation(({ input, ctx }) => submitCourseForReview(input.courseId, ctx.user.id)),
+  
+  getCourseModerationHistory: protectedProcedure
+    .input(courseIdInputSchema)
+    .query(({ input, ctx }) => getCourseModerationHistory(input.courseId, ctx.user.id)),
+  
+  deleteCourse: instructorProcedure
+    .input(courseIdInputSchema)
+    .mutation(({ input, ctx }) => deleteCourse(input.courseId, ctx.user.id)),
+  
+  duplicateCourse: instructorProcedure
+    .input(duplicateCourseInputSchema)
+    .mutation(({ input, ctx }) => duplicateCourse(input, ctx.user.id)),
+
+  // Course template routes
+  getCourseTemplates: instructorProcedure
+    .query(({ ctx }) => getCourseTemplates(ctx.user.id)),
+  
+  saveCourseAsTemplate: instructorProcedure
+    .input(saveCourseTemplateInputSchema)
+    .mutation(({ input, ctx }) => saveCourseAsTemplate(input, ctx.user.id)),
+  
+  createCourseFromTemplate: instructorProcedure
+    .input(createCourseFromTemplateInputSchema)
+    .mutation(({ input, ctx }) => createCourseFromTemplate(input, ctx.user.id)),
+  
+  deleteCourseTemplate: instructorProcedure
+    .input(courseTemplateIdInputSchema)
+    .mutation(({ input, ctx }) => deleteCourseTemplate(input.templateId, ctx.user.id)),
+
+  // Course package routes
+  exportCoursePackage: instructorProcedure
+    .input(exportCoursePackageInputSchema)
+    .query(({ input, ctx }) => exportCoursePackage(input.courseId, input.format, ctx.user.id)),
+  
+  importCoursePackage: instructorProcedure
+    .input(importCoursePackageInputSchema)
+    .mutation(({ input, ctx }) => importCoursePackage(input, ctx.user.id)),
+
+  // Content package routes
+  importContentPackage: instructorProcedure
+    .input(importContentPackageInputSchema)
+    .mutation(({ input, ctx }) => importContentPackage(input, ctx.user.id)),
+
+  // Course schedule routes
+  updateCourseSchedule: instructorProcedure
+    .input(updateCourseScheduleInputSchema)
+    .mutation(({ input, ctx }) => updateCourseSchedule(input, ctx.user.id)),
+
+  // Course revision routes
+  getCourseDraft: instructorProcedure
+    .input(courseIdInputSchema)
+    .query(({ input, ctx }) => getCourseDraft(input.courseId, ctx.user.id)),
+  
+  saveCourseDraft: instructorProcedure
+    .input(saveCourseDraftInputSchema)
+    .mutation(({ input, ctx }) => saveCourseDraft(input.courseId, input.snapshot, ctx.user.id)),
   
-  publishCourse: publicProcedure
+  discardCourseDraft: instructorProcedure
     .input(courseIdInputSchema)
-    .mutation(({ input }) => publishCourse(input.courseId, 1)), // TODO: Extract instructor ID
+    .mutation(({ input, ctx }) => discardCourseDraft(input.courseId, ctx.user.id)),
   
-  deleteCourse: publicProcedure
+  getCourseRevisions: instructorProcedure
     .input(courseIdInputSchema)
-    .mutation(({ input }) => deleteCourse(input.courseId, 1)), // TODO: Extract instructor ID
+    .query(({ input, ctx }) => getCourseRevisions(input.courseId, ctx.user.id)),
+  
+  diffCourseRevisions: instructorProcedure
+    .input(diffCourseRevisionsInputSchema)
+    .query(({ input, ctx }) => diffCourseRevisions(input.courseId, input.fromRevisionId, input.toRevisionId, ctx.user.id)),
+  
+  rollbackCourse: instructorProcedure
+    .input(courseRevisionInputSchema)
+    .mutation(({ input, ctx }) => rollbackCourse(input.courseId, input.revisionId, ctx.user.id)),
 
   // Lesson management routes
-  createLesson: publicProcedure
+  createLesson: instructorProcedure
     .input(createLessonInputSchema)
-    .mutation(({ input }) => createLesson(input)),
+    .mutation(({ input, ctx }) => createLesson(input, ctx.user.id)),
   
   getLessonsByCourse: publicProcedure
     .input(courseIdInputSchema)
-    .query(({ input }) => getLessonsByCourse(input.courseId)),
+    .query(({ input, ctx }) => getLessonsByCourse(input.courseId, ctx.user?.id ?? null)),
   
   getLesson: publicProcedure
     .input(lessonIdInputSchema)
-    .query(({ input }) => getLessonById(input.lessonId)),
+    .query(({ input, ctx }) => getLessonById(input.lessonId, ctx.user?.id ?? null)),
   
-  updateLesson: publicProcedure
+  updateLesson: instructorProcedure
     .input(lessonUpdateInputSchema)
-    .mutation(({ input }) => updateLesson(input.lessonId, input.updates)),
+    .mutation(({ input, ctx }) => updateLesson(input.lessonId, input.updates, ctx.user.id)),
   
-  publishLesson: publicProcedure
+  publishLesson: instructorProcedure
     .input(lessonIdInputSchema)
-    .mutation(({ input }) => publishLesson(input.lessonId)),
+    .mutation(({ input, ctx }) => publishLesson(input.lessonId, ctx.user.id)),
   
-  deleteLesson: publicProcedure
+  deleteLesson: instructorProcedure
     .input(lessonIdInputSchema)
-    .mutation(({ input }) => deleteLesson(input.lessonId)),
+    .mutation(({ input, ctx }) => deleteLesson(input.lessonId, ctx.user.id)),
   
-  reorderLessons: publicProcedure
+  reorderLessons: instructorProcedure
     .input(lessonReorderInputSchema)
-    .mutation(({ input }) => reorderLessons(input.courseId, input.lessonOrders)),
+    .mutation(({ input, ctx }) => reorderLessons(input.courseId, input.lessonOrders, ctx.user.id)),
 
   // Quiz management routes
-  createQuiz: publicProcedure
+  createQuiz: instructorProcedure
     .input(createQuizInputSchema)
-    .mutation(({ input }) => createQuiz(input)),
+    .mutation(({ input, ctx }) => createQuiz(input, ctx.user.id)),
   
-  createQuizQuestion: publicProcedure
+  createQuizQuestion: instructorProcedure
     .input(createQuizQuestionInputSchema)
-    .mutation(({ input }) => createQuizQuestion(input)),
+    .mutation(({ input, ctx }) => createQuizQuestion(input, ctx.user.id)),
   
   getQuiz: publicProcedure
     .input(quizIdInputSchema)
     .query(({ input }) => getQuizById(input.quizId)),
   
-  getQuizQuestions: publicProcedure
+  getQuizQuestions: protectedProcedure
     .input(quizQuestionsInputSchema)
-    .query(({ input }) => getQuizQuestions(input.quizId, input.includeAnswers)),
+    .query(({ input, ctx }) => getQuizQuestions(input.quizId, ctx.user.id, input.includeAnswers)),
   
-  submitQuiz: publicProcedure
+  submitQuiz: studentProcedure
     .input(submitQuizInputSchema)
-    .mutation(({ input }) => submitQuiz(input, 1)), // TODO: Extract student ID from auth
+    .mutation(({ input, ctx }) => submitQuiz(input, ctx.user.id)),
   
-  getQuizAttempts: publicProcedure
+  getCourseQuizAttempts: protectedProcedure
+    .input(courseIdInputSchema)
+    .query(async ({ input, ctx }) => {
+      await requireCoursePermission(ctx.user, 'course.grade', input.courseId);
+      return getCourseQuizAttempts(input.courseId);
+    }),
+  
+  getQuizAttempts: studentProcedure
     .input(quizIdInputSchema)
-    .query(({ input }) => getQuizAttempts(input.quizId, 1)), // TODO: Extract student ID
+    .query(({ input, ctx }) => getQuizAttempts(input.quizId, ctx.user.id)),
   
-  getQuizAttempt: publicProcedure
+  getQuizAttempt: studentProcedure
     .input(attemptIdInputSchema)
-    .query(({ input }) => getStudentQuizAttempt(input.attemptId, 1)), // TODO: Extract student ID
+    .query(({ input, ctx }) => getStudentQuizAttempt(input.attemptId, ctx.user.id)),
   
-  updateQuiz: publicProcedure
+  updateQuiz: instructorProcedure
     .input(quizUpdateInputSchema)
-    .mutation(({ input }) => updateQuiz(input.quizId, input.updates)),
+    .mutation(({ input, ctx }) => updateQuiz(input.quizId, input.updates, ctx.user.id)),
   
-  deleteQuiz: publicProcedure
+  deleteQuiz: instructorProcedure
     .input(quizIdInputSchema)
-    .mutation(({ input }) => deleteQuiz(input.quizId)),
+    .mutation(({ input, ctx }) => deleteQuiz(input.quizId, ctx.user.id)),
 
   // Enrollment and progress routes
-  enrollInCourse: publicProcedure
+  enrollInCourse: studentProcedure
     .input(enrollInputSchema)
-    .mutation(({ input }) => enrollInCourse(input, 1)), // TODO: Extract student ID
+    .mutation(({ input, ctx }) => enrollInCourse(input, ctx.user.id)),
   
-  getStudentEnrollments: publicProcedure
-    .query(() => getStudentEnrollments(1)), // TODO: Extract student ID
+  getStudentEnrollments: studentProcedure
+    .query(({ ctx }) => getStudentEnrollments(ctx.user.id)),
   
-  getCourseEnrollments: publicProcedure
+  getCourseEnrollments: protectedProcedure
     .input(courseIdInputSchema)
-    .query(({ input }) => getCourseEnrollments(input.courseId)),
+    .query(async ({ input, ctx }) => {
+      await requireCoursePermission(ctx.user, 'course.view_roster', input.courseId);
+      return getCourseEnrollments(input.courseId);
+    }),
   
-  updateProgress: publicProcedure
+  updateProgress: studentProcedure
     .input(updateProgressInputSchema)
-    .mutation(({ input }) => updateLessonProgress(input, 1)), // TODO: Extract student ID
+    .mutation(({ input, ctx }) => updateLessonProgress(input, ctx.user.id)),
+  
+  getStudentProgress: studentProcedure
+    .input(courseIdInputSchema)
+    .query(({ input, ctx }) => getStudentProgress(ctx.user.id, input.courseId)),
+  
+  completeCourse: studentProcedure
+    .input(courseIdInputSchema)
+    .mutation(({ input, ctx }) => completeCourse(ctx.user.id, input.courseId)),
+  
+  unenrollFromCourse: studentProcedure
+    .input(courseIdInputSchema)
+    .mutation(({ input, ctx }) => unenrollFromCourse(ctx.user.id, input.courseId)),
+
+  // Course run (cohort) routes
+  getCourseRuns: publicProcedure
+    .input(courseIdInputSchema)
+    .query(({ input, ctx }) => getCourseRuns(input.courseId, ctx.user?.id ?? null)),
+  
+  createCourseRun: instructorProcedure
+    .input(createCourseRunInputSchema)
+    .mutation(({ input, ctx }) => createCourseRun(input, ctx.user.id)),
+  
+  updateCourseRun: instructorProcedure
+    .input(updateCourseRunInputSchema)
+    .mutation(({ input, ctx }) => updateCourseRun(input, ctx.user.id)),
+  
+  deleteCourseRun: instructorProcedure
+    .input(courseRunIdInputSchema)
+    .mutation(({ input, ctx }) => deleteCourseRun(input.courseRunId, ctx.user.id)),
+  
+  getCourseRunRoster: instructorProcedure
+    .input(courseRunIdInputSchema)
+    .query(({ input, ctx }) => getCourseRunRoster(input.courseRunId, ctx.user.id)),
+  
+  joinCourseRunWaitlist: studentProcedure
+    .input(courseRunIdInputSchema)
+    .mutation(({ input, ctx }) => joinCourseRunWaitlist(input.courseRunId, ctx.user.id)),
+  
+  leaveCourseRunWaitlist: studentProcedure
+    .input(courseRunIdInputSchema)
+    .mutation(({ input, ctx }) => leaveCourseRunWaitlist(input.courseRunId, ctx.user.id)),
+
+  // Trash routes
+  getTrash: instructorProcedure
+    .query(({ ctx }) => getTrash(ctx.user.id)),
+  
+  restoreTrashItem: instructorProcedure
+    .input(trashItemInputSchema)
+    .mutation(({ input, ctx }) => restoreTrashItem(input, ctx.user.id)),
+
+  // Media routes
+  uploadMedia: protectedProcedure
+    .input(uploadMediaInputSchema)
+    .mutation(({ input, ctx }) => uploadMedia(input, ctx.user.id)),
+  
+  getMyMedia: protectedProcedure
+    .query(({ ctx }) => getMyMedia(ctx.user.id)),
+  
+  deleteMedia: protectedProcedure
+    .input(mediaIdInputSchema)
+    .mutation(({ input, ctx }) => deleteMedia(input.mediaId, ctx.user.id)),
+  
+  getMediaDownloadUrl: protectedProcedure
+    .input(mediaIdInputSchema)
+    .query(({ input, ctx }) => getMediaDownloadUrl(input.mediaId, ctx.user.id)),
+
+  // Course staff routes
+  getCourseStaff: instructorProcedure
+    .input(courseIdInputSchema)
+    .query(({ input, ctx }) => getCourseStaff(input.courseId, ctx.user.id)),
+  
+  inviteCourseStaff: instructorProcedure
+    .input(inviteCourseStaffInputSchema)
+    .mutation(({ input, ctx }) => inviteCourseStaff(input, ctx.user.id)),
+  
+  respondToStaffInvitation: instructorProcedure
+    .input(respondToStaffInvitationInputSchema)
+    .mutation(({ input, ctx }) => respondToStaffInvitation(input.courseId, input.accept, ctx.user.id)),
+  
+  updateCourseStaff: instructorProcedure
+    .input(updateCourseStaffInputSchema)
+    .mutation(({ input, ctx }) => updateCourseStaff(input, ctx.user.id)),
+  
+  removeCourseStaff: instructorProcedure
+    .input(courseStaffUserInputSchema)
+    .mutation(({ input, ctx }) => removeCourseStaff(input.courseId, input.userId, ctx.user.id)),
   
-  getStudentProgress: publicProcedure
+  getMyStaffInvitations: instructorProcedure
+    .query(({ ctx }) => getMyStaffInvitations(ctx.user.id)),
+  
+  getMyCourseMemberships: instructorProcedure
+    .query(({ ctx }) => getMyCourseMemberships(ctx.user.id)),
+  
+  messageCourseStudents: instructorProcedure
+    .input(messageCourseStudentsInputSchema)
+    .mutation(({ input, ctx }) => messageCourseStudents(input, ctx.user.id)),
+
+  // Prerequisite routes
+  getCoursePrerequisites: publicProcedure
     .input(courseIdInputSchema)
-    .query(({ input }) => getStudentProgress(1, input.courseId)), // TODO: Extract student ID
+    .query(({ input }) => getCoursePrerequisites(input.courseId)),
   
-  completeCourse: publicProcedure
+  setCoursePrerequisites: instructorProcedure
+    .input(setCoursePrerequisitesInputSchema)
+    .mutation(({ input, ctx }) => setCoursePrerequisites(input.courseId, input.prerequisites, ctx.user.id)),
+  
+  getPrerequisiteStatus: studentProcedure
     .input(courseIdInputSchema)
-    .mutation(({ input }) => completeCourse(1, input.courseId)), // TODO: Extract student ID
+    .query(({ input, ctx }) => getPrerequisiteStatus(input.courseId, ctx.user.id)),
+
+  // Learning path routes
+  getLearningPaths: protectedProcedure
+    .query(({ ctx }) => getLearningPaths(ctx.user.id)),
+  
+  createLearningPath: permissionProcedure('learning_paths.manage')
+    .input(createLearningPathInputSchema)
+    .mutation(({ input, ctx }) => createLearningPath(input, ctx.user.id)),
+  
+  updateLearningPath: permissionProcedure('learning_paths.manage')
+    .input(updateLearningPathInputSchema)
+    .mutation(({ input, ctx }) => updateLearningPath(input.pathId, input.updates, ctx.user.id)),
+  
+  deleteLearningPath: permissionProcedure('learning_paths.manage')
+    .input(learningPathIdInputSchema)
+    .mutation(({ input, ctx }) => deleteLearningPath(input.pathId, ctx.user.id)),
+  
+  enrollInLearningPath: studentProcedure
+    .input(learningPathIdInputSchema)
+    .mutation(({ input, ctx }) => enrollInLearningPath(input.pathId, ctx.user.id)),
+  
+  getLearningPathProgress: studentProcedure
+    .input(learningPathIdInputSchema)
+    .query(({ input, ctx }) => getLearningPathProgress(input.pathId, ctx.user.id)),
   
-  unenrollFromCourse: publicProcedure
+  getMyLearningPaths: studentProcedure
+    .query(({ ctx }) => getMyLearningPaths(ctx.user.id)),
+
+  // Review routes
+  submitReview: studentProcedure
+    .input(submitReviewInputSchema)
+    .mutation(({ input, ctx }) => submitReview(input, ctx.user.id)),
+  
+  getCourseReviews: publicProcedure
     .input(courseIdInputSchema)
-    .mutation(({ input }) => unenrollFromCourse(1, input.courseId)), // TODO: Extract student ID
+    .query(({ input, ctx }) => getCourseReviews(input.courseId, ctx.user?.id ?? null)),
+  
+  getMyCourseReview: studentProcedure
+    .input(courseIdInputSchema)
+    .query(({ input, ctx }) => getMyCourseReview(input.courseId, ctx.user.id)),
+  
+  replyToReview: instructorProcedure
+    .input(replyToReviewInputSchema)
+    .mutation(({ input, ctx }) => replyToReview(input.reviewId, input.reply, ctx.user.id)),
+  
+  setReviewHidden: permissionProcedure('courses.moderate')
+    .input(setReviewHiddenInputSchema)
+    .mutation(({ input, ctx }) => setReviewHidden(input.reviewId, input.hidden, input.reason ?? null, ctx.user.id)),
 
   // Certificate routes
-  generateCertificate: publicProcedure
+  generateCertificate: studentProcedure
     .input(courseIdInputSchema)
-    .mutation(({ input }) => generateCertificate(1, input.courseId)), // TODO: Extract student ID
+    .mutation(({ input, ctx }) => generateCertificate(ctx.user.id, input.courseId)),
   
-  getStudentCertificates: publicProcedure
-    .query(() => getStudentCertificates(1)), // TODO: Extract student ID
+  getStudentCertificates: studentProcedure
+    .query(({ ctx }) => getStudentCertificates(ctx.user.id)),
   
   getCertificateByCode: publicProcedure
     .input(certificateCodeInputSchema)
     .query(({ input }) => getCertificateByCode(input.certificateCode)),
   
-  getCertificate: publicProcedure
+  getCertificate: protectedProcedure
     .input(certificateIdInputSchema)
     .query(({ input }) => getCertificateById(input.certificateId)),
   
-  regenerateCertificate: publicProcedure
+  regenerateCertificate: adminProcedure
     .input(certificateIdInputSchema)
     .mutation(({ input }) => regenerateCertificate(input.certificateId)),
   
-  getCourseCompletionStats: publicProcedure
+  getCourseCompletionStats: protectedProcedure
     .input(courseIdInputSchema)
-    .query(({ input }) => getCourseCompletionStats(input.courseId)),
+    .query(async ({ input, ctx }) => {
+      await requireCoursePermission(ctx.user, 'course.view_roster', input.courseId);
+      return getCourseCompletionStats(input.courseId);
+    }),
 
   // Payment routes
-  createPayment: publicProcedure
+  createPayment: protectedProcedure
     .input(createPaymentInputSchema)
-    .mutation(({ input }) => createPayment(input, 1)), // TODO: Extract user ID
+    .mutation(({ input, ctx }) => createPayment(input, ctx.user.id)),
   
-  processPayment: publicProcedure
+  // Completion is confirmed by the payment provider and recorded by an admin, never by the buyer
+  processPayment: adminProcedure
     .input(processPaymentInputSchema)
     .mutation(({ input }) => processPayment(input.paymentId, input.transactionId)),
   
-  getUserPayments: publicProcedure
-    .query(() => getUserPayments(1)), // TODO: Extract user ID
+  getUserPayments: protectedProcedure
+    .query(({ ctx }) => getUserPayments(ctx.user.id)),
   
-  refundPayment: publicProcedure
+  refundPayment: adminProcedure
     .input(refundPaymentInputSchema)
     .mutation(({ input }) => refundPayment(input.paymentId, input.reason)),
   
-  createCoupon: publicProcedure
+  createCoupon: adminProcedure
     .input(createCouponInputSchema)
     .mutation(({ input }) => createCoupon(input)),
   
-  validateCoupon: publicProcedure
+  validateCoupon: protectedProcedure
     .input(couponCodeInputSchema)
     .query(({ input }) => validateCoupon(input.couponCode, input.courseId)),
   
-  getCoupons: publicProcedure
+  getCoupons: adminProcedure
     .query(() => getCoupons()),
   
-  deactivateCoupon: publicProcedure
+  deactivateCoupon: adminProcedure
     .input(couponIdInputSchema)
     .mutation(({ input }) => deactivateCoupon(input.couponId)),
 
   // Messaging routes
-  sendMessage: publicProcedure
+  sendMessage: protectedProcedure
     .input(sendMessageInputSchema)
-    .mutation(({ input }) => sendMessage(input, 1)), // TODO: Extract sender ID
+    .mutation(({ input, ctx }) => sendMessage(input, ctx.user.id)),
   
-  getUserMessages: publicProcedure
+  getUserMessages: protectedProcedure
     .input(messageTypeInputSchema)
-    .query(({ input }) => getUserMessages(1, input.type)), // TODO: Extract user ID
+    .query(({ input, ctx }) => getUserMessages(ctx.user.id, input.type)),
   
-  getMessage: publicProcedure
+  getMessage: protectedProcedure
     .input(messageIdInputSchema)
-    .query(({ input }) => getMessageById(input.messageId, 1)), // TODO: Extract user ID
+    .query(({ input, ctx }) => getMessageById(input.messageId, ctx.user.id)),
   
-  markMessageAsRead: publicProcedure
+  markMessageAsRead: protectedProcedure
     .input(messageIdInputSchema)
-    .mutation(({ input }) => markMessageAsRead(input.messageId, 1)), // TODO: Extract user ID
+    .mutation(({ input, ctx }) => markMessageAsRead(input.messageId, ctx.user.id)),
   
-  deleteMessage: publicProcedure
+  deleteMessage: protectedProcedure
     .input(messageIdInputSchema)
-    .mutation(({ input }) => deleteMessage(input.messageId, 1)), // TODO: Extract user ID
+    .mutation(({ input, ctx }) => deleteMessage(input.messageId, ctx.user.id)),
 
   // Notification routes
-  createNotification: publicProcedure
+  createNotification: adminProcedure
     .input(createNotificationInputSchema)
     .mutation(({ input }) => createNotification(input)),
   
-  getUserNotifications: publicProcedure
-    .query(() => getUserNotifications(1)), // TODO: Extract user ID
+  getUserNotifications: protectedProcedure
+    .query(({ ctx }) => getUserNotifications(ctx.user.id)),
   
-  markNotificationAsRead: publicProcedure
+  markNotificationAsRead: protectedProcedure
     .input(notificationIdInputSchema)
-    .mutation(({ input }) => markNotificationAsRead(input.notificationId, 1)), // TODO: Extract user ID
+    .mutation(({ input, ctx }) => markNotificationAsRead(input.notificationId, ctx.user.id)),
   
-  markAllNotificationsAsRead: publicProcedure
-    .mutation(() => markAllNotificationsAsRead(1)), // TODO: Extract user ID
+  markAllNotificationsAsRead: protectedProcedure
+    .mutation(({ ctx }) => markAllNotificationsAsRead(ctx.user.id)),
 
   // Admin routes
-  getAllUsers: publicProcedure
-    .query(() => getAllUsers(1)), // TODO: Extract admin ID and validate permissions
+  getAllUsers: permissionProcedure('users.view')
+    .query(({ ctx }) => getAllUsers(ctx.user.id)),
   
-  getUser: publicProcedure
+  getUser: permissionProcedure('users.view')
     .input(userIdInputSchema)
-    .query(({ input }) => getUserById(input.userId, 1)), // TODO: Extract admin ID
+    .query(({ input, ctx }) => getUserById(input.userId, ctx.user.id)),
   
-  updateUserStatus: publicProcedure
+  updateUserStatus: permissionProcedure('users.manage')
     .input(userStatusInputSchema)
-    .mutation(({ input }) => updateUserStatus(input.userId, input.isActive, 1)), // TODO: Extract admin ID
+    .mutation(({ input, ctx }) => updateUserStatus(input.userId, input.isActive, ctx.user.id)),
+  
+  updateUserRole: permissionProcedure('users.manage')
+    .input(userRoleInputSchema)
+    .mutation(({ input, ctx }) => updateUserRole(input.userId, input.role, ctx.user.id, ctx.ipAddress)),
   
-  deleteUser: publicProcedure
+  deleteUser: permissionProcedure('users.manage')
     .input(userIdInputSchema)
-    .mutation(({ input }) => deleteUser(input.userId, 1)), // TODO: Extract admin ID
+    .mutation(({ input, ctx }) => deleteUser(input.userId, ctx.user.id)),
   
-  getAllCoursesAdmin: publicProcedure
-    .query(() => getAllCourses(1)), // TODO: Extract admin ID
+  getLockedAccounts: permissionProcedure('users.view')
+    .query(({ ctx }) => getLockedAccounts(ctx.user.id)),
+  
+  unlockUserAccount: permissionProcedure('users.manage')
+    .input(userIdInputSchema)
+    .mutation(({ input, ctx }) => unlockUserAccount(input.userId, ctx.user.id, ctx.ipAddress)),
   
-  moderateCourse: publicProcedure
+  setMediaQuota: permissionProcedure('users.manage')
+    .input(setMediaQuotaInputSchema)
+    .mutation(({ input }) => setMediaQuota(input)),
+  
+  getUserPermissionGrants: permissionProcedure('permissions.manage')
+    .input(userIdInputSchema)
+    .query(({ input, ctx }) => getUserPermissionGrants(input.userId, ctx.user.id)),
+  
+  grantPermissionRole: permissionProcedure('permissions.manage')
+    .input(grantPermissionInputSchema)
+    .mutation(({ input, ctx }) => grantPermissionRole(input, ctx.user.id)),
+  
+  revokePermissionGrant: permissionProcedure('permissions.manage')
+    .input(permissionGrantIdInputSchema)
+    .mutation(({ input, ctx }) => revokePermissionGrant(input.grantId, ctx.user.id)),
+  
+  getAllCoursesAdmin: permissionProcedure('courses.moderate')
+    .query(({ ctx }) => getAllCourses(ctx.user.id)),
+  
+  getModerationQueue: permissionProcedure('courses.moderate')
+    .query(({ ctx }) => getModerationQueue(ctx.user.id)),
+  
+  moderateCourse: permissionProcedure('courses.moderate')
     .input(courseModerationInputSchema)
-    .mutation(({ input }) => moderateCourse(input.courseId, input.action, 1)), // TODO: Extract admin ID
+    .mutation(({ input, ctx }) => moderateCourse(input.courseId, input.action, input.reason ?? null, ctx.user.id)),
   
-  getSystemAnalytics: publicProcedure
-    .query(() => getSystemAnalytics(1)), // TODO: Extract admin ID
+  getSystemAnalytics: permissionProcedure('analytics.view')
+    .query(({ ctx }) => getSystemAnalytics(ctx.user.id)),
   
-  getRevenueReport: publicProcedure
+  getRevenueReport: permissionProcedure('revenue.view')
     .input(dateRangeInputSchema)
-    .query(({ input }) => getRevenueReport(1, input.startDate, input.endDate)), // TODO: Extract admin ID
+    .query(({ input, ctx }) => getRevenueReport(ctx.user.id, input.startDate, input.endDate)),
+  
+  getCertificateStats: permissionProcedure('analytics.view')
+    .query(({ ctx }) => getCertificateStats(ctx.user.id)),
+  
+  getTwoFactorRequirements: permissionProcedure('security.manage')
+    .query(({ ctx }) => getTwoFactorRequirements(ctx.user.id)),
   
-  getCertificateStats: publicProcedure
-    .query(() => getCertificateStats(1)), // TODO: Extract admin ID
+  setTwoFactorRequirement: permissionProcedure('security.manage')
+    .input(twoFactorRequirementSchema)
+    .mutation(({ input, ctx }) => setTwoFactorRequirement(ctx.user.id, input.role, input.required)),
   
-  exportUserData: publicProcedure
+  exportUserData: permissionProcedure('data.export')
     .input(exportFormatInputSchema)
-    .mutation(({ input }) => exportUserData(1, input.format)), // TODO: Extract admin ID
+    .mutation(({ input, ctx }) => exportUserData(ctx.user.id, input.format)),
   
-  exportCourseData: publicProcedure
+  exportCourseData: permissionProcedure('data.export')
     .input(exportFormatInputSchema)
-    .mutation(({ input }) => exportCourseData(1, input.format)) // TODO: Extract admin ID
+    .mutation(({ input, ctx }) => exportCourseData(ctx.user.id, input.format))
 });
 
 export type AppRouter = typeof appRouter;
 
+// Serves uploaded files outside tRPC so <img>, <video> and download links can point at them.
+// Course videos and attachments need the signed query string from getMediaDownloadUrl.
+async function serveMedia(req: IncomingMessage, res: ServerResponse, mediaId: number, url: URL): Promise<void> {
+  const media = await readMedia(mediaId, {
+    expires: url.searchParams.get('expires'),
+    signature: url.searchParams.get('signature')
+  });
+  if (!media) {
+    res.statusCode = 404;
+    res.end('Not found');
+    return;
+  }
+
+  const { asset, data } = media;
+  const disposition = asset.purpose === 'lesson_attachment' ? 'attachment' : 'inline';
+  res.setHeader('Content-Type', asset.mime_type);
+  res.setHeader('Content-Disposition', `${disposition}; filename*=UTF-8''${encodeURIComponent(asset.file_name)}`);
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('Cache-Control', isPublicMedia(asset.purpose) ? 'public, max-age=86400' : 'private, no-store');
+  res.setHeader('Accept-Ranges', 'bytes');
+
+  // Video players seek with range requests
+  let start = 0;
+  let end = data.length - 1;
+  const range = /^bytes=(\d*)-(\d*)$/.exec(req.headers.range ?? '');
+  if (range && (range[1] || range[2])) {
+    if (range[1]) {
+      start = parseInt(range[1]);
+      end = range[2] ? Math.min(parseInt(range[2]), data.length - 1) : end;
+    } else {
+      start = Math.max(0, data.length - parseInt(range[2]));
+    }
+    if (start > end) {
+      res.statusCode = 416;
+      res.setHeader('Content-Range', `bytes */${data.length}`);
+      res.end();
+      return;
+    }
+    res.statusCode = 206;
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${data.length}`);
+  }
+
+  res.setHeader('Content-Length', end - start + 1);
+  res.end(req.method === 'HEAD' ? undefined : data.subarray(start, end + 1));
+}
+
 async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const media = /^\/media\/(\d+)$/.exec(url.pathname);
+        if (media && (req.method === 'GET' || req.method === 'HEAD')) {
+          serveMedia(req, res, parseInt(media[1]), url).catch(error => {
+            console.error('Serving media failed:', error);
+            res.statusCode = 500;
+            res.end();
+          });
+          return;
+        }
+        next();
+      });
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
+
+  // Courses scheduled to publish go live within a minute of their publish time
+  setInterval(() => {
+    publishScheduledCourses().catch(error => console.error('Scheduled publishing failed:', error));
+  }, 60_000);
+
+  // Content past the trash retention window is cleaned up hourly
+  setInterval(() => {
+    purgeDeletedContent().catch(error => console.error('Trash purge failed:', error));
+  }, 60 * 60_000);
 }
 
 start();
\ No newline at end of file
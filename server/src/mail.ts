@@ -0,0 +1,61 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver a message; swap in an SMTP or API-backed transport for production
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Prints messages to the server log
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Writes each message as a JSON file so local developers can open the links
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`;
+    await writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sent_at: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+// Keeps messages in memory, used by tests to inspect what was sent
+export class MemoryMailTransport implements MailTransport {
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+function createDefaultTransport(): MailTransport {
+  const driver = process.env['MAIL_TRANSPORT'] || 'console';
+  if (driver === 'file') {
+    return new FileMailTransport(process.env['MAIL_OUTBOX_DIR'] || './mail-outbox');
+  }
+  return new ConsoleMailTransport();
+}
+
+let transport: MailTransport = createDefaultTransport();
+
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await transport.send(message);
+}
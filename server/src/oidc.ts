@@ -0,0 +1,262 @@
+import crypto from 'crypto';
+import { type UserRole } from './schema';
+
+export interface OidcProviderConfig {
+  id: string; // Used in URLs and the user_identities table, e.g. "springfield-high"
+  name: string; // Shown on the sign-in button
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes?: string[];
+  // Claim holding the user's affiliation(s), e.g. "roles" or "eduPersonAffiliation"
+  roleClaim?: string;
+  // Claim value -> platform role; unmapped values fall back to defaultRole
+  roleMapping?: Record<string, UserRole>;
+  defaultRole?: UserRole;
+  // Re-apply the mapped role on every sign-in instead of only when the account is created
+  syncRole?: boolean;
+  // IdP subjects the role mapping may make administrators; nobody else gets the role from the IdP
+  administratorSubjects?: string[];
+  // Email domains this provider manages. Verified addresses there sign straight into an existing
+  // account with the same email; anywhere else the user must link with their password first.
+  trustedEmailDomains?: string[];
+}
+
+export interface OidcIdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface JsonWebKeySet {
+  keys: (crypto.JsonWebKey & { kid?: string })[];
+}
+
+const ROLE_PRIORITY: UserRole[] = ['student', 'instructor', 'administrator'];
+const CLOCK_SKEW_SECONDS = 60;
+
+// Providers come from OIDC_PROVIDERS (a JSON array of OidcProviderConfig)
+function loadProvidersFromEnv(): Map<string, OidcProviderConfig> {
+  const providers = new Map<string, OidcProviderConfig>();
+  const raw = process.env['OIDC_PROVIDERS'];
+  if (!raw) {
+    return providers;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as OidcProviderConfig[];
+    for (const provider of parsed) {
+      providers.set(provider.id, provider);
+    }
+  } catch (error) {
+    console.error('Invalid OIDC_PROVIDERS configuration:', error);
+  }
+
+  return providers;
+}
+
+const providers = loadProvidersFromEnv();
+const discoveryCache = new Map<string, OidcDiscoveryDocument>();
+const jwksCache = new Map<string, JsonWebKeySet>();
+
+export function registerOidcProvider(provider: OidcProviderConfig): void {
+  providers.set(provider.id, provider);
+  discoveryCache.delete(provider.issuer);
+}
+
+export function removeOidcProvider(id: string): void {
+  providers.delete(id);
+}
+
+export function getOidcProvider(id: string): OidcProviderConfig | null {
+  return providers.get(id) ?? null;
+}
+
+export function listOidcProviders(): OidcProviderConfig[] {
+  return [...providers.values()];
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`Identity provider request failed (${response.status})`);
+  }
+  return await response.json() as T;
+}
+
+async function discover(provider: OidcProviderConfig): Promise<OidcDiscoveryDocument> {
+  const cached = discoveryCache.get(provider.issuer);
+  if (cached) {
+    return cached;
+  }
+
+  const document = await fetchJson<OidcDiscoveryDocument>(
+    `${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`
+  );
+  if (document.issuer !== provider.issuer) {
+    throw new Error('Identity provider issuer mismatch');
+  }
+
+  discoveryCache.set(provider.issuer, document);
+  return document;
+}
+
+// PKCE S256 challenge for a code verifier
+export function createCodeChallenge(codeVerifier: string): string {
+  return crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+export async function buildAuthorizationUrl(
+  provider: OidcProviderConfig,
+  params: { redirectUri: string; state: string; nonce: string; codeVerifier: string }
+): Promise<string> {
+  const { authorization_endpoint } = await discover(provider);
+
+  const url = new URL(authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', params.redirectUri);
+  url.searchParams.set('scope', (provider.scopes ?? ['openid', 'email', 'profile']).join(' '));
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', createCodeChallenge(params.codeVerifier));
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return url.toString();
+}
+
+async function getSigningKey(provider: OidcProviderConfig, kid: string | undefined): Promise<crypto.KeyObject> {
+  const { jwks_uri } = await discover(provider);
+
+  const findKey = (jwks: JsonWebKeySet) => jwks.keys.find(key => kid === undefined || key.kid === kid);
+
+  let jwks = jwksCache.get(jwks_uri);
+  let jwk = jwks ? findKey(jwks) : undefined;
+
+  // Unknown key id usually means the provider rotated its keys
+  if (!jwk) {
+    jwks = await fetchJson<JsonWebKeySet>(jwks_uri);
+    jwksCache.set(jwks_uri, jwks);
+    jwk = findKey(jwks);
+  }
+
+  if (!jwk) {
+    throw new Error('Identity provider signing key not found');
+  }
+
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+async function verifyIdToken(provider: OidcProviderConfig, idToken: string, nonce: string): Promise<OidcIdTokenClaims> {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Malformed ID token');
+  }
+
+  const [encodedHeader, encodedPayload, signature] = parts;
+  const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString()) as { alg: string; kid?: string };
+  if (header.alg !== 'RS256') {
+    throw new Error(`Unsupported ID token algorithm: ${header.alg}`);
+  }
+
+  const key = await getSigningKey(provider, header.kid);
+  const isValid = crypto.verify(
+    'RSA-SHA256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    key,
+    Buffer.from(signature, 'base64url')
+  );
+  if (!isValid) {
+    throw new Error('Invalid ID token signature');
+  }
+
+  const claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString()) as OidcIdTokenClaims;
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== provider.issuer) {
+    throw new Error('ID token issuer mismatch');
+  }
+  if (!audiences.includes(provider.clientId)) {
+    throw new Error('ID token audience mismatch');
+  }
+  if (claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('ID token has expired');
+  }
+  if (claims.nonce !== nonce) {
+    throw new Error('ID token nonce mismatch');
+  }
+
+  return claims;
+}
+
+// Exchange an authorization code for verified ID token claims
+export async function exchangeAuthorizationCode(
+  provider: OidcProviderConfig,
+  params: { code: string; redirectUri: string; codeVerifier: string; nonce: string }
+): Promise<OidcIdTokenClaims> {
+  const { token_endpoint } = await discover(provider);
+
+  const tokens = await fetchJson<{ id_token?: string }>(token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code_verifier: params.codeVerifier
+    })
+  });
+
+  if (!tokens.id_token) {
+    throw new Error('Identity provider did not return an ID token');
+  }
+
+  return await verifyIdToken(provider, tokens.id_token, params.nonce);
+}
+
+// Pick the most privileged platform role the claim values map to. Administrator is only handed
+// out to subjects on the provider's allowlist.
+export function mapRole(provider: OidcProviderConfig, claims: OidcIdTokenClaims): UserRole {
+  const allowed = (role: UserRole) => role !== 'administrator' || (provider.administratorSubjects ?? []).includes(claims.sub);
+  const fallback = provider.defaultRole && allowed(provider.defaultRole) ? provider.defaultRole : 'student';
+  if (!provider.roleClaim || !provider.roleMapping) {
+    return fallback;
+  }
+
+  const raw = claims[provider.roleClaim];
+  const values = Array.isArray(raw) ? raw : raw === undefined ? [] : [raw];
+  const mapped = values
+    .map(value => provider.roleMapping![String(value)])
+    .filter((role): role is UserRole => role !== undefined && allowed(role));
+
+  if (mapped.length === 0) {
+    return fallback;
+  }
+
+  return mapped.reduce((best, role) => ROLE_PRIORITY.indexOf(role) > ROLE_PRIORITY.indexOf(best) ? role : best);
+}
+
+// Whether the provider may vouch for this address when matching it to an existing account
+export function isTrustedEmail(provider: OidcProviderConfig, email: string): boolean {
+  const domain = email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+  return (provider.trustedEmailDomains ?? []).some(trusted => trusted.toLowerCase() === domain);
+}
@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// Current scrypt cost: N = 2^15, r = 8, p = 1 (about 32 MiB per hash)
+const SCRYPT_PARAMS = { ln: 15, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// Parameters of the original PBKDF2 scheme, stored as "salt:hash" in hex
+const LEGACY_PBKDF2_ITERATIONS = 10000;
+const LEGACY_PBKDF2_KEY_LENGTH = 64;
+
+interface ScryptParams {
+  ln: number;
+  r: number;
+  p: number;
+}
+
+function deriveScrypt(password: string, salt: Buffer, params: ScryptParams, keyLength: number): Promise<Buffer> {
+  const N = 2 ** params.ln;
+  return scrypt(password, salt, keyLength, {
+    N,
+    r: params.r,
+    p: params.p,
+    maxmem: 256 * N * params.r
+  });
+}
+
+// Parse "$scrypt$ln=15,r=8,p=1$<salt>$<hash>" (base64 salt and hash)
+function parseScryptHash(stored: string): { params: ScryptParams; salt: Buffer; hash: Buffer } | null {
+  const parts = stored.split('$');
+  if (parts.length !== 5 || parts[0] !== '' || parts[1] !== 'scrypt') {
+    return null;
+  }
+
+  const params: Record<string, number> = {};
+  for (const pair of parts[2].split(',')) {
+    const [key, value] = pair.split('=');
+    params[key] = parseInt(value);
+  }
+
+  if (!Number.isInteger(params['ln']) || !Number.isInteger(params['r']) || !Number.isInteger(params['p'])) {
+    return null;
+  }
+
+  return {
+    params: { ln: params['ln'], r: params['r'], p: params['p'] },
+    salt: Buffer.from(parts[3], 'base64'),
+    hash: Buffer.from(parts[4], 'base64')
+  };
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const hash = await deriveScrypt(password, salt, SCRYPT_PARAMS, KEY_LENGTH);
+  const { ln, r, p } = SCRYPT_PARAMS;
+  return `$scrypt$ln=${ln},r=${r},p=${p}$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+// Accepts both the current format and legacy PBKDF2 "salt:hash" values
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const parsed = parseScryptHash(stored);
+  if (parsed) {
+    const hash = await deriveScrypt(password, parsed.salt, parsed.params, parsed.hash.length);
+    return safeEqual(hash, parsed.hash);
+  }
+
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+
+  const verifyHash = crypto.pbkdf2Sync(password, salt, LEGACY_PBKDF2_ITERATIONS, LEGACY_PBKDF2_KEY_LENGTH, 'sha512');
+  return safeEqual(verifyHash, Buffer.from(hash, 'hex'));
+}
+
+// True when a stored hash uses an older scheme or weaker parameters than the current default
+export function needsRehash(stored: string): boolean {
+  const parsed = parseScryptHash(stored);
+  if (!parsed) {
+    return true;
+  }
+
+  return parsed.params.ln !== SCRYPT_PARAMS.ln ||
+    parsed.params.r !== SCRYPT_PARAMS.r ||
+    parsed.params.p !== SCRYPT_PARAMS.p ||
+    parsed.hash.length !== KEY_LENGTH;
+}
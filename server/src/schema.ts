@@ -4,6 +4,10 @@ import { z } from 'zod';
 export const userRoleSchema = z.enum(['student', 'instructor', 'administrator']);
 export type UserRole = z.infer<typeof userRoleSchema>;
 
+// Roles open to self-registration; administrators are promoted by an existing admin
+export const registrationRoleSchema = z.enum(['student', 'instructor']);
+export type RegistrationRole = z.infer<typeof registrationRoleSchema>;
+
 // Auth schemas
 export const userSchema = z.object({
   id: z.number(),
@@ -21,12 +25,20 @@ export const userSchema = z.object({
 
 export type User = z.infer<typeof userSchema>;
 
+// Password policy applied wherever a user chooses a password
+export const passwordSchema = z.string()
+  .min(8, 'Password must be at least 8 characters')
+  .max(128, 'Password must be at most 128 characters')
+  .regex(/[A-Za-z]/, 'Password must contain a letter')
+  .regex(/[0-9]/, 'Password must contain a number')
+  .refine(password => new Set(password).size >= 4, 'Password is too repetitive');
+
 export const registerInputSchema = z.object({
   email: z.string().email(),
-  password: z.string().min(8),
+  password: passwordSchema,
   first_name: z.string().min(1),
   last_name: z.string().min(1),
-  role: userRoleSchema
+  role: registrationRoleSchema
 });
 
 export type RegisterInput = z.infer<typeof registerInputSchema>;
@@ -38,7 +50,225 @@ export const loginInputSchema = z.object({
 
 export type LoginInput = z.infer<typeof loginInputSchema>;
 
+export const authTokensSchema = z.object({
+  token: z.string(),
+  refreshToken: z.string()
+});
+
+export type AuthTokens = z.infer<typeof authTokensSchema>;
+
+// Login either completes or asks for a second factor
+export const loginResultSchema = z.discriminatedUnion('twoFactorRequired', [
+  authTokensSchema.extend({
+    twoFactorRequired: z.literal(false),
+    twoFactorSetupRequired: z.boolean(),
+    user: userSchema
+  }),
+  z.object({
+    twoFactorRequired: z.literal(true),
+    challengeToken: z.string()
+  })
+]);
+
+export type LoginResult = z.infer<typeof loginResultSchema>;
+
+// Two-factor schemas
+export const twoFactorEnrollmentSchema = z.object({
+  secret: z.string(),
+  otpauthUrl: z.string()
+});
+
+export type TwoFactorEnrollment = z.infer<typeof twoFactorEnrollmentSchema>;
+
+export const twoFactorStatusSchema = z.object({
+  enabled: z.boolean(),
+  required: z.boolean(),
+  recoveryCodesRemaining: z.number().int()
+});
+
+export type TwoFactorStatus = z.infer<typeof twoFactorStatusSchema>;
+
+export const twoFactorRequirementSchema = z.object({
+  role: userRoleSchema,
+  required: z.boolean()
+});
+
+export type TwoFactorRequirement = z.infer<typeof twoFactorRequirementSchema>;
+
+export const twoFactorCodeInputSchema = z.object({
+  code: z.string().min(6)
+});
+
+export const twoFactorLoginInputSchema = z.object({
+  challengeToken: z.string(),
+  code: z.string().min(6)
+});
+
+// Profile schemas
+export const profileSchema = userSchema.omit({ password_hash: true }).extend({
+  pending_email: z.string().email().nullable() // Awaiting confirmation from the new address
+});
+
+export type Profile = z.infer<typeof profileSchema>;
+
+export const updateProfileInputSchema = z.object({
+  first_name: z.string().min(1).optional(),
+  last_name: z.string().min(1).optional(),
+  avatar_url: z.string().url().nullable().optional()
+});
+
+export type UpdateProfileInput = z.infer<typeof updateProfileInputSchema>;
+
+export const changePasswordInputSchema = z.object({
+  currentPassword: z.string(),
+  newPassword: passwordSchema
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+export const changeEmailInputSchema = z.object({
+  newEmail: z.string().email(),
+  password: z.string()
+});
+
+export type ChangeEmailInput = z.infer<typeof changeEmailInputSchema>;
+
+// Single sign-on schemas
+export const ssoProviderSchema = z.object({
+  id: z.string(),
+  name: z.string()
+});
+
+export type SsoProvider = z.infer<typeof ssoProviderSchema>;
+
+export const ssoProviderInputSchema = z.object({
+  provider: z.string()
+});
+
+export const ssoLinkInputSchema = z.object({
+  provider: z.string(),
+  password: z.string()
+});
+
+export const ssoCallbackInputSchema = z.object({
+  code: z.string(),
+  state: z.string()
+});
+
+export type SsoCallbackInput = z.infer<typeof ssoCallbackInputSchema>;
+
+// Permission schemas
+export const permissionSchema = z.enum([
+  'users.view',
+  'users.manage',
+  'permissions.manage',
+  'courses.moderate',
+  'categories.manage',
+  'analytics.view',
+  'revenue.view',
+  'data.export',
+  'security.manage',
+  'learning_paths.manage',
+  'course.view_roster', // Course-scoped
+  'course.grade' // Course-scoped
+]);
+
+export type Permission = z.infer<typeof permissionSchema>;
+
+export const permissionRoleSchema = z.enum(['teaching_assistant', 'finance_viewer', 'content_moderator']);
+
+export type PermissionRole = z.infer<typeof permissionRoleSchema>;
+
+export const permissionGrantSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  role: permissionRoleSchema,
+  course_id: z.number().nullable(),
+  granted_by: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type PermissionGrant = z.infer<typeof permissionGrantSchema>;
+
+export const grantPermissionInputSchema = z.object({
+  userId: z.number(),
+  role: permissionRoleSchema,
+  courseId: z.number().nullable().optional() // Required for course-scoped roles
+});
+
+export type GrantPermissionInput = z.infer<typeof grantPermissionInputSchema>;
+
+export const permissionGrantIdInputSchema = z.object({
+  grantId: z.number()
+});
+
+// Account lockout schemas
+export const lockedAccountSchema = z.object({
+  user_id: z.number(),
+  email: z.string().email(),
+  failed_count: z.number().int(),
+  locked_at: z.coerce.date(),
+  locked_until: z.coerce.date()
+});
+
+export type LockedAccount = z.infer<typeof lockedAccountSchema>;
+
+// Category schemas
+export const categorySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  slug: z.string(),
+  description: z.string().nullable(),
+  parent_id: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Category = z.infer<typeof categorySchema>;
+
+export const categoryWithCountSchema = categorySchema.extend({
+  course_count: z.number().int() // Published courses in the category and its subcategories
+});
+
+export type CategoryWithCount = z.infer<typeof categoryWithCountSchema>;
+
+export const categoryLandingSchema = z.object({
+  category: categoryWithCountSchema,
+  ancestors: z.array(categorySchema), // Root first, for breadcrumbs
+  subcategories: z.array(categoryWithCountSchema)
+});
+
+export type CategoryLanding = z.infer<typeof categoryLandingSchema>;
+
+export const createCategoryInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().nullable().optional(),
+  parent_id: z.number().nullable().optional()
+});
+
+export type CreateCategoryInput = z.infer<typeof createCategoryInputSchema>;
+
+export const updateCategoryInputSchema = z.object({
+  categoryId: z.number(),
+  updates: createCategoryInputSchema.partial()
+});
+
+export const categoryIdInputSchema = z.object({
+  categoryId: z.number()
+});
+
+export const categorySlugInputSchema = z.object({
+  slug: z.string()
+});
+
 // Course schemas
+export const courseLevelSchema = z.enum(['beginner', 'intermediate', 'advanced']);
+
+export type CourseLevel = z.infer<typeof courseLevelSchema>;
+
+export const courseModerationStatusSchema = z.enum(['draft', 'submitted', 'approved', 'rejected', 'published']);
+
+export type CourseModerationStatus = z.infer<typeof courseModerationStatusSchema>;
+
 export const courseSchema = z.object({
   id: z.number(),
   title: z.string(),
@@ -47,7 +277,18 @@ export const courseSchema = z.object({
   price: z.number(),
   instructor_id: z.number(),
   is_published: z.boolean(),
+  moderation_status: courseModerationStatusSchema,
+  publish_at: z.coerce.date().nullable(),
+  enrollment_opens_at: z.coerce.date().nullable(),
+  enrollment_closes_at: z.coerce.date().nullable(),
+  ends_at: z.coerce.date().nullable(),
   duration_hours: z.number(),
+  category_id: z.number().nullable(),
+  level: courseLevelSchema.nullable(),
+  tags: z.array(z.string()),
+  rating_average: z.number(), // 0 when there are no visible reviews
+  rating_count: z.number().int(),
+  deleted_at: z.coerce.date().nullable(), // Set while the course is in the trash
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -59,22 +300,121 @@ export const createCourseInputSchema = z.object({
   description: z.string(),
   thumbnail_url: z.string().nullable(),
   price: z.number().nonnegative(),
-  duration_hours: z.number().positive()
+  duration_hours: z.number().positive(),
+  category_id: z.number().nullable().optional(),
+  level: courseLevelSchema.nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(30)).max(10).optional()
 });
 
 export type CreateCourseInput = z.infer<typeof createCourseInputSchema>;
 
+// Course catalog search
+export const courseSortSchema = z.enum(['newest', 'price_asc', 'price_desc', 'popularity', 'rating']);
+
+export type CourseSort = z.infer<typeof courseSortSchema>;
+
+export const searchCoursesInputSchema = z.object({
+  query: z.string().trim().max(200).optional(), // Full-text search over title and description
+  minPrice: z.number().nonnegative().optional(),
+  maxPrice: z.number().nonnegative().optional(),
+  minDuration: z.number().nonnegative().optional(),
+  maxDuration: z.number().nonnegative().optional(),
+  instructorId: z.number().optional(),
+  categoryId: z.number().optional(), // Includes subcategories
+  level: courseLevelSchema.optional(),
+  tags: z.array(z.string()).optional(), // Matches courses with any of the tags
+  sort: courseSortSchema.optional(), // Defaults to newest
+  cursor: z.string().nullable().optional(), // nextCursor from the previous page
+  limit: z.number().int().min(1).max(50).optional()
+});
+
+export type SearchCoursesInput = z.infer<typeof searchCoursesInputSchema>;
+
+export const catalogCourseSchema = courseSchema.extend({
+  instructor_name: z.string(),
+  enrollment_count: z.number().int()
+});
+
+export type CatalogCourse = z.infer<typeof catalogCourseSchema>;
+
+export const courseSearchResultSchema = z.object({
+  courses: z.array(catalogCourseSchema),
+  nextCursor: z.string().nullable()
+});
+
+export type CourseSearchResult = z.infer<typeof courseSearchResultSchema>;
+
 // Lesson schemas
+// A lesson body is a list of typed blocks. Links and media must be http(s) URLs, and markdown is
+// rendered without raw HTML, so nothing executable reaches the student view.
+export const codeLanguageSchema = z.enum([
+  'plaintext', 'javascript', 'typescript', 'python', 'java', 'c', 'cpp', 'csharp', 'go', 'rust',
+  'ruby', 'php', 'sql', 'html', 'css', 'json', 'bash'
+]);
+
+export type CodeLanguage = z.infer<typeof codeLanguageSchema>;
+
+export const calloutVariantSchema = z.enum(['info', 'tip', 'warning']);
+
+export type CalloutVariant = z.infer<typeof calloutVariantSchema>;
+
+const blockUrlSchema = z.string().trim().url().max(2000)
+  .refine(url => /^https?:\/\//i.test(url), { message: 'Only http and https URLs are allowed' });
+
+export const lessonBlockSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('markdown'),
+    markdown: z.string().max(20000)
+  }),
+  z.object({
+    type: z.literal('code'),
+    language: codeLanguageSchema,
+    filename: z.string().trim().max(200).nullable(),
+    code: z.string().max(20000)
+  }),
+  z.object({
+    type: z.literal('image'),
+    url: blockUrlSchema,
+    alt: z.string().max(300), // Read out by screen readers
+    caption: z.string().max(500).nullable()
+  }),
+  z.object({
+    type: z.literal('video'),
+    url: blockUrlSchema, // YouTube and Vimeo links are embedded, anything else plays as a video file
+    caption: z.string().max(500).nullable()
+  }),
+  z.object({
+    type: z.literal('callout'),
+    variant: calloutVariantSchema,
+    title: z.string().max(200).nullable(),
+    markdown: z.string().max(5000)
+  }),
+  z.object({
+    type: z.literal('file'),
+    url: blockUrlSchema,
+    name: z.string().trim().min(1).max(200),
+    size_bytes: z.number().int().nonnegative().nullable()
+  })
+]);
+
+export type LessonBlock = z.infer<typeof lessonBlockSchema>;
+
+export type LessonBlockType = LessonBlock['type'];
+
+export const lessonBlocksSchema = z.array(lessonBlockSchema).max(100);
+
 export const lessonSchema = z.object({
   id: z.number(),
   course_id: z.number(),
   title: z.string(),
   description: z.string().nullable(),
   video_url: z.string().nullable(),
-  content: z.string().nullable(),
+  content: z.string().nullable(), // Plain text body of lessons written before content blocks
+  blocks: lessonBlocksSchema,
   order_index: z.number().int(),
   duration_minutes: z.number(),
   is_published: z.boolean(),
+  deleted_at: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -87,6 +427,7 @@ export const createLessonInputSchema = z.object({
   description: z.string().nullable(),
   video_url: z.string().nullable(),
   content: z.string().nullable(),
+  blocks: lessonBlocksSchema.optional(),
   order_index: z.number().int(),
   duration_minutes: z.number().nonnegative()
 });
@@ -103,6 +444,7 @@ export const quizSchema = z.object({
   time_limit_minutes: z.number().int().nullable(),
   max_attempts: z.number().int().nullable(),
   is_active: z.boolean(),
+  deleted_at: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -177,6 +519,7 @@ export const enrollmentSchema = z.object({
   id: z.number(),
   student_id: z.number(),
   course_id: z.number(),
+  course_run_id: z.number().nullable(),
   enrollment_date: z.coerce.date(),
   completion_date: z.coerce.date().nullable(),
   progress_percentage: z.number().min(0).max(100),
@@ -186,7 +529,9 @@ export const enrollmentSchema = z.object({
 export type Enrollment = z.infer<typeof enrollmentSchema>;
 
 export const enrollInputSchema = z.object({
-  course_id: z.number()
+  course_id: z.number(),
+  course_run_id: z.number().optional(), // Required once the course has runs
+  acknowledge_prerequisites: z.boolean().optional() // Enroll despite unmet recommended prerequisites
 });
 
 export type EnrollInput = z.infer<typeof enrollInputSchema>;
@@ -277,6 +622,692 @@ export const sendMessageInputSchema = z.object({
 
 export type SendMessageInput = z.infer<typeof sendMessageInputSchema>;
 
+// Review schemas
+export const reviewSchema = z.object({
+  id: z.number(),
+  course_id: z.number(),
+  student_id: z.number(),
+  student_name: z.string(),
+  rating: z.number().int(),
+  comment: z.string().nullable(),
+  instructor_reply: z.string().nullable(),
+  replied_at: z.coerce.date().nullable(),
+  is_hidden: z.boolean(),
+  hidden_reason: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Review = z.infer<typeof reviewSchema>;
+
+export const submitReviewInputSchema = z.object({
+  course_id: z.number(),
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().trim().max(5000).nullable()
+});
+
+export type SubmitReviewInput = z.infer<typeof submitReviewInputSchema>;
+
+export const replyToReviewInputSchema = z.object({
+  reviewId: z.number(),
+  reply: z.string().trim().min(1).max(5000)
+});
+
+export const setReviewHiddenInputSchema = z.object({
+  reviewId: z.number(),
+  hidden: z.boolean(),
+  reason: z.string().trim().max(500).nullable().optional()
+});
+
+// Course moderation schemas
+export const moderationEventSchema = z.object({
+  id: z.number(),
+  course_id: z.number(),
+  actor_id: z.number().nullable(),
+  actor_name: z.string().nullable(),
+  from_status: courseModerationStatusSchema,
+  to_status: courseModerationStatusSchema,
+  reason: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ModerationEvent = z.infer<typeof moderationEventSchema>;
+
+export const moderationQueueItemSchema = courseSchema.extend({
+  instructor_name: z.string(),
+  lesson_count: z.number().int(),
+  submitted_at: z.coerce.date()
+});
+
+export type ModerationQueueItem = z.infer<typeof moderationQueueItemSchema>;
+
+// Course staff schemas
+export const courseStaffRoleSchema = z.enum(['owner', 'co_instructor', 'teaching_assistant']);
+
+export type CourseStaffRole = z.infer<typeof courseStaffRoleSchema>;
+
+// Roles that can be given through an invitation; each course has exactly one owner
+export const invitableStaffRoleSchema = z.enum(['co_instructor', 'teaching_assistant']);
+
+export const courseCapabilitySchema = z.enum([
+  'edit_content',
+  'edit_pricing',
+  'publish',
+  'delete',
+  'manage_staff',
+  'grade',
+  'message',
+  'view_roster',
+  'reply_to_reviews'
+]);
+
+export type CourseCapability = z.infer<typeof courseCapabilitySchema>;
+
+export const courseStaffMemberSchema = z.object({
+  id: z.number().nullable(), // Null for the owner, who has no staff row
+  course_id: z.number(),
+  user_id: z.number(),
+  name: z.string(),
+  email: z.string(),
+  role: courseStaffRoleSchema,
+  status: z.enum(['pending', 'active']),
+  revenue_share_percent: z.number(),
+  invited_at: z.coerce.date().nullable(),
+  accepted_at: z.coerce.date().nullable()
+});
+
+export type CourseStaffMember = z.infer<typeof courseStaffMemberSchema>;
+
+export const staffInvitationSchema = z.object({
+  course_id: z.number(),
+  course_title: z.string(),
+  role: invitableStaffRoleSchema,
+  revenue_share_percent: z.number(),
+  invited_by_name: z.string().nullable(),
+  invited_at: z.coerce.date()
+});
+
+export type StaffInvitation = z.infer<typeof staffInvitationSchema>;
+
+export const courseMembershipSchema = z.object({
+  course_id: z.number(),
+  role: courseStaffRoleSchema,
+  capabilities: z.array(courseCapabilitySchema)
+});
+
+export type CourseMembership = z.infer<typeof courseMembershipSchema>;
+
+export const inviteCourseStaffInputSchema = z.object({
+  courseId: z.number(),
+  email: z.string().email(),
+  role: invitableStaffRoleSchema,
+  revenue_share_percent: z.number().min(0).max(100).default(0) // Co-instructors only
+});
+
+export type InviteCourseStaffInput = z.infer<typeof inviteCourseStaffInputSchema>;
+
+export const updateCourseStaffInputSchema = z.object({
+  courseId: z.number(),
+  userId: z.number(),
+  role: invitableStaffRoleSchema.optional(),
+  revenue_share_percent: z.number().min(0).max(100).optional()
+});
+
+export type UpdateCourseStaffInput = z.infer<typeof updateCourseStaffInputSchema>;
+
+export const courseStaffUserInputSchema = z.object({
+  courseId: z.number(),
+  userId: z.number()
+});
+
+export const respondToStaffInvitationInputSchema = z.object({
+  courseId: z.number(),
+  accept: z.boolean()
+});
+
+export const messageCourseStudentsInputSchema = z.object({
+  courseId: z.number(),
+  subject: z.string().min(1),
+  content: z.string().min(1)
+});
+
+export type MessageCourseStudentsInput = z.infer<typeof messageCourseStudentsInputSchema>;
+
+// Prerequisite schemas
+export const coursePrerequisiteSchema = z.object({
+  id: z.number(),
+  course_id: z.number(),
+  prerequisite_course_id: z.number(),
+  prerequisite_title: z.string(),
+  is_required: z.boolean(),
+  requires_certificate: z.boolean()
+});
+
+export type CoursePrerequisite = z.infer<typeof coursePrerequisiteSchema>;
+
+// A prerequisite as it applies to one student
+export const prerequisiteStatusSchema = coursePrerequisiteSchema.extend({
+  is_met: z.boolean()
+});
+
+export type PrerequisiteStatus = z.infer<typeof prerequisiteStatusSchema>;
+
+export const prerequisiteInputSchema = z.object({
+  course_id: z.number(),
+  is_required: z.boolean().default(true),
+  requires_certificate: z.boolean().default(false)
+});
+
+export type PrerequisiteInput = z.infer<typeof prerequisiteInputSchema>;
+
+export const setCoursePrerequisitesInputSchema = z.object({
+  courseId: z.number(),
+  prerequisites: z.array(prerequisiteInputSchema).max(20)
+});
+
+// Learning path schemas
+export const learningPathCourseSchema = z.object({
+  course_id: z.number(),
+  position: z.number().int(),
+  title: z.string(),
+  thumbnail_url: z.string().nullable(),
+  duration_hours: z.number()
+});
+
+export type LearningPathCourse = z.infer<typeof learningPathCourseSchema>;
+
+export const learningPathSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  description: z.string().nullable(),
+  is_published: z.boolean(),
+  created_by: z.number().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+  courses: z.array(learningPathCourseSchema) // In path order
+});
+
+export type LearningPath = z.infer<typeof learningPathSchema>;
+
+export const createLearningPathInputSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(2000).nullable().optional(),
+  course_ids: z.array(z.number()).min(1).max(50), // In path order
+  is_published: z.boolean().optional()
+});
+
+export type CreateLearningPathInput = z.infer<typeof createLearningPathInputSchema>;
+
+export const updateLearningPathInputSchema = z.object({
+  pathId: z.number(),
+  updates: createLearningPathInputSchema.partial()
+});
+
+export const learningPathIdInputSchema = z.object({
+  pathId: z.number()
+});
+
+export const learningPathCertificateSchema = z.object({
+  id: z.number(),
+  path_id: z.number(),
+  student_id: z.number(),
+  certificate_code: z.string(),
+  issued_at: z.coerce.date()
+});
+
+export type LearningPathCertificate = z.infer<typeof learningPathCertificateSchema>;
+
+export const learningPathCourseStatusSchema = z.enum(['not_enrolled', 'in_progress', 'completed']);
+
+export type LearningPathCourseStatus = z.infer<typeof learningPathCourseStatusSchema>;
+
+export const learningPathProgressSchema = z.object({
+  path: learningPathSchema,
+  enrolled_at: z.coerce.date().nullable(), // Null when the student hasn't joined the path
+  completed_at: z.coerce.date().nullable(),
+  courses: z.array(learningPathCourseSchema.extend({
+    status: learningPathCourseStatusSchema,
+    progress_percentage: z.number()
+  })),
+  completed_courses: z.number().int(),
+  progress_percentage: z.number().int(),
+  next_course_id: z.number().nullable(), // First course in path order that isn't completed yet
+  certificate: learningPathCertificateSchema.nullable()
+});
+
+export type LearningPathProgress = z.infer<typeof learningPathProgressSchema>;
+
+// Course revision schemas
+// A snapshot holds a course's metadata, lessons, quizzes and questions. Content added in a draft
+// has no row until it is published: its id is null, or negative when the create handlers added it.
+export const courseRevisionStatusSchema = z.enum(['draft', 'published', 'superseded']);
+export type CourseRevisionStatus = z.infer<typeof courseRevisionStatusSchema>;
+
+export const snapshotQuestionSchema = createQuizQuestionInputSchema.omit({ quiz_id: true }).extend({
+  id: z.number().nullable()
+});
+
+export type SnapshotQuestion = z.infer<typeof snapshotQuestionSchema>;
+
+export const snapshotQuizSchema = createQuizInputSchema.omit({ lesson_id: true }).extend({
+  id: z.number().nullable(),
+  is_active: z.boolean(),
+  questions: z.array(snapshotQuestionSchema)
+});
+
+export type SnapshotQuiz = z.infer<typeof snapshotQuizSchema>;
+
+export const snapshotLessonSchema = createLessonInputSchema.omit({ course_id: true }).extend({
+  id: z.number().nullable(),
+  blocks: lessonBlocksSchema.default([]), // Missing from revisions stored before content blocks
+  is_published: z.boolean(),
+  quizzes: z.array(snapshotQuizSchema)
+});
+
+export type SnapshotLesson = z.infer<typeof snapshotLessonSchema>;
+
+// Lowercased and without duplicates, like the tags saved on courses, so drafts, templates and
+// imported packages can't bring in tags that searches miss
+const snapshotTagsSchema = z.array(z.string().trim().min(1).max(30)).max(10)
+  .transform(tags => [...new Set(tags.map(tag => tag.toLowerCase()))]);
+
+export const courseSnapshotSchema = z.object({
+  course: createCourseInputSchema.extend({
+    category_id: z.number().nullable(),
+    level: courseLevelSchema.nullable(),
+    tags: snapshotTagsSchema
+  }),
+  lessons: z.array(snapshotLessonSchema)
+});
+
+export type CourseSnapshot = z.infer<typeof courseSnapshotSchema>;
+
+export const courseRevisionSchema = z.object({
+  id: z.number(),
+  course_id: z.number(),
+  revision_number: z.number().int(),
+  status: courseRevisionStatusSchema,
+  snapshot: courseSnapshotSchema,
+  created_by: z.number().nullable(),
+  published_by: z.number().nullable(),
+  published_at: z.coerce.date().nullable(),
+  restored_from_revision_id: z.number().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type CourseRevision = z.infer<typeof courseRevisionSchema>;
+
+// What the draft editor works on: the open draft, or the live content when there is none yet
+export const courseDraftSchema = z.object({
+  revision: courseRevisionSchema.nullable(),
+  snapshot: courseSnapshotSchema
+});
+
+export type CourseDraft = z.infer<typeof courseDraftSchema>;
+
+export const revisionFieldChangeSchema = z.object({
+  field: z.string(),
+  before: z.unknown(),
+  after: z.unknown()
+});
+
+export type RevisionFieldChange = z.infer<typeof revisionFieldChangeSchema>;
+
+export const revisionChangeSchema = z.object({
+  entity: z.enum(['course', 'lesson', 'quiz', 'question']),
+  entity_id: z.number().nullable(),
+  label: z.string(),
+  change: z.enum(['added', 'removed', 'modified']),
+  fields: z.array(revisionFieldChangeSchema)
+});
+
+export type RevisionChange = z.infer<typeof revisionChangeSchema>;
+
+export const courseRevisionDiffSchema = z.object({
+  from_revision_id: z.number(),
+  to_revision_id: z.number(),
+  changes: z.array(revisionChangeSchema)
+});
+
+export type CourseRevisionDiff = z.infer<typeof courseRevisionDiffSchema>;
+
+export const saveCourseDraftInputSchema = z.object({
+  courseId: z.number(),
+  snapshot: courseSnapshotSchema
+});
+
+export const courseRevisionInputSchema = z.object({
+  courseId: z.number(),
+  revisionId: z.number()
+});
+
+export const diffCourseRevisionsInputSchema = z.object({
+  courseId: z.number(),
+  fromRevisionId: z.number(),
+  toRevisionId: z.number()
+});
+
+// Course template schemas
+// Templates hold a snapshot of a course's content, without ids, that new courses can start from
+export const courseTemplateSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  description: z.string().nullable(),
+  source_course_id: z.number().nullable(),
+  created_by: z.number().nullable(),
+  creator_name: z.string().nullable(),
+  is_shared: z.boolean(),
+  lesson_count: z.number().int(),
+  quiz_count: z.number().int(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type CourseTemplate = z.infer<typeof courseTemplateSchema>;
+
+export const duplicateCourseInputSchema = z.object({
+  courseId: z.number(),
+  title: z.string().min(1).optional() // Defaults to the original title marked as a copy
+});
+
+export type DuplicateCourseInput = z.infer<typeof duplicateCourseInputSchema>;
+
+export const saveCourseTemplateInputSchema = z.object({
+  courseId: z.number(),
+  title: z.string().min(1),
+  description: z.string().nullable().optional(),
+  is_shared: z.boolean().default(false) // Shared templates are available to every instructor
+});
+
+export type SaveCourseTemplateInput = z.infer<typeof saveCourseTemplateInputSchema>;
+
+export const createCourseFromTemplateInputSchema = z.object({
+  templateId: z.number(),
+  title: z.string().min(1).optional() // Defaults to the template's course title
+});
+
+export type CreateCourseFromTemplateInput = z.infer<typeof createCourseFromTemplateInputSchema>;
+
+export const courseTemplateIdInputSchema = z.object({
+  templateId: z.number()
+});
+
+// Course package schemas
+// A portable copy of a course for moving it between deployments. Ids are the exporting
+// deployment's and only tie quizzes and questions together; imports get new ids.
+export const packageQuestionSchema = snapshotQuestionSchema.extend({
+  id: z.number().int()
+});
+
+export const packageQuizSchema = snapshotQuizSchema.extend({
+  id: z.number().int(),
+  questions: z.array(packageQuestionSchema)
+});
+
+export const packageLessonSchema = snapshotLessonSchema.extend({
+  id: z.number().int(),
+  quizzes: z.array(packageQuizSchema)
+});
+
+export const coursePackageSchema = z.object({
+  format: z.literal('course-package'),
+  version: z.number().int(),
+  exported_at: z.coerce.date(),
+  course: courseSnapshotSchema.shape.course.omit({ category_id: true }).extend({
+    category_slug: z.string().nullable() // Categories are matched by slug on import
+  }),
+  lessons: z.array(packageLessonSchema)
+});
+
+export type CoursePackage = z.infer<typeof coursePackageSchema>;
+
+export const coursePackageFormatSchema = z.enum(['json', 'zip']);
+export type CoursePackageFormat = z.infer<typeof coursePackageFormatSchema>;
+
+export const coursePackageFileSchema = z.object({
+  file_name: z.string(),
+  mime_type: z.string(),
+  data: z.string() // Base64
+});
+
+export type CoursePackageFile = z.infer<typeof coursePackageFileSchema>;
+
+export const importConflictSchema = z.object({
+  type: z.enum(['title_exists', 'category_not_found']),
+  message: z.string()
+});
+
+export type ImportConflict = z.infer<typeof importConflictSchema>;
+
+export const importIdMappingSchema = z.object({
+  source_id: z.number(),
+  id: z.number().nullable() // Null on a dry run
+});
+
+export const courseImportResultSchema = z.object({
+  dry_run: z.boolean(),
+  course: courseSchema.nullable(),
+  title: z.string(),
+  lessons: z.array(importIdMappingSchema),
+  quizzes: z.array(importIdMappingSchema),
+  questions: z.array(importIdMappingSchema),
+  conflicts: z.array(importConflictSchema)
+});
+
+export type CourseImportResult = z.infer<typeof courseImportResultSchema>;
+
+export const exportCoursePackageInputSchema = z.object({
+  courseId: z.number(),
+  format: coursePackageFormatSchema.default('json')
+});
+
+export const importCoursePackageInputSchema = z.object({
+  data: z.string().min(1).max(70_000_000), // Base64 of a JSON or ZIP package
+  dry_run: z.boolean().default(false) // Validate and report conflicts without importing
+});
+
+export type ImportCoursePackageInput = z.infer<typeof importCoursePackageInputSchema>;
+
+// Content package import schemas
+// SCORM 1.2 and IMS Common Cartridge zips from other systems, converted into lessons and quizzes
+export const contentPackageFormatSchema = z.enum(['scorm_1_2', 'common_cartridge']);
+export type ContentPackageFormat = z.infer<typeof contentPackageFormatSchema>;
+
+export const importedLessonSchema = z.object({
+  title: z.string(),
+  order_index: z.number().int(),
+  question_count: z.number().int() // Questions of the quiz converted from an assessment, 0 for content
+});
+
+export type ImportedLesson = z.infer<typeof importedLessonSchema>;
+
+export const unsupportedItemSchema = z.object({
+  title: z.string(),
+  reason: z.string()
+});
+
+export type UnsupportedItem = z.infer<typeof unsupportedItemSchema>;
+
+export const contentImportResultSchema = z.object({
+  format: contentPackageFormatSchema,
+  dry_run: z.boolean(),
+  lessons: z.array(importedLessonSchema),
+  unsupported: z.array(unsupportedItemSchema)
+});
+
+export type ContentImportResult = z.infer<typeof contentImportResultSchema>;
+
+export const importContentPackageInputSchema = z.object({
+  courseId: z.number(),
+  data: z.string().min(1).max(70_000_000), // Base64 of the ZIP
+  dry_run: z.boolean().default(false) // Report what would be imported without changing the course
+});
+
+export type ImportContentPackageInput = z.infer<typeof importContentPackageInputSchema>;
+
+// Course schedule schemas
+export const updateCourseScheduleInputSchema = z.object({
+  courseId: z.number(),
+  publish_at: z.coerce.date().nullable(), // Only for courses that aren't published yet
+  enrollment_opens_at: z.coerce.date().nullable(),
+  enrollment_closes_at: z.coerce.date().nullable(),
+  ends_at: z.coerce.date().nullable()
+});
+
+export type UpdateCourseScheduleInput = z.infer<typeof updateCourseScheduleInputSchema>;
+
+// Course run schemas
+export const courseRunSchema = z.object({
+  id: z.number(),
+  course_id: z.number(),
+  name: z.string(),
+  starts_at: z.coerce.date(),
+  ends_at: z.coerce.date().nullable(),
+  capacity: z.number().int().nullable(), // Null for unlimited seats
+  enrolled_count: z.number().int(),
+  waitlist_count: z.number().int(),
+  waitlist_position: z.number().int().nullable(), // The viewer's place in the waitlist, 1 for next in line
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type CourseRun = z.infer<typeof courseRunSchema>;
+
+export const createCourseRunInputSchema = z.object({
+  courseId: z.number(),
+  name: z.string().trim().min(1).max(100),
+  starts_at: z.coerce.date(),
+  ends_at: z.coerce.date().nullable(),
+  capacity: z.number().int().positive().nullable()
+});
+
+export type CreateCourseRunInput = z.infer<typeof createCourseRunInputSchema>;
+
+export const updateCourseRunInputSchema = z.object({
+  courseRunId: z.number(),
+  name: z.string().trim().min(1).max(100).optional(),
+  starts_at: z.coerce.date().optional(),
+  ends_at: z.coerce.date().nullable().optional(),
+  capacity: z.number().int().positive().nullable().optional()
+});
+
+export type UpdateCourseRunInput = z.infer<typeof updateCourseRunInputSchema>;
+
+export const courseRunIdInputSchema = z.object({
+  courseRunId: z.number()
+});
+
+export const courseRunStudentSchema = z.object({
+  student_id: z.number(),
+  name: z.string(),
+  email: z.string(),
+  enrollment_date: z.coerce.date(),
+  progress_percentage: z.number(),
+  is_completed: z.boolean()
+});
+
+export type CourseRunStudent = z.infer<typeof courseRunStudentSchema>;
+
+export const courseRunWaitlistEntrySchema = z.object({
+  student_id: z.number(),
+  name: z.string(),
+  email: z.string(),
+  position: z.number().int(),
+  joined_at: z.coerce.date()
+});
+
+export type CourseRunWaitlistEntry = z.infer<typeof courseRunWaitlistEntrySchema>;
+
+export const courseRunRosterSchema = z.object({
+  run: courseRunSchema,
+  students: z.array(courseRunStudentSchema),
+  waitlist: z.array(courseRunWaitlistEntrySchema)
+});
+
+export type CourseRunRoster = z.infer<typeof courseRunRosterSchema>;
+
+// Trash schemas
+export const trashItemTypeSchema = z.enum(['course', 'lesson', 'quiz']);
+
+export type TrashItemType = z.infer<typeof trashItemTypeSchema>;
+
+export const trashItemSchema = z.object({
+  type: trashItemTypeSchema,
+  id: z.number(),
+  title: z.string(),
+  course_id: z.number(),
+  course_title: z.string(),
+  deleted_at: z.coerce.date(),
+  restorable_until: z.coerce.date() // After this the purge job removes it, or archives it if students used it
+});
+
+export type TrashItem = z.infer<typeof trashItemSchema>;
+
+export const trashItemInputSchema = z.object({
+  type: trashItemTypeSchema,
+  id: z.number()
+});
+
+export type TrashItemInput = z.infer<typeof trashItemInputSchema>;
+
+// Media schemas
+// What an upload is for decides the file types and size it may have, and whether it is served
+// publicly (avatars, thumbnails) or only through signed links (lesson videos and attachments).
+export const mediaPurposeSchema = z.enum(['avatar', 'course_thumbnail', 'lesson_video', 'lesson_attachment']);
+
+export type MediaPurpose = z.infer<typeof mediaPurposeSchema>;
+
+export const mediaAssetSchema = z.object({
+  id: z.number(),
+  owner_id: z.number(),
+  course_id: z.number().nullable(),
+  purpose: mediaPurposeSchema,
+  file_name: z.string(),
+  mime_type: z.string(),
+  size_bytes: z.number().int(),
+  url: z.string(), // Permanent address to store in avatar_url, thumbnail_url, video_url or lesson blocks
+  created_at: z.coerce.date()
+});
+
+export type MediaAsset = z.infer<typeof mediaAssetSchema>;
+
+export const uploadMediaInputSchema = z.object({
+  purpose: mediaPurposeSchema,
+  course_id: z.number().nullable().default(null), // Required for lesson videos and attachments
+  file_name: z.string().trim().min(1).max(255),
+  mime_type: z.string().trim().toLowerCase().min(1).max(100),
+  data: z.string().min(1).max(70_000_000) // Base64 of the file
+});
+
+export type UploadMediaInput = z.infer<typeof uploadMediaInputSchema>;
+
+export const mediaUsageSchema = z.object({
+  used_bytes: z.number().int(),
+  quota_bytes: z.number().int(),
+  assets: z.array(mediaAssetSchema)
+});
+
+export type MediaUsage = z.infer<typeof mediaUsageSchema>;
+
+export const mediaDownloadUrlSchema = z.object({
+  url: z.string(),
+  expires_at: z.coerce.date().nullable() // Null for public media, whose address never expires
+});
+
+export type MediaDownloadUrl = z.infer<typeof mediaDownloadUrlSchema>;
+
+export const mediaIdInputSchema = z.object({
+  mediaId: z.number()
+});
+
+export const setMediaQuotaInputSchema = z.object({
+  userId: z.number(),
+  quota_bytes: z.number().int().nonnegative().nullable() // Null restores the role's default
+});
+
+export type SetMediaQuotaInput = z.infer<typeof setMediaQuotaInputSchema>;
+
 // Notification schemas
 export const notificationTypeSchema = z.enum(['course_update', 'quiz_available', 'certificate_issued', 'message_received', 'payment_confirmed']);
 export type NotificationType = z.infer<typeof notificationTypeSchema>;
@@ -382,9 +1413,15 @@ export const userStatusInputSchema = z.object({
   isActive: z.boolean()
 });
 
+export const userRoleInputSchema = z.object({
+  userId: z.number(),
+  role: userRoleSchema
+});
+
 export const courseModerationInputSchema = z.object({
   courseId: z.number(),
-  action: z.enum(['approve', 'reject'])
+  action: z.enum(['approve', 'reject']),
+  reason: z.string().trim().max(2000).nullable().optional() // Required when rejecting
 });
 
 export const dateRangeInputSchema = z.object({
@@ -400,9 +1437,17 @@ export const emailInputSchema = z.object({
   email: z.string().email()
 });
 
+export const verifyEmailInputSchema = z.object({
+  token: z.string()
+});
+
+export const refreshTokenInputSchema = z.object({
+  refreshToken: z.string()
+});
+
 export const resetPasswordInputSchema = z.object({
   token: z.string(),
-  newPassword: z.string().min(8)
+  newPassword: passwordSchema
 });
 
 export const courseUpdateInputSchema = z.object({
@@ -0,0 +1,171 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { createHash, createHmac } from 'crypto';
+import path from 'path';
+
+// Anything that can keep uploaded files; keys are generated by the media handlers, never by users
+export interface StorageDriver {
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+// Stores files under a directory on the server's disk
+export class LocalStorageDriver implements StorageDriver {
+  constructor(private readonly directory: string) {}
+
+  private resolve(key: string): string {
+    const root = path.resolve(this.directory);
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return file;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+export interface S3StorageConfig {
+  endpoint: string; // e.g. https://s3.eu-west-1.amazonaws.com or a MinIO URL
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// Stores files in an S3-compatible bucket (AWS S3, MinIO, R2, ...) using path-style requests
+// signed with AWS Signature Version 4
+export class S3StorageDriver implements StorageDriver {
+  constructor(private readonly config: S3StorageConfig) {}
+
+  private async request(method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer, mimeType?: string): Promise<Response> {
+    const url = new URL(this.config.endpoint);
+    const objectPath = `/${this.config.bucket}/${key.split('/').map(encodeURIComponent).join('/')}`;
+    url.pathname = url.pathname.replace(/\/$/, '') + objectPath;
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? '');
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    if (mimeType) headers['content-type'] = mimeType;
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...signedHeaders.map(name => `${name}:${headers[name]}`),
+      '',
+      signedHeaders.join(';'),
+      payloadHash
+    ].join('\n');
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const sentHeaders = Object.fromEntries(Object.entries(headers).filter(([name]) => name !== 'host'));
+    return fetch(url, {
+      method,
+      headers: {
+        ...sentHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`
+      },
+      body
+    });
+  }
+
+  async put(key: string, data: Buffer, mimeType: string): Promise<void> {
+    const response = await this.request('PUT', key, data, mimeType);
+    if (!response.ok) {
+      throw new Error(`S3 upload failed with status ${response.status}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`S3 download failed with status ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed with status ${response.status}`);
+    }
+  }
+}
+
+// Keeps files in memory, used by tests
+export class MemoryStorageDriver implements StorageDriver {
+  readonly files = new Map<string, Buffer>();
+
+  async put(key: string, data: Buffer): Promise<void> {
+    this.files.set(key, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    return this.files.get(key) ?? null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.files.delete(key);
+  }
+}
+
+function createDefaultDriver(): StorageDriver {
+  const driver = process.env['STORAGE_DRIVER'] || 'local';
+  if (driver === 's3') {
+    return new S3StorageDriver({
+      endpoint: process.env['S3_ENDPOINT'] || 'https://s3.amazonaws.com',
+      bucket: process.env['S3_BUCKET'] || '',
+      region: process.env['S3_REGION'] || 'us-east-1',
+      accessKeyId: process.env['S3_ACCESS_KEY_ID'] || '',
+      secretAccessKey: process.env['S3_SECRET_ACCESS_KEY'] || ''
+    });
+  }
+  return new LocalStorageDriver(process.env['STORAGE_DIR'] || './uploads');
+}
+
+let storage: StorageDriver = createDefaultDriver();
+
+export function setStorageDriver(next: StorageDriver): void {
+  storage = next;
+}
+
+export function getStorageDriver(): StorageDriver {
+  return storage;
+}
@@ -1,11 +1,12 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, coursesTable, enrollmentsTable, paymentsTable, certificatesTable } from '../db/schema';
+import { usersTable, coursesTable, enrollmentsTable, paymentsTable, certificatesTable, sessionsTable, loginAttemptsTable, auditLogTable, notificationsTable, courseStaffTable } from '../db/schema';
 import { 
   getAllUsers, 
   getUserById, 
   updateUserStatus, 
+  updateUserRole,
   deleteUser,
   getAllCourses,
   moderateCourse,
@@ -13,9 +14,11 @@ import {
   getRevenueReport,
   getCertificateStats,
   exportUserData,
-  exportCourseData
+  exportCourseData,
+  getLockedAccounts,
+  unlockUserAccount
 } from '../handlers/admin';
-import { eq } from 'drizzle-orm';
+import { eq, isNull, and } from 'drizzle-orm';
 
 describe('Admin Handler', () => {
   beforeEach(createDB);
@@ -133,6 +136,21 @@ describe('Admin Handler', () => {
       expect(dbUser[0].is_active).toBe(false);
     });
 
+    it('should revoke all sessions when deactivating a user', async () => {
+      await db.insert(sessionsTable).values([
+        { user_id: regularUserId, refresh_token_hash: 'hash-1', expires_at: new Date(Date.now() + 60000) },
+        { user_id: regularUserId, refresh_token_hash: 'hash-2', expires_at: new Date(Date.now() + 60000) }
+      ]).execute();
+
+      await updateUserStatus(regularUserId, false, adminId);
+
+      const activeSessions = await db.select()
+        .from(sessionsTable)
+        .where(and(eq(sessionsTable.user_id, regularUserId), isNull(sessionsTable.revoked_at)))
+        .execute();
+      expect(activeSessions).toHaveLength(0);
+    });
+
     it('should reject non-admin access', async () => {
       await expect(updateUserStatus(regularUserId, false, regularUserId)).rejects.toThrow(/Unauthorized: Admin access required/i);
     });
@@ -142,6 +160,33 @@ describe('Admin Handler', () => {
     });
   });
 
+  describe('updateUserRole', () => {
+    it('should promote a user and record an audit entry', async () => {
+      const updatedUser = await updateUserRole(instructorId, 'administrator', adminId, '10.0.0.1');
+
+      expect(updatedUser.role).toBe('administrator');
+      expect(updatedUser.password_hash).toEqual('[REDACTED]');
+
+      const audit = await db.select().from(auditLogTable).execute();
+      expect(audit).toHaveLength(1);
+      expect(audit[0].action).toBe('role_changed');
+      expect(audit[0].target_user_id).toBe(instructorId);
+      expect(audit[0].details).toEqual({ from: 'instructor', to: 'administrator' });
+    });
+
+    it('should not let admins change their own role', async () => {
+      await expect(updateUserRole(adminId, 'student', adminId)).rejects.toThrow(/your own role/i);
+    });
+
+    it('should reject non-admin access', async () => {
+      await expect(updateUserRole(regularUserId, 'administrator', regularUserId)).rejects.toThrow(/Unauthorized: Admin access required/i);
+    });
+
+    it('should throw error for non-existent user', async () => {
+      await expect(updateUserRole(99999, 'instructor', adminId)).rejects.toThrow(/User not found/i);
+    });
+  });
+
   describe('deleteUser', () => {
     it('should delete user successfully', async () => {
       const result = await deleteUser(regularUserId, adminId);
@@ -165,6 +210,70 @@ describe('Admin Handler', () => {
     });
   });
 
+  describe('getLockedAccounts', () => {
+    it('should list only accounts with an active lockout', async () => {
+      await db.insert(loginAttemptsTable).values([
+        {
+          scope: 'account',
+          identifier: 'user@test.com',
+          failed_count: 10,
+          locked_at: new Date(),
+          blocked_until: new Date(Date.now() + 60 * 1000)
+        },
+        {
+          scope: 'account',
+          identifier: 'instructor@test.com',
+          failed_count: 4,
+          blocked_until: new Date(Date.now() + 60 * 1000)
+        }
+      ]).execute();
+
+      const result = await getLockedAccounts(adminId);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].user_id).toBe(regularUserId);
+      expect(result[0].failed_count).toBe(10);
+      expect(result[0].locked_until).toBeInstanceOf(Date);
+    });
+
+    it('should reject non-admin access', async () => {
+      await expect(getLockedAccounts(regularUserId)).rejects.toThrow(/Unauthorized: Admin access required/i);
+    });
+  });
+
+  describe('unlockUserAccount', () => {
+    it('should clear the lockout and record an audit entry', async () => {
+      await db.insert(loginAttemptsTable).values({
+        scope: 'account',
+        identifier: 'user@test.com',
+        failed_count: 10,
+        locked_at: new Date(),
+        blocked_until: new Date(Date.now() + 60 * 1000)
+      }).execute();
+
+      const result = await unlockUserAccount(regularUserId, adminId, '10.0.0.1');
+
+      expect(result.success).toBe(true);
+      const attempts = await db.select().from(loginAttemptsTable).execute();
+      expect(attempts).toHaveLength(0);
+
+      const audit = await db.select().from(auditLogTable).execute();
+      expect(audit).toHaveLength(1);
+      expect(audit[0].action).toBe('account_unlocked');
+      expect(audit[0].actor_id).toBe(adminId);
+      expect(audit[0].target_user_id).toBe(regularUserId);
+      expect(audit[0].ip_address).toBe('10.0.0.1');
+    });
+
+    it('should reject non-admin access', async () => {
+      await expect(unlockUserAccount(regularUserId, regularUserId)).rejects.toThrow(/Unauthorized: Admin access required/i);
+    });
+
+    it('should throw error for non-existent user', async () => {
+      await expect(unlockUserAccount(99999, adminId)).rejects.toThrow(/User not found/i);
+    });
+  });
+
   describe('getAllCourses', () => {
     it('should return all courses including unpublished', async () => {
       const courses = await getAllCourses(adminId);
@@ -183,34 +292,79 @@ describe('Admin Handler', () => {
   });
 
   describe('moderateCourse', () => {
-    it('should approve course publication', async () => {
-      const moderatedCourse = await moderateCourse(courseId, 'approve', adminId);
+    const setModerationStatus = async (status: 'submitted' | 'published') => {
+      await db.update(coursesTable)
+        .set({ moderation_status: status, is_published: status === 'published' })
+        .where(eq(coursesTable.id, courseId))
+        .execute();
+    };
+
+    it('should approve a submitted course without publishing it', async () => {
+      await setModerationStatus('submitted');
+
+      const moderatedCourse = await moderateCourse(courseId, 'approve', null, adminId);
 
       expect(moderatedCourse.id).toEqual(courseId);
-      expect(moderatedCourse.is_published).toBe(true);
+      expect(moderatedCourse.moderation_status).toEqual('approved');
+      expect(moderatedCourse.is_published).toBe(false);
       expect(typeof moderatedCourse.price).toBe('number');
 
+      const notifications = await db.select()
+        .from(notificationsTable)
+        .where(eq(notificationsTable.user_id, instructorId))
+        .execute();
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].type).toEqual('course_update');
+      expect(notifications[0].title).toEqual('Course approved');
+    });
+
+    it('should reject a submitted course and send the reason to the instructor', async () => {
+      await setModerationStatus('submitted');
+
+      const moderatedCourse = await moderateCourse(courseId, 'reject', 'Lesson videos are missing', adminId);
+
+      expect(moderatedCourse.moderation_status).toEqual('rejected');
+      expect(moderatedCourse.is_published).toBe(false);
+
+      const notifications = await db.select()
+        .from(notificationsTable)
+        .where(eq(notificationsTable.user_id, instructorId))
+        .execute();
+      expect(notifications[0].message).toContain('Lesson videos are missing');
+    });
+
+    it('should require a reason to reject', async () => {
+      await setModerationStatus('submitted');
+
+      await expect(moderateCourse(courseId, 'reject', null, adminId)).rejects.toThrow(/reason is required/i);
+    });
+
+    it('should take a published course down', async () => {
+      await setModerationStatus('published');
+
+      const moderatedCourse = await moderateCourse(courseId, 'reject', 'Copyrighted material', adminId);
+
+      expect(moderatedCourse.moderation_status).toEqual('rejected');
+      expect(moderatedCourse.is_published).toBe(false);
+
       // Verify in database
       const dbCourse = await db.select()
         .from(coursesTable)
         .where(eq(coursesTable.id, courseId))
         .execute();
-      expect(dbCourse[0].is_published).toBe(true);
+      expect(dbCourse[0].is_published).toBe(false);
     });
 
-    it('should reject course publication', async () => {
-      const moderatedCourse = await moderateCourse(courseId, 'reject', adminId);
-
-      expect(moderatedCourse.id).toEqual(courseId);
-      expect(moderatedCourse.is_published).toBe(false);
+    it('should only decide submitted courses', async () => {
+      await expect(moderateCourse(courseId, 'approve', null, adminId)).rejects.toThrow(/while it is a draft/i);
     });
 
     it('should reject non-admin access', async () => {
-      await expect(moderateCourse(courseId, 'approve', regularUserId)).rejects.toThrow(/Unauthorized: Admin access required/i);
+      await expect(moderateCourse(courseId, 'approve', null, regularUserId)).rejects.toThrow(/Unauthorized: Admin access required/i);
     });
 
     it('should throw error for non-existent course', async () => {
-      await expect(moderateCourse(99999, 'approve', adminId)).rejects.toThrow(/Course not found/i);
+      await expect(moderateCourse(99999, 'approve', null, adminId)).rejects.toThrow(/Course not found/i);
     });
   });
 
@@ -311,6 +465,32 @@ describe('Admin Handler', () => {
       }
     });
 
+    it('should split course revenue between the owner and co-instructors', async () => {
+      const coInstructor = await db.insert(usersTable).values({
+        email: 'co@test.com',
+        password_hash: 'hashedpassword',
+        first_name: 'Co',
+        last_name: 'Instructor',
+        role: 'instructor'
+      }).returning().execute();
+      await db.insert(courseStaffTable).values({
+        course_id: courseId,
+        user_id: coInstructor[0].id,
+        role: 'co_instructor',
+        status: 'active',
+        revenue_share_percent: '30'
+      }).execute();
+
+      const startDate = new Date();
+      startDate.setDate(startDate.getDate() - 7);
+      const report = await getRevenueReport(adminId, startDate, new Date());
+
+      expect(report.courseRevenue[0].splits).toEqual([
+        { userId: instructorId, name: 'Test Instructor', role: 'owner', percent: 70, amount: 69.99 },
+        { userId: coInstructor[0].id, name: 'Co Instructor', role: 'co_instructor', percent: 30, amount: 30 }
+      ]);
+    });
+
     it('should reject non-admin access', async () => {
       const startDate = new Date();
       const endDate = new Date();
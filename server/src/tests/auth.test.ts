@@ -1,21 +1,27 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type RegisterInput, type LoginInput } from '../schema';
-import { register, login, logout, forgotPassword, resetPassword, resetTokenStore } from '../handlers/auth';
+import { usersTable, sessionsTable, emailVerificationTokensTable, passwordResetTokensTable } from '../db/schema';
+import { registerInputSchema, type RegisterInput, type LoginInput } from '../schema';
+import { 
+  register, 
+  login, 
+  logout, 
+  forgotPassword, 
+  resetPassword, 
+  authenticateToken, 
+  refreshSession, 
+  revokeUserSessions, 
+  createJWT, 
+  verifyJWT, 
+  verifyEmail, 
+  resendVerificationEmail 
+} from '../handlers/auth';
+import { MemoryMailTransport, setMailTransport } from '../mail';
+import { verifyPassword } from '../password';
 import { eq } from 'drizzle-orm';
 import crypto from 'crypto';
 
-// Helper function to verify password (same logic as in handler)
-function verifyPassword(password: string, hashedPassword: string): boolean {
-  const [salt, hash] = hashedPassword.split(':');
-  if (!salt || !hash) return false;
-  
-  const verifyHash = crypto.pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex');
-  return hash === verifyHash;
-}
-
 // Test inputs
 const testRegisterInput: RegisterInput = {
   email: 'test@example.com',
@@ -38,10 +44,33 @@ const testInstructorInput: RegisterInput = {
   role: 'instructor'
 };
 
+// Log in a user without two-factor and narrow the result to the session case
+async function signIn(input: LoginInput) {
+  const result = await login(input);
+  if (result.twoFactorRequired) {
+    throw new Error('Unexpected two-factor challenge');
+  }
+  return result;
+}
+
+// Pull the token out of a link like http://host/?verifyToken=abc
+function extractToken(text: string, param: string): string {
+  const match = new RegExp(`${param}=([a-f0-9]+)`).exec(text);
+  if (!match) throw new Error(`No ${param} in message`);
+  return match[1];
+}
+
 describe('Auth Handlers', () => {
+  let mailbox: MemoryMailTransport;
+
   beforeEach(createDB);
   afterEach(resetDB);
 
+  beforeEach(() => {
+    mailbox = new MemoryMailTransport();
+    setMailTransport(mailbox);
+  });
+
   describe('register', () => {
     it('should register a new user successfully', async () => {
       const result = await register(testRegisterInput);
@@ -77,7 +106,7 @@ describe('Auth Handlers', () => {
       expect(user.password_hash).not.toBe('password123'); // Password should be hashed
       
       // Verify password hash is valid
-      const isValidHash = verifyPassword('password123', user.password_hash);
+      const isValidHash = await verifyPassword('password123', user.password_hash);
       expect(isValidHash).toBe(true);
     });
 
@@ -89,6 +118,10 @@ describe('Auth Handlers', () => {
       expect(instructorResult.role).toBe('instructor');
     });
 
+    it('should not accept administrator as a self-registration role', () => {
+      expect(registerInputSchema.safeParse({ ...testRegisterInput, role: 'administrator' }).success).toBe(false);
+    });
+
     it('should reject duplicate email registration', async () => {
       await register(testRegisterInput);
 
@@ -115,7 +148,7 @@ describe('Auth Handlers', () => {
     });
 
     it('should login successfully with valid credentials', async () => {
-      const result = await login(testLoginInput);
+      const result = await signIn(testLoginInput);
 
       expect(result.user.email).toBe('test@example.com');
       expect(result.user.first_name).toBe('John');
@@ -148,6 +181,42 @@ describe('Auth Handlers', () => {
       await expect(login(invalidPasswordInput)).rejects.toThrow(/invalid credentials/i);
     });
 
+    it('should upgrade a legacy password hash on successful login', async () => {
+      const salt = crypto.randomBytes(16).toString('hex');
+      const legacyHash = `${salt}:${crypto.pbkdf2Sync('password123', salt, 10000, 64, 'sha512').toString('hex')}`;
+      await db.update(usersTable)
+        .set({ password_hash: legacyHash })
+        .where(eq(usersTable.email, 'test@example.com'))
+        .execute();
+
+      const result = await signIn(testLoginInput);
+      expect(result.user.email).toBe('test@example.com');
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.email, 'test@example.com'))
+        .execute();
+      expect(users[0].password_hash).toStartWith('$scrypt$');
+      expect(await verifyPassword('password123', users[0].password_hash)).toBe(true);
+    });
+
+    it('should not rehash a legacy password on failed login', async () => {
+      const salt = crypto.randomBytes(16).toString('hex');
+      const legacyHash = `${salt}:${crypto.pbkdf2Sync('password123', salt, 10000, 64, 'sha512').toString('hex')}`;
+      await db.update(usersTable)
+        .set({ password_hash: legacyHash })
+        .where(eq(usersTable.email, 'test@example.com'))
+        .execute();
+
+      await expect(login({ ...testLoginInput, password: 'wrongpassword1' })).rejects.toThrow(/invalid credentials/i);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.email, 'test@example.com'))
+        .execute();
+      expect(users[0].password_hash).toBe(legacyHash);
+    });
+
     it('should reject login for inactive user', async () => {
       // Deactivate the user
       await db.update(usersTable)
@@ -166,32 +235,309 @@ describe('Auth Handlers', () => {
         password: 'instructor123'
       };
 
-      const result = await login(instructorLoginInput);
+      const result = await signIn(instructorLoginInput);
       expect(result.user.role).toBe('instructor');
       expect(result.token).toBeDefined();
     });
   });
 
   describe('logout', () => {
+    beforeEach(async () => {
+      await register(testRegisterInput);
+    });
+
     it('should logout successfully', async () => {
-      const result = await logout(1);
+      const { user, token } = await signIn(testLoginInput);
+      const session = await authenticateToken(token);
+
+      const result = await logout(user.id, session!.sessionId);
+      expect(result.success).toBe(true);
+    });
+
+    it('should revoke the current session only', async () => {
+      const first = await signIn(testLoginInput);
+      const second = await signIn(testLoginInput);
+      const firstSession = await authenticateToken(first.token);
+
+      await logout(first.user.id, firstSession!.sessionId);
+
+      expect(await authenticateToken(first.token)).toBeNull();
+      expect(await authenticateToken(second.token)).not.toBeNull();
+      await expect(refreshSession(first.refreshToken)).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should not revoke sessions belonging to other users', async () => {
+      const { token } = await signIn(testLoginInput);
+      const session = await authenticateToken(token);
+
+      const result = await logout(999, session!.sessionId);
+
       expect(result.success).toBe(true);
+      expect(await authenticateToken(token)).not.toBeNull();
+    });
+  });
+
+  describe('refreshSession', () => {
+    beforeEach(async () => {
+      await register(testRegisterInput);
+    });
+
+    it('should issue a new token pair for a valid refresh token', async () => {
+      const { user, refreshToken } = await signIn(testLoginInput);
+
+      const result = await refreshSession(refreshToken);
+
+      expect(result.refreshToken).not.toBe(refreshToken);
+      const session = await authenticateToken(result.token);
+      expect(session!.user.id).toBe(user.id);
     });
 
-    it('should logout with different user IDs', async () => {
-      const result1 = await logout(1);
-      const result2 = await logout(999);
+    it('should rotate refresh tokens so they cannot be reused', async () => {
+      const { refreshToken } = await signIn(testLoginInput);
+
+      await refreshSession(refreshToken);
+
+      await expect(refreshSession(refreshToken)).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should revoke the session when one refresh token is used twice at once', async () => {
+      const { refreshToken } = await signIn(testLoginInput);
+
+      // Hold the session row so both refreshes have looked the token up before either rotates it
+      let release!: () => void;
+      let locked!: () => void;
+      const rowLocked = new Promise<void>(resolve => { locked = resolve; });
+      const lock = db.transaction(async (tx) => {
+        await tx.select().from(sessionsTable).for('update').execute();
+        locked();
+        await new Promise<void>(resolve => { release = resolve; });
+      });
+      await rowLocked;
+
+      const refreshes = Promise.allSettled([refreshSession(refreshToken), refreshSession(refreshToken)]);
+      await new Promise(resolve => setTimeout(resolve, 200));
+      release();
+      await lock;
+      const results = await refreshes;
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      const winner = results.find(result => result.status === 'fulfilled') as PromiseFulfilledResult<Awaited<ReturnType<typeof refreshSession>>>;
+      await expect(refreshSession(winner.value.refreshToken)).rejects.toThrow(/invalid or expired/i);
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions[0].revoked_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject expired sessions', async () => {
+      const { refreshToken } = await signIn(testLoginInput);
+
+      await db.update(sessionsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      await expect(refreshSession(refreshToken)).rejects.toThrow(/invalid or expired/i);
+    });
 
-      expect(result1.success).toBe(true);
-      expect(result2.success).toBe(true);
+    it('should reject unknown refresh tokens', async () => {
+      await expect(refreshSession('unknown-token')).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should reject refresh for deactivated users', async () => {
+      const { refreshToken } = await signIn(testLoginInput);
+
+      await db.update(usersTable)
+        .set({ is_active: false })
+        .where(eq(usersTable.email, testRegisterInput.email))
+        .execute();
+
+      await expect(refreshSession(refreshToken)).rejects.toThrow(/deactivated/i);
+    });
+  });
+
+  describe('revokeUserSessions', () => {
+    it('should revoke every active session for the user', async () => {
+      await register(testRegisterInput);
+      const first = await signIn(testLoginInput);
+      const second = await signIn(testLoginInput);
+
+      const result = await revokeUserSessions(first.user.id);
+
+      expect(result.revoked).toBe(2);
+      expect(await authenticateToken(first.token)).toBeNull();
+      expect(await authenticateToken(second.token)).toBeNull();
+      await expect(refreshSession(second.refreshToken)).rejects.toThrow(/invalid or expired/i);
+    });
+  });
+
+  describe('authenticateToken', () => {
+    beforeEach(async () => {
+      await register(testRegisterInput);
+    });
+
+    it('should resolve the user from a login token', async () => {
+      const { user, token } = await signIn(testLoginInput);
+
+      const result = await authenticateToken(token);
+
+      expect(result).not.toBeNull();
+      expect(result!.user.id).toBe(user.id);
+      expect(result!.user.role).toBe('student');
+      expect(result!.sessionId).toBeDefined();
+    });
+
+    it('should reject a token with a tampered payload', async () => {
+      const { token } = await signIn(testLoginInput);
+      const [header, , signature] = token.split('.');
+      const forgedPayload = Buffer.from(JSON.stringify({
+        userId: 1,
+        email: 'test@example.com',
+        role: 'administrator',
+        iat: Math.floor(Date.now() / 1000),
+        exp: Math.floor(Date.now() / 1000) + 3600
+      })).toString('base64url');
+
+      const result = await authenticateToken(`${header}.${forgedPayload}.${signature}`);
+      expect(result).toBeNull();
+    });
+
+    it('should reject malformed tokens', async () => {
+      expect(verifyJWT('not-a-token')).toBeNull();
+      expect(await authenticateToken('a.b.c')).toBeNull();
+    });
+
+    it('should reject tokens without a session', async () => {
+      const { user } = await signIn(testLoginInput);
+      const token = createJWT({ userId: user.id, email: user.email, role: user.role });
+
+      const result = await authenticateToken(token);
+      expect(result).toBeNull();
+    });
+
+    it('should reject tokens for users that no longer exist', async () => {
+      const token = createJWT({ userId: 999, sessionId: 999, email: 'ghost@example.com', role: 'student' });
+
+      const result = await authenticateToken(token);
+      expect(result).toBeNull();
+    });
+
+    it('should reject tokens for deactivated users', async () => {
+      const { token } = await signIn(testLoginInput);
+
+      await db.update(usersTable)
+        .set({ is_active: false })
+        .where(eq(usersTable.email, testRegisterInput.email))
+        .execute();
+
+      const result = await authenticateToken(token);
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should send a verification email on registration', async () => {
+      await register(testRegisterInput);
+
+      expect(mailbox.sent).toHaveLength(1);
+      expect(mailbox.sent[0].to).toBe('test@example.com');
+      expect(mailbox.sent[0].text).toContain('verifyToken=');
+
+      const tokens = await db.select().from(emailVerificationTokensTable).execute();
+      expect(tokens).toHaveLength(1);
+      // Only the hash is stored
+      expect(tokens[0].token_hash).not.toBe(extractToken(mailbox.sent[0].text, 'verifyToken'));
+    });
+
+    it('should mark the email as verified with a valid token', async () => {
+      const user = await register(testRegisterInput);
+      const token = extractToken(mailbox.sent[0].text, 'verifyToken');
+
+      const result = await verifyEmail(token);
+      expect(result.success).toBe(true);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, user.id))
+        .execute();
+      expect(users[0].email_verified).toBe(true);
+    });
+
+    it('should reject a token that was already used', async () => {
+      await register(testRegisterInput);
+      const token = extractToken(mailbox.sent[0].text, 'verifyToken');
+
+      await verifyEmail(token);
+
+      await expect(verifyEmail(token)).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should reject expired tokens', async () => {
+      await register(testRegisterInput);
+      const token = extractToken(mailbox.sent[0].text, 'verifyToken');
+
+      await db.update(emailVerificationTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      await expect(verifyEmail(token)).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should reject unknown tokens', async () => {
+      await expect(verifyEmail('unknown-token')).rejects.toThrow(/invalid or expired/i);
+    });
+  });
+
+  describe('resendVerificationEmail', () => {
+    beforeEach(async () => {
+      await register(testRegisterInput);
+    });
+
+    it('should send a new verification email after the cooldown', async () => {
+      // Age the registration token past the cooldown
+      await db.update(emailVerificationTokensTable)
+        .set({ created_at: new Date(Date.now() - 2 * 60 * 1000) })
+        .execute();
+
+      const result = await resendVerificationEmail('test@example.com');
+
+      expect(result.success).toBe(true);
+      expect(mailbox.sent).toHaveLength(2);
+    });
+
+    it('should rate limit repeated requests', async () => {
+      await expect(resendVerificationEmail('test@example.com')).rejects.toThrow(/too many/i);
+      expect(mailbox.sent).toHaveLength(1);
+    });
+
+    it('should cap the number of emails per hour', async () => {
+      const user = (await db.select().from(usersTable).execute())[0];
+      const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
+      await db.insert(emailVerificationTokensTable).values(
+        [1, 2, 3, 4].map(i => ({
+          user_id: user.id,
+          token_hash: `old-hash-${i}`,
+          expires_at: new Date(Date.now() + 60000),
+          created_at: tenMinutesAgo
+        }))
+      ).execute();
+      await db.update(emailVerificationTokensTable)
+        .set({ created_at: tenMinutesAgo })
+        .execute();
+
+      await expect(resendVerificationEmail('test@example.com')).rejects.toThrow(/too many/i);
+    });
+
+    it('should not send anything for unknown or verified emails', async () => {
+      await verifyEmail(extractToken(mailbox.sent[0].text, 'verifyToken'));
+
+      await resendVerificationEmail('test@example.com');
+      await resendVerificationEmail('nonexistent@example.com');
+
+      expect(mailbox.sent).toHaveLength(1);
     });
   });
 
   describe('forgotPassword', () => {
     beforeEach(async () => {
       await register(testRegisterInput);
-      // Clear any existing tokens
-      resetTokenStore.clear();
     });
 
     it('should handle forgot password for existing user', async () => {
@@ -199,7 +545,17 @@ describe('Auth Handlers', () => {
       expect(result.success).toBe(true);
       
       // Verify token was created
-      expect(resetTokenStore.size).toBe(1);
+      const tokens = await db.select().from(passwordResetTokensTable).execute();
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].used_at).toBeNull();
+      expect(tokens[0].expires_at.getTime()).toBeGreaterThan(Date.now());
+
+      // Verify the reset link was mailed and only its hash was stored
+      const resetMail = mailbox.sent[mailbox.sent.length - 1];
+      expect(resetMail.to).toBe('test@example.com');
+      const token = extractToken(resetMail.text, 'resetToken');
+      expect(tokens[0].token_hash).not.toBe(token);
+      expect(tokens[0].token_hash).toBe(crypto.createHash('sha256').update(token).digest('hex'));
     });
 
     it('should handle forgot password for non-existent user', async () => {
@@ -207,7 +563,8 @@ describe('Auth Handlers', () => {
       expect(result.success).toBe(true); // Should not reveal if email exists
       
       // Verify no token was created
-      expect(resetTokenStore.size).toBe(0);
+      const tokens = await db.select().from(passwordResetTokensTable).execute();
+      expect(tokens).toHaveLength(0);
     });
 
     it('should handle forgot password for inactive user', async () => {
@@ -221,7 +578,8 @@ describe('Auth Handlers', () => {
       expect(result.success).toBe(true); // Should not reveal if user is inactive
       
       // Verify no token was created
-      expect(resetTokenStore.size).toBe(0);
+      const tokens = await db.select().from(passwordResetTokensTable).execute();
+      expect(tokens).toHaveLength(0);
     });
   });
 
@@ -230,16 +588,10 @@ describe('Auth Handlers', () => {
 
     beforeEach(async () => {
       await register(testRegisterInput);
-      resetTokenStore.clear();
       await forgotPassword('test@example.com');
       
-      // Get the token from the store
-      for (const [token, data] of resetTokenStore.entries()) {
-        if (data.email === 'test@example.com') {
-          resetToken = token;
-          break;
-        }
-      }
+      // Get the token from the reset email
+      resetToken = extractToken(mailbox.sent[mailbox.sent.length - 1].text, 'resetToken');
     });
 
     it('should reset password with valid token', async () => {
@@ -249,7 +601,7 @@ describe('Auth Handlers', () => {
       expect(result.success).toBe(true);
 
       // Verify user can login with new password
-      const loginResult = await login({
+      const loginResult = await signIn({
         email: 'test@example.com',
         password: newPassword
       });
@@ -264,10 +616,34 @@ describe('Auth Handlers', () => {
 
     it('should reject reset with expired token', async () => {
       // Manually expire the token by setting past date
-      const expiredDate = new Date(Date.now() - 60 * 60 * 1000); // 1 hour ago
-      resetTokenStore.set(resetToken, { email: 'test@example.com', expires: expiredDate });
+      await db.update(passwordResetTokensTable)
+        .set({ expires_at: new Date(Date.now() - 60 * 60 * 1000) })
+        .execute();
 
       await expect(resetPassword(resetToken, 'newpassword123')).rejects.toThrow(/invalid or expired/i);
+
+      // Password must be unchanged
+      const loginResult = await signIn(testLoginInput);
+      expect(loginResult.user.email).toBe('test@example.com');
+    });
+
+    it('should reject a token that was already used', async () => {
+      await resetPassword(resetToken, 'newpassword123');
+
+      await expect(resetPassword(resetToken, 'anotherpassword123')).rejects.toThrow(/invalid or expired/i);
+
+      // The first reset still stands
+      const loginResult = await signIn({ email: 'test@example.com', password: 'newpassword123' });
+      expect(loginResult.user.email).toBe('test@example.com');
+    });
+
+    it('should invalidate other outstanding reset tokens', async () => {
+      await forgotPassword('test@example.com');
+      const secondToken = extractToken(mailbox.sent[mailbox.sent.length - 1].text, 'resetToken');
+
+      await resetPassword(secondToken, 'newpassword123');
+
+      await expect(resetPassword(resetToken, 'anotherpassword123')).rejects.toThrow(/invalid or expired/i);
     });
 
     it('should update password hash in database', async () => {
@@ -283,37 +659,40 @@ describe('Auth Handlers', () => {
       const user = users[0];
 
       // Verify new password hash is different and valid
-      const isValidHash = verifyPassword(newPassword, user.password_hash);
+      const isValidHash = await verifyPassword(newPassword, user.password_hash);
       expect(isValidHash).toBe(true);
 
       // Verify old password no longer works
-      const isOldPasswordValid = verifyPassword('password123', user.password_hash);
+      const isOldPasswordValid = await verifyPassword('password123', user.password_hash);
       expect(isOldPasswordValid).toBe(false);
     });
 
-    it('should remove token after successful reset', async () => {
-      const tokenSizeBefore = resetTokenStore.size;
-      expect(tokenSizeBefore).toBe(1);
+    it('should mark token as used after successful reset', async () => {
+      await resetPassword(resetToken, 'newpassword123');
+
+      const tokens = await db.select().from(passwordResetTokensTable).execute();
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].used_at).toBeInstanceOf(Date);
+    });
+
+    it('should revoke all sessions after a reset', async () => {
+      const { token, refreshToken } = await signIn(testLoginInput);
 
       await resetPassword(resetToken, 'newpassword123');
 
-      // Verify token was removed
-      expect(resetTokenStore.has(resetToken)).toBe(false);
+      expect(await authenticateToken(token)).toBeNull();
+      await expect(refreshSession(refreshToken)).rejects.toThrow(/invalid or expired/i);
     });
   });
 
   describe('Integration workflow', () => {
-    beforeEach(() => {
-      resetTokenStore.clear();
-    });
-
     it('should complete full auth workflow', async () => {
       // 1. Register user
       const registerResult = await register(testRegisterInput);
       expect(registerResult.email).toBe('test@example.com');
 
       // 2. Login user
-      const loginResult = await login(testLoginInput);
+      const loginResult = await signIn(testLoginInput);
       expect(loginResult.user.email).toBe('test@example.com');
       expect(loginResult.token).toBeDefined();
 
@@ -322,26 +701,21 @@ describe('Auth Handlers', () => {
       expect(forgotResult.success).toBe(true);
 
       // 4. Reset password
-      let resetToken = '';
-      for (const [token, data] of resetTokenStore.entries()) {
-        if (data.email === 'test@example.com') {
-          resetToken = token;
-          break;
-        }
-      }
+      const resetToken = extractToken(mailbox.sent[mailbox.sent.length - 1].text, 'resetToken');
 
       const resetResult = await resetPassword(resetToken, 'newpassword123');
       expect(resetResult.success).toBe(true);
 
       // 5. Login with new password
-      const newLoginResult = await login({
+      const newLoginResult = await signIn({
         email: 'test@example.com',
         password: 'newpassword123'
       });
       expect(newLoginResult.user.email).toBe('test@example.com');
 
       // 6. Logout
-      const logoutResult = await logout(newLoginResult.user.id);
+      const session = await authenticateToken(newLoginResult.token);
+      const logoutResult = await logout(newLoginResult.user.id, session!.sessionId);
       expect(logoutResult.success).toBe(true);
     });
 
@@ -351,8 +725,8 @@ describe('Auth Handlers', () => {
       const user2 = await register(testInstructorInput);
 
       // Both should be able to login independently
-      const login1 = await login(testLoginInput);
-      const login2 = await login({
+      const login1 = await signIn(testLoginInput);
+      const login2 = await signIn({
         email: 'instructor@example.com',
         password: 'instructor123'
       });
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createCourse } from '../helpers/fixtures';
+import { db } from '../db';
+import { usersTable, coursesTable } from '../db/schema';
+import {
+  getCategories,
+  getCategoryLanding,
+  createCategory,
+  updateCategory,
+  deleteCategory
+} from '../handlers/categories';
+import { eq } from 'drizzle-orm';
+
+let adminId: number;
+let instructorId: number;
+
+describe('Category Handlers', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    const admin = await db.insert(usersTable)
+      .values({
+        email: 'admin@test.com',
+        password_hash: 'hashedpassword',
+        first_name: 'Admin',
+        last_name: 'User',
+        role: 'administrator'
+      })
+      .returning()
+      .execute();
+    adminId = admin[0].id;
+
+    const instructor = await db.insert(usersTable)
+      .values({
+        email: 'instructor@test.com',
+        password_hash: 'hashedpassword',
+        first_name: 'John',
+        last_name: 'Instructor',
+        role: 'instructor'
+      })
+      .returning()
+      .execute();
+    instructorId = instructor[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('createCategory', () => {
+    it('should create a category with a slug derived from the name', async () => {
+      const category = await createCategory({ name: 'Web Development & Design', description: 'Build for the web' }, adminId);
+
+      expect(category.slug).toEqual('web-development-design');
+      expect(category.description).toEqual('Build for the web');
+      expect(category.parent_id).toBeNull();
+    });
+
+    it('should nest a category under a parent', async () => {
+      const parent = await createCategory({ name: 'Programming' }, adminId);
+      const child = await createCategory({ name: 'Python', parent_id: parent.id }, adminId);
+
+      expect(child.parent_id).toEqual(parent.id);
+    });
+
+    it('should reject duplicate names and missing parents', async () => {
+      await createCategory({ name: 'Design' }, adminId);
+
+      await expect(createCategory({ name: 'design' }, adminId)).rejects.toThrow(/already exists/i);
+      await expect(createCategory({ name: 'Orphan', parent_id: 99999 }, adminId)).rejects.toThrow(/parent category not found/i);
+    });
+
+    it('should require categories.manage', async () => {
+      await expect(createCategory({ name: 'Design' }, instructorId)).rejects.toThrow(/unauthorized/i);
+    });
+  });
+
+  describe('updateCategory', () => {
+    it('should rename and move a category', async () => {
+      const programming = await createCategory({ name: 'Programming' }, adminId);
+      const python = await createCategory({ name: 'Pyhton' }, adminId);
+
+      const updated = await updateCategory(python.id, { name: 'Python', parent_id: programming.id }, adminId);
+
+      expect(updated.name).toEqual('Python');
+      expect(updated.slug).toEqual('python');
+      expect(updated.parent_id).toEqual(programming.id);
+    });
+
+    it('should refuse to move a category under its own subcategory', async () => {
+      const root = await createCategory({ name: 'Programming' }, adminId);
+      const child = await createCategory({ name: 'Python', parent_id: root.id }, adminId);
+      const grandchild = await createCategory({ name: 'Django', parent_id: child.id }, adminId);
+
+      await expect(updateCategory(root.id, { parent_id: grandchild.id }, adminId)).rejects.toThrow(/under itself/i);
+      await expect(updateCategory(root.id, { parent_id: root.id }, adminId)).rejects.toThrow(/under itself/i);
+    });
+  });
+
+  describe('deleteCategory', () => {
+    it('should delete the category and uncategorize its courses', async () => {
+      const category = await createCategory({ name: 'Design' }, adminId);
+      const courseId = await createCourse(instructorId, { category_id: category.id, is_published: true });
+
+      const result = await deleteCategory(category.id, adminId);
+
+      expect(result.success).toBe(true);
+      const courses = await db.select().from(coursesTable).where(eq(coursesTable.id, courseId)).execute();
+      expect(courses[0].category_id).toBeNull();
+    });
+
+    it('should refuse to delete a category with subcategories', async () => {
+      const parent = await createCategory({ name: 'Programming' }, adminId);
+      await createCategory({ name: 'Python', parent_id: parent.id }, adminId);
+
+      await expect(deleteCategory(parent.id, adminId)).rejects.toThrow(/subcategories/i);
+    });
+  });
+
+  describe('getCategories', () => {
+    it('should count published courses including subcategories', async () => {
+      const programming = await createCategory({ name: 'Programming' }, adminId);
+      const python = await createCategory({ name: 'Python', parent_id: programming.id }, adminId);
+      const design = await createCategory({ name: 'Design' }, adminId);
+
+      await createCourse(instructorId, { category_id: programming.id, is_published: true });
+      await createCourse(instructorId, { category_id: python.id, is_published: true });
+      await createCourse(instructorId, { category_id: python.id, is_published: true });
+      await createCourse(instructorId, { category_id: python.id });
+      await createCourse(instructorId, { category_id: null, is_published: true });
+
+      const categories = await getCategories();
+      const countFor = (id: number) => categories.find(c => c.id === id)!.course_count;
+
+      expect(countFor(programming.id)).toEqual(3);
+      expect(countFor(python.id)).toEqual(2);
+      expect(countFor(design.id)).toEqual(0);
+    });
+  });
+
+  describe('getCategoryLanding', () => {
+    it('should return the category with breadcrumbs and subcategories', async () => {
+      const programming = await createCategory({ name: 'Programming' }, adminId);
+      const python = await createCategory({ name: 'Python', parent_id: programming.id }, adminId);
+      const django = await createCategory({ name: 'Django', parent_id: python.id }, adminId);
+      await createCategory({ name: 'Flask', parent_id: python.id }, adminId);
+      await createCourse(instructorId, { category_id: django.id, is_published: true });
+
+      const landing = await getCategoryLanding('python');
+
+      expect(landing.category.id).toEqual(python.id);
+      expect(landing.category.course_count).toEqual(1);
+      expect(landing.ancestors.map(c => c.name)).toEqual(['Programming']);
+      expect(landing.subcategories.map(c => c.name)).toEqual(['Django', 'Flask']);
+      expect(landing.subcategories[0].course_count).toEqual(1);
+    });
+
+    it('should throw for an unknown slug', async () => {
+      await expect(getCategoryLanding('nowhere')).rejects.toThrow(/category not found/i);
+    });
+  });
+});
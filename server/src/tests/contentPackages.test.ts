@@ -0,0 +1,301 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createUser } from '../helpers/fixtures';
+import { db } from '../db';
+import { coursesTable, lessonsTable, quizzesTable, quizQuestionsTable } from '../db/schema';
+import { importContentPackage } from '../handlers/contentPackages';
+import { getCourseDraft } from '../handlers/revisions';
+import { createZip } from '../zip';
+import { asc, eq } from 'drizzle-orm';
+
+let instructorId: number;
+let otherInstructorId: number;
+let courseId: number;
+
+function zip(files: Record<string, string>): string {
+  return createZip(Object.entries(files).map(([name, data]) => ({ name, data: Buffer.from(data, 'utf8') }))).toString('base64');
+}
+
+const scormPackage = () => zip({
+  'imsmanifest.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="course" xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2" xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>
+  <organizations default="main">
+    <organization identifier="main">
+      <title>Chemistry</title>
+      <item identifier="module1">
+        <title>Module 1</title>
+        <item identifier="i1" identifierref="r1"><title>Atoms</title></item>
+        <item identifier="i2" identifierref="r2"><title>Periodic table</title></item>
+      </item>
+      <item identifier="i3" identifierref="r3"><title>Bonds &amp; molecules</title></item>
+      <item identifier="i4" identifierref="r1" isvisible="false"><title>Hidden</title></item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="r1" type="webcontent" adlcp:scormtype="sco" xml:base="content/" href="atoms.html">
+      <file href="atoms.html"/>
+    </resource>
+    <resource identifier="r2" type="webcontent" adlcp:scormtype="asset" href="content/table.pdf"/>
+    <resource identifier="r3" type="webcontent" adlcp:scormtype="sco" href="content/bonds%20and%20molecules.html"/>
+  </resources>
+</manifest>`,
+  'content/atoms.html': '<html><head><title>x</title><script>track()</script></head><body><h1>Atoms</h1><p>Everything is made of atoms.</p></body></html>',
+  'content/table.pdf': '%PDF-1.4',
+  'content/bonds and molecules.html': '<p>Atoms share electrons&nbsp;in covalent bonds.</p><ul><li>Ionic</li><li>Covalent</li></ul>'
+});
+
+const assessment = `<?xml version="1.0" encoding="UTF-8"?>
+<questestinterop xmlns="http://www.imsglobal.org/xsd/ims_qtiasiv1p2">
+  <assessment ident="a1" title="Chapter check">
+    <qtimetadata>
+      <qtimetadatafield><fieldlabel>qmd_timelimit</fieldlabel><fieldentry>15</fieldentry></qtimetadatafield>
+      <qtimetadatafield><fieldlabel>cc_maxattempts</fieldlabel><fieldentry>2</fieldentry></qtimetadatafield>
+    </qtimetadata>
+    <section ident="s1">
+      <item ident="q1" title="Capital">
+        <itemmetadata><qtimetadata>
+          <qtimetadatafield><fieldlabel>cc_profile</fieldlabel><fieldentry>cc.multiple_choice.v0p1</fieldentry></qtimetadatafield>
+        </qtimetadata></itemmetadata>
+        <presentation>
+          <material><mattext texttype="text/html">&lt;p&gt;Capital of France?&lt;/p&gt;</mattext></material>
+          <response_lid ident="response1" rcardinality="Single">
+            <render_choice>
+              <response_label ident="A"><material><mattext>Berlin</mattext></material></response_label>
+              <response_label ident="B"><material><mattext>Paris</mattext></material></response_label>
+            </render_choice>
+          </response_lid>
+        </presentation>
+        <resprocessing>
+          <respcondition continue="No">
+            <conditionvar><varequal respident="response1">B</varequal></conditionvar>
+            <setvar action="Set" varname="SCORE">100</setvar>
+          </respcondition>
+        </resprocessing>
+      </item>
+      <item ident="q2" title="Sky">
+        <itemmetadata><qtimetadata>
+          <qtimetadatafield><fieldlabel>cc_profile</fieldlabel><fieldentry>cc.true_false.v0p1</fieldentry></qtimetadatafield>
+        </qtimetadata></itemmetadata>
+        <presentation>
+          <material><mattext>The sky is green.</mattext></material>
+          <response_lid ident="response1" rcardinality="Single">
+            <render_choice>
+              <response_label ident="T"><material><mattext>True</mattext></material></response_label>
+              <response_label ident="F"><material><mattext>False</mattext></material></response_label>
+            </render_choice>
+          </response_lid>
+        </presentation>
+        <resprocessing>
+          <respcondition><conditionvar><varequal respident="response1">F</varequal></conditionvar><setvar>100</setvar></respcondition>
+        </resprocessing>
+      </item>
+      <item ident="q3" title="Blank">
+        <itemmetadata><qtimetadata>
+          <qtimetadatafield><fieldlabel>cc_profile</fieldlabel><fieldentry>cc.fib.v0p1</fieldentry></qtimetadatafield>
+        </qtimetadata></itemmetadata>
+        <presentation>
+          <material><mattext>Water is H2_.</mattext></material>
+          <response_str ident="response1"><render_fib/></response_str>
+        </presentation>
+        <resprocessing>
+          <respcondition><conditionvar><varequal respident="response1">O</varequal></conditionvar><setvar>100</setvar></respcondition>
+        </resprocessing>
+      </item>
+      <item ident="q4" title="Essay">
+        <itemmetadata><qtimetadata>
+          <qtimetadatafield><fieldlabel>cc_profile</fieldlabel><fieldentry>cc.essay.v0p1</fieldentry></qtimetadatafield>
+        </qtimetadata></itemmetadata>
+        <presentation>
+          <material><mattext>Discuss the revolution.</mattext></material>
+          <response_str ident="response1"><render_fib/></response_str>
+        </presentation>
+      </item>
+    </section>
+  </assessment>
+</questestinterop>`;
+
+const cartridgePackage = () => zip({
+  'imsmanifest.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="cc" xmlns="http://www.imsglobal.org/xsd/imsccv1p1/imscp_v1p1">
+  <metadata>
+    <schema>IMS Common Cartridge</schema>
+    <schemaversion>1.1.0</schemaversion>
+  </metadata>
+  <organizations>
+    <organization identifier="org" structure="rooted-hierarchy">
+      <item identifier="root">
+        <item identifier="i1" identifierref="page"><title>Introduction</title></item>
+        <item identifier="i2" identifierref="link"><title>Welcome video</title></item>
+        <item identifier="i3" identifierref="topic"><title>Say hello</title></item>
+        <item identifier="i4" identifierref="quiz"><title>Chapter check</title></item>
+        <item identifier="i5" identifierref="tool"><title>External tool</title></item>
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="page" type="webcontent" href="web_resources/intro.html"><file href="web_resources/intro.html"/></resource>
+    <resource identifier="link" type="imswl_xmlv1p1"><file href="link.xml"/></resource>
+    <resource identifier="topic" type="imsdt_xmlv1p1"><file href="topic.xml"/></resource>
+    <resource identifier="quiz" type="imsqti_xmlv1p2/imscc_xmlv1p1/assessment"><file href="quiz/assessment.xml"/></resource>
+    <resource identifier="tool" type="imsbasiclti_xmlv1p0"><file href="tool.xml"/></resource>
+  </resources>
+</manifest>`,
+  'web_resources/intro.html': '<p>Welcome to the course.</p>',
+  'link.xml': '<webLink xmlns="http://www.imsglobal.org/xsd/imsccv1p1/imswl_v1p1"><title>Video</title><url href="https://www.youtube.com/watch?v=abc"/></webLink>',
+  'topic.xml': '<topic xmlns="http://www.imsglobal.org/xsd/imsccv1p1/imsdt_v1p1"><title>Say hello</title><text texttype="text/html">&lt;p&gt;Introduce yourself.&lt;/p&gt;</text></topic>',
+  'quiz/assessment.xml': assessment,
+  'tool.xml': '<cartridge_basiclti_link/>'
+});
+
+describe('Content packages', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    instructorId = await createUser('instructor@test.com', 'instructor');
+    otherInstructorId = await createUser('other@test.com', 'instructor');
+
+    const course = await db.insert(coursesTable)
+      .values({
+        title: 'Science',
+        description: 'Chemistry basics',
+        price: '0',
+        duration_hours: '4',
+        instructor_id: instructorId,
+        level: 'beginner'
+      })
+      .returning()
+      .execute();
+    courseId = course[0].id;
+
+    await db.insert(lessonsTable)
+      .values({ course_id: courseId, title: 'Existing', order_index: 3, duration_minutes: 10 })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should create lessons from a SCORM 1.2 package in manifest order after existing lessons', async () => {
+    const result = await importContentPackage({ courseId, data: scormPackage(), dry_run: false }, instructorId);
+
+    expect(result.format).toEqual('scorm_1_2');
+    expect(result.lessons).toEqual([
+      { title: 'Atoms', order_index: 4, question_count: 0 },
+      { title: 'Bonds & molecules', order_index: 5, question_count: 0 }
+    ]);
+    expect(result.unsupported).toEqual([
+      { title: 'Periodic table', reason: expect.stringContaining('content/table.pdf') }
+    ]);
+
+    const lessons = await db.select()
+      .from(lessonsTable)
+      .where(eq(lessonsTable.course_id, courseId))
+      .orderBy(asc(lessonsTable.order_index))
+      .execute();
+    expect(lessons.map(lesson => lesson.title)).toEqual(['Existing', 'Atoms', 'Bonds & molecules']);
+    expect(lessons[1].content).toEqual('Atoms\n\nEverything is made of atoms.');
+    expect(lessons[2].content).toEqual('Atoms share electrons in covalent bonds.\n\n- Ionic\n- Covalent');
+    expect(lessons[1].is_published).toBe(false);
+  });
+
+  it('should convert Common Cartridge pages, links, discussions and assessments', async () => {
+    const result = await importContentPackage({ courseId, data: cartridgePackage(), dry_run: false }, instructorId);
+
+    expect(result.format).toEqual('common_cartridge');
+    expect(result.lessons.map(lesson => [lesson.title, lesson.question_count])).toEqual([
+      ['Introduction', 0],
+      ['Welcome video', 0],
+      ['Say hello', 0],
+      ['Chapter check', 3]
+    ]);
+    expect(result.unsupported).toEqual([
+      { title: 'Chapter check: Essay', reason: 'cc.essay.v0p1 questions are not supported' },
+      { title: 'External tool', reason: 'Resources of type imsbasiclti_xmlv1p0 are not supported' }
+    ]);
+
+    const lessons = await db.select()
+      .from(lessonsTable)
+      .where(eq(lessonsTable.course_id, courseId))
+      .orderBy(asc(lessonsTable.order_index))
+      .execute();
+    expect(lessons[2].video_url).toEqual('https://www.youtube.com/watch?v=abc');
+    expect(lessons[3].content).toEqual('Introduce yourself.');
+
+    const quizzes = await db.select().from(quizzesTable).where(eq(quizzesTable.lesson_id, lessons[4].id)).execute();
+    expect(quizzes[0].title).toEqual('Chapter check');
+    expect(quizzes[0].passing_score).toEqual(70);
+    expect(quizzes[0].time_limit_minutes).toEqual(15);
+    expect(quizzes[0].max_attempts).toEqual(2);
+
+    const questions = await db.select()
+      .from(quizQuestionsTable)
+      .where(eq(quizQuestionsTable.quiz_id, quizzes[0].id))
+      .orderBy(asc(quizQuestionsTable.order_index))
+      .execute();
+    expect(questions.map(question => [question.question_type, question.question_text, question.options, question.correct_answer])).toEqual([
+      ['multiple_choice', 'Capital of France?', ['Berlin', 'Paris'], 'Paris'],
+      ['true_false', 'The sky is green.', null, 'false'],
+      ['short_answer', 'Water is H2_.', null, 'O']
+    ]);
+  });
+
+  it('should only report on a dry run', async () => {
+    const result = await importContentPackage({ courseId, data: cartridgePackage(), dry_run: true }, instructorId);
+
+    expect(result.dry_run).toBe(true);
+    expect(result.lessons).toHaveLength(4);
+
+    const lessons = await db.select().from(lessonsTable).where(eq(lessonsTable.course_id, courseId)).execute();
+    expect(lessons).toHaveLength(1);
+  });
+
+  it('should only inflate the manifest and the files it references', async () => {
+    const archive = Buffer.from(zip({
+      'imsmanifest.xml': '<manifest><metadata><schema>ADL SCORM</schema><schemaversion>1.2</schemaversion></metadata><organizations><organization><item identifierref="r1"><title>Intro</title></item></organization></organizations><resources><resource identifier="r1" type="webcontent" href="intro.html"/></resources></manifest>',
+      'intro.html': '<p>Welcome.</p>',
+      'extras/unused.txt': 'never read'
+    }), 'base64');
+    // Break the unused entry's checksum in the central directory; reading it would fail
+    const header = archive.lastIndexOf(Buffer.from('extras/unused.txt')) - 46;
+    archive.writeUInt32LE((archive.readUInt32LE(header + 16) ^ 1) >>> 0, header + 16);
+
+    const result = await importContentPackage({ courseId, data: archive.toString('base64'), dry_run: true }, instructorId);
+
+    expect(result.lessons.map(lesson => lesson.title)).toEqual(['Intro']);
+  });
+
+  it('should add the lessons to the draft of a published course', async () => {
+    await db.update(coursesTable).set({ is_published: true }).where(eq(coursesTable.id, courseId)).execute();
+
+    await importContentPackage({ courseId, data: scormPackage(), dry_run: false }, instructorId);
+
+    const lessons = await db.select().from(lessonsTable).where(eq(lessonsTable.course_id, courseId)).execute();
+    expect(lessons).toHaveLength(1);
+
+    const draft = await getCourseDraft(courseId, instructorId);
+    expect(draft.revision).not.toBeNull();
+    expect(draft.snapshot.lessons.map(lesson => [lesson.title, lesson.id === null])).toEqual([
+      ['Existing', false],
+      ['Atoms', true],
+      ['Bonds & molecules', true]
+    ]);
+  });
+
+  it('should reject packages that cannot be imported', async () => {
+    await expect(importContentPackage({ courseId, data: scormPackage(), dry_run: false }, otherInstructorId))
+      .rejects.toThrow(/permission to import content/i);
+    await expect(importContentPackage({ courseId, data: Buffer.from('hello').toString('base64'), dry_run: false }, instructorId))
+      .rejects.toThrow(/not a valid ZIP/i);
+    await expect(importContentPackage({ courseId, data: zip({ 'index.html': '<p>hi</p>' }), dry_run: false }, instructorId))
+      .rejects.toThrow(/no imsmanifest\.xml/i);
+
+    const scorm2004 = zip({
+      'imsmanifest.xml': '<manifest><metadata><schema>ADL SCORM</schema><schemaversion>2004 4th Edition</schemaversion></metadata><organizations/><resources/></manifest>'
+    });
+    await expect(importContentPackage({ courseId, data: scorm2004, dry_run: false }, instructorId))
+      .rejects.toThrow(/SCORM 2004/);
+  });
+});
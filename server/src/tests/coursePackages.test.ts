@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createUser } from '../helpers/fixtures';
+import { db } from '../db';
+import { coursesTable, categoriesTable, lessonsTable, quizzesTable, quizQuestionsTable } from '../db/schema';
+import { exportCoursePackage, importCoursePackage } from '../handlers/coursePackages';
+import { createZip, openZip } from '../zip';
+import { eq } from 'drizzle-orm';
+
+let instructorId: number;
+let otherInstructorId: number;
+let categoryId: number;
+let courseId: number;
+let lessonId: number;
+let quizId: number;
+
+function decode(data: string) {
+  return JSON.parse(Buffer.from(data, 'base64').toString('utf8'));
+}
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value), 'utf8').toString('base64');
+}
+
+describe('Course packages', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    instructorId = await createUser('instructor@test.com', 'instructor');
+    otherInstructorId = await createUser('other@test.com', 'instructor');
+
+    const category = await db.insert(categoriesTable)
+      .values({ name: 'Mathematics', slug: 'mathematics' })
+      .returning()
+      .execute();
+    categoryId = category[0].id;
+
+    const course = await db.insert(coursesTable)
+      .values({
+        title: 'Geometry',
+        description: 'Shapes and proofs',
+        price: '25.00',
+        duration_hours: '6',
+        instructor_id: instructorId,
+        category_id: categoryId,
+        level: 'beginner',
+        tags: ['math']
+      })
+      .returning()
+      .execute();
+    courseId = course[0].id;
+
+    const lesson = await db.insert(lessonsTable)
+      .values({ course_id: courseId, title: 'Triangles', content: 'Angles add up to 180', order_index: 1, duration_minutes: 20 })
+      .returning()
+      .execute();
+    lessonId = lesson[0].id;
+
+    const quiz = await db.insert(quizzesTable)
+      .values({ lesson_id: lessonId, title: 'Triangle quiz', passing_score: 60 })
+      .returning()
+      .execute();
+    quizId = quiz[0].id;
+
+    await db.insert(quizQuestionsTable)
+      .values({
+        quiz_id: quizId,
+        question_text: 'Sum of the angles?',
+        question_type: 'multiple_choice',
+        options: ['90', '180', '360'],
+        correct_answer: '180',
+        points: 2,
+        order_index: 1
+      })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('exportCoursePackage', () => {
+    it('should export the course, lessons, quizzes and questions as versioned JSON', async () => {
+      const file = await exportCoursePackage(courseId, 'json', instructorId);
+
+      expect(file.file_name).toEqual('geometry.course.json');
+      expect(file.mime_type).toEqual('application/json');
+
+      const coursePackage = decode(file.data);
+      expect(coursePackage.format).toEqual('course-package');
+      expect(coursePackage.version).toEqual(1);
+      expect(coursePackage.course.title).toEqual('Geometry');
+      expect(coursePackage.course.category_slug).toEqual('mathematics');
+      expect(coursePackage.lessons[0].id).toEqual(lessonId);
+      expect(coursePackage.lessons[0].content).toEqual('Angles add up to 180');
+      expect(coursePackage.lessons[0].quizzes[0].id).toEqual(quizId);
+      expect(coursePackage.lessons[0].quizzes[0].questions[0].options).toEqual(['90', '180', '360']);
+    });
+
+    it('should export a zip holding the same package', async () => {
+      const file = await exportCoursePackage(courseId, 'zip', instructorId);
+
+      expect(file.file_name).toEqual('geometry.course.zip');
+      const archive = openZip(Buffer.from(file.data, 'base64'));
+      expect(archive.names).toEqual(['course.json']);
+      expect(JSON.parse(archive.read('course.json')!.toString('utf8')).course.title).toEqual('Geometry');
+    });
+
+    it('should reject instructors outside the course staff', async () => {
+      await expect(exportCoursePackage(courseId, 'json', otherInstructorId)).rejects.toThrow(/permission to export/i);
+    });
+  });
+
+  describe('importCoursePackage', () => {
+    it('should import a package with new ids and report the mapping', async () => {
+      const file = await exportCoursePackage(courseId, 'zip', instructorId);
+
+      const result = await importCoursePackage({ data: file.data, dry_run: false }, otherInstructorId);
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.course?.title).toEqual('Geometry');
+      expect(result.course?.instructor_id).toEqual(otherInstructorId);
+      expect(result.course?.category_id).toEqual(categoryId);
+      expect(result.course?.is_published).toBe(false);
+      expect(result.lessons).toHaveLength(1);
+      expect(result.lessons[0].source_id).toEqual(lessonId);
+      expect(result.lessons[0].id).not.toEqual(lessonId);
+
+      const questions = await db.select()
+        .from(quizQuestionsTable)
+        .where(eq(quizQuestionsTable.quiz_id, result.quizzes[0].id!))
+        .execute();
+      expect(questions.map(question => question.correct_answer)).toEqual(['180']);
+    });
+
+    it('should normalize the tags of the package', async () => {
+      const coursePackage = decode((await exportCoursePackage(courseId, 'json', instructorId)).data);
+      coursePackage.course.tags = ['Geometry', ' MATH ', 'math'];
+
+      const result = await importCoursePackage({ data: encode(coursePackage), dry_run: false }, otherInstructorId);
+
+      expect(result.course?.tags).toEqual(['geometry', 'math']);
+    });
+
+    it('should rename on a title conflict and drop unknown categories', async () => {
+      const coursePackage = decode((await exportCoursePackage(courseId, 'json', instructorId)).data);
+      coursePackage.course.category_slug = 'astronomy';
+
+      const result = await importCoursePackage({ data: encode(coursePackage), dry_run: false }, instructorId);
+
+      expect(result.course?.title).toEqual('Geometry (Imported)');
+      expect(result.course?.category_id).toBeNull();
+      expect(result.conflicts.map(conflict => conflict.type)).toEqual(['category_not_found', 'title_exists']);
+    });
+
+    it('should report conflicts without importing on a dry run', async () => {
+      const file = await exportCoursePackage(courseId, 'json', instructorId);
+
+      const result = await importCoursePackage({ data: file.data, dry_run: true }, instructorId);
+
+      expect(result.dry_run).toBe(true);
+      expect(result.course).toBeNull();
+      expect(result.title).toEqual('Geometry (Imported)');
+      expect(result.questions).toEqual([{ source_id: expect.any(Number), id: null }]);
+
+      const courses = await db.select().from(coursesTable).execute();
+      expect(courses).toHaveLength(1);
+    });
+
+    it('should reject invalid packages', async () => {
+      const coursePackage = decode((await exportCoursePackage(courseId, 'json', instructorId)).data);
+
+      await expect(importCoursePackage({ data: encode({ hello: 'world' }), dry_run: false }, instructorId))
+        .rejects.toThrow(/not a course package/i);
+      await expect(importCoursePackage({ data: encode({ ...coursePackage, version: 2 }), dry_run: false }, instructorId))
+        .rejects.toThrow(/version 2 is newer/i);
+      await expect(importCoursePackage({ data: Buffer.from('{oops').toString('base64'), dry_run: false }, instructorId))
+        .rejects.toThrow(/not valid JSON/i);
+
+      coursePackage.lessons[0].quizzes[0].passing_score = 150;
+      await expect(importCoursePackage({ data: encode(coursePackage), dry_run: false }, instructorId))
+        .rejects.toThrow(/Invalid course package: lessons\.0\.quizzes\.0\.passing_score/i);
+
+      const duplicate = decode((await exportCoursePackage(courseId, 'json', instructorId)).data);
+      duplicate.lessons.push(duplicate.lessons[0]);
+      await expect(importCoursePackage({ data: encode(duplicate), dry_run: false }, instructorId))
+        .rejects.toThrow(/lesson \d+ appears more than once/i);
+    });
+
+    it('should reject zip archives without a course.json', async () => {
+      const archive = createZip([{ name: 'readme.txt', data: Buffer.from('hello') }]);
+
+      await expect(importCoursePackage({ data: archive.toString('base64'), dry_run: false }, instructorId))
+        .rejects.toThrow(/has no course\.json/i);
+    });
+  });
+});
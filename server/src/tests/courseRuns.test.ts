@@ -0,0 +1,235 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createUser } from '../helpers/fixtures';
+import { db } from '../db';
+import { coursesTable, enrollmentsTable, notificationsTable } from '../db/schema';
+import {
+  getCourseRuns,
+  createCourseRun,
+  updateCourseRun,
+  deleteCourseRun,
+  getCourseRunRoster,
+  joinCourseRunWaitlist,
+  leaveCourseRunWaitlist
+} from '../handlers/courseRuns';
+import { enrollInCourse, unenrollFromCourse } from '../handlers/enrollments';
+import { eq } from 'drizzle-orm';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let instructorId: number;
+let otherInstructorId: number;
+let studentIds: number[];
+let courseId: number;
+
+async function createRun(capacity: number | null, name = 'Spring cohort') {
+  return createCourseRun({
+    courseId,
+    name,
+    starts_at: new Date(Date.now() + DAY),
+    ends_at: new Date(Date.now() + 30 * DAY),
+    capacity
+  }, instructorId);
+}
+
+describe('Course runs', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    instructorId = await createUser('instructor@test.com', 'instructor');
+    otherInstructorId = await createUser('other@test.com', 'instructor');
+    studentIds = [
+      await createUser('ann@test.com', 'student', { last_name: 'Ann' }),
+      await createUser('bob@test.com', 'student', { last_name: 'Bob' }),
+      await createUser('cat@test.com', 'student', { last_name: 'Cat' })
+    ];
+
+    const course = await db.insert(coursesTable)
+      .values({
+        title: 'Pottery',
+        description: 'Wheel throwing',
+        price: '0',
+        duration_hours: '8',
+        instructor_id: instructorId,
+        is_published: true
+      })
+      .returning()
+      .execute();
+    courseId = course[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('managing cohorts', () => {
+    it('should create and list cohorts in start order', async () => {
+      const later = await createCourseRun({
+        courseId,
+        name: 'Autumn cohort',
+        starts_at: new Date(Date.now() + 90 * DAY),
+        ends_at: null,
+        capacity: null
+      }, instructorId);
+      const sooner = await createRun(20);
+
+      const runs = await getCourseRuns(courseId, null);
+
+      expect(runs.map(run => run.id)).toEqual([sooner.id, later.id]);
+      expect(runs[0].capacity).toEqual(20);
+      expect(runs[0].enrolled_count).toEqual(0);
+      expect(runs[1].capacity).toBeNull();
+    });
+
+    it('should validate dates, capacity and permissions', async () => {
+      await expect(createCourseRun({ courseId, name: 'Backwards', starts_at: new Date(Date.now() + DAY), ends_at: new Date(), capacity: 5 }, instructorId))
+        .rejects.toThrow(/end after it starts/i);
+      await expect(createCourseRun({ courseId, name: 'Rogue', starts_at: new Date(), ends_at: null, capacity: 1 }, otherInstructorId))
+        .rejects.toThrow(/permission to manage cohorts/i);
+
+      const run = await createRun(2);
+      await enrollInCourse({ course_id: courseId, course_run_id: run.id }, studentIds[0]);
+      await enrollInCourse({ course_id: courseId, course_run_id: run.id }, studentIds[1]);
+      await expect(updateCourseRun({ courseRunId: run.id, capacity: 1 }, instructorId))
+        .rejects.toThrow(/2 students are already enrolled/i);
+      await expect(deleteCourseRun(run.id, instructorId))
+        .rejects.toThrow(/can't be deleted/i);
+    });
+
+    it('should delete an empty cohort', async () => {
+      const run = await createRun(5);
+
+      expect(await deleteCourseRun(run.id, instructorId)).toEqual({ success: true });
+      expect(await getCourseRuns(courseId, null)).toEqual([]);
+    });
+  });
+
+  describe('enrolling', () => {
+    it('should require a cohort once the course has cohorts', async () => {
+      await createRun(5);
+
+      await expect(enrollInCourse({ course_id: courseId }, studentIds[0]))
+        .rejects.toThrow(/choose a cohort/i);
+    });
+
+    it('should enroll into a cohort with free seats and refuse when it is full', async () => {
+      const run = await createRun(1);
+
+      const enrollment = await enrollInCourse({ course_id: courseId, course_run_id: run.id }, studentIds[0]);
+      expect(enrollment.course_run_id).toEqual(run.id);
+
+      await expect(enrollInCourse({ course_id: courseId, course_run_id: run.id }, studentIds[1]))
+        .rejects.toThrow(/cohort is full/i);
+    });
+
+    it('should not enroll into an ended cohort or one from another course', async () => {
+      const run = await createRun(5);
+      await updateCourseRun({ courseRunId: run.id, starts_at: new Date(Date.now() - 10 * DAY), ends_at: new Date(Date.now() - DAY) }, instructorId);
+
+      await expect(enrollInCourse({ course_id: courseId, course_run_id: run.id }, studentIds[0]))
+        .rejects.toThrow(/cohort has ended/i);
+      await expect(enrollInCourse({ course_id: courseId, course_run_id: run.id + 100 }, studentIds[0]))
+        .rejects.toThrow(/cohort not found/i);
+    });
+
+    it('should keep enrolling directly into courses without cohorts', async () => {
+      const enrollment = await enrollInCourse({ course_id: courseId }, studentIds[0]);
+
+      expect(enrollment.course_run_id).toBeNull();
+    });
+  });
+
+  describe('waitlist', () => {
+    it('should queue students for a full cohort and report their position', async () => {
+      const run = await createRun(1);
+      await enrollInCourse({ course_id: courseId, course_run_id: run.id }, studentIds[0]);
+
+      const first = await joinCourseRunWaitlist(run.id, studentIds[1]);
+      const second = await joinCourseRunWaitlist(run.id, studentIds[2]);
+
+      expect(first.waitlist_position).toEqual(1);
+      expect(second.waitlist_position).toEqual(2);
+      expect(second.waitlist_count).toEqual(2);
+      expect((await getCourseRuns(courseId, studentIds[2]))[0].waitlist_position).toEqual(2);
+    });
+
+    it('should only queue for full cohorts the student is not enrolled in', async () => {
+      const run = await createRun(1);
+
+      await expect(joinCourseRunWaitlist(run.id, studentIds[0])).rejects.toThrow(/free seats/i);
+
+      await enrollInCourse({ course_id: courseId, course_run_id: run.id }, studentIds[0]);
+      await expect(joinCourseRunWaitlist(run.id, studentIds[0])).rejects.toThrow(/already enrolled/i);
+    });
+
+    it('should promote the next student when a seat frees up', async () => {
+      const run = await createRun(1);
+      await enrollInCourse({ course_id: courseId, course_run_id: run.id }, studentIds[0]);
+      await joinCourseRunWaitlist(run.id, studentIds[1]);
+      await joinCourseRunWaitlist(run.id, studentIds[2]);
+
+      await unenrollFromCourse(studentIds[0], courseId);
+
+      const enrollments = await db.select().from(enrollmentsTable).where(eq(enrollmentsTable.course_id, courseId)).execute();
+      expect(enrollments.map(enrollment => [enrollment.student_id, enrollment.course_run_id])).toEqual([[studentIds[1], run.id]]);
+
+      const notifications = await db.select().from(notificationsTable).where(eq(notificationsTable.user_id, studentIds[1])).execute();
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].message).toContain('Spring cohort');
+
+      const runs = await getCourseRuns(courseId, studentIds[2]);
+      expect(runs[0].waitlist_position).toEqual(1);
+    });
+
+    it('should not promote students into a course in the trash', async () => {
+      const run = await createRun(1);
+      await enrollInCourse({ course_id: courseId, course_run_id: run.id }, studentIds[0]);
+      await joinCourseRunWaitlist(run.id, studentIds[1]);
+      await db.update(coursesTable).set({ deleted_at: new Date() }).where(eq(coursesTable.id, courseId)).execute();
+
+      expect(await unenrollFromCourse(studentIds[0], courseId)).toEqual({ success: true });
+
+      expect(await db.select().from(enrollmentsTable).where(eq(enrollmentsTable.course_id, courseId)).execute()).toEqual([]);
+      expect(await db.select().from(notificationsTable).where(eq(notificationsTable.user_id, studentIds[1])).execute()).toEqual([]);
+    });
+
+    it('should fill added seats from the waitlist and skip students who enrolled elsewhere', async () => {
+      const run = await createRun(1);
+      const other = await createRun(5, 'Evening cohort');
+      await enrollInCourse({ course_id: courseId, course_run_id: run.id }, studentIds[0]);
+      await joinCourseRunWaitlist(run.id, studentIds[1]);
+      await joinCourseRunWaitlist(run.id, studentIds[2]);
+
+      // Enrolling anywhere in the course removes the student from its waitlists
+      await enrollInCourse({ course_id: courseId, course_run_id: other.id }, studentIds[1]);
+      await updateCourseRun({ courseRunId: run.id, capacity: 3 }, instructorId);
+
+      const roster = await getCourseRunRoster(run.id, instructorId);
+      expect(roster.students.map(student => student.student_id)).toEqual([studentIds[0], studentIds[2]]);
+      expect(roster.waitlist).toEqual([]);
+    });
+
+    it('should let students leave the waitlist', async () => {
+      const run = await createRun(1);
+      await enrollInCourse({ course_id: courseId, course_run_id: run.id }, studentIds[0]);
+      await joinCourseRunWaitlist(run.id, studentIds[1]);
+
+      expect(await leaveCourseRunWaitlist(run.id, studentIds[1])).toEqual({ success: true });
+      await expect(leaveCourseRunWaitlist(run.id, studentIds[1])).rejects.toThrow(/not on this cohort's waitlist/i);
+    });
+  });
+
+  describe('getCourseRunRoster', () => {
+    it('should list enrolled and waiting students for course staff only', async () => {
+      const run = await createRun(1);
+      await enrollInCourse({ course_id: courseId, course_run_id: run.id }, studentIds[1]);
+      await joinCourseRunWaitlist(run.id, studentIds[0]);
+
+      const roster = await getCourseRunRoster(run.id, instructorId);
+
+      expect(roster.run.enrolled_count).toEqual(1);
+      expect(roster.students.map(student => [student.name, student.email])).toEqual([['Test Bob', 'bob@test.com']]);
+      expect(roster.waitlist.map(entry => [entry.name, entry.position])).toEqual([['Test Ann', 1]]);
+
+      await expect(getCourseRunRoster(run.id, otherInstructorId)).rejects.toThrow(/permission to view/i);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createUser } from '../helpers/fixtures';
+import { db } from '../db';
+import { coursesTable, lessonsTable, quizzesTable, enrollmentsTable } from '../db/schema';
+import { updateCourseSchedule, publishScheduledCourses } from '../handlers/courseSchedule';
+import { publishCourse } from '../handlers/courses';
+import { enrollInCourse, updateLessonProgress, completeCourse } from '../handlers/enrollments';
+import { submitQuiz } from '../handlers/quizzes';
+import { eq } from 'drizzle-orm';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let instructorId: number;
+let otherInstructorId: number;
+let studentId: number;
+let courseId: number;
+let lessonId: number;
+let quizId: number;
+
+function daysFromNow(days: number): Date {
+  return new Date(Date.now() + days * DAY);
+}
+
+async function setSchedule(values: Partial<typeof coursesTable.$inferInsert>) {
+  await db.update(coursesTable).set(values).where(eq(coursesTable.id, courseId)).execute();
+}
+
+const noSchedule = { publish_at: null, enrollment_opens_at: null, enrollment_closes_at: null, ends_at: null };
+
+describe('Course schedule', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    instructorId = await createUser('instructor@test.com', 'instructor');
+    otherInstructorId = await createUser('other@test.com', 'instructor');
+    studentId = await createUser('student@test.com', 'student');
+
+    const course = await db.insert(coursesTable)
+      .values({
+        title: 'Astronomy',
+        description: 'Stars and planets',
+        price: '0',
+        duration_hours: '3',
+        instructor_id: instructorId,
+        moderation_status: 'approved'
+      })
+      .returning()
+      .execute();
+    courseId = course[0].id;
+
+    const lesson = await db.insert(lessonsTable)
+      .values({ course_id: courseId, title: 'The sun', order_index: 1, duration_minutes: 10 })
+      .returning()
+      .execute();
+    lessonId = lesson[0].id;
+
+    const quiz = await db.insert(quizzesTable)
+      .values({ lesson_id: lessonId, title: 'Sun quiz', passing_score: 50 })
+      .returning()
+      .execute();
+    quizId = quiz[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('updateCourseSchedule', () => {
+    it('should save the schedule', async () => {
+      const schedule = {
+        courseId,
+        publish_at: daysFromNow(1),
+        enrollment_opens_at: daysFromNow(2),
+        enrollment_closes_at: daysFromNow(10),
+        ends_at: daysFromNow(30)
+      };
+
+      const course = await updateCourseSchedule(schedule, instructorId);
+
+      expect(course.publish_at).toEqual(schedule.publish_at);
+      expect(course.enrollment_opens_at).toEqual(schedule.enrollment_opens_at);
+      expect(course.enrollment_closes_at).toEqual(schedule.enrollment_closes_at);
+      expect(course.ends_at).toEqual(schedule.ends_at);
+      expect(typeof course.price).toBe('number');
+    });
+
+    it('should reject schedules that are out of order or in the past', async () => {
+      await expect(updateCourseSchedule({ courseId, ...noSchedule, publish_at: daysFromNow(-1) }, instructorId))
+        .rejects.toThrow(/must be in the future/i);
+      await expect(updateCourseSchedule({ courseId, ...noSchedule, enrollment_opens_at: daysFromNow(5), enrollment_closes_at: daysFromNow(2) }, instructorId))
+        .rejects.toThrow(/close after it opens/i);
+      await expect(updateCourseSchedule({ courseId, ...noSchedule, enrollment_closes_at: daysFromNow(5), ends_at: daysFromNow(2) }, instructorId))
+        .rejects.toThrow(/close before the course ends/i);
+    });
+
+    it('should keep a publish time that has passed while the course waits', async () => {
+      const publishAt = daysFromNow(-1);
+      await setSchedule({ publish_at: publishAt, moderation_status: 'submitted' });
+
+      const course = await updateCourseSchedule({ courseId, ...noSchedule, publish_at: publishAt, ends_at: daysFromNow(30) }, instructorId);
+
+      expect(course.publish_at).toEqual(publishAt);
+    });
+
+    it('should not schedule a published course or let others schedule it', async () => {
+      await expect(updateCourseSchedule({ courseId, ...noSchedule }, otherInstructorId))
+        .rejects.toThrow(/permission to schedule/i);
+
+      await publishCourse(courseId, instructorId);
+      await expect(updateCourseSchedule({ courseId, ...noSchedule, publish_at: daysFromNow(1) }, instructorId))
+        .rejects.toThrow(/already published/i);
+    });
+  });
+
+  describe('publishScheduledCourses', () => {
+    it('should publish approved courses whose time has come', async () => {
+      await setSchedule({ publish_at: daysFromNow(-0.01) });
+
+      expect(await publishScheduledCourses()).toEqual([courseId]);
+
+      const courses = await db.select().from(coursesTable).where(eq(coursesTable.id, courseId)).execute();
+      expect(courses[0].is_published).toBe(true);
+      expect(courses[0].moderation_status).toEqual('published');
+      expect(courses[0].publish_at).toBeNull();
+    });
+
+    it('should wait for the publish time and for approval', async () => {
+      await setSchedule({ publish_at: daysFromNow(1) });
+      expect(await publishScheduledCourses()).toEqual([]);
+
+      await setSchedule({ publish_at: daysFromNow(-1), moderation_status: 'submitted' });
+      expect(await publishScheduledCourses()).toEqual([]);
+
+      await setSchedule({ moderation_status: 'approved' });
+      expect(await publishScheduledCourses()).toEqual([courseId]);
+    });
+
+    it('should clear the schedule when the course is published by hand', async () => {
+      await setSchedule({ publish_at: daysFromNow(1) });
+
+      const course = await publishCourse(courseId, instructorId);
+
+      expect(course.publish_at).toBeNull();
+    });
+  });
+
+  describe('enrollment window', () => {
+    it('should reject enrollment before the window opens and after it closes', async () => {
+      const opens = daysFromNow(3);
+      await setSchedule({ enrollment_opens_at: opens });
+      await expect(enrollInCourse({ course_id: courseId }, studentId))
+        .rejects.toThrow(`Enrollment opens on ${opens.toISOString().slice(0, 10)}`);
+
+      await setSchedule({ enrollment_opens_at: daysFromNow(-3), enrollment_closes_at: daysFromNow(-1) });
+      await expect(enrollInCourse({ course_id: courseId }, studentId))
+        .rejects.toThrow(/enrollment for this course is closed/i);
+
+      await setSchedule({ enrollment_closes_at: null, ends_at: daysFromNow(-1) });
+      await expect(enrollInCourse({ course_id: courseId }, studentId))
+        .rejects.toThrow(/enrollment for this course is closed/i);
+    });
+
+    it('should enroll while the window is open', async () => {
+      await setSchedule({ enrollment_opens_at: daysFromNow(-1), enrollment_closes_at: daysFromNow(1) });
+
+      const enrollment = await enrollInCourse({ course_id: courseId }, studentId);
+
+      expect(enrollment.course_id).toEqual(courseId);
+    });
+  });
+
+  describe('course end', () => {
+    it('should make the course read-only for enrolled students', async () => {
+      await db.insert(enrollmentsTable).values({ student_id: studentId, course_id: courseId }).execute();
+      await setSchedule({ ends_at: daysFromNow(-1) });
+
+      await expect(updateLessonProgress({ lesson_id: lessonId, watch_time_seconds: 60, is_completed: true }, studentId))
+        .rejects.toThrow(/ended and is read-only/i);
+      await expect(submitQuiz({ quiz_id: quizId, answers: {} }, studentId))
+        .rejects.toThrow(/ended and is read-only/i);
+      await expect(completeCourse(studentId, courseId))
+        .rejects.toThrow(/ended and is read-only/i);
+    });
+  });
+});
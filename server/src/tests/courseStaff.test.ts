@@ -0,0 +1,252 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createUser } from '../helpers/fixtures';
+import { db } from '../db';
+import { coursesTable, enrollmentsTable, messagesTable, notificationsTable } from '../db/schema';
+import {
+  getCourseStaff,
+  inviteCourseStaff,
+  respondToStaffInvitation,
+  updateCourseStaff,
+  removeCourseStaff,
+  getMyStaffInvitations,
+  getMyCourseMemberships,
+  messageCourseStudents
+} from '../handlers/courseStaff';
+import { updateCourse, deleteCourse, getInstructorCourses } from '../handlers/courses';
+import { createLesson } from '../handlers/lessons';
+import { createQuiz, createQuizQuestion, updateQuiz, getQuizQuestions } from '../handlers/quizzes';
+import { hasPermission } from '../handlers/permissions';
+import { eq } from 'drizzle-orm';
+
+let ownerId: number;
+let coInstructorId: number;
+let assistantId: number;
+let studentId: number;
+let courseId: number;
+
+async function addStaff(email: string, role: 'co_instructor' | 'teaching_assistant', share = 0) {
+  await inviteCourseStaff({ courseId, email, role, revenue_share_percent: share }, ownerId);
+  const userId = email === 'co@test.com' ? coInstructorId : assistantId;
+  await respondToStaffInvitation(courseId, true, userId);
+}
+
+describe('Course Staff', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    ownerId = await createUser('owner@test.com', 'instructor', { first_name: 'Owner' });
+    coInstructorId = await createUser('co@test.com', 'instructor', { first_name: 'Co' });
+    assistantId = await createUser('ta@test.com', 'instructor', { first_name: 'Assistant' });
+    studentId = await createUser('student@test.com', 'student', { first_name: 'Student' });
+
+    const course = await db.insert(coursesTable)
+      .values({
+        title: 'Team Taught',
+        description: 'A course with several instructors',
+        price: '50.00',
+        duration_hours: '3',
+        instructor_id: ownerId
+      })
+      .returning()
+      .execute();
+    courseId = course[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('invitations', () => {
+    it('should invite a co-instructor who then accepts', async () => {
+      const invited = await inviteCourseStaff({
+        courseId,
+        email: 'co@test.com',
+        role: 'co_instructor',
+        revenue_share_percent: 25
+      }, ownerId);
+
+      expect(invited.status).toEqual('pending');
+      expect(invited.revenue_share_percent).toEqual(25);
+
+      const invitations = await getMyStaffInvitations(coInstructorId);
+      expect(invitations).toHaveLength(1);
+      expect(invitations[0].course_title).toEqual('Team Taught');
+      expect(invitations[0].invited_by_name).toEqual('Owner User');
+
+      await respondToStaffInvitation(courseId, true, coInstructorId);
+
+      const staff = await getCourseStaff(courseId, ownerId);
+      expect(staff.map(member => [member.role, member.status, member.revenue_share_percent])).toEqual([
+        ['owner', 'active', 75],
+        ['co_instructor', 'active', 25]
+      ]);
+      expect(await getMyStaffInvitations(coInstructorId)).toHaveLength(0);
+
+      const notifications = await db.select()
+        .from(notificationsTable)
+        .where(eq(notificationsTable.user_id, ownerId))
+        .execute();
+      expect(notifications.map(n => n.title)).toContain('Staff invitation accepted');
+    });
+
+    it('should drop declined invitations', async () => {
+      await inviteCourseStaff({ courseId, email: 'ta@test.com', role: 'teaching_assistant', revenue_share_percent: 0 }, ownerId);
+
+      await respondToStaffInvitation(courseId, false, assistantId);
+
+      expect(await getCourseStaff(courseId, ownerId)).toHaveLength(1);
+    });
+
+    it('should reject students, duplicates and unknown emails', async () => {
+      await expect(inviteCourseStaff({ courseId, email: 'student@test.com', role: 'teaching_assistant', revenue_share_percent: 0 }, ownerId))
+        .rejects.toThrow(/Only instructors/i);
+      await expect(inviteCourseStaff({ courseId, email: 'nobody@test.com', role: 'teaching_assistant', revenue_share_percent: 0 }, ownerId))
+        .rejects.toThrow(/No active user/i);
+
+      await inviteCourseStaff({ courseId, email: 'ta@test.com', role: 'teaching_assistant', revenue_share_percent: 0 }, ownerId);
+      await expect(inviteCourseStaff({ courseId, email: 'ta@test.com', role: 'co_instructor', revenue_share_percent: 0 }, ownerId))
+        .rejects.toThrow(/already on the course staff/i);
+    });
+
+    it('should keep revenue shares within 100%', async () => {
+      await inviteCourseStaff({ courseId, email: 'co@test.com', role: 'co_instructor', revenue_share_percent: 80 }, ownerId);
+
+      await expect(inviteCourseStaff({ courseId, email: 'ta@test.com', role: 'co_instructor', revenue_share_percent: 30 }, ownerId))
+        .rejects.toThrow(/Only 20% of this course's revenue is left/i);
+    });
+
+    it('should only let the owner manage staff', async () => {
+      await addStaff('co@test.com', 'co_instructor');
+
+      await expect(inviteCourseStaff({ courseId, email: 'ta@test.com', role: 'teaching_assistant', revenue_share_percent: 0 }, coInstructorId))
+        .rejects.toThrow(/permission to manage this course's staff/i);
+    });
+  });
+
+  describe('staff changes', () => {
+    it('should change a member role and clear the share of teaching assistants', async () => {
+      await addStaff('co@test.com', 'co_instructor', 40);
+
+      const updated = await updateCourseStaff({ courseId, userId: coInstructorId, role: 'teaching_assistant' }, ownerId);
+
+      expect(updated.role).toEqual('teaching_assistant');
+      expect(updated.revenue_share_percent).toEqual(0);
+    });
+
+    it('should let the owner remove staff and staff leave on their own', async () => {
+      await addStaff('co@test.com', 'co_instructor');
+      await addStaff('ta@test.com', 'teaching_assistant');
+
+      await removeCourseStaff(courseId, coInstructorId, ownerId);
+      await removeCourseStaff(courseId, assistantId, assistantId);
+
+      expect(await getCourseStaff(courseId, ownerId)).toHaveLength(1);
+    });
+  });
+
+  describe('capabilities', () => {
+    it('should let co-instructors edit content and pricing but not delete the course', async () => {
+      await addStaff('co@test.com', 'co_instructor');
+
+      const updated = await updateCourse(courseId, { title: 'Renamed', price: 60 }, coInstructorId);
+      expect(updated.title).toEqual('Renamed');
+      expect(updated.price).toEqual(60);
+
+      await expect(deleteCourse(courseId, coInstructorId)).rejects.toThrow(/permission to delete/i);
+    });
+
+    it('should not let teaching assistants edit the course or its price', async () => {
+      await addStaff('ta@test.com', 'teaching_assistant');
+
+      await expect(updateCourse(courseId, { price: 1 }, assistantId)).rejects.toThrow(/permission to update/i);
+    });
+
+    it('should not let teaching assistants add or change lessons and quizzes', async () => {
+      await addStaff('ta@test.com', 'teaching_assistant');
+      await addStaff('co@test.com', 'co_instructor');
+      const lessonInput = {
+        course_id: courseId,
+        title: 'Week 1',
+        description: null,
+        video_url: null,
+        content: 'Reading',
+        order_index: 1,
+        duration_minutes: 10
+      };
+      const lesson = await createLesson(lessonInput, coInstructorId);
+      const quiz = await createQuiz({
+        lesson_id: lesson.id,
+        title: 'Check-in',
+        description: null,
+        passing_score: 50,
+        time_limit_minutes: null,
+        max_attempts: null
+      }, coInstructorId);
+      const question = {
+        quiz_id: quiz.id,
+        question_text: 'Ready?',
+        question_type: 'true_false' as const,
+        options: ['true', 'false'],
+        correct_answer: 'true',
+        points: 1,
+        order_index: 1
+      };
+      await createQuizQuestion(question, coInstructorId);
+
+      await expect(createLesson({ ...lessonInput, title: 'Week 2', order_index: 2 }, assistantId))
+        .rejects.toThrow(/permission to add lessons/i);
+      await expect(createQuiz({ lesson_id: lesson.id, title: 'Extra', description: null, passing_score: 50, time_limit_minutes: null, max_attempts: null }, assistantId))
+        .rejects.toThrow(/permission to add quizzes/i);
+      await expect(createQuizQuestion(question, assistantId)).rejects.toThrow(/permission to add questions/i);
+      await expect(updateQuiz(quiz.id, { passing_score: 0 }, assistantId)).rejects.toThrow(/permission to update this quiz/i);
+
+      // Grading still needs the answer key
+      expect((await getQuizQuestions(quiz.id, assistantId, true))[0].correct_answer).toEqual('true');
+    });
+
+    it('should give teaching assistants grading and roster permissions', async () => {
+      await addStaff('ta@test.com', 'teaching_assistant');
+
+      expect(await hasPermission(assistantId, 'course.grade', { courseId })).toBe(true);
+      expect(await hasPermission(assistantId, 'course.view_roster', { courseId })).toBe(true);
+      expect(await hasPermission(coInstructorId, 'course.grade', { courseId })).toBe(false);
+    });
+
+    it('should ignore pending invitations', async () => {
+      await inviteCourseStaff({ courseId, email: 'co@test.com', role: 'co_instructor', revenue_share_percent: 0 }, ownerId);
+
+      await expect(updateCourse(courseId, { title: 'Too early' }, coInstructorId)).rejects.toThrow(/permission to update/i);
+      expect(await getInstructorCourses(coInstructorId)).toHaveLength(0);
+    });
+
+    it('should list staffed courses with their capabilities', async () => {
+      await addStaff('ta@test.com', 'teaching_assistant');
+
+      expect((await getInstructorCourses(assistantId)).map(course => course.id)).toEqual([courseId]);
+      expect(await getMyCourseMemberships(assistantId)).toEqual([
+        { course_id: courseId, role: 'teaching_assistant', capabilities: ['grade', 'message', 'view_roster'] }
+      ]);
+    });
+  });
+
+  describe('messageCourseStudents', () => {
+    it('should let teaching assistants message every enrolled student', async () => {
+      await addStaff('ta@test.com', 'teaching_assistant');
+      await db.insert(enrollmentsTable).values({ student_id: studentId, course_id: courseId }).execute();
+
+      const result = await messageCourseStudents({ courseId, subject: 'Office hours', content: 'Friday at 3pm' }, assistantId);
+
+      expect(result.sent).toEqual(1);
+      const messages = await db.select()
+        .from(messagesTable)
+        .where(eq(messagesTable.recipient_id, studentId))
+        .execute();
+      expect(messages[0].sender_id).toEqual(assistantId);
+      expect(messages[0].subject).toEqual('Office hours');
+    });
+
+    it('should reject instructors outside the course staff', async () => {
+      await expect(messageCourseStudents({ courseId, subject: 'Hi', content: 'Hello' }, coInstructorId))
+        .rejects.toThrow(/permission to message/i);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createUser } from '../helpers/fixtures';
+import { db } from '../db';
+import { coursesTable, lessonsTable, quizzesTable, quizQuestionsTable } from '../db/schema';
+import {
+  saveCourseAsTemplate,
+  getCourseTemplates,
+  createCourseFromTemplate,
+  deleteCourseTemplate
+} from '../handlers/courseTemplates';
+import { duplicateCourse, updateCourse } from '../handlers/courses';
+import { eq, inArray } from 'drizzle-orm';
+
+let instructorId: number;
+let otherInstructorId: number;
+let courseId: number;
+let lessonId: number;
+
+async function courseContent(id: number) {
+  const lessons = await db.select()
+    .from(lessonsTable)
+    .where(eq(lessonsTable.course_id, id))
+    .orderBy(lessonsTable.order_index)
+    .execute();
+  const quizzes = await db.select()
+    .from(quizzesTable)
+    .where(inArray(quizzesTable.lesson_id, lessons.map(lesson => lesson.id)))
+    .execute();
+  const questions = quizzes.length > 0
+    ? await db.select()
+      .from(quizQuestionsTable)
+      .where(inArray(quizQuestionsTable.quiz_id, quizzes.map(quiz => quiz.id)))
+      .execute()
+    : [];
+  return { lessons, quizzes, questions };
+}
+
+describe('Course duplication and templates', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    instructorId = await createUser('instructor@test.com', 'instructor', { last_name: 'Instructor' });
+    otherInstructorId = await createUser('other@test.com', 'instructor', { last_name: 'Instructor' });
+
+    const course = await db.insert(coursesTable)
+      .values({
+        title: 'Algebra I',
+        description: 'Fall semester',
+        price: '40.00',
+        duration_hours: '12',
+        instructor_id: instructorId,
+        is_published: true,
+        moderation_status: 'published',
+        tags: ['math']
+      })
+      .returning()
+      .execute();
+    courseId = course[0].id;
+
+    const lesson = await db.insert(lessonsTable)
+      .values({ course_id: courseId, title: 'Equations', order_index: 1, duration_minutes: 30, is_published: true })
+      .returning()
+      .execute();
+    lessonId = lesson[0].id;
+
+    const quiz = await db.insert(quizzesTable)
+      .values({ lesson_id: lessonId, title: 'Equations quiz', passing_score: 70 })
+      .returning()
+      .execute();
+    await db.insert(quizQuestionsTable)
+      .values({
+        quiz_id: quiz[0].id,
+        question_text: 'Solve x + 1 = 2',
+        question_type: 'short_answer',
+        correct_answer: '1',
+        points: 1,
+        order_index: 1
+      })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('duplicateCourse', () => {
+    it('should deep-copy lessons, quizzes and questions into an unpublished course', async () => {
+      const copy = await duplicateCourse({ courseId }, instructorId);
+
+      expect(copy.id).not.toEqual(courseId);
+      expect(copy.title).toEqual('Algebra I (Copy)');
+      expect(copy.price).toEqual(40);
+      expect(copy.tags).toEqual(['math']);
+      expect(copy.is_published).toBe(false);
+      expect(copy.moderation_status).toEqual('draft');
+
+      const content = await courseContent(copy.id);
+      expect(content.lessons.map(lesson => lesson.title)).toEqual(['Equations']);
+      expect(content.lessons[0].id).not.toEqual(lessonId);
+      expect(content.quizzes.map(quiz => quiz.title)).toEqual(['Equations quiz']);
+      expect(content.questions.map(question => question.question_text)).toEqual(['Solve x + 1 = 2']);
+
+      // The original keeps its own content
+      expect((await courseContent(courseId)).questions).toHaveLength(1);
+    });
+
+    it('should copy pending draft changes of a published course', async () => {
+      await updateCourse(courseId, { description: 'Spring semester' }, instructorId);
+
+      const copy = await duplicateCourse({ courseId, title: 'Algebra I - Spring' }, instructorId);
+
+      expect(copy.title).toEqual('Algebra I - Spring');
+      expect(copy.description).toEqual('Spring semester');
+    });
+
+    it('should reject instructors outside the course staff', async () => {
+      await expect(duplicateCourse({ courseId }, otherInstructorId)).rejects.toThrow(/permission to duplicate/i);
+    });
+  });
+
+  describe('templates', () => {
+    it('should save a course as a template and start a new course from it', async () => {
+      const template = await saveCourseAsTemplate({
+        courseId,
+        title: 'Semester algebra',
+        description: 'Starting point for algebra courses',
+        is_shared: false
+      }, instructorId);
+
+      expect(template.source_course_id).toEqual(courseId);
+      expect(template.creator_name).toEqual('Test Instructor');
+      expect(template.lesson_count).toEqual(1);
+      expect(template.quiz_count).toEqual(1);
+
+      const course = await createCourseFromTemplate({ templateId: template.id, title: 'Algebra II' }, instructorId);
+
+      expect(course.title).toEqual('Algebra II');
+      expect(course.instructor_id).toEqual(instructorId);
+      expect(course.is_published).toBe(false);
+      expect((await courseContent(course.id)).questions).toHaveLength(1);
+    });
+
+    it('should keep templates private unless shared', async () => {
+      const privateTemplate = await saveCourseAsTemplate({ courseId, title: 'Mine', is_shared: false }, instructorId);
+      const sharedTemplate = await saveCourseAsTemplate({ courseId, title: 'Shared', is_shared: true }, instructorId);
+
+      expect((await getCourseTemplates(otherInstructorId)).map(template => template.title)).toEqual(['Shared']);
+      expect((await getCourseTemplates(instructorId)).map(template => template.title)).toEqual(['Mine', 'Shared']);
+
+      await expect(createCourseFromTemplate({ templateId: privateTemplate.id }, otherInstructorId))
+        .rejects.toThrow(/Template not found/i);
+
+      const course = await createCourseFromTemplate({ templateId: sharedTemplate.id }, otherInstructorId);
+      expect(course.instructor_id).toEqual(otherInstructorId);
+      expect(course.title).toEqual('Algebra I');
+    });
+
+    it('should not pick up later changes to the source course', async () => {
+      const template = await saveCourseAsTemplate({ courseId, title: 'Fall', is_shared: false }, instructorId);
+      await updateCourse(courseId, { description: 'Spring semester' }, instructorId);
+
+      const course = await createCourseFromTemplate({ templateId: template.id }, instructorId);
+
+      expect(course.description).toEqual('Fall semester');
+    });
+
+    it('should only let the creator delete a template', async () => {
+      const template = await saveCourseAsTemplate({ courseId, title: 'Mine', is_shared: true }, instructorId);
+
+      await expect(deleteCourseTemplate(template.id, otherInstructorId)).rejects.toThrow(/permission to delete/i);
+
+      await deleteCourseTemplate(template.id, instructorId);
+      expect(await getCourseTemplates(instructorId)).toHaveLength(0);
+    });
+  });
+});
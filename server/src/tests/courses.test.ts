@@ -1,11 +1,12 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { coursesTable, usersTable, lessonsTable } from '../db/schema';
+import { coursesTable, usersTable, lessonsTable, enrollmentsTable, categoriesTable } from '../db/schema';
 import { type CreateCourseInput } from '../schema';
 import { 
   createCourse, 
   getCourses, 
+  searchCourses, 
   getCourseById, 
   getInstructorCourses, 
   updateCourse, 
@@ -129,6 +130,51 @@ describe('Course Handlers', () => {
       expect(result.title).toEqual('Test Course');
       expect(result.instructor_id).toEqual(adminId);
     });
+
+    it('should save category, level and normalized tags', async () => {
+      const instructorResult = await db.insert(usersTable)
+        .values(testInstructor)
+        .returning()
+        .execute();
+      const categoryResult = await db.insert(categoriesTable)
+        .values({ name: 'Programming', slug: 'programming' })
+        .returning()
+        .execute();
+
+      const result = await createCourse({
+        ...testCourseInput,
+        category_id: categoryResult[0].id,
+        level: 'beginner',
+        tags: ['JavaScript', ' javascript ', 'Web']
+      }, instructorResult[0].id);
+
+      expect(result.category_id).toEqual(categoryResult[0].id);
+      expect(result.level).toEqual('beginner');
+      expect(result.tags).toEqual(['javascript', 'web']);
+    });
+
+    it('should default to no category, level or tags', async () => {
+      const instructorResult = await db.insert(usersTable)
+        .values(testInstructor)
+        .returning()
+        .execute();
+
+      const result = await createCourse(testCourseInput, instructorResult[0].id);
+
+      expect(result.category_id).toBeNull();
+      expect(result.level).toBeNull();
+      expect(result.tags).toEqual([]);
+    });
+
+    it('should throw error for non-existent category', async () => {
+      const instructorResult = await db.insert(usersTable)
+        .values(testInstructor)
+        .returning()
+        .execute();
+
+      await expect(createCourse({ ...testCourseInput, category_id: 99999 }, instructorResult[0].id))
+        .rejects.toThrow(/category not found/i);
+    });
   });
 
   describe('getCourses', () => {
@@ -181,6 +227,182 @@ describe('Course Handlers', () => {
     });
   });
 
+  describe('searchCourses', () => {
+    let instructorId: number;
+    let otherInstructorId: number;
+    let courseIds: Record<string, number>;
+
+    beforeEach(async () => {
+      const instructorResult = await db.insert(usersTable)
+        .values(testInstructor)
+        .returning()
+        .execute();
+      instructorId = instructorResult[0].id;
+
+      const otherInstructorResult = await db.insert(usersTable)
+        .values({ ...testInstructor, email: 'other@test.com', first_name: 'Ada', last_name: 'Lovelace' })
+        .returning()
+        .execute();
+      otherInstructorId = otherInstructorResult[0].id;
+
+      const studentResult = await db.insert(usersTable)
+        .values(testStudent)
+        .returning()
+        .execute();
+
+      const courses = [
+        { title: 'Python for Beginners', description: 'Learn programming with Python', price: '0.00', duration_hours: '4.0', instructor_id: instructorId, created_at: new Date('2024-01-01') },
+        { title: 'Advanced Python', description: 'Decorators, generators and async code', price: '89.00', duration_hours: '12.0', instructor_id: instructorId, created_at: new Date('2024-02-01') },
+        { title: 'Watercolor Painting', description: 'Paint landscapes with watercolors', price: '29.00', duration_hours: '6.0', instructor_id: otherInstructorId, created_at: new Date('2024-03-01') },
+        { title: 'Data Science Bootcamp', description: 'Statistics and machine learning using Python', price: '149.00', duration_hours: '40.0', instructor_id: otherInstructorId, created_at: new Date('2024-04-01') }
+      ];
+
+      courseIds = {};
+      for (const course of courses) {
+        const result = await db.insert(coursesTable)
+          .values({ ...course, thumbnail_url: null, is_published: true })
+          .returning()
+          .execute();
+        courseIds[course.title] = result[0].id;
+      }
+
+      await db.insert(coursesTable)
+        .values({
+          title: 'Unpublished Python Draft',
+          description: 'Python draft',
+          price: '10.00',
+          duration_hours: '1.0',
+          instructor_id: instructorId,
+          is_published: false
+        })
+        .execute();
+
+      await db.insert(enrollmentsTable)
+        .values({ student_id: studentResult[0].id, course_id: courseIds['Watercolor Painting'] })
+        .execute();
+    });
+
+    it('should return published courses newest first with instructor and enrollment info', async () => {
+      const result = await searchCourses({});
+
+      expect(result.courses.map(course => course.title)).toEqual([
+        'Data Science Bootcamp',
+        'Watercolor Painting',
+        'Advanced Python',
+        'Python for Beginners'
+      ]);
+      expect(result.courses[0].instructor_name).toEqual('Ada Lovelace');
+      expect(result.courses[1].enrollment_count).toEqual(1);
+      expect(typeof result.courses[0].price).toEqual('number');
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it('should match title and description with full-text search', async () => {
+      const result = await searchCourses({ query: 'python' });
+
+      expect(result.courses.map(course => course.title).sort()).toEqual([
+        'Advanced Python',
+        'Data Science Bootcamp',
+        'Python for Beginners'
+      ]);
+
+      const stemmed = await searchCourses({ query: 'painting landscape' });
+      expect(stemmed.courses.map(course => course.title)).toEqual(['Watercolor Painting']);
+    });
+
+    it('should filter by price, duration and instructor', async () => {
+      const cheap = await searchCourses({ maxPrice: 30 });
+      expect(cheap.courses.map(course => course.title).sort()).toEqual(['Python for Beginners', 'Watercolor Painting']);
+
+      const long = await searchCourses({ minDuration: 10, maxDuration: 20 });
+      expect(long.courses.map(course => course.title)).toEqual(['Advanced Python']);
+
+      const byInstructor = await searchCourses({ instructorId: otherInstructorId, minPrice: 50 });
+      expect(byInstructor.courses.map(course => course.title)).toEqual(['Data Science Bootcamp']);
+    });
+
+    it('should sort by price, popularity and rating', async () => {
+      const ascending = await searchCourses({ sort: 'price_asc' });
+      expect(ascending.courses.map(course => course.price)).toEqual([0, 29, 89, 149]);
+
+      const descending = await searchCourses({ sort: 'price_desc' });
+      expect(descending.courses.map(course => course.price)).toEqual([149, 89, 29, 0]);
+
+      const popular = await searchCourses({ sort: 'popularity' });
+      expect(popular.courses[0].title).toEqual('Watercolor Painting');
+
+      await db.update(coursesTable)
+        .set({ rating_average: 4.67, rating_count: 3 })
+        .where(eq(coursesTable.id, courseIds['Watercolor Painting']))
+        .execute();
+      await db.update(coursesTable)
+        .set({ rating_average: 3.5, rating_count: 2 })
+        .where(eq(coursesTable.id, courseIds['Advanced Python']))
+        .execute();
+
+      const rated = await searchCourses({ sort: 'rating' });
+      expect(rated.courses.slice(0, 2).map(course => course.title)).toEqual(['Watercolor Painting', 'Advanced Python']);
+    });
+
+    it('should page through results with a cursor', async () => {
+      await db.update(coursesTable)
+        .set({ rating_average: 4.5, rating_count: 2 })
+        .where(eq(coursesTable.id, courseIds['Advanced Python']))
+        .execute();
+
+      for (const sort of ['newest', 'price_asc', 'price_desc', 'popularity', 'rating'] as const) {
+        const all = await searchCourses({ sort });
+        const seen: number[] = [];
+        let cursor: string | null = null;
+
+        do {
+          const page: Awaited<ReturnType<typeof searchCourses>> = await searchCourses({ sort, limit: 3, cursor });
+          expect(page.courses.length).toBeLessThanOrEqual(3);
+          seen.push(...page.courses.map(course => course.id));
+          cursor = page.nextCursor;
+        } while (cursor);
+
+        expect(seen).toEqual(all.courses.map(course => course.id));
+      }
+    });
+
+    it('should filter by category including subcategories, level and tags', async () => {
+      const parent = await db.insert(categoriesTable)
+        .values({ name: 'Programming', slug: 'programming' })
+        .returning()
+        .execute();
+      const child = await db.insert(categoriesTable)
+        .values({ name: 'Python', slug: 'python', parent_id: parent[0].id })
+        .returning()
+        .execute();
+
+      await db.update(coursesTable)
+        .set({ category_id: child[0].id, level: 'beginner', tags: ['python', 'basics'] })
+        .where(eq(coursesTable.id, courseIds['Python for Beginners']))
+        .execute();
+      await db.update(coursesTable)
+        .set({ category_id: parent[0].id, level: 'advanced', tags: ['python'] })
+        .where(eq(coursesTable.id, courseIds['Advanced Python']))
+        .execute();
+
+      const inParent = await searchCourses({ categoryId: parent[0].id });
+      expect(inParent.courses.map(course => course.title).sort()).toEqual(['Advanced Python', 'Python for Beginners']);
+
+      const inChild = await searchCourses({ categoryId: child[0].id });
+      expect(inChild.courses.map(course => course.title)).toEqual(['Python for Beginners']);
+
+      const advanced = await searchCourses({ level: 'advanced' });
+      expect(advanced.courses.map(course => course.title)).toEqual(['Advanced Python']);
+
+      const tagged = await searchCourses({ tags: ['Basics', 'unused'] });
+      expect(tagged.courses.map(course => course.title)).toEqual(['Python for Beginners']);
+    });
+
+    it('should reject a malformed cursor', async () => {
+      await expect(searchCourses({ cursor: 'not-a-cursor' })).rejects.toThrow(/invalid cursor/i);
+    });
+  });
+
   describe('getCourseById', () => {
     it('should return course for valid ID', async () => {
       // Create instructor and course
@@ -321,6 +543,35 @@ describe('Course Handlers', () => {
       expect(result.description).toEqual('Original description'); // Unchanged
     });
 
+    it('should update and clear taxonomy fields', async () => {
+      const instructorResult = await db.insert(usersTable)
+        .values(testInstructor)
+        .returning()
+        .execute();
+      const instructorId = instructorResult[0].id;
+      const categoryResult = await db.insert(categoriesTable)
+        .values({ name: 'Design', slug: 'design' })
+        .returning()
+        .execute();
+      const course = await createCourse(testCourseInput, instructorId);
+
+      const updated = await updateCourse(course.id, {
+        category_id: categoryResult[0].id,
+        level: 'intermediate',
+        tags: ['Figma', 'UX']
+      }, instructorId);
+
+      expect(updated.category_id).toEqual(categoryResult[0].id);
+      expect(updated.level).toEqual('intermediate');
+      expect(updated.tags).toEqual(['figma', 'ux']);
+
+      const cleared = await updateCourse(course.id, { category_id: null, level: null, tags: [] }, instructorId);
+
+      expect(cleared.category_id).toBeNull();
+      expect(cleared.level).toBeNull();
+      expect(cleared.tags).toEqual([]);
+    });
+
     it('should throw error for non-existent course', async () => {
       const instructorResult = await db.insert(usersTable)
         .values(testInstructor)
@@ -387,7 +638,8 @@ describe('Course Handlers', () => {
           price: '49.99',
           instructor_id: instructorId,
           is_published: false,
-          duration_hours: '5.0'
+          duration_hours: '5.0',
+          moderation_status: 'approved'
         })
         .returning()
         .execute();
@@ -410,10 +662,49 @@ describe('Course Handlers', () => {
       const result = await publishCourse(courseId, instructorId);
 
       expect(result.is_published).toEqual(true);
+      expect(result.moderation_status).toEqual('published');
       expect(result.id).toEqual(courseId);
       expect(typeof result.price).toEqual('number');
     });
 
+    it('should throw error for course that has not been approved', async () => {
+      const instructorResult = await db.insert(usersTable)
+        .values(testInstructor)
+        .returning()
+        .execute();
+      const instructorId = instructorResult[0].id;
+
+      const courseResult = await db.insert(coursesTable)
+        .values({
+          title: 'Unreviewed Course',
+          description: 'Not yet reviewed',
+          thumbnail_url: null,
+          price: '49.99',
+          instructor_id: instructorId,
+          is_published: false,
+          duration_hours: '5.0'
+        })
+        .returning()
+        .execute();
+      const courseId = courseResult[0].id;
+
+      await db.insert(lessonsTable)
+        .values({
+          course_id: courseId,
+          title: 'Test Lesson',
+          description: null,
+          video_url: null,
+          content: 'Test content',
+          order_index: 1,
+          duration_minutes: 60,
+          is_published: true
+        })
+        .execute();
+
+      await expect(publishCourse(courseId, instructorId))
+        .rejects.toThrow(/approved by a moderator/i);
+    });
+
     it('should throw error for course without lessons', async () => {
       // Create instructor and course
       const instructorResult = await db.insert(usersTable)
@@ -430,7 +721,8 @@ describe('Course Handlers', () => {
           price: '49.99',
           instructor_id: instructorId,
           is_published: false,
-          duration_hours: '5.0'
+          duration_hours: '5.0',
+          moderation_status: 'approved'
         })
         .returning()
         .execute();
@@ -477,7 +769,8 @@ describe('Course Handlers', () => {
           price: '49.99',
           instructor_id: instructor1Id,
           is_published: false,
-          duration_hours: '5.0'
+          duration_hours: '5.0',
+          moderation_status: 'approved'
         })
         .returning()
         .execute();
@@ -490,7 +783,7 @@ describe('Course Handlers', () => {
   });
 
   describe('deleteCourse', () => {
-    it('should delete course for valid instructor', async () => {
+    it('should move the course to the trash for valid instructor', async () => {
       // Create instructor and course
       const instructorResult = await db.insert(usersTable)
         .values(testInstructor)
@@ -516,13 +809,15 @@ describe('Course Handlers', () => {
 
       expect(result.success).toEqual(true);
 
-      // Verify course is deleted
+      // Verify course is in the trash and hidden
       const courses = await db.select()
         .from(coursesTable)
         .where(eq(coursesTable.id, courseId))
         .execute();
       
-      expect(courses).toHaveLength(0);
+      expect(courses[0].deleted_at).toBeInstanceOf(Date);
+      expect(await getCourseById(courseId)).toBeNull();
+      expect(await getInstructorCourses(instructorId)).toHaveLength(0);
     });
 
     it('should throw error for non-existent course', async () => {
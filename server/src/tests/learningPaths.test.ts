@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createUser, createCourse } from '../helpers/fixtures';
+import { db } from '../db';
+import { enrollmentsTable, lessonsTable, notificationsTable, learningPathCertificatesTable } from '../db/schema';
+import {
+  getLearningPaths,
+  createLearningPath,
+  updateLearningPath,
+  deleteLearningPath,
+  enrollInLearningPath,
+  getLearningPathProgress,
+  getMyLearningPaths
+} from '../handlers/learningPaths';
+import { completeCourse, updateLessonProgress } from '../handlers/enrollments';
+import { eq } from 'drizzle-orm';
+
+let adminId: number;
+let instructorId: number;
+let studentId: number;
+let firstCourseId: number;
+let secondCourseId: number;
+
+async function enroll(courseId: number) {
+  await db.insert(enrollmentsTable)
+    .values({ student_id: studentId, course_id: courseId })
+    .execute();
+}
+
+describe('Learning Paths', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    adminId = await createUser('admin@test.com', 'administrator');
+    instructorId = await createUser('instructor@test.com', 'instructor');
+    studentId = await createUser('student@test.com', 'student');
+    firstCourseId = await createCourse(instructorId, { title: 'Foundations', duration_hours: '1.5', is_published: true });
+    secondCourseId = await createCourse(instructorId, { title: 'Projects', duration_hours: '1.5', is_published: true });
+  });
+
+  afterEach(resetDB);
+
+  describe('path management', () => {
+    it('should create a path with its courses in order', async () => {
+      const path = await createLearningPath({
+        title: 'Web Developer',
+        description: 'From zero to shipping',
+        course_ids: [secondCourseId, firstCourseId],
+        is_published: true
+      }, adminId);
+
+      expect(path.title).toEqual('Web Developer');
+      expect(path.created_by).toEqual(adminId);
+      expect(path.courses.map(course => course.course_id)).toEqual([secondCourseId, firstCourseId]);
+      expect(path.courses[0].duration_hours).toEqual(1.5);
+    });
+
+    it('should reorder and rename a path', async () => {
+      const path = await createLearningPath({ title: 'Draft', course_ids: [firstCourseId] }, adminId);
+
+      const updated = await updateLearningPath(path.id, {
+        title: 'Renamed',
+        course_ids: [secondCourseId, firstCourseId]
+      }, adminId);
+
+      expect(updated.title).toEqual('Renamed');
+      expect(updated.courses.map(course => course.course_id)).toEqual([secondCourseId, firstCourseId]);
+    });
+
+    it('should reject duplicate and unknown courses', async () => {
+      await expect(createLearningPath({ title: 'Twice', course_ids: [firstCourseId, firstCourseId] }, adminId))
+        .rejects.toThrow(/only appear once/i);
+      await expect(createLearningPath({ title: 'Missing', course_ids: [99999] }, adminId))
+        .rejects.toThrow(/Course not found/i);
+    });
+
+    it('should hide unpublished paths from students', async () => {
+      await createLearningPath({ title: 'Hidden', course_ids: [firstCourseId] }, adminId);
+      await createLearningPath({ title: 'Visible', course_ids: [firstCourseId], is_published: true }, adminId);
+
+      expect((await getLearningPaths(studentId)).map(path => path.title)).toEqual(['Visible']);
+      expect((await getLearningPaths(adminId)).map(path => path.title)).toEqual(['Hidden', 'Visible']);
+    });
+
+    it('should only let path managers make changes', async () => {
+      await expect(createLearningPath({ title: 'Nope', course_ids: [firstCourseId] }, instructorId))
+        .rejects.toThrow(/Unauthorized/i);
+    });
+
+    it('should delete a path', async () => {
+      const path = await createLearningPath({ title: 'Gone', course_ids: [firstCourseId] }, adminId);
+
+      await deleteLearningPath(path.id, adminId);
+
+      expect(await getLearningPaths(adminId)).toHaveLength(0);
+    });
+  });
+
+  describe('student progress', () => {
+    it('should track progress across the path courses', async () => {
+      const path = await createLearningPath({
+        title: 'Web Developer',
+        course_ids: [firstCourseId, secondCourseId],
+        is_published: true
+      }, adminId);
+
+      const joined = await enrollInLearningPath(path.id, studentId);
+      expect(joined.enrolled_at).toBeInstanceOf(Date);
+      expect(joined.next_course_id).toEqual(firstCourseId);
+      expect(joined.courses.map(course => course.status)).toEqual(['not_enrolled', 'not_enrolled']);
+
+      await enroll(firstCourseId);
+      await completeCourse(studentId, firstCourseId);
+      await enroll(secondCourseId);
+
+      const progress = await getLearningPathProgress(path.id, studentId);
+      expect(progress.courses.map(course => course.status)).toEqual(['completed', 'in_progress']);
+      expect(progress.completed_courses).toEqual(1);
+      expect(progress.progress_percentage).toEqual(50);
+      expect(progress.next_course_id).toEqual(secondCourseId);
+      expect(progress.certificate).toBeNull();
+    });
+
+    it('should issue the path certificate when the last course is completed', async () => {
+      const path = await createLearningPath({
+        title: 'Web Developer',
+        course_ids: [firstCourseId, secondCourseId],
+        is_published: true
+      }, adminId);
+      await enrollInLearningPath(path.id, studentId);
+
+      await enroll(firstCourseId);
+      await enroll(secondCourseId);
+      await completeCourse(studentId, firstCourseId);
+      await completeCourse(studentId, secondCourseId);
+
+      const progress = await getLearningPathProgress(path.id, studentId);
+      expect(progress.completed_at).toBeInstanceOf(Date);
+      expect(progress.progress_percentage).toEqual(100);
+      expect(progress.next_course_id).toBeNull();
+      expect(progress.certificate?.certificate_code).toStartWith(`PATH-${path.id}-${studentId}-`);
+
+      const notifications = await db.select()
+        .from(notificationsTable)
+        .where(eq(notificationsTable.user_id, studentId))
+        .execute();
+      expect(notifications.map(n => n.title)).toContain('Learning path completed');
+    });
+
+    it('should finish the path when the student completes the last lesson of its last course', async () => {
+      const path = await createLearningPath({ title: 'Short', course_ids: [firstCourseId], is_published: true }, adminId);
+      await enrollInLearningPath(path.id, studentId);
+      await enroll(firstCourseId);
+      const lesson = await db.insert(lessonsTable)
+        .values({ course_id: firstCourseId, title: 'Only lesson', content: 'Content', order_index: 1, duration_minutes: 10, is_published: true })
+        .returning()
+        .execute();
+
+      await updateLessonProgress({ lesson_id: lesson[0].id, watch_time_seconds: 600, is_completed: true }, studentId);
+
+      const progress = await getLearningPathProgress(path.id, studentId);
+      expect(progress.completed_at).toBeInstanceOf(Date);
+      expect(progress.certificate).not.toBeNull();
+    });
+
+    it('should not announce a path certificate that was already issued', async () => {
+      const path = await createLearningPath({ title: 'Short', course_ids: [firstCourseId], is_published: true }, adminId);
+      await enrollInLearningPath(path.id, studentId);
+      await db.insert(learningPathCertificatesTable)
+        .values({ path_id: path.id, student_id: studentId, certificate_code: 'PATH-EARLIER' })
+        .execute();
+
+      await enroll(firstCourseId);
+      await completeCourse(studentId, firstCourseId);
+
+      const notifications = await db.select()
+        .from(notificationsTable)
+        .where(eq(notificationsTable.user_id, studentId))
+        .execute();
+      expect(notifications.map(n => n.title)).not.toContain('Learning path completed');
+    });
+
+    it('should certify students who already finished every course when they join', async () => {
+      const path = await createLearningPath({ title: 'Short', course_ids: [firstCourseId], is_published: true }, adminId);
+      await enroll(firstCourseId);
+      await completeCourse(studentId, firstCourseId);
+
+      const joined = await enrollInLearningPath(path.id, studentId);
+
+      expect(joined.completed_at).toBeInstanceOf(Date);
+      expect(joined.certificate).not.toBeNull();
+    });
+
+    it('should list the paths a student has joined', async () => {
+      const path = await createLearningPath({ title: 'Joined', course_ids: [firstCourseId], is_published: true }, adminId);
+      await createLearningPath({ title: 'Not joined', course_ids: [firstCourseId], is_published: true }, adminId);
+      await enrollInLearningPath(path.id, studentId);
+
+      const mine = await getMyLearningPaths(studentId);
+      expect(mine.map(progress => progress.path.title)).toEqual(['Joined']);
+    });
+
+    it('should not join unpublished paths or the same path twice', async () => {
+      const hidden = await createLearningPath({ title: 'Hidden', course_ids: [firstCourseId] }, adminId);
+      await expect(enrollInLearningPath(hidden.id, studentId)).rejects.toThrow(/not found/i);
+
+      const path = await createLearningPath({ title: 'Open', course_ids: [firstCourseId], is_published: true }, adminId);
+      await enrollInLearningPath(path.id, studentId);
+      await expect(enrollInLearningPath(path.id, studentId)).rejects.toThrow(/already joined/i);
+    });
+  });
+});
@@ -2,8 +2,9 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { coursesTable, lessonsTable, usersTable } from '../db/schema';
-import { type CreateLessonInput } from '../schema';
-import { createLesson } from '../handlers/lessons';
+import { type CreateLessonInput, type LessonBlock, lessonBlocksSchema } from '../schema';
+import { createLesson, getLessonsByCourse, getLessonById, updateLesson, publishLesson, reorderLessons } from '../handlers/lessons';
+import { getLatestCourseSnapshot } from '../handlers/revisions';
 import { eq } from 'drizzle-orm';
 
 // Create test instructor user first
@@ -47,6 +48,35 @@ const testInput: CreateLessonInput = {
   duration_minutes: 45
 };
 
+const testBlocks: LessonBlock[] = [
+  { type: 'markdown', markdown: '## Why test?\n\nTests catch **regressions**.' },
+  { type: 'code', language: 'typescript', filename: 'sum.test.ts', code: 'expect(sum(1, 2)).toBe(3);' },
+  { type: 'callout', variant: 'tip', title: null, markdown: 'Run tests before every commit.' },
+  { type: 'file', url: 'https://example.com/cheatsheet.pdf', name: 'Cheat sheet', size_bytes: 20480 }
+];
+
+describe('lessonBlocksSchema', () => {
+  it('should accept every block type', () => {
+    const blocks = [
+      ...testBlocks,
+      { type: 'image', url: 'https://example.com/diagram.png', alt: 'Test pyramid', caption: null },
+      { type: 'video', url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ', caption: 'Walkthrough' }
+    ];
+
+    expect(lessonBlocksSchema.safeParse(blocks).success).toBe(true);
+  });
+
+  it('should reject URLs that are not http or https', () => {
+    expect(lessonBlocksSchema.safeParse([{ type: 'image', url: 'javascript:alert(1)', alt: '', caption: null }]).success).toBe(false);
+    expect(lessonBlocksSchema.safeParse([{ type: 'file', url: 'data:text/html,<script>', name: 'x', size_bytes: null }]).success).toBe(false);
+  });
+
+  it('should reject unknown block types and languages', () => {
+    expect(lessonBlocksSchema.safeParse([{ type: 'html', html: '<b>hi</b>' }]).success).toBe(false);
+    expect(lessonBlocksSchema.safeParse([{ type: 'code', language: 'cobol', filename: null, code: '' }]).success).toBe(false);
+  });
+});
+
 describe('createLesson', () => {
   beforeEach(createDB);
   afterEach(resetDB);
@@ -56,7 +86,7 @@ describe('createLesson', () => {
     const course = await createTestCourse(instructor.id);
     
     const input = { ...testInput, course_id: course.id };
-    const result = await createLesson(input);
+    const result = await createLesson(input, instructor.id);
 
     // Verify all fields are correctly set
     expect(result.id).toBeDefined();
@@ -77,7 +107,7 @@ describe('createLesson', () => {
     const course = await createTestCourse(instructor.id);
     
     const input = { ...testInput, course_id: course.id };
-    const result = await createLesson(input);
+    const result = await createLesson(input, instructor.id);
 
     // Query database to verify lesson was saved
     const lessons = await db.select()
@@ -111,7 +141,7 @@ describe('createLesson', () => {
       duration_minutes: 30
     };
 
-    const result = await createLesson(minimalInput);
+    const result = await createLesson(minimalInput, instructor.id);
 
     expect(result.title).toEqual('Minimal Lesson');
     expect(result.description).toBeNull();
@@ -124,7 +154,15 @@ describe('createLesson', () => {
   it('should throw error when course does not exist', async () => {
     const input = { ...testInput, course_id: 999999 }; // Non-existent course ID
 
-    await expect(createLesson(input)).rejects.toThrow(/Course not found/i);
+    await expect(createLesson(input, 1)).rejects.toThrow(/Course not found/i);
+  });
+
+  it('should only let course staff add lessons', async () => {
+    const instructor = await createTestInstructor();
+    const course = await createTestCourse(instructor.id);
+
+    await expect(createLesson({ ...testInput, course_id: course.id }, instructor.id + 1))
+      .rejects.toThrow(/permission to add lessons/i);
   });
 
   it('should create multiple lessons for the same course', async () => {
@@ -133,11 +171,11 @@ describe('createLesson', () => {
     
     // Create first lesson
     const input1 = { ...testInput, course_id: course.id, title: 'Lesson 1', order_index: 1 };
-    const result1 = await createLesson(input1);
+    const result1 = await createLesson(input1, instructor.id);
 
     // Create second lesson
     const input2 = { ...testInput, course_id: course.id, title: 'Lesson 2', order_index: 2 };
-    const result2 = await createLesson(input2);
+    const result2 = await createLesson(input2, instructor.id);
 
     expect(result1.id).not.toEqual(result2.id);
     expect(result1.title).toEqual('Lesson 1');
@@ -178,12 +216,202 @@ describe('createLesson', () => {
       duration_minutes: 30
     };
 
-    const videoResult = await createLesson(videoLessonInput);
-    const textResult = await createLesson(textLessonInput);
+    const videoResult = await createLesson(videoLessonInput, instructor.id);
+    const textResult = await createLesson(textLessonInput, instructor.id);
 
     expect(videoResult.video_url).toEqual('https://example.com/lesson-video.mp4');
     expect(videoResult.content).toBeNull();
     expect(textResult.video_url).toBeNull();
     expect(textResult.content).toEqual('Detailed written lesson content goes here...');
   });
-});
\ No newline at end of file
+
+  it('should store content blocks in order and default to none', async () => {
+    const instructor = await createTestInstructor();
+    const course = await createTestCourse(instructor.id);
+
+    const withBlocks = await createLesson({ ...testInput, course_id: course.id, blocks: testBlocks }, instructor.id);
+    const withoutBlocks = await createLesson({ ...testInput, course_id: course.id, order_index: 2 }, instructor.id);
+
+    expect(withBlocks.blocks).toEqual(testBlocks);
+    expect(withoutBlocks.blocks).toEqual([]);
+
+    const lessons = await db.select()
+      .from(lessonsTable)
+      .where(eq(lessonsTable.id, withBlocks.id))
+      .execute();
+    expect(lessons[0].blocks).toEqual(testBlocks);
+  });
+});
+
+describe('getLessonsByCourse', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list lessons in order with their blocks, hiding drafts from non-staff', async () => {
+    const instructor = await createTestInstructor();
+    const course = await createTestCourse(instructor.id);
+    const second = await createLesson({ ...testInput, course_id: course.id, title: 'Second', order_index: 2 }, instructor.id);
+    const first = await createLesson({ ...testInput, course_id: course.id, title: 'First', order_index: 1, blocks: testBlocks }, instructor.id);
+    const trashed = await createLesson({ ...testInput, course_id: course.id, title: 'Trashed', order_index: 3 }, instructor.id);
+    await publishLesson(first.id, instructor.id);
+    await db.update(lessonsTable).set({ deleted_at: new Date() }).where(eq(lessonsTable.id, trashed.id)).execute();
+
+    const staffView = await getLessonsByCourse(course.id, instructor.id);
+    expect(staffView.map(lesson => lesson.title)).toEqual(['First', 'Second']);
+    expect(staffView[0].blocks).toEqual(testBlocks);
+
+    const publicView = await getLessonsByCourse(course.id, null);
+    expect(publicView.map(lesson => lesson.id)).toEqual([first.id]);
+    expect(await getLessonsByCourse(course.id, instructor.id + 1)).toHaveLength(1);
+
+    expect((await getLessonById(first.id, null))!.blocks).toEqual(testBlocks);
+    expect(await getLessonById(second.id, null)).toBeNull();
+    expect((await getLessonById(second.id, instructor.id))!.title).toEqual('Second');
+    expect(await getLessonById(trashed.id, instructor.id)).toBeNull();
+  });
+});
+
+describe('updateLesson', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should update the lesson of an unpublished course in place', async () => {
+    const instructor = await createTestInstructor();
+    const course = await createTestCourse(instructor.id);
+    const lesson = await createLesson({ ...testInput, course_id: course.id }, instructor.id);
+
+    const result = await updateLesson(lesson.id, { title: 'Renamed Lesson', duration_minutes: 50 }, instructor.id);
+
+    expect(result.title).toEqual('Renamed Lesson');
+    expect(result.duration_minutes).toEqual(50);
+    expect(result.description).toEqual('Learn the basics of testing'); // Unchanged
+
+    const lessons = await db.select()
+      .from(lessonsTable)
+      .where(eq(lessonsTable.id, lesson.id))
+      .execute();
+    expect(lessons[0].title).toEqual('Renamed Lesson');
+  });
+
+  it('should replace the content blocks', async () => {
+    const instructor = await createTestInstructor();
+    const course = await createTestCourse(instructor.id);
+    const lesson = await createLesson({ ...testInput, course_id: course.id, blocks: testBlocks }, instructor.id);
+
+    const result = await updateLesson(lesson.id, { blocks: [testBlocks[1]] }, instructor.id);
+
+    expect(result.blocks).toEqual([testBlocks[1]]);
+    expect(result.title).toEqual(testInput.title); // Unchanged
+  });
+
+  it('should throw error for non-owner instructor', async () => {
+    const instructor = await createTestInstructor();
+    const course = await createTestCourse(instructor.id);
+    const lesson = await createLesson({ ...testInput, course_id: course.id }, instructor.id);
+
+    await expect(updateLesson(lesson.id, { title: 'Hijacked' }, instructor.id + 1))
+      .rejects.toThrow(/permission/i);
+  });
+
+  it('should throw error for non-existent lesson', async () => {
+    const instructor = await createTestInstructor();
+
+    await expect(updateLesson(999, { title: 'Missing' }, instructor.id))
+      .rejects.toThrow(/lesson not found/i);
+  });
+});
+
+describe('publishLesson', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should publish the lesson of an unpublished course in place', async () => {
+    const instructor = await createTestInstructor();
+    const course = await createTestCourse(instructor.id);
+    const lesson = await createLesson({ ...testInput, course_id: course.id }, instructor.id);
+
+    const result = await publishLesson(lesson.id, instructor.id);
+
+    expect(result.is_published).toBe(true);
+    const lessons = await db.select()
+      .from(lessonsTable)
+      .where(eq(lessonsTable.id, lesson.id))
+      .execute();
+    expect(lessons[0].is_published).toBe(true);
+  });
+
+  it('should publish the lesson of a live course in its draft', async () => {
+    const instructor = await createTestInstructor();
+    const course = await createTestCourse(instructor.id);
+    const lesson = await createLesson({ ...testInput, course_id: course.id }, instructor.id);
+    await db.update(coursesTable).set({ is_published: true }).where(eq(coursesTable.id, course.id)).execute();
+
+    await publishLesson(lesson.id, instructor.id);
+
+    const lessons = await db.select()
+      .from(lessonsTable)
+      .where(eq(lessonsTable.id, lesson.id))
+      .execute();
+    expect(lessons[0].is_published).toBe(false);
+    expect((await getLatestCourseSnapshot(course.id)).lessons[0].is_published).toBe(true);
+  });
+
+  it('should refuse lessons without anything to show', async () => {
+    const instructor = await createTestInstructor();
+    const course = await createTestCourse(instructor.id);
+    const lesson = await createLesson({ ...testInput, course_id: course.id, video_url: null, content: null }, instructor.id);
+
+    await expect(publishLesson(lesson.id, instructor.id)).rejects.toThrow(/before publishing/i);
+  });
+
+  it('should throw error for non-owner instructor', async () => {
+    const instructor = await createTestInstructor();
+    const course = await createTestCourse(instructor.id);
+    const lesson = await createLesson({ ...testInput, course_id: course.id }, instructor.id);
+
+    await expect(publishLesson(lesson.id, instructor.id + 1)).rejects.toThrow(/permission/i);
+  });
+});
+
+describe('reorderLessons', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should set the order of the course lessons', async () => {
+    const instructor = await createTestInstructor();
+    const course = await createTestCourse(instructor.id);
+    const first = await createLesson({ ...testInput, course_id: course.id, order_index: 1 }, instructor.id);
+    const second = await createLesson({ ...testInput, course_id: course.id, order_index: 2 }, instructor.id);
+
+    await reorderLessons(course.id, [{ lessonId: first.id, orderIndex: 2 }, { lessonId: second.id, orderIndex: 1 }], instructor.id);
+
+    const lessons = await db.select()
+      .from(lessonsTable)
+      .where(eq(lessonsTable.course_id, course.id))
+      .execute();
+    expect(lessons.find(lesson => lesson.id === first.id)!.order_index).toEqual(2);
+    expect(lessons.find(lesson => lesson.id === second.id)!.order_index).toEqual(1);
+  });
+
+  it('should not touch lessons of other courses', async () => {
+    const instructor = await createTestInstructor();
+    const course = await createTestCourse(instructor.id);
+    const other = await db.insert(usersTable)
+      .values({ email: 'other@example.com', password_hash: 'hashed_password', first_name: 'Other', last_name: 'Instructor', role: 'instructor' })
+      .returning()
+      .execute();
+    const otherCourse = await createTestCourse(other[0].id);
+    const otherLesson = await createLesson({ ...testInput, course_id: otherCourse.id }, other[0].id);
+
+    await expect(reorderLessons(course.id, [{ lessonId: otherLesson.id, orderIndex: 5 }], instructor.id))
+      .rejects.toThrow(/lesson not found/i);
+    await expect(reorderLessons(otherCourse.id, [{ lessonId: otherLesson.id, orderIndex: 5 }], instructor.id))
+      .rejects.toThrow(/permission/i);
+
+    const lessons = await db.select()
+      .from(lessonsTable)
+      .where(eq(lessonsTable.id, otherLesson.id))
+      .execute();
+    expect(lessons[0].order_index).toEqual(1);
+  });
+});
@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { loginAttemptsTable, auditLogTable } from '../db/schema';
+import { type RegisterInput } from '../schema';
+import { register, login, completeTwoFactorLogin } from '../handlers/auth';
+import { beginTwoFactorEnrollment, confirmTwoFactorEnrollment, generateTotpCode } from '../handlers/twoFactor';
+import { MemoryMailTransport, setMailTransport } from '../mail';
+import { recordLoginFailure } from '../handlers/loginThrottle';
+import { eq, and, isNull } from 'drizzle-orm';
+
+const testUserInput: RegisterInput = {
+  email: 'learner@example.com',
+  password: 'password123',
+  first_name: 'Lee',
+  last_name: 'Learner',
+  role: 'student'
+};
+
+const IP = '203.0.113.7';
+
+// Skip the backoff delay so the next attempt is evaluated immediately
+async function clearBackoff() {
+  await db.update(loginAttemptsTable)
+    .set({ blocked_until: null })
+    .where(isNull(loginAttemptsTable.locked_at))
+    .execute();
+}
+
+async function failLogins(times: number, email: string = testUserInput.email, ipAddress: string | null = IP) {
+  for (let i = 0; i < times; i++) {
+    await expect(login({ email, password: 'wrong-password' }, ipAddress)).rejects.toThrow(/invalid credentials/i);
+    await clearBackoff();
+  }
+}
+
+async function getAttempt(scope: 'account' | 'ip', identifier: string) {
+  const rows = await db.select()
+    .from(loginAttemptsTable)
+    .where(and(eq(loginAttemptsTable.scope, scope), eq(loginAttemptsTable.identifier, identifier)))
+    .execute();
+  return rows[0];
+}
+
+describe('Login throttling', () => {
+  let userId: number;
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    setMailTransport(new MemoryMailTransport());
+    userId = (await register(testUserInput)).id;
+  });
+
+  it('should count failures per account and per address', async () => {
+    await failLogins(2);
+
+    const account = await getAttempt('account', testUserInput.email);
+    const ip = await getAttempt('ip', IP);
+    expect(account.failed_count).toBe(2);
+    expect(ip.failed_count).toBe(2);
+  });
+
+  it('should allow a few failures before backing off', async () => {
+    await expect(login({ email: testUserInput.email, password: 'wrong' }, IP)).rejects.toThrow(/invalid credentials/i);
+    await expect(login({ email: testUserInput.email, password: 'wrong' }, IP)).rejects.toThrow(/invalid credentials/i);
+    await expect(login({ email: testUserInput.email, password: 'wrong' }, IP)).rejects.toThrow(/invalid credentials/i);
+    await expect(login({ email: testUserInput.email, password: 'wrong' }, IP)).rejects.toThrow(/invalid credentials/i);
+
+    // Even the right password is refused during the backoff
+    await expect(login({ email: testUserInput.email, password: testUserInput.password }, IP)).rejects.toThrow(/try again in \d+ seconds/i);
+  });
+
+  it('should double the backoff with each further failure', async () => {
+    await failLogins(4);
+    await expect(login({ email: testUserInput.email, password: 'wrong' }, IP)).rejects.toThrow(/invalid credentials/i);
+
+    // Fourth failure waits one second, the fifth two
+    const account = await getAttempt('account', testUserInput.email);
+    const delay = account.blocked_until!.getTime() - account.last_failed_at.getTime();
+    expect(delay).toBe(2000);
+  });
+
+  it('should lock the account after the threshold and audit it', async () => {
+    await failLogins(10);
+
+    const account = await getAttempt('account', testUserInput.email);
+    expect(account.locked_at).toBeInstanceOf(Date);
+    expect(account.blocked_until!.getTime()).toBeGreaterThan(Date.now() + 14 * 60 * 1000);
+
+    await expect(login({ email: testUserInput.email, password: testUserInput.password }, IP)).rejects.toThrow(/temporarily locked/i);
+
+    const audit = await db.select().from(auditLogTable).execute();
+    expect(audit).toHaveLength(1);
+    expect(audit[0].action).toBe('account_locked');
+    expect(audit[0].target_user_id).toBe(userId);
+    expect(audit[0].ip_address).toBe(IP);
+  });
+
+  it('should count concurrent failures without losing any', async () => {
+    await Promise.all(Array.from({ length: 10 }, () => recordLoginFailure(testUserInput.email, IP, userId)));
+
+    const account = await getAttempt('account', testUserInput.email);
+    expect(account.failed_count).toBe(10);
+    expect(account.locked_at).toBeInstanceOf(Date);
+    expect((await getAttempt('ip', IP)).failed_count).toBe(10);
+  });
+
+  it('should track unknown emails without revealing whether they exist', async () => {
+    await failLogins(10, 'nobody@example.com');
+
+    await expect(login({ email: 'nobody@example.com', password: 'whatever' }, IP)).rejects.toThrow(/temporarily locked/i);
+
+    const audit = await db.select().from(auditLogTable).execute();
+    expect(audit[0].target_user_id).toBeNull();
+  });
+
+  it('should treat email case-insensitively', async () => {
+    await failLogins(2, 'LEARNER@example.com');
+
+    const account = await getAttempt('account', testUserInput.email);
+    expect(account.failed_count).toBe(2);
+  });
+
+  it('should let the account sign in again once a lockout expires', async () => {
+    await failLogins(10);
+    await db.update(loginAttemptsTable)
+      .set({ blocked_until: new Date(Date.now() - 1000) })
+      .execute();
+
+    const result = await login({ email: testUserInput.email, password: testUserInput.password }, IP);
+    expect(result.twoFactorRequired).toBe(false);
+  });
+
+  it('should start counting over after a lockout expires', async () => {
+    await failLogins(10);
+    await db.update(loginAttemptsTable)
+      .set({ blocked_until: new Date(Date.now() - 1000) })
+      .execute();
+
+    await failLogins(1);
+
+    const account = await getAttempt('account', testUserInput.email);
+    expect(account.failed_count).toBe(1);
+    expect(account.locked_at).toBeNull();
+  });
+
+  it('should reset the account counter on successful login', async () => {
+    await failLogins(2);
+
+    await login({ email: testUserInput.email, password: testUserInput.password }, IP);
+
+    expect(await getAttempt('account', testUserInput.email)).toBeUndefined();
+    // The address keeps its history so one valid account can't reset it
+    expect((await getAttempt('ip', IP)).failed_count).toBe(2);
+  });
+
+  it('should block an address that fails across many accounts', async () => {
+    await db.insert(loginAttemptsTable)
+      .values({ scope: 'ip', identifier: IP, failed_count: 99, last_failed_at: new Date() })
+      .execute();
+    await failLogins(1, 'someone@example.com');
+
+    await expect(login({ email: testUserInput.email, password: testUserInput.password }, IP)).rejects.toThrow(/from this address/i);
+    // Other addresses are unaffected
+    const result = await login({ email: testUserInput.email, password: testUserInput.password }, '198.51.100.1');
+    expect(result.twoFactorRequired).toBe(false);
+
+    const audit = await db.select().from(auditLogTable).execute();
+    expect(audit[0].action).toBe('ip_locked');
+  });
+
+  it('should count wrong two-factor codes as failures', async () => {
+    const { secret } = await beginTwoFactorEnrollment(userId);
+    await confirmTwoFactorEnrollment(userId, generateTotpCode(secret));
+
+    const challenge = await login({ email: testUserInput.email, password: testUserInput.password }, IP);
+    if (!challenge.twoFactorRequired) throw new Error('Expected challenge');
+
+    await expect(completeTwoFactorLogin(challenge.challengeToken, '000000', IP)).rejects.toThrow(/invalid verification code/i);
+
+    const account = await getAttempt('account', testUserInput.email);
+    expect(account.failed_count).toBe(1);
+  });
+});
@@ -0,0 +1,289 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createUser } from '../helpers/fixtures';
+import { db } from '../db';
+import { coursesTable, enrollmentsTable, lessonsTable, mediaAssetsTable } from '../db/schema';
+import {
+  uploadMedia,
+  getMyMedia,
+  deleteMedia,
+  getMediaDownloadUrl,
+  readMedia,
+  setMediaQuota,
+  DEFAULT_MEDIA_QUOTA_BYTES,
+  MEDIA_URL_TTL_SECONDS
+} from '../handlers/media';
+import { duplicateCourse } from '../handlers/courses';
+import { eq } from 'drizzle-orm';
+import { LocalStorageDriver, MemoryStorageDriver, setStorageDriver, type StorageDriver } from '../storage';
+import { type LessonBlock, type UploadMediaInput } from '../schema';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+const MP4 = Buffer.concat([Buffer.from([0x00, 0x00, 0x00, 0x18]), Buffer.from('ftypmp42'), Buffer.alloc(16)]);
+
+let storage: MemoryStorageDriver;
+let instructorId: number;
+let otherInstructorId: number;
+let studentId: number;
+let courseId: number;
+
+function videoUpload(overrides: Partial<UploadMediaInput> = {}): UploadMediaInput {
+  return {
+    purpose: 'lesson_video',
+    course_id: courseId,
+    file_name: 'intro.mp4',
+    mime_type: 'video/mp4',
+    data: MP4.toString('base64'),
+    ...overrides
+  };
+}
+
+function linkOf(url: string) {
+  const params = new URL(url).searchParams;
+  return { expires: params.get('expires'), signature: params.get('signature') };
+}
+
+describe('Media', () => {
+  beforeEach(async () => {
+    await createDB();
+    storage = new MemoryStorageDriver();
+    setStorageDriver(storage);
+
+    instructorId = await createUser('instructor@test.com', 'instructor');
+    otherInstructorId = await createUser('other@test.com', 'instructor');
+    studentId = await createUser('student@test.com', 'student');
+
+    const course = await db.insert(coursesTable)
+      .values({
+        title: 'Pottery',
+        description: 'Wheel throwing basics',
+        price: '0',
+        duration_hours: '4',
+        instructor_id: instructorId
+      })
+      .returning()
+      .execute();
+    courseId = course[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('uploadMedia', () => {
+    it('should store the file and record it against the course', async () => {
+      const asset = await uploadMedia(videoUpload({ file_name: 'C:\\videos\\intro.mp4' }), instructorId);
+
+      expect(asset.file_name).toEqual('intro.mp4');
+      expect(asset.size_bytes).toEqual(MP4.length);
+      expect(asset.course_id).toEqual(courseId);
+      expect(asset.url).toEndWith(`/media/${asset.id}`);
+      expect(asset).not.toHaveProperty('storage_key');
+
+      const rows = await db.select().from(mediaAssetsTable).execute();
+      expect(storage.files.get(rows[0].storage_key)).toEqual(MP4);
+    });
+
+    it('should reject types not allowed for the purpose', async () => {
+      await expect(uploadMedia(videoUpload({ mime_type: 'application/pdf' }), instructorId))
+        .rejects.toThrow(/video uploads must be one of/i);
+      await expect(uploadMedia({ purpose: 'avatar', course_id: null, file_name: 'me.mp4', mime_type: 'video/mp4', data: MP4.toString('base64') }, studentId))
+        .rejects.toThrow(/avatar uploads must be one of/i);
+    });
+
+    it('should reject content that does not match the declared type', async () => {
+      await expect(uploadMedia(videoUpload({ mime_type: 'video/webm' }), instructorId))
+        .rejects.toThrow(/doesn't match its type/i);
+      await expect(uploadMedia({
+        purpose: 'avatar',
+        course_id: null,
+        file_name: 'me.png',
+        mime_type: 'image/png',
+        data: Buffer.from('<script>alert(1)</script>').toString('base64')
+      }, studentId)).rejects.toThrow(/doesn't match its type/i);
+      expect(storage.files.size).toEqual(0);
+    });
+
+    it('should enforce the size limit of the purpose', async () => {
+      const large = Buffer.concat([PNG, Buffer.alloc(2 * 1024 * 1024)]);
+
+      await expect(uploadMedia({ purpose: 'avatar', course_id: null, file_name: 'me.png', mime_type: 'image/png', data: large.toString('base64') }, studentId))
+        .rejects.toThrow(/limited to 2 MB/i);
+    });
+
+    it('should only accept course media from staff who edit the course', async () => {
+      await expect(uploadMedia(videoUpload(), otherInstructorId))
+        .rejects.toThrow(/permission to upload files to this course/i);
+      await expect(uploadMedia(videoUpload({ course_id: null }), instructorId))
+        .rejects.toThrow(/course this file belongs to/i);
+    });
+
+    it('should accept thumbnails for courses that are still being created', async () => {
+      const thumbnail = await uploadMedia({ purpose: 'course_thumbnail', course_id: null, file_name: 'cover.png', mime_type: 'image/png', data: PNG.toString('base64') }, instructorId);
+
+      expect(thumbnail.course_id).toBeNull();
+      await expect(uploadMedia({ purpose: 'course_thumbnail', course_id: courseId, file_name: 'cover.png', mime_type: 'image/png', data: PNG.toString('base64') }, otherInstructorId))
+        .rejects.toThrow(/permission to upload files to this course/i);
+    });
+
+    it('should enforce the storage quota', async () => {
+      await setMediaQuota({ userId: instructorId, quota_bytes: MP4.length + 10 });
+      await uploadMedia(videoUpload(), instructorId);
+
+      await expect(uploadMedia(videoUpload(), instructorId))
+        .rejects.toThrow(/exceed your storage quota/i);
+
+      // Deleting a file frees its space
+      const usage = await getMyMedia(instructorId);
+      await deleteMedia(usage.assets[0].id, instructorId);
+      await uploadMedia(videoUpload(), instructorId);
+    });
+
+    it('should not let concurrent uploads share the same free space', async () => {
+      await setMediaQuota({ userId: instructorId, quota_bytes: MP4.length + 10 });
+
+      const results = await Promise.allSettled([1, 2, 3].map(() => uploadMedia(videoUpload(), instructorId)));
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      expect(await db.select().from(mediaAssetsTable).execute()).toHaveLength(1);
+      expect(storage.files.size).toEqual(1);
+    });
+  });
+
+  describe('getMyMedia', () => {
+    it('should report usage against the role default or the admin-set quota', async () => {
+      await uploadMedia(videoUpload(), instructorId);
+
+      const usage = await getMyMedia(instructorId);
+      expect(usage.used_bytes).toEqual(MP4.length);
+      expect(usage.quota_bytes).toEqual(DEFAULT_MEDIA_QUOTA_BYTES.instructor);
+      expect(usage.assets.map(asset => asset.file_name)).toEqual(['intro.mp4']);
+
+      expect((await setMediaQuota({ userId: instructorId, quota_bytes: 1000 })).quota_bytes).toEqual(1000);
+      expect((await setMediaQuota({ userId: instructorId, quota_bytes: null })).quota_bytes).toEqual(DEFAULT_MEDIA_QUOTA_BYTES.instructor);
+      expect((await getMyMedia(studentId)).quota_bytes).toEqual(DEFAULT_MEDIA_QUOTA_BYTES.student);
+    });
+  });
+
+  describe('deleteMedia', () => {
+    it('should remove the file from storage for its owner only', async () => {
+      const asset = await uploadMedia(videoUpload(), instructorId);
+
+      await expect(deleteMedia(asset.id, otherInstructorId)).rejects.toThrow(/permission to delete this file/i);
+      expect(await deleteMedia(asset.id, instructorId)).toEqual({ success: true });
+
+      expect(storage.files.size).toEqual(0);
+      expect(await db.select().from(mediaAssetsTable).execute()).toEqual([]);
+    });
+  });
+
+  describe('download links', () => {
+    it('should sign course media for enrolled students only', async () => {
+      const asset = await uploadMedia(videoUpload(), instructorId);
+
+      await expect(getMediaDownloadUrl(asset.id, studentId)).rejects.toThrow(/permission to download/i);
+
+      await db.insert(enrollmentsTable).values({ student_id: studentId, course_id: courseId }).execute();
+      const now = new Date();
+      const link = await getMediaDownloadUrl(asset.id, studentId, now);
+
+      expect(link.expires_at!.getTime()).toEqual(Math.floor(now.getTime() / 1000) * 1000 + MEDIA_URL_TTL_SECONDS * 1000);
+      const media = await readMedia(asset.id, linkOf(link.url));
+      expect(media!.data).toEqual(MP4);
+      expect(media!.asset.mime_type).toEqual('video/mp4');
+    });
+
+    it('should refuse unsigned, tampered and expired links to course media', async () => {
+      const asset = await uploadMedia(videoUpload(), instructorId);
+      const link = linkOf((await getMediaDownloadUrl(asset.id, instructorId)).url);
+
+      expect(await readMedia(asset.id, { expires: null, signature: null })).toBeNull();
+      expect(await readMedia(asset.id, { ...link, expires: String(Number(link.expires) + 60) })).toBeNull();
+      expect(await readMedia(asset.id, link, new Date((Number(link.expires) + 1) * 1000))).toBeNull();
+    });
+
+    it('should give a duplicated course its own copy of the files its lessons link to', async () => {
+      const video = await uploadMedia(videoUpload(), instructorId);
+      const attachment = await uploadMedia({ purpose: 'lesson_attachment', course_id: courseId, file_name: 'notes.txt', mime_type: 'text/plain', data: Buffer.from('notes').toString('base64') }, instructorId);
+      await db.insert(lessonsTable).values({
+        course_id: courseId,
+        title: 'Centering',
+        description: null,
+        video_url: video.url,
+        content: null,
+        blocks: [{ type: 'file', url: attachment.url, name: 'notes.txt', size_bytes: 5 }],
+        order_index: 1,
+        duration_minutes: 10
+      }).execute();
+
+      const copy = await duplicateCourse({ courseId }, instructorId);
+      await db.insert(enrollmentsTable).values({ student_id: studentId, course_id: copy.id }).execute();
+
+      const [lesson] = await db.select().from(lessonsTable).where(eq(lessonsTable.course_id, copy.id)).execute();
+      const block = (lesson.blocks as LessonBlock[])[0];
+      if (block.type !== 'file') throw new Error('Expected a file block');
+      const videoId = Number(lesson.video_url!.split('/').pop());
+      const attachmentId = Number(block.url.split('/').pop());
+      expect(videoId).not.toEqual(video.id);
+      expect(attachmentId).not.toEqual(attachment.id);
+
+      const videoLink = await getMediaDownloadUrl(videoId, studentId);
+      expect((await readMedia(videoId, linkOf(videoLink.url)))!.data).toEqual(MP4);
+      const attachmentLink = await getMediaDownloadUrl(attachmentId, studentId);
+      expect((await readMedia(attachmentId, linkOf(attachmentLink.url)))!.data.toString()).toEqual('notes');
+
+      // The source course's files stay out of reach of the copy's students
+      await expect(getMediaDownloadUrl(video.id, studentId)).rejects.toThrow(/permission to download/i);
+      expect((await getMyMedia(instructorId)).used_bytes).toEqual(2 * (MP4.length + 5));
+    });
+
+    it('should not copy files the duplicating instructor cannot download', async () => {
+      const video = await uploadMedia(videoUpload(), instructorId);
+      const otherCourse = await db.insert(coursesTable)
+        .values({ title: 'Glazing', description: 'Colours', price: '0', duration_hours: '2', instructor_id: otherInstructorId })
+        .returning()
+        .execute();
+      await db.insert(lessonsTable).values({
+        course_id: otherCourse[0].id,
+        title: 'Borrowed',
+        description: null,
+        video_url: video.url,
+        content: null,
+        order_index: 1,
+        duration_minutes: 10
+      }).execute();
+
+      const copy = await duplicateCourse({ courseId: otherCourse[0].id }, otherInstructorId);
+
+      const [lesson] = await db.select().from(lessonsTable).where(eq(lessonsTable.course_id, copy.id)).execute();
+      expect(lesson.video_url).toEqual(video.url);
+      expect(await db.select().from(mediaAssetsTable).execute()).toHaveLength(1);
+    });
+
+    it('should serve avatars and thumbnails without a signature', async () => {
+      const avatar = await uploadMedia({ purpose: 'avatar', course_id: null, file_name: 'me.png', mime_type: 'image/png', data: PNG.toString('base64') }, studentId);
+
+      expect(await getMediaDownloadUrl(avatar.id, otherInstructorId)).toEqual({ url: avatar.url, expires_at: null });
+      expect((await readMedia(avatar.id, { expires: null, signature: null }))!.data).toEqual(PNG);
+    });
+  });
+
+  describe('LocalStorageDriver', () => {
+    it('should keep files under its directory', async () => {
+      const directory = await mkdtemp(path.join(tmpdir(), 'media-'));
+      const local: StorageDriver = new LocalStorageDriver(directory);
+      try {
+        await local.put('7/file', PNG, 'image/png');
+        expect(await local.get('7/file')).toEqual(PNG);
+
+        await local.delete('7/file');
+        expect(await local.get('7/file')).toBeNull();
+
+        await expect(local.put('../escape', PNG, 'image/png')).rejects.toThrow(/invalid storage key/i);
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createUser, createCourse } from '../helpers/fixtures';
+import { db } from '../db';
+import { lessonsTable, courseModerationEventsTable } from '../db/schema';
+import {
+  submitCourseForReview,
+  getModerationQueue,
+  getCourseModerationHistory
+} from '../handlers/moderation';
+import { moderateCourse } from '../handlers/admin';
+import { publishCourse } from '../handlers/courses';
+import { grantPermissionRole } from '../handlers/permissions';
+import { eq } from 'drizzle-orm';
+
+let instructorId: number;
+let adminId: number;
+let studentId: number;
+let courseId: number;
+
+// A course with one lesson, so it can be submitted
+async function createReviewableCourse(title: string): Promise<number> {
+  const id = await createCourse(instructorId, { title });
+
+  await db.insert(lessonsTable)
+    .values({
+      course_id: id,
+      title: 'Lesson One',
+      content: 'Content',
+      order_index: 1,
+      duration_minutes: 10,
+      is_published: true
+    })
+    .execute();
+
+  return id;
+}
+
+describe('Course Moderation Handlers', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    instructorId = await createUser('instructor@test.com', 'instructor');
+    adminId = await createUser('admin@test.com', 'administrator');
+    studentId = await createUser('student@test.com', 'student');
+    courseId = await createReviewableCourse('Moderated Course');
+  });
+
+  afterEach(resetDB);
+
+  describe('submitCourseForReview', () => {
+    it('should submit a draft course and record the event', async () => {
+      const course = await submitCourseForReview(courseId, instructorId);
+
+      expect(course.moderation_status).toEqual('submitted');
+      expect(typeof course.price).toBe('number');
+
+      const events = await db.select()
+        .from(courseModerationEventsTable)
+        .where(eq(courseModerationEventsTable.course_id, courseId))
+        .execute();
+      expect(events).toHaveLength(1);
+      expect(events[0].from_status).toEqual('draft');
+      expect(events[0].to_status).toEqual('submitted');
+      expect(events[0].actor_id).toEqual(instructorId);
+    });
+
+    it('should allow resubmitting a rejected course', async () => {
+      await submitCourseForReview(courseId, instructorId);
+      await moderateCourse(courseId, 'reject', 'Needs more lessons', adminId);
+
+      const course = await submitCourseForReview(courseId, instructorId);
+      expect(course.moderation_status).toEqual('submitted');
+    });
+
+    it('should not submit a course twice', async () => {
+      await submitCourseForReview(courseId, instructorId);
+
+      await expect(submitCourseForReview(courseId, instructorId)).rejects.toThrow(/awaiting review/i);
+    });
+
+    it('should require at least one lesson', async () => {
+      await db.delete(lessonsTable).where(eq(lessonsTable.course_id, courseId)).execute();
+
+      await expect(submitCourseForReview(courseId, instructorId)).rejects.toThrow(/at least one lesson/i);
+    });
+
+    it('should reject other instructors', async () => {
+      const otherId = await createUser('other@test.com', 'instructor');
+
+      await expect(submitCourseForReview(courseId, otherId)).rejects.toThrow(/do not have permission/i);
+    });
+  });
+
+  describe('review workflow', () => {
+    it('should move a course from draft to published', async () => {
+      await expect(publishCourse(courseId, instructorId)).rejects.toThrow(/approved by a moderator/i);
+
+      await submitCourseForReview(courseId, instructorId);
+      await moderateCourse(courseId, 'approve', null, adminId);
+      const published = await publishCourse(courseId, instructorId);
+
+      expect(published.is_published).toBe(true);
+      expect(published.moderation_status).toEqual('published');
+
+      const history = await getCourseModerationHistory(courseId, instructorId);
+      expect(history.map(event => event.to_status)).toEqual(['published', 'approved', 'submitted']);
+    });
+
+    it('should send a taken-down course back to the instructor', async () => {
+      await submitCourseForReview(courseId, instructorId);
+      await moderateCourse(courseId, 'approve', null, adminId);
+      await publishCourse(courseId, instructorId);
+
+      const rejected = await moderateCourse(courseId, 'reject', 'Misleading description', adminId);
+      expect(rejected.is_published).toBe(false);
+
+      // A fresh approval is needed before the course can go live again
+      await expect(publishCourse(courseId, instructorId)).rejects.toThrow(/approved by a moderator/i);
+
+      await submitCourseForReview(courseId, instructorId);
+      await moderateCourse(courseId, 'approve', null, adminId);
+      const republished = await publishCourse(courseId, instructorId);
+      expect(republished.is_published).toBe(true);
+    });
+  });
+
+  describe('getModerationQueue', () => {
+    it('should list submitted courses oldest first', async () => {
+      const secondId = await createReviewableCourse('Second Course');
+      await createReviewableCourse('Never Submitted');
+
+      await submitCourseForReview(courseId, instructorId);
+      await submitCourseForReview(secondId, instructorId);
+
+      const queue = await getModerationQueue(adminId);
+
+      expect(queue.map(item => item.id)).toEqual([courseId, secondId]);
+      expect(queue[0].instructor_name).toEqual('Test User');
+      expect(queue[0].lesson_count).toEqual(1);
+      expect(queue[0].submitted_at).toBeInstanceOf(Date);
+    });
+
+    it('should not count lessons in the trash', async () => {
+      await db.insert(lessonsTable)
+        .values({ course_id: courseId, title: 'Removed', content: 'Content', order_index: 2, duration_minutes: 10, deleted_at: new Date() })
+        .execute();
+      await submitCourseForReview(courseId, instructorId);
+
+      const queue = await getModerationQueue(adminId);
+      expect(queue[0].lesson_count).toEqual(1);
+    });
+
+    it('should drop courses once they are decided', async () => {
+      await submitCourseForReview(courseId, instructorId);
+      await moderateCourse(courseId, 'approve', null, adminId);
+
+      const queue = await getModerationQueue(adminId);
+      expect(queue).toHaveLength(0);
+    });
+
+    it('should be available to content moderators', async () => {
+      const moderatorId = await createUser('moderator@test.com', 'instructor');
+      await grantPermissionRole({ userId: moderatorId, role: 'content_moderator' }, adminId);
+      await submitCourseForReview(courseId, instructorId);
+
+      const queue = await getModerationQueue(moderatorId);
+      expect(queue).toHaveLength(1);
+    });
+
+    it('should reject users without the moderation permission', async () => {
+      await expect(getModerationQueue(studentId)).rejects.toThrow(/Unauthorized/i);
+    });
+  });
+
+  describe('getCourseModerationHistory', () => {
+    it('should include rejection reasons and actor names', async () => {
+      await submitCourseForReview(courseId, instructorId);
+      await moderateCourse(courseId, 'reject', 'Audio is too quiet', adminId);
+
+      const history = await getCourseModerationHistory(courseId, adminId);
+
+      expect(history).toHaveLength(2);
+      expect(history[0].to_status).toEqual('rejected');
+      expect(history[0].reason).toEqual('Audio is too quiet');
+      expect(history[0].actor_name).toEqual('Test User');
+    });
+
+    it('should hide history from unrelated users', async () => {
+      await expect(getCourseModerationHistory(courseId, studentId)).rejects.toThrow(/do not have permission/i);
+    });
+
+    it('should throw for a missing course', async () => {
+      await expect(getCourseModerationHistory(99999, adminId)).rejects.toThrow(/Course not found/i);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'bun:test';
+import { hashPassword, verifyPassword, needsRehash } from '../password';
+import { registerInputSchema, resetPasswordInputSchema } from '../schema';
+import crypto from 'crypto';
+
+function legacyHash(password: string): string {
+  const salt = crypto.randomBytes(16).toString('hex');
+  return `${salt}:${crypto.pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex')}`;
+}
+
+describe('Password hashing', () => {
+  it('should produce a versioned scrypt hash', async () => {
+    const hash = await hashPassword('correct horse 1');
+
+    expect(hash).toMatch(/^\$scrypt\$ln=15,r=8,p=1\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/);
+    expect(hash).not.toContain('correct horse 1');
+  });
+
+  it('should use a fresh salt for every hash', async () => {
+    const first = await hashPassword('password123');
+    const second = await hashPassword('password123');
+
+    expect(first).not.toBe(second);
+  });
+
+  it('should verify current hashes', async () => {
+    const hash = await hashPassword('password123');
+
+    expect(await verifyPassword('password123', hash)).toBe(true);
+    expect(await verifyPassword('password124', hash)).toBe(false);
+  });
+
+  it('should verify legacy PBKDF2 hashes', async () => {
+    const hash = legacyHash('password123');
+
+    expect(await verifyPassword('password123', hash)).toBe(true);
+    expect(await verifyPassword('wrongpassword', hash)).toBe(false);
+  });
+
+  it('should reject malformed hashes', async () => {
+    expect(await verifyPassword('password123', 'not-a-hash')).toBe(false);
+    expect(await verifyPassword('password123', '$scrypt$garbage')).toBe(false);
+    expect(await verifyPassword('password123', 'abcd:1234')).toBe(false);
+  });
+
+  it('should flag legacy and weaker hashes for rehash', async () => {
+    expect(needsRehash(legacyHash('password123'))).toBe(true);
+    expect(needsRehash(await hashPassword('password123'))).toBe(false);
+
+    // Same scheme, lower cost
+    const current = await hashPassword('password123');
+    expect(needsRehash(current.replace('ln=15', 'ln=14'))).toBe(true);
+  });
+});
+
+describe('Password policy', () => {
+  const baseInput = {
+    email: 'policy@example.com',
+    first_name: 'Pat',
+    last_name: 'Policy',
+    role: 'student' as const
+  };
+
+  it('should accept a password with letters and numbers', () => {
+    expect(registerInputSchema.safeParse({ ...baseInput, password: 'password123' }).success).toBe(true);
+  });
+
+  it('should reject short passwords', () => {
+    expect(registerInputSchema.safeParse({ ...baseInput, password: 'abc123' }).success).toBe(false);
+  });
+
+  it('should require a letter and a number', () => {
+    expect(registerInputSchema.safeParse({ ...baseInput, password: 'onlyletters' }).success).toBe(false);
+    expect(registerInputSchema.safeParse({ ...baseInput, password: '1234567890' }).success).toBe(false);
+  });
+
+  it('should reject repetitive passwords', () => {
+    expect(registerInputSchema.safeParse({ ...baseInput, password: 'aaaa1111' }).success).toBe(false);
+  });
+
+  it('should reject overly long passwords', () => {
+    expect(registerInputSchema.safeParse({ ...baseInput, password: 'a1'.repeat(65) }).success).toBe(false);
+  });
+
+  it('should apply to password resets', () => {
+    expect(resetPasswordInputSchema.safeParse({ token: 'abc', newPassword: 'weak' }).success).toBe(false);
+    expect(resetPasswordInputSchema.safeParse({ token: 'abc', newPassword: 'newpassword456' }).success).toBe(true);
+  });
+});
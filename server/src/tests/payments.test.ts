@@ -264,6 +264,9 @@ describe('Payment Handlers', () => {
       expect(enrollments).toHaveLength(1);
       expect(enrollments[0].progress_percentage).toBe(0);
       expect(enrollments[0].is_completed).toBe(false);
+
+      // A completed payment can't enroll its buyer again
+      await expect(processPayment(paymentId, 'txn_67890')).rejects.toThrow(/only pending payments/i);
     });
 
     it('should throw error for non-existent payment', async () => {
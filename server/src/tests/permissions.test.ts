@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createUser, createCourse } from '../helpers/fixtures';
+import { db } from '../db';
+import { usersTable, auditLogTable } from '../db/schema';
+import {
+  hasPermission,
+  getUserPermissionGrants,
+  grantPermissionRole,
+  revokePermissionGrant
+} from '../handlers/permissions';
+import { getRevenueReport, getAllUsers } from '../handlers/admin';
+import { eq } from 'drizzle-orm';
+
+let adminId: number;
+let instructorId: number;
+let otherInstructorId: number;
+let studentId: number;
+let courseId: number;
+let otherCourseId: number;
+
+describe('Permission Handlers', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    adminId = await createUser('admin@test.com', 'administrator');
+    instructorId = await createUser('instructor@test.com', 'instructor');
+    otherInstructorId = await createUser('other@test.com', 'instructor');
+    studentId = await createUser('student@test.com', 'student');
+    courseId = await createCourse(instructorId, { title: 'Owned Course' });
+    otherCourseId = await createCourse(otherInstructorId, { title: 'Other Course' });
+  });
+
+  afterEach(resetDB);
+
+  describe('hasPermission', () => {
+    it('should grant administrators every permission', async () => {
+      expect(await hasPermission(adminId, 'revenue.view')).toBe(true);
+      expect(await hasPermission(adminId, 'permissions.manage')).toBe(true);
+      expect(await hasPermission(adminId, 'course.grade', { courseId: otherCourseId })).toBe(true);
+    });
+
+    it('should give instructors course permissions on their own courses only', async () => {
+      expect(await hasPermission(instructorId, 'course.view_roster', { courseId })).toBe(true);
+      expect(await hasPermission(instructorId, 'course.view_roster', { courseId: otherCourseId })).toBe(false);
+      expect(await hasPermission(instructorId, 'revenue.view')).toBe(false);
+    });
+
+    it('should deny users without grants', async () => {
+      expect(await hasPermission(studentId, 'users.view')).toBe(false);
+      expect(await hasPermission(studentId, 'course.grade', { courseId })).toBe(false);
+    });
+
+    it('should limit teaching assistants to the granted course', async () => {
+      await grantPermissionRole({ userId: studentId, role: 'teaching_assistant', courseId }, adminId);
+
+      expect(await hasPermission(studentId, 'course.grade', { courseId })).toBe(true);
+      expect(await hasPermission(studentId, 'course.view_roster', { courseId })).toBe(true);
+      expect(await hasPermission(studentId, 'course.grade', { courseId: otherCourseId })).toBe(false);
+      expect(await hasPermission(studentId, 'course.grade')).toBe(false);
+      expect(await hasPermission(studentId, 'users.view')).toBe(false);
+    });
+
+    it('should let finance viewers see revenue but not manage users', async () => {
+      await grantPermissionRole({ userId: studentId, role: 'finance_viewer' }, adminId);
+
+      expect(await hasPermission(studentId, 'revenue.view')).toBe(true);
+      expect(await hasPermission(studentId, 'analytics.view')).toBe(true);
+      expect(await hasPermission(studentId, 'users.manage')).toBe(false);
+
+      const report = await getRevenueReport(studentId, new Date(Date.now() - 86400000), new Date());
+      expect(report.totalRevenue).toEqual(0);
+      await expect(getAllUsers(studentId)).rejects.toThrow(/unauthorized/i);
+    });
+
+    it('should deny deactivated users even with grants', async () => {
+      await grantPermissionRole({ userId: studentId, role: 'content_moderator' }, adminId);
+      await db.update(usersTable)
+        .set({ is_active: false })
+        .where(eq(usersTable.id, studentId))
+        .execute();
+
+      expect(await hasPermission(studentId, 'courses.moderate')).toBe(false);
+    });
+  });
+
+  describe('grantPermissionRole', () => {
+    it('should record the grant and audit it', async () => {
+      const grant = await grantPermissionRole({ userId: studentId, role: 'teaching_assistant', courseId }, adminId);
+
+      expect(grant.user_id).toEqual(studentId);
+      expect(grant.role).toEqual('teaching_assistant');
+      expect(grant.course_id).toEqual(courseId);
+      expect(grant.granted_by).toEqual(adminId);
+
+      const audit = await db.select().from(auditLogTable).execute();
+      expect(audit).toHaveLength(1);
+      expect(audit[0].action).toEqual('permission_granted');
+      expect(audit[0].actor_id).toEqual(adminId);
+      expect(audit[0].target_user_id).toEqual(studentId);
+    });
+
+    it('should require a course for teaching assistants', async () => {
+      await expect(grantPermissionRole({ userId: studentId, role: 'teaching_assistant' }, adminId))
+        .rejects.toThrow(/course is required/i);
+      await expect(grantPermissionRole({ userId: studentId, role: 'teaching_assistant', courseId: 99999 }, adminId))
+        .rejects.toThrow(/course not found/i);
+    });
+
+    it('should reject a course for global roles', async () => {
+      await expect(grantPermissionRole({ userId: studentId, role: 'finance_viewer', courseId }, adminId))
+        .rejects.toThrow(/cannot be limited to a course/i);
+    });
+
+    it('should reject duplicate grants', async () => {
+      await grantPermissionRole({ userId: studentId, role: 'finance_viewer' }, adminId);
+
+      await expect(grantPermissionRole({ userId: studentId, role: 'finance_viewer' }, adminId))
+        .rejects.toThrow(/already granted/i);
+    });
+
+    it('should allow the same role on different courses', async () => {
+      await grantPermissionRole({ userId: studentId, role: 'teaching_assistant', courseId }, adminId);
+      await grantPermissionRole({ userId: studentId, role: 'teaching_assistant', courseId: otherCourseId }, adminId);
+
+      const grants = await getUserPermissionGrants(studentId, adminId);
+      expect(grants).toHaveLength(2);
+    });
+
+    it('should reject callers without permissions.manage', async () => {
+      await grantPermissionRole({ userId: studentId, role: 'finance_viewer' }, adminId);
+
+      await expect(grantPermissionRole({ userId: instructorId, role: 'finance_viewer' }, studentId))
+        .rejects.toThrow(/unauthorized/i);
+      await expect(getUserPermissionGrants(studentId, instructorId)).rejects.toThrow(/unauthorized/i);
+    });
+  });
+
+  describe('revokePermissionGrant', () => {
+    it('should remove the grant and audit it', async () => {
+      const grant = await grantPermissionRole({ userId: studentId, role: 'finance_viewer' }, adminId);
+
+      const result = await revokePermissionGrant(grant.id, adminId);
+
+      expect(result.success).toBe(true);
+      expect(await hasPermission(studentId, 'revenue.view')).toBe(false);
+      expect(await getUserPermissionGrants(studentId, adminId)).toHaveLength(0);
+
+      const audit = await db.select().from(auditLogTable).where(eq(auditLogTable.action, 'permission_revoked')).execute();
+      expect(audit).toHaveLength(1);
+      expect(audit[0].target_user_id).toEqual(studentId);
+    });
+
+    it('should throw for a missing grant', async () => {
+      await expect(revokePermissionGrant(99999, adminId)).rejects.toThrow(/not found/i);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createUser, createCourse } from '../helpers/fixtures';
+import { db } from '../db';
+import { enrollmentsTable, certificatesTable } from '../db/schema';
+import {
+  getCoursePrerequisites,
+  setCoursePrerequisites,
+  getPrerequisiteStatus
+} from '../handlers/prerequisites';
+import { enrollInCourse } from '../handlers/enrollments';
+import { createPayment } from '../handlers/payments';
+
+let instructorId: number;
+let studentId: number;
+let basicsId: number;
+let advancedId: number;
+
+async function completeBasics(withCertificate: boolean) {
+  await db.insert(enrollmentsTable)
+    .values({ student_id: studentId, course_id: basicsId, is_completed: true, progress_percentage: 100 })
+    .execute();
+
+  if (withCertificate) {
+    await db.insert(certificatesTable)
+      .values({ student_id: studentId, course_id: basicsId, certificate_code: 'CERT-BASICS' })
+      .execute();
+  }
+}
+
+describe('Course Prerequisites', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    instructorId = await createUser('instructor@test.com', 'instructor');
+    studentId = await createUser('student@test.com', 'student');
+    basicsId = await createCourse(instructorId, { title: 'Basics', is_published: true });
+    advancedId = await createCourse(instructorId, { title: 'Advanced', is_published: true });
+  });
+
+  afterEach(resetDB);
+
+  describe('setCoursePrerequisites', () => {
+    it('should replace the prerequisites of a course', async () => {
+      const intermediateId = await createCourse(instructorId, { title: 'Intermediate', is_published: true });
+
+      await setCoursePrerequisites(advancedId, [{ course_id: basicsId, is_required: true, requires_certificate: false }], instructorId);
+      const result = await setCoursePrerequisites(advancedId, [
+        { course_id: intermediateId, is_required: false, requires_certificate: true }
+      ], instructorId);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].prerequisite_course_id).toEqual(intermediateId);
+      expect(result[0].prerequisite_title).toEqual('Intermediate');
+      expect(result[0].is_required).toBe(false);
+      expect(result[0].requires_certificate).toBe(true);
+
+      const stored = await getCoursePrerequisites(advancedId);
+      expect(stored.map(p => p.prerequisite_course_id)).toEqual([intermediateId]);
+    });
+
+    it('should reject a course requiring itself', async () => {
+      await expect(setCoursePrerequisites(advancedId, [{ course_id: advancedId, is_required: true, requires_certificate: false }], instructorId))
+        .rejects.toThrow(/own prerequisite/i);
+    });
+
+    it('should reject circular requirements', async () => {
+      const intermediateId = await createCourse(instructorId, { title: 'Intermediate', is_published: true });
+      await setCoursePrerequisites(intermediateId, [{ course_id: basicsId, is_required: true, requires_certificate: false }], instructorId);
+      await setCoursePrerequisites(advancedId, [{ course_id: intermediateId, is_required: true, requires_certificate: false }], instructorId);
+
+      await expect(setCoursePrerequisites(basicsId, [{ course_id: advancedId, is_required: true, requires_certificate: false }], instructorId))
+        .rejects.toThrow(/circular/i);
+    });
+
+    it('should reject unknown courses', async () => {
+      await expect(setCoursePrerequisites(advancedId, [{ course_id: 99999, is_required: true, requires_certificate: false }], instructorId))
+        .rejects.toThrow(/not found/i);
+    });
+
+    it('should reject other instructors', async () => {
+      const otherId = await createUser('other@test.com', 'instructor');
+
+      await expect(setCoursePrerequisites(advancedId, [], otherId)).rejects.toThrow(/do not have permission/i);
+    });
+  });
+
+  describe('getPrerequisiteStatus', () => {
+    it('should require a certificate when asked to', async () => {
+      await setCoursePrerequisites(advancedId, [{ course_id: basicsId, is_required: true, requires_certificate: true }], instructorId);
+      await completeBasics(false);
+
+      let status = await getPrerequisiteStatus(advancedId, studentId);
+      expect(status[0].is_met).toBe(false);
+
+      await db.insert(certificatesTable)
+        .values({ student_id: studentId, course_id: basicsId, certificate_code: 'CERT-BASICS' })
+        .execute();
+
+      status = await getPrerequisiteStatus(advancedId, studentId);
+      expect(status[0].is_met).toBe(true);
+    });
+  });
+
+  describe('enrollInCourse', () => {
+    it('should block enrollment until required prerequisites are completed', async () => {
+      await setCoursePrerequisites(advancedId, [{ course_id: basicsId, is_required: true, requires_certificate: false }], instructorId);
+
+      await expect(enrollInCourse({ course_id: advancedId, acknowledge_prerequisites: true }, studentId))
+        .rejects.toThrow(/Complete the prerequisites before enrolling: Basics/);
+
+      await completeBasics(false);
+      const enrollment = await enrollInCourse({ course_id: advancedId }, studentId);
+      expect(enrollment.course_id).toEqual(advancedId);
+    });
+
+    it('should name the certificate when one is missing', async () => {
+      await setCoursePrerequisites(advancedId, [{ course_id: basicsId, is_required: true, requires_certificate: true }], instructorId);
+      await completeBasics(false);
+
+      await expect(enrollInCourse({ course_id: advancedId }, studentId)).rejects.toThrow(/Basics \(with certificate\)/);
+    });
+
+    it('should warn about recommended prerequisites until acknowledged', async () => {
+      await setCoursePrerequisites(advancedId, [{ course_id: basicsId, is_required: false, requires_certificate: false }], instructorId);
+
+      await expect(enrollInCourse({ course_id: advancedId }, studentId)).rejects.toThrow(/recommends completing Basics/);
+
+      const enrollment = await enrollInCourse({ course_id: advancedId, acknowledge_prerequisites: true }, studentId);
+      expect(enrollment.course_id).toEqual(advancedId);
+    });
+  });
+
+  describe('createPayment', () => {
+    it('should not take payment while required prerequisites are missing', async () => {
+      await setCoursePrerequisites(advancedId, [{ course_id: basicsId, is_required: true, requires_certificate: false }], instructorId);
+
+      await expect(createPayment({ course_id: advancedId, payment_method: 'card' }, studentId))
+        .rejects.toThrow(/Complete the prerequisites/);
+    });
+  });
+});
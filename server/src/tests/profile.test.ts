@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, passwordResetTokensTable } from '../db/schema';
+import { type RegisterInput, type LoginInput } from '../schema';
+import { register, login, changePassword, changeEmail, verifyEmail, forgotPassword, authenticateToken } from '../handlers/auth';
+import { getMyProfile, updateMyProfile } from '../handlers/profile';
+import { MemoryMailTransport, setMailTransport } from '../mail';
+import { eq, isNull } from 'drizzle-orm';
+
+const testUserInput: RegisterInput = {
+  email: 'profile@example.com',
+  password: 'password123',
+  first_name: 'Pat',
+  last_name: 'Profile',
+  role: 'student'
+};
+
+const otherUserInput: RegisterInput = {
+  email: 'other@example.com',
+  password: 'password123',
+  first_name: 'Olive',
+  last_name: 'Other',
+  role: 'instructor'
+};
+
+async function signIn(input: LoginInput) {
+  const result = await login(input);
+  if (result.twoFactorRequired) {
+    throw new Error('Unexpected two-factor challenge');
+  }
+  return result;
+}
+
+function extractToken(text: string, param: string): string {
+  const match = new RegExp(`${param}=([a-f0-9]+)`).exec(text);
+  if (!match) throw new Error(`No ${param} in message`);
+  return match[1];
+}
+
+describe('Profile Handlers', () => {
+  let mailbox: MemoryMailTransport;
+  let userId: number;
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    mailbox = new MemoryMailTransport();
+    setMailTransport(mailbox);
+    userId = (await register(testUserInput)).id;
+  });
+
+  describe('getMyProfile', () => {
+    it('should return the profile without the password hash', async () => {
+      const profile = await getMyProfile(userId);
+
+      expect(profile.email).toBe('profile@example.com');
+      expect(profile.first_name).toBe('Pat');
+      expect(profile.pending_email).toBeNull();
+      expect(profile).not.toHaveProperty('password_hash');
+    });
+
+    it('should throw for a missing user', async () => {
+      await expect(getMyProfile(99999)).rejects.toThrow(/user not found/i);
+    });
+  });
+
+  describe('updateMyProfile', () => {
+    it('should update name and avatar', async () => {
+      const profile = await updateMyProfile(userId, {
+        first_name: 'Patricia',
+        avatar_url: 'https://example.com/avatar.png'
+      });
+
+      expect(profile.first_name).toBe('Patricia');
+      expect(profile.last_name).toBe('Profile');
+      expect(profile.avatar_url).toBe('https://example.com/avatar.png');
+      expect(profile).not.toHaveProperty('password_hash');
+    });
+
+    it('should clear the avatar when set to null', async () => {
+      await updateMyProfile(userId, { avatar_url: 'https://example.com/avatar.png' });
+      const profile = await updateMyProfile(userId, { avatar_url: null });
+
+      expect(profile.avatar_url).toBeNull();
+    });
+
+    it('should leave email, role and status untouched', async () => {
+      // Extra keys are stripped by the input schema; make sure the handler ignores them too
+      await updateMyProfile(userId, { last_name: 'Changed', role: 'administrator', email: 'x@example.com' } as never);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+      expect(users[0].last_name).toBe('Changed');
+      expect(users[0].role).toBe('student');
+      expect(users[0].email).toBe('profile@example.com');
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should change the password and keep the current session', async () => {
+      const current = await signIn({ email: testUserInput.email, password: testUserInput.password });
+      const other = await signIn({ email: testUserInput.email, password: testUserInput.password });
+      const session = await authenticateToken(current.token);
+
+      await changePassword(userId, session!.sessionId, 'password123', 'newpassword456');
+
+      expect(await authenticateToken(current.token)).not.toBeNull();
+      expect(await authenticateToken(other.token)).toBeNull();
+
+      await expect(login({ email: testUserInput.email, password: 'password123' })).rejects.toThrow(/invalid credentials/i);
+      const result = await signIn({ email: testUserInput.email, password: 'newpassword456' });
+      expect(result.user.id).toBe(userId);
+    });
+
+    it('should reject a wrong current password', async () => {
+      await expect(changePassword(userId, null, 'wrongpassword1', 'newpassword456')).rejects.toThrow(/current password is incorrect/i);
+
+      const sessions = await db.select().from(sessionsTable).execute();
+      expect(sessions.every(session => session.revoked_at === null)).toBe(true);
+    });
+
+    it('should invalidate outstanding reset links and notify the user', async () => {
+      await forgotPassword(testUserInput.email);
+
+      await changePassword(userId, null, 'password123', 'newpassword456');
+
+      const unused = await db.select()
+        .from(passwordResetTokensTable)
+        .where(isNull(passwordResetTokensTable.used_at))
+        .execute();
+      expect(unused).toHaveLength(0);
+      expect(mailbox.sent.at(-1)!.subject).toMatch(/password was changed/i);
+    });
+  });
+
+  describe('changeEmail', () => {
+    it('should send a confirmation link to the new address without changing the email yet', async () => {
+      await changeEmail(userId, 'new@example.com', 'password123');
+
+      const confirmation = mailbox.sent.find(message => message.to === 'new@example.com');
+      expect(confirmation).toBeDefined();
+      const notice = mailbox.sent.find(message => message.to === 'profile@example.com' && /email change/i.test(message.subject));
+      expect(notice).toBeDefined();
+
+      const profile = await getMyProfile(userId);
+      expect(profile.email).toBe('profile@example.com');
+      expect(profile.pending_email).toBe('new@example.com');
+    });
+
+    it('should switch the email once the new address is verified', async () => {
+      await changeEmail(userId, 'new@example.com', 'password123');
+      const confirmation = mailbox.sent.find(message => message.to === 'new@example.com')!;
+
+      await verifyEmail(extractToken(confirmation.text, 'verifyToken'));
+
+      const profile = await getMyProfile(userId);
+      expect(profile.email).toBe('new@example.com');
+      expect(profile.email_verified).toBe(true);
+      expect(profile.pending_email).toBeNull();
+
+      const result = await signIn({ email: 'new@example.com', password: 'password123' });
+      expect(result.user.id).toBe(userId);
+    });
+
+    it('should only honour the latest change request', async () => {
+      await changeEmail(userId, 'first@example.com', 'password123');
+      await changeEmail(userId, 'second@example.com', 'password123');
+      const first = mailbox.sent.find(message => message.to === 'first@example.com')!;
+
+      await expect(verifyEmail(extractToken(first.text, 'verifyToken'))).rejects.toThrow(/invalid or expired/i);
+
+      const profile = await getMyProfile(userId);
+      expect(profile.pending_email).toBe('second@example.com');
+    });
+
+    it('should reject a wrong password', async () => {
+      await expect(changeEmail(userId, 'new@example.com', 'wrongpassword1')).rejects.toThrow(/password is incorrect/i);
+    });
+
+    it('should reject an address already in use', async () => {
+      await register(otherUserInput);
+
+      await expect(changeEmail(userId, 'Other@example.com', 'password123')).rejects.toThrow(/already registered/i);
+    });
+
+    it('should reject the current address', async () => {
+      await expect(changeEmail(userId, 'profile@example.com', 'password123')).rejects.toThrow(/same as the current email/i);
+    });
+
+    it('should refuse to confirm if the address was taken in the meantime', async () => {
+      await changeEmail(userId, 'new@example.com', 'password123');
+      const confirmation = mailbox.sent.find(message => message.to === 'new@example.com')!;
+      await register({ ...otherUserInput, email: 'new@example.com' });
+
+      await expect(verifyEmail(extractToken(confirmation.text, 'verifyToken'))).rejects.toThrow(/already registered/i);
+
+      const profile = await getMyProfile(userId);
+      expect(profile.email).toBe('profile@example.com');
+    });
+  });
+});
@@ -12,7 +12,7 @@ import {
 import { 
   type CreateQuizInput, 
   type CreateQuizQuestionInput, 
-  type SubmitQuizInput 
+  type SubmitQuizInput
 } from '../schema';
 import { 
   createQuiz, 
@@ -21,10 +21,12 @@ import {
   getQuizQuestions, 
   submitQuiz, 
   getQuizAttempts, 
+  getCourseQuizAttempts, 
   getStudentQuizAttempt, 
   updateQuiz, 
   deleteQuiz 
 } from '../handlers/quizzes';
+import { getLatestCourseSnapshot, publishCourseRevision } from '../handlers/revisions';
 import { eq, and } from 'drizzle-orm';
 
 // Test data
@@ -33,6 +35,7 @@ let testCourseId: number;
 let testLessonId: number;
 let testQuizId: number;
 let testStudentId: number;
+let otherInstructorId: number;
 
 const testQuizInput: CreateQuizInput = {
   lesson_id: 0, // Will be set in beforeEach
@@ -107,15 +110,29 @@ describe('Quiz Handlers', () => {
       .execute();
     testStudentId = studentResult[0].id;
 
-    // Create test course
+    // Create an instructor with no role on the test course
+    const otherInstructorResult = await db.insert(usersTable)
+      .values({
+        email: 'other@test.com',
+        password_hash: 'hashedpassword',
+        first_name: 'Olivia',
+        last_name: 'Other',
+        role: 'instructor',
+        is_active: true,
+        email_verified: true
+      })
+      .returning()
+      .execute();
+    otherInstructorId = otherInstructorResult[0].id;
+
+    // Create test course; unpublished, so quiz changes aren't held in a draft
     const courseResult = await db.insert(coursesTable)
       .values({
         title: 'JavaScript Basics',
         description: 'Learn JavaScript fundamentals',
         price: '49.99',
         instructor_id: testUserId,
-        duration_hours: '10.5',
-        is_published: true
+        duration_hours: '10.5'
       })
       .returning()
       .execute();
@@ -144,7 +161,7 @@ describe('Quiz Handlers', () => {
 
   describe('createQuiz', () => {
     it('should create a quiz successfully', async () => {
-      const result = await createQuiz(testQuizInput);
+      const result = await createQuiz(testQuizInput, testUserId);
 
       expect(result.id).toBeDefined();
       expect(result.lesson_id).toEqual(testLessonId);
@@ -159,7 +176,7 @@ describe('Quiz Handlers', () => {
     });
 
     it('should save quiz to database', async () => {
-      const result = await createQuiz(testQuizInput);
+      const result = await createQuiz(testQuizInput, testUserId);
 
       const quizzes = await db.select()
         .from(quizzesTable)
@@ -174,7 +191,11 @@ describe('Quiz Handlers', () => {
     it('should throw error for non-existent lesson', async () => {
       const invalidInput = { ...testQuizInput, lesson_id: 9999 };
 
-      await expect(createQuiz(invalidInput)).rejects.toThrow(/lesson not found/i);
+      await expect(createQuiz(invalidInput, testUserId)).rejects.toThrow(/lesson not found/i);
+    });
+
+    it('should only let course staff add quizzes', async () => {
+      await expect(createQuiz(testQuizInput, otherInstructorId)).rejects.toThrow(/permission to add quizzes/i);
     });
 
     it('should create quiz with minimal data', async () => {
@@ -187,7 +208,7 @@ describe('Quiz Handlers', () => {
         max_attempts: null
       };
 
-      const result = await createQuiz(minimalInput);
+      const result = await createQuiz(minimalInput, testUserId);
 
       expect(result.title).toEqual('Simple Quiz');
       expect(result.description).toBeNull();
@@ -198,14 +219,14 @@ describe('Quiz Handlers', () => {
 
   describe('createQuizQuestion', () => {
     beforeEach(async () => {
-      const quiz = await createQuiz(testQuizInput);
+      const quiz = await createQuiz(testQuizInput, testUserId);
       testQuizId = quiz.id;
       testQuestionInputs.forEach(q => q.quiz_id = testQuizId);
     });
 
     it('should create a multiple choice question', async () => {
       const questionInput = testQuestionInputs[0];
-      const result = await createQuizQuestion(questionInput);
+      const result = await createQuizQuestion(questionInput, testUserId);
 
       expect(result.id).toBeDefined();
       expect(result.quiz_id).toEqual(testQuizId);
@@ -221,7 +242,7 @@ describe('Quiz Handlers', () => {
 
     it('should create a true/false question', async () => {
       const questionInput = testQuestionInputs[1];
-      const result = await createQuizQuestion(questionInput);
+      const result = await createQuizQuestion(questionInput, testUserId);
 
       expect(result.question_type).toEqual('true_false');
       expect(result.options).toEqual(['true', 'false']);
@@ -231,7 +252,7 @@ describe('Quiz Handlers', () => {
 
     it('should create a short answer question', async () => {
       const questionInput = testQuestionInputs[2];
-      const result = await createQuizQuestion(questionInput);
+      const result = await createQuizQuestion(questionInput, testUserId);
 
       expect(result.question_type).toEqual('short_answer');
       expect(result.options).toBeNull();
@@ -241,7 +262,7 @@ describe('Quiz Handlers', () => {
 
     it('should save question to database', async () => {
       const questionInput = testQuestionInputs[0];
-      const result = await createQuizQuestion(questionInput);
+      const result = await createQuizQuestion(questionInput, testUserId);
 
       const questions = await db.select()
         .from(quizQuestionsTable)
@@ -255,13 +276,17 @@ describe('Quiz Handlers', () => {
     it('should throw error for non-existent quiz', async () => {
       const invalidInput = { ...testQuestionInputs[0], quiz_id: 9999 };
 
-      await expect(createQuizQuestion(invalidInput)).rejects.toThrow(/quiz not found/i);
+      await expect(createQuizQuestion(invalidInput, testUserId)).rejects.toThrow(/quiz not found/i);
+    });
+
+    it('should only let course staff add questions', async () => {
+      await expect(createQuizQuestion(testQuestionInputs[0], otherInstructorId)).rejects.toThrow(/permission to add questions/i);
     });
   });
 
   describe('getQuizById', () => {
     beforeEach(async () => {
-      const quiz = await createQuiz(testQuizInput);
+      const quiz = await createQuiz(testQuizInput, testUserId);
       testQuizId = quiz.id;
     });
 
@@ -282,18 +307,18 @@ describe('Quiz Handlers', () => {
 
   describe('getQuizQuestions', () => {
     beforeEach(async () => {
-      const quiz = await createQuiz(testQuizInput);
+      const quiz = await createQuiz(testQuizInput, testUserId);
       testQuizId = quiz.id;
       testQuestionInputs.forEach(q => q.quiz_id = testQuizId);
 
       // Create all test questions
       for (const questionInput of testQuestionInputs) {
-        await createQuizQuestion(questionInput);
+        await createQuizQuestion(questionInput, testUserId);
       }
     });
 
     it('should return questions without answers for students', async () => {
-      const result = await getQuizQuestions(testQuizId, false);
+      const result = await getQuizQuestions(testQuizId, testStudentId, false);
 
       expect(result).toHaveLength(3);
       expect(result[0].correct_answer).toEqual(''); // Hidden for students
@@ -303,7 +328,7 @@ describe('Quiz Handlers', () => {
     });
 
     it('should return questions with answers for instructors', async () => {
-      const result = await getQuizQuestions(testQuizId, true);
+      const result = await getQuizQuestions(testQuizId, testUserId, true);
 
       expect(result).toHaveLength(3);
       expect(result[0].correct_answer).toEqual('object'); // Shown for instructors
@@ -311,8 +336,14 @@ describe('Quiz Handlers', () => {
       expect(result[2].correct_answer).toEqual('push');
     });
 
+    it('should hide answers from instructors of other courses', async () => {
+      const result = await getQuizQuestions(testQuizId, otherInstructorId, true);
+
+      expect(result.map(question => question.correct_answer)).toEqual(['', '', '']);
+    });
+
     it('should return questions in correct order', async () => {
-      const result = await getQuizQuestions(testQuizId, true);
+      const result = await getQuizQuestions(testQuizId, testUserId, true);
 
       expect(result[0].order_index).toEqual(1);
       expect(result[1].order_index).toEqual(2);
@@ -320,7 +351,7 @@ describe('Quiz Handlers', () => {
     });
 
     it('should return empty array for non-existent quiz', async () => {
-      const result = await getQuizQuestions(9999, false);
+      const result = await getQuizQuestions(9999, testStudentId, false);
 
       expect(result).toHaveLength(0);
     });
@@ -330,14 +361,14 @@ describe('Quiz Handlers', () => {
     let questionIds: number[] = [];
 
     beforeEach(async () => {
-      const quiz = await createQuiz(testQuizInput);
+      const quiz = await createQuiz(testQuizInput, testUserId);
       testQuizId = quiz.id;
       testQuestionInputs.forEach(q => q.quiz_id = testQuizId);
 
       // Create questions and store their IDs
       questionIds = [];
       for (const questionInput of testQuestionInputs) {
-        const question = await createQuizQuestion(questionInput);
+        const question = await createQuizQuestion(questionInput, testUserId);
         questionIds.push(question.id);
       }
     });
@@ -429,13 +460,13 @@ describe('Quiz Handlers', () => {
     let questionIds: number[] = [];
 
     beforeEach(async () => {
-      const quiz = await createQuiz(testQuizInput);
+      const quiz = await createQuiz(testQuizInput, testUserId);
       testQuizId = quiz.id;
       testQuestionInputs.forEach(q => q.quiz_id = testQuizId);
 
       questionIds = [];
       for (const questionInput of testQuestionInputs) {
-        const question = await createQuizQuestion(questionInput);
+        const question = await createQuizQuestion(questionInput, testUserId);
         questionIds.push(question.id);
       }
     });
@@ -464,18 +495,56 @@ describe('Quiz Handlers', () => {
     });
   });
 
+  describe('getCourseQuizAttempts', () => {
+    it('should return attempts on every quiz in the course', async () => {
+      const quiz = await createQuiz(testQuizInput, testUserId);
+
+      // A quiz in another course shouldn't leak into the result
+      const otherCourse = await db.insert(coursesTable)
+        .values({
+          title: 'Other Course',
+          description: 'Not this one',
+          price: '0.00',
+          instructor_id: testUserId,
+          duration_hours: '1.0'
+        })
+        .returning()
+        .execute();
+      const otherLesson = await db.insert(lessonsTable)
+        .values({
+          course_id: otherCourse[0].id,
+          title: 'Other Lesson',
+          order_index: 1,
+          duration_minutes: 30,
+          is_published: true
+        })
+        .returning()
+        .execute();
+      const otherQuiz = await createQuiz({ ...testQuizInput, lesson_id: otherLesson[0].id }, testUserId);
+
+      await submitQuiz({ quiz_id: quiz.id, answers: {} }, testStudentId);
+      await submitQuiz({ quiz_id: otherQuiz.id, answers: {} }, testStudentId);
+
+      const result = await getCourseQuizAttempts(testCourseId);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].quiz_id).toEqual(quiz.id);
+      expect(result[0].student_id).toEqual(testStudentId);
+    });
+  });
+
   describe('getStudentQuizAttempt', () => {
     let attemptId: number;
     let questionIds: number[] = [];
 
     beforeEach(async () => {
-      const quiz = await createQuiz(testQuizInput);
+      const quiz = await createQuiz(testQuizInput, testUserId);
       testQuizId = quiz.id;
       testQuestionInputs.forEach(q => q.quiz_id = testQuizId);
 
       questionIds = [];
       for (const questionInput of testQuestionInputs) {
-        const question = await createQuizQuestion(questionInput);
+        const question = await createQuizQuestion(questionInput, testUserId);
         questionIds.push(question.id);
       }
 
@@ -511,7 +580,7 @@ describe('Quiz Handlers', () => {
 
   describe('updateQuiz', () => {
     beforeEach(async () => {
-      const quiz = await createQuiz(testQuizInput);
+      const quiz = await createQuiz(testQuizInput, testUserId);
       testQuizId = quiz.id;
     });
 
@@ -522,7 +591,7 @@ describe('Quiz Handlers', () => {
         max_attempts: 5
       };
 
-      const result = await updateQuiz(testQuizId, updates);
+      const result = await updateQuiz(testQuizId, updates, testUserId);
 
       expect(result.title).toEqual('Updated Quiz Title');
       expect(result.passing_score).toEqual(80);
@@ -533,7 +602,7 @@ describe('Quiz Handlers', () => {
     it('should save updates to database', async () => {
       const updates = { title: 'Database Updated Quiz' };
 
-      await updateQuiz(testQuizId, updates);
+      await updateQuiz(testQuizId, updates, testUserId);
 
       const quiz = await db.select()
         .from(quizzesTable)
@@ -546,15 +615,20 @@ describe('Quiz Handlers', () => {
     it('should throw error for non-existent quiz', async () => {
       const updates = { title: 'Updated Title' };
 
-      await expect(updateQuiz(9999, updates))
+      await expect(updateQuiz(9999, updates, testUserId))
         .rejects.toThrow(/quiz not found/i);
     });
 
-    it('should validate lesson existence when updating lesson_id', async () => {
+    it('should not move quizzes to another lesson', async () => {
       const updates = { lesson_id: 9999 };
 
-      await expect(updateQuiz(testQuizId, updates))
-        .rejects.toThrow(/lesson not found/i);
+      await expect(updateQuiz(testQuizId, updates, testUserId))
+        .rejects.toThrow(/cannot be moved/i);
+    });
+
+    it('should only let course staff update the quiz', async () => {
+      await expect(updateQuiz(testQuizId, { title: 'Hijacked' }, otherInstructorId))
+        .rejects.toThrow(/permission to update this quiz/i);
     });
   });
 
@@ -562,14 +636,14 @@ describe('Quiz Handlers', () => {
     let questionIds: number[] = [];
 
     beforeEach(async () => {
-      const quiz = await createQuiz(testQuizInput);
+      const quiz = await createQuiz(testQuizInput, testUserId);
       testQuizId = quiz.id;
       testQuestionInputs.forEach(q => q.quiz_id = testQuizId);
 
       // Create questions and attempts
       questionIds = [];
       for (const questionInput of testQuestionInputs) {
-        const question = await createQuizQuestion(questionInput);
+        const question = await createQuizQuestion(questionInput, testUserId);
         questionIds.push(question.id);
       }
 
@@ -581,36 +655,100 @@ describe('Quiz Handlers', () => {
       await submitQuiz(submitInput, testStudentId);
     });
 
-    it('should delete quiz and related data', async () => {
-      const result = await deleteQuiz(testQuizId);
+    it('should move the quiz to the trash and keep its questions and attempts', async () => {
+      const result = await deleteQuiz(testQuizId, testUserId);
 
       expect(result.success).toBe(true);
 
-      // Verify quiz is deleted
+      // Verify quiz is in the trash and hidden
       const quizzes = await db.select()
         .from(quizzesTable)
         .where(eq(quizzesTable.id, testQuizId))
         .execute();
-      expect(quizzes).toHaveLength(0);
+      expect(quizzes[0].deleted_at).toBeInstanceOf(Date);
+      expect(await getQuizById(testQuizId)).toBeNull();
 
-      // Verify questions are deleted
+      // Verify questions are kept
       const questions = await db.select()
         .from(quizQuestionsTable)
         .where(eq(quizQuestionsTable.quiz_id, testQuizId))
         .execute();
-      expect(questions).toHaveLength(0);
+      expect(questions).toHaveLength(3);
 
-      // Verify attempts are deleted
+      // Verify attempts are kept
       const attempts = await db.select()
         .from(quizAttemptsTable)
         .where(eq(quizAttemptsTable.quiz_id, testQuizId))
         .execute();
-      expect(attempts).toHaveLength(0);
+      expect(attempts).toHaveLength(1);
+    });
+
+    it('should only let course staff delete the quiz', async () => {
+      await expect(deleteQuiz(testQuizId, testStudentId))
+        .rejects.toThrow(/do not have permission/i);
     });
 
     it('should throw error for non-existent quiz', async () => {
-      await expect(deleteQuiz(9999))
+      await expect(deleteQuiz(9999, testUserId))
         .rejects.toThrow(/quiz not found/i);
     });
   });
-});
\ No newline at end of file
+
+  describe('quiz changes on a live course', () => {
+    beforeEach(async () => {
+      const quiz = await createQuiz(testQuizInput, testUserId);
+      testQuizId = quiz.id;
+      await createQuizQuestion({ ...testQuestionInputs[0], quiz_id: testQuizId }, testUserId);
+
+      await db.update(coursesTable)
+        .set({ is_published: true, moderation_status: 'published' })
+        .where(eq(coursesTable.id, testCourseId))
+        .execute();
+    });
+
+    it('should take new quizzes and questions into the course draft', async () => {
+      const quiz = await createQuiz({ ...testQuizInput, title: 'Draft Quiz' }, testUserId);
+      const question = await createQuizQuestion({ ...testQuestionInputs[1], quiz_id: testQuizId }, testUserId);
+
+      // Each gets an id of its own in the draft, which a live row can't have
+      expect(quiz.id).toBeLessThan(0);
+      expect(question.id).toBeLessThan(0);
+      expect(question.id).not.toEqual(quiz.id);
+      expect(quiz.lesson_id).toEqual(testLessonId);
+
+      // Students keep seeing the published quiz and its single question
+      expect(await db.select().from(quizzesTable).execute()).toHaveLength(1);
+      expect(await getQuizQuestions(testQuizId, testStudentId)).toHaveLength(1);
+
+      const draft = await getLatestCourseSnapshot(testCourseId);
+      expect(draft.lessons[0].quizzes.map(draftQuiz => draftQuiz.title)).toEqual(['JavaScript Fundamentals Quiz', 'Draft Quiz']);
+      expect(draft.lessons[0].quizzes[0].questions).toHaveLength(2);
+      expect(draft.lessons[0].quizzes[1].id).toEqual(quiz.id);
+      expect(draft.lessons[0].quizzes[0].questions[1].id).toEqual(question.id);
+    });
+
+    it('should take quiz updates and deletions into the course draft', async () => {
+      await updateQuiz(testQuizId, { passing_score: 90 }, testUserId);
+
+      expect((await getQuizById(testQuizId))!.passing_score).toEqual(70);
+      expect((await getLatestCourseSnapshot(testCourseId)).lessons[0].quizzes[0].passing_score).toEqual(90);
+
+      await deleteQuiz(testQuizId, testUserId);
+
+      expect(await getQuizById(testQuizId)).not.toBeNull();
+      expect((await getLatestCourseSnapshot(testCourseId)).lessons[0].quizzes).toHaveLength(0);
+    });
+
+    it('should apply the changes once the draft is published', async () => {
+      await updateQuiz(testQuizId, { passing_score: 90 }, testUserId);
+      await createQuizQuestion({ ...testQuestionInputs[1], quiz_id: testQuizId }, testUserId);
+
+      // As if a moderator had approved the changes
+      await db.update(coursesTable).set({ moderation_status: 'approved' }).where(eq(coursesTable.id, testCourseId)).execute();
+      await publishCourseRevision(testCourseId, testUserId);
+
+      expect((await getQuizById(testQuizId))!.passing_score).toEqual(90);
+      expect(await getQuizQuestions(testQuizId, testStudentId)).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createUser } from '../helpers/fixtures';
+import { db } from '../db';
+import { coursesTable, enrollmentsTable, reviewsTable, auditLogTable, courseStaffTable } from '../db/schema';
+import {
+  submitReview,
+  getCourseReviews,
+  getMyCourseReview,
+  replyToReview,
+  setReviewHidden,
+  MIN_REVIEW_PROGRESS
+} from '../handlers/reviews';
+import { getCourseById } from '../handlers/courses';
+import { eq } from 'drizzle-orm';
+
+let instructorId: number;
+let adminId: number;
+let studentId: number;
+let secondStudentId: number;
+let courseId: number;
+
+async function enroll(student: number, progress: number): Promise<void> {
+  await db.insert(enrollmentsTable)
+    .values({ student_id: student, course_id: courseId, progress_percentage: progress })
+    .execute();
+}
+
+describe('Review Handlers', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    instructorId = await createUser('instructor@test.com', 'instructor');
+    adminId = await createUser('admin@test.com', 'administrator');
+    studentId = await createUser('student@test.com', 'student', { first_name: 'Jane' });
+    secondStudentId = await createUser('student2@test.com', 'student', { first_name: 'Sam' });
+
+    const course = await db.insert(coursesTable)
+      .values({
+        title: 'Reviewed Course',
+        description: 'A course to review',
+        price: '19.99',
+        duration_hours: '3.0',
+        instructor_id: instructorId,
+        is_published: true
+      })
+      .returning()
+      .execute();
+    courseId = course[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('submitReview', () => {
+    it('should save the review and update the course rating', async () => {
+      await enroll(studentId, 50);
+
+      const review = await submitReview({ course_id: courseId, rating: 4, comment: 'Very clear explanations' }, studentId);
+
+      expect(review.rating).toEqual(4);
+      expect(review.comment).toEqual('Very clear explanations');
+      expect(review.student_name).toEqual('Jane User');
+      expect(review.is_hidden).toBe(false);
+
+      const course = await getCourseById(courseId);
+      expect(course!.rating_average).toEqual(4);
+      expect(course!.rating_count).toEqual(1);
+    });
+
+    it('should average ratings across students', async () => {
+      await enroll(studentId, 50);
+      await enroll(secondStudentId, 100);
+
+      await submitReview({ course_id: courseId, rating: 5, comment: null }, studentId);
+      await submitReview({ course_id: courseId, rating: 2, comment: null }, secondStudentId);
+
+      const course = await getCourseById(courseId);
+      expect(course!.rating_average).toEqual(3.5);
+      expect(course!.rating_count).toEqual(2);
+    });
+
+    it('should update an existing review instead of adding another', async () => {
+      await enroll(studentId, 50);
+
+      await submitReview({ course_id: courseId, rating: 2, comment: 'Meh' }, studentId);
+      const updated = await submitReview({ course_id: courseId, rating: 5, comment: 'Grew on me' }, studentId);
+
+      expect(updated.rating).toEqual(5);
+      const reviews = await db.select().from(reviewsTable).execute();
+      expect(reviews).toHaveLength(1);
+
+      const course = await getCourseById(courseId);
+      expect(course!.rating_average).toEqual(5);
+      expect(course!.rating_count).toEqual(1);
+    });
+
+    it('should reject students who are not enrolled', async () => {
+      await expect(submitReview({ course_id: courseId, rating: 5, comment: null }, studentId))
+        .rejects.toThrow(/must be enrolled/i);
+    });
+
+    it('should reject students below the minimum progress', async () => {
+      await enroll(studentId, MIN_REVIEW_PROGRESS - 1);
+
+      await expect(submitReview({ course_id: courseId, rating: 5, comment: null }, studentId))
+        .rejects.toThrow(/complete at least/i);
+    });
+  });
+
+  describe('replyToReview', () => {
+    it('should let the course instructor reply once', async () => {
+      await enroll(studentId, 50);
+      const review = await submitReview({ course_id: courseId, rating: 3, comment: 'Needs more examples' }, studentId);
+
+      const replied = await replyToReview(review.id, 'Thanks, adding some next week', instructorId);
+
+      expect(replied.instructor_reply).toEqual('Thanks, adding some next week');
+      expect(replied.replied_at).toBeInstanceOf(Date);
+
+      await expect(replyToReview(review.id, 'Another reply', instructorId)).rejects.toThrow(/already has a reply/i);
+    });
+
+    it('should keep the reply when the student edits their review', async () => {
+      await enroll(studentId, 50);
+      const review = await submitReview({ course_id: courseId, rating: 3, comment: null }, studentId);
+      await replyToReview(review.id, 'Thanks!', instructorId);
+
+      const edited = await submitReview({ course_id: courseId, rating: 4, comment: null }, studentId);
+
+      expect(edited.instructor_reply).toEqual('Thanks!');
+    });
+
+    it('should reject other instructors', async () => {
+      const otherInstructorId = await createUser('other@test.com', 'instructor');
+      await enroll(studentId, 50);
+      const review = await submitReview({ course_id: courseId, rating: 3, comment: null }, studentId);
+
+      await expect(replyToReview(review.id, 'Not my course', otherInstructorId)).rejects.toThrow(/only the course instructor/i);
+    });
+
+    it('should let co-instructors reply but not teaching assistants', async () => {
+      const coInstructorId = await createUser('co@test.com', 'instructor');
+      const assistantId = await createUser('ta@test.com', 'instructor');
+      await db.insert(courseStaffTable).values([
+        { course_id: courseId, user_id: coInstructorId, role: 'co_instructor', status: 'active' },
+        { course_id: courseId, user_id: assistantId, role: 'teaching_assistant', status: 'active' }
+      ]).execute();
+      await enroll(studentId, 50);
+      const review = await submitReview({ course_id: courseId, rating: 3, comment: null }, studentId);
+
+      await expect(replyToReview(review.id, 'From the TA', assistantId)).rejects.toThrow(/only the course instructor/i);
+
+      const replied = await replyToReview(review.id, 'From the co-instructor', coInstructorId);
+      expect(replied.instructor_reply).toEqual('From the co-instructor');
+    });
+
+    it('should keep the first of two concurrent replies', async () => {
+      await enroll(studentId, 50);
+      const review = await submitReview({ course_id: courseId, rating: 3, comment: null }, studentId);
+
+      // Hold the review row so both replies have seen it unanswered before either is saved
+      let release!: () => void;
+      let locked!: () => void;
+      const rowLocked = new Promise<void>(resolve => { locked = resolve; });
+      const lock = db.transaction(async (tx) => {
+        await tx.select().from(reviewsTable).for('update').execute();
+        locked();
+        await new Promise<void>(resolve => { release = resolve; });
+      });
+      await rowLocked;
+
+      const replies = Promise.allSettled([
+        replyToReview(review.id, 'First', instructorId),
+        replyToReview(review.id, 'Second', instructorId)
+      ]);
+      await new Promise(resolve => setTimeout(resolve, 200));
+      release();
+      await lock;
+      const results = await replies;
+
+      const winners = results.filter(result => result.status === 'fulfilled');
+      expect(winners).toHaveLength(1);
+      const stored = await db.select().from(reviewsTable).where(eq(reviewsTable.id, review.id)).execute();
+      expect(stored[0].instructor_reply).toEqual((winners[0] as PromiseFulfilledResult<{ instructor_reply: string | null }>).value.instructor_reply);
+    });
+  });
+
+  describe('setReviewHidden', () => {
+    it('should hide a review from the public list and the rating', async () => {
+      await enroll(studentId, 50);
+      await enroll(secondStudentId, 50);
+      const abusive = await submitReview({ course_id: courseId, rating: 1, comment: 'Abusive text' }, studentId);
+      await submitReview({ course_id: courseId, rating: 5, comment: 'Great' }, secondStudentId);
+
+      const hidden = await setReviewHidden(abusive.id, true, 'Harassment', adminId);
+
+      expect(hidden.is_hidden).toBe(true);
+      expect(hidden.hidden_reason).toEqual('Harassment');
+
+      const publicReviews = await getCourseReviews(courseId);
+      expect(publicReviews.map(review => review.id)).not.toContain(abusive.id);
+
+      const moderatorReviews = await getCourseReviews(courseId, adminId);
+      expect(moderatorReviews).toHaveLength(2);
+
+      const course = await getCourseById(courseId);
+      expect(course!.rating_average).toEqual(5);
+      expect(course!.rating_count).toEqual(1);
+
+      const audit = await db.select().from(auditLogTable).where(eq(auditLogTable.action, 'review_hidden')).execute();
+      expect(audit).toHaveLength(1);
+      expect(audit[0].target_user_id).toEqual(studentId);
+    });
+
+    it('should restore a review when unhidden', async () => {
+      await enroll(studentId, 50);
+      const review = await submitReview({ course_id: courseId, rating: 2, comment: null }, studentId);
+      await setReviewHidden(review.id, true, null, adminId);
+
+      const restored = await setReviewHidden(review.id, false, null, adminId);
+
+      expect(restored.is_hidden).toBe(false);
+      const course = await getCourseById(courseId);
+      expect(course!.rating_count).toEqual(1);
+    });
+
+    it('should require moderation rights', async () => {
+      await enroll(studentId, 50);
+      const review = await submitReview({ course_id: courseId, rating: 2, comment: null }, studentId);
+
+      await expect(setReviewHidden(review.id, true, null, instructorId)).rejects.toThrow(/unauthorized/i);
+    });
+  });
+
+  describe('getMyCourseReview', () => {
+    it('should return the student\'s own review even when hidden', async () => {
+      await enroll(studentId, 50);
+      const review = await submitReview({ course_id: courseId, rating: 2, comment: null }, studentId);
+      await setReviewHidden(review.id, true, null, adminId);
+
+      const mine = await getMyCourseReview(courseId, studentId);
+
+      expect(mine!.id).toEqual(review.id);
+      expect(mine!.is_hidden).toBe(true);
+      expect(await getMyCourseReview(courseId, secondStudentId)).toBeNull();
+    });
+  });
+});
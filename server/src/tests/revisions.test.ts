@@ -0,0 +1,480 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createUser } from '../helpers/fixtures';
+import { db } from '../db';
+import {
+  coursesTable,
+  lessonsTable,
+  quizzesTable,
+  quizQuestionsTable,
+  lessonProgressTable,
+  courseRevisionsTable
+} from '../db/schema';
+import { type CourseSnapshot } from '../schema';
+import {
+  getCourseDraft,
+  saveCourseDraft,
+  discardCourseDraft,
+  getCourseRevisions,
+  diffCourseRevisions,
+  rollbackCourse
+} from '../handlers/revisions';
+import { publishCourse, updateCourse, getCourseById } from '../handlers/courses';
+import { moderateCourse } from '../handlers/admin';
+import { getModerationQueue, submitCourseForReview } from '../handlers/moderation';
+import { createLesson, updateLesson } from '../handlers/lessons';
+import { createQuiz } from '../handlers/quizzes';
+import { eq, and, isNull, sql } from 'drizzle-orm';
+
+let instructorId: number;
+let adminId: number;
+let courseId: number;
+let lessonId: number;
+
+// Changes to a live course go live once a moderator has approved them
+async function publishReviewedDraft() {
+  await publishCourse(courseId, instructorId);
+  await moderateCourse(courseId, 'approve', null, adminId);
+  return publishCourse(courseId, instructorId);
+}
+
+async function liveLessons() {
+  return db.select()
+    .from(lessonsTable)
+    .where(and(eq(lessonsTable.course_id, courseId), isNull(lessonsTable.deleted_at)))
+    .orderBy(lessonsTable.order_index)
+    .execute();
+}
+
+describe('Course Revision Handlers', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    instructorId = await createUser('instructor@test.com', 'instructor');
+    adminId = await createUser('admin@test.com', 'administrator');
+
+    const course = await db.insert(coursesTable)
+      .values({
+        title: 'Original Title',
+        description: 'Original description',
+        price: '29.99',
+        duration_hours: '4.0',
+        instructor_id: instructorId,
+        moderation_status: 'approved'
+      })
+      .returning()
+      .execute();
+    courseId = course[0].id;
+
+    const lesson = await db.insert(lessonsTable)
+      .values({
+        course_id: courseId,
+        title: 'Lesson One',
+        content: 'First content',
+        order_index: 1,
+        duration_minutes: 20,
+        is_published: true
+      })
+      .returning()
+      .execute();
+    lessonId = lesson[0].id;
+  });
+
+  afterEach(resetDB);
+
+  describe('publishCourse', () => {
+    it('should record the first publish as a revision', async () => {
+      await publishCourse(courseId, instructorId);
+
+      const revisions = await getCourseRevisions(courseId, instructorId);
+      expect(revisions).toHaveLength(1);
+      expect(revisions[0].revision_number).toEqual(1);
+      expect(revisions[0].status).toEqual('published');
+      expect(revisions[0].published_by).toEqual(instructorId);
+      expect(revisions[0].snapshot.course.title).toEqual('Original Title');
+      expect(revisions[0].snapshot.lessons.map(lesson => lesson.id)).toEqual([lessonId]);
+    });
+
+    it('should refuse to republish without draft changes', async () => {
+      await publishCourse(courseId, instructorId);
+
+      await expect(publishCourse(courseId, instructorId)).rejects.toThrow(/no draft changes/i);
+    });
+
+    it('should apply the draft and supersede the previous revision', async () => {
+      await publishCourse(courseId, instructorId);
+      const draft = await getCourseDraft(courseId, instructorId);
+
+      const snapshot: CourseSnapshot = {
+        ...draft.snapshot,
+        lessons: [
+          { ...draft.snapshot.lessons[0], title: 'Lesson One (revised)' },
+          {
+            id: null,
+            title: 'Lesson Two',
+            description: null,
+            video_url: null,
+            content: 'Second content',
+            blocks: [],
+            order_index: 2,
+            duration_minutes: 15,
+            is_published: true,
+            quizzes: [{
+              id: null,
+              title: 'Checkpoint',
+              description: null,
+              passing_score: 70,
+              time_limit_minutes: null,
+              max_attempts: null,
+              is_active: true,
+              questions: [{
+                id: null,
+                question_text: 'Is this new?',
+                question_type: 'true_false',
+                options: null,
+                correct_answer: 'true',
+                points: 1,
+                order_index: 1
+              }]
+            }]
+          }
+        ]
+      };
+      await saveCourseDraft(courseId, snapshot, instructorId);
+
+      await publishReviewedDraft();
+
+      const lessons = await liveLessons();
+      expect(lessons.map(lesson => lesson.title)).toEqual(['Lesson One (revised)', 'Lesson Two']);
+      expect(lessons[0].id).toEqual(lessonId);
+
+      const quizzes = await db.select().from(quizzesTable).where(eq(quizzesTable.lesson_id, lessons[1].id)).execute();
+      expect(quizzes).toHaveLength(1);
+      const questions = await db.select().from(quizQuestionsTable).where(eq(quizQuestionsTable.quiz_id, quizzes[0].id)).execute();
+      expect(questions[0].question_text).toEqual('Is this new?');
+
+      const revisions = await getCourseRevisions(courseId, instructorId);
+      expect(revisions.map(revision => revision.status)).toEqual(['published', 'superseded']);
+      // Content added in the draft is stored with the ids it was published under
+      expect(revisions[0].snapshot.lessons[1].id).toEqual(lessons[1].id);
+      expect(revisions[0].snapshot.lessons[1].quizzes[0].questions[0].id).toEqual(questions[0].id);
+    });
+
+    it('should send changes to a live course back to the moderators before publishing them', async () => {
+      await publishCourse(courseId, instructorId);
+      await updateCourse(courseId, { title: 'Unreviewed Title' }, instructorId);
+
+      const submitted = await publishCourse(courseId, instructorId);
+
+      expect(submitted.moderation_status).toEqual('submitted');
+      expect(submitted.is_published).toBe(true);
+      expect(submitted.title).toEqual('Original Title');
+      expect((await getModerationQueue(adminId)).map(item => item.id)).toEqual([courseId]);
+      expect((await getCourseDraft(courseId, instructorId)).revision!.status).toEqual('draft');
+      await expect(updateCourse(courseId, { title: 'Sneaked In' }, instructorId)).rejects.toThrow(/with the moderators/i);
+
+      // A rejection sends the changes back without taking the course down
+      await moderateCourse(courseId, 'reject', 'Title is misleading', adminId);
+      expect((await getCourseById(courseId))!.is_published).toBe(true);
+      await updateCourse(courseId, { title: 'Reviewed Title' }, instructorId);
+      await expect(publishCourse(courseId, instructorId)).rejects.toThrow(/approved by a moderator/i);
+
+      await submitCourseForReview(courseId, instructorId);
+      await moderateCourse(courseId, 'approve', null, adminId);
+      const published = await publishCourse(courseId, instructorId);
+
+      expect(published.title).toEqual('Reviewed Title');
+      expect(published.moderation_status).toEqual('published');
+    });
+
+    it('should leave the live course untouched when the draft cannot be published', async () => {
+      await publishCourse(courseId, instructorId);
+      const draft = await getCourseDraft(courseId, instructorId);
+      await saveCourseDraft(courseId, { course: { ...draft.snapshot.course, title: 'Empty' }, lessons: [] }, instructorId);
+
+      await expect(publishCourse(courseId, instructorId)).rejects.toThrow(/at least one lesson/i);
+
+      const course = await getCourseById(courseId);
+      expect(course!.title).toEqual('Original Title');
+      expect(await liveLessons()).toHaveLength(1);
+    });
+  });
+
+  describe('drafts', () => {
+    it('should keep metadata edits of a published course in the draft', async () => {
+      await publishCourse(courseId, instructorId);
+
+      const result = await updateCourse(courseId, { title: 'Work In Progress', price: 39.99, tags: ['  SQL '] }, instructorId);
+
+      expect(result.title).toEqual('Work In Progress');
+      expect(result.price).toEqual(39.99);
+
+      const live = await getCourseById(courseId);
+      expect(live!.title).toEqual('Original Title');
+      expect(live!.price).toEqual(29.99);
+
+      const draft = await getCourseDraft(courseId, instructorId);
+      expect(draft.revision!.status).toEqual('draft');
+      expect(draft.revision!.revision_number).toEqual(2);
+      expect(draft.snapshot.course.title).toEqual('Work In Progress');
+      expect(draft.snapshot.course.tags).toEqual(['sql']);
+    });
+
+    it('should normalize tags saved in the draft and publish them that way', async () => {
+      await publishCourse(courseId, instructorId);
+      const draft = await getCourseDraft(courseId, instructorId);
+
+      const saved = await saveCourseDraft(courseId, { ...draft.snapshot, course: { ...draft.snapshot.course, tags: ['SQL', 'sql ', 'Databases'] } }, instructorId);
+      expect(saved.snapshot.course.tags).toEqual(['sql', 'databases']);
+
+      await publishReviewedDraft();
+      expect((await getCourseById(courseId))!.tags).toEqual(['sql', 'databases']);
+    });
+
+    it('should keep lesson edits of a published course in the draft', async () => {
+      await publishCourse(courseId, instructorId);
+
+      const result = await updateLesson(lessonId, { content: 'Half-finished rewrite' }, instructorId);
+
+      expect(result.content).toEqual('Half-finished rewrite');
+      expect((await liveLessons())[0].content).toEqual('First content');
+
+      const draft = await getCourseDraft(courseId, instructorId);
+      expect(draft.snapshot.lessons[0].content).toEqual('Half-finished rewrite');
+    });
+
+    it('should start one draft holding both changes when the first edits arrive together', async () => {
+      await publishCourse(courseId, instructorId);
+
+      // Hold off new revisions so both edits have looked for a draft before either starts one
+      let release!: () => void;
+      let locked!: () => void;
+      const tableLocked = new Promise<void>(resolve => { locked = resolve; });
+      const lock = db.transaction(async (tx) => {
+        await tx.execute(sql`LOCK TABLE course_revisions IN EXCLUSIVE MODE`);
+        locked();
+        await new Promise<void>(resolve => { release = resolve; });
+      });
+      await tableLocked;
+
+      const edits = Promise.allSettled([
+        updateCourse(courseId, { title: 'Work In Progress' }, instructorId),
+        updateLesson(lessonId, { content: 'Half-finished rewrite' }, instructorId)
+      ]);
+      await new Promise(resolve => setTimeout(resolve, 200));
+      release();
+      await lock;
+      const results = await edits;
+
+      expect(results.map(result => result.status)).toEqual(['fulfilled', 'fulfilled']);
+      const draft = await getCourseDraft(courseId, instructorId);
+      expect(draft.revision!.revision_number).toEqual(2);
+      expect(draft.snapshot.course.title).toEqual('Work In Progress');
+      expect(draft.snapshot.lessons[0].content).toEqual('Half-finished rewrite');
+    });
+
+    it('should only start a draft once a change is saved', async () => {
+      await publishCourse(courseId, instructorId);
+
+      const draft = await getCourseDraft(courseId, instructorId);
+
+      expect(draft.revision).toBeNull();
+      expect(draft.snapshot.course.title).toEqual('Original Title');
+      expect(await getCourseRevisions(courseId, instructorId)).toHaveLength(1);
+    });
+
+    it('should take new lessons and quizzes of a live course into the draft', async () => {
+      await publishCourse(courseId, instructorId);
+      await updateCourse(courseId, { title: 'Pending' }, instructorId);
+
+      const lesson = await createLesson({
+        course_id: courseId,
+        title: 'Lesson Two',
+        description: null,
+        video_url: null,
+        content: 'Second content',
+        order_index: 2,
+        duration_minutes: 5
+      }, instructorId);
+      const quiz = await createQuiz({
+        lesson_id: lessonId,
+        title: 'Draft Quiz',
+        description: null,
+        passing_score: 50,
+        time_limit_minutes: null,
+        max_attempts: null
+      }, instructorId);
+
+      expect(lesson.id).toEqual(-1);
+      expect(quiz.id).toEqual(-2);
+      expect(await liveLessons()).toHaveLength(1);
+
+      const draft = await getCourseDraft(courseId, instructorId);
+      expect(draft.snapshot.lessons.map(draftLesson => draftLesson.id)).toEqual([lessonId, -1]);
+      expect(draft.snapshot.lessons[0].quizzes.map(draftQuiz => draftQuiz.title)).toEqual(['Draft Quiz']);
+
+      await publishReviewedDraft();
+
+      const published = await liveLessons();
+      expect(published.map(publishedLesson => publishedLesson.title)).toEqual(['Lesson One', 'Lesson Two']);
+      expect(published[1].id).toBeGreaterThan(0);
+    });
+
+    it('should discard the draft', async () => {
+      await publishCourse(courseId, instructorId);
+      await updateCourse(courseId, { title: 'Abandoned' }, instructorId);
+
+      await discardCourseDraft(courseId, instructorId);
+
+      const revisions = await getCourseRevisions(courseId, instructorId);
+      expect(revisions.map(revision => revision.status)).toEqual(['published']);
+      const draft = await getCourseDraft(courseId, instructorId);
+      expect(draft.revision).toBeNull();
+      expect(draft.snapshot.course.title).toEqual('Original Title');
+    });
+
+    it('should not start drafts for unpublished courses', async () => {
+      await expect(getCourseDraft(courseId, instructorId)).rejects.toThrow(/edited directly/i);
+    });
+
+    it('should reject other instructors', async () => {
+      const otherInstructorId = await createUser('other@test.com', 'instructor');
+      await publishCourse(courseId, instructorId);
+
+      await expect(getCourseDraft(courseId, otherInstructorId)).rejects.toThrow(/permission/i);
+      await expect(getCourseRevisions(courseId, otherInstructorId)).rejects.toThrow(/permission/i);
+    });
+  });
+
+  describe('diffCourseRevisions', () => {
+    it('should list changes between a published revision and the draft', async () => {
+      const published = await publishCourse(courseId, instructorId);
+      expect(published.is_published).toBe(true);
+
+      await updateCourse(courseId, { title: 'New Title' }, instructorId);
+      await updateLesson(lessonId, { duration_minutes: 25 }, instructorId);
+      const revisions = await getCourseRevisions(courseId, instructorId);
+
+      const diff = await diffCourseRevisions(courseId, revisions[1].id, revisions[0].id, instructorId);
+
+      expect(diff.changes).toHaveLength(2);
+      expect(diff.changes[0]).toEqual({
+        entity: 'course',
+        entity_id: null,
+        label: 'Course details',
+        change: 'modified',
+        fields: [{ field: 'title', before: 'Original Title', after: 'New Title' }]
+      });
+      expect(diff.changes[1].entity).toEqual('lesson');
+      expect(diff.changes[1].entity_id).toEqual(lessonId);
+      expect(diff.changes[1].fields).toEqual([{ field: 'duration_minutes', before: 20, after: 25 }]);
+    });
+
+    it('should report added and removed lessons', async () => {
+      await publishCourse(courseId, instructorId);
+      const draft = await getCourseDraft(courseId, instructorId);
+      await saveCourseDraft(courseId, {
+        ...draft.snapshot,
+        lessons: [{ ...draft.snapshot.lessons[0], id: null, title: 'Replacement' }]
+      }, instructorId);
+      const revisions = await getCourseRevisions(courseId, instructorId);
+
+      const diff = await diffCourseRevisions(courseId, revisions[1].id, revisions[0].id, instructorId);
+
+      expect(diff.changes.map(change => [change.label, change.change])).toEqual([
+        ['Lesson "Replacement"', 'added'],
+        ['Lesson "Lesson One"', 'removed']
+      ]);
+    });
+  });
+
+  describe('rollbackCourse', () => {
+    it('should republish an earlier revision as a new one', async () => {
+      await publishCourse(courseId, instructorId);
+      const draft = await getCourseDraft(courseId, instructorId);
+      await saveCourseDraft(courseId, {
+        course: { ...draft.snapshot.course, title: 'Bad Update' },
+        lessons: [{ ...draft.snapshot.lessons[0], id: null, title: 'Bad Lesson' }]
+      }, instructorId);
+      await publishReviewedDraft();
+
+      const first = (await getCourseRevisions(courseId, instructorId))[1];
+      const restored = await rollbackCourse(courseId, first.id, instructorId);
+
+      expect(restored.revision_number).toEqual(3);
+      expect(restored.status).toEqual('published');
+      expect(restored.restored_from_revision_id).toEqual(first.id);
+
+      const course = await getCourseById(courseId);
+      expect(course!.title).toEqual('Original Title');
+      const lessons = await liveLessons();
+      expect(lessons.map(lesson => lesson.title)).toEqual(['Lesson One']);
+
+      const revisions = await getCourseRevisions(courseId, instructorId);
+      expect(revisions.map(revision => revision.status)).toEqual(['published', 'superseded', 'superseded']);
+    });
+
+    it('should move lessons the restored version does not have to the trash, keeping progress', async () => {
+      const studentId = await createUser('student@test.com', 'student');
+      await publishCourse(courseId, instructorId);
+      const draft = await getCourseDraft(courseId, instructorId);
+      await saveCourseDraft(courseId, {
+        ...draft.snapshot,
+        lessons: [
+          ...draft.snapshot.lessons,
+          { ...draft.snapshot.lessons[0], id: null, title: 'Extra Lesson', order_index: 2, quizzes: [] }
+        ]
+      }, instructorId);
+      await publishReviewedDraft();
+
+      const extra = (await liveLessons())[1];
+      await db.insert(lessonProgressTable).values({ student_id: studentId, lesson_id: extra.id }).execute();
+
+      const first = (await getCourseRevisions(courseId, instructorId))[1];
+      await rollbackCourse(courseId, first.id, instructorId);
+
+      expect(await liveLessons()).toHaveLength(1);
+      const trashed = await db.select().from(lessonsTable).where(eq(lessonsTable.id, extra.id)).execute();
+      expect(trashed[0].deleted_at).toBeInstanceOf(Date);
+      const progress = await db.select().from(lessonProgressTable).execute();
+      expect(progress).toHaveLength(1);
+    });
+
+    it('should bring trashed lessons back when a restored version has them again', async () => {
+      await publishCourse(courseId, instructorId);
+      const draft = await getCourseDraft(courseId, instructorId);
+      await saveCourseDraft(courseId, {
+        ...draft.snapshot,
+        lessons: [{ ...draft.snapshot.lessons[0], id: null, title: 'Replacement' }]
+      }, instructorId);
+      await publishReviewedDraft();
+
+      const first = (await getCourseRevisions(courseId, instructorId))[1];
+      await rollbackCourse(courseId, first.id, instructorId);
+
+      const lessons = await liveLessons();
+      expect(lessons.map(lesson => [lesson.id, lesson.title])).toEqual([[lessonId, 'Lesson One']]);
+    });
+
+    it('should require the open draft to be settled first', async () => {
+      await publishCourse(courseId, instructorId);
+      await updateCourse(courseId, { title: 'Second' }, instructorId);
+      await publishReviewedDraft();
+      await updateCourse(courseId, { title: 'Third' }, instructorId);
+
+      const first = (await getCourseRevisions(courseId, instructorId))[2];
+
+      await expect(rollbackCourse(courseId, first.id, instructorId)).rejects.toThrow(/unpublished draft/i);
+    });
+
+    it('should only restore previously published revisions', async () => {
+      await publishCourse(courseId, instructorId);
+      await updateCourse(courseId, { title: 'Pending' }, instructorId);
+      const draft = await getCourseDraft(courseId, instructorId);
+      const live = await db.select().from(courseRevisionsTable).where(eq(courseRevisionsTable.status, 'published')).execute();
+
+      await expect(rollbackCourse(courseId, draft.revision!.id, instructorId)).rejects.toThrow(/previously published/i);
+      await expect(rollbackCourse(courseId, live[0].id, instructorId)).rejects.toThrow(/already live/i);
+    });
+  });
+});
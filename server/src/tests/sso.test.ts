@@ -0,0 +1,330 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { MockIdp } from '../helpers/mockIdp';
+import { db } from '../db';
+import { usersTable, userIdentitiesTable, oidcLoginStatesTable } from '../db/schema';
+import { type RegisterInput } from '../schema';
+import { register, authenticateToken } from '../handlers/auth';
+import { beginTwoFactorEnrollment, confirmTwoFactorEnrollment, generateTotpCode } from '../handlers/twoFactor';
+import { getSsoProviders, beginSsoLogin, beginSsoLink, completeSsoLogin } from '../handlers/sso';
+import { registerOidcProvider, removeOidcProvider, mapRole, type OidcProviderConfig } from '../oidc';
+import { MemoryMailTransport, setMailTransport } from '../mail';
+import { eq } from 'drizzle-orm';
+
+const existingUserInput: RegisterInput = {
+  email: 'sso.student@school.example',
+  password: 'password123',
+  first_name: 'Existing',
+  last_name: 'Student',
+  role: 'student'
+};
+
+// A local account whose owner has confirmed the address
+async function registerVerified(input: RegisterInput) {
+  const user = await register(input);
+  await db.update(usersTable).set({ email_verified: true }).where(eq(usersTable.id, user.id)).execute();
+  return user;
+}
+
+describe('SSO Handlers', () => {
+  const idp = new MockIdp();
+  let provider: OidcProviderConfig;
+
+  beforeAll(async () => {
+    await idp.start();
+  });
+
+  afterAll(async () => {
+    await idp.stop();
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(() => {
+    setMailTransport(new MemoryMailTransport());
+    idp.user = {
+      sub: 'school-user-1',
+      email: 'sso.student@school.example',
+      email_verified: true,
+      given_name: 'Sam',
+      family_name: 'Student',
+      roles: ['student']
+    };
+    idp.overrideClaims = {};
+    provider = {
+      id: 'springfield',
+      name: 'Springfield High',
+      issuer: idp.issuer,
+      clientId: idp.clientId,
+      clientSecret: idp.clientSecret,
+      roleClaim: 'roles',
+      roleMapping: { student: 'student', faculty: 'instructor', it: 'administrator' },
+      trustedEmailDomains: ['school.example']
+    };
+    registerOidcProvider(provider);
+  });
+
+  afterEach(() => {
+    removeOidcProvider('springfield');
+  });
+
+  // Run the full browser round trip against the mock IdP
+  async function signInWithSso() {
+    const { authorizationUrl } = await beginSsoLogin('springfield');
+    const callback = await idp.authorize(authorizationUrl);
+    return completeSsoLogin(callback);
+  }
+
+  describe('getSsoProviders', () => {
+    it('should list configured providers without secrets', async () => {
+      const providers = await getSsoProviders();
+
+      expect(providers).toContainEqual({ id: 'springfield', name: 'Springfield High' });
+      expect(JSON.stringify(providers)).not.toContain(idp.clientSecret);
+    });
+  });
+
+  describe('beginSsoLogin', () => {
+    it('should build an authorization URL with state, nonce and PKCE', async () => {
+      const { authorizationUrl } = await beginSsoLogin('springfield');
+      const url = new URL(authorizationUrl);
+
+      expect(url.origin).toBe(idp.issuer);
+      expect(url.searchParams.get('client_id')).toBe(idp.clientId);
+      expect(url.searchParams.get('response_type')).toBe('code');
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(url.searchParams.get('redirect_uri')).toContain('sso=callback');
+
+      const states = await db.select().from(oidcLoginStatesTable).execute();
+      expect(states).toHaveLength(1);
+      expect(states[0].state).toBe(url.searchParams.get('state')!);
+      expect(states[0].nonce).toBe(url.searchParams.get('nonce')!);
+    });
+
+    it('should reject unknown providers', async () => {
+      await expect(beginSsoLogin('nowhere')).rejects.toThrow(/unknown identity provider/i);
+    });
+  });
+
+  describe('completeSsoLogin', () => {
+    it('should create a new account on first sign-in', async () => {
+      const result = await signInWithSso();
+      if (result.twoFactorRequired) throw new Error('Expected session');
+
+      expect(result.user.email).toBe('sso.student@school.example');
+      expect(result.user.first_name).toBe('Sam');
+      expect(result.user.role).toBe('student');
+      expect(result.user.email_verified).toBe(true);
+
+      const session = await authenticateToken(result.token);
+      expect(session!.user.id).toBe(result.user.id);
+
+      const identities = await db.select().from(userIdentitiesTable).execute();
+      expect(identities).toHaveLength(1);
+      expect(identities[0].provider).toBe('springfield');
+      expect(identities[0].subject).toBe('school-user-1');
+    });
+
+    it('should reuse the linked account on later sign-ins', async () => {
+      const first = await signInWithSso();
+      idp.user = { ...idp.user, email: 'renamed@school.example' };
+      const second = await signInWithSso();
+      if (first.twoFactorRequired || second.twoFactorRequired) throw new Error('Expected session');
+
+      expect(second.user.id).toBe(first.user.id);
+      const users = await db.select().from(usersTable).execute();
+      expect(users).toHaveLength(1);
+    });
+
+    it('should link to an existing account by verified email', async () => {
+      const existing = await registerVerified(existingUserInput);
+
+      const result = await signInWithSso();
+      if (result.twoFactorRequired) throw new Error('Expected session');
+
+      expect(result.user.id).toBe(existing.id);
+      expect(result.user.email_verified).toBe(true);
+
+      const identities = await db.select().from(userIdentitiesTable).execute();
+      expect(identities[0].user_id).toBe(existing.id);
+    });
+
+    it('should match existing emails case-insensitively', async () => {
+      const existing = await registerVerified(existingUserInput);
+      idp.user = { ...idp.user, email: 'SSO.Student@School.example' };
+
+      const result = await signInWithSso();
+      if (result.twoFactorRequired) throw new Error('Expected session');
+
+      expect(result.user.id).toBe(existing.id);
+    });
+
+    it('should not link when the IdP has not verified the email', async () => {
+      await register(existingUserInput);
+      idp.user = { ...idp.user, email_verified: false };
+
+      await expect(signInWithSso()).rejects.toThrow(/already exists/i);
+
+      const identities = await db.select().from(userIdentitiesTable).execute();
+      expect(identities).toHaveLength(0);
+    });
+
+    it('should not link to a local account whose address was never confirmed', async () => {
+      // Someone registered the address first and never verified it
+      const squatter = await register(existingUserInput);
+
+      await expect(signInWithSso()).rejects.toThrow(/never confirmed/i);
+
+      const identities = await db.select().from(userIdentitiesTable).execute();
+      expect(identities).toHaveLength(0);
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, squatter.id)).execute();
+      expect(users[0].email_verified).toBe(false);
+    });
+
+    it('should not link by email for domains the provider is not trusted for', async () => {
+      await register({ ...existingUserInput, email: 'sso.student@gmail.example' });
+      idp.user = { ...idp.user, email: 'sso.student@gmail.example' };
+
+      await expect(signInWithSso()).rejects.toThrow(/sign in with your password and link/i);
+
+      const identities = await db.select().from(userIdentitiesTable).execute();
+      expect(identities).toHaveLength(0);
+    });
+
+    it('should link an untrusted address once the user confirms their password', async () => {
+      const existing = await register({ ...existingUserInput, email: 'sso.student@gmail.example' });
+      idp.user = { ...idp.user, email: 'sso.student@gmail.example' };
+
+      await expect(beginSsoLink('springfield', existing.id, 'wrong-password')).rejects.toThrow(/password is incorrect/i);
+
+      const { authorizationUrl } = await beginSsoLink('springfield', existing.id, existingUserInput.password);
+      const linked = await completeSsoLogin(await idp.authorize(authorizationUrl));
+      if (linked.twoFactorRequired) throw new Error('Expected session');
+      expect(linked.user.id).toBe(existing.id);
+
+      // Later sign-ins follow the link
+      const again = await signInWithSso();
+      if (again.twoFactorRequired) throw new Error('Expected session');
+      expect(again.user.id).toBe(existing.id);
+    });
+
+    it('should not move an identity linked to another account', async () => {
+      await signInWithSso();
+      const other = await register({ ...existingUserInput, email: 'other@gmail.example' });
+
+      const { authorizationUrl } = await beginSsoLink('springfield', other.id, existingUserInput.password);
+      await expect(completeSsoLogin(await idp.authorize(authorizationUrl))).rejects.toThrow(/already linked to another account/i);
+    });
+
+    it('should map IdP roles to platform roles', async () => {
+      idp.user = { ...idp.user, roles: ['staff', 'faculty'] };
+
+      const result = await signInWithSso();
+      if (result.twoFactorRequired) throw new Error('Expected session');
+
+      expect(result.user.role).toBe('instructor');
+    });
+
+    it('should only update roles on later sign-ins when syncRole is set', async () => {
+      await signInWithSso();
+      idp.user = { ...idp.user, roles: ['faculty'] };
+
+      const unsynced = await signInWithSso();
+      if (unsynced.twoFactorRequired) throw new Error('Expected session');
+      expect(unsynced.user.role).toBe('student');
+
+      registerOidcProvider({ ...provider, syncRole: true });
+      const synced = await signInWithSso();
+      if (synced.twoFactorRequired) throw new Error('Expected session');
+      expect(synced.user.role).toBe('instructor');
+    });
+
+    it('should reject a reused state', async () => {
+      const { authorizationUrl } = await beginSsoLogin('springfield');
+      const callback = await idp.authorize(authorizationUrl);
+      await completeSsoLogin(callback);
+
+      await expect(completeSsoLogin(callback)).rejects.toThrow(/invalid or expired sign-in request/i);
+    });
+
+    it('should reject an expired state', async () => {
+      const { authorizationUrl } = await beginSsoLogin('springfield');
+      const callback = await idp.authorize(authorizationUrl);
+      await db.update(oidcLoginStatesTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      await expect(completeSsoLogin(callback)).rejects.toThrow(/invalid or expired sign-in request/i);
+    });
+
+    it('should reject an ID token with the wrong nonce', async () => {
+      idp.overrideClaims = { nonce: 'replayed' };
+
+      await expect(signInWithSso()).rejects.toThrow(/nonce mismatch/i);
+    });
+
+    it('should reject an ID token for another client', async () => {
+      idp.overrideClaims = { aud: 'someone-else' };
+
+      await expect(signInWithSso()).rejects.toThrow(/audience mismatch/i);
+    });
+
+    it('should reject an expired ID token', async () => {
+      idp.overrideClaims = { exp: Math.floor(Date.now() / 1000) - 3600 };
+
+      await expect(signInWithSso()).rejects.toThrow(/expired/i);
+    });
+
+    it('should reject deactivated accounts', async () => {
+      const existing = await registerVerified(existingUserInput);
+      await db.update(usersTable)
+        .set({ is_active: false })
+        .where(eq(usersTable.id, existing.id))
+        .execute();
+
+      await expect(signInWithSso()).rejects.toThrow(/deactivated/i);
+    });
+
+    it('should still require two-factor when enabled on the account', async () => {
+      const existing = await registerVerified(existingUserInput);
+      const { secret } = await beginTwoFactorEnrollment(existing.id);
+      await confirmTwoFactorEnrollment(existing.id, generateTotpCode(secret));
+
+      const result = await signInWithSso();
+
+      expect(result.twoFactorRequired).toBe(true);
+    });
+  });
+
+  describe('mapRole', () => {
+    it('should fall back to the default role', () => {
+      expect(mapRole({ ...provider, defaultRole: 'student' }, { ...idp.user, iss: '', aud: '', exp: 0, iat: 0, roles: ['alumni'] })).toBe('student');
+      expect(mapRole({ ...provider, roleClaim: undefined }, { ...idp.user, iss: '', aud: '', exp: 0, iat: 0 })).toBe('student');
+    });
+
+    it('should only map administrators on the allowlist', () => {
+      const claims = { ...idp.user, iss: '', aud: '', exp: 0, iat: 0, roles: ['faculty', 'it'] };
+
+      expect(mapRole(provider, claims)).toBe('instructor');
+      expect(mapRole({ ...provider, defaultRole: 'administrator' }, { ...claims, roles: [] })).toBe('student');
+      expect(mapRole({ ...provider, administratorSubjects: [idp.user.sub] }, claims)).toBe('administrator');
+    });
+
+    it('should take administrator away on sync when the subject is not allowlisted', async () => {
+      const first = await signInWithSso();
+      if (first.twoFactorRequired) throw new Error('Expected session');
+      await db.update(usersTable).set({ role: 'administrator' }).where(eq(usersTable.id, first.user.id)).execute();
+      registerOidcProvider({ ...provider, syncRole: true });
+      idp.user = { ...idp.user, roles: ['it'] };
+
+      const synced = await signInWithSso();
+      if (synced.twoFactorRequired) throw new Error('Expected session');
+      expect(synced.user.role).toBe('student');
+    });
+
+    it('should accept a single string claim', () => {
+      expect(mapRole(provider, { ...idp.user, iss: '', aud: '', exp: 0, iat: 0, roles: 'faculty' })).toBe('instructor');
+    });
+  });
+});
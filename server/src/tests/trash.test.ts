@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createUser } from '../helpers/fixtures';
+import { db } from '../db';
+import {
+  coursesTable,
+  lessonsTable,
+  quizzesTable,
+  quizQuestionsTable,
+  quizAttemptsTable,
+  enrollmentsTable,
+  certificatesTable
+} from '../db/schema';
+import { getTrash, restoreTrashItem, purgeDeletedContent, TRASH_RETENTION_DAYS } from '../handlers/trash';
+import { deleteCourse, getCourseById, publishCourse } from '../handlers/courses';
+import { deleteLesson } from '../handlers/lessons';
+import { deleteQuiz, getQuizById } from '../handlers/quizzes';
+import { enrollInCourse, completeCourse } from '../handlers/enrollments';
+import { eq } from 'drizzle-orm';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let instructorId: number;
+let otherInstructorId: number;
+let studentId: number;
+let courseId: number;
+let lessonId: number;
+let quizId: number;
+
+function afterRetention(): Date {
+  return new Date(Date.now() + (TRASH_RETENTION_DAYS + 1) * DAY);
+}
+
+async function findCourse(id: number) {
+  const rows = await db.select().from(coursesTable).where(eq(coursesTable.id, id)).execute();
+  return rows[0] ?? null;
+}
+
+async function findLesson(id: number) {
+  const rows = await db.select().from(lessonsTable).where(eq(lessonsTable.id, id)).execute();
+  return rows[0] ?? null;
+}
+
+async function findQuiz(id: number) {
+  const rows = await db.select().from(quizzesTable).where(eq(quizzesTable.id, id)).execute();
+  return rows[0] ?? null;
+}
+
+describe('Trash', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    instructorId = await createUser('instructor@test.com', 'instructor');
+    otherInstructorId = await createUser('other@test.com', 'instructor');
+    studentId = await createUser('student@test.com', 'student');
+
+    const course = await db.insert(coursesTable)
+      .values({
+        title: 'Bookbinding',
+        description: 'Coptic and case bindings',
+        price: '0',
+        duration_hours: '6',
+        instructor_id: instructorId,
+        moderation_status: 'approved'
+      })
+      .returning()
+      .execute();
+    courseId = course[0].id;
+
+    const lesson = await db.insert(lessonsTable)
+      .values({ course_id: courseId, title: 'Folding signatures', content: 'Fold', order_index: 1, duration_minutes: 15 })
+      .returning()
+      .execute();
+    lessonId = lesson[0].id;
+
+    const quiz = await db.insert(quizzesTable)
+      .values({ lesson_id: lessonId, title: 'Folding check', passing_score: 70 })
+      .returning()
+      .execute();
+    quizId = quiz[0].id;
+
+    await db.insert(quizQuestionsTable)
+      .values({ quiz_id: quizId, question_text: 'Grain runs?', question_type: 'short_answer', correct_answer: 'parallel', points: 1, order_index: 1 })
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  describe('deleting', () => {
+    it('should list deleted lessons and quizzes with their restore deadline', async () => {
+      await deleteQuiz(quizId, instructorId);
+      await deleteLesson(lessonId, instructorId);
+
+      const trash = await getTrash(instructorId);
+
+      // The quiz sits inside the trashed lesson and comes back with it
+      expect(trash.map(item => [item.type, item.title, item.course_title])).toEqual([['lesson', 'Folding signatures', 'Bookbinding']]);
+      expect(trash[0].restorable_until.getTime() - trash[0].deleted_at.getTime()).toEqual(TRASH_RETENTION_DAYS * DAY);
+      expect(await getTrash(otherInstructorId)).toEqual([]);
+    });
+
+    it('should take lessons out of a live course through its draft', async () => {
+      await db.insert(lessonsTable)
+        .values({ course_id: courseId, title: 'Sewing', order_index: 2, duration_minutes: 20 })
+        .execute();
+      await publishCourse(courseId, instructorId);
+
+      await deleteLesson(lessonId, instructorId);
+      expect((await findLesson(lessonId))!.deleted_at).toBeNull();
+
+      // As if a moderator had approved the changes
+      await db.update(coursesTable).set({ moderation_status: 'approved' }).where(eq(coursesTable.id, courseId)).execute();
+      await publishCourse(courseId, instructorId);
+
+      expect((await findLesson(lessonId))!.deleted_at).toBeInstanceOf(Date);
+      expect((await getTrash(instructorId)).map(item => item.id)).toEqual([lessonId]);
+    });
+
+    it('should keep enrollments and certificates of a deleted course', async () => {
+      await enrollInCourse({ course_id: courseId }, studentId);
+      await completeCourse(studentId, courseId);
+
+      await deleteCourse(courseId, instructorId);
+
+      expect(await getCourseById(courseId)).toBeNull();
+      expect(await db.select().from(enrollmentsTable).execute()).toHaveLength(1);
+      expect(await db.select().from(certificatesTable).execute()).toHaveLength(1);
+      await expect(enrollInCourse({ course_id: courseId }, await createUser('late@test.com', 'student')))
+        .rejects.toThrow(/course not found/i);
+    });
+  });
+
+  describe('restoreTrashItem', () => {
+    it('should restore a course unpublished', async () => {
+      await db.update(coursesTable).set({ is_published: true }).where(eq(coursesTable.id, courseId)).execute();
+      await deleteCourse(courseId, instructorId);
+
+      await expect(restoreTrashItem({ type: 'course', id: courseId }, otherInstructorId))
+        .rejects.toThrow(/permission to restore/i);
+      expect(await restoreTrashItem({ type: 'course', id: courseId }, instructorId)).toEqual({ success: true });
+
+      const course = await getCourseById(courseId);
+      expect(course!.is_published).toBe(false);
+      expect(await getTrash(instructorId)).toEqual([]);
+    });
+
+    it('should restore a quiz only once its lesson is back', async () => {
+      await deleteQuiz(quizId, instructorId);
+      await deleteLesson(lessonId, instructorId);
+
+      await expect(restoreTrashItem({ type: 'quiz', id: quizId }, instructorId))
+        .rejects.toThrow(/lesson and course first/i);
+
+      await restoreTrashItem({ type: 'lesson', id: lessonId }, instructorId);
+      expect(await getQuizById(quizId)).toBeNull();
+
+      await restoreTrashItem({ type: 'quiz', id: quizId }, instructorId);
+      expect((await getQuizById(quizId))!.title).toEqual('Folding check');
+    });
+
+    it('should refuse to restore after the retention window', async () => {
+      await deleteLesson(lessonId, instructorId);
+
+      await expect(restoreTrashItem({ type: 'lesson', id: lessonId }, instructorId, afterRetention()))
+        .rejects.toThrow(new RegExp(`within ${TRASH_RETENTION_DAYS} days`));
+      expect(await getTrash(instructorId, afterRetention())).toEqual([]);
+    });
+
+    it('should only restore items that are in the trash', async () => {
+      await expect(restoreTrashItem({ type: 'lesson', id: lessonId }, instructorId))
+        .rejects.toThrow(/not found in the trash/i);
+    });
+  });
+
+  describe('purgeDeletedContent', () => {
+    it('should leave content inside the retention window alone', async () => {
+      await deleteCourse(courseId, instructorId);
+
+      expect(await purgeDeletedContent()).toEqual({ courses: [], lessons: [], quizzes: [] });
+      expect(await findCourse(courseId)).not.toBeNull();
+    });
+
+    it('should remove expired content nobody used', async () => {
+      await deleteQuiz(quizId, instructorId);
+
+      expect(await purgeDeletedContent(afterRetention())).toEqual({ courses: [], lessons: [], quizzes: [quizId] });
+      expect(await findQuiz(quizId)).toBeNull();
+      expect(await db.select().from(quizQuestionsTable).execute()).toEqual([]);
+
+      await deleteCourse(courseId, instructorId);
+
+      expect(await purgeDeletedContent(afterRetention())).toEqual({ courses: [courseId], lessons: [], quizzes: [] });
+      expect(await findCourse(courseId)).toBeNull();
+      expect(await findLesson(lessonId)).toBeNull();
+    });
+
+    it('should archive expired content with student history instead of removing it', async () => {
+      await enrollInCourse({ course_id: courseId }, studentId);
+      await db.insert(quizAttemptsTable)
+        .values({ quiz_id: quizId, student_id: studentId, score: 1, total_points: 1, answers: {}, is_passed: true })
+        .execute();
+
+      await deleteLesson(lessonId, instructorId);
+      await deleteCourse(courseId, instructorId);
+
+      expect(await purgeDeletedContent(afterRetention())).toEqual({ courses: [], lessons: [], quizzes: [] });
+      expect(await findCourse(courseId)).not.toBeNull();
+      expect(await findLesson(lessonId)).not.toBeNull();
+      expect(await db.select().from(quizAttemptsTable).execute()).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userTwoFactorTable, twoFactorRecoveryCodesTable } from '../db/schema';
+import { type RegisterInput } from '../schema';
+import { register, login, completeTwoFactorLogin, authenticateToken } from '../handlers/auth';
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  getTwoFactorStatus,
+  getTwoFactorRequirements,
+  setTwoFactorRequirement,
+  generateTotpCode
+} from '../handlers/twoFactor';
+import { MemoryMailTransport, setMailTransport } from '../mail';
+import { eq, isNull, and } from 'drizzle-orm';
+
+const STEP_MS = 30 * 1000;
+
+const testAdminInput: RegisterInput = {
+  email: 'admin@example.com',
+  password: 'password123',
+  first_name: 'Ada',
+  last_name: 'Admin',
+  role: 'student'
+};
+
+const testStudentInput: RegisterInput = {
+  email: 'student@example.com',
+  password: 'password123',
+  first_name: 'Sam',
+  last_name: 'Student',
+  role: 'student'
+};
+
+// Enroll and confirm two-factor, returning the secret and recovery codes
+async function enableTwoFactor(userId: number) {
+  const { secret } = await beginTwoFactorEnrollment(userId);
+  const { recoveryCodes } = await confirmTwoFactorEnrollment(userId, generateTotpCode(secret));
+  return { secret, recoveryCodes };
+}
+
+describe('Two-Factor Handlers', () => {
+  let adminId: number;
+  let studentId: number;
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    setMailTransport(new MemoryMailTransport());
+    // Administrators cannot self-register, so promote the account directly
+    adminId = (await register(testAdminInput)).id;
+    await db.update(usersTable).set({ role: 'administrator' }).where(eq(usersTable.id, adminId)).execute();
+    studentId = (await register(testStudentInput)).id;
+  });
+
+  describe('enrollment', () => {
+    it('should return a secret and provisioning URI', async () => {
+      const result = await beginTwoFactorEnrollment(adminId);
+
+      expect(result.secret).toMatch(/^[A-Z2-7]+$/);
+      expect(result.otpauthUrl).toStartWith('otpauth://totp/');
+      expect(result.otpauthUrl).toContain(`secret=${result.secret}`);
+      expect(result.otpauthUrl).toContain(encodeURIComponent('admin@example.com'));
+    });
+
+    it('should not enable two-factor until a code is confirmed', async () => {
+      await beginTwoFactorEnrollment(adminId);
+
+      const status = await getTwoFactorStatus(adminId);
+      expect(status.enabled).toBe(false);
+
+      const result = await login({ email: testAdminInput.email, password: testAdminInput.password });
+      expect(result.twoFactorRequired).toBe(false);
+    });
+
+    it('should enable two-factor and issue recovery codes on confirmation', async () => {
+      const { recoveryCodes } = await enableTwoFactor(adminId);
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(new Set(recoveryCodes).size).toBe(10);
+
+      const status = await getTwoFactorStatus(adminId);
+      expect(status.enabled).toBe(true);
+      expect(status.recoveryCodesRemaining).toBe(10);
+
+      // Only hashes are stored
+      const stored = await db.select().from(twoFactorRecoveryCodesTable).execute();
+      expect(stored.map(code => code.code_hash)).not.toContain(recoveryCodes[0]);
+    });
+
+    it('should reject an invalid confirmation code', async () => {
+      await beginTwoFactorEnrollment(adminId);
+
+      await expect(confirmTwoFactorEnrollment(adminId, '000000')).rejects.toThrow(/invalid verification code/i);
+    });
+
+    it('should reject confirmation without enrollment', async () => {
+      await expect(confirmTwoFactorEnrollment(adminId, '123456')).rejects.toThrow(/not been started/i);
+    });
+
+    it('should reject starting enrollment twice once enabled', async () => {
+      await enableTwoFactor(adminId);
+
+      await expect(beginTwoFactorEnrollment(adminId)).rejects.toThrow(/already enabled/i);
+    });
+  });
+
+  describe('login', () => {
+    let secret: string;
+    let recoveryCodes: string[];
+
+    beforeEach(async () => {
+      ({ secret, recoveryCodes } = await enableTwoFactor(adminId));
+    });
+
+    it('should return a challenge instead of a session', async () => {
+      const result = await login({ email: testAdminInput.email, password: testAdminInput.password });
+
+      expect(result.twoFactorRequired).toBe(true);
+      expect(result).not.toHaveProperty('token');
+    });
+
+    it('should complete login with a valid TOTP code', async () => {
+      const challenge = await login({ email: testAdminInput.email, password: testAdminInput.password });
+      if (!challenge.twoFactorRequired) throw new Error('Expected challenge');
+
+      const result = await completeTwoFactorLogin(challenge.challengeToken, generateTotpCode(secret, Date.now() + STEP_MS));
+      if (result.twoFactorRequired) throw new Error('Expected session');
+
+      expect(result.user.id).toBe(adminId);
+      const session = await authenticateToken(result.token);
+      expect(session!.user.id).toBe(adminId);
+    });
+
+    it('should reject a code that was already used', async () => {
+      const challenge = await login({ email: testAdminInput.email, password: testAdminInput.password });
+      if (!challenge.twoFactorRequired) throw new Error('Expected challenge');
+
+      // Codes at or before the confirmation code's time step have already been consumed
+      await expect(completeTwoFactorLogin(challenge.challengeToken, generateTotpCode(secret, Date.now() - STEP_MS))).rejects.toThrow(/invalid verification code/i);
+    });
+
+    it('should accept a code only once when it is submitted concurrently', async () => {
+      const challenges = await Promise.all([1, 2].map(async () => {
+        const challenge = await login({ email: testAdminInput.email, password: testAdminInput.password });
+        if (!challenge.twoFactorRequired) throw new Error('Expected challenge');
+        return challenge.challengeToken;
+      }));
+      const code = generateTotpCode(secret, Date.now() + STEP_MS);
+
+      // Hold the enrollment row so both submissions have read it before either records the code
+      let release!: () => void;
+      let locked!: () => void;
+      const rowLocked = new Promise<void>(resolve => { locked = resolve; });
+      const lock = db.transaction(async (tx) => {
+        await tx.select().from(userTwoFactorTable).for('update').execute();
+        locked();
+        await new Promise<void>(resolve => { release = resolve; });
+      });
+      await rowLocked;
+
+      const submissions = Promise.allSettled(challenges.map(token => completeTwoFactorLogin(token, code)));
+      await new Promise(resolve => setTimeout(resolve, 200));
+      release();
+      await lock;
+      const results = await submissions;
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    });
+
+    it('should reject a wrong code', async () => {
+      const challenge = await login({ email: testAdminInput.email, password: testAdminInput.password });
+      if (!challenge.twoFactorRequired) throw new Error('Expected challenge');
+
+      await expect(completeTwoFactorLogin(challenge.challengeToken, '000000')).rejects.toThrow(/invalid verification code/i);
+    });
+
+    it('should accept each recovery code only once', async () => {
+      const challenge = await login({ email: testAdminInput.email, password: testAdminInput.password });
+      if (!challenge.twoFactorRequired) throw new Error('Expected challenge');
+
+      const result = await completeTwoFactorLogin(challenge.challengeToken, recoveryCodes[0].toUpperCase());
+      expect(result.twoFactorRequired).toBe(false);
+
+      await expect(completeTwoFactorLogin(challenge.challengeToken, recoveryCodes[0])).rejects.toThrow(/invalid verification code/i);
+
+      const status = await getTwoFactorStatus(adminId);
+      expect(status.recoveryCodesRemaining).toBe(9);
+    });
+
+    it('should reject tampered or session tokens as challenges', async () => {
+      await expect(completeTwoFactorLogin('not-a-token', generateTotpCode(secret))).rejects.toThrow(/invalid or expired login challenge/i);
+
+      const studentLogin = await login({ email: testStudentInput.email, password: testStudentInput.password });
+      if (studentLogin.twoFactorRequired) throw new Error('Expected session');
+      await expect(completeTwoFactorLogin(studentLogin.token, '123456')).rejects.toThrow(/invalid or expired login challenge/i);
+    });
+  });
+
+  describe('disableTwoFactor', () => {
+    it('should disable two-factor with a valid code', async () => {
+      const { recoveryCodes } = await enableTwoFactor(studentId);
+
+      const result = await disableTwoFactor(studentId, recoveryCodes[0]);
+      expect(result.success).toBe(true);
+
+      const status = await getTwoFactorStatus(studentId);
+      expect(status.enabled).toBe(false);
+      expect(status.recoveryCodesRemaining).toBe(0);
+    });
+
+    it('should reject an invalid code', async () => {
+      await enableTwoFactor(studentId);
+
+      await expect(disableTwoFactor(studentId, '000000')).rejects.toThrow(/invalid verification code/i);
+    });
+
+    it('should refuse when the role requires two-factor', async () => {
+      const { recoveryCodes } = await enableTwoFactor(adminId);
+      await setTwoFactorRequirement(adminId, 'administrator', true);
+
+      await expect(disableTwoFactor(adminId, recoveryCodes[0])).rejects.toThrow(/required for your role/i);
+    });
+  });
+
+  describe('regenerateRecoveryCodes', () => {
+    it('should replace all recovery codes', async () => {
+      const { recoveryCodes } = await enableTwoFactor(studentId);
+
+      const result = await regenerateRecoveryCodes(studentId, recoveryCodes[0]);
+
+      expect(result.recoveryCodes).toHaveLength(10);
+      expect(result.recoveryCodes).not.toContain(recoveryCodes[1]);
+
+      const unused = await db.select()
+        .from(twoFactorRecoveryCodesTable)
+        .where(and(eq(twoFactorRecoveryCodesTable.user_id, studentId), isNull(twoFactorRecoveryCodesTable.used_at)))
+        .execute();
+      expect(unused).toHaveLength(10);
+    });
+  });
+
+  describe('requirements', () => {
+    it('should default to not required for every role', async () => {
+      const requirements = await getTwoFactorRequirements(adminId);
+
+      expect(requirements).toHaveLength(3);
+      expect(requirements.every(requirement => !requirement.required)).toBe(true);
+    });
+
+    it('should require the admin to have two-factor before enforcing it for administrators', async () => {
+      await expect(setTwoFactorRequirement(adminId, 'administrator', true)).rejects.toThrow(/enable two-factor/i);
+
+      await enableTwoFactor(adminId);
+      const result = await setTwoFactorRequirement(adminId, 'administrator', true);
+
+      expect(result.required).toBe(true);
+      const status = await getTwoFactorStatus(adminId);
+      expect(status.required).toBe(true);
+    });
+
+    it('should flag setup as required on login for affected users', async () => {
+      await setTwoFactorRequirement(adminId, 'student', true);
+
+      const result = await login({ email: testStudentInput.email, password: testStudentInput.password });
+      if (result.twoFactorRequired) throw new Error('Expected session');
+
+      expect(result.twoFactorSetupRequired).toBe(true);
+    });
+
+    it('should update an existing requirement', async () => {
+      await setTwoFactorRequirement(adminId, 'instructor', true);
+      await setTwoFactorRequirement(adminId, 'instructor', false);
+
+      const requirements = await getTwoFactorRequirements(adminId);
+      expect(requirements.find(requirement => requirement.role === 'instructor')!.required).toBe(false);
+    });
+
+    it('should reject non-admin access', async () => {
+      await expect(setTwoFactorRequirement(studentId, 'student', true)).rejects.toThrow(/admin access required/i);
+      await expect(getTwoFactorRequirements(studentId)).rejects.toThrow(/admin access required/i);
+    });
+  });
+
+  it('should remove two-factor data when the user is deleted', async () => {
+    await enableTwoFactor(studentId);
+
+    await db.delete(usersTable).where(eq(usersTable.id, studentId)).execute();
+
+    const codes = await db.select().from(twoFactorRecoveryCodesTable).execute();
+    expect(codes).toHaveLength(0);
+  });
+});
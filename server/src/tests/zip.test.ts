@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'bun:test';
+import { createZip, openZip } from '../zip';
+
+function archiveOf(files: Record<string, string | Buffer>): Buffer {
+  return createZip(Object.entries(files).map(([name, data]) => ({ name, data: Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf8') })));
+}
+
+// Offsets of each central directory header, in archive order
+function centralHeaders(archive: Buffer): number[] {
+  const end = archive.length - 22;
+  const offsets: number[] = [];
+  let position = archive.readUInt32LE(end + 16);
+  for (let i = 0; i < archive.readUInt16LE(end + 10); i++) {
+    offsets.push(position);
+    position += 46 + archive.readUInt16LE(position + 28);
+  }
+  return offsets;
+}
+
+describe('openZip', () => {
+  it('should list entries and inflate the ones looked up', () => {
+    const archive = openZip(archiveOf({ 'course.json': '{"a":1}', 'media/readme.txt': 'hello' }));
+
+    expect(archive.names).toEqual(['course.json', 'media/readme.txt']);
+    expect(archive.read('media/readme.txt')!.toString('utf8')).toEqual('hello');
+    expect(archive.read('missing.txt')).toBeNull();
+  });
+
+  it('should only fail on a corrupt entry once it is read', () => {
+    const buffer = archiveOf({ 'a.txt': 'first', 'b.txt': 'second' });
+    const [, second] = centralHeaders(buffer);
+    buffer.writeUInt32LE((buffer.readUInt32LE(second + 16) ^ 1) >>> 0, second + 16); // Break the checksum
+
+    const archive = openZip(buffer);
+    expect(archive.read('a.txt')!.toString('utf8')).toEqual('first');
+    expect(() => archive.read('b.txt')).toThrow(/b\.txt is corrupt/i);
+  });
+
+  it('should not inflate an entry past its declared size', () => {
+    const buffer = archiveOf({ 'bomb.txt': Buffer.alloc(10 * 1024 * 1024) });
+    const [header] = centralHeaders(buffer);
+    buffer.writeUInt32LE(1024, header + 24);
+
+    expect(() => openZip(buffer).read('bomb.txt')).toThrow(/bomb\.txt is corrupt/i);
+  });
+
+  it('should reject archives declaring too many entries', () => {
+    const buffer = archiveOf({ 'a.txt': 'a' });
+    buffer.writeUInt16LE(60000, buffer.length - 22 + 10);
+
+    expect(() => openZip(buffer)).toThrow(/too many entries/i);
+  });
+
+  it('should reject archives declaring too much data in total', () => {
+    const files: Record<string, string> = {};
+    for (let i = 0; i < 5; i++) files[`part${i}.bin`] = 'x';
+    const buffer = archiveOf(files);
+    for (const header of centralHeaders(buffer)) {
+      buffer.writeUInt32LE(45 * 1024 * 1024, header + 24);
+    }
+
+    expect(() => openZip(buffer)).toThrow(/too large once extracted/i);
+  });
+
+  it('should reject entries that share the same data', () => {
+    const buffer = archiveOf({ 'a.txt': 'first', 'b.txt': 'second' });
+    const [, second] = centralHeaders(buffer);
+    buffer.writeUInt32LE(0, second + 42);
+
+    expect(() => openZip(buffer)).toThrow(/corrupt zip archive/i);
+  });
+
+  it('should reject local offsets outside the archive data', () => {
+    const buffer = archiveOf({ 'a.txt': 'first' });
+    const [header] = centralHeaders(buffer);
+    buffer.writeUInt32LE(header, header + 42); // Points into the central directory itself
+
+    expect(() => openZip(buffer)).toThrow(/corrupt zip archive/i);
+  });
+
+  it('should reject entries whose data runs into the central directory', () => {
+    const buffer = archiveOf({ 'a.txt': 'first' });
+    const [header] = centralHeaders(buffer);
+    buffer.writeUInt32LE(buffer.readUInt32LE(header + 20) + 100, header + 20);
+
+    expect(() => openZip(buffer)).toThrow(/corrupt zip archive/i);
+  });
+});
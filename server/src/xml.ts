@@ -0,0 +1,149 @@
+// A small non-validating XML parser for package manifests and QTI assessments. Namespaces are
+// not resolved; lookups match on the local name so "adlcp:scormtype" is found as "scormtype".
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: '\'',
+  nbsp: ' '
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity: string, code: string) => {
+    if (code[0] === '#') {
+      const codePoint = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+const START_TAG = /<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  const skipPast = (terminator: string) => {
+    const end = source.indexOf(terminator, position);
+    if (end === -1) {
+      throw new Error('Malformed XML: unterminated markup');
+    }
+    position = end + terminator.length;
+  };
+
+  while (position < source.length) {
+    const tagStart = source.indexOf('<', position);
+    if (tagStart === -1 || tagStart > position) {
+      const text = source.slice(position, tagStart === -1 ? source.length : tagStart);
+      stack[stack.length - 1].children.push(decodeEntities(text));
+      if (tagStart === -1) break;
+    }
+    position = tagStart;
+
+    if (source.startsWith('<?', position)) {
+      skipPast('?>');
+    } else if (source.startsWith('<!--', position)) {
+      skipPast('-->');
+    } else if (source.startsWith('<![CDATA[', position)) {
+      const end = source.indexOf(']]>', position);
+      if (end === -1) {
+        throw new Error('Malformed XML: unterminated CDATA section');
+      }
+      stack[stack.length - 1].children.push(source.slice(position + 9, end));
+      position = end + 3;
+    } else if (source.startsWith('<!', position)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const bracket = source.indexOf('[', position);
+      const close = source.indexOf('>', position);
+      if (bracket !== -1 && bracket < close) {
+        skipPast(']');
+      }
+      skipPast('>');
+    } else if (source.startsWith('</', position)) {
+      const end = source.indexOf('>', position);
+      if (end === -1) {
+        throw new Error('Malformed XML: unterminated closing tag');
+      }
+      const name = source.slice(position + 2, end).trim();
+      const element = stack.pop();
+      if (!element || element === root || element.name !== name) {
+        throw new Error(`Malformed XML: unexpected </${name}>`);
+      }
+      position = end + 1;
+    } else {
+      START_TAG.lastIndex = position;
+      const match = START_TAG.exec(source);
+      if (!match) {
+        throw new Error('Malformed XML: invalid tag');
+      }
+
+      const attributes: Record<string, string> = {};
+      for (const [, name, doubleQuoted, singleQuoted] of match[2].matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attributes[name] = decodeEntities(doubleQuoted ?? singleQuoted);
+      }
+
+      const element: XmlElement = { name: match[1], attributes, children: [] };
+      stack[stack.length - 1].children.push(element);
+      if (match[3] !== '/') {
+        stack.push(element);
+      }
+      position += match[0].length;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Malformed XML: <${stack[stack.length - 1].name}> is never closed`);
+  }
+
+  const documentElement = root.children.find((child): child is XmlElement => typeof child !== 'string');
+  if (!documentElement) {
+    throw new Error('Malformed XML: no root element');
+  }
+  return documentElement;
+}
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child): child is XmlElement => typeof child !== 'string' && localName(child.name) === name);
+}
+
+export function firstChild(element: XmlElement, name: string): XmlElement | undefined {
+  return childElements(element, name)[0];
+}
+
+// All descendants with the name, in document order
+export function descendants(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const child of element.children) {
+    if (typeof child === 'string') continue;
+    if (localName(child.name) === name) {
+      found.push(child);
+    }
+    found.push(...descendants(child, name));
+  }
+  return found;
+}
+
+export function attribute(element: XmlElement, name: string): string | undefined {
+  const key = Object.keys(element.attributes).find(key => localName(key) === name);
+  return key === undefined ? undefined : element.attributes[key];
+}
+
+export function textContent(element: XmlElement): string {
+  return element.children.map(child => (typeof child === 'string' ? child : textContent(child))).join('');
+}
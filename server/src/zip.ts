@@ -0,0 +1,216 @@
+import { crc32, deflateRawSync, inflateRawSync } from 'zlib';
+
+// A minimal ZIP reader and writer for course packages: deflated or stored entries, no
+// encryption, ZIP64 or multi-disk archives.
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+export interface ZipArchive {
+  names: string[]; // File entries in archive order, directories left out
+  read(name: string): Buffer | null;
+}
+
+interface CentralEntry {
+  method: number;
+  checksum: number;
+  size: number;
+  dataStart: number;
+  dataEnd: number;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+// Limits on what an archive may inflate to, so a small upload can't exhaust memory
+const MAX_ENTRY_SIZE = 50 * 1024 * 1024;
+const MAX_TOTAL_SIZE = 200 * 1024 * 1024;
+const MAX_ENTRIES = 5000;
+
+// DOS date and time fields; archives don't need the modification time, so use a fixed one
+const DOS_TIME = 0;
+const DOS_DATE = (2020 - 1980) << 9 | 1 << 5 | 1;
+
+export function createZip(entries: ZipEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const compressed = deflateRawSync(entry.data);
+    const checksum = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(20, 4); // Version needed to extract
+    local.writeUInt16LE(0x0800, 6); // Names are UTF-8
+    local.writeUInt16LE(METHOD_DEFLATED, 8);
+    local.writeUInt16LE(DOS_TIME, 10);
+    local.writeUInt16LE(DOS_DATE, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+    central.writeUInt16LE(20, 4); // Version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(METHOD_DEFLATED, 10);
+    central.writeUInt16LE(DOS_TIME, 12);
+    central.writeUInt16LE(DOS_DATE, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+// Reads the central directory up front and inflates entries only when they are looked up, so
+// callers pay for the files they need rather than everything the archive claims to hold
+export function openZip(archive: Buffer): ZipArchive {
+  // The end record sits at the very end, followed only by an optional comment of up to 64 KiB
+  let endOffset = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const entryCount = archive.readUInt16LE(endOffset + 10);
+  const centralSize = archive.readUInt32LE(endOffset + 12);
+  const centralOffset = archive.readUInt32LE(endOffset + 16);
+  if (entryCount > MAX_ENTRIES) {
+    throw new Error('The ZIP archive has too many entries');
+  }
+  if (centralOffset + centralSize > endOffset) {
+    throw new Error('Corrupt ZIP archive');
+  }
+
+  const entries = new Map<string, CentralEntry>();
+  const ranges: Array<{ start: number; end: number }> = [];
+  let declaredSize = 0;
+  let position = centralOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (position + 46 > endOffset || archive.readUInt32LE(position) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt ZIP archive');
+    }
+
+    const method = archive.readUInt16LE(position + 10);
+    const checksum = archive.readUInt32LE(position + 16);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const size = archive.readUInt32LE(position + 24);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const extraLength = archive.readUInt16LE(position + 30);
+    const commentLength = archive.readUInt16LE(position + 32);
+    const localOffset = archive.readUInt32LE(position + 42);
+    if (position + 46 + nameLength > endOffset) {
+      throw new Error('Corrupt ZIP archive');
+    }
+    const name = archive.toString('utf8', position + 46, position + 46 + nameLength);
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue; // Directory entry
+    }
+    if (size > MAX_ENTRY_SIZE) {
+      throw new Error(`ZIP entry ${name} is too large`);
+    }
+    declaredSize += size;
+    if (declaredSize > MAX_TOTAL_SIZE) {
+      throw new Error('The ZIP archive is too large once extracted');
+    }
+    if (method !== METHOD_STORED && method !== METHOD_DEFLATED) {
+      throw new Error(`ZIP entry ${name} uses an unsupported compression method`);
+    }
+    if (entries.has(name)) {
+      throw new Error(`ZIP entry ${name} appears more than once`);
+    }
+
+    // Entry data has to sit between the start of the archive and the central directory
+    if (localOffset + 30 > centralOffset || archive.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt ZIP archive');
+    }
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const dataEnd = dataStart + compressedSize;
+    if (dataEnd > centralOffset) {
+      throw new Error('Corrupt ZIP archive');
+    }
+
+    entries.set(name, { method, checksum, size, dataStart, dataEnd });
+    ranges.push({ start: localOffset, end: dataEnd });
+  }
+
+  // Entries sharing bytes would let one small payload be counted as many files
+  ranges.sort((a, b) => a.start - b.start);
+  for (let i = 1; i < ranges.length; i++) {
+    if (ranges[i].start < ranges[i - 1].end) {
+      throw new Error('Corrupt ZIP archive');
+    }
+  }
+
+  let inflatedSize = 0;
+
+  return {
+    names: [...entries.keys()],
+    read(name: string): Buffer | null {
+      const entry = entries.get(name);
+      if (!entry) {
+        return null;
+      }
+
+      const raw = archive.subarray(entry.dataStart, entry.dataEnd);
+      let data: Buffer;
+      if (entry.method === METHOD_STORED) {
+        data = Buffer.from(raw);
+      } else {
+        try {
+          // Never inflate past the size the central directory declared
+          data = inflateRawSync(raw, { maxOutputLength: Math.max(entry.size, 1) });
+        } catch {
+          throw new Error(`ZIP entry ${name} is corrupt`);
+        }
+      }
+
+      if (data.length !== entry.size || crc32(data) !== entry.checksum) {
+        throw new Error(`ZIP entry ${name} is corrupt`);
+      }
+
+      // Repeated lookups of the same entry still count against the archive's total
+      inflatedSize += data.length;
+      if (inflatedSize > MAX_TOTAL_SIZE) {
+        throw new Error('The ZIP archive is too large once extracted');
+      }
+
+      return data;
+    },
+  };
+}